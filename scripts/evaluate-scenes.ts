@@ -0,0 +1,126 @@
+/**
+ * Scene evaluation runner
+ *
+ *   pnpm eval:scenes [run] [fixtures.json] [report.json]   score the working tree
+ *   pnpm eval:scenes compare <base.json> <head.json>        diff two saved reports
+ *   pnpm eval:scenes diff <baseRef> [headRef]               score two commits and diff them
+ *
+ * `diff` checks each ref out into a temporary git worktree and scores it with
+ * the fixtures of the working tree, so labels stay fixed while scorers change.
+ * Without headRef the working tree is the head. Both refs must contain this
+ * runner. Set SCENE_ANALYZER to evaluate another analyzer backend.
+ * compare and diff exit with status 1 when anything regressed.
+ */
+
+import { execFileSync } from 'child_process'
+import { mkdtempSync, rmSync, symlinkSync, existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { sceneEvaluationService, SceneEvaluationReport } from '../src/services/SceneEvaluationService'
+
+const DEFAULT_FIXTURES = path.resolve('tests/fixtures/scene-evaluation.json')
+const RUNNER = 'scripts/evaluate-scenes.ts'
+
+async function runEvaluation(fixturesPath: string, commit?: string): Promise<SceneEvaluationReport> {
+  const fixtures = await sceneEvaluationService.loadFixtures(fixturesPath)
+
+  // The finders log every candidate; keep the report readable
+  const log = console.log
+  console.log = () => {}
+  try {
+    return await sceneEvaluationService.evaluate(fixtures, { commit })
+  } finally {
+    console.log = log
+  }
+}
+
+function git(args: string[], cwd = process.cwd()): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8' }).trim()
+}
+
+function currentCommit(): string | undefined {
+  try {
+    const commit = git(['rev-parse', '--short', 'HEAD'])
+    return git(['status', '--porcelain']) ? `${commit}+dirty` : commit
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Score a commit in a temporary worktree that shares this checkout's node_modules
+ */
+async function evaluateRef(ref: string, fixturesPath: string): Promise<SceneEvaluationReport> {
+  const commit = git(['rev-parse', '--short', ref])
+  const worktree = mkdtempSync(path.join(os.tmpdir(), `scene-eval-${commit}-`))
+  const reportPath = path.join(worktree, 'scene-evaluation-report.json')
+
+  git(['worktree', 'add', '--detach', worktree, commit])
+  try {
+    if (!existsSync(path.join(worktree, RUNNER))) {
+      throw new Error(`${ref} (${commit}) has no ${RUNNER}; pick a commit that includes the evaluation harness`)
+    }
+    symlinkSync(path.resolve('node_modules'), path.join(worktree, 'node_modules'), 'dir')
+
+    console.log(`Evaluating ${ref} (${commit})...`)
+    execFileSync(
+      process.execPath,
+      [path.join('node_modules', 'payload', 'bin.js'), 'run', RUNNER, 'run', fixturesPath, reportPath],
+      { cwd: worktree, stdio: ['ignore', 'ignore', 'inherit'], env: { ...process.env, SCENE_EVAL_COMMIT: commit } }
+    )
+    // Read the report before the finally block removes the worktree it lives in
+    return JSON.parse(await readFile(reportPath, 'utf8'))
+  } finally {
+    git(['worktree', 'remove', '--force', worktree])
+    rmSync(worktree, { recursive: true, force: true })
+  }
+}
+
+async function main() {
+  const [command = 'run', ...args] = process.argv.slice(2)
+
+  switch (command) {
+    case 'run': {
+      const [fixturesPath = DEFAULT_FIXTURES, reportPath] = args
+      const report = await runEvaluation(path.resolve(fixturesPath), process.env.SCENE_EVAL_COMMIT || currentCommit())
+      if (reportPath) {
+        await writeFile(reportPath, JSON.stringify(report, null, 2))
+      }
+      console.log(sceneEvaluationService.formatReport(report))
+      return
+    }
+
+    case 'compare': {
+      const [basePath, headPath] = args
+      if (!basePath || !headPath) throw new Error('Usage: compare <base.json> <head.json>')
+
+      const [base, head] = await Promise.all(
+        [basePath, headPath].map(async (file) => JSON.parse(await readFile(file, 'utf8')) as SceneEvaluationReport)
+      )
+      const comparison = sceneEvaluationService.compareReports(base, head)
+      console.log(sceneEvaluationService.formatComparison(comparison))
+      if (comparison.regressions > 0) process.exitCode = 1
+      return
+    }
+
+    case 'diff': {
+      const [baseRef, headRef] = args
+      if (!baseRef) throw new Error('Usage: diff <baseRef> [headRef]')
+
+      const base = await evaluateRef(baseRef, DEFAULT_FIXTURES)
+      const head = headRef
+        ? await evaluateRef(headRef, DEFAULT_FIXTURES)
+        : await runEvaluation(DEFAULT_FIXTURES, currentCommit())
+      const comparison = sceneEvaluationService.compareReports(base, head)
+      console.log(sceneEvaluationService.formatComparison(comparison))
+      if (comparison.regressions > 0) process.exitCode = 1
+      return
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" (use run, compare or diff)`)
+  }
+}
+
+await main()
@@ -8,7 +8,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
 import { EnhancedSeedingService } from '@/services/EnhancedSeedingService'
+import { authorizeRequest } from '@/lib/utils/api-auth'
 
 export interface EnhancedSeedingRequest {
   cleanExisting?: boolean
@@ -49,6 +52,10 @@ export async function POST(request: NextRequest): Promise<NextResponse<EnhancedS
   const startTime = new Date()
   
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'admin:seed')
+    if (auth instanceof NextResponse) return auth
+
     const body = await request.json()
     const {
       cleanExisting = false,
@@ -223,8 +230,12 @@ export async function GET(): Promise<NextResponse> {
  * DELETE /api/v1/admin/seed-reference-shots-enhanced
  * Clean all reference shots (admin only)
  */
-export async function DELETE(): Promise<NextResponse> {
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'admin:seed')
+    if (auth instanceof NextResponse) return auth
+
     console.log('🗑️  Cleaning all reference shots...')
 
     const seedingService = new EnhancedSeedingService()
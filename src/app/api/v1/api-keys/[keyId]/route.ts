@@ -0,0 +1,58 @@
+/**
+ * API Key API
+ *
+ * DELETE /api/v1/api-keys/[keyId] - Revoke a key
+ * The key stays listed with revokedAt set; requests using it are rejected immediately.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { apiKeyService } from '../../../../../services/ApiKeyService'
+import { authenticateRequest, forbiddenResponse, hasScope } from '@/lib/utils/api-auth'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { keyId } = await params
+    const auth = await authenticateRequest(request, payload)
+    if (auth instanceof NextResponse) return auth
+
+    let doc: any
+    try {
+      doc = await payload.findByID({ collection: 'api-keys', id: keyId, depth: 0 })
+    } catch {
+      doc = null
+    }
+    if (!doc) {
+      return NextResponse.json({ success: false, error: 'API key not found' }, { status: 404 })
+    }
+
+    // Users may revoke their own keys; anything else needs admin:keys
+    const owner = String(typeof doc.user === 'object' ? doc.user?.id : doc.user)
+    const isOwnSessionKey = auth.type === 'user' && owner === auth.userId
+    if (!isOwnSessionKey && !hasScope(auth, 'admin:keys')) {
+      return forbiddenResponse('Revoking this key requires the admin:keys scope')
+    }
+
+    // Project-restricted keys may only revoke keys inside their own projects
+    const keyProjects: string[] = doc.projectIds || []
+    if (auth.projectIds && (keyProjects.length === 0 || keyProjects.some((id) => !auth.projectIds!.includes(id)))) {
+      return forbiddenResponse('API key is not permitted to revoke this key')
+    }
+
+    const revoked = await apiKeyService.revokeKey(payload, keyId)
+    console.log(`🔒 Revoked API key ${doc.prefix}`)
+
+    return NextResponse.json({ success: true, apiKey: apiKeyService.toSummary(revoked) })
+  } catch (error) {
+    console.error('API key revoke error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
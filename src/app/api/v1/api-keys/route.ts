@@ -0,0 +1,116 @@
+/**
+ * API Keys API
+ *
+ * GET /api/v1/api-keys - List keys (your own, or all with ?all=true and the admin:keys scope)
+ * POST /api/v1/api-keys - Create a key
+ * Body: { name, scopes: string[], projectIds?: string[], expiresAt?: string, userId?: string }
+ *
+ * Signed-in users manage their own keys; other users' keys and calls made with
+ * an API key need the admin:keys scope. The plaintext key is only included in
+ * the create response, and a new key cannot exceed the caller's own scopes or projects.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { apiKeyService } from '../../../../services/ApiKeyService'
+import { API_SCOPES, ApiScope } from '@/lib/config/api-auth'
+import { ApiPrincipal, authenticateRequest, forbiddenResponse, hasScope } from '@/lib/utils/api-auth'
+
+async function authorizeKeyManagement(request: NextRequest, payload: any): Promise<ApiPrincipal | NextResponse> {
+  const auth = await authenticateRequest(request, payload)
+  if (auth instanceof NextResponse) return auth
+  if (auth.type === 'api-key' && !hasScope(auth, 'admin:keys')) {
+    return forbiddenResponse('API key is missing the "admin:keys" scope')
+  }
+  return auth
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeKeyManagement(request, payload)
+    if (auth instanceof NextResponse) return auth
+
+    const { searchParams } = new URL(request.url)
+    const all = searchParams.get('all') === 'true'
+    if (all && !hasScope(auth, 'admin:keys')) {
+      return forbiddenResponse('Listing every key requires the admin role')
+    }
+    const keys = await apiKeyService.listKeys(payload, all || !auth.userId ? undefined : auth.userId)
+
+    return NextResponse.json({ success: true, keys, count: keys.length })
+  } catch (error) {
+    console.error('API key list error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeKeyManagement(request, payload)
+    if (auth instanceof NextResponse) return auth
+
+    const body = await request.json()
+    const scopes: ApiScope[] = Array.isArray(body.scopes) ? body.scopes : []
+    const projectIds: string[] = Array.isArray(body.projectIds) ? body.projectIds.map(String) : []
+    const userId = body.userId || auth.userId
+
+    if (!body.name || scopes.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'name and at least one scope are required' },
+        { status: 400 }
+      )
+    }
+
+    const unknownScopes = scopes.filter((scope) => !API_SCOPES.includes(scope))
+    if (unknownScopes.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown scopes: ${unknownScopes.join(', ')}`, availableScopes: API_SCOPES },
+        { status: 400 }
+      )
+    }
+
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'userId is required' }, { status: 400 })
+    }
+
+    if (userId !== auth.userId && !hasScope(auth, 'admin:keys')) {
+      return forbiddenResponse('Creating keys for other users requires the admin role')
+    }
+
+    // No privilege escalation through key creation
+    const missingScopes = scopes.filter((scope) => !hasScope(auth, scope))
+    if (missingScopes.length > 0) {
+      return forbiddenResponse(`Cannot grant scopes this key does not have: ${missingScopes.join(', ')}`)
+    }
+    if (auth.projectIds && (projectIds.length === 0 || projectIds.some((id) => !auth.projectIds!.includes(id)))) {
+      return forbiddenResponse('Keys created by a project-restricted key must be limited to the same projects')
+    }
+
+    const { key, doc } = await apiKeyService.createKey(payload, {
+      userId,
+      name: body.name,
+      scopes,
+      projectIds,
+      expiresAt: body.expiresAt,
+    })
+
+    return NextResponse.json({
+      success: true,
+      key,
+      apiKey: apiKeyService.toSummary(doc),
+      message: 'Store this key now; it cannot be retrieved again',
+    }, { status: 201 })
+  } catch (error) {
+    console.error('API key create error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
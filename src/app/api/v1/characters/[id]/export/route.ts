@@ -0,0 +1,67 @@
+/**
+ * Character Export API
+ *
+ * GET /api/v1/characters/[id]/export
+ * Downloads a self-contained bundle: character JSON, media binaries, per-image
+ * reference shot and DINO metadata, and relationships. The bundle is gzipped
+ * JSON by default; `?format=json` returns it uncompressed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { characterBundleService } from '../../../../../../services/CharacterBundleService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+    const { searchParams, origin } = new URL(request.url)
+    const format = searchParams.get('format') || 'gzip'
+
+    try {
+      await payload.findByID({ collection: 'characters', id, depth: 0 })
+    } catch {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 })
+    }
+
+    console.log(`📦 Exporting character bundle: ${id}`)
+
+    const bundle = await characterBundleService.exportCharacter(payload, id, { baseUrl: origin })
+    const missingMedia = bundle.media.filter((media) => !media.data).length
+    const filename = `${bundle.source.characterId || id}.charbundle.json`
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(bundle), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'X-Bundle-Missing-Media': String(missingMedia),
+        },
+      })
+    }
+
+    const archive = characterBundleService.encodeBundle(bundle)
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${filename}.gz"`,
+        'Content-Length': String(archive.length),
+        'X-Bundle-Missing-Media': String(missingMedia),
+      },
+    })
+  } catch (error) {
+    console.error('Character export error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to export character' },
+      { status: 500 }
+    )
+  }
+}
@@ -8,7 +8,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
 import { EnhancedReferenceSearchService } from '@/services/EnhancedReferenceSearchService'
+import { referenceRankingService } from '@/services/ReferenceRankingService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface SceneReferenceRequest {
   sceneDescription: string
@@ -18,6 +22,8 @@ export interface SceneReferenceRequest {
   minQualityScore?: number
   maxResults?: number
   detailedAnalysis?: boolean
+  eraId?: string // Appearance era; defaults to the era covering storyYear
+  storyYear?: number
 }
 
 export interface SceneReferenceResponse {
@@ -42,6 +48,8 @@ export interface SceneReferenceResponse {
     confidence: number
     keywords: string[]
     reasoning: string
+    backend?: string
+    fallbackFrom?: string
     requiredShots: {
       preferredLens: number[]
       preferredCrop: string[]
@@ -59,6 +67,7 @@ export interface SceneReferenceResponse {
     selectionConfidence: number
     processingTimeMs: number
   }
+  era?: { eraId: string; name: string } | null
   error?: string
 }
 
@@ -74,6 +83,9 @@ export async function POST(
   
   try {
     const { id: characterId } = await params
+    const payload = await getPayload({ config })
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     const body = await request.json()
     
     const {
@@ -83,7 +95,9 @@ export async function POST(
       includeAlternatives = true,
       minQualityScore = 70,
       maxResults = 5,
-      detailedAnalysis = true
+      detailedAnalysis = true,
+      eraId,
+      storyYear,
     }: SceneReferenceRequest = body
 
     // Validate required parameters
@@ -118,6 +132,8 @@ export async function POST(
         includeAlternatives,
         minQualityScore,
         maxResults,
+        eraId,
+        storyYear,
       }
     )
 
@@ -132,13 +148,14 @@ export async function POST(
         imageUrl: alt.imageUrl,
         mediaId: alt.mediaId,
         score: Math.round(alt.totalScore),
-        reasoning: `${alt.lens}mm ${alt.crop?.toUpperCase()} shot (${alt.angle}) - Score: ${Math.round(alt.totalScore)}/100`
+        reasoning: [...alt.reasons, `Score: ${Math.round(alt.totalScore)}/100`].join('. ')
       })),
       sceneAnalysis: detailedAnalysis ? result.sceneAnalysis : undefined,
       searchMetrics: result.searchMetrics ? {
         ...result.searchMetrics,
         processingTimeMs
       } : undefined,
+      era: result.era,
       error: result.error
     }
 
@@ -179,13 +196,15 @@ export async function GET(
 ): Promise<NextResponse> {
   try {
     const { id: characterId } = await params
+    const payload = await getPayload({ config })
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     
-    // Get character info and available references
-    const searchService = new EnhancedReferenceSearchService()
-    await searchService.initialize()
-
-    // Get available images count (simplified version)
-    const availableImages = await searchService['getCharacterReferenceImages'](characterId, {})
+    // Get character info, available references and the project's ranking weights
+    const searchService = new EnhancedReferenceSearchService(payload)
+    const character = await payload.findByID({ collection: 'characters', id: characterId })
+    const availableImages = searchService.getCharacterReferenceImages(character)
+    const weights = await referenceRankingService.getWeights(payload, character?.novelMovieIntegration?.projectId)
     
     const info = {
       characterId,
@@ -201,15 +220,7 @@ export async function GET(
           'Multi-factor scoring system',
           'Detailed reasoning generation'
         ],
-        scoringFactors: {
-          sceneTypeMatch: '25%',
-          lensPreference: '20%',
-          cropPreference: '20%',
-          anglePreference: '15%',
-          emotionalTone: '10%',
-          compositionMatch: '5%',
-          qualityScore: '5%'
-        }
+        scoringFactors: referenceRankingService.describeWeights(weights)
       },
       usage: {
         endpoint: `POST /api/v1/characters/${characterId}/find-reference-for-scene`,
@@ -220,7 +231,9 @@ export async function GET(
           includeAlternatives: 'Return top alternative matches',
           minQualityScore: 'Filter by minimum quality threshold',
           maxResults: 'Limit number of alternatives returned',
-          detailedAnalysis: 'Include full scene analysis in response'
+          detailedAnalysis: 'Include full scene analysis in response',
+          eraId: 'Search the core set of an appearance era',
+          storyYear: 'Story year of the scene; selects the era covering it'
         }
       },
       examples: {
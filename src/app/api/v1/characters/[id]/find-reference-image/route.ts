@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { referenceSearchService } from '../../../../../../services/ReferenceSearchService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { appearanceEraService } from '@/services/AppearanceEraService'
 
 export interface FindReferenceImageRequest {
   prompt: string
@@ -16,6 +18,8 @@ export interface FindReferenceImageRequest {
   includeAddonShots?: boolean
   minQualityScore?: number
   returnAlternatives?: boolean
+  eraId?: string // Appearance era; defaults to the era covering storyYear
+  storyYear?: number
 }
 
 export interface FindReferenceImageResponse {
@@ -54,6 +58,7 @@ export interface FindReferenceImageResponse {
     keywords: string[]
     confidence: number
   }
+  era?: { eraId: string; name: string } | null
   error?: string
 }
 
@@ -64,6 +69,8 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     const body: FindReferenceImageRequest = await request.json()
 
     console.log(`🔍 Finding reference image for character: ${characterId}`)
@@ -91,6 +98,13 @@ export async function POST(
       }, { status: 404 })
     }
 
+    if (body.eraId && !appearanceEraService.findEra(character, body.eraId)) {
+      return NextResponse.json({
+        success: false,
+        error: `Era "${body.eraId}" is not defined for this character`,
+      }, { status: 400 })
+    }
+
     // Check if character has reference images
     if (!character.imageGallery || character.imageGallery.length === 0) {
       return NextResponse.json({
@@ -110,6 +124,8 @@ export async function POST(
         preferredCrop: body.preferredCrop,
         includeAddonShots: body.includeAddonShots || false,
         minQualityScore: body.minQualityScore || 70,
+        eraId: body.eraId,
+        storyYear: body.storyYear,
       }
     )
 
@@ -140,6 +156,7 @@ export async function POST(
         confidence: searchResult.bestMatch.confidence,
         reasoning: searchResult.bestMatch.reasoning,
       } : undefined,
+      era: searchResult.era,
     }
 
     // Include alternatives if requested
@@ -174,6 +191,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     const { searchParams } = new URL(request.url)
     
     const includeAddonShots = searchParams.get('includeAddonShots') === 'true'
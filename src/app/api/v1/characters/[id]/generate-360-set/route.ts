@@ -9,7 +9,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
-import { v4 as uuidv4 } from 'uuid'
+import { webhookService } from '../../../../../../services/WebhookService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { budgetDetails, budgetExceededResponse } from '@/lib/utils/budget'
+import { usageService } from '../../../../../../services/UsageService'
+import { wardrobeService } from '../../../../../../services/WardrobeService'
+import { appearanceEraService } from '../../../../../../services/AppearanceEraService'
 
 export interface Generate360SetRequest {
   style?: 'character_production' | 'cinematic' | 'realistic'
@@ -18,15 +23,22 @@ export interface Generate360SetRequest {
   angles?: string[]
   maxRetries?: number
   customSeed?: number
+  outfitId?: string // Wardrobe outfit to generate the set in
+  eraId?: string // Appearance era; generates the era's set from its master reference
+  callbackUrl?: string
+  callbackSecret?: string
 }
 
 export interface Generate360SetResponse {
   success: boolean
   jobId?: string
-  status: 'accepted' | 'processing' | 'completed' | 'failed'
+  status: 'accepted' | 'awaiting_approval' | 'processing' | 'completed' | 'failed'
   message?: string
+  budget?: ReturnType<typeof budgetDetails>
+  approveUrl?: string
   estimatedCompletionTime?: string
   pollUrl?: string
+  eventsUrl?: string
   error?: string
 }
 
@@ -48,10 +60,24 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: Generate360SetRequest = await request.json()
 
     console.log(`🚀 Starting async 360° image generation for character: ${characterId}`)
 
+    // Validate optional webhook callback
+    if (body.callbackUrl !== undefined) {
+      const callbackError = webhookService.validateCallbackUrl(body.callbackUrl)
+      if (callbackError) {
+        return NextResponse.json({
+          success: false,
+          status: 'failed',
+          error: callbackError,
+        }, { status: 400 })
+      }
+    }
+
     // Validate character exists
     const character = await payload.findByID({
       collection: 'characters',
@@ -67,21 +93,39 @@ export async function POST(
       }, { status: 404 })
     }
 
-    // Validate character has master reference image
-    const masterRef = typeof character.masterReferenceImage === 'string'
-      ? null
-      : character.masterReferenceImage
+    const era = appearanceEraService.selectEra(character, { eraId: body.eraId })
+    if (era === undefined) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: `Era "${body.eraId}" is not defined for this character`,
+      }, { status: 400 })
+    }
 
-    if (!masterRef?.dinoAssetId) {
+    // Validate character (or the era) has master reference image
+    const masterRefAssetId = era
+      ? era.masterReferenceAssetId
+      : typeof character.masterReferenceImage === 'string'
+        ? null
+        : character.masterReferenceImage?.dinoAssetId
+
+    if (!masterRefAssetId) {
       return NextResponse.json({
         success: false,
         status: 'failed',
-        error: 'Character must have a master reference image for 360° generation',
+        error: era
+          ? `Era "${era.name}" must have a master reference image for 360° generation`
+          : 'Character must have a master reference image for 360° generation',
       }, { status: 400 })
     }
 
-    // Generate unique job ID
-    const jobId = uuidv4()
+    if (body.outfitId && !wardrobeService.findOutfit(character, body.outfitId)) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: `Outfit "${body.outfitId}" is not in the character's wardrobe`,
+      }, { status: 400 })
+    }
 
     // Extract parameters with defaults
     const style = body.style || 'character_production'
@@ -90,59 +134,70 @@ export async function POST(
     const maxRetries = body.maxRetries || 3
     const customSeed = body.customSeed
 
-    console.log(`📋 Creating job ${jobId} for ${imageCount} images with style: ${style}`)
+    const budgetCheck = await usageService.checkBudget(
+      payload,
+      character.novelMovieIntegration?.projectId,
+      usageService.estimateCost(imageCount)
+    )
+    if (budgetCheck.action === 'refuse') {
+      return budgetExceededResponse(budgetCheck)
+    }
+    const awaitingApproval = budgetCheck.action === 'approval'
 
-    // Create job record in database
-    const jobData = {
-      jobId,
+    console.log(`📋 Queueing job for ${imageCount} images with style: ${style}`)
+
+    // Persist the job in the durable queue; a worker picks it up and
+    // it survives server restarts
+    const backgroundJobService = BackgroundJobService.getInstance()
+    const job = await backgroundJobService.enqueueJob(payload, {
       characterId,
-      jobType: '360-set' as const,
-      status: 'pending' as const,
-      progress: {
-        current: 0,
-        total: imageCount,
-        percentage: 0,
-        currentTask: 'Initializing...'
-      },
+      jobType: '360-set',
+      total: imageCount,
       requestData: {
         style,
         qualityThreshold,
         imageCount,
         maxRetries,
         customSeed,
+        outfitId: body.outfitId,
+        eraId: era?.eraId,
         angles: body.angles || DEFAULT_ANGLES.slice(0, imageCount)
       },
-      startedAt: new Date().toISOString(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    }
-
-    await payload.create({
-      collection: 'image-generation-jobs',
-      data: jobData,
+      webhook: body.callbackUrl
+        ? { callbackUrl: body.callbackUrl, secret: body.callbackSecret }
+        : undefined,
+      budgetApproval: awaitingApproval
+        ? { estimatedCost: budgetCheck.estimatedCost, spent: budgetCheck.spent, limit: budgetCheck.budget!.limit }
+        : undefined,
     })
-
-    // Start background processing
-    const backgroundJobService = BackgroundJobService.getInstance()
-
-    // Don't await this - let it run in background
-    backgroundJobService.startJob(jobId, characterId, '360-set', jobData.requestData, payload)
-      .catch(error => {
-        console.error(`Background job ${jobId} failed to start:`, error)
-      })
+    const jobId = job.jobId
 
     // Calculate estimated completion time (rough estimate: 30 seconds per image)
     const estimatedSeconds = imageCount * 30
     const estimatedCompletionTime = new Date(Date.now() + estimatedSeconds * 1000).toISOString()
 
+    if (awaitingApproval) {
+      return NextResponse.json({
+        success: true,
+        jobId,
+        status: 'awaiting_approval',
+        message: `360° image generation would exceed the project budget; the job will start once an admin approves it.`,
+        budget: budgetDetails(budgetCheck),
+        approveUrl: `/api/v1/jobs/${jobId}/approve`,
+        pollUrl: `/api/v1/jobs/${jobId}/status`,
+        eventsUrl: `/api/v1/jobs/${jobId}/events`,
+      }, { status: 202 })
+    }
+
     // Return immediate response with job details
     return NextResponse.json({
       success: true,
       jobId,
       status: 'accepted',
-      message: `360° image generation job started. Generating ${imageCount} images.`,
+      message: `360° image generation job queued. Generating ${imageCount} images.`,
       estimatedCompletionTime,
       pollUrl: `/api/v1/jobs/${jobId}/status`,
+      eventsUrl: `/api/v1/jobs/${jobId}/events`,
     }, { status: 202 }) // 202 Accepted
 
   } catch (error) {
@@ -157,5 +212,5 @@ export async function POST(
 }
 
 // Note: This endpoint now uses async processing with the BackgroundJobService
-// The actual image generation logic has been moved to the background service
-// and uses the enhanced 360° reference system with 27 professional shots
+// Jobs are persisted in the image-generation-jobs queue and processed by a worker
+// using the enhanced 360° reference system with 27 professional shots
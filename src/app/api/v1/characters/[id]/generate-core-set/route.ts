@@ -8,22 +8,43 @@ import { getPayload } from 'payload'
 import config from '@payload-config'
 // import { characterWorkflowService } from '../../../../../../services/CharacterWorkflowService' // Legacy service, now using CoreSetGenerationService
 import { coreSetGenerationService } from '../../../../../../services/CoreSetGenerationService'
+import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
+import { webhookService } from '../../../../../../services/WebhookService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { budgetDetails, budgetExceededResponse } from '@/lib/utils/budget'
+import { usageService } from '@/services/UsageService'
+import { wardrobeService } from '@/services/WardrobeService'
+import { appearanceEraService } from '@/services/AppearanceEraService'
 
 interface GenerateCoreSetRequest {
   includeAddonShots?: boolean
   customSeed?: number
   qualityThreshold?: number
   maxRetries?: number
+  outfitId?: string // Wardrobe outfit to generate the set in
+  eraId?: string // Appearance era; generates the era's core set from its master reference
+  async?: boolean
+  callbackUrl?: string
+  callbackSecret?: string
 }
 
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: GenerateCoreSetRequest = await request.json().catch(() => ({}))
 
     console.log(`🎬 Starting enhanced 360° core set generation for character: ${characterId}`)
 
+    if (body.callbackUrl !== undefined) {
+      const callbackError = webhookService.validateCallbackUrl(body.callbackUrl)
+      if (callbackError) {
+        return NextResponse.json({ error: callbackError }, { status: 400 })
+      }
+    }
+
     // Get the character document with full depth for relationships
     const character = await payload.findByID({
       collection: 'characters',
@@ -35,15 +56,30 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Character not found' }, { status: 404 })
     }
 
+    const outfit = wardrobeService.selectOutfit(character, { outfitId: body.outfitId })
+    if (outfit === undefined) {
+      return NextResponse.json({ error: `Outfit "${body.outfitId}" is not in the character's wardrobe` }, { status: 400 })
+    }
+
+    const era = appearanceEraService.selectEra(character, { eraId: body.eraId })
+    if (era === undefined) {
+      return NextResponse.json({ error: `Era "${body.eraId}" is not defined for this character` }, { status: 400 })
+    }
+
     // Check if master reference image exists and is processed
-    if (!character.masterReferenceImage) {
+    const masterReference = era ? era.masterReferenceImageId : character.masterReferenceImage
+    if (!masterReference) {
       return NextResponse.json(
-        { error: 'Master reference image is required before generating core set' },
+        {
+          error: era
+            ? `Era "${era.name}" needs a master reference image before generating its core set`
+            : 'Master reference image is required before generating core set',
+        },
         { status: 400 },
       )
     }
 
-    if (!character.masterReferenceProcessed) {
+    if (!era && !character.masterReferenceProcessed) {
       return NextResponse.json(
         { error: 'Master reference image must be processed before generating core set' },
         { status: 400 },
@@ -51,10 +87,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     // Get the master reference media document
-    const masterRefId =
-      typeof character.masterReferenceImage === 'string'
-        ? character.masterReferenceImage
-        : character.masterReferenceImage.id
+    const masterRefId = typeof masterReference === 'string' ? masterReference : masterReference.id
 
     const masterRefMedia = await payload.findByID({
       collection: 'media',
@@ -68,8 +101,58 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       )
     }
 
-    // Prepare character data for template generation
-    const characterData = {
+    // Synchronous requests cannot wait for approval, so only jobs may exceed the budget
+    const budgetCheck = await usageService.checkBudget(
+      payload,
+      character.novelMovieIntegration?.projectId,
+      usageService.estimateCost(27)
+    )
+    const queueForApproval = budgetCheck.action === 'approval' && Boolean(body.async || body.callbackUrl)
+    if (budgetCheck.action !== 'allow' && !queueForApproval) {
+      return budgetExceededResponse(budgetCheck)
+    }
+
+    // Async requests and requests with a callback URL are generated by the job
+    // queue; callers follow the job through webhooks or the events stream
+    if (body.async || body.callbackUrl) {
+      const job = await BackgroundJobService.getInstance().enqueueJob(payload, {
+        characterId,
+        jobType: 'core-set',
+        total: 27,
+        requestData: {
+          customSeed: body.customSeed,
+          qualityThreshold: body.qualityThreshold || 75,
+          maxRetries: body.maxRetries || 3,
+          outfitId: outfit?.outfitId,
+          eraId: era?.eraId,
+        },
+        webhook: body.callbackUrl
+          ? { callbackUrl: body.callbackUrl, secret: body.callbackSecret }
+          : undefined,
+        budgetApproval: queueForApproval
+          ? { estimatedCost: budgetCheck.estimatedCost, spent: budgetCheck.spent, limit: budgetCheck.budget!.limit }
+          : undefined,
+      })
+
+      return NextResponse.json(
+        {
+          success: true,
+          jobId: job.jobId,
+          status: queueForApproval ? 'awaiting_approval' : 'accepted',
+          message: queueForApproval
+            ? 'Core set generation would exceed the project budget; the job will start once an admin approves it.'
+            : 'Core set generation job queued.',
+          ...(queueForApproval && { budget: budgetDetails(budgetCheck), approveUrl: `/api/v1/jobs/${job.jobId}/approve` }),
+          pollUrl: `/api/v1/jobs/${job.jobId}/status`,
+          eventsUrl: `/api/v1/jobs/${job.jobId}/events`,
+        },
+        { status: 202 },
+      )
+    }
+
+    // Prepare character data for template generation, as the character looks in the era
+    const characterData = appearanceEraService.applyToCharacterData({
+      id: character.id,
       name: character.name,
       physicalDescription: character.physicalDescription,
       personality: character.personality,
@@ -78,8 +161,11 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       hairColor: character.hairColor,
       height: character.height,
       motivations: character.motivations,
+      clothing: character.clothing,
+      outfit: wardrobeService.toPromptOutfit(outfit),
+      novelMovieIntegration: character.novelMovieIntegration,
       // fears: character.fears, // Field doesn't exist in Character type
-    }
+    }, era)
 
     // Generate the 360° core set using new template system
     const result = await coreSetGenerationService.generate360CoreSet(
@@ -114,6 +200,10 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       imageFile: img.imageId,
       isCoreReference: true,
       referenceShot: img.referenceShot.id, // Link to reference shot template
+      promptTemplate: img.promptTemplate?.id,
+      promptTemplateVersion: img.promptTemplate?.version,
+      outfitId: img.outfitId || undefined,
+      eraId: img.eraId || undefined,
 
       // Enhanced metadata from template
       lens: img.referenceShot.lensMm,
@@ -144,18 +234,21 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       id: characterId,
       data: {
         imageGallery: updatedImageGallery,
-        coreSetGenerated: true,
-        coreSetGeneratedAt: new Date().toISOString(),
-        coreSetQuality: {
-          successCount: result.generatedImages.filter((img) => img.isValid).length,
-          totalAttempts: result.totalAttempts,
-          averageQuality:
-            result.generatedImages.reduce((sum, img) => sum + img.qualityScore, 0) /
-            result.generatedImages.length,
-          averageConsistency:
-            result.generatedImages.reduce((sum, img) => sum + img.consistencyScore, 0) /
-            result.generatedImages.length,
-        },
+        // The core set flags describe the base look; era sets are found by their eraId
+        ...(!era && {
+          coreSetGenerated: true,
+          coreSetGeneratedAt: new Date().toISOString(),
+          coreSetQuality: {
+            successCount: result.generatedImages.filter((img) => img.isValid).length,
+            totalAttempts: result.totalAttempts,
+            averageQuality:
+              result.generatedImages.reduce((sum, img) => sum + img.qualityScore, 0) /
+              result.generatedImages.length,
+            averageConsistency:
+              result.generatedImages.reduce((sum, img) => sum + img.consistencyScore, 0) /
+              result.generatedImages.length,
+          },
+        }),
       },
     })
 
@@ -167,6 +260,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       data: {
         characterId,
         characterName: character.name,
+        era: appearanceEraService.toSummary(era),
         generatedImages: result.generatedImages,
         failedImages: result.failedImages,
         totalAttempts: result.totalAttempts,
@@ -0,0 +1,188 @@
+/**
+ * Character Expression Sheet Generation API
+ *
+ * POST /api/v1/characters/{id}/generate-expression-sheet
+ * Queues a job that generates one frame per emotion from a single fixed
+ * reference shot (lens, angle and crop stay the same), checks every frame
+ * against the master reference and composes the frames into one sheet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { BackgroundJobService } from '@/services/BackgroundJobService'
+import { webhookService } from '@/services/WebhookService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { budgetDetails, budgetExceededResponse } from '@/lib/utils/budget'
+import { usageService } from '@/services/UsageService'
+import { wardrobeService } from '@/services/WardrobeService'
+import { appearanceEraService } from '@/services/AppearanceEraService'
+import { expressionSheetService } from '@/services/ExpressionSheetService'
+import { EXPRESSION_SHEET_CONFIG } from '@/lib/config/expression-sheets'
+
+export interface GenerateExpressionSheetRequest {
+  expressions?: string[] // Defaults to neutral plus the seven basic emotions
+  baseShotSlug?: string // Reference shot that fixes lens, angle and crop
+  qualityThreshold?: number
+  maxRetries?: number
+  customSeed?: number
+  outfitId?: string // Wardrobe outfit to generate the sheet in
+  eraId?: string // Appearance era; generates from the era's master reference
+  callbackUrl?: string
+  callbackSecret?: string
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
+    const body: GenerateExpressionSheetRequest = await request.json().catch(() => ({}))
+
+    if (body.callbackUrl !== undefined) {
+      const callbackError = webhookService.validateCallbackUrl(body.callbackUrl)
+      if (callbackError) {
+        return NextResponse.json({ success: false, status: 'failed', error: callbackError }, { status: 400 })
+      }
+    }
+
+    const expressionsValid = expressionSheetService.validateExpressions(body.expressions)
+    if (expressionsValid !== true) {
+      return NextResponse.json({ success: false, status: 'failed', error: expressionsValid }, { status: 400 })
+    }
+    const expressions = expressionSheetService.resolveExpressions(body.expressions).map((definition) => definition.expression)
+
+    let character: any
+    try {
+      character = await payload.findByID({ collection: 'characters', id: characterId, depth: 2 })
+    } catch {
+      character = null
+    }
+    if (!character) {
+      return NextResponse.json({ success: false, status: 'failed', error: 'Character not found' }, { status: 404 })
+    }
+
+    const era = appearanceEraService.selectEra(character, { eraId: body.eraId })
+    if (era === undefined) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: `Era "${body.eraId}" is not defined for this character`,
+      }, { status: 400 })
+    }
+
+    const masterRefAssetId = era
+      ? era.masterReferenceAssetId
+      : typeof character.masterReferenceImage === 'string'
+        ? null
+        : character.masterReferenceImage?.dinoAssetId
+
+    if (!masterRefAssetId) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: era
+          ? `Era "${era.name}" must have a master reference image for expression sheets`
+          : 'Character must have a master reference image for expression sheets',
+      }, { status: 400 })
+    }
+
+    if (body.outfitId && !wardrobeService.findOutfit(character, body.outfitId)) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: `Outfit "${body.outfitId}" is not in the character's wardrobe`,
+      }, { status: 400 })
+    }
+
+    const baseShotSlug = body.baseShotSlug || EXPRESSION_SHEET_CONFIG.baseShotSlug
+    let baseShot: any
+    try {
+      baseShot = await expressionSheetService.getBaseShot(payload, baseShotSlug)
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: error instanceof Error ? error.message : `Reference shot "${baseShotSlug}" not found`,
+      }, { status: 400 })
+    }
+
+    const budgetCheck = await usageService.checkBudget(
+      payload,
+      character.novelMovieIntegration?.projectId,
+      usageService.estimateCost(expressions.length)
+    )
+    if (budgetCheck.action === 'refuse') {
+      return budgetExceededResponse(budgetCheck)
+    }
+    const awaitingApproval = budgetCheck.action === 'approval'
+
+    console.log(`📋 Queueing expression sheet for ${character.name}: ${expressions.join(', ')} (${baseShot.shotName})`)
+
+    const job = await BackgroundJobService.getInstance().enqueueJob(payload, {
+      characterId,
+      jobType: 'expression-sheet',
+      total: expressions.length,
+      requestData: {
+        imageCount: expressions.length,
+        expressions,
+        baseShotSlug,
+        qualityThreshold: body.qualityThreshold,
+        maxRetries: body.maxRetries || 3,
+        customSeed: body.customSeed,
+        outfitId: body.outfitId,
+        eraId: era?.eraId,
+      },
+      webhook: body.callbackUrl
+        ? { callbackUrl: body.callbackUrl, secret: body.callbackSecret }
+        : undefined,
+      budgetApproval: awaitingApproval
+        ? { estimatedCost: budgetCheck.estimatedCost, spent: budgetCheck.spent, limit: budgetCheck.budget!.limit }
+        : undefined,
+    })
+    const jobId = job.jobId
+
+    if (awaitingApproval) {
+      return NextResponse.json({
+        success: true,
+        jobId,
+        status: 'awaiting_approval',
+        message: 'The expression sheet would exceed the project budget; the job will start once an admin approves it.',
+        budget: budgetDetails(budgetCheck),
+        approveUrl: `/api/v1/jobs/${jobId}/approve`,
+        pollUrl: `/api/v1/jobs/${jobId}/status`,
+        eventsUrl: `/api/v1/jobs/${jobId}/events`,
+      }, { status: 202 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: 'accepted',
+      message: `Expression sheet job queued. Generating ${expressions.length} expressions with ${baseShot.shotName}.`,
+      expressions,
+      referenceShot: {
+        slug: baseShot.slug,
+        lensMm: baseShot.lensMm,
+        angle: baseShot.angle,
+        crop: baseShot.crop,
+      },
+      estimatedCompletionTime: new Date(Date.now() + expressions.length * 30 * 1000).toISOString(),
+      pollUrl: `/api/v1/jobs/${jobId}/status`,
+      eventsUrl: `/api/v1/jobs/${jobId}/events`,
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('Expression sheet job creation error:', error)
+
+    return NextResponse.json({
+      success: false,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to create expression sheet job',
+    }, { status: 500 })
+  }
+}
@@ -7,6 +7,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { characterWorkflowService } from '../../../../../../services/CharacterWorkflowService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
 
 interface GenerateImageRequest {
   prompt: string
@@ -20,6 +22,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: GenerateImageRequest = await request.json()
 
     if (!body.prompt) {
@@ -79,6 +83,10 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     const count = Math.min(body.count || 1, 5) // Limit to 5 images max
     const results = []
 
+    const projectId = character.novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, count)
+    if (overBudget) return overBudget
+
     for (let i = 0; i < count; i++) {
       console.log(`Generating image ${i + 1}/${count}`)
 
@@ -88,6 +96,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
         masterRefMedia.dinoAssetId,
         coreReferenceAssetIds,
         payload,
+        { operation: 'on-demand-image', characterId, projectId },
       )
 
       if (result.success && result.imageId) {
@@ -179,6 +188,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     // Get the character document
     const character = await payload.findByID({
@@ -11,6 +11,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { imageGenerationService } from '../../../../../../services/ImageGenerationService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
 
 
 interface GenerateInitialImageRequest {
@@ -43,6 +45,8 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: GenerateInitialImageRequest = await request.json()
 
     if (!body.prompt) {
@@ -79,6 +83,10 @@ export async function POST(
     console.log(`Original user prompt: "${body.prompt}"`)
     console.log(`🚫 PROMPT MODIFICATION DISABLED - Using exact user prompt`)
 
+    const projectId = character.novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, 1, 'text-to-image')
+    if (overBudget) return overBudget
+
     // Generate the initial image using the exact user prompt without any modifications
     const generationResult = await imageGenerationService.generateImage(body.prompt, {
       style: 'none', // Disable style-based prompt enhancement
@@ -86,6 +94,7 @@ export async function POST(
       height: body.height || 1024,
       steps: 35, // Higher quality for reference image
       guidance: 8.0, // Strong adherence to prompt
+      usage: { operation: 'initial-image', characterId, projectId },
     })
 
     if (!generationResult.success || !generationResult.imageBuffer) {
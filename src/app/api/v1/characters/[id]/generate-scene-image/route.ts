@@ -9,6 +9,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { imageGenerationService } from '@/services/ImageGenerationService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
+import { stylePresetService } from '@/services/StylePresetService'
+import { wardrobeService, Outfit } from '@/services/WardrobeService'
+import { appearanceEraService } from '@/services/AppearanceEraService'
 
 export interface SceneImageRequest {
   sceneContext: string
@@ -19,6 +24,10 @@ export interface SceneImageRequest {
   lightingStyle?: string
   style?: string
   referenceImageAssetId?: string
+  outfitId?: string // Wardrobe outfit; defaults to the outfit worn in sceneNumber
+  sceneNumber?: number
+  eraId?: string // Appearance era; defaults to the era covering storyYear
+  storyYear?: number
 }
 
 export interface SceneImageResponse {
@@ -31,6 +40,8 @@ export interface SceneImageResponse {
     sceneType: string
     generatedAt: Date
     qualityScore?: number
+    outfitId?: string | null
+    eraId?: string | null
   }
   error?: string
   validationNotes?: string
@@ -43,6 +54,8 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: SceneImageRequest = await request.json()
 
     console.log(`Generating scene-specific image for character: ${characterId}`)
@@ -77,13 +90,35 @@ export async function POST(
       }, { status: 404 })
     }
 
-    // Build context-aware prompt
-    const scenePrompt = buildScenePrompt(character, body)
+    const outfit = wardrobeService.selectOutfit(character, body)
+    if (outfit === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: `Outfit "${body.outfitId}" is not in the character's wardrobe`,
+      }, { status: 400 })
+    }
 
-    // Get reference images for consistency
+    const era = appearanceEraService.selectEra(character, body)
+    if (era === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: `Era "${body.eraId}" is not defined for this character`,
+      }, { status: 400 })
+    }
+
+    // Build context-aware prompt, as the character looks in the era
+    const scenePrompt = buildScenePrompt(appearanceEraService.applyToCharacterData(character, era), body, outfit)
+
+    // Get reference images for consistency from the era's master reference and core set
+    const eraCoreReferences = (character.imageGallery || []).filter(
+      (img: any) => img.isCoreReference && appearanceEraService.isInEra(img, era)
+    )
+    const masterReferenceAssetId = era
+      ? era.masterReferenceAssetId
+      : typeof character.masterReferenceImage === 'object' ? character.masterReferenceImage?.dinoAssetId : null
     const referenceImageAssetId = body.referenceImageAssetId ||
-      (typeof character.masterReferenceImage === 'object' ? character.masterReferenceImage?.dinoAssetId : null) ||
-      character.imageGallery?.find((img: any) => img.isCoreReference)?.dinoAssetId
+      masterReferenceAssetId ||
+      eraCoreReferences.find((img: any) => img.dinoAssetId)?.dinoAssetId
 
     if (!referenceImageAssetId) {
       return NextResponse.json({
@@ -92,14 +127,23 @@ export async function POST(
       }, { status: 400 })
     }
 
+    const projectId = character.novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, 1)
+    if (overBudget) return overBudget
+
+    const stylePreset = await stylePresetService.getProjectPreset(payload, projectId)
+
     // Generate the scene-specific image
     const generationResult = await imageGenerationService.generateImage(scenePrompt, {
       referenceImageAssetId: referenceImageAssetId,
       style: 'custom',
-      additionalReferenceIds: character.imageGallery
-        ?.filter((img: any) => img.isCoreReference)
-        ?.map((img: any) => img.dinoAssetId)
-        ?.slice(0, 3) // Limit to 3 additional references
+      // Costume references first, then core references; limit to 3 additional references
+      additionalReferenceIds: [
+        ...(outfit?.referenceAssetIds || []),
+        ...eraCoreReferences.filter((img: any) => img.dinoAssetId).map((img: any) => img.dinoAssetId),
+      ].slice(0, 3),
+      stylePreset,
+      usage: { operation: 'scene-image', characterId, projectId },
     })
 
     if (!generationResult.success || !generationResult.imageBuffer) {
@@ -150,7 +194,9 @@ export async function POST(
             imageFile: mediaResult.mediaId,
             isCoreReference: false,
             shotType: `scene_${body.sceneType}`,
-            tags: `scene,${body.sceneType},${body.mood || 'neutral'}`,
+            tags: `scene,${body.sceneType},${body.mood || 'neutral'}${outfit ? `,outfit:${outfit.outfitId}` : ''}${era ? `,era:${era.eraId}` : ''}`,
+            outfitId: outfit?.outfitId,
+            eraId: era?.eraId,
             qualityScore: 85, // Default quality score
             consistencyScore: 90, // Default consistency score
           },
@@ -169,6 +215,8 @@ export async function POST(
         sceneType: body.sceneType,
         generatedAt: new Date(),
         qualityScore: 85, // Default quality score
+        outfitId: outfit?.outfitId || null,
+        eraId: era?.eraId || null,
       },
     })
 
@@ -181,7 +229,7 @@ export async function POST(
   }
 }
 
-function buildScenePrompt(character: any, request: SceneImageRequest): string {
+function buildScenePrompt(character: any, request: SceneImageRequest, outfit: Outfit | null): string {
   let prompt = `${character.name}, `
 
   // Add physical description
@@ -196,8 +244,10 @@ function buildScenePrompt(character: any, request: SceneImageRequest): string {
   if (character.eyeColor) prompt += `${character.eyeColor} eyes, `
   if (character.hairColor) prompt += `${character.hairColor} hair, `
 
-  // Add clothing if available
-  if (character.clothing) {
+  // Add the scene's outfit, or the usual clothing if available
+  if (outfit) {
+    prompt += `wearing ${outfit.name}: ${outfit.description}, `
+  } else if (character.clothing) {
     const clothingDesc = extractTextFromRichText(character.clothing)
     prompt += `wearing ${clothingDesc}, `
   }
@@ -247,6 +297,10 @@ function buildScenePrompt(character: any, request: SceneImageRequest): string {
 }
 
 function extractTextFromRichText(richText: any): string {
+  if (typeof richText === 'string') {
+    return richText.trim()
+  }
+
   if (!richText || !richText.root || !richText.root.children) {
     return ''
   }
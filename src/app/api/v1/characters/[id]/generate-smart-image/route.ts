@@ -16,6 +16,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { smartImageGenerationService } from '../../../../../../services/SmartImageGenerationService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
+import { wardrobeService } from '@/services/WardrobeService'
 
 interface SmartGenerateImageRequest {
   prompt: string
@@ -25,6 +28,7 @@ interface SmartGenerateImageRequest {
   consistencyThreshold?: number
   style?: 'character_turnaround' | 'character_production' | 'custom'
   tags?: string
+  outfitId?: string // Wardrobe outfit to dress the character in
 }
 
 interface SmartGenerateImageResponse {
@@ -65,6 +69,8 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: SmartGenerateImageRequest = await request.json()
 
     console.log(`Smart image generation for character: ${characterId}`)
@@ -100,6 +106,14 @@ export async function POST(
       }, { status: 400 })
     }
 
+    const outfit = wardrobeService.selectOutfit(character, { outfitId: body.outfitId })
+    if (outfit === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: `Outfit "${body.outfitId}" is not in the character's wardrobe`,
+      }, { status: 400 })
+    }
+
     // Use character name from request or character data
     const characterName = body.characterName || character.name || 'Unknown Character'
 
@@ -110,10 +124,16 @@ export async function POST(
       consistencyThreshold: Math.max(body.consistencyThreshold || 80, 60), // Minimum 60
       style: body.style || 'character_production',
       tags: body.tags || 'smart generation',
+      outfit,
     }
 
     console.log('Generation config:', generationConfig)
 
+    // Every retry is billed, so budget for the worst case
+    const projectId = character.novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, generationConfig.maxRetries)
+    if (overBudget) return overBudget
+
     // Run smart image generation
     const startTime = Date.now()
     const result = await smartImageGenerationService.generateSmartImage(
@@ -122,7 +142,8 @@ export async function POST(
       body.prompt,
       character,
       generationConfig,
-      payload
+      payload,
+      { operation: 'smart-image', characterId, projectId }
     )
     const generationTime = Date.now() - startTime
 
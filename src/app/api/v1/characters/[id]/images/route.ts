@@ -14,6 +14,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface CharacterImagesResponse {
   success: boolean
@@ -94,6 +95,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     const { searchParams } = new URL(request.url)
     
     // Query parameters
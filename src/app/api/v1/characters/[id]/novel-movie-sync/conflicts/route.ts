@@ -0,0 +1,149 @@
+/**
+ * Novel Movie Sync Conflict Queue API
+ *
+ * GET  /api/v1/characters/[id]/novel-movie-sync/conflicts
+ * Lists sync conflicts waiting for manual resolution.
+ *
+ * POST /api/v1/characters/[id]/novel-movie-sync/conflicts
+ * Settles queued conflicts field by field:
+ * {
+ *   "resolutions": [
+ *     { "conflictId": "...", "resolution": "novel-movie" },
+ *     { "field": "skills[skill=fencing]", "resolution": "manual", "value": { "skill": "Fencing", "level": "expert" } }
+ *   ],
+ *   "resolvedBy": "editor@example.com"
+ * }
+ * A `manual` resolution writes `value`; for array item conflicts a null value removes the item.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import {
+  ConflictResolutionInput,
+  novelMovieSyncService,
+} from '../../../../../../../services/NovelMovieSyncService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+const RESOLUTION_CHOICES = ['novel-movie', 'character-library', 'manual']
+
+async function findCharacter(payload: any, id: string): Promise<any | null> {
+  try {
+    return await payload.findByID({ collection: 'characters', id, depth: 0 })
+  } catch {
+    return null
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+
+    const character = await findCharacter(payload, id)
+    if (!character) {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 })
+    }
+
+    const conflicts = character.novelMovieIntegration?.pendingConflicts || []
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      syncStatus: character.novelMovieIntegration?.syncStatus || 'pending',
+      count: conflicts.length,
+      conflicts,
+    })
+  } catch (error) {
+    console.error('Sync conflict fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sync conflicts' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+    const body = await request.json()
+    const resolutions: ConflictResolutionInput[] = Array.isArray(body.resolutions) ? body.resolutions : []
+
+    if (resolutions.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'resolutions must be a non-empty array' },
+        { status: 400 }
+      )
+    }
+
+    for (const resolution of resolutions) {
+      if (!resolution.conflictId && !resolution.field) {
+        return NextResponse.json(
+          { success: false, error: 'Each resolution needs a conflictId or field' },
+          { status: 400 }
+        )
+      }
+      if (!RESOLUTION_CHOICES.includes(resolution.resolution)) {
+        return NextResponse.json(
+          { success: false, error: `resolution must be one of: ${RESOLUTION_CHOICES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      if (resolution.resolution === 'manual' && !('value' in resolution)) {
+        return NextResponse.json(
+          { success: false, error: 'Manual resolutions require a value' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const character = await findCharacter(payload, id)
+    if (!character) {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 })
+    }
+
+    const result = await novelMovieSyncService.resolveConflicts(
+      payload,
+      character,
+      resolutions,
+      typeof body.resolvedBy === 'string' && body.resolvedBy ? body.resolvedBy : 'manual'
+    )
+
+    if (result.resolved.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No matching conflicts found',
+        notFound: result.notFound,
+      }, { status: 404 })
+    }
+
+    console.log(`Resolved ${result.resolved.length} sync conflicts for character: ${id}`)
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      syncStatus: result.remaining > 0 ? 'conflict' : 'synced',
+      resolved: result.resolved,
+      notFound: result.notFound.length > 0 ? result.notFound : undefined,
+      remaining: result.remaining,
+      character: result.character,
+    })
+  } catch (error) {
+    console.error('Sync conflict resolution error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve sync conflicts' },
+      { status: 500 }
+    )
+  }
+}
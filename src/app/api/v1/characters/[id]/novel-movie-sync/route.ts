@@ -2,12 +2,16 @@
  * Novel Movie Character Sync API
  * 
  * This endpoint handles bidirectional synchronization between Novel Movie and Character Library.
- * It includes conflict detection, resolution strategies, and change tracking.
+ * Fields are merged three-way against the snapshot from the last successful sync, so
+ * one-sided edits merge cleanly. Fields edited on both sides are conflicts: resolved by
+ * the chosen strategy, or queued for the manual resolution endpoint (./conflicts).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { ConflictStrategy, novelMovieSyncService } from '../../../../../../services/NovelMovieSyncService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface NovelMovieSyncRequest {
   characterData: {
@@ -50,12 +54,16 @@ export interface NovelMovieSyncResponse {
   success: boolean
   character?: any
   syncStatus: 'synced' | 'conflict' | 'error'
+  mergedFields?: string[]
   conflicts?: Array<{
+    id?: string
     field: string
+    baseValue?: any
     novelMovieValue: any
     characterLibraryValue: any
     resolution?: 'novel-movie' | 'character-library' | 'manual'
   }>
+  conflictsUrl?: string
   error?: string
 }
 
@@ -66,16 +74,23 @@ export async function PUT(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
     const body: NovelMovieSyncRequest = await request.json()
 
     console.log(`Syncing Novel Movie character: ${characterId}`)
 
     // Get the current character
-    const currentCharacter = await payload.findByID({
-      collection: 'characters',
-      id: characterId,
-      depth: 2,
-    })
+    let currentCharacter: any
+    try {
+      currentCharacter = await payload.findByID({
+        collection: 'characters',
+        id: characterId,
+        depth: 0,
+      })
+    } catch {
+      currentCharacter = null
+    }
 
     if (!currentCharacter) {
       return NextResponse.json({
@@ -85,95 +100,39 @@ export async function PUT(
       }, { status: 404 })
     }
 
-    // Check for conflicts
-    const conflicts: Array<{
-      field: string
-      novelMovieValue: any
-      characterLibraryValue: any
-      resolution?: 'novel-movie' | 'character-library' | 'manual'
-    }> = []
-
-    const lastModified = new Date(body.lastModified)
-    const characterLastModified = new Date(currentCharacter.updatedAt)
-
-    // Detect conflicts by comparing timestamps and changed fields
-    if (characterLastModified > lastModified) {
-      // Character Library has newer changes, check for conflicts
-      for (const field of body.changeSet) {
-        const novelMovieValue = getNestedValue(body.characterData, field)
-        const characterLibraryValue = getNestedValue(currentCharacter, field)
-        
-        if (JSON.stringify(novelMovieValue) !== JSON.stringify(characterLibraryValue)) {
-          conflicts.push({
-            field,
-            novelMovieValue,
-            characterLibraryValue,
-          })
-        }
-      }
-    }
+    // 'auto' on the collection keeps its previous meaning: Novel Movie wins
+    const configuredResolution = currentCharacter.novelMovieIntegration?.conflictResolution
+    const strategy: ConflictStrategy = body.conflictResolution ||
+      (configuredResolution === 'auto' ? 'novel-movie-wins' : 'manual')
 
-    // Handle conflicts based on resolution strategy
-    const updateData = { ...body.characterData }
-    const conflictResolution = body.conflictResolution || 
-      currentCharacter.novelMovieIntegration?.conflictResolution || 'manual'
+    const result = await novelMovieSyncService.syncCharacter(payload, currentCharacter, body.characterData, {
+      changeSet: body.changeSet || [],
+      lastModified: body.lastModified,
+      strategy,
+    })
 
-    if (conflicts.length > 0) {
-      if (conflictResolution === 'manual') {
-        // Return conflicts for manual resolution
-        return NextResponse.json({
-          success: false,
-          syncStatus: 'conflict',
-          conflicts: conflicts,
-        }, { status: 409 })
-      } else if (conflictResolution === 'character-library-wins') {
-        // Keep Character Library values for conflicted fields
-        for (const conflict of conflicts) {
-          setNestedValue(updateData, conflict.field, conflict.characterLibraryValue)
-          conflict.resolution = 'character-library'
-        }
-      } else {
-        // novel-movie-wins (default behavior)
-        for (const conflict of conflicts) {
-          conflict.resolution = 'novel-movie'
-        }
-      }
-    }
+    if (result.queued) {
+      // Non-conflicting changes were applied; conflicts wait in the queue
+      console.log(`Queued ${result.conflicts.length} sync conflicts for character: ${characterId}`)
 
-    // Prepare update data with sync metadata (excluding problematic fields)
-    const { relationships: _relationships, ...characterDataWithoutRelationships } = body.characterData
-    const syncUpdateData = {
-      ...characterDataWithoutRelationships,
-      novelMovieIntegration: {
-        ...currentCharacter.novelMovieIntegration,
-        lastSyncAt: new Date().toISOString(),
-        syncStatus: conflicts.length > 0 ? 'conflict' as const : 'synced' as const,
-        changeLog: [
-          ...(currentCharacter.novelMovieIntegration?.changeLog || []),
-          {
-            timestamp: new Date().toISOString(),
-            source: 'novel-movie' as const,
-            changes: body.changeSet.map(field => ({ field })),
-            resolvedBy: conflicts.length > 0 ? `auto-${conflictResolution}` : 'system',
-          },
-        ],
-      },
+      return NextResponse.json({
+        success: false,
+        character: result.character,
+        syncStatus: 'conflict',
+        mergedFields: result.mergedFields,
+        conflicts: result.conflicts,
+        conflictsUrl: `/api/v1/characters/${characterId}/novel-movie-sync/conflicts`,
+      }, { status: 409 })
     }
 
-    // Update the character
-    const updatedCharacter = await payload.update({
-      collection: 'characters',
-      id: characterId,
-      data: syncUpdateData,
-    })
-
     console.log(`Successfully synced character: ${characterId}`)
 
     return NextResponse.json({
       success: true,
-      character: updatedCharacter,
-      syncStatus: conflicts.length > 0 ? 'conflict' : 'synced',
-      conflicts: conflicts.length > 0 ? conflicts : undefined,
+      character: result.character,
+      syncStatus: result.conflicts.length > 0 ? 'conflict' : 'synced',
+      mergedFields: result.mergedFields,
+      conflicts: result.conflicts.length > 0 ? result.conflicts : undefined,
     })
 
   } catch (error) {
@@ -185,18 +144,3 @@ export async function PUT(
     }, { status: 500 })
   }
 }
-
-// Helper functions for nested object access
-function getNestedValue(obj: any, path: string): any {
-  return path.split('.').reduce((current, key) => current?.[key], obj)
-}
-
-function setNestedValue(obj: any, path: string, value: any): void {
-  const keys = path.split('.')
-  const lastKey = keys.pop()!
-  const target = keys.reduce((current, key) => {
-    if (!current[key]) current[key] = {}
-    return current[key]
-  }, obj)
-  target[lastKey] = value
-}
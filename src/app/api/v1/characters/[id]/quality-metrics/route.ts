@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface QualityMetrics {
   overallScore: number
@@ -84,6 +85,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`Generating quality metrics for character: ${characterId}`)
 
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface ReferenceImageRequest {
   imageUrl?: string
@@ -35,6 +36,8 @@ export async function PUT(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:write')
+    if (auth instanceof NextResponse) return auth
     const body: ReferenceImageRequest = await request.json()
 
     console.log(`Updating reference image for character: ${id}`)
@@ -128,6 +131,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     const character = await payload.findByID({
       collection: 'characters',
@@ -180,6 +185,8 @@ export async function DELETE(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:write')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`Deleting master reference image and all derived content for character: ${id}`)
 
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 export interface RelationshipRequest {
   relatedCharacterId: string
@@ -50,6 +51,8 @@ export async function POST(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
     const body: RelationshipRequest = await request.json()
 
     console.log(`Creating relationship for character: ${characterId}`)
@@ -215,6 +218,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     // Get the character with relationships
     const character = await payload.findByID({
@@ -286,6 +291,8 @@ export async function PUT(
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
     const body: RelationshipRequest = await request.json()
 
     console.log(`Updating relationship for character: ${characterId}`)
@@ -2,12 +2,14 @@
  * API endpoint for individual character operations
  * GET /api/characters/[id] - Get character by ID
  * PATCH /api/characters/[id] - Update character
+ * PUT /api/characters/[id] - Update character (alias of PATCH)
  * DELETE /api/characters/[id] - Delete character
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacter, authorizeProjectChange } from '@/lib/utils/api-auth'
 
 export async function GET(
   request: NextRequest,
@@ -16,6 +18,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     const character = await payload.findByID({
       collection: 'characters',
@@ -47,8 +51,14 @@ export async function PATCH(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:write')
+    if (auth instanceof NextResponse) return auth
     const body = await request.json()
 
+    // The current project was checked above; a move must land in a permitted project too
+    const projectChange = authorizeProjectChange(auth.principal, body)
+    if (projectChange) return projectChange
+
     const character = await payload.update({
       collection: 'characters',
       id,
@@ -65,6 +75,8 @@ export async function PATCH(
   }
 }
 
+export const PUT = PATCH
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -72,6 +84,8 @@ export async function DELETE(
   try {
     const payload = await getPayload({ config })
     const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:delete')
+    if (auth instanceof NextResponse) return auth
 
     await payload.delete({
       collection: 'characters',
@@ -0,0 +1,76 @@
+/**
+ * Turnaround Sheet API
+ *
+ * POST /api/v1/characters/{id}/turnaround-sheet
+ * Composes the front, three-quarter, profile and back images of the 360° core
+ * set into a labelled model sheet, stores it as media and links it to the
+ * character.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+import { appearanceEraService } from '@/services/AppearanceEraService'
+import { turnaroundSheetService } from '@/services/TurnaroundSheetService'
+
+interface TurnaroundSheetRequest {
+  eraId?: string // Compose the sheet from an appearance era's core set
+  requireAllViews?: boolean // Fail instead of leaving out missing views
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+    const body: TurnaroundSheetRequest = await request.json().catch(() => ({}))
+    const { origin } = new URL(request.url)
+
+    let character: any
+    try {
+      character = await payload.findByID({ collection: 'characters', id: characterId, depth: 2 })
+    } catch {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 })
+    }
+
+    if (body.eraId && !appearanceEraService.findEra(character, body.eraId)) {
+      return NextResponse.json(
+        { success: false, error: `Era "${body.eraId}" is not defined for this character` },
+        { status: 400 }
+      )
+    }
+
+    const selection = turnaroundSheetService.selectPanels(character, { eraId: body.eraId, baseUrl: origin })
+    if (selection.panels.length === 0 || (body.requireAllViews && selection.missingViews.length > 0)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'The core set has no images for the required views. Generate a 360° core set first.',
+          missingViews: selection.missingViews,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.log(`🖼️ Composing turnaround sheet for ${character.name}: ${selection.panels.map((panel) => panel.view).join(', ')}`)
+
+    const sheet = await turnaroundSheetService.createSheet(payload, character, { eraId: body.eraId, baseUrl: origin })
+
+    return NextResponse.json({ success: true, data: sheet }, { status: 201 })
+  } catch (error) {
+    console.error('Turnaround sheet error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to compose turnaround sheet',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
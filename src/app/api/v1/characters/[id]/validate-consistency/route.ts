@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { qualityAssuranceService } from '../../../../../../services/QualityAssuranceService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
 
 interface ConsistencyValidationResult {
   imageId: string
@@ -37,6 +38,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   try {
     const payload = await getPayload({ config })
     const { id: characterId } = await params
+    const auth = await authorizeCharacter(request, payload, characterId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`Validating character consistency for: ${characterId}`)
 
@@ -0,0 +1,56 @@
+/**
+ * Character Version Restore API
+ *
+ * POST /api/v1/characters/[id]/versions/[versionId]/restore
+ * Body: { restoreImageGallery?: boolean, restoreMasterReference?: boolean }
+ *
+ * Restores a character version. The image gallery (with core set flags) and the
+ * master references (base and per era) are kept as they are unless the caller asks
+ * to roll them back.
+ * The Novel Movie project link is never restored, so a restore cannot move the
+ * character out of the project the caller is authorized for.
+ * The restore is itself recorded as a new version, so it can be undone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { characterVersionService } from '../../../../../../../../services/CharacterVersionService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id, versionId } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+    const body = await request.json().catch(() => ({}))
+
+    const result = await characterVersionService.restoreVersion(payload, id, versionId, {
+      restoreImageGallery: body.restoreImageGallery === true,
+      restoreMasterReference: body.restoreMasterReference === true,
+    })
+
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      restoredFrom: versionId,
+      restoredFields: result.restoredFields,
+      preservedFields: result.preservedFields,
+      character: result.character,
+    })
+  } catch (error) {
+    console.error('Character version restore error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore character version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Character Version API
+ *
+ * GET /api/v1/characters/[id]/versions/[versionId]
+ * Returns the full snapshot stored for a single character version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { characterVersionService } from '../../../../../../../services/CharacterVersionService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id, versionId } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+
+    const version = await characterVersionService.getVersion(payload, id, versionId)
+
+    if (!version) {
+      return NextResponse.json({ success: false, error: 'Version not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      versionId: String(version.id),
+      createdAt: version.createdAt,
+      updatedAt: version.updatedAt,
+      latest: Boolean(version.latest),
+      snapshot: version.version,
+    })
+  } catch (error) {
+    console.error('Character version fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch character version' },
+      { status: 500 }
+    )
+  }
+}
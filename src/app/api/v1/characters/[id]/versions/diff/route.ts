@@ -0,0 +1,59 @@
+/**
+ * Character Version Diff API
+ *
+ * GET /api/v1/characters/[id]/versions/diff?from=<versionId>&to=<versionId|current>
+ * Field-level diff between two versions of a character. `to` defaults to the
+ * current document.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { characterVersionService } from '../../../../../../../services/CharacterVersionService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to') || 'current'
+
+    if (!from) {
+      return NextResponse.json(
+        { success: false, error: 'Query parameter "from" is required' },
+        { status: 400 }
+      )
+    }
+
+    const diff = await characterVersionService.diffVersions(payload, id, from, to)
+
+    if (!diff) {
+      return NextResponse.json(
+        { success: false, error: 'Character or version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      from,
+      to,
+      changeCount: diff.changes.length,
+      changes: diff.changes,
+    })
+  } catch (error) {
+    console.error('Character version diff error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to diff character versions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Character Versions API
+ *
+ * GET /api/v1/characters/[id]/versions?page=1&limit=20
+ * Lists document versions of a character, newest first, with the top-level
+ * fields each version changed compared to the one before it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { characterVersionService } from '../../../../../../services/CharacterVersionService'
+import { authorizeCharacter } from '@/lib/utils/api-auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { id } = await params
+    const auth = await authorizeCharacter(request, payload, id, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20', 10) || 20))
+
+    try {
+      await payload.findByID({ collection: 'characters', id, depth: 0 })
+    } catch {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 })
+    }
+
+    const result = await characterVersionService.listVersions(payload, id, page, limit)
+
+    return NextResponse.json({
+      success: true,
+      characterId: id,
+      ...result,
+    })
+  } catch (error) {
+    console.error('Character versions fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch character versions' },
+      { status: 500 }
+    )
+  }
+}
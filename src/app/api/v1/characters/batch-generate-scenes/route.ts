@@ -1,385 +1,144 @@
 /**
  * Batch Scene Generation API
- * 
- * This endpoint handles batch generation of character images for multiple scenes
- * in a screenplay or project, optimizing for efficiency and consistency.
+ *
+ * This endpoint queues batch generation of character images for multiple scenes
+ * in a screenplay or project. The batch runs as a background job: poll
+ * /api/v1/jobs/{jobId}/status for per-scene progress and partial results.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
-import { imageGenerationService } from '@/services/ImageGenerationService'
-
-export interface BatchSceneRequest {
-  projectId: string
-  scenes: Array<{
-    sceneId: string
-    characters: string[] // Character IDs
-    sceneDescription: string
-    requiredShots: string[]
-    sceneType?: 'dialogue' | 'action' | 'emotional' | 'establishing'
-    environmentContext?: string
-    mood?: string
-    lightingStyle?: string
-  }>
-  batchSettings?: {
-    maxConcurrent?: number
-    style?: string
-    qualityThreshold?: number
-  }
-}
-
-export interface BatchSceneResponse {
-  success: boolean
-  results: Array<{
-    sceneId: string
-    success: boolean
-    generatedImages: Array<{
-      characterId: string
-      imageUrl?: string
-      mediaId?: string
-      shotType: string
-      qualityScore?: number
-    }>
-    error?: string
-  }>
-  summary: {
-    totalScenes: number
-    successfulScenes: number
-    failedScenes: number
-    totalImages: number
-    averageQuality?: number
-  }
-  error?: string
+import { BackgroundJobService } from '@/services/BackgroundJobService'
+import { webhookService } from '@/services/WebhookService'
+import { authorizeProject, canAccessCharacter, forbiddenResponse } from '@/lib/utils/api-auth'
+import { usageService } from '@/services/UsageService'
+import { budgetDetails, budgetExceededResponse } from '@/lib/utils/budget'
+import { batchSceneGenerationService, BatchSceneRequest } from '@/services/BatchSceneGenerationService'
+import { BATCH_SCENE_CONFIG } from '@/lib/config/batch-scenes'
+
+export type { BatchSceneRequest } from '@/services/BatchSceneGenerationService'
+
+interface BatchSceneJobRequest extends BatchSceneRequest {
+  callbackUrl?: string
+  callbackSecret?: string
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<BatchSceneResponse>> {
+export async function POST(request: NextRequest) {
   try {
     const payload = await getPayload({ config })
-    const body: BatchSceneRequest = await request.json()
-
-    console.log(`Batch scene generation for project: ${body.projectId}`)
-    console.log(`Processing ${body.scenes.length} scenes`)
+    const body: BatchSceneJobRequest = await request.json()
 
     // Validate required fields
     if (!body.projectId) {
-      return NextResponse.json({
-        success: false,
-        results: [],
-        summary: { totalScenes: 0, successfulScenes: 0, failedScenes: 0, totalImages: 0 },
-        error: 'projectId is required',
-      }, { status: 400 })
+      return NextResponse.json({ success: false, status: 'failed', error: 'projectId is required' }, { status: 400 })
     }
 
-    if (!body.scenes || body.scenes.length === 0) {
-      return NextResponse.json({
-        success: false,
-        results: [],
-        summary: { totalScenes: 0, successfulScenes: 0, failedScenes: 0, totalImages: 0 },
-        error: 'scenes array is required and cannot be empty',
-      }, { status: 400 })
+    const scenesValid = batchSceneGenerationService.validateScenes(body.scenes)
+    if (scenesValid !== true) {
+      return NextResponse.json({ success: false, status: 'failed', error: scenesValid }, { status: 400 })
     }
 
-    // Get all unique characters involved in the scenes
-    const allCharacterIds = [...new Set(body.scenes.flatMap(scene => scene.characters))]
-    const charactersMap = new Map()
-
-    console.log(`Loading ${allCharacterIds.length} unique characters`)
-
-    // Load all characters at once for efficiency
-    await Promise.all(
-      allCharacterIds.map(async (id) => {
-        try {
-          const character = await payload.findByID({
-            collection: 'characters',
-            id,
-            depth: 3,
-          })
-          charactersMap.set(id, character)
-          return character
-        } catch (error) {
-          console.error(`Failed to load character ${id}:`, error)
-          return null
-        }
-      })
-    )
+    if (body.callbackUrl !== undefined) {
+      const callbackError = webhookService.validateCallbackUrl(body.callbackUrl)
+      if (callbackError) {
+        return NextResponse.json({ success: false, status: 'failed', error: callbackError }, { status: 400 })
+      }
+    }
 
-    const results: BatchSceneResponse['results'] = []
-    let successfulScenes = 0
-    let failedScenes = 0
-    let totalImages = 0
-    let totalQuality = 0
-    let qualityCount = 0
+    const auth = await authorizeProject(request, payload, body.projectId, 'images:generate')
+    if (auth instanceof NextResponse) return auth
 
-    const maxConcurrent = body.batchSettings?.maxConcurrent || 3
+    console.log(`Batch scene generation for project: ${body.projectId} (${body.scenes.length} scenes)`)
 
-    // Process scenes in batches to avoid overwhelming the system
-    for (let i = 0; i < body.scenes.length; i += maxConcurrent) {
-      const sceneBatch = body.scenes.slice(i, i + maxConcurrent)
-      
-      const batchPromises = sceneBatch.map(scene => 
-        processScene(scene, charactersMap, payload, body.batchSettings)
+    // Every character must exist and be reachable by the caller before anything is queued
+    const characterIds = [...new Set(body.scenes.flatMap((scene) => scene.characters))]
+    const characters = await Promise.all(
+      characterIds.map((id) =>
+        payload.findByID({ collection: 'characters', id, depth: 0 }).catch(() => null)
       )
+    )
 
-      const batchResults = await Promise.allSettled(batchPromises)
-
-      batchResults.forEach((result, index) => {
-        const scene = sceneBatch[index]
-        
-        if (result.status === 'fulfilled' && result.value.success) {
-          results.push(result.value)
-          successfulScenes++
-          totalImages += result.value.generatedImages.length
-          
-          // Calculate quality metrics
-          result.value.generatedImages.forEach(img => {
-            if (img.qualityScore) {
-              totalQuality += img.qualityScore
-              qualityCount++
-            }
-          })
-        } else {
-          const error = result.status === 'rejected' ? result.reason.message : result.value.error
-          results.push({
-            sceneId: scene.sceneId,
-            success: false,
-            generatedImages: [],
-            error: error || 'Unknown error',
-          })
-          failedScenes++
-        }
-      })
+    const missing = characterIds.filter((_, index) => !characters[index])
+    if (missing.length > 0) {
+      return NextResponse.json({
+        success: false,
+        status: 'failed',
+        error: `Characters not found: ${missing.join(', ')}`,
+      }, { status: 404 })
+    }
 
-      // Add a small delay between batches to prevent overwhelming the system
-      if (i + maxConcurrent < body.scenes.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000))
-      }
+    if (characters.some((character) => !canAccessCharacter(auth, character))) {
+      return forbiddenResponse('API key is not permitted for every character in this batch')
     }
 
-    const averageQuality = qualityCount > 0 ? totalQuality / qualityCount : undefined
+    // One image per required shot per character
+    const plannedImages = batchSceneGenerationService.countShots(body.scenes)
+    const budgetCheck = await usageService.checkBudget(
+      payload,
+      body.projectId,
+      usageService.estimateCost(plannedImages)
+    )
+    if (budgetCheck.action === 'refuse') {
+      return budgetExceededResponse(budgetCheck, `Project budget exceeded by batch of ${plannedImages} images`)
+    }
+    const awaitingApproval = budgetCheck.action === 'approval'
+
+    const job = await BackgroundJobService.getInstance().enqueueJob(payload, {
+      // Jobs belong to a character; a batch is filed under its first one
+      characterId: body.scenes[0].characters[0],
+      projectId: body.projectId,
+      jobType: 'batch-scenes',
+      total: plannedImages,
+      requestData: {
+        imageCount: plannedImages,
+        projectId: body.projectId,
+        scenes: body.scenes,
+        batchSettings: body.batchSettings,
+        maxRetries: body.batchSettings?.maxRetries ?? BATCH_SCENE_CONFIG.maxRetries,
+      },
+      webhook: body.callbackUrl
+        ? { callbackUrl: body.callbackUrl, secret: body.callbackSecret }
+        : undefined,
+      budgetApproval: awaitingApproval
+        ? { estimatedCost: budgetCheck.estimatedCost, spent: budgetCheck.spent, limit: budgetCheck.budget!.limit }
+        : undefined,
+    })
+    const jobId = job.jobId
 
-    console.log(`Batch generation completed: ${successfulScenes}/${body.scenes.length} scenes successful`)
+    if (awaitingApproval) {
+      return NextResponse.json({
+        success: true,
+        jobId,
+        status: 'awaiting_approval',
+        message: 'The batch would exceed the project budget; the job will start once an admin approves it.',
+        budget: budgetDetails(budgetCheck),
+        approveUrl: `/api/v1/jobs/${jobId}/approve`,
+        pollUrl: `/api/v1/jobs/${jobId}/status`,
+        eventsUrl: `/api/v1/jobs/${jobId}/events`,
+      }, { status: 202 })
+    }
 
     return NextResponse.json({
-      success: failedScenes === 0,
-      results,
+      success: true,
+      jobId,
+      status: 'accepted',
+      message: `Batch scene job queued. Generating ${plannedImages} images across ${body.scenes.length} scenes.`,
       summary: {
         totalScenes: body.scenes.length,
-        successfulScenes,
-        failedScenes,
-        totalImages,
-        averageQuality,
+        totalImages: plannedImages,
+        characters: characterIds.length,
       },
-    }, { status: failedScenes === 0 ? 200 : 207 }) // 207 Multi-Status for partial success
+      pollUrl: `/api/v1/jobs/${jobId}/status`,
+      eventsUrl: `/api/v1/jobs/${jobId}/events`,
+    }, { status: 202 })
 
   } catch (error) {
     console.error('Batch scene generation error:', error)
     return NextResponse.json({
       success: false,
-      results: [],
-      summary: { totalScenes: 0, successfulScenes: 0, failedScenes: 0, totalImages: 0 },
-      error: error instanceof Error ? error.message : 'Failed to process batch generation',
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to queue batch scene generation',
     }, { status: 500 })
   }
 }
-
-async function processScene(
-  scene: BatchSceneRequest['scenes'][0],
-  charactersMap: Map<string, any>,
-  payload: any,
-  _batchSettings?: BatchSceneRequest['batchSettings']
-): Promise<BatchSceneResponse['results'][0]> {
-  
-  console.log(`Processing scene: ${scene.sceneId}`)
-
-  const generatedImages: BatchSceneResponse['results'][0]['generatedImages'] = []
-
-  try {
-    // Get characters for this scene
-    const sceneCharacters = scene.characters
-      .map(id => charactersMap.get(id))
-      .filter(char => char !== null)
-
-    if (sceneCharacters.length === 0) {
-      throw new Error('No valid characters found for scene')
-    }
-
-    // Generate images for each required shot type
-    for (const shotType of scene.requiredShots) {
-      // For each character in the scene
-      for (const character of sceneCharacters) {
-        try {
-          const prompt = buildScenePrompt(character, scene, shotType)
-          
-          // Get reference image
-          const referenceImageAssetId = (typeof character.masterReferenceImage === 'object' ? character.masterReferenceImage?.dinoAssetId : null) ||
-            character.imageGallery?.find((img: any) => img.isCoreReference)?.dinoAssetId
-
-          if (!referenceImageAssetId) {
-            console.warn(`No reference image for character ${character.id}, skipping`)
-            continue
-          }
-
-          // Generate image
-          const generationResult = await imageGenerationService.generateImage(prompt, {
-            referenceImageAssetId,
-            style: 'custom',
-            additionalReferenceIds: character.imageGallery
-              ?.filter((img: any) => img.isCoreReference)
-              ?.map((img: any) => img.dinoAssetId)
-              ?.filter((id: any) => id)
-              ?.slice(0, 2) // Limit for batch processing
-          })
-
-          if (!generationResult.success || !generationResult.imageBuffer) {
-            console.error(`Image generation failed for ${character.name} in scene ${scene.sceneId}`)
-            continue
-          }
-
-          // Default quality score for generated images
-          const defaultQualityScore = 85
-
-          // Upload image
-          const filename = `${scene.sceneId}_${character.id}_${shotType}_${Date.now()}.jpg`
-          const mediaResult = await uploadGeneratedImage(
-            generationResult.imageBuffer,
-            filename,
-            payload
-          )
-
-          if (mediaResult.success) {
-            generatedImages.push({
-              characterId: character.id,
-              imageUrl: mediaResult.imageUrl,
-              mediaId: mediaResult.mediaId,
-              shotType,
-              qualityScore: defaultQualityScore,
-            })
-
-            // Update character with the new image
-            await payload.update({
-              collection: 'characters',
-              id: character.id,
-              data: {
-                imageGallery: [
-                  ...(character.imageGallery || []),
-                  {
-                    imageFile: mediaResult.mediaId,
-                    isCoreReference: false,
-                    shotType: shotType,
-                    tags: `scene,${scene.sceneId},${shotType}`,
-                    qualityScore: defaultQualityScore,
-                    consistencyScore: 90, // Default consistency score
-                  },
-                ],
-                sceneContexts: [
-                  ...(character.sceneContexts || []),
-                  {
-                    sceneId: scene.sceneId,
-                    sceneType: scene.sceneType || 'general',
-                    generatedImages: [{ imageId: mediaResult.mediaId }],
-                    qualityScores: [{ score: defaultQualityScore }],
-                    lastGenerated: new Date().toISOString(),
-                  },
-                ],
-              },
-            })
-          }
-
-        } catch (error) {
-          console.error(`Error generating image for ${character.name} in scene ${scene.sceneId}:`, error)
-          // Continue with other characters/shots
-        }
-      }
-    }
-
-    return {
-      sceneId: scene.sceneId,
-      success: generatedImages.length > 0,
-      generatedImages,
-      error: generatedImages.length === 0 ? 'No images generated successfully' : undefined,
-    }
-
-  } catch (error) {
-    return {
-      sceneId: scene.sceneId,
-      success: false,
-      generatedImages: [],
-      error: error instanceof Error ? error.message : 'Unknown error',
-    }
-  }
-}
-
-function buildScenePrompt(character: any, scene: any, shotType: string): string {
-  let prompt = `${character.name}, `
-
-  // Add physical description
-  if (character.physicalDescription) {
-    const physicalDesc = extractTextFromRichText(character.physicalDescription)
-    prompt += `${physicalDesc}, `
-  }
-
-  // Add basic attributes
-  if (character.age) prompt += `age ${character.age}, `
-  if (character.eyeColor) prompt += `${character.eyeColor} eyes, `
-  if (character.hairColor) prompt += `${character.hairColor} hair, `
-
-  // Add scene description
-  prompt += `in scene: ${scene.sceneDescription}, `
-
-  // Add shot type
-  prompt += `${shotType} shot, `
-
-  // Add scene-specific elements
-  if (scene.environmentContext) prompt += `environment: ${scene.environmentContext}, `
-  if (scene.mood) prompt += `mood: ${scene.mood}, `
-  if (scene.lightingStyle) prompt += `lighting: ${scene.lightingStyle}, `
-
-  prompt += 'high quality, detailed, cinematic'
-
-  return prompt
-}
-
-function extractTextFromRichText(richText: any): string {
-  if (!richText || !richText.root || !richText.root.children) {
-    return ''
-  }
-  
-  return richText.root.children
-    .map((child: any) => child.text || '')
-    .join(' ')
-    .trim()
-}
-
-async function uploadGeneratedImage(
-  imageBuffer: Buffer,
-  filename: string,
-  payload: any
-): Promise<{ success: boolean; mediaId?: string; imageUrl?: string; error?: string }> {
-  try {
-    const media = await payload.create({
-      collection: 'media',
-      data: {
-        alt: `Generated scene image: ${filename}`,
-      },
-      file: {
-        data: imageBuffer,
-        mimetype: 'image/jpeg',
-        name: filename,
-        size: imageBuffer.length,
-      },
-    })
-
-    return {
-      success: true,
-      mediaId: media.id,
-      imageUrl: media.url,
-    }
-  } catch (error) {
-    console.error('Image upload error:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Upload failed',
-    }
-  }
-}
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacters } from '@/lib/utils/api-auth'
 
 export interface BatchValidationRequest {
   characterIds: string[]
@@ -104,6 +105,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<BatchVali
       }, { status: 400 })
     }
 
+    const auth = await authorizeCharacters(request, payload, body.characterIds, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+
     const results: ValidationResult[] = []
     let validatedCharacters = 0
     let failedValidations = 0
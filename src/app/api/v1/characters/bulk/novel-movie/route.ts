@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacters, authorizeProject, requireRole } from '@/lib/utils/api-auth'
 
 export interface BulkCharacterOperation {
   projectId: string
@@ -106,6 +107,15 @@ export async function POST(request: NextRequest): Promise<NextResponse<BulkOpera
       }, { status: 400 })
     }
 
+    // Updates may only touch characters the key can already reach
+    const existingIds = body.characters.map((character) => character.id).filter(Boolean) as string[]
+    const projectAuth = await authorizeProject(request, payload, body.projectId, 'characters:write')
+    if (projectAuth instanceof NextResponse) return projectAuth
+    const auth = await authorizeCharacters(request, payload, existingIds, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+    const roleError = requireRole(auth, 'art-director', 'Bulk character operations')
+    if (roleError) return roleError
+
     const results: BulkOperationResponse['results'] = []
     let successful = 0
     let failed = 0
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
 
 export interface ProjectCharactersResponse {
   success: boolean
@@ -23,6 +24,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { projectId } = await params
+    const auth = await authorizeProject(request, payload, projectId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     const { searchParams } = new URL(request.url)
     
     const limit = parseInt(searchParams.get('limit') || '50')
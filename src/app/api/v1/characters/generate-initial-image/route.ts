@@ -10,6 +10,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeRequest } from '@/lib/utils/api-auth'
 import { imageGenerationService } from '../../../../../services/ImageGenerationService'
 
 
@@ -41,6 +42,8 @@ export async function POST(
 ): Promise<NextResponse<GenerateStandaloneImageResponse>> {
   try {
     const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'images:generate')
+    if (auth instanceof NextResponse) return auth
     const body: GenerateStandaloneImageRequest = await request.json()
 
     if (!body.prompt) {
@@ -65,6 +68,8 @@ export async function POST(
       height: body.height || 1024,
       steps: 35, // Higher quality for reference image
       guidance: 8.0, // Strong adherence to prompt
+      // Not tied to a character or project yet
+      usage: { operation: 'standalone-initial-image', projectId: null },
     })
 
     if (!generationResult.success || !generationResult.imageBuffer) {
@@ -8,7 +8,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacters } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
 import { imageGenerationService } from '@/services/ImageGenerationService'
+import { stylePresetService } from '@/services/StylePresetService'
 
 export interface InteractionImageRequest {
   primaryCharacterId: string
@@ -76,6 +79,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<Interacti
 
     // Get all characters involved
     const allCharacterIds = [body.primaryCharacterId, ...body.secondaryCharacterIds]
+    const auth = await authorizeCharacters(request, payload, allCharacterIds, 'images:generate')
+    if (auth instanceof NextResponse) return auth
+
     const characters = await Promise.all(
       allCharacterIds.map(id => 
         payload.findByID({
@@ -113,11 +119,21 @@ export async function POST(request: NextRequest): Promise<NextResponse<Interacti
       }, { status: 400 })
     }
 
+    // Billed to the primary character's project
+    const projectId = characters[0].novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, 1)
+    if (overBudget) return overBudget
+
+    // The billed project also sets the look
+    const stylePreset = await stylePresetService.getProjectPreset(payload, projectId)
+
     // Generate the interaction image
     const generationResult = await imageGenerationService.generateImage(interactionPrompt, {
       referenceImageAssetId: referenceImages[0] || undefined, // Primary character as main reference
       additionalReferenceIds: referenceImages.slice(1).filter((id): id is string => Boolean(id)), // Other characters as additional references
       style: 'custom',
+      stylePreset,
+      usage: { operation: 'interaction-image', characterId: body.primaryCharacterId, projectId },
     })
 
     if (!generationResult.success || !generationResult.imageBuffer) {
@@ -8,7 +8,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeCharacters } from '@/lib/utils/api-auth'
+import { enforceProjectBudget } from '@/lib/utils/budget'
 import { imageGenerationService } from '@/services/ImageGenerationService'
+import { stylePresetService } from '@/services/StylePresetService'
 
 export interface RelationshipImageRequest {
   characterIds: string[]
@@ -65,6 +68,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<Relations
       }, { status: 400 })
     }
 
+    const auth = await authorizeCharacters(request, payload, body.characterIds, 'images:generate')
+    if (auth instanceof NextResponse) return auth
+
     // Get all characters
     const characters = await Promise.all(
       body.characterIds.map(id => 
@@ -106,11 +112,21 @@ export async function POST(request: NextRequest): Promise<NextResponse<Relations
       }, { status: 400 })
     }
 
+    // Billed to the first character's project
+    const projectId = characters[0].novelMovieIntegration?.projectId || null
+    const overBudget = await enforceProjectBudget(payload, projectId, 1)
+    if (overBudget) return overBudget
+
+    // The billed project also sets the look
+    const stylePreset = await stylePresetService.getProjectPreset(payload, projectId)
+
     // Generate the relationship image
     const generationResult = await imageGenerationService.generateImage(relationshipPrompt, {
       referenceImageAssetId: referenceImages[0] || undefined, // Primary character as main reference
       additionalReferenceIds: referenceImages.slice(1).filter((id): id is string => Boolean(id)), // Other characters as additional references
       style: 'custom',
+      stylePreset,
+      usage: { operation: 'relationship-image', characterId: body.characterIds[0], projectId },
     })
 
     if (!generationResult.success || !generationResult.imageBuffer) {
@@ -0,0 +1,76 @@
+/**
+ * Character Import API
+ *
+ * POST /api/v1/characters/import?projectId=...&characterId=...
+ * Creates a character from an export bundle, sent as the raw request body
+ * (gzipped or plain JSON) or as a multipart `file` field. Media is re-uploaded
+ * and re-registered with DINO, ObjectIds are remapped, and a characterId that
+ * already exists gets a numeric suffix.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
+import { BundleFormatError, characterBundleService } from '../../../../../services/CharacterBundleService'
+
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId') || undefined
+
+    // Project-restricted keys must import into one of their projects
+    const auth = await authorizeProject(request, payload, projectId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+    const contentType = request.headers.get('content-type') || ''
+
+    let data: Buffer
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { success: false, error: 'Multipart requests need a "file" field with the bundle' },
+          { status: 400 }
+        )
+      }
+      data = Buffer.from(await file.arrayBuffer())
+    } else {
+      data = Buffer.from(await request.arrayBuffer())
+    }
+
+    if (data.length === 0) {
+      return NextResponse.json({ success: false, error: 'Bundle is empty' }, { status: 400 })
+    }
+
+    const bundle = characterBundleService.decodeBundle(data)
+
+    console.log(`📦 Importing character bundle: ${bundle.source.characterId}`)
+
+    const result = await characterBundleService.importBundle(payload, bundle, {
+      projectId,
+      characterId: searchParams.get('characterId') || undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      characterId: result.character.characterId,
+      id: result.character.id,
+      idMap: result.idMap,
+      importedMedia: Object.keys(result.idMap.media).length,
+      dinoRegistered: result.dinoRegistered,
+      warnings: result.warnings,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof BundleFormatError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+
+    console.error('Character import error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to import character' },
+      { status: 500 }
+    )
+  }
+}
@@ -8,6 +8,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
+import { characterDuplicateService, DuplicateWarning } from '@/services/CharacterDuplicateService'
 
 export interface NovelMovieCharacterData {
   name: string
@@ -43,6 +45,7 @@ export interface NovelMovieCharacterData {
   hairColor?: string
   physicalDescription?: any // RichText
   clothing?: any // RichText
+  masterReferenceImage?: string // Media ID
 
   // Voice and Dialogue
   dialogueVoice?: {
@@ -85,6 +88,7 @@ export interface NovelMovieCreateRequest {
     autoSync?: boolean
     conflictResolution?: 'novel-movie-wins' | 'character-library-wins' | 'manual'
   }
+  allowDuplicate?: boolean // Create even when the master reference looks like an existing character
 }
 
 export interface NovelMovieCreateResponse {
@@ -93,6 +97,7 @@ export interface NovelMovieCreateResponse {
   characterId?: string
   error?: string
   syncStatus?: string
+  duplicateWarnings?: DuplicateWarning[] // Existing project characters the master reference looks like
 }
 
 export async function POST(request: NextRequest): Promise<NextResponse<NovelMovieCreateResponse>> {
@@ -110,6 +115,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<NovelMovi
       }, { status: 400 })
     }
 
+    const auth = await authorizeProject(request, payload, body.novelMovieProjectId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+
     if (!body.characterData?.name) {
       return NextResponse.json({
         success: false,
@@ -147,6 +155,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<NovelMovi
       hairColor: body.characterData.hairColor,
       physicalDescription: body.characterData.physicalDescription,
       clothing: body.characterData.clothing,
+      masterReferenceImage: body.characterData.masterReferenceImage,
 
       // Voice and dialogue
       dialogueVoice: body.characterData.dialogueVoice,
@@ -196,6 +205,22 @@ export async function POST(request: NextRequest): Promise<NextResponse<NovelMovi
       },
     }
 
+    // Warn about look-alikes in the project before the character exists
+    const duplicateWarnings = await characterDuplicateService.checkNewMasterReference(
+      payload,
+      body.characterData.masterReferenceImage,
+      body.novelMovieProjectId
+    )
+
+    // Look-alikes stop the create until the caller confirms it with allowDuplicate
+    if (duplicateWarnings.length > 0 && body.allowDuplicate !== true) {
+      return NextResponse.json({
+        success: false,
+        error: 'Master reference looks like an existing character in this project; resend with allowDuplicate: true to create it anyway',
+        duplicateWarnings,
+      }, { status: 409 })
+    }
+
     // Create the character
     const character = await payload.create({
       collection: 'characters',
@@ -210,6 +235,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<NovelMovi
       id: character.id,                    // MongoDB ObjectId for database operations
       characterId: character.characterId || undefined, // Human-readable business identifier, convert null to undefined
       syncStatus: 'synced',
+      ...(duplicateWarnings.length > 0 && { duplicateWarnings }),
     }, { status: 201 })
 
   } catch (error) {
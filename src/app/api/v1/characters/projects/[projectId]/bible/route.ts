@@ -0,0 +1,72 @@
+/**
+ * Project Character Bible API
+ *
+ * GET /api/v1/characters/projects/{projectId}/bible?format=html|pdf
+ * Renders a printable character bible for the whole cast of a project: one
+ * page per character with master reference, 360° turnaround, physical traits,
+ * dialogue voice, psychology, character arc and relationships.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
+import { projectBibleService } from '@/services/ProjectBibleService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { projectId } = await params
+    const auth = await authorizeProject(request, payload, projectId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+    const { searchParams, origin } = new URL(request.url)
+    const format = searchParams.get('format') || 'html'
+
+    if (format !== 'html' && format !== 'pdf') {
+      return NextResponse.json(
+        { success: false, error: 'format must be "html" or "pdf"' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`📖 Building ${format} character bible for project: ${projectId}`)
+
+    const bible = await projectBibleService.buildBible(payload, projectId, origin)
+
+    if (bible.characters.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `No characters found for project ${projectId}` },
+        { status: 404 }
+      )
+    }
+
+    const filename = `${projectId.replace(/[^a-zA-Z0-9_-]/g, '_')}-character-bible`
+
+    if (format === 'pdf') {
+      const pdf = await projectBibleService.renderPdf(bible)
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${filename}.pdf"`,
+          'Content-Length': String(pdf.length),
+        },
+      })
+    }
+
+    return new NextResponse(projectBibleService.renderHtml(bible), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Content-Disposition': `inline; filename="${filename}.html"`,
+      },
+    })
+  } catch (error) {
+    console.error('Character bible generation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate character bible' },
+      { status: 500 }
+    )
+  }
+}
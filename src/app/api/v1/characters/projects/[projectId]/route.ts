@@ -14,6 +14,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeProject, requireRole } from '@/lib/utils/api-auth'
 import { PathRAGService } from '@/services/PathRAGService'
 
 export interface ProjectDeletionResponse {
@@ -44,6 +45,10 @@ export async function DELETE(
   try {
     const payload = await getPayload({ config })
     const { projectId } = await params
+    const auth = await authorizeProject(request, payload, projectId, 'characters:delete')
+    if (auth instanceof NextResponse) return auth
+    const roleError = requireRole(auth, 'admin', 'Deleting a whole project')
+    if (roleError) return roleError
     const pathragService = new PathRAGService()
 
     console.log(`🗑️ Starting project deletion for: ${projectId}`)
@@ -221,6 +226,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { projectId } = await params
+    const auth = await authorizeProject(request, payload, projectId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`🔍 Preview deletion for project: ${projectId}`)
 
@@ -5,7 +5,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
 import { pathragService } from '../../../../../services/PathRAGService'
+import { authorizeRequest, forbiddenResponse } from '@/lib/utils/api-auth'
 
 interface CharacterQueryRequest {
   query: string
@@ -23,6 +26,14 @@ interface CharacterQueryRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'pathrag:read')
+    if (auth instanceof NextResponse) return auth
+    // The knowledge base is shared by every project
+    if (auth.projectIds) {
+      return forbiddenResponse('Project-restricted API keys cannot query the shared knowledge base')
+    }
+
     const body: CharacterQueryRequest = await request.json()
 
     if (!body.query || body.query.trim().length === 0) {
@@ -89,6 +100,10 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'pathrag:read')
+    if (auth instanceof NextResponse) return auth
+
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action')
 
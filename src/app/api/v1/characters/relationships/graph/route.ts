@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeRequest, withProjectScope } from '@/lib/utils/api-auth'
 
 export interface RelationshipGraphNode {
   id: string
@@ -67,6 +68,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<Relationsh
     const { searchParams } = new URL(request.url)
     const projectId = searchParams.get('projectId')
 
+    const auth = await authorizeRequest(request, payload, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+
     console.log(`Generating relationship graph${projectId ? ` for project: ${projectId}` : ''}`)
 
     // Build query based on whether projectId is provided
@@ -82,7 +86,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<Relationsh
     // Get all characters (with or without project filter)
     const characters = await payload.find({
       collection: 'characters',
-      where: whereClause,
+      where: withProjectScope(auth, whereClause),
       limit: 1000, // Reasonable limit for relationship graphs
       depth: 2,
     })
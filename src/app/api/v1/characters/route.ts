@@ -1,17 +1,24 @@
 /**
  * API endpoint for character CRUD operations
  * GET /api/characters - List characters with optional search
- * POST /api/characters - Create new character
+ * POST /api/characters - Create new character; refuses with 409 when its master
+ * reference looks like an existing character of the same project, unless the
+ * body sets allowDuplicate: true
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeProject, authorizeRequest, withProjectScope } from '@/lib/utils/api-auth'
+import { characterDuplicateService } from '@/services/CharacterDuplicateService'
 
 export async function GET(request: NextRequest) {
   try {
     const payload = await getPayload({ config })
     const { searchParams } = new URL(request.url)
+
+    const auth = await authorizeRequest(request, payload, 'characters:read')
+    if (auth instanceof NextResponse) return auth
     
     const search = searchParams.get('search')
     const limit = parseInt(searchParams.get('limit') || '10')
@@ -39,7 +46,7 @@ export async function GET(request: NextRequest) {
 
     const characters = await payload.find({
       collection: 'characters',
-      where: whereClause,
+      where: withProjectScope(auth, whereClause),
       limit,
       page,
       sort: '-createdAt',
@@ -59,13 +66,39 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const payload = await getPayload({ config })
-    const body = await request.json()
+    const { allowDuplicate, ...body } = await request.json()
+
+    const auth = await authorizeProject(request, payload, body?.novelMovieIntegration?.projectId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+
+    // Checked before creating, so the new character is not compared with itself
+    const duplicateWarnings = await characterDuplicateService.checkNewMasterReference(
+      payload,
+      body?.masterReferenceImage,
+      body?.novelMovieIntegration?.projectId
+    )
+
+    // Look-alikes stop the create until the caller confirms it with allowDuplicate
+    if (duplicateWarnings.length > 0 && allowDuplicate !== true) {
+      return NextResponse.json(
+        {
+          error: 'Master reference looks like an existing character in this project; resend with allowDuplicate: true to create it anyway',
+          duplicateWarnings,
+        },
+        { status: 409 }
+      )
+    }
 
     const character = await payload.create({
       collection: 'characters',
       data: body,
     })
 
+    if (duplicateWarnings.length > 0) {
+      console.warn(`⚠️ Character ${character.id} may duplicate: ${duplicateWarnings.map((w) => w.character.name).join(', ')}`)
+      return NextResponse.json({ ...character, duplicateWarnings }, { status: 201 })
+    }
+
     return NextResponse.json(character, { status: 201 })
   } catch (error) {
     console.error('Character creation error:', error)
@@ -3,28 +3,41 @@
  * 
  * This endpoint provides character search functionality with similarity matching
  * to help avoid character duplication and find similar existing characters.
+ * Text matches are complemented by visual matches: characters whose master
+ * reference DINOv3 features are close to a reference image or to a text match.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeRequest, withProjectScope } from '@/lib/utils/api-auth'
+import { characterDuplicateService } from '@/services/CharacterDuplicateService'
+import { DINO_CONFIG } from '@/lib/config/dino'
 
 export interface CharacterSearchRequest {
-  query: string
+  query?: string // Optional when referenceImageId is given
   similarityThreshold?: number // 0-1, default 0.7
   includePhysical?: boolean
   includePersonality?: boolean
+  includeVisual?: boolean // default true
+  referenceImageId?: string // Media ID to find look-alikes of
+  visualSimilarityThreshold?: number // 0-1, defaults to DUPLICATE_VISUAL_THRESHOLD
   projectId?: string
   limit?: number
 }
 
+export interface CharacterSearchMatch {
+  character: any
+  similarity: number // Highest of the text and visual similarity
+  textSimilarity: number
+  visualSimilarity: number | null
+  visualMatchOf?: string // Text match this character looks like (absent for referenceImageId)
+  matchingFields: string[]
+}
+
 export interface CharacterSearchResponse {
   success: boolean
-  matches: Array<{
-    character: any
-    similarity: number
-    matchingFields: string[]
-  }>
+  matches: CharacterSearchMatch[]
   error?: string
 }
 
@@ -33,22 +46,27 @@ export async function POST(request: NextRequest): Promise<NextResponse<Character
     const payload = await getPayload({ config })
     const body: CharacterSearchRequest = await request.json()
 
-    console.log(`Searching characters with query: "${body.query}"`)
+    console.log(`Searching characters with query: "${body.query || ''}"${body.referenceImageId ? ` and reference image ${body.referenceImageId}` : ''}`)
+
+    const auth = await authorizeRequest(request, payload, 'characters:read')
+    if (auth instanceof NextResponse) return auth
 
     // Validate required fields
-    if (!body.query || body.query.trim().length === 0) {
+    if (!body.query?.trim() && !body.referenceImageId) {
       return NextResponse.json({
         success: false,
         matches: [],
-        error: 'Query is required',
+        error: 'Query or referenceImageId is required',
       }, { status: 400 })
     }
 
     // Extract parameters with defaults
-    const query = body.query.trim().toLowerCase()
+    const query = (body.query || '').trim().toLowerCase()
     const similarityThreshold = body.similarityThreshold || 0.7
     const includePhysical = body.includePhysical !== false // default true
     const includePersonality = body.includePersonality !== false // default true
+    const includeVisual = body.includeVisual !== false // default true
+    const visualThreshold = body.visualSimilarityThreshold || DINO_CONFIG.duplicates.similarityThreshold
     const limit = body.limit || 20
 
     // Build search criteria
@@ -63,29 +81,68 @@ export async function POST(request: NextRequest): Promise<NextResponse<Character
     // Get all characters for similarity comparison
     const characters = await payload.find({
       collection: 'characters',
-      where: whereClause,
+      where: withProjectScope(auth, whereClause),
       limit: 1000, // Get a large set for comparison
       depth: 1,
     })
 
     console.log(`Found ${characters.docs.length} characters to compare against`)
 
-    // Calculate similarity for each character
-    const matches: Array<{
-      character: any
-      similarity: number
-      matchingFields: string[]
-    }> = []
-
+    // Calculate text similarity for each character
+    const textScores = new Map<string, { score: number; matchingFields: string[] }>()
     for (const character of characters.docs) {
-      const similarity = calculateCharacterSimilarity(
-        query,
-        character,
-        includePhysical,
-        includePersonality
+      textScores.set(
+        String(character.id),
+        query
+          ? calculateCharacterSimilarity(query, character, includePhysical, includePersonality)
+          : { score: 0, matchingFields: [] }
       )
+    }
+
+    // Visual anchors: the reference image, or else the master references of the text matches
+    const anchors: Array<{ id: string | null; features: number[] }> = []
+    if (includeVisual && body.referenceImageId) {
+      const media = await payload.findByID({ collection: 'media', id: body.referenceImageId, depth: 0 }).catch(() => null)
+      const features = characterDuplicateService.getFeatures(media)
+      if (!features) {
+        return NextResponse.json({
+          success: false,
+          matches: [],
+          error: media ? 'Reference image has no DINOv3 features yet' : 'Reference image not found',
+        }, { status: 400 })
+      }
+      anchors.push({ id: null, features })
+    } else if (includeVisual) {
+      for (const character of characters.docs) {
+        const features = characterDuplicateService.getMasterFeatures(character)
+        if (features && textScores.get(String(character.id))!.score >= similarityThreshold) {
+          anchors.push({ id: String(character.id), features })
+        }
+      }
+    }
+
+    // Best visual match of each character against the anchors
+    const visualScores = new Map<string, { similarity: number; of: string | null }>()
+    for (const anchor of anchors) {
+      const visualMatches = characterDuplicateService.compare(anchor.features, characters.docs, {
+        threshold: visualThreshold,
+        excludeIds: anchor.id ? [anchor.id] : [],
+      })
+      for (const match of visualMatches) {
+        const current = visualScores.get(match.id)
+        if (!current || match.similarity > current.similarity) {
+          visualScores.set(match.id, { similarity: match.similarity, of: anchor.id })
+        }
+      }
+    }
+
+    const matches: CharacterSearchMatch[] = []
+
+    for (const character of characters.docs) {
+      const text = textScores.get(String(character.id))!
+      const visual = visualScores.get(String(character.id))
 
-      if (similarity.score >= similarityThreshold) {
+      if (text.score >= similarityThreshold || visual) {
         matches.push({
           character: {
             id: character.id,
@@ -102,8 +159,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<Character
             novelMovieIntegration: character.novelMovieIntegration,
             createdAt: character.createdAt,
           },
-          similarity: similarity.score,
-          matchingFields: similarity.matchingFields,
+          similarity: Math.max(text.score, visual?.similarity || 0),
+          textSimilarity: text.score,
+          visualSimilarity: visual?.similarity ?? null,
+          visualMatchOf: visual?.of || undefined,
+          matchingFields: visual ? [...text.matchingFields, 'masterReferenceImage'] : text.matchingFields,
         })
       }
     }
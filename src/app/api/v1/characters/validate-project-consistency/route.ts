@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
 
 
 export interface ConsistencyRule {
@@ -103,6 +104,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<ProjectCo
       }, { status: 400 })
     }
 
+    const auth = await authorizeProject(request, payload, body.projectId, 'characters:write')
+    if (auth instanceof NextResponse) return auth
+
     // Get all characters for the project
     const characters = await payload.find({
       collection: 'characters',
@@ -0,0 +1,71 @@
+/**
+ * Job Budget Approval API
+ *
+ * POST /api/v1/jobs/[jobId]/approve
+ * Releases a job that was held in awaiting_approval because it would take its
+ * project over budget. The job is queued and runs like any other; its spend is
+ * recorded in the usage ledger as usual.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeJob } from '@/lib/utils/api-auth'
+import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'budgets:write')
+    if (auth instanceof NextResponse) return auth
+
+    console.log(`💸 Budget approval requested for job: ${jobId}`)
+
+    const backgroundJobService = BackgroundJobService.getInstance()
+    const job = await backgroundJobService.getJobStatus(jobId, payload)
+
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+
+    if (job.status !== 'awaiting_approval') {
+      return NextResponse.json({
+        success: false,
+        error: `Only jobs awaiting approval can be approved (status: ${job.status})`,
+      }, { status: 400 })
+    }
+
+    const approvedBy = auth.userId || auth.keyPrefix || null
+    const approvedJob = await backgroundJobService.approveJob(jobId, payload, approvedBy)
+
+    if (!approvedJob) {
+      // Another request approved or cancelled the job in the meantime
+      return NextResponse.json({
+        success: false,
+        error: 'Job is no longer awaiting approval',
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: approvedJob.status,
+      budgetApproval: approvedJob.budgetApproval,
+      message: 'Job approved and queued.',
+      pollUrl: `/api/v1/jobs/${jobId}/status`,
+      eventsUrl: `/api/v1/jobs/${jobId}/events`,
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('Job approval error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve job',
+    }, { status: 500 })
+  }
+}
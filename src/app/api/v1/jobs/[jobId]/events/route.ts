@@ -0,0 +1,196 @@
+/**
+ * Job Events Stream API
+ *
+ * Server-Sent Events stream for a background job. Pushes progress ticks,
+ * per-shot results and the terminal state as they happen, then closes.
+ *
+ * Events:
+ * - snapshot: current job state when the stream opens
+ * - progress: { current, total, percentage, currentTask }
+ * - shot: { shotName, status: 'generated' | 'failed', qualityScore, error, ... }
+ * - status: { status, error?, results? } - the stream closes after a terminal status
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeJob } from '@/lib/utils/api-auth'
+import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
+import { jobEventService, JobEvent } from '../../../../../../services/JobEventService'
+
+export const dynamic = 'force-dynamic'
+
+// Jobs running on another worker process only publish to the database
+const FALLBACK_POLL_INTERVAL_MS = 3000
+const KEEP_ALIVE_INTERVAL_MS = 15000
+
+async function findJob(payload: any, jobId: string) {
+  const result = await payload.find({
+    collection: 'image-generation-jobs',
+    where: { jobId: { equals: jobId } },
+    limit: 1,
+  })
+
+  return result.docs[0] || null
+}
+
+function toProgress(job: any) {
+  return {
+    current: job.progress?.current || 0,
+    total: job.progress?.total || 0,
+    percentage: job.progress?.percentage || 0,
+    currentTask: job.progress?.currentTask || undefined,
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const payload = await getPayload({ config })
+  const { jobId } = await params
+  const auth = await authorizeJob(request, payload, jobId, 'jobs:read')
+  if (auth instanceof NextResponse) return auth
+
+  const job = await findJob(payload, jobId)
+  if (!job) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+  }
+
+  const backgroundJobService = BackgroundJobService.getInstance()
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false
+      let lastFingerprint = `${job.status}:${job.progress?.current}:${job.progress?.currentTask}`
+
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      const send = (event: string, data: any) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Stream already closed by the client
+        }
+      }
+
+      send('snapshot', {
+        jobId,
+        jobType: job.jobType,
+        status: job.status,
+        progress: toProgress(job),
+        attempts: job.attempts || 0,
+        maxAttempts: job.maxAttempts || undefined,
+      })
+
+      if (jobEventService.isTerminalStatus(job.status)) {
+        send('status', {
+          type: 'status',
+          jobId,
+          status: job.status,
+          error: job.error || undefined,
+          results: job.status === 'completed' ? job.results : undefined,
+          timestamp: new Date().toISOString(),
+        })
+        close()
+        return
+      }
+
+      const unsubscribe = jobEventService.subscribe(jobId, (event: JobEvent) => {
+        send(event.type, event)
+        if (event.type === 'status' && jobEventService.isTerminalStatus(event.status)) {
+          close()
+        }
+      })
+
+      const poll = setInterval(async () => {
+        if (closed || backgroundJobService.isJobActive(jobId)) {
+          return
+        }
+
+        try {
+          const current = await findJob(payload, jobId)
+          if (!current) {
+            send('status', {
+              type: 'status',
+              jobId,
+              status: 'failed',
+              error: 'Job not found',
+              timestamp: new Date().toISOString(),
+            })
+            close()
+            return
+          }
+
+          const fingerprint = `${current.status}:${current.progress?.current}:${current.progress?.currentTask}`
+          if (fingerprint === lastFingerprint) {
+            return
+          }
+          lastFingerprint = fingerprint
+
+          send('progress', {
+            type: 'progress',
+            jobId,
+            ...toProgress(current),
+            timestamp: new Date().toISOString(),
+          })
+
+          if (current.status !== 'processing') {
+            send('status', {
+              type: 'status',
+              jobId,
+              status: current.status,
+              error: current.error || undefined,
+              results: current.status === 'completed' ? current.results : undefined,
+              timestamp: new Date().toISOString(),
+            })
+          }
+
+          if (jobEventService.isTerminalStatus(current.status)) {
+            close()
+          }
+        } catch (error) {
+          console.error(`Job event poll failed for ${jobId}:`, error)
+        }
+      }, FALLBACK_POLL_INTERVAL_MS)
+
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(poll)
+        clearInterval(keepAlive)
+      }
+
+      request.signal.addEventListener('abort', close)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,97 @@
+/**
+ * Job Resume API
+ *
+ * POST /api/v1/jobs/[jobId]/resume
+ * Requeues a failed or cancelled core set job under the same jobId. Shots already
+ * recorded in the job results or linked in the character's imageGallery are
+ * skipped, so only missing or failed shots are generated (and paid for) again.
+ * The remaining shots are checked against the project budget like a new job.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeJob } from '@/lib/utils/api-auth'
+import { budgetDetails, budgetExceededResponse } from '@/lib/utils/budget'
+import { usageService } from '@/services/UsageService'
+import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'jobs:write')
+    if (auth instanceof NextResponse) return auth
+
+    console.log(`⏯️ Resume requested for job: ${jobId}`)
+
+    const backgroundJobService = BackgroundJobService.getInstance()
+    const job = await backgroundJobService.getJobStatus(jobId, payload)
+
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+
+    if (!backgroundJobService.isResumable(job)) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot resume ${job.jobType} job with status: ${job.status}`,
+      }, { status: 400 })
+    }
+
+    const budgetCheck = await usageService.checkBudget(
+      payload,
+      job.projectId,
+      usageService.estimateCost(backgroundJobService.getRemainingShotCount(job))
+    )
+    const queueForApproval = budgetCheck.action === 'approval'
+    if (budgetCheck.action !== 'allow' && !queueForApproval) {
+      return budgetExceededResponse(budgetCheck)
+    }
+
+    const resumedJob = await backgroundJobService.resumeJob(
+      jobId,
+      payload,
+      queueForApproval
+        ? { estimatedCost: budgetCheck.estimatedCost, spent: budgetCheck.spent, limit: budgetCheck.budget!.limit }
+        : undefined
+    )
+
+    if (!resumedJob) {
+      // Another request resumed or changed the job in the meantime
+      return NextResponse.json({
+        success: false,
+        error: 'Job is no longer in a resumable state',
+      }, { status: 409 })
+    }
+
+    const completedShots = resumedJob.results?.generatedImages?.length || 0
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      status: resumedJob.status,
+      resumeCount: resumedJob.resumeCount || 1,
+      message: [
+        queueForApproval
+          ? 'Resuming would exceed the project budget; the job will continue once an admin approves it.'
+          : 'Job queued for resume.',
+        completedShots > 0 ? `${completedShots} shots from earlier runs will be kept.` : '',
+      ].filter(Boolean).join(' '),
+      ...(queueForApproval && { budget: budgetDetails(budgetCheck), approveUrl: `/api/v1/jobs/${jobId}/approve` }),
+      pollUrl: `/api/v1/jobs/${jobId}/status`,
+      eventsUrl: `/api/v1/jobs/${jobId}/events`,
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('Job resume error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resume job',
+    }, { status: 500 })
+  }
+}
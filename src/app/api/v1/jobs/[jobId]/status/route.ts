@@ -7,12 +7,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeJob } from '@/lib/utils/api-auth'
 import { BackgroundJobService } from '../../../../../../services/BackgroundJobService'
+import type { ImageGenerationJob } from '../../../../../../collections/ImageGenerationJobs'
 
 export interface JobStatusResponse {
   success: boolean
   jobId: string
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  status: 'awaiting_approval' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: {
     current: number
     total: number
@@ -26,16 +28,30 @@ export interface JobStatusResponse {
       quality: number
       dinoAssetId?: string
       mediaId?: string
+      sceneId?: string
+      characterId?: string
+      shotType?: string
     }>
     failedImages: Array<{
       angle: string
       error: string
       attempts: number
+      sceneId?: string
+      characterId?: string
+      shotType?: string
     }>
+    scenes?: NonNullable<ImageGenerationJob['results']>['scenes']
+    partial?: boolean
     totalAttempts: number
     processingTime: number
   }
   error?: string
+  attempts?: number
+  maxAttempts?: number
+  resumeCount?: number
+  resumeUrl?: string
+  approveUrl?: string
+  budgetApproval?: ImageGenerationJob['budgetApproval']
   startedAt?: string
   completedAt?: string
   estimatedCompletionAt?: string
@@ -49,6 +65,8 @@ export async function GET(
   try {
     const payload = await getPayload({ config })
     const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'jobs:read')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`📊 Checking status for job: ${jobId}`)
 
@@ -86,6 +104,9 @@ export async function GET(
         percentage: job.progress?.percentage || 0,
         currentTask: job.progress?.currentTask || undefined,
       },
+      attempts: job.attempts || 0,
+      maxAttempts: job.maxAttempts || undefined,
+      resumeCount: job.resumeCount || 0,
       startedAt: job.startedAt || undefined,
       completedAt: job.completedAt || undefined,
       estimatedCompletionAt: job.estimatedCompletionAt || undefined,
@@ -97,6 +118,9 @@ export async function GET(
       response.results = job.results as JobStatusResponse['results']
       const results = job.results as any
       response.message = `Job completed successfully. Generated ${results.generatedImages?.length || 0} images.`
+    } else if (job.results) {
+      // Partial results of running, interrupted or failed jobs
+      response.results = { ...(job.results as JobStatusResponse['results'])!, partial: true }
     }
 
     // Add error if job failed
@@ -120,7 +144,22 @@ export async function GET(
 
     // Add pending message
     if (job.status === 'pending') {
-      response.message = 'Job is queued and will start processing soon.'
+      if (job.attempts && job.error) {
+        response.error = job.error
+        response.message = `Attempt ${job.attempts} failed. Job is queued for retry.`
+      } else {
+        response.message = 'Job is queued and will start processing soon.'
+      }
+    }
+
+    // Add approval message
+    if (job.status === 'awaiting_approval') {
+      response.message = 'Job would exceed the project budget and is waiting for an admin to approve it.'
+      response.approveUrl = `/api/v1/jobs/${jobId}/approve`
+    }
+
+    if (job.budgetApproval?.estimatedCost) {
+      response.budgetApproval = job.budgetApproval as JobStatusResponse['budgetApproval']
     }
 
     // Add cancelled message
@@ -128,6 +167,11 @@ export async function GET(
       response.message = 'Job was cancelled.'
     }
 
+    // Failed and cancelled core set jobs can continue where they stopped
+    if (backgroundJobService.isResumable(job)) {
+      response.resumeUrl = `/api/v1/jobs/${jobId}/resume`
+    }
+
     console.log(`📊 Job ${jobId} status: ${job.status} (${response.progress.percentage}%)`)
 
     return NextResponse.json(response)
@@ -152,6 +196,8 @@ export async function DELETE(
   try {
     const payload = await getPayload({ config })
     const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'jobs:write')
+    if (auth instanceof NextResponse) return auth
 
     console.log(`🛑 Cancelling job: ${jobId}`)
 
@@ -191,7 +237,7 @@ export async function DELETE(
     } else {
       return NextResponse.json({
         success: false,
-        message: 'Job was not actively running, but marked as cancelled',
+        message: 'Job was not running on this worker, but marked as cancelled',
       })
     }
 
@@ -0,0 +1,153 @@
+/**
+ * Job Webhook Deliveries API
+ *
+ * GET lists the webhook delivery attempts recorded for a job.
+ * POST replays the event matching the job's current state to its callback URL,
+ * optionally named by event or by a previous deliveryId. Replays carry the
+ * job's current state, so other events are refused: a receiver never gets e.g.
+ * job.failed for a job that was resumed since. Replays make a single attempt.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeJob } from '@/lib/utils/api-auth'
+import { webhookService } from '../../../../../../services/WebhookService'
+import type { WebhookEvent } from '../../../../../../lib/config/webhooks'
+
+const WEBHOOK_EVENTS: WebhookEvent[] = ['job.progress', 'job.completed', 'job.failed', 'job.cancelled']
+
+async function findJob(payload: any, jobId: string) {
+  const result = await payload.find({
+    collection: 'image-generation-jobs',
+    where: { jobId: { equals: jobId } },
+    limit: 1,
+  })
+
+  return result.docs[0] || null
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'jobs:read')
+    if (auth instanceof NextResponse) return auth
+
+    const job = await findJob(payload, jobId)
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+
+    const deliveries = (job.webhookDeliveries || []).map((delivery: any) => ({
+      deliveryId: delivery.deliveryId,
+      event: delivery.event,
+      attempt: delivery.attempt,
+      success: delivery.success,
+      statusCode: delivery.statusCode || undefined,
+      error: delivery.error || undefined,
+      durationMs: delivery.durationMs || undefined,
+      attemptedAt: delivery.attemptedAt,
+      replayOf: delivery.replayOf || undefined,
+    }))
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      callbackUrl: job.webhook?.callbackUrl || null,
+      signed: Boolean(job.webhook?.secret),
+      deliveries,
+    })
+  } catch (error) {
+    console.error('Webhook delivery listing error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list webhook deliveries',
+    }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { jobId } = await params
+    const auth = await authorizeJob(request, payload, jobId, 'jobs:write')
+    if (auth instanceof NextResponse) return auth
+    const body = await request.json().catch(() => ({}))
+    const { deliveryId, event: requestedEvent } = body as { deliveryId?: string; event?: WebhookEvent }
+
+    const job = await findJob(payload, jobId)
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+
+    if (!job.webhook?.callbackUrl) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job has no webhook callback URL configured',
+      }, { status: 400 })
+    }
+
+    const currentEvent = webhookService.eventForStatus(job.status)
+    let event: WebhookEvent | null = currentEvent
+
+    if (deliveryId) {
+      const original = (job.webhookDeliveries || []).find((delivery: any) => delivery.deliveryId === deliveryId)
+      if (!original) {
+        return NextResponse.json({ success: false, error: `Delivery ${deliveryId} not found` }, { status: 404 })
+      }
+      event = original.event
+    } else if (requestedEvent) {
+      if (!WEBHOOK_EVENTS.includes(requestedEvent)) {
+        return NextResponse.json({
+          success: false,
+          error: `event must be one of: ${WEBHOOK_EVENTS.join(', ')}`,
+        }, { status: 400 })
+      }
+      event = requestedEvent
+    }
+
+    if (!event) {
+      return NextResponse.json({
+        success: false,
+        error: `No webhook event for job status: ${job.status}`,
+      }, { status: 400 })
+    }
+
+    if (event !== currentEvent) {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot replay ${event} for a job with status ${job.status}${currentEvent ? ` (use ${currentEvent})` : ''}`,
+      }, { status: 409 })
+    }
+
+    console.log(`🔁 Replaying ${event} webhook for job ${jobId}`)
+
+    // Replays carry the job's current state and make one attempt, so the request returns promptly
+    const delivery = await webhookService.dispatch(payload, job, event, {
+      replay: true,
+      replayOf: deliveryId,
+      maxAttempts: 1,
+    })
+
+    return NextResponse.json({
+      success: Boolean(delivery?.success),
+      jobId,
+      delivery,
+    }, { status: delivery?.success ? 200 : 502 })
+  } catch (error) {
+    console.error('Webhook replay error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to replay webhook',
+    }, { status: 500 })
+  }
+}
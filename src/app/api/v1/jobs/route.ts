@@ -7,14 +7,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeRequest, withProjectScope } from '@/lib/utils/api-auth'
 
 export interface JobsListResponse {
   success: boolean
   jobs: Array<{
     jobId: string
     characterId: string
-    jobType: 'core-set' | '360-set' | 'single-image'
-    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+    jobType: 'core-set' | '360-set' | 'expression-sheet' | 'batch-scenes' | 'single-image'
+    status: 'awaiting_approval' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
     progress: {
       current: number
       total: number
@@ -42,8 +43,12 @@ export async function GET(request: NextRequest): Promise<NextResponse<JobsListRe
     const payload = await getPayload({ config })
     const { searchParams } = new URL(request.url)
 
+    const auth = await authorizeRequest(request, payload, 'jobs:read')
+    if (auth instanceof NextResponse) return auth
+
     // Parse query parameters
     const characterId = searchParams.get('characterId')
+    const projectId = searchParams.get('projectId')
     const status = searchParams.get('status')
     const jobType = searchParams.get('jobType')
     const page = parseInt(searchParams.get('page') || '1')
@@ -58,6 +63,10 @@ export async function GET(request: NextRequest): Promise<NextResponse<JobsListRe
       query.characterId = { equals: characterId }
     }
 
+    if (projectId) {
+      query.projectId = { equals: projectId }
+    }
+
     if (status) {
       query.status = { equals: status }
     }
@@ -69,7 +78,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<JobsListRe
     // Get jobs from database
     const result = await payload.find({
       collection: 'image-generation-jobs',
-      where: query,
+      where: withProjectScope(auth, query, 'projectId'),
       sort: '-createdAt', // Most recent first
       page,
       limit,
@@ -8,6 +8,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { pathragService } from '../../../../../services/PathRAGService'
+import { UserRole } from '@/lib/config/api-auth'
+import { authorizeCharacter, authorizeRequest, forbiddenResponse, requireRole } from '@/lib/utils/api-auth'
+
+const READ_ACTIONS = ['health_check', 'get_stats']
+
+// Knowledge-base-wide actions need more than the pathrag:write scope
+const ACTION_ROLES: Record<string, UserRole> = {
+  sync_all: 'art-director',
+  delete_entity: 'admin',
+}
 
 interface ManagementRequest {
   action: 'sync_all' | 'sync_character' | 'delete_entity' | 'health_check' | 'get_stats'
@@ -27,6 +37,28 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(
+      request,
+      payload,
+      READ_ACTIONS.includes(body.action) ? 'pathrag:read' : 'pathrag:write'
+    )
+    if (auth instanceof NextResponse) return auth
+
+    if (ACTION_ROLES[body.action]) {
+      const roleError = requireRole(auth, ACTION_ROLES[body.action], body.action)
+      if (roleError) return roleError
+    }
+
+    // Only sync_character can be tied to a project; the rest touch the shared knowledge base
+    if (auth.projectIds && ['sync_all', 'delete_entity'].includes(body.action)) {
+      return forbiddenResponse(`Project-restricted API keys cannot run ${body.action}`)
+    }
+    if (body.action === 'sync_character' && body.characterId) {
+      const characterAuth = await authorizeCharacter(request, payload, body.characterId, 'pathrag:write')
+      if (characterAuth instanceof NextResponse) return characterAuth
+    }
+
     console.log(`PathRAG management action: ${body.action}`)
 
     switch (body.action) {
@@ -76,8 +108,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'pathrag:read')
+    if (auth instanceof NextResponse) return auth
+
     // Return management interface information
     const healthResult = await pathragService.checkHealth()
     const statsResult = await pathragService.getStats()
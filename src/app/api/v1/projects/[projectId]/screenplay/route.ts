@@ -0,0 +1,114 @@
+/**
+ * Screenplay Ingestion API
+ *
+ * POST /api/v1/projects/{projectId}/screenplay
+ * Parses a Fountain or Final Draft (FDX) screenplay, matches its character
+ * cues to the project's characters and plans shots for every scene. Nothing is
+ * generated: the response is a shot plan to review, and its batchRequest can be
+ * submitted unchanged to POST /api/v1/characters/batch-generate-scenes.
+ *
+ * Send JSON ({ screenplay, format?, shotsPerScene?, storyYear?, batchSettings? })
+ * or the raw screenplay text as the body (?format=fountain|fdx optional).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeProject } from '@/lib/utils/api-auth'
+import { screenplayParserService, ScreenplayFormat, ScreenplayParseError } from '@/services/ScreenplayParserService'
+import { screenplayPlanService, ShotPlanOptions } from '@/services/ScreenplayPlanService'
+import { SCREENPLAY_CONFIG } from '@/lib/config/screenplay'
+
+interface ScreenplayRequest extends ShotPlanOptions {
+  screenplay: string
+  format?: ScreenplayFormat
+}
+
+const FORMATS: ScreenplayFormat[] = ['fountain', 'fdx']
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const payload = await getPayload({ config })
+    const { projectId } = await params
+    const auth = await authorizeProject(request, payload, projectId, 'characters:read')
+    if (auth instanceof NextResponse) return auth
+
+    let body: ScreenplayRequest
+    if ((request.headers.get('content-type') || '').includes('application/json')) {
+      body = await request.json()
+    } else {
+      const format = new URL(request.url).searchParams.get('format') || undefined
+      body = { screenplay: await request.text(), format: format as ScreenplayFormat | undefined }
+    }
+
+    if (typeof body.screenplay !== 'string' || body.screenplay.trim() === '') {
+      return NextResponse.json(
+        { success: false, error: 'screenplay is required (Fountain or Final Draft FDX text)' },
+        { status: 400 }
+      )
+    }
+
+    if (body.screenplay.length > SCREENPLAY_CONFIG.maxLength) {
+      return NextResponse.json(
+        { success: false, error: `screenplay exceeds ${SCREENPLAY_CONFIG.maxLength} characters` },
+        { status: 413 }
+      )
+    }
+
+    if (body.format !== undefined && !FORMATS.includes(body.format)) {
+      return NextResponse.json(
+        { success: false, error: 'format must be "fountain" or "fdx"' },
+        { status: 400 }
+      )
+    }
+
+    if (body.shotsPerScene !== undefined && (!Number.isInteger(body.shotsPerScene) || body.shotsPerScene < 1 || body.shotsPerScene > SCREENPLAY_CONFIG.maxShotsPerScene)) {
+      return NextResponse.json(
+        { success: false, error: `shotsPerScene must be an integer from 1 to ${SCREENPLAY_CONFIG.maxShotsPerScene}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.storyYear !== undefined && !Number.isInteger(body.storyYear)) {
+      return NextResponse.json(
+        { success: false, error: 'storyYear must be an integer' },
+        { status: 400 }
+      )
+    }
+
+    const screenplay = screenplayParserService.parse(body.screenplay, body.format)
+
+    if (screenplay.scenes.length > SCREENPLAY_CONFIG.maxScenes) {
+      return NextResponse.json(
+        { success: false, error: `screenplay has ${screenplay.scenes.length} scenes; at most ${SCREENPLAY_CONFIG.maxScenes} can be planned at once` },
+        { status: 413 }
+      )
+    }
+
+    console.log(`🎬 Planning ${screenplay.scenes.length} ${screenplay.format} scenes for project: ${projectId}`)
+
+    const plan = await screenplayPlanService.buildPlan(payload, projectId, screenplay, {
+      shotsPerScene: body.shotsPerScene,
+      storyYear: body.storyYear,
+      batchSettings: body.batchSettings,
+    })
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    if (error instanceof ScreenplayParseError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    console.error('Screenplay ingestion error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan screenplay' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,7 +6,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
 import { qualityAssuranceService } from '../../../../services/QualityAssuranceService'
+import { authorizeRequest, forbiddenResponse, requireRole } from '@/lib/utils/api-auth'
 
 interface QARequest {
   assetIds: string | string[]
@@ -26,6 +29,10 @@ interface QAConfigRequest {
 
 export async function POST(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'qa:write')
+    if (auth instanceof NextResponse) return auth
+
     const body: QARequest = await request.json()
 
     if (!body.assetIds) {
@@ -85,8 +92,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'qa:read')
+    if (auth instanceof NextResponse) return auth
+
     const thresholds = qualityAssuranceService.getThresholds()
     
     return NextResponse.json({
@@ -115,6 +126,16 @@ export async function GET(_request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'qa:write')
+    if (auth instanceof NextResponse) return auth
+    const roleError = requireRole(auth, 'admin', 'Changing QA thresholds')
+    if (roleError) return roleError
+    // Thresholds are global, so project-restricted keys may not change them
+    if (auth.projectIds) {
+      return forbiddenResponse('Project-restricted API keys cannot change the QA configuration')
+    }
+
     const body: QAConfigRequest = await request.json()
 
     // Validate threshold values
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { authorizeRequest } from '@/lib/utils/api-auth'
 
 export interface ReferenceShot {
   slug: string
@@ -80,6 +81,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<ListRefere
   try {
     const payload = await getPayload({ config })
     const { searchParams } = new URL(request.url)
+
+    const auth = await authorizeRequest(request, payload, 'reference-shots:read')
+    if (auth instanceof NextResponse) return auth
     
     const pack = searchParams.get('pack') // 'core' | 'addon' | null
     const lens = searchParams.get('lens') // '35' | '50' | '85' | null
@@ -159,6 +163,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<ListRefere
 export async function POST(request: NextRequest): Promise<NextResponse<CreateReferenceShotResponse>> {
   try {
     const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'reference-shots:write')
+    if (auth instanceof NextResponse) return auth
+
     const body: CreateReferenceShotRequest = await request.json()
 
     console.log(`🎬 Creating new reference shot template: ${body.shotName}`)
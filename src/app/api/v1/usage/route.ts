@@ -0,0 +1,73 @@
+/**
+ * Generation Usage Report API
+ *
+ * GET /api/v1/usage
+ * Estimated generation spend grouped by project and character, with each
+ * project's budget and remaining allowance.
+ *
+ * Query parameters:
+ * - projectId: limit the report to one or more projects (comma separated)
+ * - from, to: ISO dates bounding the ledger entries included
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { authorizeRequest, canAccessProject, forbiddenResponse } from '@/lib/utils/api-auth'
+import { usageService } from '@/services/UsageService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const payload = await getPayload({ config })
+    const auth = await authorizeRequest(request, payload, 'usage:read')
+    if (auth instanceof NextResponse) return auth
+
+    const { searchParams } = new URL(request.url)
+    const requestedProjects = searchParams.get('projectId')
+      ?.split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+
+    const denied = (requestedProjects || []).filter((projectId) => !canAccessProject(auth, projectId))
+    if (denied.length > 0) {
+      return forbiddenResponse(`API key is not permitted for projects: ${denied.join(', ')}`)
+    }
+
+    const from = parseDate(searchParams.get('from'))
+    const to = parseDate(searchParams.get('to'))
+    if (from === undefined || to === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be ISO 8601 dates' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`📊 Building usage report for ${requestedProjects?.join(', ') || 'all projects'}`)
+
+    const report = await usageService.getReport(payload, {
+      // Project-restricted keys only see their own projects
+      projectIds: requestedProjects?.length ? requestedProjects : auth.projectIds,
+      from: from || undefined,
+      to: to || undefined,
+    })
+
+    return NextResponse.json({ success: true, ...report })
+
+  } catch (error) {
+    console.error('Usage report error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build usage report',
+    }, { status: 500 })
+  }
+}
+
+/**
+ * null when absent, undefined when invalid
+ */
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
@@ -0,0 +1,152 @@
+import type { Access, CollectionConfig } from 'payload'
+import { API_SCOPES } from '../lib/config/api-auth'
+import { getPrincipal, hasScope } from '../lib/utils/api-auth'
+import { apiKeyService } from '../services/ApiKeyService'
+
+const canManageKeys = (user: any): boolean => {
+  const principal = getPrincipal(user)
+  return Boolean(principal && hasScope(principal, 'admin:keys'))
+}
+
+// Admins (admin:keys) see every key; other users only their own
+const ownKeysOrManager: Access = ({ req }) => {
+  const principal = getPrincipal(req.user)
+  if (!principal || !req.user) return false
+  if (hasScope(principal, 'admin:keys')) return true
+  if (principal.type === 'api-key') return false
+  return { user: { equals: req.user.id } }
+}
+
+export const ApiKeys: CollectionConfig = {
+  slug: 'api-keys',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'prefix', 'user', 'scopes', 'lastUsedAt', 'revokedAt'],
+    description: 'API keys for /api/v1 and the REST API. The key itself is only shown in the create response.',
+  },
+  access: {
+    read: ownKeysOrManager,
+    create: ({ req }) => {
+      const principal = getPrincipal(req.user)
+      // Keys never exceed their owner's role, so any signed-in user may create them
+      return Boolean(principal && req.user && (principal.type !== 'api-key' || hasScope(principal, 'admin:keys')))
+    },
+    update: ownKeysOrManager,
+    delete: ownKeysOrManager,
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'What this key is used for, e.g. "Novel Movie production".',
+      },
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      relationTo: 'users',
+      required: true,
+      index: true,
+      access: {
+        // Moving a key to another user would give it that user's role
+        update: ({ req }) => canManageKeys(req.user),
+      },
+      admin: {
+        description: 'Requests made with this key act as this user.',
+      },
+    },
+    {
+      name: 'prefix',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Public part of the key, used to identify it in logs.',
+      },
+    },
+    {
+      name: 'keyHash',
+      type: 'text',
+      access: {
+        read: () => false,
+      },
+      admin: {
+        hidden: true,
+      },
+    },
+    {
+      name: 'scopes',
+      type: 'select',
+      hasMany: true,
+      required: true,
+      options: API_SCOPES.map((scope) => ({ label: scope, value: scope })),
+    },
+    {
+      name: 'projectIds',
+      type: 'text',
+      hasMany: true,
+      label: 'Allowed Projects',
+      admin: {
+        description: 'Novel Movie project IDs this key is limited to. Leave empty for all projects.',
+      },
+    },
+    {
+      name: 'expiresAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'revokedAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        description: 'Set to revoke the key.',
+      },
+    },
+    {
+      name: 'lastUsedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      ({ data, operation, originalDoc, req }) => {
+        // Only admins may issue keys on behalf of other users or hand them over
+        if (req.user && getPrincipal(req.user) && !canManageKeys(req.user)) {
+          if (operation === 'create') {
+            data.user = req.user.id
+          } else if (originalDoc?.user) {
+            data.user = typeof originalDoc.user === 'object' ? originalDoc.user.id : originalDoc.user
+          }
+        }
+
+        // Keys created from the admin UI get generated here; the plaintext is
+        // handed to afterChange through the request context
+        if (operation === 'create' && !data.keyHash) {
+          const generated = apiKeyService.generateKey()
+          data.prefix = generated.prefix
+          data.keyHash = generated.keyHash
+          req.context.apiKeyPlaintext = generated.key
+        }
+        return data
+      },
+    ],
+    afterChange: [
+      ({ doc, operation, req }) => {
+        if (operation === 'create' && req.context.apiKeyPlaintext) {
+          return { ...doc, key: req.context.apiKeyPlaintext }
+        }
+        return doc
+      },
+    ],
+  },
+}
@@ -1,6 +1,9 @@
 import type { CollectionConfig } from 'payload'
 // import { characterWorkflowService } from '../services/CharacterWorkflowService' // Legacy service
 import { pathragService } from '../services/PathRAGService'
+import { CHARACTER_PROJECT_FIELD, scopedAccess, scopedCreateAccess } from '../lib/utils/api-auth'
+import { wardrobeService } from '../services/WardrobeService'
+import { appearanceEraService } from '../services/AppearanceEraService'
 
 export const Characters: CollectionConfig = {
   slug: 'characters',
@@ -8,11 +11,16 @@ export const Characters: CollectionConfig = {
     useAsTitle: 'name',
     defaultColumns: ['name', 'status', 'characterId', 'updatedAt'],
   },
+  // API keys are limited to their scopes and allowed projects (see lib/utils/api-auth)
   access: {
-    read: () => true,
-    create: () => true,
-    update: () => true,
-    delete: () => true,
+    read: scopedAccess('characters:read', CHARACTER_PROJECT_FIELD),
+    create: scopedCreateAccess('characters:write', CHARACTER_PROJECT_FIELD),
+    update: scopedAccess('characters:write', CHARACTER_PROJECT_FIELD),
+    delete: scopedAccess('characters:delete', CHARACTER_PROJECT_FIELD),
+  },
+  // Full document history for diff and restore (see CharacterVersionService)
+  versions: {
+    maxPerDoc: 50,
   },
   fields: [
     {
@@ -231,6 +239,84 @@ export const Characters: CollectionConfig = {
                   'Detailed physical appearance, distinguishing features, and overall look.',
               },
             },
+            {
+              name: 'eras',
+              type: 'array',
+              label: 'Appearance Eras',
+              admin: {
+                description:
+                  'How the character looks at different points of the story, e.g. child, young adult, elderly. Each era has its own master reference and core set.',
+              },
+              validate: (value: any) => appearanceEraService.validateEras(value),
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'eraId',
+                      type: 'text',
+                      required: true,
+                      label: 'Era ID',
+                      admin: {
+                        width: '34%',
+                        description: 'Stable ID used by the API, e.g. "child"',
+                      },
+                    },
+                    {
+                      name: 'name',
+                      type: 'text',
+                      required: true,
+                      label: 'Name',
+                      admin: { width: '33%' },
+                    },
+                    {
+                      name: 'age',
+                      type: 'number',
+                      min: 0,
+                      label: 'Age',
+                      admin: { width: '33%' },
+                    },
+                  ],
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'fromYear',
+                      type: 'number',
+                      label: 'From Story Year',
+                      admin: { width: '50%' },
+                    },
+                    {
+                      name: 'toYear',
+                      type: 'number',
+                      label: 'To Story Year',
+                      admin: {
+                        width: '50%',
+                        description: 'Leave empty for the rest of the story',
+                      },
+                    },
+                  ],
+                },
+                {
+                  name: 'physicalDescriptionDelta',
+                  type: 'textarea',
+                  label: 'Appearance Changes',
+                  admin: {
+                    description: 'How the character looks different in this era; added to the physical description in prompts',
+                  },
+                },
+                {
+                  name: 'masterReferenceImage',
+                  type: 'upload',
+                  relationTo: 'media',
+                  label: 'Master Reference Image',
+                  admin: {
+                    description: 'Genesis image for this era. Its core set and searches are kept apart from the base look.',
+                  },
+                },
+              ],
+            },
             {
               name: 'clothing',
               type: 'text',
@@ -239,6 +325,92 @@ export const Characters: CollectionConfig = {
                 description: 'Typical clothing style, fashion preferences, and signature looks.',
               },
             },
+            {
+              name: 'wardrobe',
+              type: 'array',
+              label: 'Wardrobe',
+              admin: {
+                description:
+                  'Named outfits. Generation routes accept an outfitId to dress the character in one, and tag the resulting images with it.',
+              },
+              validate: (value: any) => wardrobeService.validateWardrobe(value),
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'outfitId',
+                      type: 'text',
+                      required: true,
+                      label: 'Outfit ID',
+                      admin: {
+                        width: '50%',
+                        description: 'Stable ID used by the API, e.g. "act2-uniform"',
+                      },
+                    },
+                    {
+                      name: 'name',
+                      type: 'text',
+                      required: true,
+                      label: 'Name',
+                      admin: { width: '50%' },
+                    },
+                  ],
+                },
+                {
+                  name: 'description',
+                  type: 'textarea',
+                  required: true,
+                  label: 'Description',
+                  admin: {
+                    description: 'What the character wears, as it should appear in prompts',
+                  },
+                },
+                {
+                  name: 'referenceImages',
+                  type: 'relationship',
+                  relationTo: 'media',
+                  hasMany: true,
+                  label: 'Reference Images',
+                  admin: {
+                    description: 'Costume references used alongside the character references for scene images',
+                  },
+                },
+                {
+                  name: 'sceneRanges',
+                  type: 'array',
+                  label: 'Worn In Scenes',
+                  admin: {
+                    description: 'Scene numbers where this outfit is worn; used when a request gives a scene number instead of an outfit',
+                  },
+                  fields: [
+                    {
+                      type: 'row',
+                      fields: [
+                        {
+                          name: 'fromScene',
+                          type: 'number',
+                          required: true,
+                          min: 0,
+                          label: 'From Scene',
+                          admin: { width: '50%' },
+                        },
+                        {
+                          name: 'toScene',
+                          type: 'number',
+                          min: 0,
+                          label: 'To Scene',
+                          admin: {
+                            width: '50%',
+                            description: 'Leave empty for the rest of the story',
+                          },
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
             {
               name: 'dialogueVoice',
               type: 'group',
@@ -344,6 +516,51 @@ export const Characters: CollectionConfig = {
                     description: 'How to handle sync conflicts between systems.',
                   },
                 },
+                {
+                  name: 'syncBase',
+                  type: 'json',
+                  label: 'Sync Base Snapshot',
+                  admin: {
+                    readOnly: true,
+                    description: 'Synced field values agreed at the last sync, used as the common ancestor for three-way merges.',
+                  },
+                },
+                {
+                  name: 'pendingConflicts',
+                  type: 'array',
+                  label: 'Pending Conflicts',
+                  admin: {
+                    description: 'Fields edited in both systems since the last sync, awaiting manual resolution.',
+                  },
+                  fields: [
+                    {
+                      name: 'field',
+                      type: 'text',
+                      required: true,
+                      label: 'Field Path',
+                    },
+                    {
+                      name: 'baseValue',
+                      type: 'json',
+                      label: 'Base Value',
+                    },
+                    {
+                      name: 'novelMovieValue',
+                      type: 'json',
+                      label: 'Novel Movie Value',
+                    },
+                    {
+                      name: 'characterLibraryValue',
+                      type: 'json',
+                      label: 'Character Library Value',
+                    },
+                    {
+                      name: 'detectedAt',
+                      type: 'date',
+                      label: 'Detected At',
+                    },
+                  ],
+                },
                 {
                   name: 'changeLog',
                   type: 'array',
@@ -602,6 +819,103 @@ export const Characters: CollectionConfig = {
                 position: 'sidebar',
               },
             },
+            {
+              name: 'turnaroundSheets',
+              type: 'array',
+              label: 'Turnaround Sheets',
+              admin: {
+                readOnly: true,
+                description: 'Model sheets composed from the core set (front, three-quarter, profile and back).',
+              },
+              fields: [
+                {
+                  name: 'image',
+                  type: 'upload',
+                  relationTo: 'media',
+                  required: true,
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'eraId',
+                      type: 'text',
+                      label: 'Era',
+                      admin: { width: '33%' },
+                    },
+                    {
+                      name: 'views',
+                      type: 'text',
+                      label: 'Views',
+                      admin: { width: '34%' },
+                    },
+                    {
+                      name: 'createdAt',
+                      type: 'date',
+                      label: 'Created At',
+                      admin: { width: '33%' },
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              name: 'expressionSheets',
+              type: 'array',
+              label: 'Expression Sheets',
+              admin: {
+                readOnly: true,
+                description: 'Emotion grids generated from one fixed camera set-up.',
+              },
+              fields: [
+                {
+                  name: 'image',
+                  type: 'upload',
+                  relationTo: 'media',
+                  required: true,
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'expressions',
+                      type: 'text',
+                      label: 'Expressions',
+                      admin: { width: '50%' },
+                    },
+                    {
+                      name: 'referenceShot',
+                      type: 'text',
+                      label: 'Reference Shot',
+                      admin: { width: '50%' },
+                    },
+                  ],
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'eraId',
+                      type: 'text',
+                      label: 'Era',
+                      admin: { width: '33%' },
+                    },
+                    {
+                      name: 'outfitId',
+                      type: 'text',
+                      label: 'Outfit',
+                      admin: { width: '34%' },
+                    },
+                    {
+                      name: 'createdAt',
+                      type: 'date',
+                      label: 'Created At',
+                      admin: { width: '33%' },
+                    },
+                  ],
+                },
+              ],
+            },
             {
               name: 'coreSetQuality',
               type: 'json',
@@ -868,6 +1182,49 @@ export const Characters: CollectionConfig = {
                     description: 'The template used to generate this image (if from 360° system)',
                   },
                 },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'promptTemplate',
+                      type: 'relationship',
+                      relationTo: 'prompt-templates',
+                      label: 'Prompt Template',
+                      admin: {
+                        width: '70%',
+                        readOnly: true,
+                        description: 'Prompt template that produced this image (empty for the built-in prompt)',
+                      },
+                    },
+                    {
+                      name: 'promptTemplateVersion',
+                      type: 'number',
+                      label: 'Template Version',
+                      admin: {
+                        width: '30%',
+                        readOnly: true,
+                      },
+                    },
+                  ],
+                },
+                {
+                  name: 'outfitId',
+                  type: 'text',
+                  label: 'Outfit',
+                  index: true,
+                  admin: {
+                    description: 'Wardrobe outfit worn in this image (empty for the usual clothing)',
+                  },
+                },
+                {
+                  name: 'eraId',
+                  type: 'text',
+                  label: 'Era',
+                  index: true,
+                  admin: {
+                    description: 'Appearance era of this image (empty for the base look)',
+                  },
+                },
                 {
                   type: 'collapsible',
                   label: 'Shot Metadata',
@@ -1177,6 +1534,8 @@ async function syncCharacterToPathRAG(doc: any, operation: string, previousDoc?:
       'dialogueVoice',
       'voiceModels',
       'clothing',
+      'wardrobe',
+      'eras',
       'age',
       'height',
       'weight',
@@ -0,0 +1,151 @@
+/**
+ * Generation Usage Collection
+ *
+ * Ledger of image generation calls with their estimated cost, written by
+ * ImageGenerationService for every provider call including retries
+ */
+
+import type { CollectionConfig } from 'payload'
+import { scopedAccess } from '../lib/utils/api-auth'
+
+export const GenerationUsage: CollectionConfig = {
+  slug: 'generation-usage',
+  admin: {
+    useAsTitle: 'model',
+    defaultColumns: ['createdAt', 'operation', 'model', 'projectId', 'characterId', 'status', 'estimatedCost'],
+    group: 'System',
+    description: 'One entry per image generation call. Costs are estimates based on USAGE_CONFIG.',
+  },
+  access: {
+    read: scopedAccess('usage:read', 'projectId'),
+    // Entries are written by the server through the local API
+    create: scopedAccess('budgets:write'),
+    update: scopedAccess('budgets:write'),
+    delete: scopedAccess('budgets:write'),
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'provider',
+          type: 'text',
+          required: true,
+          admin: { width: '33%' },
+        },
+        {
+          name: 'model',
+          type: 'text',
+          required: true,
+          index: true,
+          admin: { width: '33%' },
+        },
+        {
+          name: 'mode',
+          type: 'select',
+          options: [
+            { label: 'Text to image', value: 'text-to-image' },
+            { label: 'Image to image', value: 'image-to-image' },
+          ],
+          admin: { width: '33%' },
+        },
+      ],
+    },
+    {
+      name: 'operation',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'What the image was generated for, e.g. core-set, smart-image, scene-image',
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'characterId',
+          type: 'text',
+          index: true,
+          admin: { width: '33%' },
+        },
+        {
+          name: 'projectId',
+          type: 'text',
+          index: true,
+          admin: { width: '33%' },
+        },
+        {
+          name: 'jobId',
+          type: 'text',
+          index: true,
+          admin: { width: '33%' },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'steps',
+          type: 'number',
+          admin: { width: '25%' },
+        },
+        {
+          name: 'width',
+          type: 'number',
+          admin: { width: '25%' },
+        },
+        {
+          name: 'height',
+          type: 'number',
+          admin: { width: '25%' },
+        },
+        {
+          name: 'attempt',
+          type: 'number',
+          defaultValue: 1,
+          admin: {
+            width: '25%',
+            description: 'Attempt number within the caller\'s retry loop',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'status',
+          type: 'select',
+          required: true,
+          options: [
+            { label: 'Succeeded', value: 'succeeded' },
+            { label: 'Failed', value: 'failed' },
+          ],
+          index: true,
+          admin: { width: '33%' },
+        },
+        {
+          name: 'estimatedCost',
+          type: 'number',
+          required: true,
+          defaultValue: 0,
+          admin: {
+            width: '33%',
+            description: 'Estimated cost in USD',
+          },
+        },
+        {
+          name: 'durationMs',
+          type: 'number',
+          admin: { width: '33%' },
+        },
+      ],
+    },
+    {
+      name: 'error',
+      type: 'text',
+    },
+  ],
+  timestamps: true,
+}
@@ -5,13 +5,16 @@
  */
 
 import type { CollectionConfig } from 'payload'
+import { scopedAccess, scopedCreateAccess } from '../lib/utils/api-auth'
+import type { BatchScene, BatchSceneRequest, SceneProgress } from '../services/BatchSceneGenerationService'
 
 export interface ImageGenerationJob {
   id: string
   jobId: string
   characterId: string
-  jobType: 'core-set' | '360-set' | 'single-image'
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  projectId?: string | null
+  jobType: 'core-set' | '360-set' | 'expression-sheet' | 'batch-scenes' | 'single-image'
+  status: 'awaiting_approval' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: {
     current: number
     total: number
@@ -25,6 +28,12 @@ export interface ImageGenerationJob {
     maxRetries?: number
     angles?: string[]
     customSeed?: number
+    expressions?: string[] // Expression sheet emotions, in sheet order
+    baseShotSlug?: string // Expression sheet camera set-up
+    projectId?: string
+    scenes?: BatchScene[] // Batch scene shot plan
+    batchSettings?: BatchSceneRequest['batchSettings']
+    resume?: boolean
   }
   results?: {
     generatedImages: Array<{
@@ -33,16 +42,68 @@ export interface ImageGenerationJob {
       quality: number
       dinoAssetId?: string
       mediaId?: string
+      referenceShotId?: string
+      expression?: string
+      sceneId?: string
+      characterId?: string
+      shotType?: string
     }>
     failedImages: Array<{
       angle: string
       error: string
       attempts: number
+      referenceShotId?: string
+      expression?: string
+      sceneId?: string
+      characterId?: string
+      shotType?: string
     }>
+    sheet?: {
+      mediaId: string
+      url?: string
+    }
+    scenes?: SceneProgress[] // Per-scene progress of batch scene jobs
+    skippedShots?: number
+    partial?: boolean
     totalAttempts: number
     processingTime: number
   }
   error?: string
+  budgetApproval?: {
+    estimatedCost?: number | null
+    spent?: number | null
+    limit?: number | null
+    approvedBy?: string | null
+    approvedAt?: string | null
+  }
+  attempts?: number
+  maxAttempts?: number
+  availableAt?: string
+  leaseOwner?: string | null
+  leaseExpiresAt?: string | null
+  heartbeatAt?: string
+  resumeCount?: number
+  resumeHistory?: Array<{
+    resumedAt: string
+    previousStatus: string
+    previousError?: string | null
+    previousAttempts?: number
+  }>
+  webhook?: {
+    callbackUrl?: string
+    secret?: string
+  }
+  webhookDeliveries?: Array<{
+    deliveryId: string
+    event: string
+    attempt: number
+    success: boolean
+    statusCode?: number
+    error?: string
+    durationMs?: number
+    attemptedAt: string
+    replayOf?: string
+  }>
   startedAt: string
   completedAt?: string
   estimatedCompletionAt?: string
@@ -58,10 +119,10 @@ const ImageGenerationJobs: CollectionConfig = {
     group: 'System',
   },
   access: {
-    read: () => true,
-    create: () => true,
-    update: () => true,
-    delete: () => true,
+    read: scopedAccess('jobs:read', 'projectId'),
+    create: scopedCreateAccess('images:generate', 'projectId'),
+    update: scopedAccess('jobs:write', 'projectId'),
+    delete: scopedAccess('jobs:write', 'projectId'),
   },
   fields: [
     {
@@ -83,6 +144,14 @@ const ImageGenerationJobs: CollectionConfig = {
         description: 'ID of the character for which images are being generated',
       },
     },
+    {
+      name: 'projectId',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Novel Movie project of the character, used for API key project restrictions',
+      },
+    },
     {
       name: 'jobType',
       type: 'select',
@@ -90,6 +159,8 @@ const ImageGenerationJobs: CollectionConfig = {
       options: [
         { label: 'Core Set (27 shots)', value: 'core-set' },
         { label: '360° Set (Custom)', value: '360-set' },
+        { label: 'Expression Sheet', value: 'expression-sheet' },
+        { label: 'Batch Scenes', value: 'batch-scenes' },
         { label: 'Single Image', value: 'single-image' },
       ],
       admin: {
@@ -102,6 +173,7 @@ const ImageGenerationJobs: CollectionConfig = {
       required: true,
       defaultValue: 'pending',
       options: [
+        { label: 'Awaiting Approval', value: 'awaiting_approval' },
         { label: 'Pending', value: 'pending' },
         { label: 'Processing', value: 'processing' },
         { label: 'Completed', value: 'completed' },
@@ -171,6 +243,275 @@ const ImageGenerationJobs: CollectionConfig = {
         description: 'Error message if job failed',
       },
     },
+    {
+      name: 'budgetApproval',
+      type: 'group',
+      admin: {
+        description: 'Set when the job would exceed its project budget and waits for an admin to approve it',
+        condition: (data) => Boolean(data?.budgetApproval?.estimatedCost),
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'estimatedCost',
+              type: 'number',
+              admin: { readOnly: true, width: '33%' },
+            },
+            {
+              name: 'spent',
+              type: 'number',
+              admin: { readOnly: true, width: '33%', description: 'Project spend when the job was queued' },
+            },
+            {
+              name: 'limit',
+              type: 'number',
+              admin: { readOnly: true, width: '33%' },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'approvedBy',
+              type: 'text',
+              admin: { readOnly: true, width: '50%' },
+            },
+            {
+              name: 'approvedAt',
+              type: 'date',
+              admin: { readOnly: true, width: '50%', date: { pickerAppearance: 'dayAndTime' } },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: 'collapsible',
+      label: 'Queue & Lease',
+      admin: {
+        description: 'Durable queue bookkeeping used by job workers',
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'attempts',
+              type: 'number',
+              defaultValue: 0,
+              admin: {
+                description: 'Number of times a worker has claimed this job',
+                width: '50%',
+              },
+            },
+            {
+              name: 'maxAttempts',
+              type: 'number',
+              defaultValue: 3,
+              admin: {
+                description: 'Attempts allowed before the job is marked as failed',
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'availableAt',
+          type: 'date',
+          index: true,
+          admin: {
+            description: 'When the job becomes visible to workers again (used for retry backoff)',
+            date: { pickerAppearance: 'dayAndTime' },
+          },
+        },
+        {
+          name: 'leaseOwner',
+          type: 'text',
+          admin: {
+            readOnly: true,
+            description: 'Worker currently holding the job lease',
+          },
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'leaseExpiresAt',
+              type: 'date',
+              index: true,
+              admin: {
+                readOnly: true,
+                description: 'Lease expiry; stale jobs are requeued after this time',
+                date: { pickerAppearance: 'dayAndTime' },
+                width: '50%',
+              },
+            },
+            {
+              name: 'heartbeatAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                description: 'Last heartbeat from the worker',
+                date: { pickerAppearance: 'dayAndTime' },
+                width: '50%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'resumeCount',
+          type: 'number',
+          defaultValue: 0,
+          admin: {
+            readOnly: true,
+            description: 'Number of times this job was resumed after failing or being cancelled',
+          },
+        },
+        {
+          name: 'resumeHistory',
+          type: 'array',
+          admin: {
+            readOnly: true,
+            initCollapsed: true,
+            description: 'State of the job each time it was resumed',
+          },
+          fields: [
+            {
+              name: 'resumedAt',
+              type: 'date',
+              required: true,
+              admin: {
+                date: { pickerAppearance: 'dayAndTime' },
+              },
+            },
+            {
+              name: 'previousStatus',
+              type: 'text',
+              required: true,
+            },
+            {
+              name: 'previousError',
+              type: 'text',
+            },
+            {
+              name: 'previousAttempts',
+              type: 'number',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'webhook',
+      type: 'group',
+      admin: {
+        description: 'Callback notified when the job changes state',
+      },
+      fields: [
+        {
+          name: 'callbackUrl',
+          type: 'text',
+          admin: {
+            description: 'URL that receives job.progress, job.completed, job.failed and job.cancelled events',
+          },
+        },
+        {
+          name: 'secret',
+          type: 'text',
+          access: {
+            read: () => false,
+          },
+          admin: {
+            hidden: true,
+            description: 'Shared secret used to sign webhook deliveries',
+          },
+        },
+      ],
+    },
+    {
+      name: 'webhookDeliveries',
+      type: 'array',
+      admin: {
+        readOnly: true,
+        initCollapsed: true,
+        description: 'Webhook delivery attempts for this job',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'deliveryId',
+              type: 'text',
+              required: true,
+              admin: { width: '50%' },
+            },
+            {
+              name: 'event',
+              type: 'select',
+              required: true,
+              options: [
+                { label: 'Progress', value: 'job.progress' },
+                { label: 'Completed', value: 'job.completed' },
+                { label: 'Failed', value: 'job.failed' },
+                { label: 'Cancelled', value: 'job.cancelled' },
+              ],
+              admin: { width: '50%' },
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'attempt',
+              type: 'number',
+              required: true,
+              admin: { width: '25%' },
+            },
+            {
+              name: 'success',
+              type: 'checkbox',
+              defaultValue: false,
+              admin: { width: '25%' },
+            },
+            {
+              name: 'statusCode',
+              type: 'number',
+              admin: { width: '25%' },
+            },
+            {
+              name: 'durationMs',
+              type: 'number',
+              admin: { width: '25%' },
+            },
+          ],
+        },
+        {
+          name: 'error',
+          type: 'text',
+        },
+        {
+          name: 'attemptedAt',
+          type: 'date',
+          required: true,
+          admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+          },
+        },
+        {
+          name: 'replayOf',
+          type: 'text',
+          admin: {
+            description: 'Original delivery ID when this attempt was a manual replay',
+          },
+        },
+      ],
+    },
     {
       name: 'startedAt',
       type: 'date',
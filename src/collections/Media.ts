@@ -1,10 +1,14 @@
 import type { CollectionConfig } from 'payload'
 import { dinoOrchestrator } from '../services/DinoOrchestrator'
+import { scopedAccess } from '../lib/utils/api-auth'
 
 export const Media: CollectionConfig = {
   slug: 'media',
   access: {
-    read: () => true,
+    read: scopedAccess('media:read'),
+    create: scopedAccess('media:write'),
+    update: scopedAccess('media:write'),
+    delete: scopedAccess('media:write'),
   },
   fields: [
     {
@@ -109,12 +113,17 @@ export const Media: CollectionConfig = {
   upload: true,
   hooks: {
     afterChange: [
-      async ({ doc, req, operation }) => {
+      async ({ doc, req, operation, context }) => {
         // Only process on create operations and if not already processed
         if (operation !== 'create' || doc.dinoAssetId) {
           return doc
         }
 
+        // Composite images such as turnaround sheets are not character references
+        if (context?.skipDinoProcessing) {
+          return doc
+        }
+
         try {
           // Skip DINOv3 processing for audio files
           if (doc.mimeType && doc.mimeType.startsWith('audio/')) {
@@ -0,0 +1,72 @@
+/**
+ * Project Budgets Collection
+ *
+ * Spending limits for image generation per Novel Movie project
+ */
+
+import type { CollectionConfig } from 'payload'
+import { scopedAccess } from '../lib/utils/api-auth'
+
+export const ProjectBudgets: CollectionConfig = {
+  slug: 'project-budgets',
+  admin: {
+    useAsTitle: 'projectId',
+    defaultColumns: ['projectId', 'limit', 'period', 'whenExceeded', 'updatedAt'],
+    group: 'System',
+    description: 'Generation routes refuse, or hold for approval, work that would take a project over its limit.',
+  },
+  access: {
+    read: scopedAccess('usage:read', 'projectId'),
+    create: scopedAccess('budgets:write'),
+    update: scopedAccess('budgets:write'),
+    delete: scopedAccess('budgets:write'),
+  },
+  fields: [
+    {
+      name: 'projectId',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        description: 'Novel Movie project ID',
+      },
+    },
+    {
+      name: 'limit',
+      type: 'number',
+      required: true,
+      min: 0,
+      admin: {
+        description: 'Maximum estimated spend in USD',
+      },
+    },
+    {
+      name: 'period',
+      type: 'select',
+      required: true,
+      defaultValue: 'total',
+      options: [
+        { label: 'Project lifetime', value: 'total' },
+        { label: 'Calendar month', value: 'monthly' },
+      ],
+    },
+    {
+      name: 'whenExceeded',
+      type: 'select',
+      required: true,
+      defaultValue: 'refuse',
+      options: [
+        { label: 'Refuse the request', value: 'refuse' },
+        { label: 'Queue for approval', value: 'approval' },
+      ],
+      admin: {
+        description: 'Queued jobs wait in "awaiting approval" until an admin approves them. Synchronous requests are always refused.',
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+  ],
+}
@@ -0,0 +1,176 @@
+/**
+ * Prompt Templates Collection
+ *
+ * Editable prompt templates used for image generation. Each document is one
+ * version of a template: versions are numbered per kind and project, and the
+ * text of a version is frozen once it leaves draft. Several active versions in
+ * the same scope are A/B tested by weight.
+ */
+
+import { APIError, type CollectionConfig } from 'payload'
+import { PROMPT_TEMPLATE_SCHEMAS, PromptTemplateKey } from '../lib/config/prompt-templates'
+import { scopedAccess, scopedCreateAccess } from '../lib/utils/api-auth'
+import { EnhancedPromptBuilder } from '../services/EnhancedPromptBuilder'
+import { promptTemplateService } from '../services/PromptTemplateService'
+
+const promptBuilder = new EnhancedPromptBuilder()
+
+export const PromptTemplates: CollectionConfig = {
+  slug: 'prompt-templates',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'templateKey', 'version', 'projectId', 'status', 'weight', 'updatedAt'],
+    description:
+      'Prompt templates for image generation. Duplicate a template to create a new version; gallery images record the version that produced them.',
+  },
+  access: {
+    read: scopedAccess('characters:read', 'projectId'),
+    create: scopedCreateAccess('prompts:write', 'projectId'),
+    update: scopedAccess('prompts:write', 'projectId'),
+    delete: scopedAccess('prompts:write', 'projectId'),
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'templateKey',
+          type: 'select',
+          required: true,
+          index: true,
+          options: [
+            { label: 'Cinematic reference (core set)', value: 'cinematic-reference' },
+            { label: 'Reference shot', value: 'reference-shot' },
+          ],
+          admin: {
+            width: '50%',
+            description: 'Which prompt this template replaces',
+          },
+        },
+        {
+          name: 'version',
+          type: 'number',
+          index: true,
+          admin: {
+            width: '50%',
+            readOnly: true,
+            description: 'Assigned on create, per kind and project',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'projectId',
+          type: 'text',
+          index: true,
+          admin: {
+            width: '50%',
+            description: 'Novel Movie project this override applies to. Leave empty for the default template.',
+          },
+        },
+        {
+          name: 'shotSlug',
+          type: 'text',
+          admin: {
+            width: '50%',
+            description: 'Only for this reference shot (e.g. "front_mcu_50"). Leave empty for every shot.',
+            condition: (data) => data?.templateKey === 'reference-shot',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'status',
+          type: 'select',
+          required: true,
+          defaultValue: 'draft',
+          index: true,
+          options: [
+            { label: 'Draft', value: 'draft' },
+            { label: 'Active', value: 'active' },
+            { label: 'Archived', value: 'archived' },
+          ],
+          admin: {
+            width: '50%',
+            description: 'Only active templates are used for generation',
+          },
+        },
+        {
+          name: 'weight',
+          type: 'number',
+          defaultValue: 100,
+          min: 0,
+          admin: {
+            width: '50%',
+            description: 'Share of characters assigned to this version when several versions are active in the same scope',
+          },
+        },
+      ],
+    },
+    {
+      name: 'body',
+      type: 'textarea',
+      required: true,
+      admin: {
+        rows: 20,
+        description: 'Template text with {PLACEHOLDER} values. Unknown placeholders and missing required ones are rejected.',
+      },
+      validate: (value: string | null | undefined, { data }: { data: any }) => {
+        if (!value) return 'Template text is required'
+        const schema = PROMPT_TEMPLATE_SCHEMAS[data?.templateKey as PromptTemplateKey]
+        if (!schema) return true
+
+        const validation = promptBuilder.validatePrompt(value, schema)
+        return validation.isValid ? true : validation.errors.join('; ')
+      },
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+      admin: {
+        description: 'What changed in this version and why',
+      },
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ data, operation, originalDoc, req }) => {
+        if (operation === 'create') {
+          data.version = await promptTemplateService.getNextVersion(req.payload, data.templateKey, data.projectId)
+          return data
+        }
+
+        // Gallery images point at a version, so its text must not change after use
+        const bodyChanged = data.body !== undefined && data.body !== originalDoc?.body
+        const keyChanged = data.templateKey !== undefined && data.templateKey !== originalDoc?.templateKey
+        if ((bodyChanged || keyChanged) && originalDoc?.status !== 'draft') {
+          throw new APIError('Only draft templates can be edited; duplicate this template to create a new version', 400)
+        }
+        return data
+      },
+    ],
+    afterChange: [
+      ({ doc }) => {
+        promptTemplateService.clearCache()
+        return doc
+      },
+    ],
+    afterDelete: [
+      ({ doc }) => {
+        promptTemplateService.clearCache()
+        return doc
+      },
+    ],
+  },
+}
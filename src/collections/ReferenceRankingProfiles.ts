@@ -0,0 +1,95 @@
+/**
+ * Reference Ranking Profiles Collection
+ *
+ * Feature weights for the reference ranking pipeline shared by every reference
+ * finder. A project's active profile wins over the global one (no projectId);
+ * without either the defaults in src/lib/config/reference-ranking.ts apply.
+ */
+
+import type { CollectionConfig } from 'payload'
+import { scopedAccess, scopedCreateAccess } from '../lib/utils/api-auth'
+import {
+  REFERENCE_RANKING_CONFIG,
+  RANKING_FEATURES,
+  RANKING_FEATURE_LABELS,
+} from '../lib/config/reference-ranking'
+import { referenceRankingService } from '../services/ReferenceRankingService'
+
+export const ReferenceRankingProfiles: CollectionConfig = {
+  slug: 'reference-ranking-profiles',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'projectId', 'isActive', 'updatedAt'],
+    description: 'How much each feature counts when picking a reference image for a prompt or scene.',
+  },
+  access: {
+    read: scopedAccess('characters:read', 'projectId'),
+    create: scopedCreateAccess('prompts:write', 'projectId'),
+    update: scopedAccess('prompts:write', 'projectId'),
+    delete: scopedAccess('prompts:write', 'projectId'),
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'projectId',
+          type: 'text',
+          index: true,
+          admin: {
+            width: '50%',
+            description: 'Novel Movie project these weights apply to. Leave empty for every project.',
+          },
+        },
+        {
+          name: 'isActive',
+          type: 'checkbox',
+          defaultValue: true,
+          index: true,
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'weights',
+      type: 'group',
+      admin: {
+        description: 'Relative weights; 0 turns a feature off. Empty fields keep the default.',
+      },
+      fields: RANKING_FEATURES.map((feature) => ({
+        name: feature,
+        type: 'number' as const,
+        min: 0,
+        defaultValue: REFERENCE_RANKING_CONFIG.defaultWeights[feature],
+        admin: {
+          description: RANKING_FEATURE_LABELS[feature],
+        },
+      })),
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+  ],
+  hooks: {
+    afterChange: [
+      ({ doc }) => {
+        referenceRankingService.clearCache()
+        return doc
+      },
+    ],
+    afterDelete: [
+      ({ doc }) => {
+        referenceRankingService.clearCache()
+        return doc
+      },
+    ],
+  },
+}
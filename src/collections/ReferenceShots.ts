@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { scopedAccess } from '../lib/utils/api-auth'
 
 export const ReferenceShots: CollectionConfig = {
   slug: 'reference-shots',
@@ -8,10 +9,10 @@ export const ReferenceShots: CollectionConfig = {
     group: 'Character System',
   },
   access: {
-    read: () => true,
-    create: ({ req: { user } }) => !!user, // Only authenticated users can create
-    update: ({ req: { user } }) => !!user,
-    delete: ({ req: { user } }) => !!user,
+    read: scopedAccess('reference-shots:read'),
+    create: scopedAccess('reference-shots:write'),
+    update: scopedAccess('reference-shots:write'),
+    delete: scopedAccess('reference-shots:write'),
   },
   fields: [
     {
@@ -0,0 +1,86 @@
+/**
+ * Scene Analysis Rules Collection
+ *
+ * Rule sets for the "rules" scene analyzer (SCENE_ANALYZER=rules). A project's
+ * active rule sets are evaluated together with the global ones; see
+ * src/lib/utils/scene-rules.ts for the syntax.
+ */
+
+import type { CollectionConfig } from 'payload'
+import { scopedAccess, scopedCreateAccess } from '../lib/utils/api-auth'
+import { validateSceneRules } from '../lib/utils/scene-rules'
+import { sceneAnalysisService } from '../services/SceneAnalysisService'
+
+export const SceneAnalysisRules: CollectionConfig = {
+  slug: 'scene-analysis-rules',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'projectId', 'isActive', 'updatedAt'],
+    description: 'Rules that classify scene type and tone when the rules scene analyzer is enabled.',
+  },
+  access: {
+    read: scopedAccess('characters:read', 'projectId'),
+    create: scopedCreateAccess('prompts:write', 'projectId'),
+    update: scopedAccess('prompts:write', 'projectId'),
+    delete: scopedAccess('prompts:write', 'projectId'),
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'projectId',
+          type: 'text',
+          index: true,
+          admin: {
+            width: '50%',
+            description: 'Novel Movie project these rules apply to. Leave empty for every project.',
+          },
+        },
+        {
+          name: 'isActive',
+          type: 'checkbox',
+          defaultValue: true,
+          index: true,
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'rules',
+      type: 'textarea',
+      required: true,
+      admin: {
+        rows: 16,
+        description:
+          'One rule per line, e.g. `sceneType action when fight or "gun drawn"` or `tone tense x2 when argu* and not laugh*`. Lines starting with # are comments.',
+      },
+      validate: (value: string | null | undefined) => validateSceneRules(value),
+    },
+    {
+      name: 'notes',
+      type: 'textarea',
+    },
+  ],
+  hooks: {
+    afterChange: [
+      ({ doc }) => {
+        sceneAnalysisService.clearCache()
+        return doc
+      },
+    ],
+    afterDelete: [
+      ({ doc }) => {
+        sceneAnalysisService.clearCache()
+        return doc
+      },
+    ],
+  },
+}
@@ -0,0 +1,174 @@
+/**
+ * Style Presets Collection
+ *
+ * Reusable visual looks for image generation: prompt fragments, lighting, color
+ * palette, film stock and sampler settings. A project that pins a preset gets
+ * it on every core-set, scene and interaction image.
+ */
+
+import { APIError, type CollectionConfig } from 'payload'
+import { scopedAccess } from '../lib/utils/api-auth'
+import { stylePresetService } from '../services/StylePresetService'
+
+export const StylePresets: CollectionConfig = {
+  slug: 'style-presets',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'slug', 'projectIds', 'isActive', 'updatedAt'],
+    description: 'Visual looks for generated images. Pin a preset to projects to give a whole production the same look.',
+  },
+  access: {
+    read: scopedAccess('characters:read'),
+    create: scopedAccess('prompts:write'),
+    update: scopedAccess('prompts:write'),
+    delete: scopedAccess('prompts:write'),
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          required: true,
+          admin: { width: '50%' },
+        },
+        {
+          name: 'slug',
+          type: 'text',
+          required: true,
+          unique: true,
+          index: true,
+          admin: {
+            width: '50%',
+            description: 'e.g. "noir-1940s"',
+          },
+        },
+      ],
+    },
+    {
+      name: 'projectIds',
+      type: 'text',
+      hasMany: true,
+      index: true,
+      label: 'Default For Projects',
+      admin: {
+        description: 'Novel Movie projects that use this preset for all generated images. A project can pin one preset.',
+      },
+    },
+    {
+      name: 'isActive',
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Inactive presets are ignored, so pinned projects fall back to the built-in look',
+      },
+    },
+    {
+      type: 'collapsible',
+      label: 'Prompt',
+      fields: [
+        {
+          name: 'positivePrompt',
+          type: 'textarea',
+          admin: {
+            description: 'Appended to every prompt, e.g. "painterly, muted tones, soft grain"',
+          },
+        },
+        {
+          name: 'negativePrompt',
+          type: 'textarea',
+          admin: {
+            description: 'Things to avoid, e.g. "cartoon, oversaturated, text, watermark"',
+          },
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'lighting',
+              type: 'text',
+              admin: {
+                width: '33%',
+                description: 'e.g. "low-key tungsten, hard side light"',
+              },
+            },
+            {
+              name: 'colorPalette',
+              type: 'text',
+              admin: {
+                width: '33%',
+                description: 'e.g. "teal and amber"',
+              },
+            },
+            {
+              name: 'filmStock',
+              type: 'text',
+              label: 'Film Stock',
+              admin: {
+                width: '33%',
+                description: 'e.g. "Kodak Portra 400"',
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      type: 'collapsible',
+      label: 'Generation Settings',
+      admin: {
+        description: 'Leave empty to keep the defaults of the request style',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'steps',
+              type: 'number',
+              min: 1,
+              max: 150,
+              admin: { width: '33%' },
+            },
+            {
+              name: 'guidance',
+              type: 'number',
+              min: 0,
+              max: 30,
+              admin: { width: '33%' },
+            },
+            {
+              name: 'strength',
+              type: 'number',
+              min: 0,
+              max: 1,
+              admin: {
+                width: '33%',
+                description: 'Image-to-image only; lower keeps closer to the reference',
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ data, originalDoc, req }) => {
+        const projectIds: string[] = data.projectIds ?? originalDoc?.projectIds ?? []
+        const conflicts = await stylePresetService.findPinnedElsewhere(req.payload, projectIds, originalDoc?.id)
+        if (conflicts.length > 0) {
+          const list = conflicts.map((conflict) => `${conflict.projectId} (${conflict.presetName})`).join(', ')
+          throw new APIError(`Projects already have a default style preset: ${list}`, 400)
+        }
+        return data
+      },
+    ],
+  },
+}
@@ -1,13 +1,74 @@
-import type { CollectionConfig } from 'payload'
+import type { Access, CollectionConfig, FieldAccess } from 'payload'
+import { apiKeyService } from '../services/ApiKeyService'
+import { DEFAULT_USER_ROLE } from '../lib/config/api-auth'
+import { getPrincipal, hasRole } from '../lib/utils/api-auth'
+
+const isAdmin = (user: any): boolean => {
+  const principal = getPrincipal(user)
+  return Boolean(principal && hasRole(principal, 'admin'))
+}
+
+// Admins manage everyone; other users only see and edit themselves
+const adminOrSelf: Access = ({ req }) => {
+  if (!req.user) return false
+  if (isAdmin(req.user)) return true
+  return { id: { equals: req.user.id } }
+}
+
+const adminOnlyField: FieldAccess = ({ req }) => isAdmin(req.user)
 
 export const Users: CollectionConfig = {
   slug: 'users',
   admin: {
     useAsTitle: 'email',
+    defaultColumns: ['email', 'role', 'updatedAt'],
+  },
+  auth: {
+    // X-API-Key / Bearer clk_... keys resolve to their owning user
+    strategies: [apiKeyService.getAuthStrategy()],
+  },
+  access: {
+    read: adminOrSelf,
+    create: ({ req }) => isAdmin(req.user),
+    update: adminOrSelf,
+    delete: ({ req }) => isAdmin(req.user),
   },
-  auth: true,
   fields: [
     // Email added by default
-    // Add more fields as needed
+    {
+      name: 'role',
+      type: 'select',
+      required: true,
+      defaultValue: DEFAULT_USER_ROLE,
+      options: [
+        { label: 'Viewer', value: 'viewer' },
+        { label: 'Writer', value: 'writer' },
+        { label: 'Art Director', value: 'art-director' },
+        { label: 'Admin', value: 'admin' },
+      ],
+      access: {
+        create: adminOnlyField,
+        update: adminOnlyField,
+      },
+      admin: {
+        position: 'sidebar',
+        description:
+          'Viewer: read only. Writer: edit characters and media. Art Director: also generate images, run QA, manage jobs, delete characters, edit prompt templates and style presets and view usage. Admin: everything, including users, reference shots, budgets and API keys.',
+      },
+    },
   ],
+  hooks: {
+    beforeChange: [
+      async ({ data, operation, req }) => {
+        // The first account is the admin; registration runs without a signed-in user
+        if (operation === 'create') {
+          const existing = await req.payload.count({ collection: 'users', req })
+          if (existing.totalDocs === 0) {
+            data.role = 'admin'
+          }
+        }
+        return data
+      },
+    ],
+  },
 }
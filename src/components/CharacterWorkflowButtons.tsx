@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { Button } from '@payloadcms/ui'
 import { useDocumentInfo } from '@payloadcms/ui'
 
@@ -17,6 +17,20 @@ interface CharacterWorkflowButtonsProps {
   onRefresh?: () => void
 }
 
+interface JobProgressState {
+  jobId: string
+  percentage: number
+  current: number
+  total: number
+  currentTask?: string
+  shots: Array<{
+    shotName: string
+    status: 'generated' | 'failed'
+    qualityScore?: number
+    error?: string
+  }>
+}
+
 export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> = (props) => {
   // Get document data from Payload context
   const { id: docId, data: docData } = useDocumentInfo()
@@ -31,6 +45,13 @@ export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> =
   const [loading, setLoading] = useState<string | null>(null)
   const [results, setResults] = useState<any>(null)
   const [error, setError] = useState<string | null>(null)
+  const [jobProgress, setJobProgress] = useState<JobProgressState | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
+
+  // Close any open job stream when the component unmounts
+  useEffect(() => {
+    return () => eventSourceRef.current?.close()
+  }, [])
 
   const handleApiCall = async (endpoint: string, method: string = 'POST', body?: any) => {
     try {
@@ -57,6 +78,85 @@ export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> =
     }
   }
 
+  const subscribeToJob = (jobId: string) => {
+    eventSourceRef.current?.close()
+    setJobProgress({ jobId, percentage: 0, current: 0, total: 0, shots: [] })
+
+    const eventSource = new EventSource(`/api/v1/jobs/${jobId}/events`)
+    eventSourceRef.current = eventSource
+
+    const finish = () => {
+      eventSource.close()
+      eventSourceRef.current = null
+      setLoading(null)
+      if (onRefresh) onRefresh()
+    }
+
+    const updateProgress = (data: any) => {
+      setJobProgress((prev) =>
+        prev && {
+          ...prev,
+          current: data.current,
+          total: data.total,
+          percentage: data.percentage,
+          currentTask: data.currentTask,
+        },
+      )
+    }
+
+    eventSource.addEventListener('snapshot', (event) => {
+      updateProgress(JSON.parse((event as MessageEvent).data).progress)
+    })
+
+    eventSource.addEventListener('progress', (event) => {
+      updateProgress(JSON.parse((event as MessageEvent).data))
+    })
+
+    eventSource.addEventListener('shot', (event) => {
+      const shot = JSON.parse((event as MessageEvent).data)
+      setJobProgress((prev) =>
+        prev && {
+          ...prev,
+          shots: [
+            ...prev.shots,
+            {
+              shotName: shot.shotName,
+              status: shot.status,
+              qualityScore: shot.qualityScore,
+              error: shot.error,
+            },
+          ],
+        },
+      )
+    })
+
+    eventSource.addEventListener('status', (event) => {
+      const data = JSON.parse((event as MessageEvent).data)
+
+      if (data.status === 'completed') {
+        setResults({
+          message: `Generated ${data.results?.generatedImages?.length || 0} reference images`,
+          data: data.results,
+        })
+        finish()
+      } else if (data.status === 'failed') {
+        setError(data.error || 'Core set generation failed')
+        finish()
+      } else if (data.status === 'cancelled') {
+        setError('Core set generation was cancelled')
+        finish()
+      }
+    })
+
+    eventSource.onerror = () => {
+      // EventSource reconnects on its own unless the server closed the stream
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setError('Lost connection to job progress stream')
+        finish()
+      }
+    }
+  }
+
   const generateCoreSet = async () => {
     if (!masterReferenceProcessed) {
       setError('Master reference image must be processed first')
@@ -64,6 +164,7 @@ export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> =
     }
 
     setLoading('core-set')
+    setResults(null)
     try {
       const result = await handleApiCall(
         `/api/v1/characters/${characterId}/generate-core-set`,
@@ -72,13 +173,12 @@ export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> =
           includeAddonShots: false,
           qualityThreshold: 75,
           maxRetries: 3,
+          async: true,
         }
       )
-      setResults(result)
-      if (onRefresh) onRefresh()
+      subscribeToJob(result.jobId)
     } catch (err) {
       console.error('Enhanced core set generation failed:', err)
-    } finally {
       setLoading(null)
     }
   }
@@ -234,6 +334,49 @@ export const CharacterWorkflowButtons: React.FC<CharacterWorkflowButtonsProps> =
         </div>
       </div>
 
+      {/* Live job progress */}
+      {jobProgress && (
+        <div
+          style={{
+            padding: '12px',
+            backgroundColor: '#f8f9fa',
+            border: '1px solid #dee2e6',
+            borderRadius: '4px',
+            marginBottom: '16px',
+            fontSize: '14px',
+          }}
+        >
+          <div style={{ marginBottom: '8px' }}>
+            <strong>Core Set Job:</strong> {jobProgress.percentage}%
+            {jobProgress.total > 0 && ` (${jobProgress.current}/${jobProgress.total})`}
+            {jobProgress.currentTask && ` – ${jobProgress.currentTask}`}
+          </div>
+          <div style={{ height: '6px', backgroundColor: '#e9ecef', borderRadius: '3px' }}>
+            <div
+              style={{
+                width: `${jobProgress.percentage}%`,
+                height: '100%',
+                backgroundColor: '#28a745',
+                borderRadius: '3px',
+                transition: 'width 0.3s',
+              }}
+            />
+          </div>
+          {jobProgress.shots.length > 0 && (
+            <ul style={{ marginTop: '8px', paddingLeft: '20px', fontSize: '12px' }}>
+              {jobProgress.shots.map((shot, index) => (
+                <li key={index} style={{ color: shot.status === 'generated' ? '#155724' : '#721c24' }}>
+                  {shot.shotName}:{' '}
+                  {shot.status === 'generated'
+                    ? `generated (quality ${Math.round(shot.qualityScore || 0)})`
+                    : `failed${shot.error ? ` – ${shot.error}` : ''}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Error display */}
       {error && (
         <div
@@ -92,6 +92,13 @@ export const apiEndpoints: ApiEndpoint[] = [
         required: false,
         description: 'Character persona data (JSON)',
         placeholder: '{"traits": [], "background": ""}'
+      },
+      {
+        name: 'masterReferenceImage',
+        type: 'string',
+        required: false,
+        description: 'Media ID of the master reference; the response warns about look-alikes in the same project',
+        placeholder: 'e.g., 68c07c4305803df129909509'
       }
     ]
   },
@@ -164,6 +171,104 @@ export const apiEndpoints: ApiEndpoint[] = [
         required: false,
         description: 'Generation options (JSON)',
         placeholder: '{"style": "realistic", "quality": "high"}'
+      },
+      {
+        name: 'outfitId',
+        type: 'string',
+        required: false,
+        description: 'Wardrobe outfit to generate the set in; images are tagged with it',
+        placeholder: 'e.g., winter-coat'
+      },
+      {
+        name: 'eraId',
+        type: 'string',
+        required: false,
+        description: "Appearance era; generates the era's core set from its master reference",
+        placeholder: 'e.g., elderly'
+      }
+    ]
+  },
+  {
+    id: 'characters-turnaround-sheet',
+    name: 'Compose Turnaround Sheet',
+    method: 'POST',
+    path: '/api/v1/characters/{id}/turnaround-sheet',
+    description: 'Compose front, three-quarter, profile and back core set images into a labelled model sheet stored as media',
+    category: 'Character Management',
+    fields: [
+      {
+        name: 'id',
+        type: 'string',
+        required: true,
+        description: 'MongoDB ObjectId (database ID, not characterId)',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      },
+      {
+        name: 'eraId',
+        type: 'string',
+        required: false,
+        description: "Compose the sheet from an appearance era's core set",
+        placeholder: 'e.g., elderly'
+      },
+      {
+        name: 'requireAllViews',
+        type: 'boolean',
+        required: false,
+        description: 'Fail when a view is missing instead of leaving it out',
+        defaultValue: false
+      }
+    ]
+  },
+  {
+    id: 'characters-generate-expression-sheet',
+    name: 'Generate Expression Sheet',
+    method: 'POST',
+    path: '/api/v1/characters/{id}/generate-expression-sheet',
+    description: 'Queue a job that generates one frame per emotion from a fixed lens, angle and crop, checks each against the master reference and composes them into one sheet',
+    category: 'Character Management',
+    fields: [
+      {
+        name: 'id',
+        type: 'string',
+        required: true,
+        description: 'MongoDB ObjectId (database ID, not characterId)',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      },
+      {
+        name: 'expressions',
+        type: 'array',
+        required: false,
+        description: 'Emotions in sheet order (defaults to neutral, joy, sadness, anger, fear, disgust, surprise, contempt)',
+        placeholder: '["joy", "anger", "fear", "disgust", "surprise", "contempt"]'
+      },
+      {
+        name: 'baseShotSlug',
+        type: 'string',
+        required: false,
+        description: 'Reference shot that fixes lens, angle and crop for every frame',
+        placeholder: 'enhanced_50c_front_cu_v2'
+      },
+      {
+        name: 'outfitId',
+        type: 'string',
+        required: false,
+        description: 'Wardrobe outfit to generate the sheet in',
+        placeholder: 'e.g., winter-coat'
+      },
+      {
+        name: 'eraId',
+        type: 'string',
+        required: false,
+        description: "Generate from an appearance era's master reference",
+        placeholder: 'e.g., elderly'
+      },
+      {
+        name: 'maxRetries',
+        type: 'number',
+        required: false,
+        description: 'Regeneration attempts for frames that fail QA against the master reference',
+        placeholder: '3',
+        defaultValue: 3
       }
     ]
   },
@@ -250,6 +355,13 @@ export const apiEndpoints: ApiEndpoint[] = [
         description: 'Maximum retry attempts for quality assurance',
         placeholder: '3',
         defaultValue: 3
+      },
+      {
+        name: 'outfitId',
+        type: 'string',
+        required: false,
+        description: 'Wardrobe outfit to dress the character in',
+        placeholder: 'e.g., winter-coat'
       }
     ]
   },
@@ -678,7 +790,7 @@ export const apiEndpoints: ApiEndpoint[] = [
         name: 'characterData',
         type: 'object',
         required: true,
-        description: 'Character data including name, status, physical attributes, etc.'
+        description: 'Character data including name, status, physical attributes, masterReferenceImage (media ID), etc.'
       }
     ]
   },
@@ -713,6 +825,76 @@ export const apiEndpoints: ApiEndpoint[] = [
       }
     ]
   },
+  {
+    id: 'get-project-bible',
+    name: 'Project Character Bible',
+    method: 'GET',
+    path: '/api/v1/characters/projects/{projectId}/bible',
+    description: 'Printable character bible for the whole cast, as HTML or PDF',
+    category: 'Novel Movie Integration',
+    fields: [
+      {
+        name: 'projectId',
+        type: 'string',
+        required: true,
+        description: 'Novel Movie project ID',
+        placeholder: 'project-123'
+      },
+      {
+        name: 'format',
+        type: 'select',
+        required: false,
+        description: 'Output format',
+        options: ['html', 'pdf'],
+        defaultValue: 'html'
+      }
+    ]
+  },
+  {
+    id: 'project-screenplay-plan',
+    name: 'Plan Screenplay Shots',
+    method: 'POST',
+    path: '/api/v1/projects/{projectId}/screenplay',
+    description: 'Parse a Fountain or FDX screenplay into a reviewable shot plan with a ready batch scene request',
+    category: 'Novel Movie Integration',
+    fields: [
+      {
+        name: 'projectId',
+        type: 'string',
+        required: true,
+        description: 'Novel Movie project ID',
+        placeholder: 'project-123'
+      },
+      {
+        name: 'screenplay',
+        type: 'string',
+        required: true,
+        description: 'Fountain or Final Draft (FDX) screenplay text',
+        placeholder: 'INT. KITCHEN - NIGHT\n\nAva slams the door.\n\nAVA\nWhere were you?'
+      },
+      {
+        name: 'format',
+        type: 'select',
+        required: false,
+        description: 'Screenplay format (detected when omitted)',
+        options: ['fountain', 'fdx']
+      },
+      {
+        name: 'shotsPerScene',
+        type: 'number',
+        required: false,
+        description: 'Shot types planned per scene (1-4)',
+        placeholder: '2'
+      },
+      {
+        name: 'storyYear',
+        type: 'number',
+        required: false,
+        description: 'Story year used to pick each character\'s appearance era',
+        placeholder: '1994'
+      }
+    ]
+  },
   {
     id: 'update-reference-image',
     name: 'Update Reference Image',
@@ -804,16 +986,37 @@ export const apiEndpoints: ApiEndpoint[] = [
     name: 'Search Characters',
     method: 'POST',
     path: '/api/v1/characters/search',
-    description: 'Search for similar characters to avoid duplication',
+    description: 'Search for similar characters to avoid duplication, by text and by master reference image features',
     category: 'Novel Movie Integration',
     fields: [
       {
         name: 'query',
         type: 'string',
-        required: true,
-        description: 'Search query text',
+        required: false,
+        description: 'Search query text (required unless referenceImageId is given)',
         placeholder: 'tall dark-haired detective'
       },
+      {
+        name: 'referenceImageId',
+        type: 'string',
+        required: false,
+        description: 'Media ID to find visually similar characters of',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      },
+      {
+        name: 'includeVisual',
+        type: 'boolean',
+        required: false,
+        description: 'Add characters whose master reference looks like a match',
+        placeholder: 'true'
+      },
+      {
+        name: 'visualSimilarityThreshold',
+        type: 'number',
+        required: false,
+        description: 'DINOv3 feature similarity threshold (0-1)',
+        placeholder: '0.92'
+      },
       {
         name: 'similarityThreshold',
         type: 'number',
@@ -844,6 +1047,55 @@ export const apiEndpoints: ApiEndpoint[] = [
       }
     ]
   },
+  {
+    id: 'character-export',
+    name: 'Export Character Bundle',
+    method: 'GET',
+    path: '/api/v1/characters/{id}/export',
+    description: 'Download a self-contained bundle with character data, media binaries and reference metadata',
+    category: 'Character Management',
+    fields: [
+      {
+        name: 'id',
+        type: 'string',
+        required: true,
+        description: 'MongoDB ObjectId (database ID, not characterId)',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      },
+      {
+        name: 'format',
+        type: 'select',
+        required: false,
+        description: 'Bundle encoding',
+        options: ['gzip', 'json'],
+        defaultValue: 'gzip'
+      }
+    ]
+  },
+  {
+    id: 'character-import',
+    name: 'Import Character Bundle',
+    method: 'POST',
+    path: '/api/v1/characters/import',
+    description: 'Create a character from an export bundle, remapping ids and re-registering images with DINO',
+    category: 'Character Management',
+    fields: [
+      {
+        name: 'projectId',
+        type: 'string',
+        required: false,
+        description: 'Novel Movie project to assign the imported character to',
+        placeholder: 'project-123'
+      },
+      {
+        name: 'characterId',
+        type: 'string',
+        required: false,
+        description: 'Preferred characterId; a numeric suffix is added if it is taken',
+        placeholder: 'leo'
+      }
+    ]
+  },
   {
     id: 'novel-movie-sync',
     name: 'Sync Novel Movie Character',
@@ -877,6 +1129,61 @@ export const apiEndpoints: ApiEndpoint[] = [
         type: 'array',
         required: true,
         description: 'Array of changed field names'
+      },
+      {
+        name: 'conflictResolution',
+        type: 'select',
+        required: false,
+        description: 'How to settle fields edited in both systems since the last sync',
+        options: ['manual', 'novel-movie-wins', 'character-library-wins'],
+        defaultValue: 'manual'
+      }
+    ]
+  },
+  {
+    id: 'novel-movie-sync-conflicts',
+    name: 'List Sync Conflicts',
+    method: 'GET',
+    path: '/api/v1/characters/{id}/novel-movie-sync/conflicts',
+    description: 'Conflicts from three-way sync waiting for manual resolution',
+    category: 'Novel Movie Integration',
+    fields: [
+      {
+        name: 'id',
+        type: 'string',
+        required: true,
+        description: 'MongoDB ObjectId (database ID, not characterId)',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      }
+    ]
+  },
+  {
+    id: 'novel-movie-sync-resolve',
+    name: 'Resolve Sync Conflicts',
+    method: 'POST',
+    path: '/api/v1/characters/{id}/novel-movie-sync/conflicts',
+    description: 'Settle queued sync conflicts field by field',
+    category: 'Novel Movie Integration',
+    fields: [
+      {
+        name: 'id',
+        type: 'string',
+        required: true,
+        description: 'MongoDB ObjectId (database ID, not characterId)',
+        placeholder: 'e.g., 68c07c4305803df129909509'
+      },
+      {
+        name: 'resolutions',
+        type: 'array',
+        required: true,
+        description: 'Array of { conflictId or field, resolution: novel-movie | character-library | manual, value? }'
+      },
+      {
+        name: 'resolvedBy',
+        type: 'string',
+        required: false,
+        description: 'Who resolved the conflicts, recorded in the change log',
+        placeholder: 'editor@example.com'
       }
     ]
   },
@@ -954,6 +1261,34 @@ export const apiEndpoints: ApiEndpoint[] = [
         required: false,
         description: 'Lighting style',
         placeholder: 'dramatic shadows, soft lighting'
+      },
+      {
+        name: 'outfitId',
+        type: 'string',
+        required: false,
+        description: 'Wardrobe outfit to dress the character in',
+        placeholder: 'e.g., winter-coat'
+      },
+      {
+        name: 'sceneNumber',
+        type: 'number',
+        required: false,
+        description: 'Scene number; picks the outfit whose scene ranges include it when no outfitId is given',
+        placeholder: '12'
+      },
+      {
+        name: 'eraId',
+        type: 'string',
+        required: false,
+        description: 'Appearance era to depict the character in',
+        placeholder: 'e.g., elderly'
+      },
+      {
+        name: 'storyYear',
+        type: 'number',
+        required: false,
+        description: 'Story year of the scene; picks the era covering it when no eraId is given',
+        placeholder: '1985'
       }
     ]
   },
@@ -999,7 +1334,7 @@ export const apiEndpoints: ApiEndpoint[] = [
     name: 'Batch Generate Scenes',
     method: 'POST',
     path: '/api/v1/characters/batch-generate-scenes',
-    description: 'Generate images for multiple scenes in batch',
+    description: 'Queue a background job that generates images for multiple scenes',
     category: 'Scene Image Generation',
     fields: [
       {
@@ -1016,11 +1351,11 @@ export const apiEndpoints: ApiEndpoint[] = [
         description: 'Array of scene objects with characters and descriptions'
       },
       {
-        name: 'maxConcurrent',
-        type: 'number',
+        name: 'batchSettings',
+        type: 'object',
         required: false,
-        description: 'Maximum concurrent generations',
-        defaultValue: 3
+        description: 'Scenes generated in parallel (maxConcurrent) and retries per failed shot (maxRetries)',
+        placeholder: '{"maxConcurrent": 3, "maxRetries": 2}'
       }
     ]
   },
@@ -1255,6 +1590,128 @@ export const apiEndpoints: ApiEndpoint[] = [
         placeholder: 'e.g., project-123'
       }
     ]
+  },
+
+  // API Keys
+  {
+    id: 'api-keys-list',
+    name: 'List API Keys',
+    method: 'GET',
+    path: '/api/v1/api-keys',
+    description: 'List your API keys, or every key with all=true (requires admin:keys for API key callers)',
+    category: 'API Keys',
+    fields: [
+      {
+        name: 'all',
+        type: 'boolean',
+        required: false,
+        description: 'Include keys of all users',
+        defaultValue: false
+      }
+    ]
+  },
+  {
+    id: 'api-keys-create',
+    name: 'Create API Key',
+    method: 'POST',
+    path: '/api/v1/api-keys',
+    description: 'Create an API key; the key itself is only returned in this response',
+    category: 'API Keys',
+    fields: [
+      {
+        name: 'name',
+        type: 'string',
+        required: true,
+        description: 'What the key is used for',
+        placeholder: 'e.g., Novel Movie production'
+      },
+      {
+        name: 'scopes',
+        type: 'array',
+        required: true,
+        description: 'Granted scopes',
+        placeholder: '["characters:read", "images:generate", "jobs:read"]'
+      },
+      {
+        name: 'projectIds',
+        type: 'array',
+        required: false,
+        description: 'Limit the key to these Novel Movie projects (empty for all)',
+        placeholder: '["project-123"]'
+      },
+      {
+        name: 'expiresAt',
+        type: 'string',
+        required: false,
+        description: 'Expiry date (ISO 8601)',
+        placeholder: 'e.g., 2027-01-01T00:00:00Z'
+      }
+    ]
+  },
+  {
+    id: 'api-keys-revoke',
+    name: 'Revoke API Key',
+    method: 'DELETE',
+    path: '/api/v1/api-keys/{keyId}',
+    description: 'Revoke an API key; requests using it are rejected from then on',
+    category: 'API Keys',
+    fields: [
+      {
+        name: 'keyId',
+        type: 'string',
+        required: true,
+        description: 'API key document ID',
+        placeholder: 'e.g., 507f1f77bcf86cd799439011'
+      }
+    ]
+  },
+  {
+    id: 'usage-report',
+    name: 'Usage Report',
+    method: 'GET',
+    path: '/api/v1/usage',
+    description: 'Estimated generation spend grouped by project and character, with project budgets',
+    category: 'Usage & Budgets',
+    fields: [
+      {
+        name: 'projectId',
+        type: 'string',
+        required: false,
+        description: 'Comma-separated Novel Movie project IDs (default: all accessible projects)',
+        placeholder: 'e.g., project-123'
+      },
+      {
+        name: 'from',
+        type: 'string',
+        required: false,
+        description: 'Only include usage from this date (ISO 8601)',
+        placeholder: 'e.g., 2026-10-01'
+      },
+      {
+        name: 'to',
+        type: 'string',
+        required: false,
+        description: 'Only include usage up to this date (ISO 8601)',
+        placeholder: 'e.g., 2026-10-31'
+      }
+    ]
+  },
+  {
+    id: 'job-approve',
+    name: 'Approve Over-Budget Job',
+    method: 'POST',
+    path: '/api/v1/jobs/{jobId}/approve',
+    description: 'Queue a job that is awaiting approval because it would exceed its project budget',
+    category: 'Usage & Budgets',
+    fields: [
+      {
+        name: 'jobId',
+        type: 'string',
+        required: true,
+        description: 'Job ID',
+        placeholder: 'e.g., 3f2b8c1e-...'
+      }
+    ]
   }
 ]
 
@@ -0,0 +1,77 @@
+/**
+ * API Authentication Configuration
+ *
+ * API key format, scopes, user roles and enforcement for /api/v1 routes and collection access
+ */
+
+export const API_SCOPES = [
+  'characters:read',
+  'characters:write',
+  'characters:delete',
+  'images:generate',
+  'jobs:read',
+  'jobs:write',
+  'media:read',
+  'media:write',
+  'reference-shots:read',
+  'reference-shots:write',
+  'pathrag:read',
+  'pathrag:write',
+  'qa:read',
+  'qa:write',
+  'prompts:write',
+  'usage:read',
+  'budgets:write',
+  'admin:seed',
+  'admin:keys',
+] as const
+
+export type ApiScope = (typeof API_SCOPES)[number]
+
+export const API_AUTH_CONFIG = {
+  // Set API_AUTH_ENABLED=false only for local development
+  enabled: process.env.API_AUTH_ENABLED !== 'false',
+  keyPrefix: 'clk',
+  headerName: 'x-api-key',
+  // lastUsedAt is written at most this often per key
+  touchIntervalMs: parseInt(process.env.API_KEY_TOUCH_INTERVAL_MS || '60000'),
+}
+
+/**
+ * User roles, lowest to highest. Each role includes the scopes of the roles below it.
+ */
+export const USER_ROLES = ['viewer', 'writer', 'art-director', 'admin'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
+// Users created before roles existed are treated as viewers
+export const DEFAULT_USER_ROLE: UserRole = 'viewer'
+
+const VIEWER_SCOPES: ApiScope[] = [
+  'characters:read',
+  'jobs:read',
+  'media:read',
+  'reference-shots:read',
+  'pathrag:read',
+  'qa:read',
+]
+
+const WRITER_SCOPES: ApiScope[] = [...VIEWER_SCOPES, 'characters:write', 'media:write', 'pathrag:write']
+
+// Art directors can spend money: image generation, QA runs and job control
+const ART_DIRECTOR_SCOPES: ApiScope[] = [
+  ...WRITER_SCOPES,
+  'characters:delete',
+  'images:generate',
+  'jobs:write',
+  'qa:write',
+  'prompts:write',
+  'usage:read',
+]
+
+export const ROLE_SCOPES: Record<UserRole, ApiScope[]> = {
+  viewer: VIEWER_SCOPES,
+  writer: WRITER_SCOPES,
+  'art-director': ART_DIRECTOR_SCOPES,
+  admin: [...API_SCOPES],
+}
@@ -0,0 +1,18 @@
+/**
+ * Batch Scene Generation Configuration
+ *
+ * Worker pool and retry settings for batch-scenes jobs
+ */
+
+export const BATCH_SCENE_CONFIG = {
+  // Scenes generated in parallel when batchSettings.maxConcurrent is not given
+  defaultConcurrency: parseInt(process.env.BATCH_SCENES_CONCURRENCY || '3'),
+  maxConcurrency: parseInt(process.env.BATCH_SCENES_MAX_CONCURRENCY || '6'),
+  // Extra attempts per shot after a failed generation or upload
+  maxRetries: parseInt(process.env.BATCH_SCENES_SHOT_RETRIES || '2'),
+  retryDelayMs: parseInt(process.env.BATCH_SCENES_RETRY_DELAY_MS || '2000'),
+  maxScenes: parseInt(process.env.BATCH_SCENES_MAX_SCENES || '500'),
+  // Scene images are not validated with DINOv3 yet
+  defaultQualityScore: 85,
+  defaultConsistencyScore: 90,
+}
@@ -0,0 +1,33 @@
+/**
+ * DINOv3 Configuration
+ *
+ * Selects the backend used by DinoOrchestrator. Set DINO_BACKEND=local to
+ * compute quality and consistency signals in-process without the remote service.
+ */
+
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+export type DinoBackendName = 'remote' | 'local'
+
+export const DINO_CONFIG = {
+  backend: (process.env.DINO_BACKEND || 'remote') as DinoBackendName,
+  remote: {
+    baseUrl: process.env.DINO_SERVICE_URL || 'https://dino.ft.tc',
+    apiKey: process.env.DINO_API_KEY || '',
+  },
+  local: {
+    // Computed signals are persisted here so assets survive restarts
+    storageDir: process.env.DINO_LOCAL_STORAGE_DIR || join(tmpdir(), 'character-library-dino'),
+    featureDimensions: 384,
+    sameCharacterThreshold: 85,
+  },
+  duplicates: {
+    // Cosine similarity of master reference features above which two characters look the same
+    similarityThreshold: parseFloat(process.env.DUPLICATE_VISUAL_THRESHOLD || '0.92'),
+    // Characters compared per duplicate check
+    maxCandidates: parseInt(process.env.DUPLICATE_MAX_CANDIDATES || '1000'),
+  },
+}
+
+export type DinoConfig = typeof DINO_CONFIG
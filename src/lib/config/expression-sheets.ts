@@ -0,0 +1,33 @@
+/**
+ * Expression Sheet Configuration
+ *
+ * Default emotions of an expression sheet, the facial cues that spell each one
+ * out for the image model, and the fixed reference shot every frame uses
+ */
+
+export interface ExpressionDefinition {
+  expression: string
+  label: string
+  // Facial action cues added to the prompt so the emotion reads clearly
+  cues: string
+}
+
+export const EXPRESSION_LIBRARY: ExpressionDefinition[] = [
+  { expression: 'neutral', label: 'Neutral', cues: 'relaxed face, lips closed, eyes open and calm' },
+  { expression: 'joy', label: 'Joy', cues: 'genuine smile, raised cheeks, crinkled eye corners' },
+  { expression: 'sadness', label: 'Sadness', cues: 'inner brows raised and drawn together, lip corners pulled down, downcast eyes' },
+  { expression: 'anger', label: 'Anger', cues: 'brows lowered and drawn together, glaring eyes, lips pressed tight' },
+  { expression: 'fear', label: 'Fear', cues: 'brows raised and drawn together, upper lids raised, lips stretched back' },
+  { expression: 'disgust', label: 'Disgust', cues: 'nose wrinkled, upper lip raised, narrowed eyes' },
+  { expression: 'surprise', label: 'Surprise', cues: 'brows raised high, eyes wide open, jaw dropped' },
+  { expression: 'contempt', label: 'Contempt', cues: 'one lip corner tightened and raised, slight head tilt, level gaze' },
+]
+
+export const EXPRESSION_SHEET_CONFIG = {
+  // Reference shot whose lens, angle, crop and camera position every frame keeps
+  baseShotSlug: process.env.EXPRESSION_SHEET_BASE_SHOT || 'enhanced_50c_front_cu_v2',
+  defaultExpressions: EXPRESSION_LIBRARY.map((definition) => definition.expression),
+  maxExpressions: parseInt(process.env.EXPRESSION_SHEET_MAX_EXPRESSIONS || '12'),
+  // Frames with a lower DINOv3 consistency score against the master reference are regenerated
+  minConsistencyScore: parseInt(process.env.EXPRESSION_SHEET_MIN_CONSISTENCY || '70'),
+}
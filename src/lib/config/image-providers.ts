@@ -0,0 +1,29 @@
+/**
+ * Image Provider Configuration
+ *
+ * Selects the backend used by ImageGenerationService. Set IMAGE_PROVIDER=local
+ * to render deterministic placeholder images without network access.
+ */
+
+export type ImageProviderName = 'fal' | 'local'
+
+export const IMAGE_PROVIDER_CONFIG = {
+  provider: (process.env.IMAGE_PROVIDER || 'fal') as ImageProviderName,
+  fal: {
+    apiKey: process.env.FAL_KEY || '',
+    baseUrl: process.env.FAL_BASE_URL || 'https://fal.run',
+    textToImageModel: process.env.FAL_TEXT_TO_IMAGE_MODEL || 'fal-ai/nano-banana',
+    imageToImageModel: process.env.FAL_IMAGE_TO_IMAGE_MODEL || 'fal-ai/nano-banana/edit',
+    maxReferenceImages: 10,
+    // nano-banana takes no sampler settings; enable for models that accept
+    // num_inference_steps, guidance_scale, strength and negative_prompt (e.g. flux)
+    samplerParameters: process.env.FAL_SAMPLER_PARAMETERS === 'true',
+  },
+  local: {
+    width: parseInt(process.env.LOCAL_IMAGE_PROVIDER_WIDTH || '768'),
+    height: parseInt(process.env.LOCAL_IMAGE_PROVIDER_HEIGHT || '1024'),
+    jpegQuality: 90,
+  },
+}
+
+export type ImageProviderConfig = typeof IMAGE_PROVIDER_CONFIG
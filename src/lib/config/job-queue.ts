@@ -0,0 +1,41 @@
+/**
+ * Job Queue Configuration
+ *
+ * Settings for the durable image generation job queue backed by the
+ * image-generation-jobs collection
+ */
+
+/**
+ * Parse per-job-type concurrency limits, e.g. "core-set:1,360-set:2"
+ */
+function parseTypeConcurrency(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {}
+
+  if (!value) {
+    return limits
+  }
+
+  for (const entry of value.split(',')) {
+    const [jobType, limit] = entry.split(':').map((part) => part.trim())
+    const parsed = parseInt(limit || '')
+    if (jobType && !isNaN(parsed) && parsed > 0) {
+      limits[jobType] = parsed
+    }
+  }
+
+  return limits
+}
+
+export const JOB_QUEUE_CONFIG = {
+  enabled: process.env.JOB_QUEUE_ENABLED !== 'false',
+  concurrency: parseInt(process.env.JOB_QUEUE_CONCURRENCY || '1'),
+  typeConcurrency: parseTypeConcurrency(process.env.JOB_QUEUE_TYPE_CONCURRENCY),
+  pollIntervalMs: parseInt(process.env.JOB_QUEUE_POLL_INTERVAL_MS || '5000'),
+  leaseDurationMs: parseInt(process.env.JOB_QUEUE_LEASE_DURATION_MS || '120000'),
+  heartbeatIntervalMs: parseInt(process.env.JOB_QUEUE_HEARTBEAT_INTERVAL_MS || '30000'),
+  staleSweepIntervalMs: parseInt(process.env.JOB_QUEUE_STALE_SWEEP_INTERVAL_MS || '60000'),
+  maxAttempts: parseInt(process.env.JOB_QUEUE_MAX_ATTEMPTS || '3'),
+  retryBackoffMs: parseInt(process.env.JOB_QUEUE_RETRY_BACKOFF_MS || '30000'),
+}
+
+export type JobQueueConfig = typeof JOB_QUEUE_CONFIG
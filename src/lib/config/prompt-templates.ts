@@ -0,0 +1,75 @@
+/**
+ * Prompt Template Configuration
+ *
+ * Template kinds that can be edited in the prompt-templates collection, and the
+ * placeholders each kind's renderer fills in
+ */
+
+export const PROMPT_TEMPLATE_KEYS = ['cinematic-reference', 'reference-shot'] as const
+
+export type PromptTemplateKey = (typeof PROMPT_TEMPLATE_KEYS)[number]
+
+export interface PlaceholderSchema {
+  // Placeholders the renderer fills in; anything else is left unreplaced
+  placeholders: string[]
+  // Placeholders every template of this kind must use
+  required: string[]
+  // Section headings that should be present (warnings only)
+  sections?: string[]
+}
+
+export const PROMPT_TEMPLATE_SCHEMAS: Record<PromptTemplateKey, PlaceholderSchema> = {
+  // EnhancedPromptBuilder.buildEnhancedPrompt (core set jobs)
+  'cinematic-reference': {
+    placeholders: [
+      'CHARACTER',
+      'PHYSIQUE_TRAITS',
+      'PERSONALITY',
+      'LENS',
+      'DISTANCE',
+      'AZIMUTH',
+      'ELEVATION',
+      'CROP',
+      'THIRDS',
+      'HEADROOM',
+      'SUBJECT_YAW',
+      'GAZE',
+      'POSE',
+      'EXPRESSION',
+      'FSTOP',
+      'ISO',
+      'SHUTTER',
+      'REF_URL',
+      'REF_WEIGHT',
+      'NEGATIVE_PROMPTS',
+      'COMPOSITION_NOTES',
+      'OUTFIT',
+    ],
+    required: ['CHARACTER', 'LENS', 'CROP', 'REF_URL'],
+    sections: ['CAMERA (full-frame)', 'COMPOSITION:', 'SUBJECT:'],
+  },
+  // ImageGenerationService template prompts (reference shot promptTemplate)
+  'reference-shot': {
+    placeholders: [
+      'CHARACTER',
+      'PHYSIQUE_TRAITS',
+      'PERSONALITY',
+      'LENS',
+      'FSTOP',
+      'ISO',
+      'SHUTTER',
+      'CROP',
+      'ANGLE',
+      'REF_URL',
+      'REF_WEIGHT',
+      'POSE_INSTRUCTIONS',
+      'OUTFIT',
+    ],
+    required: ['CHARACTER'],
+  },
+}
+
+export const PROMPT_TEMPLATE_CONFIG = {
+  // Active templates are cached per kind; edits clear the cache immediately
+  cacheTtlMs: parseInt(process.env.PROMPT_TEMPLATE_CACHE_TTL_MS || '30000'),
+}
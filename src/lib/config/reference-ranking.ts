@@ -0,0 +1,57 @@
+/**
+ * Reference Ranking Configuration
+ *
+ * Features scored by the reference ranking pipeline and their default weights.
+ * Weights are relative: a candidate's score is the weighted mean of the
+ * features that apply to the query, scaled to 0-100. Projects override the
+ * defaults with a profile in the reference-ranking-profiles collection.
+ */
+
+export const RANKING_FEATURES = [
+  'sceneType',
+  'lens',
+  'crop',
+  'angle',
+  'expression',
+  'composition',
+  'quality',
+  'source',
+  'outfit',
+  'tags',
+] as const
+
+export type RankingFeature = (typeof RANKING_FEATURES)[number]
+
+export type RankingWeights = Record<RankingFeature, number>
+
+export const RANKING_FEATURE_LABELS: Record<RankingFeature, string> = {
+  sceneType: 'Shot mode or recommended use matches the scene type',
+  lens: 'Focal length matches the requested or suggested lens',
+  crop: 'Framing matches the requested or suggested crop',
+  angle: 'Camera angle matches the requested or suggested angle',
+  expression: 'Expression fits the emotional tone',
+  composition: 'Gaze, profile, full body and hands needs',
+  quality: 'Quality and consistency scores',
+  source: 'Master reference, core shot or earlier generation',
+  outfit: 'Already wearing the requested outfit (only when an outfit is requested)',
+  tags: 'Tags and shot name share words with the prompt',
+}
+
+export const REFERENCE_RANKING_CONFIG = {
+  defaultWeights: {
+    sceneType: 25,
+    lens: 20,
+    crop: 20,
+    angle: 15,
+    expression: 10,
+    composition: 5,
+    quality: 5,
+    source: 5,
+    outfit: 20,
+    tags: 5,
+  } as RankingWeights,
+  // Active ranking profiles are reloaded after this long; edits clear them immediately
+  cacheTtlMs: parseInt(process.env.REFERENCE_RANKING_CACHE_TTL_MS || '30000'),
+  // Reasons listed per candidate, strongest contribution first
+  maxReasons: 4,
+}
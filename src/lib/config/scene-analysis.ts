@@ -0,0 +1,31 @@
+/**
+ * Scene Analysis Configuration
+ *
+ * Selects the backend that classifies scene descriptions. "keyword" is the
+ * built-in SceneAnalysisEngine, "rules" evaluates the rules DSL from the
+ * scene-analysis-rules collection, and "llm" asks a locally hosted model
+ * through an OpenAI-compatible chat completions endpoint.
+ */
+
+export type SceneAnalyzerName = 'keyword' | 'rules' | 'llm'
+
+export const SCENE_ANALYZER_NAMES: SceneAnalyzerName[] = ['keyword', 'rules', 'llm']
+
+export const SCENE_ANALYSIS_CONFIG = {
+  backend: (process.env.SCENE_ANALYZER || 'keyword') as SceneAnalyzerName,
+  // Analyses kept in memory, keyed by backend, project and description hash
+  cacheSize: parseInt(process.env.SCENE_ANALYSIS_CACHE_SIZE || '1000'),
+  rules: {
+    // Active rule sets are reloaded after this long; edits clear them immediately
+    cacheTtlMs: parseInt(process.env.SCENE_RULES_CACHE_TTL_MS || '30000'),
+  },
+  llm: {
+    // e.g. http://localhost:11434/v1/chat/completions (Ollama) or a llama.cpp / vLLM server
+    endpoint: process.env.SCENE_ANALYZER_LLM_URL || '',
+    model: process.env.SCENE_ANALYZER_LLM_MODEL || 'llama3.1:8b',
+    apiKey: process.env.SCENE_ANALYZER_LLM_API_KEY || '',
+    timeoutMs: parseInt(process.env.SCENE_ANALYZER_LLM_TIMEOUT_MS || '20000'),
+  },
+}
+
+export type SceneAnalysisConfig = typeof SCENE_ANALYSIS_CONFIG
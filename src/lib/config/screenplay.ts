@@ -0,0 +1,22 @@
+/**
+ * Screenplay Ingestion Configuration
+ *
+ * Limits for uploaded screenplays and the shot plan built from them
+ */
+
+export const SCREENPLAY_CONFIG = {
+  maxLength: parseInt(process.env.SCREENPLAY_MAX_LENGTH || '2000000'), // Characters of Fountain/FDX text
+  maxScenes: parseInt(process.env.SCREENPLAY_MAX_SCENES || '300'),
+  defaultShotsPerScene: parseInt(process.env.SCREENPLAY_SHOTS_PER_SCENE || '2'),
+  maxShotsPerScene: 4,
+  // Scene text handed to the scene analysis and the image prompt
+  maxDescriptionLength: 600,
+}
+
+// Shot type names understood by batch scene generation, per SceneAnalysisEngine crop
+export const CROP_SHOT_TYPES: Record<string, string> = {
+  cu: 'close-up',
+  mcu: 'medium close-up',
+  '3q': 'medium',
+  full: 'full body',
+}
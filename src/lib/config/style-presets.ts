@@ -0,0 +1,22 @@
+/**
+ * Style Preset Configuration
+ *
+ * Generation settings for the built-in style names. A style preset from the
+ * style-presets collection overrides them field by field.
+ */
+
+export interface StyleSettings {
+  steps: number
+  guidance: number
+  // Image-to-image only: how far the result may move away from the reference
+  strength: number
+}
+
+export const BUILT_IN_STYLE_SETTINGS: Record<string, StyleSettings> = {
+  // Higher quality and stronger reference adherence for consistency
+  character_turnaround: { steps: 30, guidance: 8.0, strength: 0.8 },
+  // Balance of quality and speed, allowing some variation
+  character_production: { steps: 25, guidance: 7.5, strength: 0.6 },
+}
+
+export const DEFAULT_STYLE_SETTINGS: StyleSettings = { steps: 20, guidance: 7.0, strength: 0.7 }
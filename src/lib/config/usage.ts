@@ -0,0 +1,53 @@
+/**
+ * Usage & Budget Configuration
+ *
+ * Estimated cost per generated image, used by the generation usage ledger and
+ * per-project budget checks
+ */
+
+import { IMAGE_PROVIDER_CONFIG } from './image-providers'
+
+/**
+ * Parse per-model image costs, e.g. "fal-ai/nano-banana:0.039,fal-ai/flux/dev:0.025"
+ * Model names contain slashes but not colons, so the last colon separates the cost.
+ */
+function parseModelCosts(value: string | undefined): Record<string, number> {
+  const costs: Record<string, number> = {}
+
+  if (!value) {
+    return costs
+  }
+
+  for (const entry of value.split(',')) {
+    const separator = entry.lastIndexOf(':')
+    if (separator <= 0) continue
+
+    const model = entry.slice(0, separator).trim()
+    const cost = parseFloat(entry.slice(separator + 1))
+    if (model && !isNaN(cost) && cost >= 0) {
+      costs[model] = cost
+    }
+  }
+
+  return costs
+}
+
+export const USAGE_CONFIG = {
+  // Set USAGE_TRACKING_ENABLED=false to stop writing the ledger
+  enabled: process.env.USAGE_TRACKING_ENABLED !== 'false',
+  currency: 'USD',
+  // Estimated USD per image; FAL bills nano-banana per generated image
+  modelCosts: {
+    [IMAGE_PROVIDER_CONFIG.fal.textToImageModel]: 0.039,
+    [IMAGE_PROVIDER_CONFIG.fal.imageToImageModel]: 0.039,
+    'local/placeholder-v1': 0,
+    ...parseModelCosts(process.env.GENERATION_MODEL_COSTS),
+  } as Record<string, number>,
+  // Used for models missing from modelCosts
+  defaultImageCost: parseFloat(process.env.GENERATION_DEFAULT_IMAGE_COST || '0.04'),
+}
+
+export type BudgetPeriod = 'total' | 'monthly'
+
+// What generation routes do when a project budget would be exceeded
+export type BudgetExceededAction = 'refuse' | 'approval'
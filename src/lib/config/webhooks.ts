@@ -0,0 +1,37 @@
+/**
+ * Webhook Configuration
+ *
+ * Delivery settings for job state change callbacks
+ */
+
+/**
+ * Parse a comma-separated host allowlist, e.g. "hooks.example.com,example.org"
+ */
+function parseHosts(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+export const WEBHOOK_CONFIG = {
+  // Plain http callbacks are only accepted in development
+  allowHttp: process.env.NODE_ENV === 'development' || process.env.WEBHOOK_ALLOW_HTTP === 'true',
+  // Loopback, link-local and private network callbacks are refused unless enabled (local receivers)
+  allowPrivateHosts: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true',
+  // When set, callbacks must go to one of these hosts or their subdomains
+  allowedHosts: parseHosts(process.env.WEBHOOK_ALLOWED_HOSTS),
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+  initialBackoffMs: parseInt(process.env.WEBHOOK_INITIAL_BACKOFF_MS || '2000'),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+  // job.progress is sent at most this often per job, once, without retries
+  progressIntervalMs: parseInt(process.env.WEBHOOK_PROGRESS_INTERVAL_MS || '10000'),
+  // Delivery attempts kept on a job document (oldest are dropped)
+  maxRecordedDeliveries: parseInt(process.env.WEBHOOK_MAX_RECORDED_DELIVERIES || '50'),
+  signatureHeader: 'X-Character-Library-Signature',
+  eventHeader: 'X-Character-Library-Event',
+  deliveryHeader: 'X-Character-Library-Delivery',
+  userAgent: 'CharacterLibrary-Webhooks/1.0',
+}
+
+export type WebhookEvent = 'job.progress' | 'job.completed' | 'job.failed' | 'job.cancelled'
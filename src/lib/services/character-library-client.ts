@@ -13,6 +13,7 @@ export interface CharacterLibraryConfig {
   consistencyThreshold: number
   defaultStyle: string
   maxRetries: number
+  apiKey?: string
 }
 
 export interface NovelMovieCharacterData {
@@ -62,7 +63,8 @@ export const CHARACTER_LIBRARY_CONFIG: CharacterLibraryConfig = {
   qualityThreshold: 70,
   consistencyThreshold: 85,
   defaultStyle: 'character_production',
-  maxRetries: 5
+  maxRetries: 5,
+  apiKey: process.env.CHARACTER_LIBRARY_API_KEY
 }
 
 export class CharacterLibraryClient {
@@ -269,6 +271,7 @@ export class CharacterLibraryClient {
           method,
           headers: {
             'Content-Type': 'application/json',
+            ...(this.config.apiKey && { 'X-API-Key': this.config.apiKey }),
           },
           signal: AbortSignal.timeout(this.config.timeout),
         }
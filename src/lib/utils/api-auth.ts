@@ -0,0 +1,358 @@
+/**
+ * API Authorization Utilities
+ *
+ * Shared scope, role and project checks for /api/v1 route handlers and Payload
+ * collection access functions. Requests are authenticated through Payload
+ * (admin session or API key strategy). Signed-in users get the scopes of their
+ * role; API keys get their own scopes, capped by their owner's role, and may be
+ * limited to specific novelMovieIntegration.projectId values.
+ */
+
+import { NextResponse } from 'next/server'
+import type { Access, Where } from 'payload'
+import {
+  API_AUTH_CONFIG,
+  ApiScope,
+  DEFAULT_USER_ROLE,
+  ROLE_SCOPES,
+  USER_ROLES,
+  UserRole,
+} from '../config/api-auth'
+
+export interface ApiPrincipal {
+  type: 'api-key' | 'user' | 'anonymous'
+  userId: string | null
+  role: UserRole
+  scopes: ApiScope[] | '*'
+  // null means every project
+  projectIds: string[] | null
+  keyPrefix?: string
+}
+
+export const CHARACTER_PROJECT_FIELD = 'novelMovieIntegration.projectId'
+
+/**
+ * Derive the principal for an authenticated Payload user (or the lack of one)
+ */
+export function getPrincipal(user: any): ApiPrincipal | null {
+  if (user?.apiKey) {
+    const role = getUserRole(user)
+    const projectIds: string[] = user.apiKey.projectIds || []
+    // A key never grants more than its owner's role allows, even after a demotion
+    const scopes = (user.apiKey.scopes || []).filter((scope: ApiScope) => ROLE_SCOPES[role].includes(scope))
+    return {
+      type: 'api-key',
+      userId: String(user.id),
+      role,
+      scopes,
+      projectIds: projectIds.length > 0 ? projectIds : null,
+      keyPrefix: user.apiKey.prefix,
+    }
+  }
+
+  if (user) {
+    const role = getUserRole(user)
+    return { type: 'user', userId: String(user.id), role, scopes: [...ROLE_SCOPES[role]], projectIds: null }
+  }
+
+  if (!API_AUTH_CONFIG.enabled) {
+    return { type: 'anonymous', userId: null, role: 'admin', scopes: '*', projectIds: null }
+  }
+
+  return null
+}
+
+export function getUserRole(user: any): UserRole {
+  return USER_ROLES.includes(user?.role) ? user.role : DEFAULT_USER_ROLE
+}
+
+/**
+ * Whether the principal's role is at least the given role
+ */
+export function hasRole(principal: ApiPrincipal, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(principal.role) >= USER_ROLES.indexOf(minimum)
+}
+
+export function hasScope(principal: ApiPrincipal, scope: ApiScope): boolean {
+  return principal.scopes === '*' || principal.scopes.includes(scope)
+}
+
+/**
+ * Project-restricted keys only reach characters in their projects, never unassigned ones
+ */
+export function canAccessProject(principal: ApiPrincipal, projectId: string | null | undefined): boolean {
+  if (!principal.projectIds) return true
+  return Boolean(projectId) && principal.projectIds.includes(projectId as string)
+}
+
+export function canAccessCharacter(principal: ApiPrincipal, character: any): boolean {
+  return canAccessProject(principal, character?.novelMovieIntegration?.projectId)
+}
+
+/**
+ * Where constraint limiting a query to the principal's projects, or null when unrestricted
+ */
+export function projectWhere(principal: ApiPrincipal, field: string = CHARACTER_PROJECT_FIELD): Where | null {
+  return principal.projectIds ? { [field]: { in: principal.projectIds } } : null
+}
+
+/**
+ * Combine a route's own query with the principal's project restriction
+ */
+export function withProjectScope(principal: ApiPrincipal, where: Where = {}, field: string = CHARACTER_PROJECT_FIELD): Where {
+  const scope = projectWhere(principal, field)
+  if (!scope) return where
+  return Object.keys(where).length > 0 ? { and: [where, scope] } : scope
+}
+
+/**
+ * Collection access function for a scope; with a project field, reads, updates
+ * and deletes are limited to the principal's projects and writes may not move
+ * documents into other projects
+ */
+export function scopedAccess(scope: ApiScope, projectField?: string): Access {
+  return ({ req, data }) => {
+    const principal = getPrincipal(req.user)
+    if (!principal || !hasScope(principal, scope)) return false
+    if (!projectField || !principal.projectIds) return true
+
+    const targetProject = getPath(data, projectField)
+    if (targetProject !== undefined && !canAccessProject(principal, targetProject)) return false
+
+    return projectWhere(principal, projectField) as Where
+  }
+}
+
+/**
+ * Create access: project-restricted principals must create inside one of their projects
+ */
+export function scopedCreateAccess(scope: ApiScope, projectField?: string): Access {
+  return ({ req, data }) => {
+    const principal = getPrincipal(req.user)
+    if (!principal || !hasScope(principal, scope)) return false
+    if (!projectField) return true
+    return canAccessProject(principal, getPath(data, projectField))
+  }
+}
+
+/**
+ * Authenticate a route request without requiring a scope
+ * Returns the principal, or a 401 response to return as-is.
+ */
+export async function authenticateRequest(request: Request, payload: any): Promise<ApiPrincipal | NextResponse<any>> {
+  let user: any = null
+  try {
+    const result = await payload.auth({ headers: request.headers })
+    user = result.user
+  } catch (error) {
+    console.warn('API authentication failed:', error)
+  }
+
+  const principal = getPrincipal(user)
+  if (!principal) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required: send an API key in the X-API-Key header' },
+      { status: 401 }
+    )
+  }
+
+  return principal
+}
+
+/**
+ * Authenticate a route request and require a scope
+ * Returns the principal, or an error response to return as-is.
+ */
+export async function authorizeRequest(
+  request: Request,
+  payload: any,
+  scope: ApiScope
+): Promise<ApiPrincipal | NextResponse<any>> {
+  const principal = await authenticateRequest(request, payload)
+  if (principal instanceof NextResponse) return principal
+
+  if (!hasScope(principal, scope)) {
+    return forbiddenResponse(
+      principal.type === 'api-key'
+        ? `API key is missing the "${scope}" scope`
+        : `The ${principal.role} role does not include the "${scope}" scope`
+    )
+  }
+
+  return principal
+}
+
+/**
+ * Require a minimum role on top of scope checks, for costly or destructive actions
+ */
+export function requireRole(principal: ApiPrincipal, minimum: UserRole, action: string): NextResponse<any> | null {
+  if (hasRole(principal, minimum)) return null
+  return forbiddenResponse(`${action} requires the ${minimum} role (current role: ${principal.role})`)
+}
+
+/**
+ * Refuse updates that move a record into a project the principal may not use
+ * Returns null when the data leaves the project alone or moves it to a permitted one.
+ */
+export function authorizeProjectChange(
+  principal: ApiPrincipal,
+  data: any,
+  field: string = CHARACTER_PROJECT_FIELD
+): NextResponse<any> | null {
+  let projectId: any = data
+  for (const key of field.split('.')) {
+    // Clearing a parent group clears the project too
+    if (projectId === null) break
+    if (typeof projectId !== 'object' || !(key in projectId)) return null
+    projectId = projectId[key]
+  }
+
+  if (canAccessProject(principal, projectId)) return null
+  return forbiddenResponse(`API key is not permitted for project ${projectId || '(none)'}`)
+}
+
+/**
+ * Authorize access to a character by database ID
+ * A missing character resolves with character null so routes keep their own 404 handling.
+ */
+export async function authorizeCharacter(
+  request: Request,
+  payload: any,
+  characterId: string,
+  scope: ApiScope
+): Promise<{ principal: ApiPrincipal; character: any | null } | NextResponse<any>> {
+  const principal = await authorizeRequest(request, payload, scope)
+  if (principal instanceof NextResponse) return principal
+
+  let character: any = null
+  try {
+    character = await payload.findByID({ collection: 'characters', id: characterId, depth: 0 })
+  } catch {
+    character = null
+  }
+
+  if (character && !canAccessCharacter(principal, character)) {
+    return forbiddenResponse('API key is not permitted for this character\'s project')
+  }
+
+  return { principal, character }
+}
+
+/**
+ * Authorize access to several characters at once, e.g. for batch routes
+ * Unknown IDs are left for the route to report.
+ */
+export async function authorizeCharacters(
+  request: Request,
+  payload: any,
+  characterIds: string[],
+  scope: ApiScope
+): Promise<ApiPrincipal | NextResponse<any>> {
+  const principal = await authorizeRequest(request, payload, scope)
+  if (principal instanceof NextResponse) return principal
+  if (!principal.projectIds || characterIds.length === 0) return principal
+
+  const result = await payload.find({
+    collection: 'characters',
+    where: { id: { in: characterIds } },
+    limit: characterIds.length,
+    depth: 0,
+  })
+  const denied = result.docs.filter((character: any) => !canAccessCharacter(principal, character))
+
+  if (denied.length > 0) {
+    return forbiddenResponse(
+      `API key is not permitted for characters: ${denied.map((character: any) => character.id).join(', ')}`
+    )
+  }
+
+  return principal
+}
+
+/**
+ * Authorize access to a project by ID
+ */
+export async function authorizeProject(
+  request: Request,
+  payload: any,
+  projectId: string | null | undefined,
+  scope: ApiScope
+): Promise<ApiPrincipal | NextResponse<any>> {
+  const principal = await authorizeRequest(request, payload, scope)
+  if (principal instanceof NextResponse) return principal
+
+  if (!canAccessProject(principal, projectId)) {
+    return forbiddenResponse(`API key is not permitted for project ${projectId || '(none)'}`)
+  }
+
+  return principal
+}
+
+/**
+ * Authorize access to a background job by jobId, via its project
+ */
+export async function authorizeJob(
+  request: Request,
+  payload: any,
+  jobId: string,
+  scope: ApiScope
+): Promise<ApiPrincipal | NextResponse<any>> {
+  const principal = await authorizeRequest(request, payload, scope)
+  if (principal instanceof NextResponse) return principal
+  if (!principal.projectIds) return principal
+
+  const result = await payload.find({
+    collection: 'image-generation-jobs',
+    where: { jobId: { equals: jobId } },
+    limit: 1,
+    depth: 0,
+  })
+  const job = result.docs[0]
+  if (!job) return principal
+
+  // Jobs queued before project tracking fall back to their character's project
+  let projectId = job.projectId
+  if (!projectId) {
+    try {
+      const character = await payload.findByID({ collection: 'characters', id: job.characterId, depth: 0 })
+      projectId = character?.novelMovieIntegration?.projectId
+    } catch {
+      projectId = null
+    }
+  }
+
+  if (!canAccessProject(principal, projectId)) {
+    return forbiddenResponse('API key is not permitted for this job\'s project')
+  }
+
+  return principal
+}
+
+/**
+ * Make sure someone can administer the library: the first user to sign up, or
+ * the oldest user on installs that predate roles, becomes an admin
+ */
+export async function ensureAdminUser(payload: any): Promise<void> {
+  const admins = await payload.find({
+    collection: 'users',
+    where: { role: { equals: 'admin' } },
+    limit: 1,
+    depth: 0,
+  })
+  if (admins.totalDocs > 0) return
+
+  const oldest = await payload.find({ collection: 'users', sort: 'createdAt', limit: 1, depth: 0 })
+  const user = oldest.docs[0]
+  if (!user) return
+
+  await payload.update({ collection: 'users', id: user.id, data: { role: 'admin' } })
+  console.log(`👑 No admin user found; promoted ${user.email} to admin`)
+}
+
+export function forbiddenResponse(message: string): NextResponse<any> {
+  return NextResponse.json({ success: false, error: message }, { status: 403 })
+}
+
+function getPath(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => value?.[key], data)
+}
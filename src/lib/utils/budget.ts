@@ -0,0 +1,62 @@
+/**
+ * Budget Utilities
+ *
+ * Per-project budget checks for generation route handlers. Synchronous routes
+ * refuse work that would go over budget; job routes may instead hold the job
+ * for approval (see BackgroundJobService.enqueueJob).
+ */
+
+import { NextResponse } from 'next/server'
+import { usageService, BudgetCheck, GenerationMode } from '../../services/UsageService'
+
+/**
+ * Check a project's budget before synchronous generation
+ * Returns null when the work fits, or a 402 response to return as-is.
+ */
+export async function enforceProjectBudget(
+  payload: any,
+  projectId: string | null | undefined,
+  imageCount: number,
+  mode: GenerationMode = 'image-to-image'
+): Promise<NextResponse<any> | null> {
+  const check = await usageService.checkBudget(payload, projectId, usageService.estimateCost(imageCount, mode))
+  if (check.action === 'allow') return null
+
+  // Only queued jobs can wait for approval
+  return budgetExceededResponse(
+    check,
+    check.action === 'approval'
+      ? 'Project budget exceeded; submit this work as an async job to queue it for approval'
+      : 'Project budget exceeded'
+  )
+}
+
+export function budgetExceededResponse(check: BudgetCheck, message: string = 'Project budget exceeded'): NextResponse<any> {
+  console.log(`💸 Budget check failed for project ${check.projectId}: spent ${check.spent}, requested ${check.estimatedCost}`)
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      budget: budgetDetails(check),
+    },
+    { status: 402 }
+  )
+}
+
+/**
+ * Budget figures for API responses
+ */
+export function budgetDetails(check: BudgetCheck) {
+  return {
+    projectId: check.projectId,
+    limit: check.budget?.limit ?? null,
+    period: check.budget?.period ?? null,
+    whenExceeded: check.budget?.whenExceeded ?? null,
+    spent: check.spent,
+    committed: check.committed,
+    remaining: check.remaining,
+    estimatedCost: check.estimatedCost,
+    approvalRequired: check.action === 'approval',
+  }
+}
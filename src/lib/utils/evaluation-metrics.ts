@@ -0,0 +1,163 @@
+/**
+ * Evaluation Metrics
+ *
+ * Pure scoring functions for the scene evaluation harness: per-label precision
+ * and recall, set overlap, top-k hit rate and confidence calibration. All rates
+ * are fractions between 0 and 1.
+ */
+
+export interface LabelMetrics {
+  precision: number
+  recall: number
+  f1: number
+  support: number // Cases labelled with this value
+}
+
+export interface ClassificationMetrics {
+  accuracy: number
+  macroPrecision: number
+  macroRecall: number
+  macroF1: number
+  labels: Record<string, LabelMetrics>
+}
+
+export interface SetMetrics {
+  precision: number
+  recall: number
+  f1: number
+}
+
+export interface RankingMetrics {
+  hitRate: Record<string, number> // "top1", "top3", ...
+  mrr: number // Mean reciprocal rank of the first expected item
+  cases: number
+}
+
+export interface CalibrationBin {
+  from: number
+  to: number
+  count: number
+  meanConfidence: number
+  accuracy: number
+}
+
+export interface CalibrationMetrics {
+  ece: number // Expected calibration error: count-weighted |confidence - accuracy|
+  brier: number // Mean squared error of confidence against correctness
+  bins: CalibrationBin[]
+}
+
+/**
+ * Precision and recall per label, macro-averaged over labels that were expected or predicted
+ */
+export function classificationMetrics(pairs: Array<{ expected: string; predicted: string }>): ClassificationMetrics {
+  const labelNames = [...new Set(pairs.flatMap((pair) => [pair.expected, pair.predicted]))].sort()
+  const labels: Record<string, LabelMetrics> = {}
+
+  for (const label of labelNames) {
+    const truePositives = pairs.filter((pair) => pair.expected === label && pair.predicted === label).length
+    const predicted = pairs.filter((pair) => pair.predicted === label).length
+    const support = pairs.filter((pair) => pair.expected === label).length
+    const precision = ratio(truePositives, predicted)
+    const recall = ratio(truePositives, support)
+    labels[label] = { precision, recall, f1: harmonicMean(precision, recall), support }
+  }
+
+  const values = Object.values(labels)
+  return {
+    accuracy: ratio(pairs.filter((pair) => pair.expected === pair.predicted).length, pairs.length),
+    macroPrecision: mean(values.map((value) => value.precision)),
+    macroRecall: mean(values.map((value) => value.recall)),
+    macroF1: mean(values.map((value) => value.f1)),
+    labels,
+  }
+}
+
+/**
+ * Micro-averaged overlap between expected and predicted sets (e.g. preferred crops)
+ */
+export function setMetrics(pairs: Array<{ expected: string[]; predicted: string[] }>): SetMetrics {
+  let truePositives = 0
+  let predicted = 0
+  let expected = 0
+
+  for (const pair of pairs) {
+    const expectedSet = new Set(pair.expected)
+    const predictedSet = new Set(pair.predicted)
+    truePositives += [...predictedSet].filter((item) => expectedSet.has(item)).length
+    predicted += predictedSet.size
+    expected += expectedSet.size
+  }
+
+  const precision = ratio(truePositives, predicted)
+  const recall = ratio(truePositives, expected)
+  return { precision, recall, f1: harmonicMean(precision, recall) }
+}
+
+/**
+ * 1-based rank of the first expected item in a ranking, or null when absent
+ */
+export function firstHitRank(ranked: string[], expected: string[]): number | null {
+  const index = ranked.findIndex((item) => expected.includes(item))
+  return index === -1 ? null : index + 1
+}
+
+/**
+ * Share of rankings with an expected item in the top k, for each k
+ */
+export function rankingMetrics(ranks: Array<number | null>, ks: number[]): RankingMetrics {
+  const hitRate: Record<string, number> = {}
+  for (const k of ks) {
+    hitRate[`top${k}`] = ratio(ranks.filter((rank) => rank !== null && rank <= k).length, ranks.length)
+  }
+
+  return {
+    hitRate,
+    mrr: mean(ranks.map((rank) => (rank ? 1 / rank : 0))),
+    cases: ranks.length,
+  }
+}
+
+/**
+ * Compare stated confidence (0-1) with how often the answer was right
+ */
+export function calibrationMetrics(
+  points: Array<{ confidence: number; correct: boolean }>,
+  binCount = 5
+): CalibrationMetrics {
+  const bins: CalibrationBin[] = []
+  let weightedError = 0
+
+  for (let index = 0; index < binCount; index++) {
+    const from = index / binCount
+    const to = (index + 1) / binCount
+    // The last bin includes a confidence of exactly 1
+    const members = points.filter(
+      (point) => point.confidence >= from && (point.confidence < to || (index === binCount - 1 && point.confidence <= to))
+    )
+    if (members.length === 0) continue
+
+    const meanConfidence = mean(members.map((point) => point.confidence))
+    const accuracy = ratio(members.filter((point) => point.correct).length, members.length)
+    weightedError += members.length * Math.abs(meanConfidence - accuracy)
+    bins.push({ from, to, count: members.length, meanConfidence, accuracy })
+  }
+
+  return {
+    ece: ratio(weightedError, points.length),
+    brier: mean(points.map((point) => (point.confidence - (point.correct ? 1 : 0)) ** 2)),
+    bins,
+  }
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function harmonicMean(precision: number, recall: number): number {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+}
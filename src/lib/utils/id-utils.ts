@@ -68,6 +68,45 @@ export function generateCharacterId(name: string): string {
     .replace(/^-|-$/g, '')
 }
 
+/**
+ * Find a free character ID, suffixing -2, -3, ... on collisions
+ */
+export async function resolveCharacterIdCollision(
+  desiredId: string,
+  isTaken: (characterId: string) => Promise<boolean>,
+  maxAttempts: number = 100
+): Promise<string> {
+  const baseId = isValidCharacterId(desiredId) ? desiredId : generateCharacterId(desiredId)
+
+  if (!(await isTaken(baseId))) {
+    return baseId
+  }
+
+  for (let suffix = 2; suffix <= maxAttempts; suffix++) {
+    const candidate = `${baseId}-${suffix}`
+    if (!(await isTaken(candidate))) {
+      return candidate
+    }
+  }
+
+  throw new IDValidationError(`No free character ID found for: ${desiredId}`, 'characterId', desiredId)
+}
+
+/**
+ * Map a media or document reference from one instance to another
+ * Returns null when the reference has no mapping.
+ */
+export function remapId(
+  ref: string | { id: string } | null | undefined,
+  idMap: Map<string, string> | Record<string, string>
+): string | null {
+  const id = extractMediaId(ref)
+  if (!id) return null
+
+  const mapped = idMap instanceof Map ? idMap.get(id) : idMap[id]
+  return mapped || null
+}
+
 /**
  * Standardized API response format for character data
  */
@@ -0,0 +1,228 @@
+/**
+ * Image Signal Utilities
+ *
+ * Deterministic, dependency-light image signals computed from raw bytes with
+ * sharp: perceptual hashes, color histogram, sharpness, exposure and a compact
+ * feature vector. Used by the local DINOv3 stand-in and anywhere images need to
+ * be compared without the remote service.
+ */
+
+import sharp from 'sharp'
+
+export interface ImageExposure {
+  meanLuminance: number // 0-1
+  contrast: number // luminance standard deviation, 0-0.5
+  clippedHighlights: number // fraction of pixels >= 250
+  clippedShadows: number // fraction of pixels <= 5
+}
+
+export interface ImageSignals {
+  width: number
+  height: number
+  dHash: string // 64-bit difference hash, hex
+  aHash: string // 64-bit average hash, hex
+  histogram: number[] // 4x4x4 RGB joint histogram, normalized to sum 1
+  sharpness: number // variance of the Laplacian on a 256px grayscale copy
+  exposure: ImageExposure
+  features: number[]
+}
+
+const ANALYSIS_SIZE = 256
+const HISTOGRAM_BINS_PER_CHANNEL = 4
+const FEATURE_DIMENSIONS = 384
+
+/**
+ * Compute all signals for an encoded image (JPEG, PNG, WebP, ...)
+ */
+export async function computeImageSignals(imageBuffer: Buffer): Promise<ImageSignals> {
+  const image = sharp(imageBuffer).rotate()
+  const metadata = await image.metadata()
+
+  const [analysis, dHashPixels, aHashPixels, thumbnail] = await Promise.all([
+    sharp(imageBuffer).rotate().removeAlpha()
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'fill' })
+      .raw().toBuffer(),
+    sharp(imageBuffer).rotate().grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw().toBuffer(),
+    sharp(imageBuffer).rotate().grayscale()
+      .resize(8, 8, { fit: 'fill' })
+      .raw().toBuffer(),
+    sharp(imageBuffer).rotate().removeAlpha()
+      .resize(8, 8, { fit: 'fill' })
+      .raw().toBuffer(),
+  ])
+
+  const luminance = toLuminance(analysis)
+  const dHash = computeDifferenceHash(dHashPixels)
+  const aHash = computeAverageHash(aHashPixels)
+  const histogram = computeHistogram(analysis)
+
+  return {
+    width: metadata.width || 0,
+    height: metadata.height || 0,
+    dHash,
+    aHash,
+    histogram,
+    sharpness: computeLaplacianVariance(luminance, ANALYSIS_SIZE, ANALYSIS_SIZE),
+    exposure: computeExposure(luminance),
+    features: buildFeatureVector(histogram, dHash, aHash, thumbnail),
+  }
+}
+
+/**
+ * Similarity of two hex hashes, 1 = identical bits
+ */
+export function hashSimilarity(a: string, b: string): number {
+  const bitsA = hexToBits(a)
+  const bitsB = hexToBits(b)
+  const length = Math.min(bitsA.length, bitsB.length)
+  if (length === 0) return 0
+
+  let distance = 0
+  for (let i = 0; i < length; i++) {
+    if (bitsA[i] !== bitsB[i]) distance++
+  }
+  return 1 - distance / length
+}
+
+/**
+ * Histogram intersection, 1 = identical color distribution
+ */
+export function histogramIntersection(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += Math.min(a[i], b[i])
+  }
+  return sum
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+function toLuminance(rgb: Buffer): Float64Array {
+  const luminance = new Float64Array(rgb.length / 3)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = (0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2]) / 255
+  }
+  return luminance
+}
+
+function computeDifferenceHash(gray: Buffer): string {
+  const bits: number[] = []
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(gray[y * 9 + x] < gray[y * 9 + x + 1] ? 1 : 0)
+    }
+  }
+  return bitsToHex(bits)
+}
+
+function computeAverageHash(gray: Buffer): string {
+  const mean = gray.reduce((sum, value) => sum + value, 0) / gray.length
+  return bitsToHex(Array.from(gray, (value) => (value >= mean ? 1 : 0)))
+}
+
+function computeHistogram(rgb: Buffer): number[] {
+  const bins = HISTOGRAM_BINS_PER_CHANNEL
+  const histogram = new Array(bins * bins * bins).fill(0)
+  const pixels = rgb.length / 3
+
+  for (let i = 0; i < pixels; i++) {
+    const r = Math.min(bins - 1, Math.floor((rgb[i * 3] / 256) * bins))
+    const g = Math.min(bins - 1, Math.floor((rgb[i * 3 + 1] / 256) * bins))
+    const b = Math.min(bins - 1, Math.floor((rgb[i * 3 + 2] / 256) * bins))
+    histogram[r * bins * bins + g * bins + b]++
+  }
+
+  return histogram.map((count) => count / pixels)
+}
+
+function computeLaplacianVariance(luminance: Float64Array, width: number, height: number): number {
+  const values: number[] = []
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      values.push(
+        (luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i]) * 255
+      )
+    }
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+}
+
+function computeExposure(luminance: Float64Array): ImageExposure {
+  let sum = 0
+  let highlights = 0
+  let shadows = 0
+  for (const value of luminance) {
+    sum += value
+    if (value >= 250 / 255) highlights++
+    if (value <= 5 / 255) shadows++
+  }
+
+  const mean = sum / luminance.length
+  let variance = 0
+  for (const value of luminance) {
+    variance += (value - mean) ** 2
+  }
+
+  return {
+    meanLuminance: mean,
+    contrast: Math.sqrt(variance / luminance.length),
+    clippedHighlights: highlights / luminance.length,
+    clippedShadows: shadows / luminance.length,
+  }
+}
+
+/**
+ * 384 dimensions: 64 histogram bins, 64 dHash bits, 64 aHash bits and an
+ * 8x8 RGB thumbnail (192), each block L2-normalized
+ */
+function buildFeatureVector(histogram: number[], dHash: string, aHash: string, thumbnail: Buffer): number[] {
+  const blocks = [
+    histogram,
+    hexToBits(dHash).map((bit) => (bit ? 1 : -1)),
+    hexToBits(aHash).map((bit) => (bit ? 1 : -1)),
+    Array.from(thumbnail, (value) => value / 255 - 0.5),
+  ]
+
+  const features = blocks.flatMap((block) => {
+    const norm = Math.sqrt(block.reduce((sum, value) => sum + value * value, 0)) || 1
+    return block.map((value) => Number((value / norm).toFixed(6)))
+  })
+
+  return features.slice(0, FEATURE_DIMENSIONS)
+}
+
+function bitsToHex(bits: number[]): string {
+  let hex = ''
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16)
+  }
+  return hex
+}
+
+function hexToBits(hex: string): number[] {
+  const bits: number[] = []
+  for (const char of hex) {
+    const value = parseInt(char, 16)
+    bits.push((value >> 3) & 1, (value >> 2) & 1, (value >> 1) & 1, value & 1)
+  }
+  return bits
+}
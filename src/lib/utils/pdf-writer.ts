@@ -0,0 +1,257 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Just enough of PDF 1.4 to lay out printable documents without a rendering
+ * engine: pages, Helvetica text (WinAnsi), filled rectangles, lines and JPEG
+ * images. Coordinates are in points from the top-left corner of the page.
+ */
+
+export const A4 = { width: 595, height: 842 }
+
+export type PdfFont = 'regular' | 'bold'
+
+export interface PdfImage {
+  name: string
+  width: number
+  height: number
+}
+
+interface PdfPage {
+  commands: string[]
+  images: Set<string>
+}
+
+interface PdfImageData extends PdfImage {
+  data: Buffer
+}
+
+// Average Helvetica glyph width in ems; good enough for wrapping body text
+const AVERAGE_CHAR_WIDTH: Record<PdfFont, number> = {
+  regular: 0.5,
+  bold: 0.55,
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+}
+
+export class PdfDocument {
+  readonly width: number
+  readonly height: number
+  private pages: PdfPage[] = []
+  private images: PdfImageData[] = []
+
+  constructor(size: { width: number; height: number } = A4) {
+    this.width = size.width
+    this.height = size.height
+  }
+
+  addPage(): void {
+    this.pages.push({ commands: [], images: new Set() })
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  /**
+   * Register a baseline JPEG; the returned handle can be drawn on any page
+   */
+  addJpeg(data: Buffer, width: number, height: number): PdfImage {
+    const image: PdfImageData = { name: `Im${this.images.length + 1}`, width, height, data }
+    this.images.push(image)
+    return { name: image.name, width, height }
+  }
+
+  text(value: string, x: number, y: number, size: number = 10, font: PdfFont = 'regular', color: [number, number, number] = [0, 0, 0]): void {
+    const page = this.currentPage()
+    page.commands.push(
+      `${this.rgb(color)} rg BT /${FONT_RESOURCES[font]} ${size} Tf ${this.num(x)} ${this.num(this.height - y - size)} Td (${this.escape(value)}) Tj ET`
+    )
+  }
+
+  /**
+   * Draw word-wrapped text and return the y coordinate below it
+   */
+  paragraph(value: string, x: number, y: number, maxWidth: number, size: number = 10, font: PdfFont = 'regular', lineHeight: number = 1.35): number {
+    let cursor = y
+    for (const line of this.wrap(value, maxWidth, size, font)) {
+      this.text(line, x, cursor, size, font)
+      cursor += size * lineHeight
+    }
+    return cursor
+  }
+
+  /**
+   * Split text into lines that fit the given width
+   */
+  wrap(value: string, maxWidth: number, size: number = 10, font: PdfFont = 'regular'): string[] {
+    const maxChars = Math.max(1, Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH[font])))
+    const lines: string[] = []
+
+    for (const paragraph of value.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        // Hard-break words that do not fit on a line by themselves
+        let rest = word
+        while (rest.length > maxChars) {
+          if (line) {
+            lines.push(line)
+            line = ''
+          }
+          lines.push(rest.slice(0, maxChars))
+          rest = rest.slice(maxChars)
+        }
+
+        const candidate = line ? `${line} ${rest}` : rest
+        if (candidate.length > maxChars) {
+          lines.push(line)
+          line = rest
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: [number, number, number]): void {
+    this.currentPage().commands.push(
+      `${this.rgb(color)} rg ${this.num(x)} ${this.num(this.height - y - height)} ${this.num(width)} ${this.num(height)} re f`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: [number, number, number] = [0.8, 0.8, 0.8], width: number = 0.5): void {
+    this.currentPage().commands.push(
+      `${this.rgb(color)} RG ${width} w ${this.num(x1)} ${this.num(this.height - y1)} m ${this.num(x2)} ${this.num(this.height - y2)} l S`
+    )
+  }
+
+  /**
+   * Draw an image scaled to fit the box, preserving aspect ratio
+   * Returns the drawn size.
+   */
+  image(image: PdfImage, x: number, y: number, maxWidth: number, maxHeight: number): { width: number; height: number } {
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height)
+    const width = image.width * scale
+    const height = image.height * scale
+    const page = this.currentPage()
+
+    page.images.add(image.name)
+    page.commands.push(
+      `q ${this.num(width)} 0 0 ${this.num(height)} ${this.num(x)} ${this.num(this.height - y - height)} cm /${image.name} Do Q`
+    )
+
+    return { width, height }
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      this.addPage()
+    }
+
+    // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, then images, then page/content pairs
+    const objects: Buffer[] = []
+    const imageObjectIds = new Map<string, number>()
+    const firstImageId = 5
+    const firstPageId = firstImageId + this.images.length
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2)
+
+    objects[1] = this.ascii('<< /Type /Catalog /Pages 2 0 R >>')
+    objects[2] = this.ascii(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    objects[3] = this.ascii('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    objects[4] = this.ascii('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    this.images.forEach((image, index) => {
+      const id = firstImageId + index
+      imageObjectIds.set(image.name, id)
+      objects[id] = this.stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data
+      )
+    })
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index]
+      const xObjects = [...page.images].map((name) => `/${name} ${imageObjectIds.get(name)} 0 R`).join(' ')
+      objects[pageId] = this.ascii(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> ` +
+        `/Contents ${pageId + 1} 0 R >>`
+      )
+      objects[pageId + 1] = this.stream('', Buffer.from(page.commands.join('\n'), 'latin1'))
+    })
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+    const offsets: number[] = []
+    let length = chunks[0].length
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = length
+      const chunk = Buffer.concat([this.ascii(`${id} 0 obj\n`), objects[id], this.ascii('\nendobj\n')])
+      chunks.push(chunk)
+      length += chunk.length
+    }
+
+    const xref = [
+      'xref',
+      `0 ${objects.length}`,
+      '0000000000 65535 f ',
+      ...offsets.slice(1).map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length} /Root 1 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+    ].join('\n')
+    chunks.push(this.ascii(`${xref}\n`))
+
+    return Buffer.concat(chunks)
+  }
+
+  private currentPage(): PdfPage {
+    if (this.pages.length === 0) {
+      this.addPage()
+    }
+    return this.pages[this.pages.length - 1]
+  }
+
+  private stream(dictionary: string, data: Buffer): Buffer {
+    return Buffer.concat([
+      this.ascii(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+      data,
+      this.ascii('\nendstream'),
+    ])
+  }
+
+  /**
+   * Escape a string literal; characters outside Latin-1 become '?'
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/[‘’]/g, "'")
+      .replace(/[“”]/g, '"')
+      .replace(/[–—]/g, '-')
+      .replace(/…/g, '...')
+      .replace(/[^\x20-\xff]/g, '?')
+      .replace(/[\\()]/g, (char) => `\\${char}`)
+  }
+
+  private rgb(color: [number, number, number]): string {
+    return color.map((channel) => this.num(channel)).join(' ')
+  }
+
+  private num(value: number): string {
+    return Number(value.toFixed(2)).toString()
+  }
+
+  private ascii(value: string): Buffer {
+    return Buffer.from(value, 'latin1')
+  }
+}
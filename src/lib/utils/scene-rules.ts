@@ -0,0 +1,259 @@
+/**
+ * Scene Rules DSL
+ *
+ * Parser and evaluator for the rules stored in the scene-analysis-rules
+ * collection. One rule per line; blank lines and lines starting with # are
+ * ignored:
+ *
+ *   sceneType action when fight or brawl or "gun drawn"
+ *   tone tense x2 when (argu* or shout*) and not laugh*
+ *
+ * A rule sets `sceneType` or `tone` to a value when its condition matches the
+ * scene description. Conditions combine terms with and, or, not and
+ * parentheses. A term is a word or a "quoted phrase", matched case-insensitively
+ * on word boundaries; a trailing * matches any word starting with the term.
+ * `xN` weights a rule (default 1); the value with the highest total weight wins.
+ */
+
+import {
+  SCENE_TYPES,
+  EMOTIONAL_TONES,
+  type SceneType,
+  type EmotionalTone,
+} from '../../services/SceneAnalysisEngine'
+
+export type SceneRuleTarget = 'sceneType' | 'tone'
+
+type Condition =
+  | { kind: 'term'; text: string; pattern: RegExp }
+  | { kind: 'not'; operand: Condition }
+  | { kind: 'and' | 'or'; operands: Condition[] }
+
+export interface SceneRule {
+  line: number
+  source: string
+  target: SceneRuleTarget
+  value: SceneType | EmotionalTone
+  weight: number
+  condition: Condition
+}
+
+export interface SceneRuleMatch {
+  sceneType: SceneType | null
+  emotionalTone: EmotionalTone | null
+  confidence: number
+  matchedRules: SceneRule[]
+}
+
+export class SceneRuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'SceneRuleSyntaxError'
+  }
+}
+
+const RULE_PATTERN = /^(sceneType|tone)\s+([a-z]+)(?:\s+x(\d+(?:\.\d+)?))?\s+when\s+(.+)$/i
+
+/**
+ * Parse a rule set; throws SceneRuleSyntaxError on the first invalid line
+ */
+export function parseSceneRules(text: string): SceneRule[] {
+  const rules: SceneRule[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const source = raw.trim()
+    if (!source || source.startsWith('#')) return
+
+    const match = source.match(RULE_PATTERN)
+    if (!match) {
+      throw new SceneRuleSyntaxError('expected "sceneType <type> when <condition>" or "tone <tone> when <condition>"', line)
+    }
+
+    const target = (match[1].toLowerCase() === 'tone' ? 'tone' : 'sceneType') as SceneRuleTarget
+    const value = match[2].toLowerCase()
+    const allowed: string[] = target === 'tone' ? EMOTIONAL_TONES : SCENE_TYPES
+    if (!allowed.includes(value)) {
+      throw new SceneRuleSyntaxError(`unknown ${target === 'tone' ? 'tone' : 'scene type'} "${value}" (use ${allowed.join(', ')})`, line)
+    }
+
+    const weight = match[3] ? parseFloat(match[3]) : 1
+    if (!(weight > 0)) {
+      throw new SceneRuleSyntaxError('weight must be greater than 0', line)
+    }
+
+    rules.push({
+      line,
+      source,
+      target,
+      value: value as SceneType | EmotionalTone,
+      weight,
+      condition: parseCondition(match[4], line),
+    })
+  })
+
+  return rules
+}
+
+/**
+ * Validate a rule set for a Payload field
+ */
+export function validateSceneRules(text: string | null | undefined): true | string {
+  if (!text || !text.trim()) return 'Rules are required'
+
+  try {
+    return parseSceneRules(text).length > 0 ? true : 'Add at least one rule'
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid rules'
+  }
+}
+
+/**
+ * Evaluate rules against a description; targets no rule matched stay null
+ */
+export function evaluateSceneRules(rules: SceneRule[], description: string): SceneRuleMatch {
+  const text = description.toLowerCase()
+  const matchedRules = rules.filter((rule) => evaluate(rule.condition, text))
+
+  const pick = (target: SceneRuleTarget) => {
+    const scores = new Map<string, number>()
+    for (const rule of matchedRules.filter((item) => item.target === target)) {
+      scores.set(rule.value, (scores.get(rule.value) || 0) + rule.weight)
+    }
+    // Ties go to the value whose rule comes first
+    let best: { value: string; score: number } | null = null
+    for (const [value, score] of scores) {
+      if (!best || score > best.score) best = { value, score }
+    }
+    const total = Array.from(scores.values()).reduce((sum, score) => sum + score, 0)
+    return best ? { value: best.value, share: best.score / total } : null
+  }
+
+  const sceneType = pick('sceneType')
+  const tone = pick('tone')
+  const shares = [sceneType, tone].filter(Boolean).map((result) => result!.share)
+
+  return {
+    sceneType: (sceneType?.value as SceneType) || null,
+    emotionalTone: (tone?.value as EmotionalTone) || null,
+    // Agreement between matching rules; a single unopposed rule gives 90
+    confidence: shares.length > 0 ? Math.round(50 + 40 * Math.min(...shares)) : 0,
+    matchedRules,
+  }
+}
+
+function evaluate(condition: Condition, text: string): boolean {
+  switch (condition.kind) {
+    case 'term':
+      return condition.pattern.test(text)
+    case 'not':
+      return !evaluate(condition.operand, text)
+    case 'and':
+      return condition.operands.every((operand) => evaluate(operand, text))
+    case 'or':
+      return condition.operands.some((operand) => evaluate(operand, text))
+  }
+}
+
+/**
+ * Recursive descent over tokens: or < and < not < term | ( condition )
+ */
+function parseCondition(text: string, line: number): Condition {
+  const tokens = tokenize(text, line)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isKeyword = (token: string | undefined, keyword: string) => token?.toLowerCase() === keyword
+
+  const parseOr = (): Condition => {
+    const operands = [parseAnd()]
+    while (isKeyword(peek(), 'or')) {
+      position++
+      operands.push(parseAnd())
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands }
+  }
+
+  const parseAnd = (): Condition => {
+    const operands = [parseNot()]
+    while (isKeyword(peek(), 'and')) {
+      position++
+      operands.push(parseNot())
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands }
+  }
+
+  const parseNot = (): Condition => {
+    if (isKeyword(peek(), 'not')) {
+      position++
+      return { kind: 'not', operand: parseNot() }
+    }
+    return parseTerm()
+  }
+
+  const parseTerm = (): Condition => {
+    const token = tokens[position++]
+    if (token === undefined) {
+      throw new SceneRuleSyntaxError('condition ends too early', line)
+    }
+    if (token === '(') {
+      const inner = parseOr()
+      if (tokens[position++] !== ')') {
+        throw new SceneRuleSyntaxError('missing ")"', line)
+      }
+      return inner
+    }
+    if (token === ')' || ['and', 'or', 'not'].includes(token.toLowerCase())) {
+      throw new SceneRuleSyntaxError(`unexpected "${token}"`, line)
+    }
+    return termCondition(token)
+  }
+
+  const condition = parseOr()
+  if (position < tokens.length) {
+    throw new SceneRuleSyntaxError(`unexpected "${tokens[position]}" (join terms with and/or)`, line)
+  }
+  return condition
+}
+
+function tokenize(text: string, line: number): string[] {
+  const tokens: string[] = []
+  const pattern = /\s*(?:(\()|(\))|"([^"]*)"|([^\s()"]+))/y
+  let match: RegExpExecArray | null
+  let consumed = 0
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) break
+    consumed = pattern.lastIndex
+    if (match[3] !== undefined) {
+      if (!match[3].trim()) throw new SceneRuleSyntaxError('empty quoted phrase', line)
+      // Quoted phrases are terms even when they read like keywords
+      tokens.push(`"${match[3].trim()}"`)
+    } else {
+      tokens.push(match[1] || match[2] || match[4])
+    }
+  }
+
+  if (text.slice(consumed).trim()) {
+    throw new SceneRuleSyntaxError('unclosed quote', line)
+  }
+  return tokens
+}
+
+function termCondition(token: string): Condition {
+  const text = token.startsWith('"') ? token.slice(1, -1).toLowerCase() : token.toLowerCase()
+  const prefix = text.endsWith('*')
+  const body = (prefix ? text.slice(0, -1) : text)
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+')
+
+  return {
+    kind: 'term',
+    text,
+    pattern: new RegExp(`(?<![\\w'])${body}${prefix ? '[\\w\'-]*' : '(?![\\w])'}`),
+  }
+}
@@ -72,6 +72,13 @@ export interface Config {
     characters: Character;
     'reference-shots': ReferenceShot;
     'image-generation-jobs': ImageGenerationJob;
+    'api-keys': ApiKey;
+    'generation-usage': GenerationUsage;
+    'project-budgets': ProjectBudget;
+    'prompt-templates': PromptTemplate;
+    'style-presets': StylePreset;
+    'scene-analysis-rules': SceneAnalysisRule;
+    'reference-ranking-profiles': ReferenceRankingProfile;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
@@ -83,6 +90,13 @@ export interface Config {
     characters: CharactersSelect<false> | CharactersSelect<true>;
     'reference-shots': ReferenceShotsSelect<false> | ReferenceShotsSelect<true>;
     'image-generation-jobs': ImageGenerationJobsSelect<false> | ImageGenerationJobsSelect<true>;
+    'api-keys': ApiKeysSelect<false> | ApiKeysSelect<true>;
+    'generation-usage': GenerationUsageSelect<false> | GenerationUsageSelect<true>;
+    'project-budgets': ProjectBudgetsSelect<false> | ProjectBudgetsSelect<true>;
+    'prompt-templates': PromptTemplatesSelect<false> | PromptTemplatesSelect<true>;
+    'style-presets': StylePresetsSelect<false> | StylePresetsSelect<true>;
+    'scene-analysis-rules': SceneAnalysisRulesSelect<false> | SceneAnalysisRulesSelect<true>;
+    'reference-ranking-profiles': ReferenceRankingProfilesSelect<false> | ReferenceRankingProfilesSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -125,6 +139,10 @@ export interface UserAuthOperations {
  */
 export interface User {
   id: string;
+  /**
+   * Viewer: read only. Writer: edit characters and media. Art Director: also generate images, run QA, manage jobs, delete characters, edit prompt templates and style presets and view usage. Admin: everything, including users, reference shots, budgets and API keys.
+   */
+  role: 'viewer' | 'writer' | 'art-director' | 'admin';
   updatedAt: string;
   createdAt: string;
   email: string;
@@ -271,10 +289,71 @@ export interface Character {
    * Detailed physical appearance, distinguishing features, and overall look.
    */
   physicalDescription?: string | null;
+  /**
+   * How the character looks at different points of the story, e.g. child, young adult, elderly. Each era has its own master reference and core set.
+   */
+  eras?:
+    | {
+        /**
+         * Stable ID used by the API, e.g. "child"
+         */
+        eraId: string;
+        name: string;
+        age?: number | null;
+        fromYear?: number | null;
+        /**
+         * Leave empty for the rest of the story
+         */
+        toYear?: number | null;
+        /**
+         * How the character looks different in this era; added to the physical description in prompts
+         */
+        physicalDescriptionDelta?: string | null;
+        /**
+         * Genesis image for this era. Its core set and searches are kept apart from the base look.
+         */
+        masterReferenceImage?: (string | null) | Media;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * Typical clothing style, fashion preferences, and signature looks.
    */
   clothing?: string | null;
+  /**
+   * Named outfits. Generation routes accept an outfitId to dress the character in one, and tag the resulting images with it.
+   */
+  wardrobe?:
+    | {
+        /**
+         * Stable ID used by the API, e.g. "act2-uniform"
+         */
+        outfitId: string;
+        name: string;
+        /**
+         * What the character wears, as it should appear in prompts
+         */
+        description: string;
+        /**
+         * Costume references used alongside the character references for scene images
+         */
+        referenceImages?: (string | Media)[] | null;
+        /**
+         * Scene numbers where this outfit is worn; used when a request gives a scene number instead of an outfit
+         */
+        sceneRanges?:
+          | {
+              fromScene: number;
+              /**
+               * Leave empty for the rest of the story
+               */
+              toScene?: number | null;
+              id?: string | null;
+            }[]
+          | null;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * Structured voice profile used for voice-generation and dialogue rendering.
    */
@@ -327,6 +406,55 @@ export interface Character {
      * How to handle sync conflicts between systems.
      */
     conflictResolution?: ('manual' | 'auto') | null;
+    /**
+     * Synced field values agreed at the last sync, used as the common ancestor for three-way merges.
+     */
+    syncBase?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+    /**
+     * Fields edited in both systems since the last sync, awaiting manual resolution.
+     */
+    pendingConflicts?:
+      | {
+          field: string;
+          baseValue?:
+            | {
+                [k: string]: unknown;
+              }
+            | unknown[]
+            | string
+            | number
+            | boolean
+            | null;
+          novelMovieValue?:
+            | {
+                [k: string]: unknown;
+              }
+            | unknown[]
+            | string
+            | number
+            | boolean
+            | null;
+          characterLibraryValue?:
+            | {
+                [k: string]: unknown;
+              }
+            | unknown[]
+            | string
+            | number
+            | boolean
+            | null;
+          detectedAt?: string | null;
+          id?: string | null;
+        }[]
+      | null;
     /**
      * History of changes and sync operations.
      */
@@ -436,6 +564,32 @@ export interface Character {
    * Timestamp when the 360° core set was generated.
    */
   coreSetGeneratedAt?: string | null;
+  /**
+   * Model sheets composed from the core set (front, three-quarter, profile and back).
+   */
+  turnaroundSheets?:
+    | {
+        image: string | Media;
+        eraId?: string | null;
+        views?: string | null;
+        createdAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Emotion grids generated from one fixed camera set-up.
+   */
+  expressionSheets?:
+    | {
+        image: string | Media;
+        expressions?: string | null;
+        referenceShot?: string | null;
+        eraId?: string | null;
+        outfitId?: string | null;
+        createdAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * Quality metrics for the generated 360° core set.
    */
@@ -546,6 +700,19 @@ export interface Character {
          * The template used to generate this image (if from 360° system)
          */
         referenceShot?: (string | null) | ReferenceShot;
+        /**
+         * Prompt template that produced this image (empty for the built-in prompt)
+         */
+        promptTemplate?: (string | null) | PromptTemplate;
+        promptTemplateVersion?: number | null;
+        /**
+         * Wardrobe outfit worn in this image (empty for the usual clothing)
+         */
+        outfitId?: string | null;
+        /**
+         * Appearance era of this image (empty for the base look)
+         */
+        eraId?: string | null;
         /**
          * Camera lens focal length (35, 50, 85)
          */
@@ -761,6 +928,50 @@ export interface ReferenceShot {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Prompt templates for image generation. Duplicate a template to create a new version; gallery images record the version that produced them.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "prompt-templates".
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /**
+   * Which prompt this template replaces
+   */
+  templateKey: 'cinematic-reference' | 'reference-shot';
+  /**
+   * Assigned on create, per kind and project
+   */
+  version?: number | null;
+  /**
+   * Novel Movie project this override applies to. Leave empty for the default template.
+   */
+  projectId?: string | null;
+  /**
+   * Only for this reference shot (e.g. "front_mcu_50"). Leave empty for every shot.
+   */
+  shotSlug?: string | null;
+  /**
+   * Only active templates are used for generation
+   */
+  status: 'draft' | 'active' | 'archived';
+  /**
+   * Share of characters assigned to this version when several versions are active in the same scope
+   */
+  weight?: number | null;
+  /**
+   * Template text with {PLACEHOLDER} values. Unknown placeholders and missing required ones are rejected.
+   */
+  body: string;
+  /**
+   * What changed in this version and why
+   */
+  notes?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "image-generation-jobs".
@@ -775,14 +986,18 @@ export interface ImageGenerationJob {
    * ID of the character for which images are being generated
    */
   characterId: string;
+  /**
+   * Novel Movie project of the character, used for API key project restrictions
+   */
+  projectId?: string | null;
   /**
    * Type of image generation job
    */
-  jobType: 'core-set' | '360-set' | 'single-image';
+  jobType: 'core-set' | '360-set' | 'expression-sheet' | 'batch-scenes' | 'single-image';
   /**
    * Current status of the job
    */
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  status: 'awaiting_approval' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress?: {
     /**
      * Number of images completed
@@ -829,6 +1044,92 @@ export interface ImageGenerationJob {
    * Error message if job failed
    */
   error?: string | null;
+  /**
+   * Set when the job would exceed its project budget and waits for an admin to approve it
+   */
+  budgetApproval?: {
+    estimatedCost?: number | null;
+    /**
+     * Project spend when the job was queued
+     */
+    spent?: number | null;
+    limit?: number | null;
+    approvedBy?: string | null;
+    approvedAt?: string | null;
+  };
+  /**
+   * Number of times a worker has claimed this job
+   */
+  attempts?: number | null;
+  /**
+   * Attempts allowed before the job is marked as failed
+   */
+  maxAttempts?: number | null;
+  /**
+   * When the job becomes visible to workers again (used for retry backoff)
+   */
+  availableAt?: string | null;
+  /**
+   * Worker currently holding the job lease
+   */
+  leaseOwner?: string | null;
+  /**
+   * Lease expiry; stale jobs are requeued after this time
+   */
+  leaseExpiresAt?: string | null;
+  /**
+   * Last heartbeat from the worker
+   */
+  heartbeatAt?: string | null;
+  /**
+   * Number of times this job was resumed after failing or being cancelled
+   */
+  resumeCount?: number | null;
+  /**
+   * State of the job each time it was resumed
+   */
+  resumeHistory?:
+    | {
+        resumedAt: string;
+        previousStatus: string;
+        previousError?: string | null;
+        previousAttempts?: number | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Callback notified when the job changes state
+   */
+  webhook?: {
+    /**
+     * URL that receives job.progress, job.completed, job.failed and job.cancelled events
+     */
+    callbackUrl?: string | null;
+    /**
+     * Shared secret used to sign webhook deliveries
+     */
+    secret?: string | null;
+  };
+  /**
+   * Webhook delivery attempts for this job
+   */
+  webhookDeliveries?:
+    | {
+        deliveryId: string;
+        event: 'job.progress' | 'job.completed' | 'job.failed' | 'job.cancelled';
+        attempt: number;
+        success?: boolean | null;
+        statusCode?: number | null;
+        durationMs?: number | null;
+        error?: string | null;
+        attemptedAt: string;
+        /**
+         * Original delivery ID when this attempt was a manual replay
+         */
+        replayOf?: string | null;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * When the job started processing
    */
@@ -844,6 +1145,257 @@ export interface ImageGenerationJob {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * API keys for /api/v1 and the REST API. The key itself is only shown in the create response.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "api-keys".
+ */
+export interface ApiKey {
+  id: string;
+  /**
+   * What this key is used for, e.g. "Novel Movie production".
+   */
+  name: string;
+  /**
+   * Requests made with this key act as this user.
+   */
+  user: string | User;
+  /**
+   * Public part of the key, used to identify it in logs.
+   */
+  prefix?: string | null;
+  keyHash?: string | null;
+  scopes: (
+    | 'characters:read'
+    | 'characters:write'
+    | 'characters:delete'
+    | 'images:generate'
+    | 'jobs:read'
+    | 'jobs:write'
+    | 'media:read'
+    | 'media:write'
+    | 'reference-shots:read'
+    | 'reference-shots:write'
+    | 'pathrag:read'
+    | 'pathrag:write'
+    | 'qa:read'
+    | 'qa:write'
+    | 'prompts:write'
+    | 'usage:read'
+    | 'budgets:write'
+    | 'admin:seed'
+    | 'admin:keys'
+  )[];
+  /**
+   * Novel Movie project IDs this key is limited to. Leave empty for all projects.
+   */
+  projectIds?: string[] | null;
+  expiresAt?: string | null;
+  /**
+   * Set to revoke the key.
+   */
+  revokedAt?: string | null;
+  lastUsedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * One entry per image generation call. Costs are estimates based on USAGE_CONFIG.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "generation-usage".
+ */
+export interface GenerationUsage {
+  id: string;
+  provider: string;
+  model: string;
+  mode?: ('text-to-image' | 'image-to-image') | null;
+  /**
+   * What the image was generated for, e.g. core-set, smart-image, scene-image
+   */
+  operation?: string | null;
+  characterId?: string | null;
+  projectId?: string | null;
+  jobId?: string | null;
+  steps?: number | null;
+  width?: number | null;
+  height?: number | null;
+  /**
+   * Attempt number within the caller's retry loop
+   */
+  attempt?: number | null;
+  status: 'succeeded' | 'failed';
+  /**
+   * Estimated cost in USD
+   */
+  estimatedCost: number;
+  durationMs?: number | null;
+  error?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Generation routes refuse, or hold for approval, work that would take a project over its limit.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "project-budgets".
+ */
+export interface ProjectBudget {
+  id: string;
+  /**
+   * Novel Movie project ID
+   */
+  projectId: string;
+  /**
+   * Maximum estimated spend in USD
+   */
+  limit: number;
+  period: 'total' | 'monthly';
+  /**
+   * Queued jobs wait in "awaiting approval" until an admin approves them. Synchronous requests are always refused.
+   */
+  whenExceeded: 'refuse' | 'approval';
+  notes?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Visual looks for generated images. Pin a preset to projects to give a whole production the same look.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "style-presets".
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  /**
+   * e.g. "noir-1940s"
+   */
+  slug: string;
+  /**
+   * Novel Movie projects that use this preset for all generated images. A project can pin one preset.
+   */
+  projectIds?: string[] | null;
+  /**
+   * Inactive presets are ignored, so pinned projects fall back to the built-in look
+   */
+  isActive?: boolean | null;
+  /**
+   * Appended to every prompt, e.g. "painterly, muted tones, soft grain"
+   */
+  positivePrompt?: string | null;
+  /**
+   * Things to avoid, e.g. "cartoon, oversaturated, text, watermark"
+   */
+  negativePrompt?: string | null;
+  /**
+   * e.g. "low-key tungsten, hard side light"
+   */
+  lighting?: string | null;
+  /**
+   * e.g. "teal and amber"
+   */
+  colorPalette?: string | null;
+  /**
+   * e.g. "Kodak Portra 400"
+   */
+  filmStock?: string | null;
+  steps?: number | null;
+  guidance?: number | null;
+  /**
+   * Image-to-image only; lower keeps closer to the reference
+   */
+  strength?: number | null;
+  description?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Rules that classify scene type and tone when the rules scene analyzer is enabled.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "scene-analysis-rules".
+ */
+export interface SceneAnalysisRule {
+  id: string;
+  name: string;
+  /**
+   * Novel Movie project these rules apply to. Leave empty for every project.
+   */
+  projectId?: string | null;
+  isActive?: boolean | null;
+  /**
+   * One rule per line, e.g. `sceneType action when fight or "gun drawn"` or `tone tense x2 when argu* and not laugh*`. Lines starting with # are comments.
+   */
+  rules: string;
+  notes?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * How much each feature counts when picking a reference image for a prompt or scene.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "reference-ranking-profiles".
+ */
+export interface ReferenceRankingProfile {
+  id: string;
+  name: string;
+  /**
+   * Novel Movie project these weights apply to. Leave empty for every project.
+   */
+  projectId?: string | null;
+  isActive?: boolean | null;
+  /**
+   * Relative weights; 0 turns a feature off. Empty fields keep the default.
+   */
+  weights?: {
+    /**
+     * Shot mode or recommended use matches the scene type
+     */
+    sceneType?: number | null;
+    /**
+     * Focal length matches the requested or suggested lens
+     */
+    lens?: number | null;
+    /**
+     * Framing matches the requested or suggested crop
+     */
+    crop?: number | null;
+    /**
+     * Camera angle matches the requested or suggested angle
+     */
+    angle?: number | null;
+    /**
+     * Expression fits the emotional tone
+     */
+    expression?: number | null;
+    /**
+     * Gaze, profile, full body and hands needs
+     */
+    composition?: number | null;
+    /**
+     * Quality and consistency scores
+     */
+    quality?: number | null;
+    /**
+     * Master reference, core shot or earlier generation
+     */
+    source?: number | null;
+    /**
+     * Already wearing the requested outfit (only when an outfit is requested)
+     */
+    outfit?: number | null;
+    /**
+     * Tags and shot name share words with the prompt
+     */
+    tags?: number | null;
+  };
+  notes?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -870,6 +1422,34 @@ export interface PayloadLockedDocument {
     | ({
         relationTo: 'image-generation-jobs';
         value: string | ImageGenerationJob;
+      } | null)
+    | ({
+        relationTo: 'api-keys';
+        value: string | ApiKey;
+      } | null)
+    | ({
+        relationTo: 'generation-usage';
+        value: string | GenerationUsage;
+      } | null)
+    | ({
+        relationTo: 'project-budgets';
+        value: string | ProjectBudget;
+      } | null)
+    | ({
+        relationTo: 'prompt-templates';
+        value: string | PromptTemplate;
+      } | null)
+    | ({
+        relationTo: 'style-presets';
+        value: string | StylePreset;
+      } | null)
+    | ({
+        relationTo: 'scene-analysis-rules';
+        value: string | SceneAnalysisRule;
+      } | null)
+    | ({
+        relationTo: 'reference-ranking-profiles';
+        value: string | ReferenceRankingProfile;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -918,6 +1498,7 @@ export interface PayloadMigration {
  * via the `definition` "users_select".
  */
 export interface UsersSelect<T extends boolean = true> {
+  role?: T;
   updatedAt?: T;
   createdAt?: T;
   email?: T;
@@ -1006,7 +1587,35 @@ export interface CharactersSelect<T extends boolean = true> {
   eyeColor?: T;
   hairColor?: T;
   physicalDescription?: T;
+  eras?:
+    | T
+    | {
+        eraId?: T;
+        name?: T;
+        age?: T;
+        fromYear?: T;
+        toYear?: T;
+        physicalDescriptionDelta?: T;
+        masterReferenceImage?: T;
+        id?: T;
+      };
   clothing?: T;
+  wardrobe?:
+    | T
+    | {
+        outfitId?: T;
+        name?: T;
+        description?: T;
+        referenceImages?: T;
+        sceneRanges?:
+          | T
+          | {
+              fromScene?: T;
+              toScene?: T;
+              id?: T;
+            };
+        id?: T;
+      };
   dialogueVoice?:
     | T
     | {
@@ -1036,6 +1645,17 @@ export interface CharactersSelect<T extends boolean = true> {
         lastSyncAt?: T;
         syncStatus?: T;
         conflictResolution?: T;
+        syncBase?: T;
+        pendingConflicts?:
+          | T
+          | {
+              field?: T;
+              baseValue?: T;
+              novelMovieValue?: T;
+              characterLibraryValue?: T;
+              detectedAt?: T;
+              id?: T;
+            };
         changeLog?:
           | T
           | {
@@ -1094,6 +1714,26 @@ export interface CharactersSelect<T extends boolean = true> {
   masterReferenceQuality?: T;
   coreSetGenerated?: T;
   coreSetGeneratedAt?: T;
+  turnaroundSheets?:
+    | T
+    | {
+        image?: T;
+        eraId?: T;
+        views?: T;
+        createdAt?: T;
+        id?: T;
+      };
+  expressionSheets?:
+    | T
+    | {
+        image?: T;
+        expressions?: T;
+        referenceShot?: T;
+        eraId?: T;
+        outfitId?: T;
+        createdAt?: T;
+        id?: T;
+      };
   coreSetQuality?: T;
   enhancedQualityMetrics?:
     | T
@@ -1131,6 +1771,10 @@ export interface CharactersSelect<T extends boolean = true> {
         tags?: T;
         generationPrompt?: T;
         referenceShot?: T;
+        promptTemplate?: T;
+        promptTemplateVersion?: T;
+        outfitId?: T;
+        eraId?: T;
         lens?: T;
         angle?: T;
         crop?: T;
@@ -1206,6 +1850,7 @@ export interface ReferenceShotsSelect<T extends boolean = true> {
 export interface ImageGenerationJobsSelect<T extends boolean = true> {
   jobId?: T;
   characterId?: T;
+  projectId?: T;
   jobType?: T;
   status?: T;
   progress?:
@@ -1219,12 +1864,187 @@ export interface ImageGenerationJobsSelect<T extends boolean = true> {
   requestData?: T;
   results?: T;
   error?: T;
+  budgetApproval?:
+    | T
+    | {
+        estimatedCost?: T;
+        spent?: T;
+        limit?: T;
+        approvedBy?: T;
+        approvedAt?: T;
+      };
+  attempts?: T;
+  maxAttempts?: T;
+  availableAt?: T;
+  leaseOwner?: T;
+  leaseExpiresAt?: T;
+  heartbeatAt?: T;
+  resumeCount?: T;
+  resumeHistory?:
+    | T
+    | {
+        resumedAt?: T;
+        previousStatus?: T;
+        previousError?: T;
+        previousAttempts?: T;
+        id?: T;
+      };
+  webhook?:
+    | T
+    | {
+        callbackUrl?: T;
+        secret?: T;
+      };
+  webhookDeliveries?:
+    | T
+    | {
+        deliveryId?: T;
+        event?: T;
+        attempt?: T;
+        success?: T;
+        statusCode?: T;
+        durationMs?: T;
+        error?: T;
+        attemptedAt?: T;
+        replayOf?: T;
+        id?: T;
+      };
   startedAt?: T;
   completedAt?: T;
   estimatedCompletionAt?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "api-keys_select".
+ */
+export interface ApiKeysSelect<T extends boolean = true> {
+  name?: T;
+  user?: T;
+  prefix?: T;
+  keyHash?: T;
+  scopes?: T;
+  projectIds?: T;
+  expiresAt?: T;
+  revokedAt?: T;
+  lastUsedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "generation-usage_select".
+ */
+export interface GenerationUsageSelect<T extends boolean = true> {
+  provider?: T;
+  model?: T;
+  mode?: T;
+  operation?: T;
+  characterId?: T;
+  projectId?: T;
+  jobId?: T;
+  steps?: T;
+  width?: T;
+  height?: T;
+  attempt?: T;
+  status?: T;
+  estimatedCost?: T;
+  durationMs?: T;
+  error?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "project-budgets_select".
+ */
+export interface ProjectBudgetsSelect<T extends boolean = true> {
+  projectId?: T;
+  limit?: T;
+  period?: T;
+  whenExceeded?: T;
+  notes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "prompt-templates_select".
+ */
+export interface PromptTemplatesSelect<T extends boolean = true> {
+  name?: T;
+  templateKey?: T;
+  version?: T;
+  projectId?: T;
+  shotSlug?: T;
+  status?: T;
+  weight?: T;
+  body?: T;
+  notes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "style-presets_select".
+ */
+export interface StylePresetsSelect<T extends boolean = true> {
+  name?: T;
+  slug?: T;
+  projectIds?: T;
+  isActive?: T;
+  positivePrompt?: T;
+  negativePrompt?: T;
+  lighting?: T;
+  colorPalette?: T;
+  filmStock?: T;
+  steps?: T;
+  guidance?: T;
+  strength?: T;
+  description?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "scene-analysis-rules_select".
+ */
+export interface SceneAnalysisRulesSelect<T extends boolean = true> {
+  name?: T;
+  projectId?: T;
+  isActive?: T;
+  rules?: T;
+  notes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "reference-ranking-profiles_select".
+ */
+export interface ReferenceRankingProfilesSelect<T extends boolean = true> {
+  name?: T;
+  projectId?: T;
+  isActive?: T;
+  weights?:
+    | T
+    | {
+        sceneType?: T;
+        lens?: T;
+        crop?: T;
+        angle?: T;
+        expression?: T;
+        composition?: T;
+        quality?: T;
+        source?: T;
+        outfit?: T;
+        tags?: T;
+      };
+  notes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -13,6 +13,15 @@ import { Media } from './collections/Media'
 import { Characters } from './collections/Characters'
 import { ReferenceShots } from './collections/ReferenceShots'
 import ImageGenerationJobs from './collections/ImageGenerationJobs'
+import { ApiKeys } from './collections/ApiKeys'
+import { GenerationUsage } from './collections/GenerationUsage'
+import { ProjectBudgets } from './collections/ProjectBudgets'
+import { PromptTemplates } from './collections/PromptTemplates'
+import { StylePresets } from './collections/StylePresets'
+import { SceneAnalysisRules } from './collections/SceneAnalysisRules'
+import { ReferenceRankingProfiles } from './collections/ReferenceRankingProfiles'
+import { BackgroundJobService } from './services/BackgroundJobService'
+import { ensureAdminUser } from './lib/utils/api-auth'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
@@ -48,7 +57,20 @@ export default buildConfig({
       baseDir: path.resolve(dirname),
     },
   },
-  collections: [Users, Media, Characters, ReferenceShots, ImageGenerationJobs],
+  collections: [
+    Users,
+    Media,
+    Characters,
+    ReferenceShots,
+    ImageGenerationJobs,
+    ApiKeys,
+    GenerationUsage,
+    ProjectBudgets,
+    PromptTemplates,
+    StylePresets,
+    SceneAnalysisRules,
+    ReferenceRankingProfiles,
+  ],
   editor: lexicalEditor(),
   secret: process.env.PAYLOAD_SECRET || '',
   typescript: {
@@ -58,6 +80,13 @@ export default buildConfig({
     url: process.env.DATABASE_URI || '',
   }),
   sharp,
+  onInit: async (payload) => {
+    // Installs that predate user roles need one admin to hand out the others
+    await ensureAdminUser(payload)
+
+    // Resume the durable job queue (requeues jobs orphaned by a restart)
+    await BackgroundJobService.getInstance().startWorker(payload)
+  },
   plugins: [
     payloadCloudPlugin(),
     s3Adapter,
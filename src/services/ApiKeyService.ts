@@ -0,0 +1,233 @@
+/**
+ * API Key Service
+ *
+ * Issues, verifies and revokes API keys tied to users. Only a SHA-256 hash of
+ * each key is stored; the plaintext is returned once, at creation. Keys carry
+ * scopes and an optional list of Novel Movie project IDs they are limited to.
+ * Verification runs as a Payload auth strategy, so keys work for /api/v1
+ * routes and the Payload REST API alike.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+import type { AuthStrategy } from 'payload'
+import { API_AUTH_CONFIG, API_SCOPES, ApiScope } from '../lib/config/api-auth'
+
+export interface ApiKeyGrant {
+  id: string
+  prefix: string
+  scopes: ApiScope[]
+  projectIds: string[]
+}
+
+export interface CreateApiKeyOptions {
+  userId: string
+  name: string
+  scopes: ApiScope[]
+  projectIds?: string[]
+  expiresAt?: string
+}
+
+export interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string
+  user: string
+  scopes: ApiScope[]
+  projectIds: string[]
+  expiresAt: string | null
+  revokedAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+export interface GeneratedApiKey {
+  key: string
+  prefix: string
+  keyHash: string
+}
+
+export class ApiKeyService {
+  /**
+   * Generate a new key: clk_<8 hex prefix>_<secret>
+   */
+  generateKey(): GeneratedApiKey {
+    const prefix = `${API_AUTH_CONFIG.keyPrefix}_${randomBytes(4).toString('hex')}`
+    const key = `${prefix}_${randomBytes(24).toString('base64url')}`
+    return { key, prefix, keyHash: this.hashKey(key) }
+  }
+
+  hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex')
+  }
+
+  /**
+   * Create a key for a user and return its plaintext once
+   */
+  async createKey(payload: any, options: CreateApiKeyOptions): Promise<{ key: string; doc: any }> {
+    const invalid = options.scopes.filter((scope) => !API_SCOPES.includes(scope))
+    if (invalid.length > 0) {
+      throw new Error(`Unknown scopes: ${invalid.join(', ')}`)
+    }
+
+    const generated = this.generateKey()
+    const doc = await payload.create({
+      collection: 'api-keys',
+      data: {
+        name: options.name,
+        user: options.userId,
+        prefix: generated.prefix,
+        keyHash: generated.keyHash,
+        scopes: options.scopes,
+        projectIds: options.projectIds || [],
+        expiresAt: options.expiresAt,
+      },
+    })
+
+    console.log(`🔑 Created API key ${generated.prefix} for user ${options.userId}`)
+
+    return { key: generated.key, doc }
+  }
+
+  /**
+   * List keys, optionally for a single user, without their hashes
+   */
+  async listKeys(payload: any, userId?: string): Promise<ApiKeySummary[]> {
+    const result = await payload.find({
+      collection: 'api-keys',
+      where: userId ? { user: { equals: userId } } : {},
+      sort: '-createdAt',
+      limit: 500,
+      depth: 0,
+    })
+    return result.docs.map((doc: any) => this.toSummary(doc))
+  }
+
+  toSummary(doc: any): ApiKeySummary {
+    return {
+      id: String(doc.id),
+      name: doc.name,
+      prefix: doc.prefix,
+      user: String(typeof doc.user === 'object' ? doc.user?.id : doc.user),
+      scopes: doc.scopes || [],
+      projectIds: doc.projectIds || [],
+      expiresAt: doc.expiresAt || null,
+      revokedAt: doc.revokedAt || null,
+      lastUsedAt: doc.lastUsedAt || null,
+      createdAt: doc.createdAt,
+    }
+  }
+
+  /**
+   * Revoke a key; revoked keys stay listed for auditing
+   */
+  async revokeKey(payload: any, id: string): Promise<any> {
+    return payload.update({
+      collection: 'api-keys',
+      id,
+      data: { revokedAt: new Date().toISOString() },
+    })
+  }
+
+  /**
+   * Resolve a plaintext key to its user and grant, or null if invalid, revoked or expired
+   */
+  async verifyKey(payload: any, key: string): Promise<{ user: any; grant: ApiKeyGrant } | null> {
+    const match = key.match(new RegExp(`^(${API_AUTH_CONFIG.keyPrefix}_[a-f0-9]{8})_[A-Za-z0-9_-]+$`))
+    if (!match) return null
+
+    const result = await payload.find({
+      collection: 'api-keys',
+      where: { prefix: { equals: match[1] } },
+      limit: 1,
+      depth: 0,
+      overrideAccess: true,
+      showHiddenFields: true,
+    })
+    const doc = result.docs[0]
+    if (!doc?.keyHash) return null
+
+    const expected = Buffer.from(doc.keyHash, 'hex')
+    const actual = Buffer.from(this.hashKey(key), 'hex')
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+    if (doc.revokedAt) return null
+    if (doc.expiresAt && new Date(doc.expiresAt) <= new Date()) return null
+
+    const userId = typeof doc.user === 'object' ? doc.user?.id : doc.user
+    let user: any
+    try {
+      user = await payload.findByID({ collection: 'users', id: userId, depth: 0, overrideAccess: true })
+    } catch {
+      return null
+    }
+    if (!user) return null
+
+    this.touchKey(payload, doc)
+
+    return {
+      user,
+      grant: {
+        id: String(doc.id),
+        prefix: doc.prefix,
+        scopes: doc.scopes || [],
+        projectIds: doc.projectIds || [],
+      },
+    }
+  }
+
+  /**
+   * Read a key from X-API-Key or an `Authorization: Bearer clk_...` header
+   */
+  extractKey(headers: Headers): string | null {
+    const headerKey = headers.get(API_AUTH_CONFIG.headerName)
+    if (headerKey) return headerKey.trim()
+
+    const authorization = headers.get('authorization') || ''
+    const [scheme, value] = authorization.split(' ')
+    if (scheme?.toLowerCase() === 'bearer' && value?.startsWith(`${API_AUTH_CONFIG.keyPrefix}_`)) {
+      return value.trim()
+    }
+
+    return null
+  }
+
+  /**
+   * Payload auth strategy; the grant is attached to the user as `apiKey`
+   */
+  getAuthStrategy(): AuthStrategy {
+    return {
+      name: 'api-key',
+      authenticate: async ({ headers, payload }) => {
+        const key = this.extractKey(headers)
+        if (!key) return { user: null }
+
+        const verified = await this.verifyKey(payload, key)
+        if (!verified) return { user: null }
+
+        return {
+          user: {
+            ...verified.user,
+            collection: 'users',
+            _strategy: 'api-key',
+            apiKey: verified.grant,
+          },
+        }
+      },
+    }
+  }
+
+  private touchKey(payload: any, doc: any): void {
+    const lastUsed = doc.lastUsedAt ? new Date(doc.lastUsedAt).getTime() : 0
+    if (Date.now() - lastUsed < API_AUTH_CONFIG.touchIntervalMs) return
+
+    // Fire and forget: usage tracking must not slow down or fail the request
+    payload.update({
+      collection: 'api-keys',
+      id: doc.id,
+      data: { lastUsedAt: new Date().toISOString() },
+      overrideAccess: true,
+    }).catch((error: unknown) => console.warn(`Could not update lastUsedAt for API key ${doc.prefix}:`, error))
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService()
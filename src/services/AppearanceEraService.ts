@@ -0,0 +1,156 @@
+/**
+ * Appearance Era Service
+ *
+ * Reads a character's appearance eras (child, young adult, elderly, ...), picks
+ * the era for a request (explicit eraId, or the era covering a story year) and
+ * applies the era's age and appearance changes to prompt data.
+ *
+ * Gallery images carry the eraId they were generated in; images without one
+ * belong to the character's base look.
+ */
+
+export interface AppearanceEra {
+  eraId: string
+  name: string
+  age?: number | null
+  fromYear?: number | null // Open-ended when empty
+  toYear?: number | null
+  physicalDescriptionDelta: string
+  // Media ID and DINO asset ID of the era's master reference
+  masterReferenceImageId: string | null
+  masterReferenceAssetId: string | null
+}
+
+/**
+ * Era summary returned by search and generation routes
+ */
+export interface EraSummary {
+  eraId: string
+  name: string
+}
+
+export class AppearanceEraService {
+  /**
+   * All eras of a character; the master reference asset ID is read from populated media when available
+   */
+  getEras(character: any): AppearanceEra[] {
+    return (character?.eras || [])
+      .filter((item: any) => item?.eraId)
+      .map((item: any) => {
+        const master = item.masterReferenceImage
+        return {
+          eraId: item.eraId,
+          name: item.name || item.eraId,
+          age: item.age ?? null,
+          fromYear: item.fromYear ?? null,
+          toYear: item.toYear ?? null,
+          physicalDescriptionDelta: item.physicalDescriptionDelta || '',
+          masterReferenceImageId: master ? String(typeof master === 'object' ? master.id : master) : null,
+          masterReferenceAssetId: (typeof master === 'object' && master?.dinoAssetId) || null,
+        }
+      })
+  }
+
+  findEra(character: any, eraId: string): AppearanceEra | null {
+    return this.getEras(character).find((era) => era.eraId === eraId) || null
+  }
+
+  /**
+   * Era whose story years include a year
+   */
+  getEraForYear(character: any, storyYear: number): AppearanceEra | null {
+    return (
+      this.getEras(character).find(
+        (era) =>
+          (era.fromYear != null || era.toYear != null) &&
+          (era.fromYear == null || storyYear >= era.fromYear) &&
+          (era.toYear == null || storyYear <= era.toYear)
+      ) || null
+    )
+  }
+
+  /**
+   * Era for a request: an explicit eraId wins over the story year.
+   * Returns undefined when an explicit eraId is not on the character, and null
+   * when no era applies (the base look is used).
+   */
+  selectEra(
+    character: any,
+    request: { eraId?: string | null; storyYear?: number | null }
+  ): AppearanceEra | null | undefined {
+    if (request.eraId) {
+      return this.findEra(character, request.eraId) || undefined
+    }
+    if (typeof request.storyYear === 'number') {
+      return this.getEraForYear(character, request.storyYear)
+    }
+    return null
+  }
+
+  /**
+   * Whether a gallery image belongs to an era (null for the base look)
+   */
+  isInEra(image: any, era: AppearanceEra | null | undefined): boolean {
+    return (image?.eraId || null) === (era?.eraId || null)
+  }
+
+  /**
+   * Character data for prompts with the era's age and appearance changes applied
+   */
+  applyToCharacterData<T extends { age?: number | null; physicalDescription?: string | null }>(
+    characterData: T,
+    era: AppearanceEra | null | undefined
+  ): T & { era?: EraSummary } {
+    if (!era) return characterData
+
+    const description = [characterData.physicalDescription, era.physicalDescriptionDelta]
+      .map((part) => (typeof part === 'string' ? part.trim() : ''))
+      .filter(Boolean)
+      .join('. ')
+
+    return {
+      ...characterData,
+      age: era.age ?? characterData.age,
+      physicalDescription: description,
+      era: this.toSummary(era)!,
+    }
+  }
+
+  toSummary(era: AppearanceEra | null | undefined): EraSummary | null {
+    if (!era) return null
+    return { eraId: era.eraId, name: era.name }
+  }
+
+  /**
+   * Validate era rows: unique era IDs and non-overlapping story years
+   */
+  validateEras(eras: any[] | null | undefined): true | string {
+    const seen = new Set<string>()
+    const ranged: Array<{ eraId: string; from: number; to: number }> = []
+
+    for (const item of eras || []) {
+      if (!item?.eraId) continue
+      if (seen.has(item.eraId)) {
+        return `Era ID "${item.eraId}" is used more than once`
+      }
+      seen.add(item.eraId)
+
+      if (item.fromYear == null && item.toYear == null) continue
+      if (item.fromYear != null && item.toYear != null && item.toYear < item.fromYear) {
+        return `Era "${item.eraId}" ends before it starts`
+      }
+
+      const range = { eraId: item.eraId, from: item.fromYear ?? -Infinity, to: item.toYear ?? Infinity }
+      const overlap = ranged.find((other) => range.from <= other.to && other.from <= range.to)
+      if (overlap) {
+        return `Eras "${overlap.eraId}" and "${item.eraId}" cover the same story years`
+      }
+      ranged.push(range)
+    }
+
+    return true
+  }
+}
+
+// Export singleton instance
+export const appearanceEraService = new AppearanceEraService()
@@ -1,12 +1,26 @@
 /**
  * Background Job Processing Service
  * 
- * Handles async image generation jobs with progress tracking
+ * Handles async image generation jobs with progress tracking.
+ * Jobs are persisted in the image-generation-jobs collection and processed by a
+ * queue worker that claims them with leases, so work survives server restarts.
  */
 
+import { v4 as uuidv4 } from 'uuid'
+import { hostname } from 'os'
 import { CoreSetGenerationService } from './CoreSetGenerationService'
-import { EnhancedCoreSetGenerationService } from './EnhancedCoreSetGenerationService'
+import { EnhancedCoreSetGenerationService, EnhancedGeneratedImageResult } from './EnhancedCoreSetGenerationService'
+import { jobQueueService, ClaimedJob } from './JobQueueService'
+import { webhookService, WebhookSettings } from './WebhookService'
+import { jobEventService } from './JobEventService'
+import { wardrobeService } from './WardrobeService'
+import { appearanceEraService } from './AppearanceEraService'
+import { expressionSheetService, ExpressionFrameResult } from './ExpressionSheetService'
+import { batchSceneGenerationService, SceneProgress, SceneShotResult } from './BatchSceneGenerationService'
 import { ImageGenerationJob } from '../collections/ImageGenerationJobs'
+import { JOB_QUEUE_CONFIG } from '../lib/config/job-queue'
+
+export type JobType = ImageGenerationJob['jobType']
 
 export interface JobProgress {
   current: number
@@ -17,32 +31,85 @@ export interface JobProgress {
 
 export interface JobResult {
   success: boolean
-  generatedImages?: Array<{
-    url: string
-    angle: string
-    quality: number
-    dinoAssetId?: string
-    mediaId?: string
-  }>
-  failedImages?: Array<{
-    angle: string
-    error: string
-    attempts: number
-  }>
+  generatedImages?: JobGeneratedImage[]
+  failedImages?: JobFailedImage[]
   totalAttempts?: number
   processingTime?: number
+  sheet?: {
+    mediaId: string
+    url?: string
+  }
+  scenes?: SceneProgress[]
+  skippedShots?: number
+  partial?: boolean
   error?: string
 }
 
+export interface JobGeneratedImage {
+  url: string
+  angle: string
+  quality: number
+  dinoAssetId?: string
+  mediaId?: string
+  referenceShotId?: string
+  expression?: string
+  sceneId?: string
+  characterId?: string
+  shotType?: string
+}
+
+export interface JobFailedImage {
+  angle: string
+  error: string
+  attempts: number
+  referenceShotId?: string
+  expression?: string
+  sceneId?: string
+  characterId?: string
+  shotType?: string
+}
+
+const RESUMABLE_STATUSES = ['failed', 'cancelled']
+
+export interface EnqueueJobOptions {
+  characterId: string
+  jobType: JobType
+  requestData: any
+  total: number
+  maxAttempts?: number
+  webhook?: WebhookSettings
+  // Defaults to the character's Novel Movie project
+  projectId?: string | null
+  // Over-budget jobs wait in awaiting_approval until approveJob is called
+  budgetApproval?: BudgetApprovalRequest
+}
+
+export interface BudgetApprovalRequest {
+  estimatedCost: number
+  spent: number
+  limit: number
+}
+
+interface ActiveJob {
+  jobType: JobType
+  controller: AbortController
+}
+
 export class BackgroundJobService {
   private static instance: BackgroundJobService
   private coreSetService: CoreSetGenerationService
   private enhancedCoreSetService: EnhancedCoreSetGenerationService
-  private activeJobs: Map<string, boolean> = new Map()
+  private activeJobs: Map<string, ActiveJob> = new Map()
+  private workerId: string
+  private payload: any = null
+  private pollTimer: NodeJS.Timeout | null = null
+  private lastStaleSweep = 0
+  private polling = false
 
   constructor() {
     this.coreSetService = new CoreSetGenerationService()
     this.enhancedCoreSetService = new EnhancedCoreSetGenerationService()
+    this.workerId = `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`
   }
 
   static getInstance(): BackgroundJobService {
@@ -53,28 +120,193 @@ export class BackgroundJobService {
   }
 
   /**
-   * Start a background job for image generation
+   * Persist a new job in the queue and wake up the worker
    */
-  async startJob(
-    jobId: string,
-    characterId: string,
-    jobType: 'core-set' | '360-set',
-    requestData: any,
-    payload: any
-  ): Promise<void> {
-    if (this.activeJobs.has(jobId)) {
-      console.warn(`Job ${jobId} is already running`)
+  async enqueueJob(payload: any, options: EnqueueJobOptions): Promise<ImageGenerationJob> {
+    const jobId = uuidv4()
+    const now = new Date().toISOString()
+    const projectId = options.projectId !== undefined
+      ? options.projectId
+      : await this.getCharacterProjectId(payload, options.characterId)
+
+    const job = await payload.create({
+      collection: 'image-generation-jobs',
+      data: {
+        jobId,
+        characterId: options.characterId,
+        ...(projectId && { projectId }),
+        jobType: options.jobType,
+        status: options.budgetApproval ? 'awaiting_approval' : 'pending',
+        progress: {
+          current: 0,
+          total: options.total,
+          percentage: 0,
+          currentTask: options.budgetApproval ? 'Awaiting budget approval' : 'Queued',
+        },
+        requestData: options.requestData,
+        attempts: 0,
+        maxAttempts: options.maxAttempts || JOB_QUEUE_CONFIG.maxAttempts,
+        availableAt: now,
+        ...(options.webhook && { webhook: options.webhook }),
+        ...(options.budgetApproval && { budgetApproval: options.budgetApproval }),
+      },
+    })
+
+    if (options.budgetApproval) {
+      console.log(`💸 Job ${jobId} (${options.jobType}) exceeds the project budget and awaits approval`)
+      return job
+    }
+
+    console.log(`📥 Queued job ${jobId} (${options.jobType}) for character ${options.characterId}`)
+
+    await this.startWorker(payload)
+    this.triggerPoll()
+
+    return job
+  }
+
+  private async getCharacterProjectId(payload: any, characterId: string): Promise<string | null> {
+    try {
+      const character = await payload.findByID({ collection: 'characters', id: characterId, depth: 0 })
+      return character?.novelMovieIntegration?.projectId || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Start the queue worker for this process
+   * Requeues stale jobs left behind by crashed or restarted workers before polling.
+   */
+  async startWorker(payload: any): Promise<void> {
+    if (!JOB_QUEUE_CONFIG.enabled || this.pollTimer) {
       return
     }
 
-    this.activeJobs.set(jobId, true)
-    console.log(`🚀 Starting background job: ${jobId} (${jobType})`)
+    this.payload = payload
+    this.pollTimer = setInterval(() => this.triggerPoll(), JOB_QUEUE_CONFIG.pollIntervalMs)
+    this.pollTimer.unref?.()
+
+    console.log(`👷 Job queue worker ${this.workerId} started (concurrency: ${JOB_QUEUE_CONFIG.concurrency})`)
+
+    await this.sweepStaleJobs()
+    this.triggerPoll()
+  }
+
+  /**
+   * Stop polling for new jobs (running jobs are left to finish)
+   */
+  stopWorker(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+  }
+
+  /**
+   * Run a poll cycle without blocking the caller
+   */
+  private triggerPoll(): void {
+    this.poll().catch((error) => {
+      console.error('Job queue poll failed:', error)
+    })
+  }
+
+  /**
+   * Claim jobs until the concurrency limits are reached
+   */
+  private async poll(): Promise<void> {
+    if (!this.payload || this.polling) {
+      return
+    }
+
+    this.polling = true
+
+    try {
+      if (Date.now() - this.lastStaleSweep >= JOB_QUEUE_CONFIG.staleSweepIntervalMs) {
+        await this.sweepStaleJobs()
+      }
+
+      while (this.activeJobs.size < JOB_QUEUE_CONFIG.concurrency) {
+        const claimed = await jobQueueService.claimNextJob(
+          this.payload,
+          this.workerId,
+          this.getClaimableJobTypes(),
+        )
+
+        if (!claimed) {
+          break
+        }
+
+        this.runJob(claimed, this.payload).catch((error) => {
+          console.error(`Job ${claimed.jobId} crashed:`, error)
+        })
+      }
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Requeue jobs with expired leases
+   */
+  private async sweepStaleJobs(): Promise<void> {
+    this.lastStaleSweep = Date.now()
+
+    try {
+      const { requeued, failed } = await jobQueueService.requeueStaleJobs(this.payload)
+      if (requeued > 0 || failed > 0) {
+        console.log(`♻️  Stale job sweep: ${requeued} requeued, ${failed} failed`)
+      }
+    } catch (error) {
+      console.error('Stale job sweep failed:', error)
+    }
+  }
+
+  /**
+   * Job types that still have free capacity on this worker
+   */
+  private getClaimableJobTypes(): JobType[] {
+    const jobTypes: JobType[] = ['core-set', '360-set', 'expression-sheet', 'batch-scenes']
+
+    return jobTypes.filter((jobType) => {
+      const limit = JOB_QUEUE_CONFIG.typeConcurrency[jobType]
+      if (!limit) return true
+
+      const running = Array.from(this.activeJobs.values()).filter((job) => job.jobType === jobType).length
+      return running < limit
+    })
+  }
+
+  /**
+   * Run a claimed job while keeping its lease alive
+   */
+  private async runJob(job: ClaimedJob, payload: any): Promise<void> {
+    const { jobId, characterId, requestData } = job
+    const jobType = job.jobType as JobType
+    const controller = new AbortController()
+
+    this.activeJobs.set(jobId, { jobType, controller })
+    console.log(`🚀 Starting background job: ${jobId} (${jobType}, attempt ${job.attempts}/${job.maxAttempts})`)
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const stillOwned = await jobQueueService.extendLease(payload, jobId, this.workerId)
+        if (!stillOwned) {
+          console.warn(`Lost lease for job ${jobId}, stopping`)
+          controller.abort()
+        }
+      } catch (error) {
+        console.error(`Heartbeat failed for job ${jobId}:`, error)
+      }
+    }, JOB_QUEUE_CONFIG.heartbeatIntervalMs)
+    heartbeat.unref?.()
 
     try {
       // Update job status to processing
       await this.updateJobStatus(jobId, 'processing', payload, {
         current: 0,
-        total: requestData.imageCount || 27,
+        total: this.getJobTotal(jobType, requestData),
         percentage: 0,
         currentTask: 'Initializing...'
       })
@@ -82,48 +314,101 @@ export class BackgroundJobService {
       let result: JobResult
 
       if (jobType === 'core-set') {
-        result = await this.processCoreSetJob(jobId, characterId, requestData, payload)
+        result = await this.processCoreSetJob(jobId, characterId, requestData, payload, controller.signal)
+      } else if (jobType === 'expression-sheet') {
+        result = await this.processExpressionSheetJob(jobId, characterId, requestData, payload, controller.signal)
+      } else if (jobType === 'batch-scenes') {
+        result = await this.processBatchScenesJob(jobId, requestData, payload, controller.signal)
       } else {
-        result = await this.process360SetJob(jobId, characterId, requestData, payload)
+        result = await this.process360SetJob(jobId, characterId, requestData, payload, controller.signal)
       }
 
-      // Update job with results
+      if (!(await this.ownsJob(jobId, payload, controller))) {
+        return
+      }
+
+      // Update job with results, keeping the total the process step reported
       if (result.success) {
+        const progress = (await this.getJobStatus(jobId, payload))?.progress
+        const total = progress?.total ?? this.getJobTotal(jobType, requestData)
         await this.updateJobStatus(jobId, 'completed', payload, {
-          current: requestData.imageCount || 27,
-          total: requestData.imageCount || 27,
+          current: total,
+          total,
           percentage: 100,
           currentTask: 'Completed'
         }, result)
       } else {
-        await this.updateJobStatus(jobId, 'failed', payload, undefined, undefined, result.error)
+        await this.failOrRetry(job, payload, result.error || 'Unknown error')
       }
 
     } catch (error) {
       console.error(`❌ Job ${jobId} failed:`, error)
-      await this.updateJobStatus(
-        jobId, 
-        'failed', 
-        payload, 
-        undefined, 
-        undefined, 
-        error instanceof Error ? error.message : 'Unknown error'
-      )
+      if (await this.ownsJob(jobId, payload, controller)) {
+        await this.failOrRetry(job, payload, error instanceof Error ? error.message : 'Unknown error')
+      }
     } finally {
+      clearInterval(heartbeat)
       this.activeJobs.delete(jobId)
-      console.log(`✅ Job ${jobId} completed`)
+      console.log(`✅ Job ${jobId} finished`)
+      this.triggerPoll()
+    }
+  }
+
+  /**
+   * Number of images a job plans, shown until its process step reports progress
+   */
+  private getJobTotal(jobType: JobType, requestData: any): number {
+    if (jobType === 'expression-sheet') {
+      return expressionSheetService.resolveExpressions(requestData.expressions).length
+    }
+    if (jobType === 'batch-scenes') {
+      return batchSceneGenerationService.countShots(requestData.scenes || [])
+    }
+    return requestData.imageCount || 27
+  }
+
+  /**
+   * Check that the job was not cancelled or reclaimed while it was running
+   */
+  private async ownsJob(jobId: string, payload: any, controller: AbortController): Promise<boolean> {
+    if (controller.signal.aborted) {
+      return false
     }
+    return jobQueueService.extendLease(payload, jobId, this.workerId)
+  }
+
+  /**
+   * Put a failed job back in the queue with backoff, or fail it for good
+   */
+  private async failOrRetry(job: ClaimedJob, payload: any, error: string): Promise<void> {
+    if (job.attempts < job.maxAttempts) {
+      const delay = jobQueueService.getRetryDelay(job.attempts)
+      console.log(`🔁 Job ${job.jobId} will be retried in ${Math.round(delay / 1000)}s`)
+      // Retries pick up from the shots that already succeeded
+      await this.updateJobStatus(job.jobId, 'pending', payload, undefined, undefined, error, {
+        availableAt: new Date(Date.now() + delay).toISOString(),
+        requestData: { ...job.requestData, resume: true },
+      })
+      return
+    }
+
+    await this.updateJobStatus(job.jobId, 'failed', payload, undefined, undefined, error)
   }
 
   /**
    * Process core set generation job
+   * Resumed jobs skip shots already in the job results or the character gallery.
    */
   private async processCoreSetJob(
     jobId: string,
     characterId: string,
     requestData: any,
-    payload: any
+    payload: any,
+    signal?: AbortSignal,
+    jobType: JobType = 'core-set'
   ): Promise<JobResult> {
+    const startTime = Date.now()
+
     try {
       // Get character data
       const character = await payload.findByID({
@@ -136,28 +421,72 @@ export class BackgroundJobService {
         throw new Error('Character not found')
       }
 
-      // Check if character has master reference image
-      const masterRef = typeof character.masterReferenceImage === 'string'
-        ? null
-        : character.masterReferenceImage
+      const era = requestData.eraId ? appearanceEraService.findEra(character, requestData.eraId) : null
+      if (requestData.eraId && !era) {
+        throw new Error(`Era "${requestData.eraId}" is no longer defined for this character`)
+      }
 
-      if (!masterRef?.dinoAssetId) {
-        throw new Error('Character must have a master reference image')
+      // Check if character (or the era) has a master reference image
+      const masterRefAssetId = era
+        ? era.masterReferenceAssetId
+        : typeof character.masterReferenceImage === 'string'
+          ? null
+          : character.masterReferenceImage?.dinoAssetId
+
+      if (!masterRefAssetId) {
+        throw new Error(era ? `Era "${era.name}" must have a master reference image` : 'Character must have a master reference image')
+      }
+
+      // Collect shots produced by earlier runs of this job
+      let previousImages: JobGeneratedImage[] = []
+      let skipReferenceShotIds: string[] = []
+
+      if (requestData.resume) {
+        const existingJob = await this.getJobStatus(jobId, payload)
+        previousImages = (existingJob?.results?.generatedImages || []).filter(
+          (img: JobGeneratedImage) => img.referenceShotId
+        )
+        skipReferenceShotIds = this.getCompletedShotIds(previousImages, character, requestData.outfitId, requestData.eraId)
+        console.log(`⏯️ Resuming job ${jobId}: ${skipReferenceShotIds.length} shots already generated`)
+      }
+
+      const skipped = skipReferenceShotIds.length
+      const generatedImages: JobGeneratedImage[] = [...previousImages]
+      const failedImages: JobFailedImage[] = []
+
+      // Persist each finished shot so a crash or cancellation can be resumed
+      let persistChain: Promise<void> = Promise.resolve()
+      const persistPartialResults = () => {
+        const snapshot: JobResult = {
+          success: false,
+          generatedImages: [...generatedImages],
+          failedImages: [...failedImages],
+          skippedShots: skipped,
+          partial: true,
+        }
+        persistChain = persistChain.then(() => this.updateJobResults(jobId, payload, snapshot))
       }
 
       // Update progress
       await this.updateJobProgress(jobId, payload, {
-        current: 0,
-        total: 27,
+        current: skipped,
+        total: this.getJobTotal(jobType, requestData),
         percentage: 0,
-        currentTask: 'Starting core set generation...'
+        currentTask: skipped > 0
+          ? `Resuming core set generation (${skipped} shots already generated)...`
+          : 'Starting core set generation...'
       })
 
       // Generate core set using enhanced service
+      const outfit = requestData.outfitId ? wardrobeService.findOutfit(character, requestData.outfitId) : null
+      if (requestData.outfitId && !outfit) {
+        throw new Error(`Outfit "${requestData.outfitId}" is no longer in the character's wardrobe`)
+      }
+
       const result = await this.enhancedCoreSetService.generate360CoreSetEnhanced(
         characterId,
-        masterRef.dinoAssetId,
-        character,
+        masterRefAssetId,
+        appearanceEraService.applyToCharacterData({ ...character, outfit: wardrobeService.toPromptOutfit(outfit) }, era),
         payload,
         {
           customSeed: requestData.customSeed,
@@ -166,39 +495,64 @@ export class BackgroundJobService {
           useEnhancedPrompts: true,
           validateCameraParameters: true,
           enhancedQualityThreshold: requestData.qualityThreshold || 80,
+          signal,
+          skipReferenceShotIds,
+          preserveExistingGallery: skipped > 0,
+          usage: {
+            operation: jobType,
+            characterId,
+            projectId: character.novelMovieIntegration?.projectId || null,
+            jobId,
+          },
+          onShotResult: (shot) => {
+            if (shot.success) {
+              generatedImages.push(this.toJobGeneratedImage(shot))
+            } else {
+              failedImages.push(this.toJobFailedImage(shot))
+            }
+            persistPartialResults()
+
+            jobEventService.publish(jobId, {
+              type: 'shot',
+              shotName: shot.referenceShot?.shotName || 'Unknown shot',
+              status: shot.success ? 'generated' : 'failed',
+              qualityScore: shot.qualityScore,
+              consistencyScore: shot.consistencyScore,
+              mediaId: shot.imageId,
+              dinoAssetId: shot.dinoAssetId,
+              error: shot.error,
+              attempts: shot.attempts,
+            })
+          },
         },
         // Progress callback
         async (current: number, total: number, currentTask: string) => {
           await this.updateJobProgress(jobId, payload, {
-            current,
-            total,
-            percentage: Math.round((current / total) * 100),
+            current: current + skipped,
+            total: total + skipped,
+            percentage: Math.round(((current + skipped) / (total + skipped)) * 100),
             currentTask
           })
         }
       )
 
+      await persistChain
+
       if (!result.success) {
         throw new Error(result.error || 'Core set generation failed')
       }
 
-      // Convert result to job format
+      // Convert result to job format, keeping shots from earlier runs
       return {
         success: true,
-        generatedImages: result.generatedImages.map(img => ({
-          url: `https://media.rumbletv.com/media/${img.imageId}`, // Construct URL
-          angle: img.referenceShot.shotName,
-          quality: img.qualityScore,
-          dinoAssetId: img.dinoAssetId,
-          mediaId: img.imageId,
-        })),
-        failedImages: result.failedImages.map(fail => ({
-          angle: fail.referenceShot.shotName,
-          error: fail.error,
-          attempts: fail.attempts,
-        })),
+        generatedImages: [
+          ...previousImages,
+          ...result.generatedImages.map(img => this.toJobGeneratedImage({ ...img, success: true })),
+        ],
+        failedImages: result.failedImages.map(fail => this.toJobFailedImage({ ...fail, success: false })),
         totalAttempts: result.totalAttempts,
-        processingTime: Date.now() - Date.parse(new Date().toISOString()), // Approximate
+        processingTime: Date.now() - startTime,
+        skippedShots: skipped,
       }
 
     } catch (error) {
@@ -209,6 +563,59 @@ export class BackgroundJobService {
     }
   }
 
+  /**
+   * Reference shot IDs already generated, from the job results and the character gallery
+   * Gallery images only count when they were generated in the same outfit and era.
+   */
+  private getCompletedShotIds(
+    previousImages: JobGeneratedImage[],
+    character: any,
+    outfitId?: string,
+    eraId?: string
+  ): string[] {
+    const shotIds = new Set<string>()
+
+    for (const img of previousImages) {
+      if (img.referenceShotId) {
+        shotIds.add(img.referenceShotId)
+      }
+    }
+
+    for (const item of character.imageGallery || []) {
+      const shotId = typeof item.referenceShot === 'object' ? item.referenceShot?.id : item.referenceShot
+      if (
+        shotId &&
+        item.imageFile &&
+        (item.outfitId || null) === (outfitId || null) &&
+        (item.eraId || null) === (eraId || null)
+      ) {
+        shotIds.add(shotId)
+      }
+    }
+
+    return Array.from(shotIds)
+  }
+
+  private toJobGeneratedImage(img: EnhancedGeneratedImageResult): JobGeneratedImage {
+    return {
+      url: `https://media.rumbletv.com/media/${img.imageId}`, // Construct URL
+      angle: img.referenceShot?.shotName,
+      quality: img.qualityScore || 0,
+      dinoAssetId: img.dinoAssetId,
+      mediaId: img.imageId,
+      referenceShotId: img.referenceShot?.id,
+    }
+  }
+
+  private toJobFailedImage(fail: EnhancedGeneratedImageResult): JobFailedImage {
+    return {
+      angle: fail.referenceShot?.shotName,
+      error: fail.error || 'Unknown error',
+      attempts: fail.attempts || 1,
+      referenceShotId: fail.referenceShot?.id,
+    }
+  }
+
   /**
    * Process 360 set generation job
    */
@@ -216,11 +623,331 @@ export class BackgroundJobService {
     jobId: string,
     characterId: string,
     requestData: any,
-    payload: any
+    payload: any,
+    signal?: AbortSignal
   ): Promise<JobResult> {
     // This would implement the 360-set generation logic
     // For now, we'll use the same core set logic
-    return this.processCoreSetJob(jobId, characterId, requestData, payload)
+    return this.processCoreSetJob(jobId, characterId, requestData, payload, signal, '360-set')
+  }
+
+  /**
+   * Process expression sheet job
+   * Resumed jobs keep the frames that already passed QA and only generate the rest.
+   */
+  private async processExpressionSheetJob(
+    jobId: string,
+    characterId: string,
+    requestData: any,
+    payload: any,
+    signal?: AbortSignal
+  ): Promise<JobResult> {
+    const startTime = Date.now()
+
+    try {
+      const character = await payload.findByID({
+        collection: 'characters',
+        id: characterId,
+        depth: 2,
+      })
+
+      if (!character) {
+        throw new Error('Character not found')
+      }
+
+      const era = requestData.eraId ? appearanceEraService.findEra(character, requestData.eraId) : null
+      if (requestData.eraId && !era) {
+        throw new Error(`Era "${requestData.eraId}" is no longer defined for this character`)
+      }
+
+      // Populated media of the master reference (or the era's), for its asset ID and URL
+      const master = era
+        ? (character.eras || []).find((item: any) => item.eraId === era.eraId)?.masterReferenceImage
+        : character.masterReferenceImage
+      const masterRefAssetId = era
+        ? era.masterReferenceAssetId
+        : typeof master === 'string'
+          ? null
+          : master?.dinoAssetId
+
+      if (!masterRefAssetId) {
+        throw new Error(era ? `Era "${era.name}" must have a master reference image` : 'Character must have a master reference image')
+      }
+
+      const outfit = requestData.outfitId ? wardrobeService.findOutfit(character, requestData.outfitId) : null
+      if (requestData.outfitId && !outfit) {
+        throw new Error(`Outfit "${requestData.outfitId}" is no longer in the character's wardrobe`)
+      }
+
+      // Frames produced by earlier runs of this job
+      let previousImages: JobGeneratedImage[] = []
+      if (requestData.resume) {
+        const existingJob = await this.getJobStatus(jobId, payload)
+        previousImages = (existingJob?.results?.generatedImages || []).filter(
+          (img: JobGeneratedImage) => img.expression && img.mediaId
+        )
+        console.log(`⏯️ Resuming job ${jobId}: ${previousImages.length} expressions already generated`)
+      }
+
+      const generatedImages: JobGeneratedImage[] = [...previousImages]
+      const failedImages: JobFailedImage[] = []
+      const total = expressionSheetService.resolveExpressions(requestData.expressions).length
+
+      let persistChain: Promise<void> = Promise.resolve()
+
+      const result = await expressionSheetService.generateSheet(
+        character,
+        masterRefAssetId,
+        appearanceEraService.applyToCharacterData({ ...character, outfit: wardrobeService.toPromptOutfit(outfit) }, era),
+        payload,
+        {
+          expressions: requestData.expressions,
+          baseShotSlug: requestData.baseShotSlug,
+          masterReferenceUrl: typeof master === 'object' ? master?.url : undefined,
+          qualityThreshold: requestData.qualityThreshold,
+          maxRetries: requestData.maxRetries || 3,
+          customSeed: requestData.customSeed,
+          signal,
+          previousFrames: previousImages.map((img) => ({
+            expression: img.expression!,
+            label: img.angle,
+            success: true,
+            mediaId: img.mediaId,
+            url: img.url,
+            dinoAssetId: img.dinoAssetId,
+            qualityScore: img.quality,
+            attempts: 0,
+          })),
+          usage: {
+            operation: 'expression-sheet',
+            characterId,
+            projectId: character.novelMovieIntegration?.projectId || null,
+            jobId,
+          },
+          // Persist each finished frame so a crash or cancellation can be resumed
+          onFrameResult: (frame) => {
+            if (frame.success) {
+              generatedImages.push(this.toJobExpressionImage(frame))
+            } else {
+              failedImages.push({
+                angle: frame.label,
+                error: frame.error || 'Unknown error',
+                attempts: frame.attempts,
+                expression: frame.expression,
+              })
+            }
+            const snapshot: JobResult = {
+              success: false,
+              generatedImages: [...generatedImages],
+              failedImages: [...failedImages],
+              skippedShots: previousImages.length,
+              partial: true,
+            }
+            persistChain = persistChain.then(() => this.updateJobResults(jobId, payload, snapshot))
+
+            jobEventService.publish(jobId, {
+              type: 'shot',
+              shotName: frame.label,
+              status: frame.success ? 'generated' : 'failed',
+              qualityScore: frame.qualityScore,
+              consistencyScore: frame.consistencyScore,
+              mediaId: frame.mediaId,
+              dinoAssetId: frame.dinoAssetId,
+              error: frame.error,
+              attempts: frame.attempts,
+            })
+          },
+        },
+        async (current: number, _total: number, currentTask: string) => {
+          await this.updateJobProgress(jobId, payload, {
+            current,
+            total,
+            percentage: Math.round((current / total) * 100),
+            currentTask,
+          })
+        }
+      )
+
+      await persistChain
+
+      if (!result.success) {
+        throw new Error(result.error || 'Expression sheet generation failed')
+      }
+
+      return {
+        success: true,
+        generatedImages: result.frames.map((frame) => this.toJobExpressionImage(frame)),
+        failedImages: result.failedFrames.map((frame) => ({
+          angle: frame.label,
+          error: frame.error || 'Unknown error',
+          attempts: frame.attempts,
+          expression: frame.expression,
+        })),
+        sheet: result.sheet && { mediaId: result.sheet.mediaId, url: result.sheet.url },
+        totalAttempts: result.totalAttempts,
+        processingTime: Date.now() - startTime,
+        skippedShots: previousImages.length,
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private toJobExpressionImage(frame: ExpressionFrameResult): JobGeneratedImage {
+    return {
+      url: frame.url || `https://media.rumbletv.com/media/${frame.mediaId}`,
+      angle: frame.label,
+      quality: frame.qualityScore || 0,
+      dinoAssetId: frame.dinoAssetId,
+      mediaId: frame.mediaId,
+      expression: frame.expression,
+    }
+  }
+
+  /**
+   * Process batch scene job
+   * Resumed jobs skip the scene shots that were already generated.
+   */
+  private async processBatchScenesJob(
+    jobId: string,
+    requestData: any,
+    payload: any,
+    signal?: AbortSignal
+  ): Promise<JobResult> {
+    const startTime = Date.now()
+
+    try {
+      let previousImages: JobGeneratedImage[] = []
+      if (requestData.resume) {
+        const existingJob = await this.getJobStatus(jobId, payload)
+        previousImages = (existingJob?.results?.generatedImages || []).filter(
+          (img: JobGeneratedImage) => img.sceneId && img.characterId && img.shotType
+        )
+        console.log(`⏯️ Resuming job ${jobId}: ${previousImages.length} scene shots already generated`)
+      }
+
+      const generatedImages: JobGeneratedImage[] = [...previousImages]
+      const failedImages: JobFailedImage[] = []
+      const sceneProgress = new Map<string, SceneProgress>()
+
+      let persistChain: Promise<void> = Promise.resolve()
+
+      const result = await batchSceneGenerationService.generateBatch(
+        payload,
+        {
+          projectId: requestData.projectId,
+          scenes: requestData.scenes || [],
+          batchSettings: requestData.batchSettings,
+        },
+        {
+          maxConcurrent: requestData.batchSettings?.maxConcurrent,
+          maxRetries: requestData.maxRetries,
+          signal,
+          jobId,
+          completedShots: previousImages.map((img) => ({
+            sceneId: img.sceneId!,
+            characterId: img.characterId!,
+            shotType: img.shotType!,
+            success: true,
+            attempts: 0,
+          })),
+          // Persist each finished shot so partial results can be queried and resumed
+          onShotResult: (shot, scene) => {
+            sceneProgress.set(scene.sceneId, scene)
+            if (shot.success) {
+              generatedImages.push(this.toJobSceneImage(shot))
+            } else {
+              failedImages.push(this.toJobFailedSceneImage(shot))
+            }
+            const snapshot: JobResult = {
+              success: false,
+              generatedImages: [...generatedImages],
+              failedImages: [...failedImages],
+              scenes: Array.from(sceneProgress.values()),
+              skippedShots: previousImages.length,
+              partial: true,
+            }
+            persistChain = persistChain.then(() => this.updateJobResults(jobId, payload, snapshot))
+
+            jobEventService.publish(jobId, {
+              type: 'shot',
+              shotName: `${shot.sceneId} / ${shot.characterName || shot.characterId} / ${shot.shotType}`,
+              status: shot.success ? 'generated' : 'failed',
+              qualityScore: shot.qualityScore,
+              mediaId: shot.mediaId,
+              error: shot.error,
+              attempts: shot.attempts,
+            })
+          },
+        },
+        async (current: number, total: number, currentTask: string) => {
+          await this.updateJobProgress(jobId, payload, {
+            current,
+            total,
+            percentage: total > 0 ? Math.round((current / total) * 100) : 100,
+            currentTask,
+          })
+        }
+      )
+
+      await persistChain
+
+      if (!result.success) {
+        // Keep what was generated so the status API still shows it after a failure
+        await this.updateJobResults(jobId, payload, {
+          success: false,
+          generatedImages,
+          failedImages,
+          scenes: result.scenes,
+          skippedShots: previousImages.length,
+          partial: true,
+        })
+        throw new Error(result.error || 'Batch scene generation failed')
+      }
+
+      return {
+        success: true,
+        generatedImages: [...previousImages, ...result.generatedShots.map((shot) => this.toJobSceneImage(shot))],
+        failedImages: result.failedShots.map((shot) => this.toJobFailedSceneImage(shot)),
+        scenes: result.scenes,
+        totalAttempts: [...result.generatedShots, ...result.failedShots].reduce((sum, shot) => sum + shot.attempts, 0),
+        processingTime: Date.now() - startTime,
+        skippedShots: previousImages.length,
+      }
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private toJobSceneImage(shot: SceneShotResult): JobGeneratedImage {
+    return {
+      url: shot.imageUrl || `https://media.rumbletv.com/media/${shot.mediaId}`,
+      angle: `${shot.sceneId} ${shot.shotType}`,
+      quality: shot.qualityScore || 0,
+      mediaId: shot.mediaId,
+      sceneId: shot.sceneId,
+      characterId: shot.characterId,
+      shotType: shot.shotType,
+    }
+  }
+
+  private toJobFailedSceneImage(shot: SceneShotResult): JobFailedImage {
+    return {
+      angle: `${shot.sceneId} ${shot.shotType}`,
+      error: shot.error || 'Unknown error',
+      attempts: shot.attempts,
+      sceneId: shot.sceneId,
+      characterId: shot.characterId,
+      shotType: shot.shotType,
+    }
   }
 
   /**
@@ -228,14 +955,15 @@ export class BackgroundJobService {
    */
   private async updateJobStatus(
     jobId: string,
-    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled',
+    status: ImageGenerationJob['status'],
     payload: any,
     progress?: JobProgress,
     results?: JobResult,
-    error?: string
+    error?: string,
+    extra: Record<string, any> = {}
   ): Promise<void> {
     try {
-      const updateData: any = { status }
+      const updateData: any = { status, ...extra }
 
       if (progress) {
         updateData.progress = progress
@@ -257,12 +985,28 @@ export class BackgroundJobService {
         updateData.completedAt = new Date().toISOString()
       }
 
-      await payload.update({
+      // Only processing jobs hold a worker lease
+      if (status !== 'processing') {
+        updateData.leaseOwner = null
+        updateData.leaseExpiresAt = null
+      }
+
+      const result = await payload.update({
         collection: 'image-generation-jobs',
         where: { jobId: { equals: jobId } },
         data: updateData,
       })
 
+      if (progress) {
+        jobEventService.publish(jobId, { type: 'progress', ...progress })
+      }
+      jobEventService.publish(jobId, {
+        type: 'status',
+        status,
+        error,
+        results: status === 'completed' ? results : undefined,
+      })
+      this.notifyWebhook(payload, result?.docs?.[0])
     } catch (error) {
       console.error(`Failed to update job ${jobId}:`, error)
     }
@@ -270,28 +1014,151 @@ export class BackgroundJobService {
 
   /**
    * Update job progress only
+   * Leaves the status untouched so a concurrent cancellation is not overwritten.
    */
   private async updateJobProgress(
     jobId: string,
     payload: any,
     progress: JobProgress
   ): Promise<void> {
-    await this.updateJobStatus(jobId, 'processing', payload, progress)
+    try {
+      const result = await payload.update({
+        collection: 'image-generation-jobs',
+        where: { jobId: { equals: jobId } },
+        data: { progress },
+      })
+
+      // Terminal events are sent by updateJobStatus, not by late progress writes
+      const job = result?.docs?.[0]
+      if (job?.status === 'processing') {
+        jobEventService.publish(jobId, { type: 'progress', ...progress })
+        this.notifyWebhook(payload, job)
+      }
+    } catch (error) {
+      console.error(`Failed to update progress for job ${jobId}:`, error)
+    }
+  }
+
+  /**
+   * Update job results only (partial results while a job is running)
+   */
+  private async updateJobResults(
+    jobId: string,
+    payload: any,
+    results: JobResult
+  ): Promise<void> {
+    try {
+      await payload.update({
+        collection: 'image-generation-jobs',
+        where: { jobId: { equals: jobId } },
+        data: { results },
+      })
+    } catch (error) {
+      console.error(`Failed to update results for job ${jobId}:`, error)
+    }
+  }
+
+  /**
+   * Send the webhook event matching the job's current state
+   * Delivery runs in the background so retries never block job processing.
+   */
+  private notifyWebhook(payload: any, job: any): void {
+    if (!job?.webhook?.callbackUrl) {
+      return
+    }
+
+    const event = webhookService.eventForStatus(job.status)
+    if (!event) {
+      return
+    }
+
+    webhookService.dispatch(payload, job, event).catch((error) => {
+      console.error(`Webhook dispatch failed for job ${job.jobId}:`, error)
+    })
   }
 
   /**
-   * Cancel a running job
+   * Cancel a queued or running job
+   * Returns true if the job was running on this worker. Jobs running on other
+   * workers stop at their next heartbeat once they see the cancelled status.
    */
   async cancelJob(jobId: string, payload: any): Promise<boolean> {
-    if (!this.activeJobs.has(jobId)) {
+    const activeJob = this.activeJobs.get(jobId)
+
+    await this.updateJobStatus(jobId, 'cancelled', payload)
+
+    if (!activeJob) {
       return false
     }
 
-    this.activeJobs.delete(jobId)
-    await this.updateJobStatus(jobId, 'cancelled', payload)
+    activeJob.controller.abort()
     return true
   }
 
+  /**
+   * Resume a failed or cancelled core set job under the same jobId
+   * Only shots that are missing from the job results and the character gallery are generated.
+   * Resumes that would exceed the project budget wait in awaiting_approval like new jobs.
+   */
+  async resumeJob(
+    jobId: string,
+    payload: any,
+    budgetApproval?: BudgetApprovalRequest
+  ): Promise<ImageGenerationJob | null> {
+    const job = await jobQueueService.requeueForResume(payload, jobId, RESUMABLE_STATUSES, budgetApproval)
+    if (!job) {
+      return null
+    }
+
+    if (budgetApproval) {
+      console.log(`💸 Resume of job ${jobId} exceeds the project budget and awaits approval`)
+      return this.getJobStatus(jobId, payload)
+    }
+
+    console.log(`⏯️ Job ${jobId} queued for resume (resume #${job.resumeCount})`)
+
+    await this.startWorker(payload)
+    this.triggerPoll()
+
+    return this.getJobStatus(jobId, payload)
+  }
+
+  /**
+   * Release a job that was held for budget approval into the queue
+   * Returns null if the job is not awaiting approval.
+   */
+  async approveJob(jobId: string, payload: any, approvedBy: string | null): Promise<ImageGenerationJob | null> {
+    const job = await jobQueueService.releaseForApproval(payload, jobId, approvedBy)
+    if (!job) {
+      return null
+    }
+
+    console.log(`✅ Job ${jobId} approved over budget by ${approvedBy || 'anonymous'}`)
+
+    await this.startWorker(payload)
+    this.triggerPoll()
+
+    return this.getJobStatus(jobId, payload)
+  }
+
+  /**
+   * Number of shots a resume still has to generate
+   */
+  getRemainingShotCount(job: Pick<ImageGenerationJob, 'progress' | 'results'>): number {
+    return Math.max(0, (job.progress?.total || 0) - (job.results?.generatedImages?.length || 0))
+  }
+
+  /**
+   * Check whether a job can be resumed
+   */
+  isResumable(job: Pick<ImageGenerationJob, 'status' | 'jobType' | 'budgetApproval'>): boolean {
+    // Jobs cancelled while awaiting budget approval never got approved, so they cannot skip it
+    if (job.budgetApproval?.estimatedCost && !job.budgetApproval.approvedAt) {
+      return false
+    }
+    return RESUMABLE_STATUSES.includes(job.status) && job.jobType !== 'single-image'
+  }
+
   /**
    * Get job status
    */
@@ -0,0 +1,456 @@
+/**
+ * Batch Scene Generation Service
+ *
+ * Generates character images for many scenes of a screenplay or project.
+ * Scenes run in a bounded worker pool, while each character is generated one
+ * shot at a time so its images stay consistent and its gallery updates never
+ * overwrite each other. Failed shots are retried, every result is appended to
+ * the character's gallery and sceneContexts, and callers get a callback per
+ * shot so a background job can persist partial results.
+ */
+
+import { imageGenerationService } from './ImageGenerationService'
+import { stylePresetService, StylePreset } from './StylePresetService'
+import { appearanceEraService } from './AppearanceEraService'
+import { BATCH_SCENE_CONFIG } from '../lib/config/batch-scenes'
+
+export interface BatchScene {
+  sceneId: string
+  characters: string[] // Character IDs
+  sceneDescription: string
+  requiredShots: string[]
+  sceneType?: 'dialogue' | 'action' | 'emotional' | 'establishing'
+  environmentContext?: string
+  mood?: string
+  lightingStyle?: string
+  storyYear?: number // Picks each character's appearance era
+}
+
+export interface BatchSceneRequest {
+  projectId: string
+  scenes: BatchScene[]
+  batchSettings?: {
+    maxConcurrent?: number
+    style?: string
+    qualityThreshold?: number
+    maxRetries?: number
+  }
+}
+
+export interface SceneShotResult {
+  sceneId: string
+  characterId: string
+  characterName?: string
+  shotType: string
+  success: boolean
+  mediaId?: string
+  imageUrl?: string
+  qualityScore?: number
+  attempts: number
+  error?: string
+}
+
+export interface SceneProgress {
+  sceneId: string
+  status: 'pending' | 'processing' | 'completed' | 'partial' | 'failed'
+  total: number
+  generated: number
+  failed: number
+}
+
+export interface BatchSceneOptions {
+  maxConcurrent?: number
+  maxRetries?: number
+  signal?: AbortSignal
+  // Shots generated by an earlier run of the same batch; they are not generated again
+  completedShots?: SceneShotResult[]
+  jobId?: string
+  onShotResult?: (shot: SceneShotResult, scene: SceneProgress) => void
+}
+
+export interface BatchSceneResult {
+  success: boolean
+  scenes: SceneProgress[]
+  generatedShots: SceneShotResult[]
+  failedShots: SceneShotResult[]
+  skippedShots: number
+  error?: string
+}
+
+export class BatchSceneGenerationService {
+  // Tail of each character's queue of shots
+  private characterLocks = new Map<string, Promise<unknown>>()
+
+  /**
+   * Number of images a batch plans: one per required shot per character
+   */
+  countShots(scenes: BatchScene[]): number {
+    return scenes.reduce((sum, scene) => sum + scene.requiredShots.length * scene.characters.length, 0)
+  }
+
+  /**
+   * Key identifying one shot of one character in one scene
+   */
+  shotKey(shot: Pick<SceneShotResult, 'sceneId' | 'characterId' | 'shotType'>): string {
+    return `${shot.sceneId}:${shot.characterId}:${shot.shotType}`
+  }
+
+  /**
+   * Validate the scenes of a batch request
+   */
+  validateScenes(scenes: unknown): true | string {
+    if (!Array.isArray(scenes) || scenes.length === 0) {
+      return 'scenes array is required and cannot be empty'
+    }
+    if (scenes.length > BATCH_SCENE_CONFIG.maxScenes) {
+      return `A batch can contain at most ${BATCH_SCENE_CONFIG.maxScenes} scenes`
+    }
+
+    const sceneIds = new Set<string>()
+    for (const scene of scenes as BatchScene[]) {
+      if (!scene?.sceneId || typeof scene.sceneId !== 'string') {
+        return 'Every scene needs a sceneId'
+      }
+      if (sceneIds.has(scene.sceneId)) {
+        return `Duplicate sceneId "${scene.sceneId}"`
+      }
+      sceneIds.add(scene.sceneId)
+
+      if (!Array.isArray(scene.characters) || scene.characters.length === 0) {
+        return `Scene "${scene.sceneId}" needs at least one character`
+      }
+      if (!Array.isArray(scene.requiredShots) || scene.requiredShots.length === 0) {
+        return `Scene "${scene.sceneId}" needs at least one required shot`
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Generate every planned shot of a batch
+   */
+  async generateBatch(
+    payload: any,
+    request: BatchSceneRequest,
+    options: BatchSceneOptions = {},
+    progressCallback?: (current: number, total: number, currentTask: string) => Promise<void>
+  ): Promise<BatchSceneResult> {
+    const maxRetries = options.maxRetries ?? BATCH_SCENE_CONFIG.maxRetries
+    const concurrency = Math.min(
+      Math.max(1, options.maxConcurrent || BATCH_SCENE_CONFIG.defaultConcurrency),
+      BATCH_SCENE_CONFIG.maxConcurrency
+    )
+
+    const completed = new Set((options.completedShots || []).map((shot) => this.shotKey(shot)))
+    const characters = await this.loadCharacters(payload, request.scenes)
+    // Every scene in the batch shares the project's look
+    const stylePreset = await stylePresetService.getProjectPreset(payload, request.projectId)
+
+    const total = this.countShots(request.scenes)
+    const generatedShots: SceneShotResult[] = []
+    const failedShots: SceneShotResult[] = []
+    let done = completed.size
+
+    const scenes: SceneProgress[] = request.scenes.map((scene) => {
+      const previous = scene.characters.flatMap((characterId) =>
+        scene.requiredShots.filter((shotType) => completed.has(this.shotKey({ sceneId: scene.sceneId, characterId, shotType })))
+      )
+      return {
+        sceneId: scene.sceneId,
+        status: 'pending',
+        total: scene.requiredShots.length * scene.characters.length,
+        generated: previous.length,
+        failed: 0,
+      }
+    })
+
+    const runScene = async (scene: BatchScene, progress: SceneProgress) => {
+      progress.status = 'processing'
+
+      for (const shotType of scene.requiredShots) {
+        for (const characterId of scene.characters) {
+          if (options.signal?.aborted) return
+          if (completed.has(this.shotKey({ sceneId: scene.sceneId, characterId, shotType }))) continue
+
+          const character = characters.get(characterId)
+          const shot = character
+            ? await this.withCharacterLock(characterId, () =>
+                this.generateShot(payload, request.projectId, scene, character, shotType, {
+                  maxRetries,
+                  stylePreset,
+                  signal: options.signal,
+                  jobId: options.jobId,
+                })
+              )
+            : { sceneId: scene.sceneId, characterId, shotType, success: false, attempts: 0, error: 'Character not found' }
+
+          // A shot interrupted by cancellation is neither generated nor failed
+          if (options.signal?.aborted && !shot.success) return
+
+          if (shot.success) {
+            progress.generated++
+            generatedShots.push(shot)
+          } else {
+            progress.failed++
+            failedShots.push(shot)
+          }
+          done++
+
+          options.onShotResult?.(shot, { ...progress })
+          await progressCallback?.(
+            done,
+            total,
+            `Scene ${scene.sceneId}: ${shotType} of ${shot.characterName || characterId} ${shot.success ? 'generated' : 'failed'}`
+          )
+        }
+      }
+
+      progress.status = progress.failed === 0 ? 'completed' : progress.generated > 0 ? 'partial' : 'failed'
+    }
+
+    // Worker pool: each worker takes the next scene until none are left
+    let next = 0
+    const worker = async () => {
+      while (next < request.scenes.length && !options.signal?.aborted) {
+        const index = next++
+        await runScene(request.scenes[index], scenes[index])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(concurrency, request.scenes.length) }, worker))
+
+    if (options.signal?.aborted) {
+      return { success: false, scenes, generatedShots, failedShots, skippedShots: completed.size, error: 'Batch scene generation was cancelled' }
+    }
+
+    const success = generatedShots.length > 0 || failedShots.length === 0
+    return {
+      success,
+      scenes,
+      generatedShots,
+      failedShots,
+      skippedShots: completed.size,
+      ...(success ? {} : { error: `No scene images were generated (${failedShots.length} shots failed)` }),
+    }
+  }
+
+  /**
+   * Run work for one character after its earlier shots have finished
+   */
+  private async withCharacterLock<T>(characterId: string, work: () => Promise<T>): Promise<T> {
+    const previous = this.characterLocks.get(characterId) || Promise.resolve()
+    const current = previous.catch(() => undefined).then(work)
+    this.characterLocks.set(characterId, current)
+
+    try {
+      return await current
+    } finally {
+      if (this.characterLocks.get(characterId) === current) {
+        this.characterLocks.delete(characterId)
+      }
+    }
+  }
+
+  private async loadCharacters(payload: any, scenes: BatchScene[]): Promise<Map<string, any>> {
+    const characterIds = [...new Set(scenes.flatMap((scene) => scene.characters))]
+    const characters = new Map<string, any>()
+
+    console.log(`Loading ${characterIds.length} unique characters`)
+
+    await Promise.all(
+      characterIds.map(async (id) => {
+        try {
+          const character = await payload.findByID({ collection: 'characters', id, depth: 2 })
+          if (character) characters.set(id, character)
+        } catch (error) {
+          console.error(`Failed to load character ${id}:`, error)
+        }
+      })
+    )
+
+    return characters
+  }
+
+  /**
+   * Generate, upload and record one shot, retrying failed generations and uploads
+   */
+  private async generateShot(
+    payload: any,
+    projectId: string,
+    scene: BatchScene,
+    character: any,
+    shotType: string,
+    settings: { maxRetries: number; stylePreset: StylePreset | null; signal?: AbortSignal; jobId?: string }
+  ): Promise<SceneShotResult> {
+    const base = { sceneId: scene.sceneId, characterId: String(character.id), characterName: character.name, shotType }
+
+    const era = appearanceEraService.selectEra(character, { storyYear: scene.storyYear })
+    const prompt = buildScenePrompt(appearanceEraService.applyToCharacterData(character, era), scene, shotType)
+
+    // Get reference image from the era's master reference and core set
+    const coreReferences = (character.imageGallery || []).filter(
+      (img: any) => img.isCoreReference && appearanceEraService.isInEra(img, era)
+    )
+    const masterReferenceAssetId = era
+      ? era.masterReferenceAssetId
+      : typeof character.masterReferenceImage === 'object' ? character.masterReferenceImage?.dinoAssetId : null
+    const referenceImageAssetId = masterReferenceAssetId ||
+      coreReferences.find((img: any) => img.dinoAssetId)?.dinoAssetId
+
+    if (!referenceImageAssetId) {
+      return { ...base, success: false, attempts: 0, error: 'Character has no reference image' }
+    }
+
+    let lastError = 'Unknown error'
+    for (let attempt = 1; attempt <= settings.maxRetries + 1; attempt++) {
+      if (settings.signal?.aborted) {
+        return { ...base, success: false, attempts: attempt - 1, error: 'Cancelled' }
+      }
+      if (attempt > 1) {
+        await new Promise((resolve) => setTimeout(resolve, BATCH_SCENE_CONFIG.retryDelayMs))
+      }
+
+      try {
+        const generationResult = await imageGenerationService.generateImage(prompt, {
+          referenceImageAssetId,
+          style: 'custom',
+          additionalReferenceIds: coreReferences
+            .map((img: any) => img.dinoAssetId)
+            .filter((id: any) => id)
+            .slice(0, 2), // Limit for batch processing
+          stylePreset: settings.stylePreset,
+          usage: { operation: 'batch-scene-image', characterId: character.id, projectId, jobId: settings.jobId, attempt },
+        })
+
+        if (!generationResult.success || !generationResult.imageBuffer) {
+          lastError = generationResult.error || 'Image generation failed'
+          console.warn(`Attempt ${attempt} failed for ${character.name} in scene ${scene.sceneId}: ${lastError}`)
+          continue
+        }
+
+        const filename = `${scene.sceneId}_${character.id}_${shotType}_${Date.now()}.jpg`.replace(/[^a-zA-Z0-9._-]/g, '_')
+        const media = await payload.create({
+          collection: 'media',
+          data: { alt: `Generated scene image: ${filename}` },
+          file: {
+            data: generationResult.imageBuffer,
+            mimetype: 'image/jpeg',
+            name: filename,
+            size: generationResult.imageBuffer.length,
+          },
+        })
+
+        await this.recordShot(payload, character.id, scene, shotType, String(media.id), era?.eraId)
+
+        return {
+          ...base,
+          success: true,
+          mediaId: String(media.id),
+          imageUrl: media.url,
+          qualityScore: BATCH_SCENE_CONFIG.defaultQualityScore,
+          attempts: attempt,
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`Error generating image for ${character.name} in scene ${scene.sceneId} (attempt ${attempt}):`, error)
+      }
+    }
+
+    return { ...base, success: false, attempts: settings.maxRetries + 1, error: lastError }
+  }
+
+  /**
+   * Append a generated shot to the character's gallery and the scene's context
+   * Reads the character again so shots recorded by other scenes are kept.
+   */
+  private async recordShot(
+    payload: any,
+    characterId: string,
+    scene: BatchScene,
+    shotType: string,
+    mediaId: string,
+    eraId?: string
+  ): Promise<void> {
+    const character = await payload.findByID({ collection: 'characters', id: characterId, depth: 0 })
+    const contexts: any[] = character.sceneContexts || []
+    const existing = contexts.find((context) => context.sceneId === scene.sceneId)
+    const context = {
+      ...existing,
+      sceneId: scene.sceneId,
+      sceneType: scene.sceneType || existing?.sceneType,
+      generatedImages: [...(existing?.generatedImages || []), { imageId: mediaId }],
+      qualityScores: [...(existing?.qualityScores || []), { score: BATCH_SCENE_CONFIG.defaultQualityScore }],
+      lastGenerated: new Date().toISOString(),
+    }
+
+    await payload.update({
+      collection: 'characters',
+      id: characterId,
+      data: {
+        imageGallery: [
+          ...(character.imageGallery || []),
+          {
+            imageFile: mediaId,
+            isCoreReference: false,
+            shotType,
+            tags: `scene,${scene.sceneId},${shotType}${eraId ? `,era:${eraId}` : ''}`,
+            eraId,
+            qualityScore: BATCH_SCENE_CONFIG.defaultQualityScore,
+            consistencyScore: BATCH_SCENE_CONFIG.defaultConsistencyScore,
+          },
+        ],
+        sceneContexts: existing
+          ? contexts.map((item) => (item === existing ? context : item))
+          : [...contexts, context],
+      },
+    })
+  }
+}
+
+function buildScenePrompt(character: any, scene: BatchScene, shotType: string): string {
+  let prompt = `${character.name}, `
+
+  // Add physical description
+  if (character.physicalDescription) {
+    const physicalDesc = extractTextFromRichText(character.physicalDescription)
+    prompt += `${physicalDesc}, `
+  }
+
+  // Add basic attributes
+  if (character.age) prompt += `age ${character.age}, `
+  if (character.eyeColor) prompt += `${character.eyeColor} eyes, `
+  if (character.hairColor) prompt += `${character.hairColor} hair, `
+
+  // Add scene description
+  prompt += `in scene: ${scene.sceneDescription}, `
+
+  // Add shot type
+  prompt += `${shotType} shot, `
+
+  // Add scene-specific elements
+  if (scene.environmentContext) prompt += `environment: ${scene.environmentContext}, `
+  if (scene.mood) prompt += `mood: ${scene.mood}, `
+  if (scene.lightingStyle) prompt += `lighting: ${scene.lightingStyle}, `
+
+  prompt += 'high quality, detailed, cinematic'
+
+  return prompt
+}
+
+function extractTextFromRichText(richText: any): string {
+  if (typeof richText === 'string') {
+    return richText.trim()
+  }
+
+  if (!richText || !richText.root || !richText.root.children) {
+    return ''
+  }
+
+  return richText.root.children
+    .map((child: any) => child.text || '')
+    .join(' ')
+    .trim()
+}
+
+// Export singleton instance
+export const batchSceneGenerationService = new BatchSceneGenerationService()
@@ -0,0 +1,569 @@
+/**
+ * Character Bundle Service
+ *
+ * Exports a character as a self-contained bundle (character JSON, media
+ * binaries, per-image reference shot and DINO metadata, relationships) and
+ * imports bundles into this instance. On import, media is re-uploaded and
+ * re-registered with DINO, ObjectIds are remapped to the new documents and
+ * characterId collisions are resolved with a numeric suffix.
+ */
+
+import { gunzipSync, gzipSync } from 'zlib'
+import {
+  extractMediaId,
+  generateCharacterId,
+  isValidObjectId,
+  remapId,
+  resolveCharacterIdCollision,
+} from '../lib/utils/id-utils'
+import { dinoOrchestrator } from './DinoOrchestrator'
+
+export const BUNDLE_FORMAT = 'character-library-bundle'
+export const BUNDLE_VERSION = 1
+
+export interface BundleMedia {
+  id: string
+  filename: string
+  mimeType: string
+  alt: string
+  dinoAssetId?: string | null
+  qualityScore?: number | null
+  consistencyScore?: number | null
+  data: string | null // base64, null when the binary could not be fetched
+  error?: string
+}
+
+export interface BundleReferenceShot {
+  id: string
+  slug: string
+  shotName?: string
+}
+
+export interface BundleImage {
+  mediaId: string | null
+  referenceShotId: string | null
+  referenceShotSlug: string | null
+  dinoAssetId: string | null
+  shotType?: string
+  isCoreReference: boolean
+}
+
+export interface BundleRelationship {
+  characterId: string
+  relationshipType?: string
+  relatedCharacter: { id: string; characterId: string; name: string } | null
+}
+
+export interface CharacterBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  source: { id: string; characterId: string; projectId?: string | null }
+  character: Record<string, any>
+  media: BundleMedia[]
+  referenceShots: BundleReferenceShot[]
+  images: BundleImage[]
+  relationships: BundleRelationship[]
+}
+
+export interface ExportOptions {
+  // Origin used to download media stored with relative URLs
+  baseUrl?: string
+}
+
+export interface ImportOptions {
+  projectId?: string
+  characterId?: string
+}
+
+export interface ImportResult {
+  character: any
+  idMap: {
+    character: { from: string; to: string }
+    characterId: { from: string; to: string }
+    media: Record<string, string>
+    referenceShots: Record<string, string>
+  }
+  dinoRegistered: number
+  warnings: string[]
+}
+
+export class BundleFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BundleFormatError'
+  }
+}
+
+// Never copied into an imported character
+const SYSTEM_FIELDS = ['id', '_id', 'createdAt', 'updatedAt', '_status']
+
+export class CharacterBundleService {
+  /**
+   * Build a bundle for a character
+   */
+  async exportCharacter(payload: any, id: string, options: ExportOptions = {}): Promise<CharacterBundle> {
+    const character = await payload.findByID({ collection: 'characters', id, depth: 0 })
+
+    // Collect every media reference: master references, gallery, turnaround sheets, wardrobe and voice samples
+    const mediaIds = new Set<string>()
+    const masterId = extractMediaId(character.masterReferenceImage)
+    if (masterId) mediaIds.add(masterId)
+    for (const item of character.imageGallery || []) {
+      const mediaId = extractMediaId(item.imageFile)
+      if (mediaId) mediaIds.add(mediaId)
+    }
+    for (const outfit of character.wardrobe || []) {
+      for (const image of outfit.referenceImages || []) {
+        const mediaId = extractMediaId(image)
+        if (mediaId) mediaIds.add(mediaId)
+      }
+    }
+    for (const sheet of [...(character.turnaroundSheets || []), ...(character.expressionSheets || [])]) {
+      const mediaId = extractMediaId(sheet.image)
+      if (mediaId) mediaIds.add(mediaId)
+    }
+    for (const era of character.eras || []) {
+      const mediaId = extractMediaId(era.masterReferenceImage)
+      if (mediaId) mediaIds.add(mediaId)
+    }
+    for (const model of character.voiceModels || []) {
+      const mediaId = extractMediaId(model.voiceSample)
+      if (mediaId) mediaIds.add(mediaId)
+    }
+
+    const media: BundleMedia[] = []
+    for (const mediaId of mediaIds) {
+      media.push(await this.exportMedia(payload, mediaId, options.baseUrl))
+    }
+
+    const referenceShotIds = new Set<string>(
+      (character.imageGallery || [])
+        .map((item: any) => extractMediaId(item.referenceShot))
+        .filter(Boolean)
+    )
+    const referenceShots: BundleReferenceShot[] = []
+    for (const shotId of referenceShotIds) {
+      try {
+        const shot = await payload.findByID({ collection: 'reference-shots', id: shotId, depth: 0 })
+        referenceShots.push({ id: shotId, slug: shot.slug, shotName: shot.shotName })
+      } catch {
+        console.warn(`Reference shot ${shotId} not found during export`)
+      }
+    }
+    const shotSlugs = new Map(referenceShots.map((shot) => [shot.id, shot.slug]))
+
+    const images: BundleImage[] = (character.imageGallery || []).map((item: any) => {
+      const referenceShotId = extractMediaId(item.referenceShot)
+      return {
+        mediaId: extractMediaId(item.imageFile),
+        referenceShotId,
+        referenceShotSlug: referenceShotId ? shotSlugs.get(referenceShotId) || null : null,
+        dinoAssetId: item.dinoAssetId || null,
+        shotType: item.shotType,
+        isCoreReference: Boolean(item.isCoreReference),
+      }
+    })
+
+    const relationships: BundleRelationship[] = []
+    for (const relationship of character.enhancedRelationships || []) {
+      relationships.push({
+        characterId: relationship.characterId,
+        relationshipType: relationship.relationshipType,
+        relatedCharacter: await this.findRelatedCharacter(payload, relationship.characterId),
+      })
+    }
+
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: {
+        id: String(character.id),
+        characterId: character.characterId,
+        projectId: character.novelMovieIntegration?.projectId || null,
+      },
+      character,
+      media,
+      referenceShots,
+      images,
+      relationships,
+    }
+  }
+
+  /**
+   * Serialize a bundle as gzipped JSON
+   */
+  encodeBundle(bundle: CharacterBundle): Buffer {
+    return gzipSync(Buffer.from(JSON.stringify(bundle)))
+  }
+
+  /**
+   * Parse a bundle from gzipped or plain JSON
+   */
+  decodeBundle(data: Buffer): CharacterBundle {
+    let bundle: any
+    try {
+      const isGzip = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b
+      bundle = JSON.parse((isGzip ? gunzipSync(data) : data).toString('utf8'))
+    } catch {
+      throw new BundleFormatError('Bundle is not valid JSON or gzipped JSON')
+    }
+
+    if (bundle?.format !== BUNDLE_FORMAT) {
+      throw new BundleFormatError(`Unsupported bundle format: ${bundle?.format}`)
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+      throw new BundleFormatError(`Unsupported bundle version: ${bundle.version}`)
+    }
+    if (!bundle.character || !Array.isArray(bundle.media)) {
+      throw new BundleFormatError('Bundle is missing character or media data')
+    }
+
+    return bundle as CharacterBundle
+  }
+
+  /**
+   * Create a character from a bundle
+   */
+  async importBundle(payload: any, bundle: CharacterBundle, options: ImportOptions = {}): Promise<ImportResult> {
+    const warnings: string[] = []
+    const source = bundle.character
+
+    const desiredId = options.characterId || source.characterId || generateCharacterId(source.name || 'character')
+    const characterId = await resolveCharacterIdCollision(desiredId, async (candidate) => {
+      const existing = await payload.find({
+        collection: 'characters',
+        where: { characterId: { equals: candidate } },
+        limit: 1,
+        depth: 0,
+      })
+      return existing.docs.length > 0
+    })
+    if (characterId !== desiredId) {
+      warnings.push(`characterId "${desiredId}" already exists; imported as "${characterId}"`)
+    }
+
+    // Re-upload media and re-register images with DINO
+    const mediaMap = new Map<string, string>()
+    const dinoAssetMap = new Map<string, string>()
+    let dinoRegistered = 0
+
+    try {
+      for (const entry of bundle.media) {
+        if (!entry.data) {
+          warnings.push(`Media ${entry.id} (${entry.filename}) has no binary in the bundle and was skipped`)
+          continue
+        }
+
+        const imported = await this.importMedia(payload, entry)
+        mediaMap.set(entry.id, imported.id)
+        if (entry.dinoAssetId && imported.dinoAssetId) {
+          dinoAssetMap.set(entry.dinoAssetId, imported.dinoAssetId)
+        }
+        if (imported.dinoAssetId) {
+          dinoRegistered++
+        } else if (!entry.mimeType.startsWith('audio/')) {
+          warnings.push(`DINO registration failed for ${entry.filename}: ${imported.error || 'unknown error'}`)
+        }
+      }
+
+      // Reference shots are seeded per instance, so match them by slug
+      const referenceShotMap = new Map<string, string>()
+      for (const shot of bundle.referenceShots || []) {
+        const found = await payload.find({
+          collection: 'reference-shots',
+          where: { slug: { equals: shot.slug } },
+          limit: 1,
+          depth: 0,
+        })
+        if (found.docs.length > 0) {
+          referenceShotMap.set(shot.id, String(found.docs[0].id))
+        } else {
+          warnings.push(`Reference shot "${shot.slug}" does not exist here; gallery images keep no shot link`)
+        }
+      }
+
+      const data = await this.buildCharacterData(payload, bundle, {
+        characterId,
+        projectId: options.projectId,
+        mediaMap,
+        dinoAssetMap,
+        referenceShotMap,
+        warnings,
+      })
+
+      const character = await payload.create({
+        collection: 'characters',
+        data,
+      })
+
+      console.log(`📦 Imported character ${bundle.source.characterId} as ${characterId} (${character.id})`)
+
+      return {
+        character,
+        idMap: {
+          character: { from: bundle.source.id, to: String(character.id) },
+          characterId: { from: source.characterId, to: characterId },
+          media: Object.fromEntries(mediaMap),
+          referenceShots: Object.fromEntries(referenceShotMap),
+        },
+        dinoRegistered,
+        warnings,
+      }
+    } catch (error) {
+      // Do not leave orphaned media behind when the import fails
+      for (const mediaId of mediaMap.values()) {
+        await payload.delete({ collection: 'media', id: mediaId }).catch(() => undefined)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Rewrite the exported character for this instance
+   */
+  private async buildCharacterData(
+    payload: any,
+    bundle: CharacterBundle,
+    context: {
+      characterId: string
+      projectId?: string
+      mediaMap: Map<string, string>
+      dinoAssetMap: Map<string, string>
+      referenceShotMap: Map<string, string>
+      warnings: string[]
+    }
+  ): Promise<Record<string, any>> {
+    // Row ids belong to the source document; Payload assigns new ones
+    const data = this.stripIds(structuredClone(bundle.character))
+    for (const field of SYSTEM_FIELDS) {
+      delete data[field]
+    }
+
+    data.characterId = context.characterId
+    data.masterReferenceImage = remapId(bundle.character.masterReferenceImage, context.mediaMap)
+
+    data.imageGallery = (bundle.character.imageGallery || [])
+      .map((item: any, index: number) => {
+        // Prompt templates are not bundled; promptTemplateVersion is kept for reference
+        const { id: _rowId, promptTemplate: _promptTemplate, ...rest } = this.stripIds(structuredClone(item))
+        const imageFile = remapId(item.imageFile, context.mediaMap)
+        if (!imageFile) {
+          context.warnings.push(`Gallery image ${index + 1} was dropped because its media was not imported`)
+          return null
+        }
+        return {
+          ...rest,
+          imageFile,
+          referenceShot: remapId(item.referenceShot, context.referenceShotMap),
+          dinoAssetId: item.dinoAssetId ? context.dinoAssetMap.get(item.dinoAssetId) || null : null,
+        }
+      })
+      .filter(Boolean)
+
+    if (Array.isArray(data.wardrobe)) {
+      data.wardrobe = data.wardrobe.map((outfit: any, index: number) => ({
+        ...outfit,
+        referenceImages: (bundle.character.wardrobe?.[index]?.referenceImages || [])
+          .map((image: any) => remapId(image, context.mediaMap))
+          .filter(Boolean),
+      }))
+    }
+
+    if (Array.isArray(data.turnaroundSheets)) {
+      data.turnaroundSheets = data.turnaroundSheets
+        .map((sheet: any, index: number) => ({
+          ...sheet,
+          image: remapId(bundle.character.turnaroundSheets?.[index]?.image, context.mediaMap),
+        }))
+        .filter((sheet: any) => sheet.image)
+    }
+
+    if (Array.isArray(data.expressionSheets)) {
+      data.expressionSheets = data.expressionSheets
+        .map((sheet: any, index: number) => ({
+          ...sheet,
+          image: remapId(bundle.character.expressionSheets?.[index]?.image, context.mediaMap),
+        }))
+        .filter((sheet: any) => sheet.image)
+    }
+
+    if (Array.isArray(data.eras)) {
+      data.eras = data.eras.map((era: any, index: number) => ({
+        ...era,
+        masterReferenceImage: remapId(bundle.character.eras?.[index]?.masterReferenceImage, context.mediaMap),
+      }))
+    }
+
+    if (Array.isArray(data.voiceModels)) {
+      data.voiceModels = data.voiceModels.map((model: any, index: number) => ({
+        ...model,
+        voiceSample: remapId(bundle.character.voiceModels?.[index]?.voiceSample, context.mediaMap),
+      }))
+    }
+
+    if (Array.isArray(data.enhancedRelationships)) {
+      for (const relationship of data.enhancedRelationships) {
+        relationship.characterId = await this.remapRelationship(payload, bundle, relationship.characterId, context.warnings)
+      }
+    }
+
+    // Sync state belongs to the source instance
+    data.novelMovieIntegration = {
+      ...(data.novelMovieIntegration || {}),
+      ...(context.projectId ? { projectId: context.projectId } : {}),
+      syncStatus: 'pending',
+      lastSyncAt: null,
+      syncBase: null,
+      pendingConflicts: [],
+    }
+
+    return data
+  }
+
+  /**
+   * Point a relationship at the same character in this instance, matched by characterId
+   */
+  private async remapRelationship(
+    payload: any,
+    bundle: CharacterBundle,
+    relatedId: string,
+    warnings: string[]
+  ): Promise<string> {
+    const exported = (bundle.relationships || []).find((relationship) => relationship.characterId === relatedId)
+    const businessId = exported?.relatedCharacter?.characterId
+
+    if (businessId) {
+      const found = await payload.find({
+        collection: 'characters',
+        where: { characterId: { equals: businessId } },
+        limit: 1,
+        depth: 0,
+      })
+      if (found.docs.length > 0) {
+        // Keep the reference style of the source: ObjectId or business ID
+        return isValidObjectId(relatedId) ? String(found.docs[0].id) : businessId
+      }
+    }
+
+    warnings.push(`Related character ${businessId || relatedId} does not exist here; relationship kept unresolved`)
+    return relatedId
+  }
+
+  private async exportMedia(payload: any, mediaId: string, baseUrl?: string): Promise<BundleMedia> {
+    let media: any
+    try {
+      media = await payload.findByID({ collection: 'media', id: mediaId, depth: 0 })
+    } catch {
+      return { id: mediaId, filename: '', mimeType: '', alt: '', data: null, error: 'Media not found' }
+    }
+
+    const entry: BundleMedia = {
+      id: mediaId,
+      filename: media.filename || `${mediaId}.jpg`,
+      mimeType: media.mimeType || 'image/jpeg',
+      alt: media.alt || media.filename || 'Imported media',
+      dinoAssetId: media.dinoAssetId || null,
+      qualityScore: media.qualityScore ?? null,
+      consistencyScore: media.consistencyScore ?? null,
+      data: null,
+    }
+
+    try {
+      if (!media.url) {
+        throw new Error('Media has no URL')
+      }
+      const url = /^https?:\/\//.test(media.url) ? media.url : new URL(media.url, baseUrl).toString()
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status} ${response.statusText}`)
+      }
+      entry.data = Buffer.from(await response.arrayBuffer()).toString('base64')
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : 'Download failed'
+      console.warn(`Could not include media ${mediaId} in bundle:`, entry.error)
+    }
+
+    return entry
+  }
+
+  private async importMedia(
+    payload: any,
+    entry: BundleMedia
+  ): Promise<{ id: string; dinoAssetId?: string; error?: string }> {
+    const buffer = Buffer.from(entry.data!, 'base64')
+    const data: Record<string, any> = {
+      alt: entry.alt,
+      qualityScore: entry.qualityScore ?? undefined,
+      consistencyScore: entry.consistencyScore ?? undefined,
+    }
+
+    let error: string | undefined
+    if (!entry.mimeType.startsWith('audio/')) {
+      const dino = await dinoOrchestrator.uploadAndExtract(buffer, entry.filename)
+      if (dino.status !== 'error' && dino.dinoAssetId) {
+        // With a dinoAssetId set, the media afterChange hook skips its own upload
+        Object.assign(data, {
+          dinoAssetId: dino.dinoAssetId,
+          dinoMediaUrl: dino.dinoMediaUrl,
+          dinoFeatures: dino.features,
+          dinoProcessingStatus: 'validation_success',
+          dinoProcessedAt: new Date().toISOString(),
+        })
+      } else {
+        error = dino.error
+      }
+    }
+
+    const media = await payload.create({
+      collection: 'media',
+      data,
+      file: {
+        data: buffer,
+        mimetype: entry.mimeType,
+        name: entry.filename,
+        size: buffer.length,
+      },
+    })
+
+    return { id: String(media.id), dinoAssetId: data.dinoAssetId, error }
+  }
+
+  private async findRelatedCharacter(
+    payload: any,
+    relatedId: string
+  ): Promise<BundleRelationship['relatedCharacter']> {
+    try {
+      const where = isValidObjectId(relatedId)
+        ? { id: { equals: relatedId } }
+        : { characterId: { equals: relatedId } }
+      const found = await payload.find({ collection: 'characters', where, limit: 1, depth: 0 })
+      const related = found.docs[0]
+      return related ? { id: String(related.id), characterId: related.characterId, name: related.name } : null
+    } catch {
+      return null
+    }
+  }
+
+  private stripIds(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => {
+        if (item && typeof item === 'object' && !Array.isArray(item)) {
+          const { id: _id, ...rest } = item
+          return this.stripIds(rest)
+        }
+        return this.stripIds(item)
+      })
+    }
+    if (value && typeof value === 'object') {
+      for (const key of Object.keys(value)) {
+        value[key] = this.stripIds(value[key])
+      }
+    }
+    return value
+  }
+}
+
+// Export singleton instance
+export const characterBundleService = new CharacterBundleService()
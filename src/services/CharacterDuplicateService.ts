@@ -0,0 +1,160 @@
+/**
+ * Character Duplicate Service
+ *
+ * Finds characters that look alike by comparing the DINOv3 feature vectors
+ * stored on their master reference media (media.dinoFeatures). Used by the
+ * character search to surface visual matches and by character creation to
+ * warn about near-duplicates in the same project.
+ */
+
+import { cosineSimilarity } from '../lib/utils/image-signals'
+import { DINO_CONFIG } from '../lib/config/dino'
+
+export interface VisualMatch {
+  id: string
+  characterId?: string
+  name: string
+  similarity: number
+}
+
+export interface DuplicateWarning {
+  type: 'visual_duplicate'
+  message: string
+  character: {
+    id: string
+    characterId?: string
+    name: string
+  }
+  similarity: number
+}
+
+export class CharacterDuplicateService {
+  /**
+   * Feature vector of populated media, or null while DINOv3 processing is pending
+   */
+  getFeatures(media: any): number[] | null {
+    const features = media && typeof media === 'object' ? media.dinoFeatures : null
+    return Array.isArray(features) && features.length > 0 && features.every((value) => typeof value === 'number')
+      ? features
+      : null
+  }
+
+  /**
+   * Feature vector of a character's master reference (needs depth >= 1)
+   */
+  getMasterFeatures(character: any): number[] | null {
+    return this.getFeatures(character?.masterReferenceImage)
+  }
+
+  /**
+   * Characters whose master reference is at least `threshold` similar, most similar first
+   */
+  compare(
+    features: number[],
+    characters: any[],
+    options: { threshold?: number; excludeIds?: string[] } = {}
+  ): VisualMatch[] {
+    const threshold = options.threshold ?? DINO_CONFIG.duplicates.similarityThreshold
+    const excluded = new Set(options.excludeIds || [])
+    const matches: VisualMatch[] = []
+
+    for (const character of characters) {
+      if (excluded.has(String(character.id))) continue
+
+      const other = this.getMasterFeatures(character)
+      if (!other) continue
+
+      const similarity = Math.round(cosineSimilarity(features, other) * 1000) / 1000
+      if (similarity >= threshold) {
+        matches.push({
+          id: String(character.id),
+          characterId: character.characterId || undefined,
+          name: character.name,
+          similarity,
+        })
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity)
+  }
+
+  /**
+   * Warnings for a master reference that looks like an existing character of the project
+   * Returns no warnings when the media has no features yet or the character has no project.
+   */
+  async checkNewMasterReference(
+    payload: any,
+    masterReferenceImage: unknown,
+    projectId: string | null | undefined,
+    options: { excludeCharacterId?: string; threshold?: number } = {}
+  ): Promise<DuplicateWarning[]> {
+    const mediaId = typeof masterReferenceImage === 'object' && masterReferenceImage
+      ? (masterReferenceImage as any).id
+      : masterReferenceImage
+    if (!mediaId || !projectId) return []
+
+    try {
+      const media = await payload.findByID({ collection: 'media', id: String(mediaId), depth: 0 })
+      const features = this.getFeatures(media)
+      if (!features) {
+        console.log(`🔍 Duplicate check skipped: media ${mediaId} has no DINOv3 features yet`)
+        return []
+      }
+
+      const characters = await this.loadProjectCharacters(payload, projectId)
+      const matches = this.compare(features, characters, {
+        threshold: options.threshold,
+        excludeIds: options.excludeCharacterId ? [options.excludeCharacterId] : [],
+      })
+
+      return matches.map((match) => ({
+        type: 'visual_duplicate' as const,
+        message: `The master reference looks like "${match.name}" (${Math.round(match.similarity * 100)}% similar)`,
+        character: { id: match.id, characterId: match.characterId, name: match.name },
+        similarity: match.similarity,
+      }))
+    } catch (error) {
+      // A failed check must never block character creation
+      console.warn('Duplicate check failed:', error instanceof Error ? error.message : error)
+      return []
+    }
+  }
+
+  /**
+   * Characters of a project with their master reference features attached
+   */
+  private async loadProjectCharacters(payload: any, projectId: string): Promise<any[]> {
+    const characters = await payload.find({
+      collection: 'characters',
+      where: {
+        'novelMovieIntegration.projectId': { equals: projectId },
+        masterReferenceImage: { exists: true },
+      },
+      limit: DINO_CONFIG.duplicates.maxCandidates,
+      depth: 0,
+    })
+
+    const mediaIds = characters.docs
+      .map((character: any) => character.masterReferenceImage)
+      .filter(Boolean)
+      .map(String)
+    if (mediaIds.length === 0) return []
+
+    // One media query instead of populating every character
+    const media = await payload.find({
+      collection: 'media',
+      where: { id: { in: mediaIds } },
+      limit: mediaIds.length,
+      depth: 0,
+    })
+    const mediaById = new Map(media.docs.map((doc: any) => [String(doc.id), doc]))
+
+    return characters.docs.map((character: any) => ({
+      ...character,
+      masterReferenceImage: mediaById.get(String(character.masterReferenceImage)) || character.masterReferenceImage,
+    }))
+  }
+}
+
+// Export singleton instance
+export const characterDuplicateService = new CharacterDuplicateService()
@@ -0,0 +1,320 @@
+/**
+ * Character Version Service
+ *
+ * Lists, diffs and restores character versions. Versions are Payload document
+ * versions of the characters collection, so every edit (admin UI, REST or
+ * local API) is captured. Restores keep the image gallery and master reference
+ * unless the caller explicitly asks to roll them back as well, and never change
+ * the project the character belongs to.
+ */
+
+export interface FieldChange {
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  from?: any
+  to?: any
+}
+
+export interface CharacterVersionSummary {
+  versionId: string
+  createdAt: string
+  updatedAt: string
+  latest: boolean
+  name?: string
+  status?: string
+  changedFields: string[]
+}
+
+export interface RestoreVersionOptions {
+  restoreImageGallery?: boolean
+  restoreMasterReference?: boolean
+}
+
+export interface RestoreVersionResult {
+  character: any
+  restoredFields: string[]
+  preservedFields: string[]
+}
+
+// Never copied from a version: system fields and the stable character identifier
+const SYSTEM_FIELDS = ['id', '_id', 'createdAt', 'updatedAt', '_status', 'characterId']
+
+// Project scoping that API keys are authorized against; a restore must not move the character
+const PROJECT_FIELDS = ['novelMovieIntegration']
+
+// Fields describing generated images; preserved on restore unless requested
+const IMAGE_GALLERY_FIELDS = ['imageGallery', 'coreSetGenerated', 'coreSetGeneratedAt', 'coreSetQuality']
+const MASTER_REFERENCE_FIELDS = ['masterReferenceImage', 'masterReferenceProcessed', 'masterReferenceQuality']
+const ERA_MASTER_REFERENCE_FIELD = 'eras.masterReferenceImage'
+
+export class CharacterVersionService {
+  /**
+   * List versions of a character, newest first, with the fields each version changed
+   */
+  async listVersions(
+    payload: any,
+    characterId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ versions: CharacterVersionSummary[]; totalDocs: number; page: number; totalPages: number }> {
+    // Fetch one extra version so the oldest entry on the page can be diffed too
+    const result = await payload.findVersions({
+      collection: 'characters',
+      where: { parent: { equals: characterId } },
+      sort: '-updatedAt',
+      page,
+      limit,
+      depth: 0,
+    })
+
+    const docs = result.docs
+    let olderVersion: any = null
+    if (docs.length > 0 && result.hasNextPage) {
+      const next = await payload.findVersions({
+        collection: 'characters',
+        where: {
+          parent: { equals: characterId },
+          updatedAt: { less_than: docs[docs.length - 1].updatedAt },
+        },
+        sort: '-updatedAt',
+        limit: 1,
+        depth: 0,
+      })
+      olderVersion = next.docs[0] || null
+    }
+
+    const versions = docs.map((doc: any, index: number) => {
+      const previous = index + 1 < docs.length ? docs[index + 1] : olderVersion
+      const changes = previous ? this.diffDocuments(previous.version, doc.version) : []
+
+      return {
+        versionId: String(doc.id),
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+        latest: Boolean(doc.latest) || (page === 1 && index === 0),
+        name: doc.version?.name,
+        status: doc.version?.status,
+        changedFields: Array.from(new Set(changes.map((change) => change.path.split(/[.[]/)[0]))),
+      }
+    })
+
+    return {
+      versions,
+      totalDocs: result.totalDocs,
+      page: result.page,
+      totalPages: result.totalPages,
+    }
+  }
+
+  /**
+   * Get a single version, ensuring it belongs to the character
+   */
+  async getVersion(payload: any, characterId: string, versionId: string): Promise<any | null> {
+    try {
+      const version = await payload.findVersionByID({
+        collection: 'characters',
+        id: versionId,
+        depth: 0,
+      })
+
+      const parentId = typeof version?.parent === 'object' ? version.parent?.id : version?.parent
+      if (!version || String(parentId) !== String(characterId)) {
+        return null
+      }
+
+      return version
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Field-level diff between two versions; 'current' compares against the live document
+   */
+  async diffVersions(
+    payload: any,
+    characterId: string,
+    fromVersionId: string,
+    toVersionId: string = 'current'
+  ): Promise<{ changes: FieldChange[] } | null> {
+    const [from, to] = await Promise.all([
+      this.resolveSnapshot(payload, characterId, fromVersionId),
+      this.resolveSnapshot(payload, characterId, toVersionId),
+    ])
+
+    if (!from || !to) {
+      return null
+    }
+
+    return { changes: this.diffDocuments(from, to) }
+  }
+
+  /**
+   * Carry each era's live master reference over to the restored eras, matched by eraId.
+   * Eras that no longer exist keep the reference stored with the version.
+   */
+  private async keepEraMasterReferences(payload: any, characterId: string, eras: any[]): Promise<any[]> {
+    const current = await payload.findByID({
+      collection: 'characters',
+      id: characterId,
+      depth: 0,
+    })
+
+    const currentReferences = new Map<string, any>(
+      (current?.eras || []).map((era: any) => [era.eraId, era.masterReferenceImage ?? null])
+    )
+
+    return eras.map((era) =>
+      currentReferences.has(era.eraId) ? { ...era, masterReferenceImage: currentReferences.get(era.eraId) } : era
+    )
+  }
+
+  /**
+   * Restore a version onto the live character
+   * The restore itself is recorded as a new version.
+   */
+  async restoreVersion(
+    payload: any,
+    characterId: string,
+    versionId: string,
+    options: RestoreVersionOptions = {}
+  ): Promise<RestoreVersionResult | null> {
+    const version = await this.getVersion(payload, characterId, versionId)
+    if (!version) {
+      return null
+    }
+
+    const excluded = new Set([...SYSTEM_FIELDS, ...PROJECT_FIELDS])
+    const preservedFields: string[] = [...PROJECT_FIELDS]
+
+    if (!options.restoreImageGallery) {
+      IMAGE_GALLERY_FIELDS.forEach((field) => excluded.add(field))
+      preservedFields.push(...IMAGE_GALLERY_FIELDS)
+    }
+    if (!options.restoreMasterReference) {
+      MASTER_REFERENCE_FIELDS.forEach((field) => excluded.add(field))
+      preservedFields.push(...MASTER_REFERENCE_FIELDS, ERA_MASTER_REFERENCE_FIELD)
+    }
+
+    const data: Record<string, any> = {}
+    for (const [field, value] of Object.entries(version.version || {})) {
+      if (!excluded.has(field)) {
+        data[field] = value
+      }
+    }
+
+    if (!options.restoreMasterReference && Array.isArray(data.eras)) {
+      data.eras = await this.keepEraMasterReferences(payload, characterId, data.eras)
+    }
+
+    const character = await payload.update({
+      collection: 'characters',
+      id: characterId,
+      data,
+    })
+
+    console.log(`⏪ Restored character ${characterId} to version ${versionId}`)
+
+    return {
+      character,
+      restoredFields: Object.keys(data),
+      preservedFields,
+    }
+  }
+
+  /**
+   * Compute field-level changes between two plain documents
+   * Arrays of objects with ids are matched by id, other arrays by position.
+   */
+  diffDocuments(from: any, to: any): FieldChange[] {
+    const changes: FieldChange[] = []
+    const ignored = new Set(SYSTEM_FIELDS)
+
+    const keys = new Set([...Object.keys(from || {}), ...Object.keys(to || {})])
+    for (const key of keys) {
+      if (!ignored.has(key)) {
+        this.diffValues(key, from?.[key], to?.[key], changes)
+      }
+    }
+
+    return changes
+  }
+
+  private diffValues(path: string, from: any, to: any, changes: FieldChange[]): void {
+    const fromEmpty = from === undefined || from === null
+    const toEmpty = to === undefined || to === null
+
+    if (fromEmpty && toEmpty) return
+    if (fromEmpty) {
+      changes.push({ path, type: 'added', to })
+      return
+    }
+    if (toEmpty) {
+      changes.push({ path, type: 'removed', from })
+      return
+    }
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+      this.diffArrays(path, from, to, changes)
+      return
+    }
+
+    if (this.isPlainObject(from) && this.isPlainObject(to)) {
+      const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+      for (const key of keys) {
+        if (key !== 'id') {
+          this.diffValues(`${path}.${key}`, from[key], to[key], changes)
+        }
+      }
+      return
+    }
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ path, type: 'changed', from, to })
+    }
+  }
+
+  private diffArrays(path: string, from: any[], to: any[], changes: FieldChange[]): void {
+    const keyed = [...from, ...to].every((item) => this.isPlainObject(item) && item.id)
+
+    if (keyed) {
+      const fromById = new Map(from.map((item) => [item.id, item]))
+      const toById = new Map(to.map((item) => [item.id, item]))
+
+      for (const [id, item] of fromById) {
+        this.diffValues(`${path}[id=${id}]`, item, toById.get(id), changes)
+      }
+      for (const [id, item] of toById) {
+        if (!fromById.has(id)) {
+          changes.push({ path: `${path}[id=${id}]`, type: 'added', to: item })
+        }
+      }
+      return
+    }
+
+    const length = Math.max(from.length, to.length)
+    for (let i = 0; i < length; i++) {
+      this.diffValues(`${path}[${i}]`, from[i], to[i], changes)
+    }
+  }
+
+  private isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  private async resolveSnapshot(payload: any, characterId: string, versionId: string): Promise<any | null> {
+    if (versionId === 'current') {
+      try {
+        return await payload.findByID({ collection: 'characters', id: characterId, depth: 0 })
+      } catch {
+        return null
+      }
+    }
+
+    const version = await this.getVersion(payload, characterId, versionId)
+    return version?.version || null
+  }
+}
+
+// Export singleton instance
+export const characterVersionService = new CharacterVersionService()
@@ -10,6 +10,7 @@
 
 import { dinoOrchestrator } from './DinoOrchestrator'
 import { imageGenerationService } from './ImageGenerationService'
+import { UsageContext } from './UsageService'
 
 export interface MasterReferenceResult {
   success: boolean
@@ -151,6 +152,7 @@ export class CharacterWorkflowService {
           const generationResult = await imageGenerationService.generateImage(prompt, {
             referenceImageAssetId: masterReferenceAssetId,
             style: 'character_turnaround',
+            usage: { operation: '360-core-set', characterId, attempt: attempts },
           })
 
           if (!generationResult.success || !generationResult.imageBuffer) {
@@ -233,7 +235,8 @@ export class CharacterWorkflowService {
     prompt: string,
     masterReferenceAssetId: string,
     coreReferenceAssetIds: string[],
-    payload: any
+    payload: any,
+    usage?: UsageContext
   ): Promise<OnDemandGenerationResult> {
     try {
       console.log(`Generating on-demand image for character: ${characterId}`)
@@ -243,6 +246,7 @@ export class CharacterWorkflowService {
         referenceImageAssetId: masterReferenceAssetId,
         additionalReferenceIds: coreReferenceAssetIds,
         style: 'character_production',
+        usage: usage || { operation: 'on-demand-image', characterId },
       })
 
       if (!generationResult.success || !generationResult.imageBuffer) {
@@ -322,22 +326,7 @@ export class CharacterWorkflowService {
     error?: string
   }> {
     try {
-      // This would call the DINOv3 quality analysis endpoint
-      // For now, we'll simulate this since the orchestrator handles the API calls
-      const response = await fetch(`${process.env.DINO_SERVICE_URL}/analyze-quality`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.DINO_API_KEY}`,
-        },
-        body: JSON.stringify({ asset_id: dinoAssetId }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Quality analysis failed: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await dinoOrchestrator.analyzeQuality(dinoAssetId)
       return {
         success: true,
         qualityScore: result.quality_score,
@@ -7,11 +7,16 @@
 
 import { imageGenerationService } from './ImageGenerationService'
 import { dinoOrchestrator } from './DinoOrchestrator'
+import { UsageContext } from './UsageService'
+import { promptTemplateService } from './PromptTemplateService'
+import { stylePresetService, StylePreset } from './StylePresetService'
 
 export interface CoreSetGenerationOptions {
   customSeed?: number
   qualityThreshold?: number
   maxRetries?: number
+  usage?: UsageContext // Usage ledger attribution; defaults to the character with operation "core-set"
+  stylePreset?: StylePreset | null // Defaults to the preset pinned by the character's project
 }
 
 export interface CoreSetGenerationResult {
@@ -31,6 +36,9 @@ export interface GeneratedImageResult {
   consistencyScore: number
   validationNotes?: string
   generationTime: number
+  promptTemplate?: { id: string; version: number } | null // null when the built-in prompt was used
+  outfitId?: string | null // Wardrobe outfit from characterData.outfit
+  eraId?: string | null // Appearance era from characterData.era
 }
 
 export interface FailedImageResult {
@@ -61,6 +69,10 @@ export class CoreSetGenerationService {
       // Get master reference image URL for template substitution
       const masterReferenceUrl = await this.getMasterReferenceUrl(masterReferenceAssetId, payload)
 
+      const stylePreset = options.stylePreset !== undefined
+        ? options.stylePreset
+        : await stylePresetService.getProjectPreset(payload, characterData?.novelMovieIntegration?.projectId)
+
       const generatedImages: GeneratedImageResult[] = []
       const failedImages: FailedImageResult[] = []
       let totalAttempts = 0
@@ -75,7 +87,7 @@ export class CoreSetGenerationService {
           masterReferenceAssetId,
           masterReferenceUrl,
           payload,
-          options
+          { ...options, usage: options.usage || { operation: 'core-set', characterId }, stylePreset }
         )
 
         totalAttempts += result.attempts
@@ -137,6 +149,13 @@ export class CoreSetGenerationService {
     const maxRetries = options.maxRetries || 3
     let attempts = 0
 
+    // Project override or A/B variant of the shot's prompt, if one is active
+    const promptTemplate = await promptTemplateService.resolveTemplate(payload, 'reference-shot', {
+      projectId: characterData?.novelMovieIntegration?.projectId,
+      shotSlug: referenceShot.slug,
+      assignmentKey: characterData?.id,
+    })
+
     while (attempts < maxRetries) {
       attempts++
       const attemptStartTime = Date.now()
@@ -152,6 +171,9 @@ export class CoreSetGenerationService {
           referenceShot,
           characterData,
           masterReferenceUrl,
+          promptTemplate: promptTemplate?.body,
+          stylePreset: options.stylePreset,
+          usage: options.usage && { ...options.usage, attempt: attempts },
         })
 
         if (!generationResult.success || !generationResult.imageBuffer) {
@@ -188,6 +210,9 @@ export class CoreSetGenerationService {
           consistencyScore: validationResult.consistencyScore,
           validationNotes: validationResult.notes,
           generationTime,
+          promptTemplate: promptTemplate && { id: promptTemplate.id, version: promptTemplate.version },
+          outfitId: characterData?.outfit?.outfitId || null,
+          eraId: characterData?.era?.eraId || null,
         }
 
         // Check if quality meets threshold
@@ -0,0 +1,73 @@
+/**
+ * DINOv3 Adapter
+ *
+ * Backend contract behind DinoOrchestrator: the remote DINOv3 HTTP service or
+ * the in-process local stand-in. Response shapes follow the remote API.
+ */
+
+import { DINO_CONFIG, DinoBackendName } from '../lib/config/dino'
+import { LocalDinoAdapter } from './LocalDinoAdapter'
+import { RemoteDinoAdapter } from './RemoteDinoAdapter'
+
+export interface DinoUploadResponse {
+  asset_id: string
+  media_url: string
+  metadata: {
+    filename: string
+    size: number
+    content_type: string
+    upload_timestamp: string
+  }
+}
+
+export interface DinoFeaturesResponse {
+  asset_id: string
+  features: number[] // 384-dimensional vector
+  processing_status: string
+}
+
+export interface DinoQualityResponse {
+  asset_id: string
+  quality_score: number
+  diversity_score: number
+  feature_stats: {
+    mean: number
+    std: number
+    max: number
+    min: number
+  }
+}
+
+export interface DinoConsistencyResponse {
+  reference_asset_id: string
+  test_asset_id: string
+  same_character: boolean
+  similarity_score: number
+  confidence: number
+  explanation: string
+}
+
+export interface DinoAdapter {
+  readonly name: DinoBackendName
+  isConfigured(): boolean
+  uploadMedia(imageBuffer: Buffer, filename: string): Promise<DinoUploadResponse>
+  extractFeatures(assetId: string): Promise<DinoFeaturesResponse>
+  analyzeQuality(assetId: string): Promise<DinoQualityResponse>
+  validateConsistency(testAssetId: string, referenceAssetId: string): Promise<DinoConsistencyResponse>
+  getConfig(): Record<string, any>
+}
+
+/**
+ * Create the adapter selected by DINO_BACKEND (defaults to the remote service)
+ */
+export function createDinoAdapter(name: DinoBackendName = DINO_CONFIG.backend): DinoAdapter {
+  switch (name) {
+    case 'local':
+      return new LocalDinoAdapter()
+    case 'remote':
+      return new RemoteDinoAdapter()
+    default:
+      console.warn(`Unknown DINO_BACKEND "${name}", falling back to remote`)
+      return new RemoteDinoAdapter()
+  }
+}
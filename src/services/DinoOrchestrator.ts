@@ -3,44 +3,23 @@
  * 
  * This service manages all interactions with the DINOv3 image analysis service.
  * It handles image upload, feature extraction, quality analysis, and consistency validation.
+ * The backend (remote service or local stand-in) is selected with DINO_BACKEND.
  */
 
-export interface DinoUploadResponse {
-  asset_id: string
-  media_url: string
-  metadata: {
-    filename: string
-    size: number
-    content_type: string
-    upload_timestamp: string
-  }
-}
-
-export interface DinoFeaturesResponse {
-  asset_id: string
-  features: number[] // 384-dimensional vector
-  processing_status: string
-}
-
-export interface DinoQualityResponse {
-  asset_id: string
-  quality_score: number
-  diversity_score: number
-  feature_stats: {
-    mean: number
-    std: number
-    max: number
-    min: number
-  }
-}
-
-export interface DinoConsistencyResponse {
-  reference_asset_id: string
-  test_asset_id: string
-  same_character: boolean
-  similarity_score: number
-  confidence: number
-  explanation: string
+import {
+  createDinoAdapter,
+  DinoAdapter,
+  DinoConsistencyResponse,
+  DinoFeaturesResponse,
+  DinoQualityResponse,
+  DinoUploadResponse,
+} from './DinoAdapter'
+
+export type {
+  DinoConsistencyResponse,
+  DinoFeaturesResponse,
+  DinoQualityResponse,
+  DinoUploadResponse,
 }
 
 export interface DinoValidationResult {
@@ -51,18 +30,12 @@ export interface DinoValidationResult {
 }
 
 export class DinoOrchestrator {
-  private baseUrl: string
-  private apiKey: string
+  private adapter: DinoAdapter
   private qualityThreshold: number = 70 // Configurable quality threshold
   private consistencyThreshold: number = 85 // Configurable consistency threshold
 
-  constructor() {
-    this.baseUrl = process.env.DINO_SERVICE_URL || 'https://dino.ft.tc'
-    this.apiKey = process.env.DINO_API_KEY || ''
-    
-    if (!this.apiKey) {
-      console.warn('DINO_API_KEY not set - DINOv3 service will not function')
-    }
+  constructor(adapter: DinoAdapter = createDinoAdapter()) {
+    this.adapter = adapter
   }
 
   /**
@@ -155,102 +128,31 @@ export class DinoOrchestrator {
    * Upload media file to DINOv3 service
    */
   private async uploadMedia(imageBuffer: Buffer, filename: string): Promise<DinoUploadResponse> {
-    console.log(`DINOv3 upload request:`, {
-      url: `${this.baseUrl}/api/v1/upload-media`,
-      filename,
-      bufferSize: imageBuffer.length,
-      hasApiKey: !!this.apiKey
-    })
-
-    const formData = new FormData()
-    const blob = new Blob([imageBuffer], { type: 'image/jpeg' })
-    formData.append('file', blob, filename)
-
-    const response = await fetch(`${this.baseUrl}/api/v1/upload-media`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: formData,
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`DINOv3 upload error details:`, {
-        status: response.status,
-        statusText: response.statusText,
-        errorBody: errorText,
-        url: `${this.baseUrl}/api/v1/upload-media`,
-        hasApiKey: !!this.apiKey
-      })
-      throw new Error(`DINOv3 upload failed: ${response.status} ${response.statusText} - ${errorText}`)
-    }
-
-    return await response.json()
+    return this.adapter.uploadMedia(imageBuffer, filename)
   }
 
   /**
    * Extract DINOv3 features from uploaded asset
    */
-  private async extractFeatures(assetId: string): Promise<DinoFeaturesResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/extract-features?asset_id=${encodeURIComponent(assetId)}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`DINOv3 feature extraction failed: ${response.status} ${response.statusText}`)
-    }
-
-    return await response.json()
+  async extractFeatures(assetId: string): Promise<DinoFeaturesResponse> {
+    return this.adapter.extractFeatures(assetId)
   }
 
   /**
    * Analyze image quality using DINOv3
    */
-  private async analyzeQuality(assetId: string): Promise<DinoQualityResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/analyze-quality`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({ asset_id: assetId }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`DINOv3 quality analysis failed: ${response.status} ${response.statusText}`)
-    }
-
-    return await response.json()
+  async analyzeQuality(assetId: string): Promise<DinoQualityResponse> {
+    return this.adapter.analyzeQuality(assetId)
   }
 
   /**
    * Validate consistency between two assets
    */
-  private async validateConsistency(
+  async validateConsistency(
     testAssetId: string, 
     referenceAssetId: string
   ): Promise<DinoConsistencyResponse> {
-    const response = await fetch(`${this.baseUrl}/api/v1/validate-consistency`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        reference_asset_id: referenceAssetId,
-        test_asset_id: testAssetId,
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`DINOv3 consistency validation failed: ${response.status} ${response.statusText}`)
-    }
-
-    return await response.json()
+    return this.adapter.validateConsistency(testAssetId, referenceAssetId)
   }
 
   /**
@@ -272,10 +174,9 @@ export class DinoOrchestrator {
    */
   getConfig() {
     return {
-      baseUrl: this.baseUrl,
+      ...this.adapter.getConfig(),
       qualityThreshold: this.qualityThreshold,
       consistencyThreshold: this.consistencyThreshold,
-      hasApiKey: !!this.apiKey,
     }
   }
 }
@@ -10,11 +10,17 @@ import { EnhancedPromptBuilder } from './EnhancedPromptBuilder'
 import { CinematicParameterCalculator } from './CinematicParameterCalculator'
 import { imageGenerationService } from './ImageGenerationService'
 import { dinoOrchestrator } from './DinoOrchestrator'
+import { promptTemplateService, ResolvedPromptTemplate } from './PromptTemplateService'
+import { stylePresetService } from './StylePresetService'
 
 export interface EnhancedCoreSetGenerationOptions extends CoreSetGenerationOptions {
   useEnhancedPrompts?: boolean
   validateCameraParameters?: boolean
   enhancedQualityThreshold?: number
+  signal?: AbortSignal // Stops generation between shots when the job is cancelled
+  onShotResult?: (result: EnhancedGeneratedImageResult) => void // Called as each shot finishes
+  skipReferenceShotIds?: string[] // Shots already generated by an earlier run (resume)
+  preserveExistingGallery?: boolean // Merge into the gallery instead of replacing it
 }
 
 export interface EnhancedCoreSetGenerationResult extends CoreSetGenerationResult {
@@ -54,6 +60,9 @@ export interface EnhancedGeneratedImageResult {
   validationNotes?: string
   generationTime?: number
   attempts?: number
+  promptTemplate?: { id: string; version: number } | null
+  outfitId?: string | null
+  eraId?: string | null
   error?: string
 }
 
@@ -88,8 +97,16 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
     })
 
     // Get ALL enhanced reference shots (25+ guaranteed)
-    const referenceShots = await this.getAllEnhancedReferenceShots(payload, options)
-    
+    const allReferenceShots = await this.getAllEnhancedReferenceShots(payload, options)
+
+    // Skip shots that an earlier run already produced
+    const skipIds = new Set(options.skipReferenceShotIds || [])
+    const referenceShots = allReferenceShots.filter((shot: any) => !skipIds.has(shot.id))
+
+    if (skipIds.size > 0) {
+      console.log(`⏭️ Skipping ${allReferenceShots.length - referenceShots.length} already generated shots`)
+    }
+
     console.log(`📋 Generating complete reference library: ${referenceShots.length} shots`)
 
     const results = {
@@ -120,8 +137,31 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
     // Get master reference URL for enhanced prompts
     const masterReferenceUrl = await this.getEnhancedMasterReferenceUrl(masterReferenceAssetId, payload)
 
+    // One cinematic template version per character, so a whole set shares the same A/B variant
+    const promptTemplate = options.useEnhancedPrompts !== false
+      ? await promptTemplateService.resolveTemplate(payload, 'cinematic-reference', {
+          projectId: characterData?.novelMovieIntegration?.projectId,
+          assignmentKey: characterId,
+        })
+      : null
+    if (promptTemplate) {
+      console.log(`📝 Using prompt template ${promptTemplate.id} (v${promptTemplate.version})`)
+    }
+
+    const stylePreset = options.stylePreset !== undefined
+      ? options.stylePreset
+      : await stylePresetService.getProjectPreset(payload, characterData?.novelMovieIntegration?.projectId)
+    if (stylePreset) {
+      console.log(`🎨 Using style preset: ${stylePreset.name}`)
+    }
+
     // Generate images with enhanced prompts and validation
     for (let i = 0; i < referenceShots.length; i++) {
+      if (options.signal?.aborted) {
+        console.log(`🛑 Generation aborted after ${i}/${referenceShots.length} shots`)
+        break
+      }
+
       const referenceShot = referenceShots[i]
       try {
         console.log(`🎨 Generating: ${referenceShot.shotName} (${i + 1}/${referenceShots.length})`)
@@ -137,7 +177,8 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           masterReferenceUrl,
           characterData,
           payload,
-          options
+          { ...options, usage: options.usage || { operation: 'core-set', characterId }, stylePreset },
+          promptTemplate
         )
 
         if (enhancedResult.success) {
@@ -162,6 +203,7 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           }
 
           console.log(`✅ Generated: ${referenceShot.shotName} (Score: ${enhancedResult.cinematicQuality || 'N/A'})`)
+          options.onShotResult?.(enhancedResult)
 
         } else {
           results.failedImages.push({
@@ -171,6 +213,7 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           })
           results.shotBreakdown.failed++
           console.log(`❌ Failed: ${referenceShot.shotName} - ${enhancedResult.error}`)
+          options.onShotResult?.({ ...enhancedResult, referenceShot })
         }
 
         results.totalAttempts += enhancedResult.attempts || 1
@@ -183,6 +226,12 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           attempts: 1,
         })
         results.shotBreakdown.failed++
+        options.onShotResult?.({
+          success: false,
+          referenceShot,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          attempts: 1,
+        })
       }
     }
 
@@ -193,7 +242,12 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
 
     // Update character with enhanced metadata
     if (results.generatedImages.length > 0) {
-      await this.updateCharacterWithEnhancedImages(characterId, results.generatedImages, payload)
+      await this.updateCharacterWithEnhancedImages(
+        characterId,
+        results.generatedImages,
+        payload,
+        options.preserveExistingGallery
+      )
     }
 
     const generationTime = Date.now() - startTime
@@ -203,7 +257,8 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
     console.log(`🎯 Quality: Camera ${results.enhancedMetrics.averageCameraAccuracy}%, Composition ${results.enhancedMetrics.averageCompositionCompliance}%, Cinematic ${results.enhancedMetrics.averageCinematicQuality}%`)
 
     return {
-      success: results.generatedImages.length > 0,
+      // Nothing left to generate counts as success when resuming
+      success: results.generatedImages.length > 0 || referenceShots.length === 0,
       generatedImages: results.generatedImages.map(img => ({
         imageId: img.imageId || '',
         referenceShot: img.referenceShot,
@@ -214,6 +269,9 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
         validationNotes: img.validationNotes || '',
         generationTime: img.generationTime || 0,
         attempts: img.attempts || 1,
+        promptTemplate: img.promptTemplate || null,
+        outfitId: img.outfitId || null,
+        eraId: img.eraId || null,
       })),
       failedImages: results.failedImages,
       totalAttempts: results.totalAttempts,
@@ -221,7 +279,9 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
       shotBreakdown: results.shotBreakdown,
       enhancedValidation: results.enhancedValidation,
       generationTime,
-      error: results.generatedImages.length === 0 ? 'No images were successfully generated' : undefined
+      error: results.generatedImages.length === 0 && referenceShots.length > 0
+        ? 'No images were successfully generated'
+        : undefined
     }
   }
 
@@ -260,7 +320,8 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
     masterReferenceUrl: string,
     characterData: any,
     payload: any,
-    options: EnhancedCoreSetGenerationOptions
+    options: EnhancedCoreSetGenerationOptions,
+    promptTemplate: ResolvedPromptTemplate | null = null
   ): Promise<EnhancedGeneratedImageResult> {
     const maxRetries = options.maxRetries || 3
     let attempts = 0
@@ -277,7 +338,8 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           prompt = this.promptBuilder.buildEnhancedPrompt(
             referenceShot,
             characterData,
-            masterReferenceUrl
+            masterReferenceUrl,
+            promptTemplate?.body
           )
           console.log(`🎨 Enhanced prompt: "${prompt.substring(0, 150)}..."`)
         } else {
@@ -299,6 +361,8 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           style: 'character_production',
           seed: options.customSeed ? options.customSeed + attempts : undefined,
           referenceShot: referenceShot,
+          stylePreset: options.stylePreset,
+          usage: options.usage && { ...options.usage, attempt: attempts },
         })
 
         if (!generationResult.success || !generationResult.imageBuffer) {
@@ -335,6 +399,9 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
           validationNotes: enhancedValidation.validationNotes,
           generationTime: generationResult.metadata?.generationTime || Date.now() - startTime,
           attempts,
+          promptTemplate: promptTemplate && { id: promptTemplate.id, version: promptTemplate.version },
+          outfitId: characterData?.outfit?.outfitId || null,
+          eraId: characterData?.era?.eraId || null,
         }
 
       } catch (error) {
@@ -475,11 +542,20 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
   /**
    * Update character with enhanced image metadata
    */
-  private async updateCharacterWithEnhancedImages(characterId: string, generatedImages: any[], payload: any) {
-    const imageGalleryUpdate = generatedImages.map(img => ({
+  private async updateCharacterWithEnhancedImages(
+    characterId: string,
+    generatedImages: any[],
+    payload: any,
+    preserveExistingGallery: boolean = false
+  ) {
+    const newGalleryItems = generatedImages.map(img => ({
       imageFile: img.imageId,
       isCoreReference: true,
       referenceShot: img.referenceShot.id,
+      promptTemplate: img.promptTemplate?.id,
+      promptTemplateVersion: img.promptTemplate?.version,
+      outfitId: img.outfitId || undefined,
+      eraId: img.eraId || undefined,
       
       // Enhanced metadata
       lens: img.referenceShot.lensMm,
@@ -509,19 +585,50 @@ export class EnhancedCoreSetGenerationService extends CoreSetGenerationService {
       generationTime: img.generationTime,
     }))
 
+    // Every image of a run shares the outfit and era it was generated in
+    const outfitId = generatedImages[0]?.outfitId || null
+    const eraId = generatedImages[0]?.eraId || null
+    const isSameLook = (item: any) => (item.outfitId || null) === outfitId && (item.eraId || null) === eraId
+
+    const character = await payload.findByID({
+      collection: 'characters',
+      id: characterId,
+      depth: 0,
+    })
+    const existingGallery: any[] = character?.imageGallery || []
+
+    // Images of other outfits and eras are never replaced; each look keeps its own core set
+    let imageGalleryUpdate: any[] = [
+      ...existingGallery.filter((item) => !isSameLook(item)),
+      ...newGalleryItems,
+    ]
+
+    if (preserveExistingGallery) {
+      // Keep earlier images, replacing any entry for a shot that was regenerated in this look
+      const regeneratedShotIds = new Set(newGalleryItems.map(item => item.referenceShot))
+      const existingItems = existingGallery.filter((item: any) => {
+        const shotId = typeof item.referenceShot === 'object' ? item.referenceShot?.id : item.referenceShot
+        return !shotId || !regeneratedShotIds.has(shotId) || !isSameLook(item)
+      })
+      imageGalleryUpdate = [...existingItems, ...newGalleryItems]
+    }
+
     await payload.update({
       collection: 'characters',
       id: characterId,
       data: {
         imageGallery: imageGalleryUpdate,
-        coreSetGenerated: true,
-        coreSetGeneratedAt: new Date().toISOString(),
-        enhancedCoreSetGenerated: true,
-        enhancedGenerationMetrics: {
-          totalShots: generatedImages.length,
-          averageCinematicQuality: this.calculateAverage(generatedImages.map(img => img.cinematicQuality || 75)),
-          generatedAt: new Date().toISOString()
-        }
+        // The core set flags describe the base look; outfit and era sets are found by their IDs
+        ...(!eraId && !outfitId && {
+          coreSetGenerated: true,
+          coreSetGeneratedAt: new Date().toISOString(),
+          enhancedCoreSetGenerated: true,
+          enhancedGenerationMetrics: {
+            totalShots: imageGalleryUpdate.filter(item => item.isCoreReference && !item.eraId && !item.outfitId).length,
+            averageCinematicQuality: this.calculateAverage(generatedImages.map(img => img.cinematicQuality || 75)),
+            generatedAt: new Date().toISOString()
+          }
+        }),
       },
     })
   }
@@ -3,8 +3,13 @@
  * 
  * Transforms the existing template-based system into a precision cinematographic
  * reference generator with exact technical specifications and intelligent parameter calculation.
+ * The built-in cinematic template can be replaced per project through the
+ * prompt-templates collection (see PromptTemplateService).
  */
 
+import { PlaceholderSchema } from '../lib/config/prompt-templates'
+import type { PromptOutfit } from './WardrobeService'
+
 export interface EnhancedReferenceShot {
   // Existing fields
   slug: string
@@ -33,6 +38,7 @@ export interface EnhancedReferenceShot {
   thirds?: string
   headroom?: string
   whenToUse?: string
+  expressionCues?: string // Facial cues spelling out the expression (expression sheets)
   sceneTypes?: string[]
   priority?: number
   negativePrompts?: string
@@ -43,6 +49,8 @@ export interface CharacterData {
   name: string
   physicalDescription?: string
   personality?: string
+  clothing?: string
+  outfit?: PromptOutfit | null // Wardrobe outfit selected for this generation
   [key: string]: any
 }
 
@@ -60,6 +68,7 @@ export interface PromptPlaceholders {
   SUBJECT_YAW: number
   GAZE: string
   POSE: string
+  EXPRESSION: string
   FSTOP: number
   ISO: number
   SHUTTER: string
@@ -67,6 +76,7 @@ export interface PromptPlaceholders {
   REF_WEIGHT: number
   NEGATIVE_PROMPTS: string
   COMPOSITION_NOTES: string
+  OUTFIT: string
 }
 
 export class EnhancedPromptBuilder {
@@ -84,7 +94,7 @@ COMPOSITION:
 - crop: {CROP} | thirds: {THIRDS} | headroom: {HEADROOM}
 
 SUBJECT:
-- shoulder yaw: {SUBJECT_YAW}° | gaze: {GAZE} | pose: {POSE}
+- shoulder yaw: {SUBJECT_YAW}° | gaze: {GAZE} | pose: {POSE} | expression: {EXPRESSION}
 
 EXPOSURE: f/{FSTOP}, ISO {ISO}, 1/{SHUTTER}s
 FOCUS: eyes tack sharp; realistic pores; natural micro-speculars.
@@ -105,14 +115,17 @@ reference_weight: {REF_WEIGHT}
 
   /**
    * Build enhanced cinematic prompt with precise technical specifications
+   * Uses the built-in cinematic template unless a template from the database is given.
    */
   buildEnhancedPrompt(
     referenceShot: EnhancedReferenceShot,
     characterData: CharacterData,
-    masterRefUrl: string
+    masterRefUrl: string,
+    template: string = this.CINEMATIC_TEMPLATE
   ): string {
     const placeholders = this.calculatePlaceholders(referenceShot, characterData, masterRefUrl)
-    return this.replacePlaceholders(this.CINEMATIC_TEMPLATE, placeholders)
+    const prompt = appendOutfit(renderPromptTemplate(template, placeholders), template, characterData)
+    return appendExpression(prompt, template, referenceShot.expression, placeholders.EXPRESSION)
   }
 
   /**
@@ -137,6 +150,7 @@ reference_weight: {REF_WEIGHT}
       SUBJECT_YAW: referenceShot.subjectYawDeg || this.calculateSubjectYaw(referenceShot.cameraAzimuthDeg || 0),
       GAZE: referenceShot.gaze || this.calculateGaze(referenceShot.cameraAzimuthDeg || 0),
       POSE: referenceShot.pose,
+      EXPRESSION: describeExpression(referenceShot),
       FSTOP: referenceShot.fStop,
       ISO: referenceShot.iso,
       SHUTTER: referenceShot.shutterSpeed,
@@ -144,6 +158,7 @@ reference_weight: {REF_WEIGHT}
       REF_WEIGHT: referenceShot.referenceWeight,
       NEGATIVE_PROMPTS: this.generateNegativePrompts(referenceShot),
       COMPOSITION_NOTES: referenceShot.compositionNotes || '',
+      OUTFIT: describeOutfit(characterData),
     }
   }
 
@@ -259,24 +274,19 @@ reference_weight: {REF_WEIGHT}
     return fStopMap[lens] || 2.0
   }
 
-  /**
-   * Replace placeholders in template string
-   */
-  private replacePlaceholders(template: string, placeholders: PromptPlaceholders): string {
-    let result = template
-    
-    Object.entries(placeholders).forEach(([key, value]) => {
-      const placeholder = `{${key}}`
-      result = result.replace(new RegExp(placeholder, 'g'), String(value))
-    })
-    
-    return result
-  }
-
   /**
    * Validate enhanced prompt for completeness
+   * With a placeholder schema the prompt is checked as an unrendered template:
+   * every placeholder must be known to the renderer and required ones must be used.
    */
-  validatePrompt(prompt: string): { isValid: boolean; errors: string[]; warnings: string[] } {
+  validatePrompt(
+    prompt: string,
+    schema?: PlaceholderSchema
+  ): { isValid: boolean; errors: string[]; warnings: string[] } {
+    if (schema) {
+      return this.validateTemplate(prompt, schema)
+    }
+
     const errors: string[] = []
     const warnings: string[] = []
 
@@ -319,6 +329,40 @@ reference_weight: {REF_WEIGHT}
     }
   }
 
+  /**
+   * Check an unrendered template against its placeholder schema
+   */
+  private validateTemplate(
+    template: string,
+    schema: PlaceholderSchema
+  ): { isValid: boolean; errors: string[]; warnings: string[] } {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const used = new Set(getTemplatePlaceholders(template))
+
+    const unknown = Array.from(used).filter((name) => !schema.placeholders.includes(name))
+    if (unknown.length > 0) {
+      errors.push(`Unknown placeholders: ${unknown.map((name) => `{${name}}`).join(', ')}`)
+    }
+
+    const missing = schema.required.filter((name) => !used.has(name))
+    if (missing.length > 0) {
+      errors.push(`Missing required placeholders: ${missing.map((name) => `{${name}}`).join(', ')}`)
+    }
+
+    for (const section of schema.sections || []) {
+      if (!template.includes(section)) {
+        warnings.push(`Missing section: ${section}`)
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
   /**
    * Generate enhanced file name pattern
    */
@@ -337,3 +381,68 @@ reference_weight: {REF_WEIGHT}
     return `${charName}_${lens}mm_${angle}_${crop}_${expression}_v${attempt}_${timestamp}.png`
   }
 }
+
+/**
+ * Replace {NAME} placeholders in a template; unknown placeholders are left as-is
+ */
+export function renderPromptTemplate(template: string, values: object): string {
+  let result = template
+
+  for (const [key, value] of Object.entries(values)) {
+    result = result.split(`{${key}}`).join(String(value))
+  }
+
+  return result
+}
+
+/**
+ * Wardrobe text for the {OUTFIT} placeholder: the selected outfit, else the usual clothing
+ */
+export function describeOutfit(characterData: { outfit?: PromptOutfit | null; clothing?: unknown }): string {
+  if (characterData.outfit) {
+    return `wearing ${characterData.outfit.name}: ${characterData.outfit.description}`
+  }
+  return typeof characterData.clothing === 'string' && characterData.clothing.trim()
+    ? `wearing ${characterData.clothing.trim()}`
+    : ''
+}
+
+/**
+ * Templates without {OUTFIT} (including the built-in ones) still need a selected outfit
+ */
+export function appendOutfit(
+  prompt: string,
+  template: string,
+  characterData: { outfit?: PromptOutfit | null }
+): string {
+  if (!characterData.outfit || template.includes('{OUTFIT}')) return prompt
+  return `${prompt}\nWARDROBE: ${describeOutfit(characterData)}`
+}
+
+/**
+ * Text for the {EXPRESSION} placeholder, with the shot's facial cues when it has them
+ */
+export function describeExpression(shot: Pick<EnhancedReferenceShot, 'expression' | 'expressionCues'>): string {
+  const expression = shot.expression || 'neutral'
+  return shot.expressionCues ? `${expression} (${shot.expressionCues})` : expression
+}
+
+/**
+ * Templates without {EXPRESSION} still need a non-neutral expression spelled out
+ */
+export function appendExpression(
+  prompt: string,
+  template: string,
+  expression: string | undefined,
+  description: string
+): string {
+  if (!expression || expression === 'neutral' || template.includes('{EXPRESSION}')) return prompt
+  return `${prompt}\nEXPRESSION: ${description}`
+}
+
+/**
+ * Placeholder names used in a template, e.g. ["CHARACTER", "LENS"]
+ */
+export function getTemplatePlaceholders(template: string): string[] {
+  return (template.match(/\{[A-Z_]+\}/g) || []).map((placeholder) => placeholder.slice(1, -1))
+}
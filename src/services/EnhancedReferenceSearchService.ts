@@ -3,11 +3,16 @@
  * 
  * Scene-aware image selection with detailed reasoning and scoring system.
  * Intelligently matches reference images to scene requirements with comprehensive analysis.
+ * Ranking is done by the shared pipeline in ReferenceRankingService.
  */
 
 import { getPayload } from 'payload'
 import config from '@payload-config'
-import { SceneAnalysisEngine, SceneAnalysis } from './SceneAnalysisEngine'
+import type { SceneAnalysis } from './SceneAnalysisEngine'
+import { sceneAnalysisService } from './SceneAnalysisService'
+import { appearanceEraService, EraSummary } from './AppearanceEraService'
+import { referenceRankingService, RankingCandidate, RankedReference } from './ReferenceRankingService'
+import type { RankingFeature } from '../lib/config/reference-ranking'
 
 export interface ReferenceImage {
   id: string
@@ -42,16 +47,9 @@ export interface ReferenceImage {
 }
 
 export interface ScoredReferenceImage extends ReferenceImage {
-  scores: {
-    sceneTypeMatch: number
-    lensPreference: number
-    cropPreference: number
-    anglePreference: number
-    emotionalTone: number
-    compositionMatch: number
-    qualityScore: number
-  }
+  scores: Partial<Record<RankingFeature, number>> // 0-100 per ranking feature
   totalScore: number
+  reasons: string[]
 }
 
 export interface SearchOptions {
@@ -60,6 +58,8 @@ export interface SearchOptions {
   includeAlternatives?: boolean
   minQualityScore?: number
   maxResults?: number
+  eraId?: string // Appearance era to search; defaults to the era of storyYear
+  storyYear?: number
 }
 
 export interface SceneReferenceResult {
@@ -74,6 +74,7 @@ export interface SceneReferenceResult {
   reasoning?: string
   alternatives?: ScoredReferenceImage[]
   sceneAnalysis?: SceneAnalysis
+  era?: EraSummary | null // Era searched (null for the base look)
   searchMetrics?: {
     totalImagesEvaluated: number
     averageScore: number
@@ -84,11 +85,10 @@ export interface SceneReferenceResult {
 
 export class EnhancedReferenceSearchService {
   private payload: any
-  private sceneAnalysisEngine: SceneAnalysisEngine
 
-  constructor() {
-    this.payload = null
-    this.sceneAnalysisEngine = new SceneAnalysisEngine()
+  // Without a payload instance, the local API is loaded on first search
+  constructor(payload: any = null) {
+    this.payload = payload
   }
 
   async initialize() {
@@ -110,36 +110,52 @@ export class EnhancedReferenceSearchService {
     }
 
     try {
-      // Step 1: Analyze scene context
-      const sceneAnalysis = this.sceneAnalysisEngine.analyzeSceneContext(sceneDescription)
-      console.log('📊 Scene analysis:', sceneAnalysis)
+      const character = await this.payload.findByID({
+        collection: 'characters',
+        id: characterId,
+      })
 
-      // Step 2: Get character's available reference images
-      const availableImages = await this.getCharacterReferenceImages(characterId, options)
-      console.log(`📸 Found ${availableImages.length} available reference images`)
+      // Step 1: Analyze scene context with the project's scene analyzer
+      const sceneAnalysis = await sceneAnalysisService.analyze(sceneDescription, {
+        payload: this.payload,
+        projectId: character?.novelMovieIntegration?.projectId,
+      })
+      console.log('📊 Scene analysis:', sceneAnalysis)
 
-      if (availableImages.length === 0) {
+      // Step 2: Rank the character's reference images for the scene's era
+      const era = appearanceEraService.selectEra(character, options)
+      if (era === undefined) {
         return {
           success: false,
-          error: 'No reference images found for this character',
+          error: `Era "${options.eraId}" is not defined for this character`,
           sceneAnalysis,
         }
       }
 
-      // Step 3: Score images based on scene requirements
-      const scoredImages = await this.scoreImagesForScene(availableImages, sceneAnalysis)
+      const { ranked, evaluated, profile } = await referenceRankingService.rankForCharacter(
+        character,
+        sceneDescription,
+        {
+          payload: this.payload,
+          analysis: sceneAnalysis,
+          filters: { minQualityScore: options.minQualityScore, era },
+        }
+      )
+      console.log(`📸 Ranked ${evaluated} available reference images${era ? ` in era "${era.name}"` : ''} (weights: ${profile?.name || 'defaults'})`)
 
-      // Step 4: Select best match with detailed reasoning
-      const bestMatch = scoredImages[0]
-      if (!bestMatch) {
+      if (evaluated === 0) {
         return {
           success: false,
-          error: 'No suitable reference images found for this scene',
+          error: era ? `No reference images found for era "${era.name}"` : 'No reference images found for this character',
           sceneAnalysis,
+          era: appearanceEraService.toSummary(era),
         }
       }
 
-      const reasoning = this.generateSelectionReasoning(bestMatch, sceneAnalysis)
+      // Step 3: Select best match with detailed reasoning
+      const scoredImages = ranked.map((image) => this.toScoredImage(image))
+      const bestMatch = scoredImages[0]
+      const reasoning = this.generateSelectionReasoning(bestMatch)
 
       return {
         success: true,
@@ -153,8 +169,9 @@ export class EnhancedReferenceSearchService {
         reasoning,
         alternatives: options.includeAlternatives ? scoredImages.slice(1, 4) : [], // Top 3 alternatives
         sceneAnalysis,
+        era: appearanceEraService.toSummary(era),
         searchMetrics: {
-          totalImagesEvaluated: availableImages.length,
+          totalImagesEvaluated: evaluated,
           averageScore: scoredImages.reduce((sum, img) => sum + img.totalScore, 0) / scoredImages.length,
           selectionConfidence: bestMatch.totalScore / 100, // Normalize to 0-1
         },
@@ -172,289 +189,74 @@ export class EnhancedReferenceSearchService {
   /**
    * Get character's available reference images
    */
-  private async getCharacterReferenceImages(characterId: string, options: SearchOptions): Promise<ReferenceImage[]> {
-    const character = await this.payload.findByID({
-      collection: 'characters',
-      id: characterId,
-    })
-
-    if (!character || !character.imageGallery) {
-      return []
-    }
-
-    const images: ReferenceImage[] = []
-
-    for (const galleryItem of character.imageGallery) {
-      if (!galleryItem.imageFile) continue
-
-      // Apply quality filter
-      if (options.minQualityScore && galleryItem.qualityScore < options.minQualityScore) {
-        continue
-      }
-
-      // Get image URL
-      const imageUrl = typeof galleryItem.imageFile === 'object' 
-        ? galleryItem.imageFile.url 
-        : galleryItem.imageFile
-
-      images.push({
-        id: galleryItem.id || `${characterId}_${images.length}`,
-        imageUrl,
-        mediaId: typeof galleryItem.imageFile === 'object' ? galleryItem.imageFile.id : galleryItem.imageFile,
-        dinoAssetId: galleryItem.dinoAssetId,
-        
-        // Shot metadata
-        lens: galleryItem.lens,
-        angle: galleryItem.angle,
-        crop: galleryItem.crop,
-        expression: galleryItem.expression,
-        pose: galleryItem.pose,
-        referenceShot: galleryItem.referenceShot,
-        
-        // Enhanced metadata
-        cameraAzimuthDeg: galleryItem.cameraAzimuthDeg,
-        cameraElevationDeg: galleryItem.cameraElevationDeg,
-        cameraDistanceM: galleryItem.cameraDistanceM,
-        gaze: galleryItem.gaze,
-        thirds: galleryItem.thirds,
-        recommendedFor: galleryItem.recommendedFor,
-        
-        // Quality scores
-        qualityScore: galleryItem.qualityScore || 75,
-        consistencyScore: galleryItem.consistencyScore || 75,
-        technicalScore: galleryItem.technicalScore || 75,
-        compositionScore: galleryItem.compositionScore || 75,
-        cinematicScore: galleryItem.cinematicScore || 75,
-        
-        metadata: galleryItem,
-      })
-    }
-
-    return images
-  }
-
-  /**
-   * Score images based on scene requirements
-   */
-  private async scoreImagesForScene(
-    images: ReferenceImage[],
-    sceneAnalysis: SceneAnalysis
-  ): Promise<ScoredReferenceImage[]> {
-    const scoredImages = images.map(image => {
-      const scores = {
-        sceneTypeMatch: this.scoreSceneTypeMatch(image, sceneAnalysis.sceneType),
-        lensPreference: this.scoreLensPreference(image, sceneAnalysis.requiredShots.preferredLens),
-        cropPreference: this.scoreCropPreference(image, sceneAnalysis.requiredShots.preferredCrop),
-        anglePreference: this.scoreAnglePreference(image, sceneAnalysis.requiredShots.preferredAngles),
-        emotionalTone: this.scoreEmotionalTone(image, sceneAnalysis.emotionalTone),
-        compositionMatch: this.scoreCompositionMatch(image, sceneAnalysis.compositionNeeds),
-        qualityScore: image.qualityScore || 75,
-      }
-
-      // Weighted total score
-      const totalScore = (
-        scores.sceneTypeMatch * 0.25 +
-        scores.lensPreference * 0.20 +
-        scores.cropPreference * 0.20 +
-        scores.anglePreference * 0.15 +
-        scores.emotionalTone * 0.10 +
-        scores.compositionMatch * 0.05 +
-        scores.qualityScore * 0.05
-      )
-
-      return {
-        ...image,
-        scores,
-        totalScore,
-      }
-    })
-
-    // Sort by total score (highest first)
-    return scoredImages.sort((a, b) => b.totalScore - a.totalScore)
-  }
-
-  /**
-   * Score scene type match
-   */
-  private scoreSceneTypeMatch(image: ReferenceImage, sceneType: string): number {
-    if (!image.recommendedFor) return 50 // Neutral if no recommendations
-
-    const sceneTypeMap: Record<string, string[]> = {
-      dialogue: ['close_dialogue', 'dialogue'],
-      action: ['action', 'action_sequences'],
-      emotional: ['emotional', 'emotional_moments'],
-      establishing: ['establishing', 'establishing_shots', 'introduction'],
-      transition: ['transition']
-    }
-
-    const relevantTypes = sceneTypeMap[sceneType] || []
-    const hasMatch = image.recommendedFor.some(rec => 
-      relevantTypes.some(type => rec.includes(type) || type.includes(rec))
+  getCharacterReferenceImages(character: any, options: SearchOptions = {}): ReferenceImage[] {
+    const candidates = referenceRankingService.filterCandidates(
+      referenceRankingService.collectCandidates(character),
+      { minQualityScore: options.minQualityScore }
     )
 
-    return hasMatch ? 90 : 40
+    return candidates.map((candidate) => this.toReferenceImage(candidate))
   }
 
-  /**
-   * Score lens preference match
-   */
-  private scoreLensPreference(image: ReferenceImage, preferredLens: number[]): number {
-    if (!image.lens || preferredLens.length === 0) return 50
-
-    if (preferredLens.includes(image.lens)) {
-      return 95
+  private toReferenceImage(candidate: RankingCandidate): ReferenceImage {
+    return {
+      id: candidate.id,
+      imageUrl: candidate.imageUrl,
+      mediaId: candidate.mediaId,
+      dinoAssetId: candidate.dinoAssetId,
+
+      // Shot metadata
+      lens: candidate.lens,
+      angle: candidate.angle,
+      crop: candidate.crop,
+      expression: candidate.expression,
+      pose: candidate.item.pose,
+      referenceShot: candidate.referenceShot,
+
+      // Enhanced metadata
+      cameraAzimuthDeg: candidate.cameraAzimuthDeg,
+      cameraElevationDeg: candidate.item.cameraElevationDeg,
+      cameraDistanceM: candidate.item.cameraDistanceM,
+      gaze: candidate.gaze,
+      thirds: candidate.item.thirds,
+      recommendedFor: candidate.recommendedFor,
+
+      // Quality scores
+      qualityScore: candidate.qualityScore,
+      consistencyScore: candidate.consistencyScore,
+      technicalScore: candidate.item.technicalScore,
+      compositionScore: candidate.item.compositionScore,
+      cinematicScore: candidate.item.cinematicScore,
+
+      metadata: candidate.item,
     }
-
-    // Partial credit for close matches
-    const closestLens = preferredLens.reduce((closest, lens) => 
-      Math.abs(lens - image.lens!) < Math.abs(closest - image.lens!) ? lens : closest
-    )
-
-    const difference = Math.abs(closestLens - image.lens)
-    return Math.max(20, 95 - (difference * 10)) // Reduce score by 10 per mm difference
   }
 
   /**
-   * Score crop preference match
+   * Result shape of a ranked reference, with per-feature scores on the 0-100 scale
    */
-  private scoreCropPreference(image: ReferenceImage, preferredCrops: string[]): number {
-    if (!image.crop || preferredCrops.length === 0) return 50
-
-    if (preferredCrops.includes(image.crop)) {
-      return 95
+  private toScoredImage(image: RankedReference): ScoredReferenceImage {
+    const scores: ScoredReferenceImage['scores'] = {}
+    for (const [feature, value] of Object.entries(image.features)) {
+      scores[feature as RankingFeature] = Math.round(value!.score * 100)
     }
 
-    // Partial credit for similar crops
-    const cropSimilarity: Record<string, string[]> = {
-      'cu': ['mcu'],
-      'mcu': ['cu', '3q'],
-      '3q': ['mcu', 'full'],
-      'full': ['3q'],
-      'hands': []
+    return {
+      ...this.toReferenceImage(image),
+      scores,
+      totalScore: image.score,
+      reasons: image.reasons,
     }
-
-    const similarCrops = cropSimilarity[image.crop] || []
-    const hasSimilar = preferredCrops.some(crop => similarCrops.includes(crop))
-
-    return hasSimilar ? 70 : 30
-  }
-
-  /**
-   * Score angle preference match
-   */
-  private scoreAnglePreference(image: ReferenceImage, preferredAngles: number[]): number {
-    if (!image.cameraAzimuthDeg && preferredAngles.length === 0) return 50
-
-    const imageAzimuth = image.cameraAzimuthDeg || 0
-
-    if (preferredAngles.includes(imageAzimuth)) {
-      return 95
-    }
-
-    // Find closest angle
-    const closestAngle = preferredAngles.reduce((closest, angle) => 
-      Math.abs(angle - imageAzimuth) < Math.abs(closest - imageAzimuth) ? angle : closest
-    )
-
-    const difference = Math.abs(closestAngle - imageAzimuth)
-    return Math.max(20, 95 - (difference * 0.5)) // Reduce score by 0.5 per degree difference
-  }
-
-  /**
-   * Score emotional tone match
-   */
-  private scoreEmotionalTone(image: ReferenceImage, emotionalTone: string): number {
-    if (!image.expression) return 50
-
-    const toneExpressionMap: Record<string, string[]> = {
-      neutral: ['neutral'],
-      tense: ['concerned', 'worried', 'tense'],
-      intimate: ['gentle', 'soft', 'vulnerable'],
-      dramatic: ['determined', 'intense', 'strong'],
-      contemplative: ['thoughtful', 'contemplative', 'pondering']
-    }
-
-    const relevantExpressions = toneExpressionMap[emotionalTone] || ['neutral']
-    const hasMatch = relevantExpressions.some(expr => 
-      image.expression!.includes(expr) || expr.includes(image.expression!)
-    )
-
-    return hasMatch ? 85 : 45
-  }
-
-  /**
-   * Score composition match
-   */
-  private scoreCompositionMatch(image: ReferenceImage, compositionNeeds: any): number {
-    let score = 50
-
-    // Eye contact requirement
-    if (compositionNeeds.eyeContact && image.gaze === 'to_camera') {
-      score += 15
-    } else if (!compositionNeeds.eyeContact && image.gaze !== 'to_camera') {
-      score += 10
-    }
-
-    // Profile work requirement
-    if (compositionNeeds.profileWork && Math.abs(image.cameraAzimuthDeg || 0) >= 75) {
-      score += 15
-    }
-
-    // Full body requirement
-    if (compositionNeeds.fullBodyNeeded && image.crop === 'full') {
-      score += 15
-    }
-
-    // Hands importance
-    if (compositionNeeds.handsImportant && image.crop === 'hands') {
-      score += 20
-    }
-
-    return Math.min(100, score)
   }
 
   /**
    * Generate detailed selection reasoning
    */
-  private generateSelectionReasoning(
-    selectedImage: ScoredReferenceImage,
-    sceneAnalysis: SceneAnalysis
-  ): string {
-    const reasons = []
-
-    // Scene type match
-    if (selectedImage.scores.sceneTypeMatch > 80) {
-      reasons.push(`Perfect match for ${sceneAnalysis.sceneType} scenes`)
-    } else if (selectedImage.scores.sceneTypeMatch > 60) {
-      reasons.push(`Good fit for ${sceneAnalysis.sceneType} scenes`)
-    }
-
-    // Lens choice
-    if (selectedImage.lens && sceneAnalysis.requiredShots.preferredLens.includes(selectedImage.lens)) {
-      const lensType = selectedImage.lens === 35 ? 'action/body' :
-                     selectedImage.lens === 50 ? 'conversation' : 'emotional'
-      reasons.push(`${selectedImage.lens}mm lens ideal for ${lensType} work`)
-    }
-
-    // Crop appropriateness
-    if (selectedImage.crop && sceneAnalysis.requiredShots.preferredCrop.includes(selectedImage.crop)) {
-      const cropDescription: Record<string, string> = {
-        'cu': 'close-up intimacy',
-        'mcu': 'medium close-up balance',
-        '3q': 'three-quarter body context',
-        'full': 'full body coverage',
-        'hands': 'detailed hand work'
-      }
-      reasons.push(`${selectedImage.crop.toUpperCase()} crop provides ${cropDescription[selectedImage.crop]}`)
-    }
-
-    // Quality assurance
-    if (selectedImage.qualityScore && selectedImage.qualityScore > 85) {
-      reasons.push(`High quality score (${selectedImage.qualityScore}/100)`)
-    }
-
-    // Overall score
-    reasons.push(`Overall compatibility score: ${Math.round(selectedImage.totalScore)}/100`)
+  private generateSelectionReasoning(selectedImage: ScoredReferenceImage): string {
+    const reasons = [
+      ...selectedImage.reasons,
+      `Overall compatibility score: ${Math.round(selectedImage.totalScore)}/100`,
+    ]
 
     return reasons.join('. ') + '.'
   }
@@ -587,7 +587,7 @@ COMPOSITION:
 - crop: ${shot.crop} | thirds: {THIRDS} | headroom: {HEADROOM}
 
 SUBJECT:
-- shoulder yaw: {SUBJECT_YAW}° | gaze: {GAZE} | pose: ${shot.pose}
+- shoulder yaw: {SUBJECT_YAW}° | gaze: {GAZE} | pose: ${shot.pose} | expression: ${shot.expression}
 
 EXPOSURE: f/${shot.fStop}, ISO ${shot.iso}, ${shot.shutterSpeed}s
 FOCUS: eyes tack sharp; realistic pores; natural micro-speculars.
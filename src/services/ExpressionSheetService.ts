@@ -0,0 +1,532 @@
+/**
+ * Expression Sheet Service
+ *
+ * Generates one frame per emotion from a single fixed reference shot: lens,
+ * angle, crop and camera position stay the same and only the shot's expression
+ * changes in the EnhancedPromptBuilder prompt. Each frame is checked against
+ * the master reference with DINOv3 and regenerated when it drifts; the passing
+ * frames are composed with sharp into one labelled sheet.
+ */
+
+import sharp from 'sharp'
+import { EnhancedPromptBuilder, EnhancedReferenceShot, CharacterData } from './EnhancedPromptBuilder'
+import { imageGenerationService } from './ImageGenerationService'
+import { dinoOrchestrator } from './DinoOrchestrator'
+import { promptTemplateService } from './PromptTemplateService'
+import { stylePresetService, StylePreset } from './StylePresetService'
+import { UsageContext } from './UsageService'
+import { EXPRESSION_LIBRARY, EXPRESSION_SHEET_CONFIG, ExpressionDefinition } from '../lib/config/expression-sheets'
+
+export interface ExpressionFrameResult {
+  expression: string
+  label: string
+  success: boolean
+  mediaId?: string
+  url?: string
+  dinoAssetId?: string
+  qualityScore?: number
+  consistencyScore?: number
+  validationNotes?: string
+  attempts: number
+  error?: string
+}
+
+export interface ExpressionSheetOptions {
+  expressions?: string[]
+  baseShotSlug?: string
+  masterReferenceUrl?: string
+  qualityThreshold?: number
+  minConsistencyScore?: number
+  maxRetries?: number
+  customSeed?: number
+  signal?: AbortSignal // Stops generation between frames when the job is cancelled
+  usage?: UsageContext
+  stylePreset?: StylePreset | null // Defaults to the preset pinned by the character's project
+  previousFrames?: ExpressionFrameResult[] // Frames generated by an earlier run (resume)
+  onFrameResult?: (frame: ExpressionFrameResult) => void
+}
+
+export interface ExpressionSheetResult {
+  success: boolean
+  frames: ExpressionFrameResult[]
+  failedFrames: ExpressionFrameResult[]
+  sheet?: {
+    mediaId: string
+    url?: string
+    width: number
+    height: number
+  }
+  baseShot?: {
+    slug: string
+    shotName: string
+    lensMm: number
+    angle: string
+    crop: string
+  }
+  totalAttempts: number
+  error?: string
+}
+
+const CELL_SIZE = 512
+const MAX_COLUMNS = 4
+const HEADER_HEIGHT = 110
+const CAPTION_HEIGHT = 70
+const MARGIN = 24
+
+export class ExpressionSheetService {
+  private promptBuilder = new EnhancedPromptBuilder()
+
+  /**
+   * Expressions for a sheet: known emotions get their facial cues, others are used as written
+   */
+  resolveExpressions(expressions?: string[] | null): ExpressionDefinition[] {
+    const requested = expressions && expressions.length > 0 ? expressions : EXPRESSION_SHEET_CONFIG.defaultExpressions
+    const seen = new Set<string>()
+    const definitions: ExpressionDefinition[] = []
+
+    for (const value of requested) {
+      const expression = value.trim().toLowerCase()
+      if (!expression || seen.has(expression)) continue
+      seen.add(expression)
+
+      definitions.push(
+        EXPRESSION_LIBRARY.find((definition) => definition.expression === expression) || {
+          expression,
+          label: expression.charAt(0).toUpperCase() + expression.slice(1),
+          cues: '',
+        }
+      )
+    }
+
+    return definitions
+  }
+
+  /**
+   * Validate a requested expression list; an empty list means the defaults
+   */
+  validateExpressions(expressions: unknown): true | string {
+    if (expressions === undefined) return true
+    if (!Array.isArray(expressions) || expressions.some((value) => typeof value !== 'string')) {
+      return 'expressions must be an array of strings'
+    }
+    if (expressions.some((value) => !/^[a-zA-Z][a-zA-Z -]{0,39}$/.test(value.trim()))) {
+      return 'Expressions may only contain letters, spaces and hyphens (40 characters at most)'
+    }
+
+    if (this.resolveExpressions(expressions).length > EXPRESSION_SHEET_CONFIG.maxExpressions) {
+      return `An expression sheet can have at most ${EXPRESSION_SHEET_CONFIG.maxExpressions} expressions`
+    }
+    return true
+  }
+
+  /**
+   * The fixed reference shot every frame is generated from
+   */
+  async getBaseShot(payload: any, slug: string = EXPRESSION_SHEET_CONFIG.baseShotSlug): Promise<EnhancedReferenceShot & { id: string }> {
+    const result = await payload.find({
+      collection: 'reference-shots',
+      where: { slug: { equals: slug } },
+      limit: 1,
+    })
+
+    const shot = result.docs[0]
+    if (!shot) {
+      throw new Error(`Reference shot "${slug}" not found; seed the reference shot library first`)
+    }
+    return shot
+  }
+
+  /**
+   * The base shot with only its expression changed
+   */
+  buildFrameShot<T extends EnhancedReferenceShot>(baseShot: T, definition: ExpressionDefinition): T {
+    return {
+      ...baseShot,
+      shotName: `${baseShot.shotName} — ${definition.label}`,
+      expression: definition.expression,
+      expressionCues: definition.cues || undefined,
+    }
+  }
+
+  /**
+   * Generate the frames for every expression, then compose and store the sheet
+   */
+  async generateSheet(
+    character: any,
+    masterReferenceAssetId: string,
+    characterData: CharacterData,
+    payload: any,
+    options: ExpressionSheetOptions = {},
+    progressCallback?: (current: number, total: number, currentTask: string) => Promise<void>
+  ): Promise<ExpressionSheetResult> {
+    const definitions = this.resolveExpressions(options.expressions)
+    const baseShot = await this.getBaseShot(payload, options.baseShotSlug)
+    const projectId = character.novelMovieIntegration?.projectId
+
+    // One template version per character, the same one its core set uses
+    const promptTemplate = await promptTemplateService.resolveTemplate(payload, 'cinematic-reference', {
+      projectId,
+      assignmentKey: String(character.id),
+    })
+    const stylePreset = options.stylePreset !== undefined
+      ? options.stylePreset
+      : await stylePresetService.getProjectPreset(payload, projectId)
+
+    const previous = new Map(
+      (options.previousFrames || []).filter((frame) => frame.success).map((frame) => [frame.expression, frame])
+    )
+    const frames: ExpressionFrameResult[] = []
+    const failedFrames: ExpressionFrameResult[] = []
+    const images = new Map<string, Buffer>()
+    let totalAttempts = 0
+
+    console.log(`😀 Generating expression sheet for ${character.name}: ${definitions.map((d) => d.expression).join(', ')} (${baseShot.shotName})`)
+
+    for (let i = 0; i < definitions.length; i++) {
+      const definition = definitions[i]
+
+      const done = previous.get(definition.expression)
+      if (done) {
+        frames.push(done)
+        continue
+      }
+
+      if (options.signal?.aborted) {
+        console.log(`🛑 Expression sheet aborted after ${i}/${definitions.length} frames`)
+        break
+      }
+
+      if (progressCallback) {
+        await progressCallback(i, definitions.length, `Generating ${definition.label}`)
+      }
+
+      const { frame, image } = await this.generateFrame(
+        this.buildFrameShot(baseShot, definition),
+        definition,
+        masterReferenceAssetId,
+        characterData,
+        payload,
+        { ...options, stylePreset },
+        promptTemplate?.body
+      )
+
+      totalAttempts += frame.attempts
+      if (frame.success && image) {
+        frames.push(frame)
+        images.set(frame.expression, image)
+      } else {
+        failedFrames.push(frame)
+      }
+      options.onFrameResult?.(frame)
+    }
+
+    const summary = {
+      slug: baseShot.slug,
+      shotName: baseShot.shotName,
+      lensMm: baseShot.lensMm,
+      angle: baseShot.angle,
+      crop: baseShot.crop,
+    }
+
+    if (options.signal?.aborted) {
+      return { success: false, frames, failedFrames, baseShot: summary, totalAttempts, error: 'Expression sheet generation was cancelled' }
+    }
+    if (frames.length === 0) {
+      return { success: false, frames, failedFrames, baseShot: summary, totalAttempts, error: 'No expression frames passed quality checks' }
+    }
+
+    if (progressCallback) {
+      await progressCallback(definitions.length, definitions.length, 'Composing expression sheet')
+    }
+
+    // Frames from an earlier run are downloaded again
+    const panels: Array<ExpressionFrameResult & { image: Buffer }> = []
+    for (const frame of frames) {
+      const image = images.get(frame.expression) || (await this.loadFrameImage(payload, frame))
+      if (image) {
+        panels.push({ ...frame, image })
+      }
+    }
+    if (panels.length === 0) {
+      return { success: false, frames, failedFrames, baseShot: summary, totalAttempts, error: 'No expression frames could be loaded' }
+    }
+
+    const sheet = await this.saveSheet(payload, character, panels, baseShot, characterData)
+
+    return { success: true, frames, failedFrames, sheet, baseShot: summary, totalAttempts }
+  }
+
+  /**
+   * Compose frames into a PNG grid with the expression under each frame
+   */
+  async composeSheet(
+    characterName: string,
+    frames: Array<Pick<ExpressionFrameResult, 'label' | 'consistencyScore'> & { image: Buffer }>,
+    subtitle: string
+  ): Promise<{ buffer: Buffer; width: number; height: number }> {
+    const columns = Math.min(MAX_COLUMNS, frames.length)
+    const rows = Math.ceil(frames.length / columns)
+    const rowHeight = CELL_SIZE + CAPTION_HEIGHT
+    const width = MARGIN * 2 + columns * CELL_SIZE
+    const height = HEADER_HEIGHT + rows * rowHeight + MARGIN
+
+    const cellPosition = (index: number) => ({
+      left: MARGIN + (index % columns) * CELL_SIZE,
+      top: HEADER_HEIGHT + Math.floor(index / columns) * rowHeight,
+    })
+
+    const images = await Promise.all(
+      frames.map(async (frame, index) => ({
+        input: await sharp(frame.image)
+          .rotate()
+          .resize(CELL_SIZE, CELL_SIZE, { fit: 'cover', position: 'north' })
+          .png()
+          .toBuffer(),
+        ...cellPosition(index),
+      }))
+    )
+
+    const parts: string[] = [
+      `<text x="${MARGIN}" y="52" font-size="40" font-weight="bold">${escapeXml(`${characterName} — Expressions`)}</text>`,
+      `<text x="${MARGIN}" y="88" font-size="20" fill="#555555">${escapeXml(subtitle)}</text>`,
+    ]
+    frames.forEach((frame, index) => {
+      const { left, top } = cellPosition(index)
+      parts.push(`<rect x="${left}" y="${top}" width="${CELL_SIZE}" height="${CELL_SIZE}" fill="none" stroke="#cccccc"/>`)
+      parts.push(`<text x="${left + 16}" y="${top + CELL_SIZE + 34}" font-size="24" font-weight="bold">${escapeXml(frame.label)}</text>`)
+      if (frame.consistencyScore != null) {
+        parts.push(
+          `<text x="${left + CELL_SIZE - 16}" y="${top + CELL_SIZE + 34}" font-size="16" text-anchor="end" fill="#555555">${Math.round(frame.consistencyScore)}% match</text>`
+        )
+      }
+    })
+    const overlay = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif">${parts.join('')}</svg>`
+    )
+
+    const buffer = await sharp({
+      create: { width, height, channels: 3, background: '#ffffff' },
+    })
+      .composite([...images, { input: overlay, left: 0, top: 0 }])
+      .png()
+      .toBuffer()
+
+    return { buffer, width, height }
+  }
+
+  /**
+   * Generate one frame, regenerating it until it passes QA against the master reference
+   */
+  private async generateFrame(
+    frameShot: EnhancedReferenceShot,
+    definition: ExpressionDefinition,
+    masterReferenceAssetId: string,
+    characterData: CharacterData,
+    payload: any,
+    options: ExpressionSheetOptions,
+    template?: string
+  ): Promise<{ frame: ExpressionFrameResult; image?: Buffer }> {
+    const maxRetries = options.maxRetries || 3
+    const qualityThreshold = options.qualityThreshold || 75
+    const minConsistency = options.minConsistencyScore || EXPRESSION_SHEET_CONFIG.minConsistencyScore
+    const prompt = this.promptBuilder.buildEnhancedPrompt(frameShot, characterData, options.masterReferenceUrl || '', template)
+    let lastError = 'Max retries exceeded'
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      if (options.signal?.aborted) break
+
+      try {
+        const generation = await imageGenerationService.generateImage(prompt, {
+          referenceImageAssetId: masterReferenceAssetId,
+          style: 'character_production',
+          // The same seed for every expression keeps lighting and framing aligned across the sheet
+          seed: options.customSeed !== undefined ? options.customSeed + attempt - 1 : undefined,
+          referenceShot: frameShot,
+          stylePreset: options.stylePreset,
+          usage: options.usage && { ...options.usage, attempt },
+        })
+
+        if (!generation.success || !generation.imageBuffer) {
+          throw new Error(generation.error || 'Image generation failed')
+        }
+
+        const fileName = this.promptBuilder.generateFileName(frameShot, characterData, attempt)
+        const upload = await dinoOrchestrator.uploadAndExtract(generation.imageBuffer, fileName)
+        if (!upload.dinoAssetId) {
+          throw new Error(upload.error || 'Failed to upload frame for validation')
+        }
+
+        const validation = await dinoOrchestrator.validateNewAsset(upload.dinoAssetId, masterReferenceAssetId)
+        if (validation.qualityScore < qualityThreshold || validation.consistencyScore < minConsistency) {
+          lastError = `Failed QA against the master reference (quality ${validation.qualityScore}, consistency ${validation.consistencyScore})`
+          console.warn(`🔄 ${definition.label} attempt ${attempt}/${maxRetries}: ${lastError}`)
+          continue
+        }
+
+        const media = await payload.create({
+          collection: 'media',
+          data: {
+            alt: `${characterData.name} expression: ${definition.label}`,
+          },
+          file: {
+            data: generation.imageBuffer,
+            mimetype: 'image/jpeg',
+            name: fileName,
+            size: generation.imageBuffer.length,
+          },
+        })
+
+        return {
+          image: generation.imageBuffer,
+          frame: {
+            expression: definition.expression,
+            label: definition.label,
+            success: true,
+            mediaId: String(media.id),
+            url: media.url,
+            dinoAssetId: upload.dinoAssetId,
+            qualityScore: validation.qualityScore,
+            consistencyScore: validation.consistencyScore,
+            validationNotes: validation.validationNotes,
+            attempts: attempt,
+          },
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`🔄 ${definition.label} attempt ${attempt}/${maxRetries} failed:`, error)
+      }
+    }
+
+    return {
+      frame: {
+        expression: definition.expression,
+        label: definition.label,
+        success: false,
+        error: lastError,
+        attempts: maxRetries,
+      },
+    }
+  }
+
+  /**
+   * Store the composed sheet as media and link it, and its frames, to the character
+   */
+  private async saveSheet(
+    payload: any,
+    character: any,
+    panels: Array<ExpressionFrameResult & { image: Buffer }>,
+    baseShot: EnhancedReferenceShot,
+    characterData: CharacterData
+  ): Promise<NonNullable<ExpressionSheetResult['sheet']>> {
+    const eraId: string | undefined = characterData.era?.eraId
+    const outfitId: string | undefined = characterData.outfit?.outfitId
+    const subtitle = [
+      `${baseShot.lensMm}mm · ${baseShot.angle} · ${baseShot.crop} crop`,
+      characterData.era?.name,
+      characterData.outfit?.name,
+    ]
+      .filter(Boolean)
+      .join(' · ')
+
+    const sheet = await this.composeSheet(character.name, panels, subtitle)
+    const slug = String(character.characterId || character.id).replace(/[^a-zA-Z0-9_-]/g, '_')
+
+    const media = await payload.create({
+      collection: 'media',
+      data: {
+        alt: `${character.name} expression sheet`,
+      },
+      file: {
+        data: sheet.buffer,
+        mimetype: 'image/png',
+        name: `${slug}_expressions${eraId ? `_${eraId}` : ''}_${Date.now()}.png`,
+        size: sheet.buffer.length,
+      },
+      // A composite sheet is not a character reference for DINOv3
+      context: { skipDinoProcessing: true },
+    })
+
+    const current = await payload.findByID({ collection: 'characters', id: character.id, depth: 0 })
+    const gallery: any[] = current?.imageGallery || []
+    const inGallery = new Set(gallery.map((item) => String(typeof item.imageFile === 'object' ? item.imageFile?.id : item.imageFile)))
+
+    // Frames are not linked to the base shot, so core set resumes never count them as generated
+    const frameItems = panels
+      .filter((frame) => !inGallery.has(String(frame.mediaId)))
+      .map((frame) => ({
+        imageFile: frame.mediaId,
+        isCoreReference: false,
+        dinoAssetId: frame.dinoAssetId,
+        qualityScore: frame.qualityScore,
+        consistencyScore: frame.consistencyScore,
+        validationNotes: frame.validationNotes,
+        shotType: 'expression',
+        tags: `expression-sheet, expression:${frame.expression}`,
+        outfitId,
+        eraId,
+        lens: baseShot.lensMm,
+        angle: baseShot.angle,
+        crop: baseShot.crop,
+        expression: frame.expression,
+        pose: baseShot.pose,
+        cameraAzimuthDeg: baseShot.cameraAzimuthDeg,
+        cameraElevationDeg: baseShot.cameraElevationDeg,
+        cameraDistanceM: baseShot.cameraDistanceM,
+        generatedAt: new Date().toISOString(),
+      }))
+
+    await payload.update({
+      collection: 'characters',
+      id: character.id,
+      data: {
+        imageGallery: [...gallery, ...frameItems],
+        expressionSheets: [
+          ...(current?.expressionSheets || []),
+          {
+            image: media.id,
+            eraId,
+            outfitId,
+            expressions: panels.map((frame) => frame.expression).join(', '),
+            referenceShot: baseShot.slug,
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      },
+    })
+
+    return { mediaId: String(media.id), url: media.url, width: sheet.width, height: sheet.height }
+  }
+
+  private async loadFrameImage(payload: any, frame: ExpressionFrameResult): Promise<Buffer | null> {
+    try {
+      let url = frame.url
+      if (!url) {
+        const media = await payload.findByID({ collection: 'media', id: frame.mediaId, depth: 0 })
+        url = media?.url
+      }
+      if (!url) {
+        throw new Error('Media has no URL')
+      }
+
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    } catch (error) {
+      console.warn(`Could not load ${frame.expression} frame ${frame.mediaId}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Export singleton instance
+export const expressionSheetService = new ExpressionSheetService()
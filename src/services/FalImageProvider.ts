@@ -0,0 +1,126 @@
+/**
+ * FAL Image Provider
+ *
+ * Generates images through the Fal.ai HTTP API (nano-banana text-to-image and
+ * edit models by default).
+ */
+
+import { IMAGE_PROVIDER_CONFIG } from '../lib/config/image-providers'
+import type { ImageProvider, ImageProviderRequest, ImageProviderResult } from './ImageProvider'
+
+export class FalImageProvider implements ImageProvider {
+  readonly name = 'fal' as const
+  private config = IMAGE_PROVIDER_CONFIG.fal
+
+  constructor() {
+    if (!this.config.apiKey) {
+      console.warn('FAL_KEY not set - Image generation will not function')
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    const model = request.mode === 'image-to-image'
+      ? this.config.imageToImageModel
+      : this.config.textToImageModel
+
+    const parameters = this.buildParameters(request)
+
+    // Enhanced debugging for request
+    console.log('Fal.ai request model:', model)
+    console.log('Fal.ai request parameters:', JSON.stringify(parameters, null, 2))
+
+    const response = await fetch(`${this.config.baseUrl}/${model}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Key ${this.config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(parameters),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Fal.ai API error: ${response.status} - ${errorText}`)
+    }
+
+    const result = await response.json()
+
+    // Enhanced debugging for Fal.ai response
+    console.log('Fal.ai response status:', response.status)
+    console.log('Fal.ai response body:', JSON.stringify(result, null, 2))
+
+    if (!result.images || result.images.length === 0) {
+      console.error('Fal.ai response missing images array:', result)
+      throw new Error('No images returned from Fal.ai')
+    }
+
+    // Download the generated image
+    const imageUrl = result.images[0].url
+    const imageBuffer = await this.downloadImage(imageUrl)
+
+    return { imageBuffer, imageUrl, model, parameters }
+  }
+
+  /**
+   * Build the FAL request body
+   */
+  private buildParameters(request: ImageProviderRequest): Record<string, any> {
+    console.log(`🎨 FINAL PROMPT SENT TO FAL.AI: "${request.prompt}"`)
+
+    const parameters: Record<string, any> = {
+      prompt: request.prompt,
+      num_images: 1, // nano-banana uses num_images instead of batch_size
+      output_format: 'jpeg', // nano-banana specific parameter
+    }
+
+    if (this.config.samplerParameters) {
+      if (request.steps) parameters.num_inference_steps = request.steps
+      if (request.guidance) parameters.guidance_scale = request.guidance
+      if (request.strength && request.mode === 'image-to-image') parameters.strength = request.strength
+      if (request.negativePrompt) parameters.negative_prompt = request.negativePrompt
+    } else if (request.negativePrompt) {
+      // Without a negative prompt input, spell it out in the prompt
+      parameters.prompt = `${request.prompt}\n\nAvoid: ${request.negativePrompt}`
+    }
+
+    // Add seed if specified
+    if (request.seed) {
+      parameters.seed = request.seed
+    }
+
+    // For nano-banana/edit, reference images go in the image_urls array
+    if (request.mode === 'image-to-image' && request.referenceImageUrls.length > 0) {
+      parameters.image_urls = request.referenceImageUrls.slice(0, this.config.maxReferenceImages)
+    }
+
+    return parameters
+  }
+
+  /**
+   * Download image from URL and return as Buffer
+   */
+  private async downloadImage(url: string): Promise<Buffer> {
+    const response = await fetch(url)
+
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.status}`)
+    }
+
+    const arrayBuffer = await response.arrayBuffer()
+    return Buffer.from(arrayBuffer)
+  }
+
+  getConfig() {
+    return {
+      provider: this.name,
+      hasApiKey: this.isConfigured(),
+      textToImageModel: this.config.textToImageModel,
+      imageToImageModel: this.config.imageToImageModel,
+      baseUrl: this.config.baseUrl,
+    }
+  }
+}
@@ -1,10 +1,16 @@
 /**
  * Image Generation Service
  * 
- * This service handles AI image generation using Fal.ai
+ * This service handles AI image generation through a pluggable ImageProvider
+ * (Fal.ai by default, or the offline local provider).
  * Supports text-to-image and image-to-image generation with reference images
  */
 
+import { createImageProvider, ImageProvider, ImageProviderRequest } from './ImageProvider'
+import { usageService, UsageContext, UsageEntry } from './UsageService'
+import { appendOutfit, describeOutfit, renderPromptTemplate } from './EnhancedPromptBuilder'
+import { stylePresetService, StylePreset } from './StylePresetService'
+
 export interface GenerationOptions {
   referenceImageAssetId?: string
   additionalReferenceIds?: string[]
@@ -23,6 +29,10 @@ export interface GenerationOptions {
     [key: string]: any
   }
   masterReferenceUrl?: string
+  promptTemplate?: string // Template body from prompt-templates; overrides referenceShot.promptTemplate
+  stylePreset?: StylePreset | null // Project look from style-presets; explicit steps/guidance still win
+  // Attribution for the usage ledger (character, project, job, attempt)
+  usage?: UsageContext
 }
 
 export interface GenerationResult {
@@ -39,19 +49,10 @@ export interface GenerationResult {
 }
 
 export class ImageGenerationService {
-  private falApiKey: string
-  private textToImageModel: string
-  private imageToImageModel: string
-  private baseUrl = 'https://fal.run'
-
-  constructor() {
-    this.falApiKey = process.env.FAL_KEY || ''
-    this.textToImageModel = process.env.FAL_TEXT_TO_IMAGE_MODEL || 'fal-ai/nano-banana'
-    this.imageToImageModel = process.env.FAL_IMAGE_TO_IMAGE_MODEL || 'fal-ai/nano-banana/edit'
-
-    if (!this.falApiKey) {
-      console.warn('FAL_KEY not set - Image generation will not function')
-    }
+  private provider: ImageProvider
+
+  constructor(provider: ImageProvider = createImageProvider()) {
+    this.provider = provider
   }
 
   /**
@@ -62,123 +63,146 @@ export class ImageGenerationService {
     options: GenerationOptions = {}
   ): Promise<GenerationResult> {
     const startTime = Date.now()
+    const mode = options.referenceImageAssetId ? 'image-to-image' : 'text-to-image'
 
     try {
-      console.log(`Generating image with prompt: "${prompt.substring(0, 100)}..."`)
-
-      // Determine if we need image-to-image or text-to-image
-      const useImageToImage = !!options.referenceImageAssetId
-      const model = useImageToImage ? this.imageToImageModel : this.textToImageModel
-
-      // Prepare generation parameters
-      const parameters = await this.prepareGenerationParameters(prompt, options)
+      console.log(`Generating image with prompt: "${prompt.substring(0, 100)}..." (provider: ${this.provider.name})`)
 
-      // Enhanced debugging for request
-      console.log('Fal.ai request model:', model)
-      console.log('Fal.ai request parameters:', JSON.stringify(parameters, null, 2))
+      // Prepare provider-independent request
+      const request = await this.prepareProviderRequest(prompt, options)
 
-      // Call Fal.ai API
-      const response = await fetch(`${this.baseUrl}/${model}`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Key ${this.falApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(parameters),
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        throw new Error(`Fal.ai API error: ${response.status} - ${errorText}`)
-      }
-
-      const result = await response.json()
-
-      // Enhanced debugging for Fal.ai response
-      console.log('Fal.ai response status:', response.status)
-      console.log('Fal.ai response body:', JSON.stringify(result, null, 2))
-
-      if (!result.images || result.images.length === 0) {
-        console.error('Fal.ai response missing images array:', result)
-        throw new Error('No images returned from Fal.ai')
-      }
-
-      // Download the generated image
-      const imageUrl = result.images[0].url
-      const imageBuffer = await this.downloadImage(imageUrl)
+      const result = await this.provider.generate(request)
 
       const generationTime = Date.now() - startTime
 
       console.log(`Image generated successfully in ${generationTime}ms`)
 
+      await this.recordUsage(options, {
+        model: result.model,
+        mode,
+        status: 'succeeded',
+        estimatedCost: usageService.getImageCost(result.model),
+        durationMs: generationTime,
+        width: options.width ?? result.parameters.width,
+        height: options.height ?? result.parameters.height,
+        steps: options.steps ?? result.parameters.num_inference_steps,
+      })
+
       return {
         success: true,
-        imageBuffer,
-        imageUrl,
+        imageBuffer: result.imageBuffer,
+        imageUrl: result.imageUrl,
         metadata: {
           prompt,
-          model,
-          parameters,
+          model: result.model,
+          parameters: result.parameters,
           generationTime,
         },
       }
 
     } catch (error) {
       console.error('Image generation failed:', error)
+      const message = error instanceof Error ? error.message : 'Unknown generation error'
+
+      // Failed calls are not billed but still count towards attempts in the ledger
+      await this.recordUsage(options, {
+        model: usageService.getModel(this.provider.name, mode),
+        mode,
+        status: 'failed',
+        estimatedCost: 0,
+        durationMs: Date.now() - startTime,
+        width: options.width,
+        height: options.height,
+        steps: options.steps,
+        error: message,
+      })
+
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown generation error',
+        error: message,
       }
     }
   }
 
   /**
-   * Prepare generation parameters based on options and style
+   * Add a generation call to the usage ledger
+   */
+  private async recordUsage(
+    options: GenerationOptions,
+    entry: Omit<UsageEntry, 'provider' | keyof UsageContext>
+  ): Promise<void> {
+    try {
+      const payload = await this.getPayloadClient()
+      await usageService.recordUsage(payload, {
+        operation: 'generate-image',
+        ...options.usage,
+        provider: this.provider.name,
+        ...entry,
+      })
+    } catch (error) {
+      console.warn('Could not record generation usage:', error)
+    }
+  }
+
+  /**
+   * Prepare the provider request based on options and style
    */
-  private async prepareGenerationParameters(
+  private async prepareProviderRequest(
     prompt: string,
     options: GenerationOptions
-  ): Promise<Record<string, any>> {
+  ): Promise<ImageProviderRequest> {
     // Determine if we need image-to-image or text-to-image
     const useImageToImage = !!options.referenceImageAssetId
 
-    // Enhance the prompt and log the final version
-    const finalPrompt = this.enhancePrompt(prompt, options)
-    console.log(`🎨 FINAL PROMPT SENT TO FAL.AI: "${finalPrompt}"`)
+    // Enhance the prompt, add the style preset's look and log the final version
+    const finalPrompt = stylePresetService.applyToPrompt(this.enhancePrompt(prompt, options), options.stylePreset)
+    const settings = stylePresetService.getSettings(options.style, options.stylePreset)
 
-    const parameters: Record<string, any> = {
+    const request: ImageProviderRequest = {
       prompt: finalPrompt,
-      num_images: 1, // nano-banana uses num_images instead of batch_size
-      output_format: 'jpeg', // nano-banana specific parameter
+      mode: useImageToImage ? 'image-to-image' : 'text-to-image',
+      referenceImageUrls: [],
+      seed: options.seed,
+      width: options.width,
+      height: options.height,
+      style: options.style,
+      steps: options.steps ?? settings.steps,
+      guidance: options.guidance ?? settings.guidance,
+      strength: useImageToImage ? settings.strength : undefined,
+      negativePrompt: options.stylePreset?.negativePrompt || undefined,
+      characterName: options.characterData?.name,
     }
 
-    // Add seed if specified
-    if (options.seed) {
-      parameters.seed = options.seed
+    if (options.referenceShot) {
+      request.referenceShot = {
+        id: options.referenceShot.id,
+        slug: options.referenceShot.slug,
+        shotName: options.referenceShot.shotName,
+        angle: options.referenceShot.angle,
+        crop: options.referenceShot.crop,
+        lensMm: options.referenceShot.lensMm,
+      }
     }
 
-    // Handle reference images for image-to-image generation
+    // Resolve reference images for image-to-image generation
     if (useImageToImage && options.referenceImageAssetId) {
       const referenceImageUrl = await this.getDinoAssetUrl(options.referenceImageAssetId)
       if (referenceImageUrl) {
-        // For nano-banana/edit, we need image_urls array
-        parameters.image_urls = [referenceImageUrl]
+        request.referenceImageUrls.push(referenceImageUrl)
 
         // Add additional reference images if available
         if (options.additionalReferenceIds && options.additionalReferenceIds.length > 0) {
           const additionalUrls = await Promise.all(
             options.additionalReferenceIds.map(id => this.getDinoAssetUrl(id))
           )
-          const validUrls = additionalUrls.filter(url => url !== null)
-
-          if (validUrls.length > 0) {
-            parameters.image_urls.push(...validUrls.slice(0, 9)) // Max 10 images total
-          }
+          request.referenceImageUrls.push(
+            ...additionalUrls.filter((url): url is string => url !== null)
+          )
         }
       }
     }
 
-    return parameters
+    return request
   }
 
   /**
@@ -191,7 +215,12 @@ export class ImageGenerationService {
 
     // If we have a reference shot template, use it for prompt generation
     if (options.referenceShot && options.characterData) {
-      return this.generateTemplatePrompt(options.referenceShot, options.characterData, options.masterReferenceUrl)
+      return this.generateTemplatePrompt(
+        options.referenceShot,
+        options.characterData,
+        options.masterReferenceUrl,
+        options.promptTemplate
+      )
     }
 
     // If style is 'none', return the original prompt without any modifications
@@ -220,35 +249,35 @@ export class ImageGenerationService {
   /**
    * Generate prompt using ReferenceShot template with placeholder substitution
    */
-  private generateTemplatePrompt(referenceShot: any, characterData: any, masterReferenceUrl?: string): string {
+  private generateTemplatePrompt(
+    referenceShot: any,
+    characterData: any,
+    masterReferenceUrl?: string,
+    template: string = referenceShot.promptTemplate
+  ): string {
     console.log(`🎯 TEMPLATE PROMPT GENERATION - Shot: ${referenceShot.shotName}`)
 
-    let prompt = referenceShot.promptTemplate
-
     // Extract character traits
     const physicalTraits = this.extractPhysicalTraits(characterData)
     const personalityTraits = this.extractPersonalityTraits(characterData)
 
     // Substitute placeholders
-    const substitutions = {
-      '{CHARACTER}': characterData.name || 'Character',
-      '{PHYSIQUE_TRAITS}': physicalTraits,
-      '{PERSONALITY}': personalityTraits,
-      '{LENS}': referenceShot.lensMm.toString(),
-      '{FSTOP}': referenceShot.fStop.toString(),
-      '{ISO}': referenceShot.iso.toString(),
-      '{SHUTTER}': referenceShot.shutterSpeed,
-      '{CROP}': referenceShot.crop,
-      '{ANGLE}': referenceShot.angle,
-      '{REF_URL}': masterReferenceUrl || '',
-      '{REF_WEIGHT}': referenceShot.referenceWeight.toString(),
-      '{POSE_INSTRUCTIONS}': this.getPoseInstructions(referenceShot.pose),
-    }
-
-    // Apply substitutions
-    for (const [placeholder, value] of Object.entries(substitutions)) {
-      prompt = prompt.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), value)
-    }
+    const rendered = renderPromptTemplate(template || '', {
+      CHARACTER: characterData.name || 'Character',
+      PHYSIQUE_TRAITS: physicalTraits,
+      PERSONALITY: personalityTraits,
+      LENS: String(referenceShot.lensMm),
+      FSTOP: String(referenceShot.fStop),
+      ISO: String(referenceShot.iso),
+      SHUTTER: referenceShot.shutterSpeed,
+      CROP: referenceShot.crop,
+      ANGLE: referenceShot.angle,
+      REF_URL: masterReferenceUrl || '',
+      REF_WEIGHT: String(referenceShot.referenceWeight),
+      POSE_INSTRUCTIONS: this.getPoseInstructions(referenceShot.pose),
+      OUTFIT: describeOutfit(characterData),
+    })
+    const prompt = appendOutfit(rendered, template || '', characterData)
 
     console.log(`🎯 TEMPLATE PROMPT - Final: "${prompt.substring(0, 200)}..."`)
     return prompt
@@ -329,57 +358,13 @@ export class ImageGenerationService {
     }
   }
 
-  /**
-   * Get default steps based on style
-   */
-  private getDefaultSteps(style?: string): number {
-    switch (style) {
-      case 'character_turnaround':
-        return 30 // Higher quality for reference images
-      case 'character_production':
-        return 25 // Good balance of quality and speed
-      default:
-        return 20 // Fast generation
-    }
-  }
-
-  /**
-   * Get default guidance scale based on style
-   */
-  private getDefaultGuidance(style?: string): number {
-    switch (style) {
-      case 'character_turnaround':
-        return 8.0 // Higher adherence to prompt for consistency
-      case 'character_production':
-        return 7.5 // Good balance
-      default:
-        return 7.0 // Standard guidance
-    }
-  }
-
-  /**
-   * Get strength parameter for image-to-image based on style
-   */
-  private getStrengthForStyle(style?: string): number {
-    switch (style) {
-      case 'character_turnaround':
-        return 0.8 // Strong influence from reference for consistency
-      case 'character_production':
-        return 0.6 // Moderate influence allowing for variation
-      default:
-        return 0.7 // Balanced default
-    }
-  }
-
   /**
    * Get DINOv3 asset URL for use as reference image
    */
   private async getDinoAssetUrl(dinoAssetId: string): Promise<string | null> {
     try {
       // Get media URL from Payload media collection
-      const { getPayload } = await import('payload')
-      const config = await import('@payload-config').then(c => c.default)
-      const payload = await getPayload({ config })
+      const payload = await this.getPayloadClient()
 
       const mediaResult = await payload.find({
         collection: 'media',
@@ -405,17 +390,12 @@ export class ImageGenerationService {
   }
 
   /**
-   * Download image from URL and return as Buffer
+   * Payload is loaded lazily so the service can be used outside Next.js routes
    */
-  private async downloadImage(url: string): Promise<Buffer> {
-    const response = await fetch(url)
-    
-    if (!response.ok) {
-      throw new Error(`Failed to download image: ${response.status}`)
-    }
-
-    const arrayBuffer = await response.arrayBuffer()
-    return Buffer.from(arrayBuffer)
+  private async getPayloadClient() {
+    const { getPayload } = await import('payload')
+    const config = await import('@payload-config').then(c => c.default)
+    return getPayload({ config })
   }
 
   /**
@@ -456,12 +436,14 @@ export class ImageGenerationService {
    * Get service configuration
    */
   getConfig() {
-    return {
-      hasApiKey: !!this.falApiKey,
-      textToImageModel: this.textToImageModel,
-      imageToImageModel: this.imageToImageModel,
-      baseUrl: this.baseUrl,
-    }
+    return this.provider.getConfig()
+  }
+
+  /**
+   * Get the active image provider
+   */
+  getProvider(): ImageProvider {
+    return this.provider
   }
 }
 
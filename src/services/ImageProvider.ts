@@ -0,0 +1,65 @@
+/**
+ * Image Provider
+ *
+ * Backend-agnostic contract for turning a final prompt (plus optional reference
+ * images) into an image. ImageGenerationService builds the prompt and resolves
+ * references; providers only talk to the generation backend.
+ */
+
+import { IMAGE_PROVIDER_CONFIG, ImageProviderName } from '../lib/config/image-providers'
+import { FalImageProvider } from './FalImageProvider'
+import { LocalImageProvider } from './LocalImageProvider'
+
+export interface ImageProviderRequest {
+  prompt: string
+  mode: 'text-to-image' | 'image-to-image'
+  referenceImageUrls: string[]
+  seed?: number
+  width?: number
+  height?: number
+  style?: string
+  // Sampler settings from the style defaults or the project's style preset
+  steps?: number
+  guidance?: number
+  strength?: number
+  negativePrompt?: string
+  // Shot metadata, used by providers that render placeholders
+  referenceShot?: {
+    id?: string
+    slug?: string
+    shotName?: string
+    angle?: string
+    crop?: string
+    lensMm?: number
+  }
+  characterName?: string
+}
+
+export interface ImageProviderResult {
+  imageBuffer: Buffer
+  imageUrl?: string
+  model: string
+  parameters: Record<string, any>
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName
+  isConfigured(): boolean
+  generate(request: ImageProviderRequest): Promise<ImageProviderResult>
+  getConfig(): Record<string, any>
+}
+
+/**
+ * Create the provider selected by IMAGE_PROVIDER (defaults to FAL)
+ */
+export function createImageProvider(name: ImageProviderName = IMAGE_PROVIDER_CONFIG.provider): ImageProvider {
+  switch (name) {
+    case 'local':
+      return new LocalImageProvider()
+    case 'fal':
+      return new FalImageProvider()
+    default:
+      console.warn(`Unknown IMAGE_PROVIDER "${name}", falling back to fal`)
+      return new FalImageProvider()
+  }
+}
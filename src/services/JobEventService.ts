@@ -0,0 +1,99 @@
+/**
+ * Job Event Service
+ *
+ * In-process publish/subscribe channel for live job events (progress ticks,
+ * per-shot results and terminal state). BackgroundJobService publishes while it
+ * processes a job; the SSE endpoint subscribes per jobId. Jobs running on other
+ * worker processes are not visible here, so subscribers fall back to the job
+ * document for those.
+ */
+
+import { EventEmitter } from 'events'
+
+export type JobEventType = 'progress' | 'shot' | 'status'
+
+export interface JobProgressEvent {
+  type: 'progress'
+  jobId: string
+  current: number
+  total: number
+  percentage: number
+  currentTask?: string
+  timestamp: string
+}
+
+export interface JobShotEvent {
+  type: 'shot'
+  jobId: string
+  shotName: string
+  status: 'generated' | 'failed'
+  qualityScore?: number
+  consistencyScore?: number
+  mediaId?: string
+  dinoAssetId?: string
+  error?: string
+  attempts?: number
+  timestamp: string
+}
+
+export interface JobStatusEvent {
+  type: 'status'
+  jobId: string
+  status: 'awaiting_approval' | 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  error?: string
+  results?: any
+  timestamp: string
+}
+
+export type JobEvent = JobProgressEvent | JobShotEvent | JobStatusEvent
+
+export type JobEventInput =
+  | Omit<JobProgressEvent, 'jobId' | 'timestamp'>
+  | Omit<JobShotEvent, 'jobId' | 'timestamp'>
+  | Omit<JobStatusEvent, 'jobId' | 'timestamp'>
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+export class JobEventService {
+  private emitter: EventEmitter
+
+  constructor() {
+    this.emitter = new EventEmitter()
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0)
+  }
+
+  /**
+   * Publish an event for a job
+   */
+  publish(jobId: string, event: JobEventInput): void {
+    const fullEvent = {
+      ...event,
+      jobId,
+      timestamp: new Date().toISOString(),
+    } as JobEvent
+
+    this.emitter.emit(jobId, fullEvent)
+  }
+
+  /**
+   * Subscribe to events for a job
+   * Returns a function that removes the subscription.
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.emitter.on(jobId, listener)
+    return () => {
+      this.emitter.off(jobId, listener)
+    }
+  }
+
+  /**
+   * Check whether a status ends the job's event stream
+   */
+  isTerminalStatus(status: string): boolean {
+    return TERMINAL_STATUSES.includes(status)
+  }
+}
+
+// Export singleton instance
+export const jobEventService = new JobEventService()
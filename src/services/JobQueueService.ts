@@ -0,0 +1,236 @@
+/**
+ * Job Queue Service
+ *
+ * Durable, lease-based queue on top of the image-generation-jobs collection.
+ * Workers claim pending jobs atomically, keep them alive with heartbeats and
+ * lose them again once the lease expires, so jobs survive restarts and can be
+ * shared between several worker processes.
+ */
+
+import { randomBytes } from 'crypto'
+import { JOB_QUEUE_CONFIG } from '../lib/config/job-queue'
+
+const JOBS_COLLECTION = 'image-generation-jobs'
+
+export interface ClaimedJob {
+  jobId: string
+  characterId: string
+  jobType: string
+  requestData: any
+  attempts: number
+  maxAttempts: number
+}
+
+export class JobQueueService {
+  /**
+   * Atomically claim the next available pending job for a worker
+   */
+  async claimNextJob(payload: any, workerId: string, jobTypes: string[]): Promise<ClaimedJob | null> {
+    if (jobTypes.length === 0) {
+      return null
+    }
+
+    const now = new Date()
+    const model = this.getModel(payload)
+
+    const doc = await model
+      .findOneAndUpdate(
+        {
+          status: 'pending',
+          jobType: { $in: jobTypes },
+          $or: [{ availableAt: null }, { availableAt: { $exists: false } }, { availableAt: { $lte: now } }],
+        },
+        {
+          $set: {
+            status: 'processing',
+            leaseOwner: workerId,
+            leaseExpiresAt: new Date(now.getTime() + JOB_QUEUE_CONFIG.leaseDurationMs),
+            heartbeatAt: now,
+            updatedAt: now,
+          },
+          $inc: { attempts: 1 },
+        },
+        { new: true, sort: { availableAt: 1, createdAt: 1 } },
+      )
+      .lean()
+
+    if (!doc) {
+      return null
+    }
+
+    return {
+      jobId: doc.jobId,
+      characterId: doc.characterId,
+      jobType: doc.jobType,
+      requestData: doc.requestData || {},
+      attempts: doc.attempts || 1,
+      maxAttempts: doc.maxAttempts || JOB_QUEUE_CONFIG.maxAttempts,
+    }
+  }
+
+  /**
+   * Extend the lease of a running job
+   * Returns false if the worker no longer owns the job (cancelled, expired or reclaimed)
+   */
+  async extendLease(payload: any, jobId: string, workerId: string): Promise<boolean> {
+    const now = new Date()
+
+    const result = await this.getModel(payload).updateOne(
+      { jobId, status: 'processing', leaseOwner: workerId },
+      {
+        $set: {
+          leaseExpiresAt: new Date(now.getTime() + JOB_QUEUE_CONFIG.leaseDurationMs),
+          heartbeatAt: now,
+        },
+      },
+    )
+
+    return result.matchedCount > 0
+  }
+
+  /**
+   * Requeue jobs whose lease expired without a heartbeat (crashed or restarted workers)
+   * Jobs that already used all their attempts are marked as failed instead.
+   */
+  async requeueStaleJobs(payload: any): Promise<{ requeued: number; failed: number }> {
+    const now = new Date()
+    const model = this.getModel(payload)
+
+    const staleFilter = {
+      status: 'processing',
+      $or: [{ leaseExpiresAt: null }, { leaseExpiresAt: { $exists: false } }, { leaseExpiresAt: { $lt: now } }],
+    }
+    const attemptsExhausted = {
+      $gte: [{ $ifNull: ['$attempts', 0] }, { $ifNull: ['$maxAttempts', JOB_QUEUE_CONFIG.maxAttempts] }],
+    }
+    const clearedLease = { leaseOwner: null, leaseExpiresAt: null, updatedAt: now }
+
+    const failed = await model.updateMany(
+      { ...staleFilter, $expr: attemptsExhausted },
+      {
+        $set: {
+          ...clearedLease,
+          status: 'failed',
+          error: 'Job lease expired after the maximum number of attempts',
+          completedAt: now,
+        },
+      },
+    )
+
+    const requeued = await model.updateMany(
+      { ...staleFilter, $expr: { $not: [attemptsExhausted] } },
+      {
+        $set: {
+          ...clearedLease,
+          status: 'pending',
+          availableAt: now,
+          'progress.currentTask': 'Requeued after worker lease expired',
+        },
+      },
+    )
+
+    return {
+      requeued: requeued.modifiedCount || 0,
+      failed: failed.modifiedCount || 0,
+    }
+  }
+
+  /**
+   * Atomically move a failed or cancelled job back into the queue for a resume run
+   * With budgetApproval the job is held in awaiting_approval instead of queued.
+   * Returns the updated job, or null if the job is not in a resumable state.
+   */
+  async requeueForResume(
+    payload: any,
+    jobId: string,
+    resumableStatuses: string[],
+    budgetApproval?: { estimatedCost: number; spent: number; limit: number }
+  ): Promise<any | null> {
+    const now = new Date()
+    const model = this.getModel(payload)
+
+    const current = await model.findOne({ jobId, status: { $in: resumableStatuses } }).lean()
+    if (!current) {
+      return null
+    }
+
+    // Matching on the status we read makes the transition atomic
+    return model
+      .findOneAndUpdate(
+        { jobId, status: current.status },
+        {
+          $set: {
+            status: budgetApproval ? 'awaiting_approval' : 'pending',
+            attempts: 0,
+            availableAt: now,
+            error: null,
+            completedAt: null,
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            'requestData.resume': true,
+            'progress.currentTask': budgetApproval ? 'Awaiting budget approval' : 'Queued for resume',
+            ...(budgetApproval && { budgetApproval: { ...budgetApproval, approvedBy: null, approvedAt: null } }),
+            updatedAt: now,
+          },
+          $inc: { resumeCount: 1 },
+          $push: {
+            resumeHistory: {
+              id: randomBytes(12).toString('hex'),
+              resumedAt: now,
+              previousStatus: current.status,
+              previousError: current.error || null,
+              previousAttempts: current.attempts || 0,
+            },
+          },
+        },
+        { new: true },
+      )
+      .lean()
+  }
+
+  /**
+   * Atomically move a job held for budget approval into the queue
+   * Returns the updated job, or null if the job is not awaiting approval.
+   */
+  async releaseForApproval(payload: any, jobId: string, approvedBy: string | null): Promise<any | null> {
+    const now = new Date()
+
+    return this.getModel(payload)
+      .findOneAndUpdate(
+        { jobId, status: 'awaiting_approval' },
+        {
+          $set: {
+            status: 'pending',
+            availableAt: now,
+            'progress.currentTask': 'Queued',
+            'budgetApproval.approvedBy': approvedBy,
+            'budgetApproval.approvedAt': now,
+            updatedAt: now,
+          },
+        },
+        { new: true },
+      )
+      .lean()
+  }
+
+  /**
+   * Compute the delay before a failed attempt becomes visible again
+   */
+  getRetryDelay(attempts: number): number {
+    return JOB_QUEUE_CONFIG.retryBackoffMs * Math.pow(2, Math.max(0, attempts - 1))
+  }
+
+  /**
+   * Get the underlying Mongoose model for atomic queue operations
+   */
+  private getModel(payload: any) {
+    const model = payload.db?.collections?.[JOBS_COLLECTION]
+    if (!model) {
+      throw new Error(`Job queue requires the MongoDB adapter (collection ${JOBS_COLLECTION} not found)`)
+    }
+    return model
+  }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService()
@@ -0,0 +1,30 @@
+/**
+ * Keyword Scene Analyzer
+ *
+ * The built-in keyword lists of SceneAnalysisEngine. Always available and used
+ * as the fallback when another backend has no answer.
+ */
+
+import { SceneAnalysisEngine, SceneClassification } from './SceneAnalysisEngine'
+import type { SceneAnalyzer } from './SceneAnalyzer'
+
+export class KeywordSceneAnalyzer implements SceneAnalyzer {
+  readonly name = 'keyword' as const
+  private engine = new SceneAnalysisEngine()
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async classify(description: string): Promise<SceneClassification> {
+    return this.engine.classify(description)
+  }
+
+  async getCacheScope(): Promise<string> {
+    return 'keyword'
+  }
+
+  getConfig(): Record<string, any> {
+    return { backend: this.name }
+  }
+}
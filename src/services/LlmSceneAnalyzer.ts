@@ -0,0 +1,121 @@
+/**
+ * LLM Scene Analyzer
+ *
+ * Asks a locally hosted model (Ollama, llama.cpp, vLLM, ...) to classify the
+ * scene through an OpenAI-compatible chat completions endpoint. Answers outside
+ * the known scene types and tones are treated as no answer.
+ */
+
+import { SCENE_ANALYSIS_CONFIG } from '../lib/config/scene-analysis'
+import {
+  SCENE_TYPES,
+  EMOTIONAL_TONES,
+  SceneClassification,
+  SceneType,
+  EmotionalTone,
+} from './SceneAnalysisEngine'
+import type { SceneAnalyzer } from './SceneAnalyzer'
+
+const SYSTEM_PROMPT = [
+  'You classify scene descriptions from a film script for a storyboard tool.',
+  `sceneType is one of: ${SCENE_TYPES.join(', ')}.`,
+  `emotionalTone is one of: ${EMOTIONAL_TONES.join(', ')}.`,
+  'Reply with JSON only: {"sceneType": "...", "emotionalTone": "...", "confidence": 0-100, "reasoning": "one short sentence"}',
+].join('\n')
+
+export class LlmSceneAnalyzer implements SceneAnalyzer {
+  readonly name = 'llm' as const
+  private endpoint: string
+  private model: string
+  private apiKey: string
+  private timeoutMs: number
+
+  constructor() {
+    this.endpoint = SCENE_ANALYSIS_CONFIG.llm.endpoint
+    this.model = SCENE_ANALYSIS_CONFIG.llm.model
+    this.apiKey = SCENE_ANALYSIS_CONFIG.llm.apiKey
+    this.timeoutMs = SCENE_ANALYSIS_CONFIG.llm.timeoutMs
+
+    if (!this.endpoint) {
+      console.warn('SCENE_ANALYZER_LLM_URL not set - LLM scene analysis will fall back to keywords')
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.endpoint
+  }
+
+  async classify(description: string): Promise<SceneClassification | null> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: description },
+        ],
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Scene analyzer LLM failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    return this.parseClassification(data?.choices?.[0]?.message?.content)
+  }
+
+  async getCacheScope(): Promise<string> {
+    return `llm:${this.model}`
+  }
+
+  getConfig(): Record<string, any> {
+    return {
+      backend: this.name,
+      endpoint: this.endpoint,
+      model: this.model,
+      hasApiKey: !!this.apiKey,
+      timeoutMs: this.timeoutMs,
+    }
+  }
+
+  /**
+   * Read the model's JSON answer, tolerating code fences around it
+   */
+  private parseClassification(content: unknown): SceneClassification | null {
+    if (typeof content !== 'string') return null
+
+    const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '')
+    let parsed: any
+    try {
+      parsed = JSON.parse(json)
+    } catch {
+      console.warn('Scene analyzer LLM returned invalid JSON:', content.slice(0, 200))
+      return null
+    }
+
+    const sceneType = String(parsed?.sceneType || '').toLowerCase() as SceneType
+    const emotionalTone = String(parsed?.emotionalTone || '').toLowerCase() as EmotionalTone
+    if (!SCENE_TYPES.includes(sceneType) || !EMOTIONAL_TONES.includes(emotionalTone)) {
+      return null
+    }
+
+    const confidence = Number(parsed.confidence)
+    return {
+      sceneType,
+      emotionalTone,
+      confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(100, Math.round(confidence))) : undefined,
+      reasoning: typeof parsed.reasoning === 'string' ? `Model: ${parsed.reasoning.trim()}` : undefined,
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Local DINOv3 Adapter
+ *
+ * In-process stand-in for the DINOv3 service, for tests and offline
+ * development. Uploads are content-addressed and analysed with real,
+ * deterministic image signals (perceptual hashes, color histogram, sharpness,
+ * exposure) instead of a neural model. Signals are cached in memory and on disk.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { DINO_CONFIG } from '../lib/config/dino'
+import {
+  computeImageSignals,
+  cosineSimilarity,
+  hashSimilarity,
+  histogramIntersection,
+  ImageSignals,
+} from '../lib/utils/image-signals'
+import type {
+  DinoAdapter,
+  DinoConsistencyResponse,
+  DinoFeaturesResponse,
+  DinoQualityResponse,
+  DinoUploadResponse,
+} from './DinoAdapter'
+
+interface LocalDinoAsset {
+  assetId: string
+  filename: string
+  size: number
+  uploadedAt: string
+  signals: ImageSignals
+}
+
+export class LocalDinoAdapter implements DinoAdapter {
+  readonly name = 'local' as const
+  private config = DINO_CONFIG.local
+  private assets: Map<string, LocalDinoAsset> = new Map()
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  /**
+   * Analyse and store an image; identical bytes map to the same asset ID
+   */
+  async uploadMedia(imageBuffer: Buffer, filename: string): Promise<DinoUploadResponse> {
+    const assetId = `local-${createHash('sha256').update(imageBuffer).digest('hex').slice(0, 32)}`
+
+    let asset = await this.findAsset(assetId)
+    if (!asset) {
+      asset = {
+        assetId,
+        filename,
+        size: imageBuffer.length,
+        uploadedAt: new Date().toISOString(),
+        signals: await computeImageSignals(imageBuffer),
+      }
+      await this.saveAsset(asset)
+    }
+
+    return {
+      asset_id: assetId,
+      media_url: `local-dino://assets/${assetId}`,
+      metadata: {
+        filename: asset.filename,
+        size: asset.size,
+        content_type: 'image/jpeg',
+        upload_timestamp: asset.uploadedAt,
+      },
+    }
+  }
+
+  async extractFeatures(assetId: string): Promise<DinoFeaturesResponse> {
+    const asset = await this.getAsset(assetId)
+
+    return {
+      asset_id: assetId,
+      features: asset.signals.features,
+      processing_status: 'completed',
+    }
+  }
+
+  /**
+   * Score quality from sharpness, exposure, contrast and resolution
+   */
+  async analyzeQuality(assetId: string): Promise<DinoQualityResponse> {
+    const { signals } = await this.getAsset(assetId)
+    const { exposure } = signals
+
+    // Laplacian variance of ~100+ is crisp, below ~10 is blurry
+    const sharpnessScore = Math.min(1, Math.log10(1 + signals.sharpness) / 2)
+    // Best around mid-grey, penalised for clipped highlights and shadows
+    const exposureScore = Math.max(
+      0,
+      1 - Math.abs(exposure.meanLuminance - 0.5) * 2 - (exposure.clippedHighlights + exposure.clippedShadows) * 2
+    )
+    const contrastScore = Math.min(1, exposure.contrast / 0.2)
+    const resolutionScore = Math.min(1, (signals.width * signals.height) / (768 * 768))
+
+    const qualityScore = Math.round(
+      (sharpnessScore * 0.35 + exposureScore * 0.3 + contrastScore * 0.2 + resolutionScore * 0.15) * 100
+    )
+
+    // Histogram entropy as a proxy for visual diversity
+    const entropy = signals.histogram.reduce((sum, p) => (p > 0 ? sum - p * Math.log2(p) : sum), 0)
+    const diversityScore = Math.round((entropy / Math.log2(signals.histogram.length)) * 100)
+
+    const features = signals.features
+    const mean = features.reduce((sum, value) => sum + value, 0) / features.length
+    const std = Math.sqrt(features.reduce((sum, value) => sum + (value - mean) ** 2, 0) / features.length)
+
+    return {
+      asset_id: assetId,
+      quality_score: qualityScore,
+      diversity_score: diversityScore,
+      feature_stats: {
+        mean,
+        std,
+        max: Math.max(...features),
+        min: Math.min(...features),
+      },
+    }
+  }
+
+  /**
+   * Compare two assets by perceptual hashes, color distribution and features
+   */
+  async validateConsistency(testAssetId: string, referenceAssetId: string): Promise<DinoConsistencyResponse> {
+    const [test, reference] = await Promise.all([
+      this.getAsset(testAssetId),
+      this.getAsset(referenceAssetId),
+    ])
+
+    const components = {
+      dHash: hashSimilarity(test.signals.dHash, reference.signals.dHash),
+      aHash: hashSimilarity(test.signals.aHash, reference.signals.aHash),
+      histogram: histogramIntersection(test.signals.histogram, reference.signals.histogram),
+      features: Math.max(0, cosineSimilarity(test.signals.features, reference.signals.features)),
+    }
+
+    const similarity =
+      components.dHash * 0.2 + components.aHash * 0.2 + components.histogram * 0.35 + components.features * 0.25
+    const similarityScore = Math.round(similarity * 100)
+
+    // Confidence is high when the individual signals agree with each other
+    const values = Object.values(components)
+    const spread = Math.max(...values) - Math.min(...values)
+    const confidence = Number(Math.max(0, 1 - spread).toFixed(3))
+
+    return {
+      reference_asset_id: referenceAssetId,
+      test_asset_id: testAssetId,
+      same_character: similarityScore >= this.config.sameCharacterThreshold,
+      similarity_score: similarityScore,
+      confidence,
+      explanation: `Local signal comparison: dHash ${Math.round(components.dHash * 100)}%, ` +
+        `aHash ${Math.round(components.aHash * 100)}%, color histogram ${Math.round(components.histogram * 100)}%, ` +
+        `features ${Math.round(components.features * 100)}%`,
+    }
+  }
+
+  private async getAsset(assetId: string): Promise<LocalDinoAsset> {
+    const asset = await this.findAsset(assetId)
+    if (!asset) {
+      throw new Error(`Local DINO asset not found: ${assetId}`)
+    }
+    return asset
+  }
+
+  private async findAsset(assetId: string): Promise<LocalDinoAsset | null> {
+    const cached = this.assets.get(assetId)
+    if (cached) {
+      return cached
+    }
+
+    try {
+      const stored = JSON.parse(await fs.readFile(this.getAssetPath(assetId), 'utf8')) as LocalDinoAsset
+      this.assets.set(assetId, stored)
+      return stored
+    } catch {
+      return null
+    }
+  }
+
+  private async saveAsset(asset: LocalDinoAsset): Promise<void> {
+    this.assets.set(asset.assetId, asset)
+
+    try {
+      await fs.mkdir(this.config.storageDir, { recursive: true })
+      await fs.writeFile(this.getAssetPath(asset.assetId), JSON.stringify(asset))
+    } catch (error) {
+      // The in-memory copy still works for this process
+      console.warn(`Could not persist local DINO asset ${asset.assetId}:`, error)
+    }
+  }
+
+  private getAssetPath(assetId: string): string {
+    // Asset IDs are generated here, but guard against path traversal from callers
+    return join(this.config.storageDir, `${assetId.replace(/[^a-zA-Z0-9_-]/g, '')}.json`)
+  }
+
+  getConfig() {
+    return {
+      backend: this.name,
+      storageDir: this.config.storageDir,
+      cachedAssets: this.assets.size,
+    }
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Local Image Provider
+ *
+ * Offline, deterministic provider for tests and development. Renders a
+ * placeholder figure with sharp from the prompt hash, seed and shot metadata:
+ * the same request always yields the same image, and different prompts, seeds
+ * or shots yield visibly different ones. No network access is required.
+ */
+
+import { createHash } from 'crypto'
+import sharp from 'sharp'
+import { IMAGE_PROVIDER_CONFIG } from '../lib/config/image-providers'
+import type { ImageProvider, ImageProviderRequest, ImageProviderResult } from './ImageProvider'
+
+const MODEL_NAME = 'local/placeholder-v1'
+
+type RGB = [number, number, number]
+
+export class LocalImageProvider implements ImageProvider {
+  readonly name = 'local' as const
+  private config = IMAGE_PROVIDER_CONFIG.local
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async generate(request: ImageProviderRequest): Promise<ImageProviderResult> {
+    const width = request.width || this.config.width
+    const height = request.height || this.config.height
+    const hash = this.hashRequest(request)
+
+    const pixels = this.renderPixels(request, hash, width, height)
+    const imageBuffer = await sharp(pixels, { raw: { width, height, channels: 3 } })
+      .jpeg({ quality: this.config.jpegQuality })
+      .toBuffer()
+
+    return {
+      imageBuffer,
+      model: MODEL_NAME,
+      parameters: {
+        prompt: request.prompt,
+        mode: request.mode,
+        seed: request.seed,
+        width,
+        height,
+        referenceShot: request.referenceShot?.slug || request.referenceShot?.shotName,
+        referenceImageCount: request.referenceImageUrls.length,
+        hash: hash.toString('hex'),
+      },
+    }
+  }
+
+  /**
+   * Hash everything that should influence the rendered image
+   */
+  private hashRequest(request: ImageProviderRequest): Buffer {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        prompt: request.prompt,
+        mode: request.mode,
+        seed: request.seed ?? null,
+        shot: request.referenceShot
+          ? [
+              request.referenceShot.slug,
+              request.referenceShot.angle,
+              request.referenceShot.crop,
+              request.referenceShot.lensMm,
+            ]
+          : null,
+        references: request.referenceImageUrls,
+        character: request.characterName ?? null,
+      }))
+      .digest()
+  }
+
+  /**
+   * Render an RGB buffer: background gradient, a figure framed by the shot
+   * crop and angle, a hash fingerprint grid and seeded grain
+   */
+  private renderPixels(request: ImageProviderRequest, hash: Buffer, width: number, height: number): Buffer {
+    const pixels = Buffer.alloc(width * height * 3)
+    const random = this.createRandom(hash.readUInt32BE(0))
+
+    // Palette comes from the character identity (first reference or name) so
+    // images of the same character share colors and compare as consistent
+    const identity = createHash('sha256')
+      .update(request.referenceImageUrls[0] || request.characterName || request.prompt)
+      .digest()
+    const top: RGB = [identity[0], identity[1], identity[2]]
+    const bottom: RGB = [identity[3], identity[4], identity[5]]
+    const figureColor: RGB = [
+      Math.max(40, 255 - identity[6]),
+      Math.max(40, 255 - identity[7]),
+      Math.max(40, 255 - identity[8]),
+    ]
+
+    // Background gradient
+    for (let y = 0; y < height; y++) {
+      const t = y / (height - 1)
+      const row: RGB = [
+        Math.round(top[0] * (1 - t) + bottom[0] * t),
+        Math.round(top[1] * (1 - t) + bottom[1] * t),
+        Math.round(top[2] * (1 - t) + bottom[2] * t),
+      ]
+      for (let x = 0; x < width; x++) {
+        const offset = (y * width + x) * 3
+        pixels[offset] = row[0]
+        pixels[offset + 1] = row[1]
+        pixels[offset + 2] = row[2]
+      }
+    }
+
+    // Figure: head ellipse and torso, scaled by crop and narrowed for profile angles
+    const scale = this.getCropScale(request.referenceShot?.crop)
+    const widthFactor = this.getAngleWidthFactor(request.referenceShot?.angle)
+    const centerX = width / 2 + this.getAngleOffset(request.referenceShot?.angle) * width * 0.1
+    const headRadiusY = height * 0.08 * scale
+    const headRadiusX = headRadiusY * 0.8 * widthFactor
+    const headCenterY = height * 0.5 - height * 0.22 * Math.min(scale, 2.5)
+    const torsoTop = headCenterY + headRadiusY * 1.1
+    const torsoHalfWidth = headRadiusY * 1.6 * widthFactor
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = (x - centerX) / headRadiusX
+        const dy = (y - headCenterY) / headRadiusY
+        const inHead = dx * dx + dy * dy <= 1
+        const inTorso = y >= torsoTop && Math.abs(x - centerX) <= torsoHalfWidth * (1 + (y - torsoTop) / height)
+
+        if (inHead || inTorso) {
+          const offset = (y * width + x) * 3
+          const shade = inHead ? 1 : 0.8
+          pixels[offset] = Math.round(figureColor[0] * shade)
+          pixels[offset + 1] = Math.round(figureColor[1] * shade)
+          pixels[offset + 2] = Math.round(figureColor[2] * shade)
+        }
+      }
+    }
+
+    // Fingerprint grid: 8x8 cells from the hash bits in the top-left corner
+    const cell = Math.max(4, Math.floor(Math.min(width, height) / 40))
+    for (let bit = 0; bit < 64; bit++) {
+      const on = (hash[16 + Math.floor(bit / 8)] >> (bit % 8)) & 1
+      const gx = (bit % 8) * cell + cell
+      const gy = Math.floor(bit / 8) * cell + cell
+      for (let y = gy; y < gy + cell && y < height; y++) {
+        for (let x = gx; x < gx + cell && x < width; x++) {
+          const offset = (y * width + x) * 3
+          const value = on ? 255 : 0
+          pixels[offset] = value
+          pixels[offset + 1] = value
+          pixels[offset + 2] = value
+        }
+      }
+    }
+
+    // Seeded grain so the image has texture for sharpness/quality heuristics
+    for (let i = 0; i < pixels.length; i++) {
+      const noise = Math.round((random() - 0.5) * 16)
+      pixels[i] = Math.min(255, Math.max(0, pixels[i] + noise))
+    }
+
+    return pixels
+  }
+
+  /**
+   * Relative figure size for a shot crop
+   */
+  private getCropScale(crop?: string): number {
+    switch (crop) {
+      case 'hands':
+        return 3.5
+      case 'cu':
+        return 2.5
+      case 'mcu':
+        return 2
+      case '3q':
+        return 1.4
+      default:
+        return 1
+    }
+  }
+
+  /**
+   * Narrow the figure for profile views
+   */
+  private getAngleWidthFactor(angle?: string): number {
+    const value = angle || ''
+    if (value.startsWith('profile')) return 0.55
+    if (value.startsWith('3q') || value.startsWith('45') || value.startsWith('135')) return 0.8
+    return 1
+  }
+
+  /**
+   * Shift the figure towards the side it is facing
+   */
+  private getAngleOffset(angle?: string): number {
+    const value = angle || ''
+    if (value.endsWith('_left')) return -1
+    if (value.endsWith('_right')) return 1
+    return 0
+  }
+
+  /**
+   * Small seeded PRNG (mulberry32) so grain is reproducible
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+
+  getConfig() {
+    return {
+      provider: this.name,
+      model: MODEL_NAME,
+      width: this.config.width,
+      height: this.config.height,
+    }
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Novel Movie Sync Service
+ *
+ * Three-way merge between Novel Movie and the Character Library. The snapshot
+ * of synced fields from the last successful sync (novelMovieIntegration.syncBase)
+ * is the common ancestor, so a field edited on one side only is merged cleanly
+ * and only fields edited on both sides are conflicts. `skills` and
+ * `enhancedRelationships` are merged item by item. Unresolved conflicts are
+ * queued in novelMovieIntegration.pendingConflicts for manual resolution.
+ */
+
+export type ConflictStrategy = 'novel-movie-wins' | 'character-library-wins' | 'manual'
+export type ConflictResolutionChoice = 'novel-movie' | 'character-library' | 'manual'
+
+export interface SyncConflict {
+  id?: string
+  field: string
+  baseValue: any
+  novelMovieValue: any
+  characterLibraryValue: any
+  resolution?: ConflictResolutionChoice
+  detectedAt?: string
+}
+
+export interface MergeResult {
+  // Values to write to the character, keyed by top-level field
+  updates: Record<string, any>
+  // Fields merged without conflict, including one-sided edits
+  mergedFields: string[]
+  // Base snapshot entries to store for fields that are now in agreement
+  baseUpdates: Record<string, any>
+  conflicts: SyncConflict[]
+}
+
+export interface SyncOptions {
+  changeSet: string[]
+  lastModified: string
+  strategy: ConflictStrategy
+}
+
+export interface SyncResult {
+  character: any
+  mergedFields: string[]
+  conflicts: SyncConflict[]
+  queued: boolean
+}
+
+export interface ConflictResolutionInput {
+  conflictId?: string
+  field?: string
+  resolution: ConflictResolutionChoice
+  value?: any
+}
+
+export interface ResolveConflictsResult {
+  character: any
+  resolved: Array<{ field: string; resolution: ConflictResolutionChoice; value: any }>
+  notFound: string[]
+  remaining: number
+}
+
+// Array fields merged item by item, keyed by a stable attribute
+const ARRAY_MERGE_KEYS: Record<string, string> = {
+  skills: 'skill',
+  enhancedRelationships: 'characterId',
+}
+
+// Conflict paths for array items look like `skills[skill=Fencing]`
+const ITEM_PATH_PATTERN = /^(\w+)\[(\w+)=(.*)\]$/
+
+export class NovelMovieSyncService {
+  /**
+   * Merge incoming Novel Movie data into a character and persist the result
+   */
+  async syncCharacter(
+    payload: any,
+    character: any,
+    characterData: Record<string, any>,
+    options: SyncOptions
+  ): Promise<SyncResult> {
+    const integration = character.novelMovieIntegration || {}
+    const incoming = this.toLibraryShape(characterData)
+    const base = integration.syncBase && typeof integration.syncBase === 'object'
+      ? integration.syncBase
+      : null
+
+    const merge = base
+      ? this.mergeCharacterData(base, incoming, character)
+      : this.mergeWithoutBase(incoming, character, options)
+
+    // Settle conflicts automatically unless they are left for manual review
+    const queuedConflicts: SyncConflict[] = []
+    for (const conflict of merge.conflicts) {
+      if (options.strategy === 'manual') {
+        queuedConflicts.push(conflict)
+        continue
+      }
+
+      const choice = options.strategy === 'character-library-wins' ? 'character-library' : 'novel-movie'
+      const value = choice === 'novel-movie' ? conflict.novelMovieValue : conflict.characterLibraryValue
+      conflict.resolution = choice
+      this.applyFieldValue(merge.updates, character, conflict.field, value)
+      merge.baseUpdates[this.getTopLevelField(conflict.field)] = undefined
+    }
+
+    // Fields written through array item resolution need their full base refreshed
+    const updates = merge.updates
+    const nextBase: Record<string, any> = { ...(base || {}) }
+    for (const [field, value] of Object.entries(merge.baseUpdates)) {
+      nextBase[field] = this.normalize(value === undefined ? (updates[field] ?? character[field]) : value)
+    }
+
+    // A new sync supersedes earlier open conflicts on the same fields
+    const detectedAt = new Date().toISOString()
+    const queuedFields = new Set(queuedConflicts.map((conflict) => conflict.field))
+    const pendingConflicts = [
+      ...(integration.pendingConflicts || []).filter((conflict: any) => !queuedFields.has(conflict.field)),
+      ...queuedConflicts.map((conflict) => ({ ...conflict, detectedAt })),
+    ]
+
+    const resolvedBy = merge.conflicts.length > 0
+      ? (options.strategy === 'manual' ? 'pending-manual' : `auto-${options.strategy}`)
+      : 'system'
+
+    const updatedCharacter = await payload.update({
+      collection: 'characters',
+      id: character.id,
+      data: {
+        ...updates,
+        novelMovieIntegration: {
+          ...integration,
+          lastSyncAt: detectedAt,
+          syncStatus: pendingConflicts.length > 0 ? 'conflict' : 'synced',
+          syncBase: nextBase,
+          pendingConflicts,
+          changeLog: [
+            ...(integration.changeLog || []),
+            {
+              timestamp: detectedAt,
+              source: 'novel-movie',
+              changes: (options.changeSet.length > 0 ? options.changeSet : merge.mergedFields)
+                .map((field) => ({ field })),
+              resolvedBy,
+            },
+          ],
+        },
+      },
+    })
+
+    const storedConflicts = (updatedCharacter.novelMovieIntegration?.pendingConflicts || [])
+      .filter((conflict: any) => queuedFields.has(conflict.field))
+
+    return {
+      character: updatedCharacter,
+      mergedFields: merge.mergedFields,
+      conflicts: options.strategy === 'manual' ? storedConflicts : merge.conflicts,
+      queued: queuedConflicts.length > 0,
+    }
+  }
+
+  /**
+   * Settle queued conflicts field by field
+   */
+  async resolveConflicts(
+    payload: any,
+    character: any,
+    resolutions: ConflictResolutionInput[],
+    resolvedBy: string = 'manual'
+  ): Promise<ResolveConflictsResult> {
+    const integration = character.novelMovieIntegration || {}
+    let pending: any[] = [...(integration.pendingConflicts || [])]
+    const updates: Record<string, any> = {}
+    const baseFields = new Set<string>()
+    const resolved: ResolveConflictsResult['resolved'] = []
+    const notFound: string[] = []
+
+    for (const input of resolutions) {
+      const conflict = pending.find((entry) =>
+        (input.conflictId && entry.id === input.conflictId) || (!input.conflictId && entry.field === input.field)
+      )
+      if (!conflict) {
+        notFound.push(input.conflictId || input.field || 'unknown')
+        continue
+      }
+
+      const value = input.resolution === 'novel-movie'
+        ? conflict.novelMovieValue
+        : input.resolution === 'character-library'
+          ? conflict.characterLibraryValue
+          : input.value
+
+      this.applyFieldValue(updates, character, conflict.field, value)
+      baseFields.add(this.getTopLevelField(conflict.field))
+      pending = pending.filter((entry) => entry !== conflict)
+      resolved.push({ field: conflict.field, resolution: input.resolution, value })
+    }
+
+    if (resolved.length === 0) {
+      return { character, resolved, notFound, remaining: pending.length }
+    }
+
+    const syncBase = { ...(integration.syncBase || {}) }
+    for (const field of baseFields) {
+      syncBase[field] = this.normalize(updates[field] ?? character[field])
+    }
+
+    const timestamp = new Date().toISOString()
+    const updatedCharacter = await payload.update({
+      collection: 'characters',
+      id: character.id,
+      data: {
+        ...updates,
+        novelMovieIntegration: {
+          ...integration,
+          syncStatus: pending.length > 0 ? 'conflict' : 'synced',
+          syncBase,
+          pendingConflicts: pending,
+          changeLog: [
+            ...(integration.changeLog || []),
+            {
+              timestamp,
+              source: 'character-library',
+              changes: resolved.map((entry) => ({ field: entry.field })),
+              resolvedBy,
+            },
+          ],
+        },
+      },
+    })
+
+    return { character: updatedCharacter, resolved, notFound, remaining: pending.length }
+  }
+
+  /**
+   * Per-field three-way merge of incoming data against the character, using base as ancestor
+   */
+  mergeCharacterData(base: Record<string, any>, incoming: Record<string, any>, current: Record<string, any>): MergeResult {
+    const result: MergeResult = { updates: {}, mergedFields: [], baseUpdates: {}, conflicts: [] }
+
+    for (const field of Object.keys(incoming)) {
+      const baseValue = base[field]
+      const theirs = incoming[field]
+      const ours = current[field]
+
+      if (ARRAY_MERGE_KEYS[field] && (Array.isArray(theirs) || Array.isArray(ours))) {
+        this.mergeArrayField(field, baseValue, theirs, ours, result)
+        continue
+      }
+
+      if (this.isEqual(theirs, ours)) {
+        result.baseUpdates[field] = theirs
+      } else if (this.isEqual(baseValue, ours)) {
+        // Only Novel Movie changed the field
+        result.updates[field] = theirs
+        result.mergedFields.push(field)
+        result.baseUpdates[field] = theirs
+      } else if (this.isEqual(baseValue, theirs)) {
+        // Only the Character Library changed the field; keep it
+        result.baseUpdates[field] = ours
+      } else {
+        result.conflicts.push({
+          field,
+          baseValue: this.normalize(baseValue),
+          novelMovieValue: theirs,
+          characterLibraryValue: this.normalize(ours),
+        })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * First sync for a character: no ancestor, so fall back to timestamps and the changeSet
+   */
+  private mergeWithoutBase(
+    incoming: Record<string, any>,
+    current: Record<string, any>,
+    options: SyncOptions
+  ): MergeResult {
+    const result: MergeResult = { updates: {}, mergedFields: [], baseUpdates: {}, conflicts: [] }
+    const libraryIsNewer = new Date(current.updatedAt) > new Date(options.lastModified)
+    const changeSet = new Set(options.changeSet.map((field) => this.getTopLevelField(field)))
+
+    for (const field of Object.keys(incoming)) {
+      const theirs = incoming[field]
+      const ours = current[field]
+
+      if (this.isEqual(theirs, ours)) {
+        result.baseUpdates[field] = theirs
+      } else if (libraryIsNewer && changeSet.has(field)) {
+        result.conflicts.push({
+          field,
+          baseValue: null,
+          novelMovieValue: theirs,
+          characterLibraryValue: this.normalize(ours),
+        })
+      } else {
+        result.updates[field] = theirs
+        result.mergedFields.push(field)
+        result.baseUpdates[field] = theirs
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Merge an array field item by item, matching items on their key attribute
+   */
+  private mergeArrayField(field: string, baseValue: any, theirs: any, ours: any, result: MergeResult): void {
+    const key = ARRAY_MERGE_KEYS[field]
+    const baseItems = this.indexItems(baseValue, key)
+    const theirItems = this.indexItems(theirs, key)
+    const ourItems = this.indexItems(ours, key)
+
+    // Keep the library's order, then append items only Novel Movie has
+    const keys = [...ourItems.keys(), ...[...theirItems.keys()].filter((itemKey) => !ourItems.has(itemKey))]
+    for (const itemKey of baseItems.keys()) {
+      if (!keys.includes(itemKey)) keys.push(itemKey)
+    }
+
+    const merged: any[] = []
+    let changed = false
+    let conflicted = false
+
+    for (const itemKey of keys) {
+      const baseItem = baseItems.get(itemKey)
+      const theirItem = theirItems.get(itemKey)
+      const ourItem = ourItems.get(itemKey)
+
+      let chosen: any
+      if (this.isEqual(theirItem, ourItem)) {
+        chosen = ourItem
+      } else if (this.isEqual(baseItem, ourItem)) {
+        chosen = theirItem
+        changed = true
+      } else if (this.isEqual(baseItem, theirItem)) {
+        chosen = ourItem
+      } else {
+        // Keep the library item until the conflict is resolved
+        chosen = ourItem
+        conflicted = true
+        result.conflicts.push({
+          field: `${field}[${key}=${itemKey}]`,
+          baseValue: this.normalize(baseItem) ?? null,
+          novelMovieValue: theirItem ?? null,
+          characterLibraryValue: this.normalize(ourItem) ?? null,
+        })
+      }
+
+      if (chosen !== undefined && chosen !== null) {
+        merged.push(chosen)
+      }
+    }
+
+    if (changed) {
+      result.updates[field] = merged
+      result.mergedFields.push(field)
+    }
+    if (!conflicted) {
+      result.baseUpdates[field] = merged
+    }
+  }
+
+  /**
+   * Write a resolved value into the pending updates; array item paths replace,
+   * add or (for null) remove the matching item
+   */
+  private applyFieldValue(updates: Record<string, any>, character: any, path: string, value: any): void {
+    const match = path.match(ITEM_PATH_PATTERN)
+    if (!match) {
+      updates[path] = value
+      return
+    }
+
+    const [, field, key, itemKey] = match
+    const items: any[] = [...(updates[field] ?? character[field] ?? [])]
+    const index = items.findIndex((item) => this.getItemKey(item, key) === itemKey)
+
+    if (value === null || value === undefined) {
+      if (index >= 0) items.splice(index, 1)
+    } else if (index >= 0) {
+      // Keep the row id so Payload updates the existing array row
+      items[index] = items[index]?.id ? { ...value, id: items[index].id } : value
+    } else {
+      items.push(value)
+    }
+
+    updates[field] = items
+  }
+
+  /**
+   * Convert the Novel Movie payload into collection field shapes
+   */
+  toLibraryShape(characterData: Record<string, any>): Record<string, any> {
+    const { relationships, ...rest } = characterData
+    const data: Record<string, any> = { ...rest }
+
+    if (Array.isArray(relationships)) {
+      data.enhancedRelationships = relationships.map((relationship: any) => ({
+        characterId: relationship.characterId,
+        characterName: relationship.characterName,
+        relationshipType: relationship.relationshipType,
+        relationshipDynamic: relationship.relationshipDynamic,
+        storyContext: relationship.storyContext,
+        visualCues: Array.isArray(relationship.visualCues)
+          ? relationship.visualCues.map((cue: any) => (typeof cue === 'string' ? { cue } : cue))
+          : undefined,
+        strength: relationship.strength,
+        conflictLevel: relationship.conflictLevel,
+      }))
+    }
+
+    return data
+  }
+
+  private indexItems(value: any, key: string): Map<string, any> {
+    const items = new Map<string, any>()
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const itemKey = this.getItemKey(item, key)
+        if (itemKey) items.set(itemKey, item)
+      }
+    }
+    return items
+  }
+
+  private getItemKey(item: any, key: string): string {
+    const value = item?.[key]
+    return value === undefined || value === null ? '' : String(value).trim().toLowerCase()
+  }
+
+  private getTopLevelField(path: string): string {
+    return path.split(/[.[]/)[0]
+  }
+
+  /**
+   * Strip Payload row ids and empty values so values from both systems compare equal
+   */
+  normalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalize(item))
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      const normalized: Record<string, any> = {}
+      for (const key of Object.keys(value).sort()) {
+        if (key === 'id') continue
+        const entry = this.normalize(value[key])
+        if (entry !== undefined && entry !== null) {
+          normalized[key] = entry
+        }
+      }
+      return normalized
+    }
+    return value === undefined ? null : value
+  }
+
+  private isEqual(a: any, b: any): boolean {
+    const left = this.normalize(a)
+    const right = this.normalize(b)
+    const isEmpty = (value: any) =>
+      value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+    if (isEmpty(left) && isEmpty(right)) return true
+    return JSON.stringify(left) === JSON.stringify(right)
+  }
+}
+
+// Export singleton instance
+export const novelMovieSyncService = new NovelMovieSyncService()
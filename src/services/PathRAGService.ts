@@ -377,6 +377,24 @@ export class PathRAGService {
       if (clothingText) profileParts.push(`Clothing & Style: ${clothingText}`)
     }
 
+    if (character.wardrobe && character.wardrobe.length > 0) {
+      const wardrobeText = character.wardrobe
+        .map((outfit: any) => `${outfit.name || outfit.outfitId}: ${outfit.description || ''}`)
+        .join('; ')
+      profileParts.push(`Wardrobe: ${wardrobeText}`)
+    }
+
+    if (character.eras && character.eras.length > 0) {
+      const erasText = character.eras
+        .map((era: any) => {
+          const years = era.fromYear != null || era.toYear != null ? ` (${era.fromYear ?? '…'}–${era.toYear ?? '…'})` : ''
+          const age = era.age != null ? `age ${era.age}` : ''
+          return `${era.name || era.eraId}${years}: ${[age, era.physicalDescriptionDelta].filter(Boolean).join(', ')}`
+        })
+        .join('; ')
+      profileParts.push(`Appearance Eras: ${erasText}`)
+    }
+
     // Add skills
     if (character.skills && character.skills.length > 0) {
       const skillsText = character.skills
@@ -0,0 +1,465 @@
+/**
+ * Project Bible Service
+ *
+ * Builds a printable character bible for a Novel Movie project: one page per
+ * character with the master reference, the 360° turnaround, physical traits,
+ * dialogue voice, psychology, character arc and a relationship summary.
+ * Rendered as self-contained HTML or as a PDF.
+ */
+
+import sharp from 'sharp'
+import { A4, PdfDocument, PdfImage } from '../lib/utils/pdf-writer'
+
+export interface BibleImage {
+  url: string
+  alt: string
+  label?: string
+}
+
+export interface BibleRelationship {
+  name: string
+  relationshipType: string
+  relationshipDynamic?: string
+  storyContext?: string
+  strength?: number
+  conflictLevel?: number
+}
+
+export interface BibleCharacter {
+  id: string
+  characterId: string
+  name: string
+  role?: string
+  archetype?: string
+  status?: string
+  masterReference: BibleImage | null
+  turnaround: BibleImage[]
+  physicalTraits: Array<{ label: string; value: string }>
+  dialogueVoice: Array<{ label: string; value: string }>
+  psychology: Array<{ label: string; value: string }>
+  characterArc: Array<{ label: string; value: string }>
+  relationships: BibleRelationship[]
+}
+
+export interface ProjectBible {
+  projectId: string
+  projectName: string
+  generatedAt: string
+  characters: BibleCharacter[]
+}
+
+// Turnaround order around the character, starting from the front
+const TURNAROUND_ANGLES = [
+  'front', '45_left', '3q_left', 'profile_left', '135_left', 'back',
+  '135_right', 'profile_right', '3q_right', '45_right',
+]
+
+const ANGLE_LABELS: Record<string, string> = {
+  front: 'Front',
+  '45_left': '45° Left',
+  '3q_left': '3/4 Left',
+  profile_left: 'Profile Left',
+  '135_left': '135° Left',
+  back: 'Back',
+  '135_right': '135° Right',
+  profile_right: 'Profile Right',
+  '3q_right': '3/4 Right',
+  '45_right': '45° Right',
+}
+
+const CROP_PREFERENCE = ['full', '3q', 'mcu', 'cu', 'hands']
+
+// Longest side of images embedded in the PDF
+const PDF_IMAGE_SIZE = 600
+
+export class ProjectBibleService {
+  /**
+   * Collect bible data for every character in a project
+   */
+  async buildBible(payload: any, projectId: string, baseUrl?: string): Promise<ProjectBible> {
+    const result = await payload.find({
+      collection: 'characters',
+      where: { 'novelMovieIntegration.projectId': { equals: projectId } },
+      sort: 'name',
+      limit: 500,
+      depth: 1,
+    })
+
+    const characters: any[] = result.docs
+    const projectName = characters.find((character) => character.novelMovieIntegration?.projectName)
+      ?.novelMovieIntegration.projectName || projectId
+
+    // Relationship targets may be stored as database IDs or characterIds
+    const castNames = new Map<string, string>()
+    for (const character of characters) {
+      castNames.set(String(character.id), character.name)
+      if (character.characterId) castNames.set(character.characterId, character.name)
+    }
+
+    return {
+      projectId,
+      projectName,
+      generatedAt: new Date().toISOString(),
+      characters: characters.map((character) => this.buildCharacter(character, castNames, baseUrl)),
+    }
+  }
+
+  private buildCharacter(character: any, castNames: Map<string, string>, baseUrl?: string): BibleCharacter {
+    const master = character.masterReferenceImage
+    const masterUrl = typeof master === 'object' ? this.resolveUrl(master?.url, baseUrl) : null
+
+    return {
+      id: String(character.id),
+      characterId: character.characterId,
+      name: character.name,
+      role: character.role,
+      archetype: character.archetype,
+      status: character.status,
+      masterReference: masterUrl
+        ? { url: masterUrl, alt: master.alt || `${character.name} master reference` }
+        : null,
+      turnaround: this.selectTurnaround(character, baseUrl),
+      physicalTraits: this.entries([
+        ['Age', character.age],
+        ['Height', character.height],
+        ['Weight', character.weight],
+        ['Eye Color', character.eyeColor],
+        ['Hair Color', character.hairColor],
+        ['Appearance', character.physicalDescription],
+        ['Clothing & Style', character.clothing],
+        ...(character.wardrobe || []).map((outfit: any): [string, any] => [
+          `Outfit: ${outfit.name || outfit.outfitId}`,
+          outfit.description,
+        ]),
+        ...(character.eras || []).map((era: any): [string, any] => [
+          `Era: ${era.name || era.eraId}`,
+          [era.age != null && `age ${era.age}`, era.physicalDescriptionDelta].filter(Boolean).join(', '),
+        ]),
+      ]),
+      dialogueVoice: this.entries([
+        ['Voice & Speech', character.dialogueVoice?.voiceDescription],
+        ['Style', character.dialogueVoice?.style],
+        ['Speech Patterns', (character.dialogueVoice?.patterns || [])
+          .map((entry: any) => entry.pattern).filter(Boolean).join('; ')],
+        ['Vocabulary', character.dialogueVoice?.vocabulary],
+      ]),
+      psychology: this.entries([
+        ['Motivation', character.psychology?.motivation],
+        ['Fears', character.psychology?.fears],
+        ['Desires', character.psychology?.desires],
+        ['Flaws', character.psychology?.flaws],
+      ]),
+      characterArc: this.entries([
+        ['Start', character.characterArc?.startState],
+        ['Transformation', character.characterArc?.transformation],
+        ['End', character.characterArc?.endState],
+      ]),
+      relationships: (character.enhancedRelationships || []).map((relationship: any) => ({
+        name: castNames.get(relationship.characterId) || relationship.characterName || relationship.characterId,
+        relationshipType: relationship.relationshipType,
+        relationshipDynamic: relationship.relationshipDynamic,
+        storyContext: relationship.storyContext,
+        strength: relationship.strength,
+        conflictLevel: relationship.conflictLevel,
+      })),
+    }
+  }
+
+  /**
+   * Pick one 360° core set image per angle, preferring full body crops and higher quality
+   */
+  private selectTurnaround(character: any, baseUrl?: string): BibleImage[] {
+    const best = new Map<string, { item: any; rank: number }>()
+
+    for (const item of character.imageGallery || []) {
+      const shot = typeof item.referenceShot === 'object' ? item.referenceShot : null
+      if (!shot && !item.isCoreReference) continue
+      // The turnaround shows the base look, not an appearance era
+      if (item.eraId) continue
+
+      const angle = item.angle || shot?.angle
+      const url = typeof item.imageFile === 'object' ? this.resolveUrl(item.imageFile?.url, baseUrl) : null
+      if (!angle || !url || !TURNAROUND_ANGLES.includes(angle)) continue
+
+      const cropIndex = CROP_PREFERENCE.indexOf(item.crop || shot?.crop)
+      const rank = (cropIndex === -1 ? CROP_PREFERENCE.length : cropIndex) * 1000 - (item.qualityScore || 0)
+      const current = best.get(angle)
+      if (!current || rank < current.rank) {
+        best.set(angle, { item: { ...item, url }, rank })
+      }
+    }
+
+    return TURNAROUND_ANGLES
+      .filter((angle) => best.has(angle))
+      .map((angle) => {
+        const { item } = best.get(angle)!
+        return {
+          url: item.url,
+          alt: `${character.name} ${ANGLE_LABELS[angle]}`,
+          label: ANGLE_LABELS[angle],
+        }
+      })
+  }
+
+  /**
+   * Render the bible as a standalone, print-ready HTML document
+   */
+  renderHtml(bible: ProjectBible): string {
+    const section = (title: string, entries: Array<{ label: string; value: string }>) =>
+      entries.length === 0
+        ? ''
+        : `<section><h3>${this.escapeHtml(title)}</h3><dl>${entries
+            .map((entry) => `<dt>${this.escapeHtml(entry.label)}</dt><dd>${this.escapeHtml(entry.value)}</dd>`)
+            .join('')}</dl></section>`
+
+    const pages = bible.characters.map((character) => {
+      const subtitle = [character.role, character.archetype, character.characterId].filter(Boolean).join(' · ')
+      const master = character.masterReference
+        ? `<img class="master" src="${this.escapeHtml(character.masterReference.url)}" alt="${this.escapeHtml(character.masterReference.alt)}">`
+        : '<div class="master placeholder">No master reference</div>'
+      const turnaround = character.turnaround.length > 0
+        ? `<section><h3>Turnaround</h3><div class="turnaround">${character.turnaround
+            .map((image) => `<figure><img src="${this.escapeHtml(image.url)}" alt="${this.escapeHtml(image.alt)}"><figcaption>${this.escapeHtml(image.label || '')}</figcaption></figure>`)
+            .join('')}</div></section>`
+        : ''
+      const relationships = character.relationships.length > 0
+        ? `<section><h3>Relationships</h3><ul>${character.relationships
+            .map((relationship) => `<li>${this.escapeHtml(this.describeRelationship(relationship))}</li>`)
+            .join('')}</ul></section>`
+        : ''
+
+      return `<article class="character">
+<header><h2>${this.escapeHtml(character.name)}</h2><p class="subtitle">${this.escapeHtml(subtitle)}</p></header>
+<div class="overview">${master}${section('Physical Traits', character.physicalTraits)}</div>
+${turnaround}
+${section('Dialogue Voice', character.dialogueVoice)}
+${section('Psychology', character.psychology)}
+${section('Character Arc', character.characterArc)}
+${relationships}
+</article>`
+    })
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${this.escapeHtml(bible.projectName)} - Character Bible</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #1a1a1a; margin: 0; font-size: 11pt; }
+  .cover, .character { page-break-after: always; break-after: page; padding: 24px; }
+  .cover h1 { font-size: 32pt; margin-bottom: 4px; }
+  h2 { font-size: 22pt; margin: 0; }
+  h3 { font-size: 12pt; text-transform: uppercase; letter-spacing: 0.05em; color: #555; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  .subtitle { color: #666; margin-top: 4px; }
+  .overview { display: flex; gap: 24px; align-items: flex-start; }
+  .master { width: 220px; max-height: 320px; object-fit: contain; border: 1px solid #ddd; }
+  .placeholder { height: 220px; display: flex; align-items: center; justify-content: center; color: #999; background: #f4f4f4; }
+  .turnaround { display: flex; gap: 8px; flex-wrap: wrap; }
+  .turnaround figure { margin: 0; width: 88px; text-align: center; }
+  .turnaround img { width: 88px; height: 132px; object-fit: contain; background: #f4f4f4; }
+  figcaption { font-size: 8pt; color: #666; }
+  dl { display: grid; grid-template-columns: 140px 1fr; gap: 4px 12px; margin: 0; }
+  dt { font-weight: bold; }
+  dd { margin: 0; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<section class="cover">
+<h1>${this.escapeHtml(bible.projectName)}</h1>
+<p>Character Bible · ${bible.characters.length} characters · Generated ${this.escapeHtml(bible.generatedAt.slice(0, 10))}</p>
+<ol>${bible.characters.map((character) => `<li>${this.escapeHtml(character.name)}${character.role ? ` (${this.escapeHtml(character.role)})` : ''}</li>`).join('')}</ol>
+</section>
+${pages.join('\n')}
+</body>
+</html>`
+  }
+
+  /**
+   * Render the bible as a PDF; images that cannot be downloaded are left out
+   */
+  async renderPdf(bible: ProjectBible): Promise<Buffer> {
+    const pdf = new PdfDocument(A4)
+    const margin = 48
+    const contentWidth = pdf.width - margin * 2
+    const imageCache = new Map<string, PdfImage | null>()
+
+    const loadImage = async (url: string): Promise<PdfImage | null> => {
+      if (!imageCache.has(url)) {
+        imageCache.set(url, await this.loadPdfImage(pdf, url))
+      }
+      return imageCache.get(url) || null
+    }
+
+    // Cover page
+    pdf.addPage()
+    pdf.text(bible.projectName, margin, 120, 28, 'bold')
+    pdf.text(`Character Bible - ${bible.characters.length} characters`, margin, 160, 13, 'regular', [0.35, 0.35, 0.35])
+    pdf.text(`Generated ${bible.generatedAt.slice(0, 10)}`, margin, 180, 10, 'regular', [0.5, 0.5, 0.5])
+    let coverY = 230
+    bible.characters.forEach((character, index) => {
+      pdf.text(`${index + 1}. ${character.name}${character.role ? ` (${character.role})` : ''}`, margin, coverY, 11)
+      coverY += 16
+    })
+
+    for (const character of bible.characters) {
+      pdf.addPage()
+      let y = margin
+
+      pdf.text(character.name, margin, y, 22, 'bold')
+      y += 30
+      const subtitle = [character.role, character.archetype, character.characterId].filter(Boolean).join(' - ')
+      pdf.text(subtitle, margin, y, 10, 'regular', [0.4, 0.4, 0.4])
+      y += 22
+
+      // Master reference on the left, physical traits beside it
+      const masterImage = character.masterReference ? await loadImage(character.masterReference.url) : null
+      const masterWidth = 180
+      let masterBottom = y
+      if (masterImage) {
+        masterBottom = y + pdf.image(masterImage, margin, y, masterWidth, 250).height
+      } else {
+        pdf.rect(margin, y, masterWidth, 120, [0.95, 0.95, 0.95])
+        pdf.text('No master reference', margin + 40, y + 55, 9, 'regular', [0.55, 0.55, 0.55])
+        masterBottom = y + 120
+      }
+
+      const traitsX = margin + masterWidth + 20
+      const traitsBottom = this.pdfSection(pdf, 'Physical Traits', character.physicalTraits, traitsX, y, contentWidth - masterWidth - 20)
+      y = Math.max(masterBottom, traitsBottom) + 16
+
+      if (character.turnaround.length > 0) {
+        y = this.pdfHeading(pdf, 'Turnaround', margin, y, contentWidth)
+        const cellWidth = Math.min(90, contentWidth / character.turnaround.length - 6)
+        const cellHeight = cellWidth * 1.5
+        for (const [index, image] of character.turnaround.entries()) {
+          const x = margin + index * (cellWidth + 6)
+          const loaded = await loadImage(image.url)
+          if (loaded) {
+            pdf.image(loaded, x, y, cellWidth, cellHeight)
+          } else {
+            pdf.rect(x, y, cellWidth, cellHeight, [0.95, 0.95, 0.95])
+          }
+          pdf.text(image.label || '', x, y + cellHeight + 3, 7, 'regular', [0.4, 0.4, 0.4])
+        }
+        y += cellHeight + 22
+      }
+
+      const sections: Array<[string, Array<{ label: string; value: string }>]> = [
+        ['Dialogue Voice', character.dialogueVoice],
+        ['Psychology', character.psychology],
+        ['Character Arc', character.characterArc],
+        ['Relationships', character.relationships.map((relationship) => ({
+          label: relationship.name,
+          value: this.describeRelationship(relationship, false),
+        }))],
+      ]
+
+      for (const [title, entries] of sections) {
+        if (entries.length === 0) continue
+        // Start a new page when a section would not fit its heading and first lines
+        if (y > pdf.height - margin - 80) {
+          pdf.addPage()
+          y = margin
+        }
+        y = this.pdfSection(pdf, title, entries, margin, y, contentWidth, margin) + 12
+      }
+    }
+
+    return pdf.toBuffer()
+  }
+
+  private pdfHeading(pdf: PdfDocument, title: string, x: number, y: number, width: number): number {
+    pdf.text(title.toUpperCase(), x, y, 10, 'bold', [0.35, 0.35, 0.35])
+    pdf.line(x, y + 14, x + width, y + 14)
+    return y + 22
+  }
+
+  /**
+   * Label/value list; continues on a new page when a page margin is given
+   */
+  private pdfSection(
+    pdf: PdfDocument,
+    title: string,
+    entries: Array<{ label: string; value: string }>,
+    x: number,
+    y: number,
+    width: number,
+    pageMargin?: number
+  ): number {
+    if (entries.length === 0) return y
+
+    let cursor = this.pdfHeading(pdf, title, x, y, width)
+    const labelWidth = Math.min(110, width * 0.3)
+
+    for (const entry of entries) {
+      const lines = pdf.wrap(entry.value, width - labelWidth - 8, 10)
+      if (pageMargin !== undefined && cursor + lines.length * 13.5 > pdf.height - pageMargin) {
+        pdf.addPage()
+        cursor = pageMargin
+      }
+      pdf.text(entry.label, x, cursor, 10, 'bold')
+      cursor = pdf.paragraph(entry.value, x + labelWidth + 8, cursor, width - labelWidth - 8, 10) + 4
+    }
+
+    return cursor
+  }
+
+  private async loadPdfImage(pdf: PdfDocument, url: string): Promise<PdfImage | null> {
+    try {
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+      }
+
+      // Normalize to a baseline RGB JPEG, which PDF embeds natively
+      const { data, info } = await sharp(Buffer.from(await response.arrayBuffer()))
+        .rotate()
+        .resize(PDF_IMAGE_SIZE, PDF_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .toColourspace('srgb')
+        .jpeg({ quality: 82, progressive: false })
+        .toBuffer({ resolveWithObject: true })
+
+      return pdf.addJpeg(data, info.width, info.height)
+    } catch (error) {
+      console.warn(`Could not embed bible image ${url}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  private describeRelationship(relationship: BibleRelationship, includeName: boolean = true): string {
+    const parts = [
+      includeName ? `${relationship.name}: ${relationship.relationshipType}` : relationship.relationshipType,
+      relationship.relationshipDynamic,
+      relationship.strength ? `strength ${relationship.strength}/10` : null,
+      relationship.conflictLevel ? `conflict ${relationship.conflictLevel}/10` : null,
+    ].filter(Boolean)
+    const summary = parts.join(', ')
+    return relationship.storyContext ? `${summary}. ${relationship.storyContext}` : summary
+  }
+
+  private entries(pairs: Array<[string, any]>): Array<{ label: string; value: string }> {
+    return pairs
+      .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(([label, value]) => ({ label, value: String(value) }))
+  }
+
+  private resolveUrl(url: string | undefined, baseUrl?: string): string | null {
+    if (!url) return null
+    if (/^https?:\/\//.test(url) || !baseUrl) return url
+    return new URL(url, baseUrl).toString()
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+  }
+}
+
+// Export singleton instance
+export const projectBibleService = new ProjectBibleService()
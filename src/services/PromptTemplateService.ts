@@ -0,0 +1,168 @@
+/**
+ * Prompt Template Service
+ *
+ * Resolves which prompt template version to use for a generation. Templates are
+ * looked up from most to least specific scope (project and shot, project, shot,
+ * default); when several versions are active in that scope, each character is
+ * assigned one of them by weight so A/B variants stay stable across runs.
+ * Without an active template, callers fall back to their built-in prompt.
+ */
+
+import { createHash } from 'crypto'
+import { PROMPT_TEMPLATE_CONFIG, PromptTemplateKey } from '../lib/config/prompt-templates'
+
+const TEMPLATES_COLLECTION = 'prompt-templates'
+
+export interface ResolvedPromptTemplate {
+  id: string
+  templateKey: PromptTemplateKey
+  version: number
+  body: string
+  projectId: string | null
+  shotSlug: string | null
+  weight: number
+}
+
+export interface ResolveTemplateOptions {
+  projectId?: string | null
+  shotSlug?: string | null
+  // Stable key for A/B assignment, usually the character ID
+  assignmentKey?: string
+}
+
+interface CachedTemplates {
+  templates: ResolvedPromptTemplate[]
+  loadedAt: number
+}
+
+export class PromptTemplateService {
+  private cache: Map<PromptTemplateKey, CachedTemplates> = new Map()
+
+  /**
+   * Pick the template version for a generation, or null for the built-in prompt
+   */
+  async resolveTemplate(
+    payload: any,
+    templateKey: PromptTemplateKey,
+    options: ResolveTemplateOptions = {}
+  ): Promise<ResolvedPromptTemplate | null> {
+    try {
+      const { templates } = await this.getActiveTemplates(payload, templateKey)
+      const candidates = this.pickScope(templates, options.projectId || null, options.shotSlug || null)
+      return this.assignVariant(candidates, `${templateKey}:${options.assignmentKey || ''}`)
+    } catch (error) {
+      console.warn(`Could not load prompt templates for ${templateKey}, using built-in prompt:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Most specific non-empty scope: project + shot, project, shot, then default
+   */
+  pickScope(
+    templates: ResolvedPromptTemplate[],
+    projectId: string | null,
+    shotSlug: string | null
+  ): ResolvedPromptTemplate[] {
+    const tiers: Array<[string | null, string | null]> = [
+      [projectId, shotSlug],
+      [projectId, null],
+      [null, shotSlug],
+      [null, null],
+    ]
+
+    for (const [tierProject, tierShot] of tiers) {
+      const matches = templates.filter(
+        (template) => template.projectId === tierProject && template.shotSlug === tierShot
+      )
+      if (matches.length > 0) return matches
+    }
+
+    return []
+  }
+
+  /**
+   * Weighted, deterministic choice between active versions
+   */
+  assignVariant(
+    candidates: ResolvedPromptTemplate[],
+    assignmentKey: string
+  ): ResolvedPromptTemplate | null {
+    if (candidates.length === 0) return null
+    if (candidates.length === 1) return candidates[0]
+
+    const sorted = [...candidates].sort((a, b) => a.version - b.version)
+    const total = sorted.reduce((sum, template) => sum + template.weight, 0)
+
+    // With every weight at zero, the newest version wins
+    if (total <= 0) return sorted[sorted.length - 1]
+
+    const bucket = parseInt(createHash('sha256').update(assignmentKey).digest('hex').slice(0, 8), 16) % total
+    let cumulative = 0
+    for (const template of sorted) {
+      cumulative += template.weight
+      if (bucket < cumulative) return template
+    }
+
+    return sorted[sorted.length - 1]
+  }
+
+  /**
+   * Next version number for a template kind within a project (or the defaults)
+   */
+  async getNextVersion(payload: any, templateKey: string, projectId?: string | null): Promise<number> {
+    const result = await payload.find({
+      collection: TEMPLATES_COLLECTION,
+      where: {
+        and: [
+          { templateKey: { equals: templateKey } },
+          projectId
+            ? { projectId: { equals: projectId } }
+            : { or: [{ projectId: { exists: false } }, { projectId: { equals: null } }] },
+        ],
+      },
+      sort: '-version',
+      limit: 1,
+      depth: 0,
+    })
+
+    return (result.docs[0]?.version || 0) + 1
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  private async getActiveTemplates(payload: any, templateKey: PromptTemplateKey): Promise<CachedTemplates> {
+    const cached = this.cache.get(templateKey)
+    if (cached && Date.now() - cached.loadedAt < PROMPT_TEMPLATE_CONFIG.cacheTtlMs) {
+      return cached
+    }
+
+    const result = await payload.find({
+      collection: TEMPLATES_COLLECTION,
+      where: {
+        and: [{ templateKey: { equals: templateKey } }, { status: { equals: 'active' } }],
+      },
+      limit: 200,
+      depth: 0,
+    })
+
+    const templates: ResolvedPromptTemplate[] = result.docs.map((doc: any) => ({
+      id: String(doc.id),
+      templateKey,
+      version: doc.version || 1,
+      body: doc.body,
+      projectId: doc.projectId || null,
+      shotSlug: doc.shotSlug || null,
+      weight: typeof doc.weight === 'number' ? Math.max(0, doc.weight) : 100,
+    }))
+
+    const entry = { templates, loadedAt: Date.now() }
+    this.cache.set(templateKey, entry)
+    return entry
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService()
@@ -5,7 +5,7 @@
  * including quality analysis, consistency validation, and batch processing
  */
 
-
+import { dinoOrchestrator } from './DinoOrchestrator'
 
 export interface QAResult {
   assetId: string
@@ -179,20 +179,7 @@ export class QualityAssuranceService {
    */
   private async analyzeQuality(assetId: string): Promise<{ qualityScore: number }> {
     try {
-      const response = await fetch(`${process.env.DINO_SERVICE_URL}/analyze-quality`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.DINO_API_KEY}`,
-        },
-        body: JSON.stringify({ asset_id: assetId }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Quality analysis failed: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await dinoOrchestrator.analyzeQuality(assetId)
       return { qualityScore: result.quality_score }
     } catch (error) {
       console.error(`Quality analysis failed for ${assetId}:`, error)
@@ -208,23 +195,7 @@ export class QualityAssuranceService {
     referenceAssetId: string
   ): Promise<{ consistencyScore: number }> {
     try {
-      const response = await fetch(`${process.env.DINO_SERVICE_URL}/validate-consistency`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.DINO_API_KEY}`,
-        },
-        body: JSON.stringify({
-          test_asset_id: assetId,
-          reference_asset_id: referenceAssetId,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Consistency analysis failed: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await dinoOrchestrator.validateConsistency(assetId, referenceAssetId)
       return { consistencyScore: result.similarity_score }
     } catch (error) {
       console.error(`Consistency analysis failed for ${assetId}:`, error)
@@ -0,0 +1,623 @@
+/**
+ * Reference Ranking Service
+ *
+ * The one ranking pipeline behind every reference finder (find-reference-image,
+ * find-reference-for-scene and smart generation). A character's images become
+ * candidates, candidate filters drop the ones a caller cannot use, and weighted
+ * feature scorers rank the rest against the scene analysis of the prompt, the
+ * framing the prompt asks for explicitly and the caller's preferences. Every
+ * ranked candidate carries its per-feature scores and the reasons behind them.
+ *
+ * Weights come from the project's ranking profile, then the global profile,
+ * then REFERENCE_RANKING_CONFIG.defaultWeights.
+ */
+
+import {
+  REFERENCE_RANKING_CONFIG,
+  RANKING_FEATURES,
+  RankingFeature,
+  RankingWeights,
+} from '../lib/config/reference-ranking'
+import type { SceneAnalysis } from './SceneAnalysisEngine'
+import { sceneAnalysisService } from './SceneAnalysisService'
+import { appearanceEraService, AppearanceEra } from './AppearanceEraService'
+
+const PROFILES_COLLECTION = 'reference-ranking-profiles'
+
+export type CandidateSource = 'master' | 'core_reference' | 'generated'
+
+export interface RankingCandidate {
+  id: string // Gallery item ID, or the media ID for the master reference
+  mediaId: string
+  imageUrl: string
+  dinoAssetId?: string
+  source: CandidateSource
+  referenceShot: any | null
+  lens?: number
+  angle?: string
+  crop?: string
+  expression?: string
+  cameraAzimuthDeg?: number
+  gaze?: string
+  recommendedFor?: string[]
+  shotType?: string
+  tags?: string
+  outfitId?: string
+  qualityScore?: number
+  consistencyScore?: number
+  item: any // Gallery item or master media as stored
+}
+
+/**
+ * Framing asked for by the prompt or the caller; unset values follow the scene analysis
+ */
+export interface ShotCues {
+  lens?: number
+  angle?: string
+  crop?: string
+  expression?: string
+}
+
+export interface RankingQuery {
+  analysis: SceneAnalysis
+  cues: ShotCues
+  keywords: string[]
+  outfitId?: string
+}
+
+export interface CandidateFilters {
+  coreOnly?: boolean
+  requireReferenceShot?: boolean
+  includeAddonShots?: boolean // Default true
+  minQualityScore?: number // Only applied to images that have a score
+  requireDinoAsset?: boolean
+  era?: AppearanceEra | null // Unset: every era; null: the base look only
+}
+
+export interface FeatureScore {
+  score: number // 0-1
+  weight: number
+  reason?: string
+}
+
+export interface RankedReference extends RankingCandidate {
+  score: number // 0-100
+  features: Partial<Record<RankingFeature, FeatureScore>>
+  reasons: string[]
+}
+
+export interface RankReferencesOptions {
+  payload?: any
+  projectId?: string | null // Defaults to the character's Novel Movie project
+  analysis?: SceneAnalysis // Reuse an analysis the caller already has
+  includeMaster?: boolean
+  filters?: CandidateFilters
+  preferences?: ShotCues
+  outfitId?: string
+  weights?: Partial<RankingWeights> // Applied over the project's weights
+}
+
+export interface RankingResult {
+  analysis: SceneAnalysis
+  weights: RankingWeights
+  profile: { id: string; name: string } | null // Ranking profile that supplied the weights
+  ranked: RankedReference[]
+  evaluated: number
+}
+
+interface RankingProfile {
+  id: string
+  name: string
+  projectId: string | null
+  weights: Partial<RankingWeights>
+}
+
+interface CachedProfiles {
+  profiles: RankingProfile[]
+  loadedAt: number
+}
+
+type CandidateFilter = (candidate: RankingCandidate, filters: CandidateFilters) => boolean
+
+interface FeatureScorer {
+  // Features that do not apply to a query are left out of the weighted mean
+  applies?: (query: RankingQuery) => boolean
+  score: (candidate: RankingCandidate, query: RankingQuery) => { score: number; reason?: string }
+}
+
+const NEUTRAL = 0.5
+
+const MODE_SCENE_TYPES: Record<string, string> = {
+  Conversation: 'dialogue',
+  'Action/Body': 'action',
+  Emotion: 'emotional',
+}
+
+const SCENE_TYPE_USES: Record<string, string[]> = {
+  dialogue: ['close_dialogue', 'dialogue'],
+  action: ['action', 'action_sequences'],
+  emotional: ['emotional', 'emotional_moments'],
+  establishing: ['establishing', 'establishing_shots', 'introduction'],
+  transition: ['transition'],
+}
+
+const TONE_EXPRESSIONS: Record<string, string[]> = {
+  neutral: ['neutral'],
+  tense: ['concerned', 'worried', 'tense'],
+  intimate: ['gentle', 'soft', 'vulnerable'],
+  dramatic: ['determined', 'intense', 'strong', 'resolute'],
+  contemplative: ['thoughtful', 'contemplative', 'pondering'],
+}
+
+const SIMILAR_CROPS: Record<string, string[]> = {
+  cu: ['mcu'],
+  mcu: ['cu', '3q'],
+  '3q': ['mcu', 'full'],
+  full: ['3q'],
+  hands: [],
+}
+
+const CROP_NAMES: Record<string, string> = {
+  cu: 'close-up',
+  mcu: 'medium close-up',
+  '3q': 'three-quarter',
+  full: 'full body',
+  hands: 'hands detail',
+}
+
+const ANGLE_AZIMUTHS: Record<string, number> = {
+  front: 0,
+  '3q_left': -35,
+  '3q_right': 35,
+  '45_left': -45,
+  '45_right': 45,
+  profile_left: -90,
+  profile_right: 90,
+  '135_left': -135,
+  '135_right': 135,
+  back: 180,
+}
+
+const CANDIDATE_FILTERS: CandidateFilter[] = [
+  (candidate, filters) => !filters.coreOnly || candidate.source === 'core_reference',
+  (candidate, filters) => !filters.requireReferenceShot || Boolean(candidate.referenceShot),
+  (candidate, filters) => filters.includeAddonShots !== false || candidate.referenceShot?.pack !== 'addon',
+  (candidate, filters) =>
+    !filters.minQualityScore || !candidate.qualityScore || candidate.qualityScore >= filters.minQualityScore,
+  (candidate, filters) => !filters.requireDinoAsset || Boolean(candidate.dinoAssetId),
+  // The master reference is era-independent
+  (candidate, filters) =>
+    filters.era === undefined || candidate.source === 'master' || appearanceEraService.isInEra(candidate.item, filters.era),
+]
+
+const FEATURE_SCORERS: Record<RankingFeature, FeatureScorer> = {
+  sceneType: {
+    score: (candidate, { analysis }) => {
+      const uses = candidate.recommendedFor || []
+      const modeSceneType = MODE_SCENE_TYPES[candidate.referenceShot?.mode]
+      if (uses.length === 0 && !modeSceneType) return { score: NEUTRAL }
+
+      const wanted = SCENE_TYPE_USES[analysis.sceneType] || []
+      if (uses.some((use) => wanted.includes(use))) {
+        return { score: 1, reason: `Recommended for ${analysis.sceneType} scenes` }
+      }
+      if (modeSceneType === analysis.sceneType) {
+        return { score: 1, reason: `${candidate.referenceShot.mode} mode suits ${analysis.sceneType} scenes` }
+      }
+      return { score: 0.2 }
+    },
+  },
+
+  lens: {
+    score: (candidate, { analysis, cues }) => {
+      const preferred = cues.lens ? [cues.lens] : analysis.requiredShots.preferredLens
+      if (!candidate.lens || preferred.length === 0) return { score: NEUTRAL }
+
+      const difference = Math.min(...preferred.map((lens) => Math.abs(lens - candidate.lens!)))
+      if (difference === 0) {
+        return {
+          score: 1,
+          reason: `${candidate.lens}mm lens ${cues.lens ? 'as requested' : `suits ${analysis.sceneType} scenes`}`,
+        }
+      }
+      return { score: Math.max(0.2, 1 - difference / 50) }
+    },
+  },
+
+  crop: {
+    score: (candidate, { analysis, cues }) => {
+      const preferred = cues.crop ? [cues.crop] : analysis.requiredShots.preferredCrop
+      if (!candidate.crop || preferred.length === 0) return { score: NEUTRAL }
+
+      if (preferred.includes(candidate.crop)) {
+        return {
+          score: 1,
+          reason: `${CROP_NAMES[candidate.crop] || candidate.crop} framing ${cues.crop ? 'as requested' : `suits ${analysis.emotionalTone} ${analysis.sceneType} scenes`}`,
+        }
+      }
+      const similar = SIMILAR_CROPS[candidate.crop] || []
+      return { score: preferred.some((crop) => similar.includes(crop)) ? 0.7 : 0.3 }
+    },
+  },
+
+  angle: {
+    score: (candidate, { analysis, cues }) => {
+      if (cues.angle && candidate.angle) {
+        // "profile" matches profile_left and profile_right
+        if (candidate.angle === cues.angle || candidate.angle.startsWith(`${cues.angle}_`)) {
+          return { score: 1, reason: `${candidate.angle} angle as requested` }
+        }
+      }
+
+      const azimuth = candidate.cameraAzimuthDeg ?? (candidate.angle ? ANGLE_AZIMUTHS[candidate.angle] : undefined)
+      if (azimuth === undefined) return { score: NEUTRAL }
+
+      if (cues.angle) {
+        const exact = ANGLE_AZIMUTHS[cues.angle]
+        const family = ANGLE_AZIMUTHS[`${cues.angle}_left`]
+        if (exact === undefined && family === undefined) return { score: NEUTRAL }
+
+        // A cue without a side ("profile", "3q") is as close to either side
+        const difference =
+          exact !== undefined ? angularDistance(exact, azimuth) : Math.abs(Math.abs(family) - Math.abs(azimuth))
+        return { score: Math.max(0.2, 1 - difference / 90) }
+      }
+
+      const preferred = analysis.requiredShots.preferredAngles
+      if (preferred.length === 0) return { score: NEUTRAL }
+
+      const difference = Math.min(...preferred.map((angle) => angularDistance(angle, azimuth)))
+      if (difference === 0) {
+        return { score: 1, reason: `${candidate.angle || `${azimuth}°`} angle suits ${analysis.sceneType} scenes` }
+      }
+      return { score: Math.max(0.2, 1 - difference / 90) }
+    },
+  },
+
+  expression: {
+    score: (candidate, { analysis, cues }) => {
+      if (!candidate.expression) return { score: NEUTRAL }
+
+      const wanted = cues.expression ? [cues.expression] : TONE_EXPRESSIONS[analysis.emotionalTone] || ['neutral']
+      const expression = candidate.expression.toLowerCase()
+      if (wanted.some((value) => expression.includes(value) || value.includes(expression))) {
+        return {
+          score: 1,
+          reason: `${candidate.expression} expression ${cues.expression ? 'as requested' : `fits a ${analysis.emotionalTone} tone`}`,
+        }
+      }
+      return { score: 0.4 }
+    },
+  },
+
+  composition: {
+    score: (candidate, { analysis }) => {
+      const needs = analysis.compositionNeeds
+      const reasons: string[] = []
+      let score = NEUTRAL
+
+      if (needs.eyeContact && candidate.gaze === 'to_camera') {
+        score += 0.15
+        reasons.push('eye contact')
+      } else if (!needs.eyeContact && candidate.gaze && candidate.gaze !== 'to_camera') {
+        score += 0.1
+      }
+      if (needs.profileWork && Math.abs(candidate.cameraAzimuthDeg ?? ANGLE_AZIMUTHS[candidate.angle || ''] ?? 0) >= 75) {
+        score += 0.15
+        reasons.push('profile')
+      }
+      if (needs.fullBodyNeeded && candidate.crop === 'full') {
+        score += 0.15
+        reasons.push('full body')
+      }
+      if (needs.handsImportant && candidate.crop === 'hands') {
+        score += 0.2
+        reasons.push('hands')
+      }
+
+      return {
+        score: Math.min(1, score),
+        reason: reasons.length > 0 ? `Covers the scene's ${reasons.join(', ')} needs` : undefined,
+      }
+    },
+  },
+
+  quality: {
+    score: (candidate) => {
+      const scores = [candidate.qualityScore, candidate.consistencyScore].filter(
+        (value): value is number => typeof value === 'number'
+      )
+      if (scores.length === 0) return { score: 0.75 }
+
+      const quality = scores.reduce((sum, value) => sum + value, 0) / scores.length
+      return {
+        score: Math.max(0, Math.min(1, quality / 100)),
+        reason: quality >= 85 ? `High quality (${Math.round(quality)}/100)` : undefined,
+      }
+    },
+  },
+
+  source: {
+    score: (candidate) => {
+      if (candidate.source === 'master') return { score: 1, reason: 'Master reference' }
+      if (candidate.source === 'generated') return { score: 0.4 }
+      return candidate.referenceShot?.pack === 'addon'
+        ? { score: 0.6 }
+        : { score: 0.8, reason: 'Core reference shot (higher reliability)' }
+    },
+  },
+
+  outfit: {
+    applies: (query) => Boolean(query.outfitId),
+    score: (candidate, { outfitId }) =>
+      candidate.outfitId === outfitId ? { score: 1, reason: 'Already wearing the requested outfit' } : { score: 0 },
+  },
+
+  tags: {
+    applies: (query) => query.keywords.length > 0,
+    score: (candidate, { keywords }) => {
+      const haystack = [candidate.tags, candidate.shotType, candidate.referenceShot?.shotName, candidate.referenceShot?.slug]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase()
+      if (!haystack) return { score: 0 }
+
+      const hits = keywords.filter((keyword) => haystack.includes(keyword))
+      return {
+        score: Math.min(1, hits.length / 3),
+        reason: hits.length > 0 ? `Tagged ${hits.slice(0, 3).map((hit) => `"${hit}"`).join(', ')}` : undefined,
+      }
+    },
+  },
+}
+
+export class ReferenceRankingService {
+  private cache: CachedProfiles | null = null
+
+  /**
+   * Rank a character's images for a prompt or scene description
+   */
+  async rankForCharacter(character: any, text: string, options: RankReferencesOptions = {}): Promise<RankingResult> {
+    const projectId = options.projectId ?? character?.novelMovieIntegration?.projectId ?? null
+
+    const [analysis, { weights, profile }] = await Promise.all([
+      options.analysis || sceneAnalysisService.analyze(text, { payload: options.payload, projectId }),
+      this.resolveWeights(options.payload, projectId),
+    ])
+
+    const candidates = this.filterCandidates(this.collectCandidates(character, options), options.filters || {})
+    const query = this.buildQuery(text, analysis, options)
+    const ranked = this.rankCandidates(candidates, query, { ...weights, ...options.weights })
+
+    return {
+      analysis,
+      weights: { ...weights, ...options.weights },
+      profile,
+      ranked,
+      evaluated: candidates.length,
+    }
+  }
+
+  /**
+   * Every image of a character that can serve as a reference
+   */
+  collectCandidates(character: any, options: { includeMaster?: boolean } = {}): RankingCandidate[] {
+    const candidates: RankingCandidate[] = []
+
+    const master = character?.masterReferenceImage
+    if (options.includeMaster && master && typeof master === 'object') {
+      candidates.push({
+        id: String(master.id),
+        mediaId: String(master.id),
+        imageUrl: master.dinoMediaUrl || master.url || '',
+        dinoAssetId: master.dinoAssetId || undefined,
+        source: 'master',
+        referenceShot: null,
+        shotType: 'master_reference',
+        qualityScore: master.qualityScore ?? undefined,
+        consistencyScore: master.consistencyScore ?? undefined,
+        item: master,
+      })
+    }
+
+    for (const [index, item] of (character?.imageGallery || []).entries()) {
+      if (!item?.imageFile) continue
+
+      const media = typeof item.imageFile === 'object' ? item.imageFile : null
+      const mediaId = String(media ? media.id : item.imageFile)
+      const referenceShot = item.referenceShot && typeof item.referenceShot === 'object' ? item.referenceShot : null
+
+      candidates.push({
+        id: String(item.id || `${character?.id}_${index}`),
+        mediaId,
+        imageUrl: media?.url || '',
+        dinoAssetId: media?.dinoAssetId || item.dinoAssetId || undefined,
+        source: item.isCoreReference ? 'core_reference' : 'generated',
+        referenceShot,
+        lens: item.lens ?? referenceShot?.lensMm ?? undefined,
+        angle: item.angle ?? referenceShot?.angle ?? undefined,
+        crop: item.crop ?? referenceShot?.crop ?? undefined,
+        expression: item.expression ?? referenceShot?.expression ?? undefined,
+        cameraAzimuthDeg: item.cameraAzimuthDeg ?? referenceShot?.cameraAzimuthDeg ?? undefined,
+        gaze: item.gaze ?? undefined,
+        recommendedFor: item.recommendedFor ?? undefined,
+        shotType: item.shotType ?? undefined,
+        tags: item.tags ?? undefined,
+        outfitId: item.outfitId ?? undefined,
+        qualityScore: item.qualityScore ?? undefined,
+        consistencyScore: item.consistencyScore ?? undefined,
+        item,
+      })
+    }
+
+    return candidates
+  }
+
+  filterCandidates(candidates: RankingCandidate[], filters: CandidateFilters): RankingCandidate[] {
+    return candidates.filter((candidate) => CANDIDATE_FILTERS.every((filter) => filter(candidate, filters)))
+  }
+
+  /**
+   * Query for a text: scene analysis, explicit framing words, then caller preferences
+   */
+  buildQuery(
+    text: string,
+    analysis: SceneAnalysis,
+    options: Pick<RankReferencesOptions, 'preferences' | 'outfitId'> = {}
+  ): RankingQuery {
+    const preferences = Object.fromEntries(
+      Object.entries(options.preferences || {}).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    )
+
+    return {
+      analysis,
+      cues: { ...extractShotCues(text), ...preferences },
+      keywords: analysis.keywords,
+      outfitId: options.outfitId,
+    }
+  }
+
+  /**
+   * Score and sort candidates, highest first; ties keep gallery order
+   */
+  rankCandidates(candidates: RankingCandidate[], query: RankingQuery, weights: RankingWeights): RankedReference[] {
+    const features = RANKING_FEATURES.filter(
+      (feature) => weights[feature] > 0 && (FEATURE_SCORERS[feature].applies?.(query) ?? true)
+    )
+    const totalWeight = features.reduce((sum, feature) => sum + weights[feature], 0)
+
+    return candidates
+      .map((candidate) => {
+        const scores: RankedReference['features'] = {}
+        let weighted = 0
+
+        for (const feature of features) {
+          const { score, reason } = FEATURE_SCORERS[feature].score(candidate, query)
+          scores[feature] = { score, weight: weights[feature], ...(reason ? { reason } : {}) }
+          weighted += score * weights[feature]
+        }
+
+        const reasons = Object.values(scores)
+          .filter((feature) => feature!.reason)
+          .sort((a, b) => b!.score * b!.weight - a!.score * a!.weight)
+          .slice(0, REFERENCE_RANKING_CONFIG.maxReasons)
+          .map((feature) => feature!.reason!)
+
+        return {
+          ...candidate,
+          score: totalWeight > 0 ? (weighted / totalWeight) * 100 : 0,
+          features: scores,
+          reasons,
+        }
+      })
+      .sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Weights for a project: its ranking profile, the global profile, then the defaults
+   */
+  async getWeights(payload: any, projectId?: string | null): Promise<RankingWeights> {
+    return (await this.resolveWeights(payload, projectId)).weights
+  }
+
+  /**
+   * Share of each enabled feature in the score, e.g. { lens: '20%' }; outfit counts only when requested
+   */
+  describeWeights(weights: RankingWeights): Partial<Record<RankingFeature, string>> {
+    const features = RANKING_FEATURES.filter((feature) => weights[feature] > 0 && feature !== 'outfit')
+    const total = features.reduce((sum, feature) => sum + weights[feature], 0)
+
+    return Object.fromEntries(
+      features.map((feature) => [feature, `${Math.round((weights[feature] / total) * 100)}%`])
+    )
+  }
+
+  clearCache(): void {
+    this.cache = null
+  }
+
+  private async resolveWeights(
+    payload: any,
+    projectId?: string | null
+  ): Promise<{ weights: RankingWeights; profile: RankingResult['profile'] }> {
+    const defaults = { ...REFERENCE_RANKING_CONFIG.defaultWeights }
+    if (!payload?.find) return { weights: defaults, profile: null }
+
+    try {
+      const { profiles } = await this.loadProfiles(payload)
+      const profile =
+        (projectId ? profiles.find((item) => item.projectId === projectId) : undefined) ||
+        profiles.find((item) => !item.projectId)
+      if (!profile) return { weights: defaults, profile: null }
+
+      return { weights: { ...defaults, ...profile.weights }, profile: { id: profile.id, name: profile.name } }
+    } catch (error) {
+      console.warn('Could not load reference ranking profiles, using default weights:', error)
+      return { weights: defaults, profile: null }
+    }
+  }
+
+  private async loadProfiles(payload: any): Promise<CachedProfiles> {
+    if (this.cache && Date.now() - this.cache.loadedAt < REFERENCE_RANKING_CONFIG.cacheTtlMs) {
+      return this.cache
+    }
+
+    // Newest first, so the latest edit wins when a scope has several active profiles
+    const result = await payload.find({
+      collection: PROFILES_COLLECTION,
+      where: { isActive: { equals: true } },
+      sort: '-updatedAt',
+      limit: 500,
+      depth: 0,
+    })
+
+    const profiles = result.docs.map((doc: any) => {
+      const weights: Partial<RankingWeights> = {}
+      for (const feature of RANKING_FEATURES) {
+        const value = doc.weights?.[feature]
+        if (typeof value === 'number' && value >= 0) weights[feature] = value
+      }
+      return { id: String(doc.id), name: doc.name, projectId: doc.projectId || null, weights }
+    })
+
+    this.cache = { profiles, loadedAt: Date.now() }
+    return this.cache
+  }
+}
+
+/**
+ * Framing a prompt asks for in so many words ("close-up", "profile", "85mm", "worried")
+ */
+export function extractShotCues(text: string): ShotCues {
+  const lower = text.toLowerCase()
+  const has = (terms: string[]) => terms.some((term) => new RegExp(`\\b${term}\\b`).test(lower))
+  const cues: ShotCues = {}
+
+  const lens = lower.match(/\b(\d{2,3})\s?mm\b/)
+  if (lens) cues.lens = parseInt(lens[1])
+
+  if (has(['full body', 'full-body', 'whole body', 'head to toe'])) cues.crop = 'full'
+  else if (has(['close up', 'close-up', 'closeup', 'headshot', 'portrait', 'face'])) cues.crop = 'cu'
+  else if (has(['medium close-up', 'medium shot', 'waist up', 'chest up'])) cues.crop = 'mcu'
+  else if (has(['hands', 'hand'])) cues.crop = 'hands'
+
+  if (has(['profile', 'side view'])) cues.angle = 'profile'
+  else if (has(['three quarter', 'three-quarter', '3/4', 'angled'])) cues.angle = '3q'
+  else if (has(['from behind', 'back view', 'from the back'])) cues.angle = 'back'
+
+  if (has(['worried', 'concerned'])) cues.expression = 'concerned'
+  else if (has(['determined', 'confident'])) cues.expression = 'determined'
+  else if (has(['thoughtful', 'contemplative'])) cues.expression = 'thoughtful'
+  else if (has(['vulnerable', 'sad'])) cues.expression = 'vulnerable'
+  else if (has(['resolute'])) cues.expression = 'resolute'
+
+  return cues
+}
+
+function angularDistance(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360
+  return difference > 180 ? 360 - difference : difference
+}
+
+// Export singleton instance
+export const referenceRankingService = new ReferenceRankingService()
@@ -0,0 +1,144 @@
+/**
+ * Remote DINOv3 Adapter
+ *
+ * Talks to the DINOv3 HTTP service (upload-media, extract-features,
+ * analyze-quality, validate-consistency).
+ */
+
+import { DINO_CONFIG } from '../lib/config/dino'
+import type {
+  DinoAdapter,
+  DinoConsistencyResponse,
+  DinoFeaturesResponse,
+  DinoQualityResponse,
+  DinoUploadResponse,
+} from './DinoAdapter'
+
+export class RemoteDinoAdapter implements DinoAdapter {
+  readonly name = 'remote' as const
+  private baseUrl: string
+  private apiKey: string
+
+  constructor() {
+    this.baseUrl = DINO_CONFIG.remote.baseUrl
+    this.apiKey = DINO_CONFIG.remote.apiKey
+
+    if (!this.apiKey) {
+      console.warn('DINO_API_KEY not set - DINOv3 service will not function')
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  /**
+   * Upload media file to DINOv3 service
+   */
+  async uploadMedia(imageBuffer: Buffer, filename: string): Promise<DinoUploadResponse> {
+    console.log(`DINOv3 upload request:`, {
+      url: `${this.baseUrl}/api/v1/upload-media`,
+      filename,
+      bufferSize: imageBuffer.length,
+      hasApiKey: !!this.apiKey
+    })
+
+    const formData = new FormData()
+    const blob = new Blob([imageBuffer], { type: 'image/jpeg' })
+    formData.append('file', blob, filename)
+
+    const response = await fetch(`${this.baseUrl}/api/v1/upload-media`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: formData,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`DINOv3 upload error details:`, {
+        status: response.status,
+        statusText: response.statusText,
+        errorBody: errorText,
+        url: `${this.baseUrl}/api/v1/upload-media`,
+        hasApiKey: !!this.apiKey
+      })
+      throw new Error(`DINOv3 upload failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Extract DINOv3 features from uploaded asset
+   */
+  async extractFeatures(assetId: string): Promise<DinoFeaturesResponse> {
+    const response = await fetch(`${this.baseUrl}/api/v1/extract-features?asset_id=${encodeURIComponent(assetId)}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`DINOv3 feature extraction failed: ${response.status} ${response.statusText}`)
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Analyze image quality using DINOv3
+   */
+  async analyzeQuality(assetId: string): Promise<DinoQualityResponse> {
+    const response = await fetch(`${this.baseUrl}/api/v1/analyze-quality`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ asset_id: assetId }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`DINOv3 quality analysis failed: ${response.status} ${response.statusText}`)
+    }
+
+    return await response.json()
+  }
+
+  /**
+   * Validate consistency between two assets
+   */
+  async validateConsistency(
+    testAssetId: string,
+    referenceAssetId: string
+  ): Promise<DinoConsistencyResponse> {
+    const response = await fetch(`${this.baseUrl}/api/v1/validate-consistency`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        reference_asset_id: referenceAssetId,
+        test_asset_id: testAssetId,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`DINOv3 consistency validation failed: ${response.status} ${response.statusText}`)
+    }
+
+    return await response.json()
+  }
+
+  getConfig() {
+    return {
+      backend: this.name,
+      baseUrl: this.baseUrl,
+      hasApiKey: this.isConfigured(),
+    }
+  }
+}
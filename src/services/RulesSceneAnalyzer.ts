@@ -0,0 +1,114 @@
+/**
+ * Rules Scene Analyzer
+ *
+ * Classifies scenes with the rules DSL stored in the scene-analysis-rules
+ * collection. A project's active rule sets are evaluated together with the
+ * global ones (rule sets without a project). When no rule decides the scene
+ * type or tone, that part comes from the keyword engine; when no rule matches
+ * at all, the analyzer has no answer.
+ */
+
+import { SCENE_ANALYSIS_CONFIG } from '../lib/config/scene-analysis'
+import { parseSceneRules, evaluateSceneRules, SceneRule } from '../lib/utils/scene-rules'
+import { SceneAnalysisEngine, SceneClassification } from './SceneAnalysisEngine'
+import type { SceneAnalyzer, SceneAnalyzerContext } from './SceneAnalyzer'
+
+const RULES_COLLECTION = 'scene-analysis-rules'
+
+interface LoadedRuleSet {
+  id: string
+  name: string
+  projectId: string | null
+  updatedAt: string
+  rules: SceneRule[]
+}
+
+interface CachedRuleSets {
+  ruleSets: LoadedRuleSet[]
+  loadedAt: number
+}
+
+export class RulesSceneAnalyzer implements SceneAnalyzer {
+  readonly name = 'rules' as const
+  private engine = new SceneAnalysisEngine()
+  private cache: CachedRuleSets | null = null
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async classify(description: string, context: SceneAnalyzerContext): Promise<SceneClassification | null> {
+    const ruleSets = await this.getRuleSets(context)
+    if (ruleSets.length === 0) return null
+
+    const rules = ruleSets.flatMap((ruleSet) => ruleSet.rules)
+    const match = evaluateSceneRules(rules, description)
+    if (!match.sceneType && !match.emotionalTone) return null
+
+    const keyword = match.sceneType && match.emotionalTone ? null : this.engine.classify(description)
+    const matched = match.matchedRules.map((rule) => `"${rule.source}"`)
+
+    return {
+      sceneType: match.sceneType || keyword!.sceneType,
+      emotionalTone: match.emotionalTone || keyword!.emotionalTone,
+      confidence: match.confidence,
+      reasoning: `Rules matched: ${matched.slice(0, 3).join(', ')}${matched.length > 3 ? ` and ${matched.length - 3} more` : ''}`,
+    }
+  }
+
+  async getCacheScope(context: SceneAnalyzerContext): Promise<string> {
+    const ruleSets = await this.getRuleSets(context)
+    return `rules:${ruleSets.map((ruleSet) => `${ruleSet.id}@${ruleSet.updatedAt}`).join(',')}`
+  }
+
+  getConfig(): Record<string, any> {
+    return { backend: this.name, collection: RULES_COLLECTION }
+  }
+
+  clearCache(): void {
+    this.cache = null
+  }
+
+  /**
+   * Active rule sets that apply to the project: its own and the global ones
+   */
+  private async getRuleSets(context: SceneAnalyzerContext): Promise<LoadedRuleSet[]> {
+    if (!context.payload) return []
+
+    const { ruleSets } = await this.loadRuleSets(context.payload)
+    return ruleSets.filter((ruleSet) => !ruleSet.projectId || ruleSet.projectId === (context.projectId || null))
+  }
+
+  private async loadRuleSets(payload: any): Promise<CachedRuleSets> {
+    if (this.cache && Date.now() - this.cache.loadedAt < SCENE_ANALYSIS_CONFIG.rules.cacheTtlMs) {
+      return this.cache
+    }
+
+    const result = await payload.find({
+      collection: RULES_COLLECTION,
+      where: { isActive: { equals: true } },
+      sort: 'createdAt',
+      limit: 200,
+      depth: 0,
+    })
+
+    const ruleSets: LoadedRuleSet[] = []
+    for (const doc of result.docs) {
+      try {
+        ruleSets.push({
+          id: String(doc.id),
+          name: doc.name,
+          projectId: doc.projectId || null,
+          updatedAt: doc.updatedAt || '',
+          rules: parseSceneRules(doc.rules || ''),
+        })
+      } catch (error) {
+        // Saved rules are validated, so this only happens after a DSL change
+        console.warn(`Skipping scene rules "${doc.name}":`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    this.cache = { ruleSets, loadedAt: Date.now() }
+    return this.cache
+  }
+}
@@ -5,6 +5,8 @@
  * Analyzes scene descriptions to recommend appropriate camera angles, shots, and parameters.
  */
 
+import type { SceneAnalyzerName } from '../lib/config/scene-analysis'
+
 export type SceneType = 'dialogue' | 'action' | 'emotional' | 'establishing' | 'transition'
 export type EmotionalTone = 'neutral' | 'tense' | 'intimate' | 'dramatic' | 'contemplative'
 
@@ -36,24 +38,63 @@ export interface SceneAnalysis {
   confidence: number          // 0-100 confidence in analysis
   keywords: string[]          // Extracted keywords
   reasoning: string           // Why these recommendations were made
+  backend?: SceneAnalyzerName // Analyzer that classified the scene
+  fallbackFrom?: SceneAnalyzerName // Analyzer that was asked first but gave no answer
+}
+
+/**
+ * Scene type and tone as decided by an analyzer backend
+ */
+export interface SceneClassification {
+  sceneType: SceneType
+  emotionalTone: EmotionalTone
+  confidence?: number
+  reasoning?: string
 }
 
+export const SCENE_TYPES: SceneType[] = ['dialogue', 'action', 'emotional', 'establishing', 'transition']
+export const EMOTIONAL_TONES: EmotionalTone[] = ['neutral', 'tense', 'intimate', 'dramatic', 'contemplative']
+
 export class SceneAnalysisEngine {
   
   /**
    * Analyze scene context from description
    */
   analyzeSceneContext(description: string): SceneAnalysis {
+    return { ...this.buildAnalysis(description, this.classify(description)), backend: 'keyword' }
+  }
+
+  /**
+   * Classify scene type and tone with the built-in keyword lists
+   */
+  classify(description: string): SceneClassification {
     const keywords = this.extractKeywords(description.toLowerCase())
-    
     const sceneType = this.detectSceneType(keywords)
     const emotionalTone = this.detectEmotionalTone(keywords)
+
+    return {
+      sceneType,
+      emotionalTone,
+      confidence: this.calculateConfidence(keywords, sceneType, emotionalTone),
+    }
+  }
+
+  /**
+   * Shot, camera and composition recommendations for a classified scene
+   * Any analyzer backend decides type and tone; the recommendations follow from them.
+   */
+  buildAnalysis(description: string, classification: SceneClassification): SceneAnalysis {
+    const keywords = this.extractKeywords(description.toLowerCase())
+    const { sceneType, emotionalTone } = classification
+
     const requiredShots = this.identifyRequiredShots(keywords, sceneType, emotionalTone)
     const cameraPreferences = this.suggestCameraSettings(keywords, sceneType, emotionalTone)
     const compositionNeeds = this.analyzeCompositionNeeds(keywords, sceneType, emotionalTone)
-    
-    const confidence = this.calculateConfidence(keywords, sceneType, emotionalTone)
-    const reasoning = this.generateReasoning(sceneType, emotionalTone, keywords)
+
+    const confidence = classification.confidence ?? this.calculateConfidence(keywords, sceneType, emotionalTone)
+    const reasoning = classification.reasoning
+      ? `${classification.reasoning.replace(/\.?\s*$/, '')}. ${this.generateReasoning(sceneType, emotionalTone, keywords)}`
+      : this.generateReasoning(sceneType, emotionalTone, keywords)
 
     return {
       sceneType,
@@ -0,0 +1,125 @@
+/**
+ * Scene Analysis Service
+ *
+ * Entry point for scene analysis. Runs the configured analyzer backend (or the
+ * one a caller asks for), falls back to the keyword engine when that backend is
+ * not configured, fails or has no answer, and caches analyses per description
+ * hash. Every analysis records the backend that produced it.
+ */
+
+import { createHash } from 'crypto'
+import { SCENE_ANALYSIS_CONFIG, SceneAnalyzerName } from '../lib/config/scene-analysis'
+import { SceneAnalysisEngine, SceneAnalysis, SceneClassification } from './SceneAnalysisEngine'
+import { createSceneAnalyzer, SceneAnalyzer } from './SceneAnalyzer'
+import { RulesSceneAnalyzer } from './RulesSceneAnalyzer'
+
+export interface AnalyzeSceneOptions {
+  payload?: any
+  projectId?: string | null
+  // Overrides SCENE_ANALYZER for this call
+  backend?: SceneAnalyzerName
+}
+
+export class SceneAnalysisService {
+  private engine = new SceneAnalysisEngine()
+  private analyzers: Map<SceneAnalyzerName, SceneAnalyzer> = new Map()
+  private cache: Map<string, SceneAnalysis> = new Map()
+
+  /**
+   * Analyze a scene description with the selected backend
+   */
+  async analyze(description: string, options: AnalyzeSceneOptions = {}): Promise<SceneAnalysis> {
+    const analyzer = this.getAnalyzer(options.backend || SCENE_ANALYSIS_CONFIG.backend)
+    const context = { payload: options.payload, projectId: options.projectId || null }
+
+    let scope = analyzer.name as string
+    try {
+      scope = await analyzer.getCacheScope(context)
+    } catch (error) {
+      console.warn(`Scene analyzer "${analyzer.name}" unavailable, using keyword analysis:`, error)
+      return this.keywordAnalysis(description, analyzer.name)
+    }
+
+    const key = this.cacheKey(scope, context.projectId, description)
+    const cached = this.cache.get(key)
+    if (cached) {
+      // Re-insert so the least recently used entry is evicted first
+      this.cache.delete(key)
+      this.cache.set(key, cached)
+      return cached
+    }
+
+    const analysis = await this.runAnalyzer(analyzer, description, context)
+    this.remember(key, analysis)
+    return analysis
+  }
+
+  getAnalyzer(name: SceneAnalyzerName): SceneAnalyzer {
+    let analyzer = this.analyzers.get(name)
+    if (!analyzer) {
+      analyzer = createSceneAnalyzer(name)
+      this.analyzers.set(name, analyzer)
+    }
+    return analyzer
+  }
+
+  /**
+   * Drop cached analyses and rule sets, e.g. after scene rules are edited
+   */
+  clearCache(): void {
+    this.cache.clear()
+    for (const analyzer of this.analyzers.values()) {
+      if (analyzer instanceof RulesSceneAnalyzer) analyzer.clearCache()
+    }
+  }
+
+  private async runAnalyzer(
+    analyzer: SceneAnalyzer,
+    description: string,
+    context: { payload?: any; projectId: string | null }
+  ): Promise<SceneAnalysis> {
+    if (analyzer.name === 'keyword') {
+      return this.keywordAnalysis(description)
+    }
+    if (!analyzer.isConfigured()) {
+      return this.keywordAnalysis(description, analyzer.name)
+    }
+
+    let classification: SceneClassification | null = null
+    try {
+      classification = await analyzer.classify(description, context)
+    } catch (error) {
+      console.warn(`Scene analyzer "${analyzer.name}" failed, using keyword analysis:`, error)
+    }
+
+    if (!classification) {
+      return this.keywordAnalysis(description, analyzer.name)
+    }
+    return { ...this.engine.buildAnalysis(description, classification), backend: analyzer.name }
+  }
+
+  private keywordAnalysis(description: string, fallbackFrom?: SceneAnalyzerName): SceneAnalysis {
+    const analysis = this.engine.analyzeSceneContext(description)
+    return fallbackFrom ? { ...analysis, fallbackFrom } : analysis
+  }
+
+  private cacheKey(scope: string, projectId: string | null, description: string): string {
+    const normalized = description.trim().replace(/\s+/g, ' ').toLowerCase()
+    return createHash('sha256').update(`${scope}\n${projectId || ''}\n${normalized}`).digest('hex')
+  }
+
+  private remember(key: string, analysis: SceneAnalysis): void {
+    // Fallbacks are not cached, so a backend that recovers answers the next call
+    if (analysis.fallbackFrom) return
+
+    this.cache.set(key, analysis)
+    while (this.cache.size > SCENE_ANALYSIS_CONFIG.cacheSize) {
+      const oldest = this.cache.keys().next().value
+      if (oldest === undefined) break
+      this.cache.delete(oldest)
+    }
+  }
+}
+
+// Export singleton instance
+export const sceneAnalysisService = new SceneAnalysisService()
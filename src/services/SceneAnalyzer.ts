@@ -0,0 +1,51 @@
+/**
+ * Scene Analyzer
+ *
+ * Backend contract behind SceneAnalysisService: decides the scene type and
+ * emotional tone of a description. Shot, camera and composition
+ * recommendations are derived from that classification by SceneAnalysisEngine,
+ * so every backend yields the same SceneAnalysis shape.
+ */
+
+import { SCENE_ANALYSIS_CONFIG, SceneAnalyzerName } from '../lib/config/scene-analysis'
+import type { SceneClassification } from './SceneAnalysisEngine'
+import { KeywordSceneAnalyzer } from './KeywordSceneAnalyzer'
+import { RulesSceneAnalyzer } from './RulesSceneAnalyzer'
+import { LlmSceneAnalyzer } from './LlmSceneAnalyzer'
+
+export interface SceneAnalyzerContext {
+  payload?: any
+  projectId?: string | null
+}
+
+export interface SceneAnalyzer {
+  readonly name: SceneAnalyzerName
+  isConfigured(): boolean
+  /**
+   * Classify a scene, or return null when the backend has no answer for it
+   * (e.g. no rule matched) so the caller can fall back to the keyword engine
+   */
+  classify(description: string, context: SceneAnalyzerContext): Promise<SceneClassification | null>
+  /**
+   * Part of the cache key: changes whenever the backend would answer differently
+   */
+  getCacheScope(context: SceneAnalyzerContext): Promise<string>
+  getConfig(): Record<string, any>
+}
+
+/**
+ * Create the analyzer selected by SCENE_ANALYZER (defaults to keyword)
+ */
+export function createSceneAnalyzer(name: SceneAnalyzerName = SCENE_ANALYSIS_CONFIG.backend): SceneAnalyzer {
+  switch (name) {
+    case 'keyword':
+      return new KeywordSceneAnalyzer()
+    case 'rules':
+      return new RulesSceneAnalyzer()
+    case 'llm':
+      return new LlmSceneAnalyzer()
+    default:
+      console.warn(`Unknown SCENE_ANALYZER "${name}", falling back to keyword`)
+      return new KeywordSceneAnalyzer()
+  }
+}
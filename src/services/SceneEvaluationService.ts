@@ -0,0 +1,527 @@
+/**
+ * Scene Evaluation Service
+ *
+ * Offline evaluation harness for scene analysis and reference selection. Runs
+ * labelled fixtures (scene description -> expected scene type, tone, preferred
+ * shots and acceptable reference images) through the configured scene analyzer
+ * and both reference finders, and scores the answers. Two reports can be
+ * compared to see which metrics and fixtures changed between commits.
+ *
+ * Reference finders run against an in-memory payload that serves the fixture
+ * galleries, so no database or image service is needed.
+ */
+
+import { readFile } from 'fs/promises'
+import { SCENE_ANALYSIS_CONFIG, SceneAnalyzerName } from '../lib/config/scene-analysis'
+import {
+  classificationMetrics,
+  setMetrics,
+  firstHitRank,
+  rankingMetrics,
+  calibrationMetrics,
+  ClassificationMetrics,
+  SetMetrics,
+  RankingMetrics,
+  CalibrationMetrics,
+} from '../lib/utils/evaluation-metrics'
+import { SCENE_TYPES, EMOTIONAL_TONES, SceneType, EmotionalTone } from './SceneAnalysisEngine'
+import { sceneAnalysisService } from './SceneAnalysisService'
+import { referenceSearchService } from './ReferenceSearchService'
+import { EnhancedReferenceSearchService } from './EnhancedReferenceSearchService'
+
+const CROPS = ['cu', 'mcu', '3q', 'full', 'hands']
+
+// prompt: ReferenceSearchService (find-reference-image); scene: EnhancedReferenceSearchService (find-reference-for-scene)
+export type ReferenceFinderName = 'prompt' | 'scene'
+
+export const REFERENCE_FINDERS: ReferenceFinderName[] = ['prompt', 'scene']
+
+export interface SceneEvaluationFixture {
+  id: string
+  description: string
+  projectId?: string
+  expected: {
+    sceneType?: SceneType
+    emotionalTone?: EmotionalTone
+    preferredShots?: string[] // Crops: cu, mcu, 3q, full, hands
+  }
+  references?: {
+    gallery: string // Key in galleries
+    expected: string[] // imageFile IDs that count as a good pick
+    includeAddonShots?: boolean
+  }
+}
+
+export interface SceneEvaluationFixtures {
+  version: 1
+  // Character image galleries as stored on characters (imageGallery items with referenceShot populated)
+  galleries: Record<string, any[]>
+  // Optional rule set for SCENE_ANALYZER=rules, evaluated as a global rule set
+  sceneRules?: string
+  scenes: SceneEvaluationFixture[]
+}
+
+export interface ReferencePick {
+  ranked: string[]
+  hitRank: number | null
+  confidence: number // 0-1
+}
+
+export interface SceneEvaluationCase {
+  id: string
+  expected: SceneEvaluationFixture['expected']
+  predicted: {
+    sceneType: SceneType
+    emotionalTone: EmotionalTone
+    preferredShots: string[]
+    confidence: number // 0-1
+    backend?: SceneAnalyzerName
+    fallbackFrom?: SceneAnalyzerName
+  }
+  references?: Partial<Record<ReferenceFinderName, ReferencePick>>
+}
+
+export interface SceneEvaluationReport {
+  version: 1
+  generatedAt: string
+  commit?: string
+  backend: SceneAnalyzerName
+  fixtureCount: number
+  summary: {
+    sceneType: ClassificationMetrics
+    emotionalTone: ClassificationMetrics
+    preferredShots: SetMetrics
+    // Analysis confidence against "every labelled field is right"
+    analysisCalibration: CalibrationMetrics
+    references: Record<ReferenceFinderName, RankingMetrics & { calibration: CalibrationMetrics }>
+  }
+  cases: SceneEvaluationCase[]
+}
+
+export interface EvaluateOptions {
+  backend?: SceneAnalyzerName
+  ks?: number[]
+  commit?: string
+}
+
+export interface MetricChange {
+  metric: string
+  base: number
+  head: number
+  delta: number
+  regressed: boolean
+}
+
+export interface CaseChange {
+  id: string
+  field: string
+  status: 'fixed' | 'broken' | 'changed'
+  base: string
+  head: string
+}
+
+export interface ReportComparison {
+  base: { commit?: string; generatedAt: string; backend: SceneAnalyzerName }
+  head: { commit?: string; generatedAt: string; backend: SceneAnalyzerName }
+  metrics: MetricChange[]
+  cases: CaseChange[]
+  regressions: number
+}
+
+// Metrics where a lower value is better
+const LOWER_IS_BETTER = ['ece', 'brier']
+// Changes smaller than this are rounding noise
+const METRIC_EPSILON = 0.0005
+
+export class SceneEvaluationService {
+  /**
+   * Read and validate a fixtures file
+   */
+  async loadFixtures(filePath: string): Promise<SceneEvaluationFixtures> {
+    const data = JSON.parse(await readFile(filePath, 'utf8'))
+    const validation = this.validateFixtures(data)
+    if (validation !== true) {
+      throw new Error(`Invalid evaluation fixtures in ${filePath}: ${validation}`)
+    }
+    return data
+  }
+
+  validateFixtures(data: any): true | string {
+    if (!data || data.version !== 1) return 'version must be 1'
+    if (!Array.isArray(data.scenes) || data.scenes.length === 0) return 'scenes must be a non-empty array'
+
+    const galleries = data.galleries || {}
+    const seen = new Set<string>()
+
+    for (const [index, scene] of data.scenes.entries()) {
+      const label = scene?.id ? `Scene "${scene.id}"` : `Scene ${index + 1}`
+      if (!scene?.id || typeof scene.id !== 'string') return `${label}: id is required`
+      if (seen.has(scene.id)) return `${label}: id is used more than once`
+      seen.add(scene.id)
+
+      if (!scene.description || typeof scene.description !== 'string') return `${label}: description is required`
+
+      const expected = scene.expected || {}
+      if (expected.sceneType && !SCENE_TYPES.includes(expected.sceneType)) {
+        return `${label}: unknown sceneType "${expected.sceneType}"`
+      }
+      if (expected.emotionalTone && !EMOTIONAL_TONES.includes(expected.emotionalTone)) {
+        return `${label}: unknown emotionalTone "${expected.emotionalTone}"`
+      }
+      const unknownCrop = (expected.preferredShots || []).find((crop: string) => !CROPS.includes(crop))
+      if (unknownCrop) return `${label}: unknown preferred shot "${unknownCrop}" (use ${CROPS.join(', ')})`
+
+      if (scene.references) {
+        const gallery = galleries[scene.references.gallery]
+        if (!Array.isArray(gallery)) return `${label}: gallery "${scene.references.gallery}" is not defined`
+        if (!Array.isArray(scene.references.expected) || scene.references.expected.length === 0) {
+          return `${label}: references.expected must list at least one image`
+        }
+        const imageIds = new Set(gallery.map((image: any) => imageFileId(image)))
+        const missing = scene.references.expected.find((id: string) => !imageIds.has(id))
+        if (missing) return `${label}: image "${missing}" is not in gallery "${scene.references.gallery}"`
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Run every fixture and score the results
+   */
+  async evaluate(fixtures: SceneEvaluationFixtures, options: EvaluateOptions = {}): Promise<SceneEvaluationReport> {
+    const backend = options.backend || SCENE_ANALYSIS_CONFIG.backend
+    const ks = options.ks || [1, 3]
+    const cases: SceneEvaluationCase[] = []
+
+    for (const scene of fixtures.scenes) {
+      cases.push(await this.evaluateScene(fixtures, scene, backend))
+    }
+
+    const labelled = <K extends keyof SceneEvaluationFixture['expected']>(field: K) =>
+      cases.filter((item) => item.expected[field] !== undefined)
+
+    const references = {} as SceneEvaluationReport['summary']['references']
+    for (const finder of REFERENCE_FINDERS) {
+      const picks = cases.map((item) => item.references?.[finder]).filter((pick): pick is ReferencePick => Boolean(pick))
+      references[finder] = {
+        ...rankingMetrics(picks.map((pick) => pick.hitRank), ks),
+        calibration: calibrationMetrics(picks.map((pick) => ({ confidence: pick.confidence, correct: pick.hitRank === 1 }))),
+      }
+    }
+
+    return {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      ...(options.commit ? { commit: options.commit } : {}),
+      backend,
+      fixtureCount: cases.length,
+      summary: {
+        sceneType: classificationMetrics(
+          labelled('sceneType').map((item) => ({ expected: item.expected.sceneType!, predicted: item.predicted.sceneType }))
+        ),
+        emotionalTone: classificationMetrics(
+          labelled('emotionalTone').map((item) => ({
+            expected: item.expected.emotionalTone!,
+            predicted: item.predicted.emotionalTone,
+          }))
+        ),
+        preferredShots: setMetrics(
+          labelled('preferredShots').map((item) => ({
+            expected: item.expected.preferredShots!,
+            predicted: item.predicted.preferredShots,
+          }))
+        ),
+        analysisCalibration: calibrationMetrics(
+          cases.map((item) => ({ confidence: item.predicted.confidence, correct: isAnalysisCorrect(item) }))
+        ),
+        references,
+      },
+      cases,
+    }
+  }
+
+  /**
+   * Metric and per-fixture differences from base to head
+   */
+  compareReports(base: SceneEvaluationReport, head: SceneEvaluationReport): ReportComparison {
+    const baseMetrics = flattenMetrics(base.summary)
+    const headMetrics = flattenMetrics(head.summary)
+
+    const metrics: MetricChange[] = []
+    for (const [metric, headValue] of headMetrics) {
+      const baseValue = baseMetrics.get(metric) ?? 0
+      const delta = headValue - baseValue
+      if (Math.abs(delta) < METRIC_EPSILON) continue
+
+      const lowerIsBetter = LOWER_IS_BETTER.includes(metric.split('.').pop()!)
+      metrics.push({ metric, base: baseValue, head: headValue, delta, regressed: lowerIsBetter ? delta > 0 : delta < 0 })
+    }
+
+    const baseCases = new Map(base.cases.map((item) => [item.id, item]))
+    const cases: CaseChange[] = []
+    for (const headCase of head.cases) {
+      const baseCase = baseCases.get(headCase.id)
+      if (baseCase) cases.push(...this.compareCase(baseCase, headCase))
+    }
+
+    return {
+      base: { commit: base.commit, generatedAt: base.generatedAt, backend: base.backend },
+      head: { commit: head.commit, generatedAt: head.generatedAt, backend: head.backend },
+      metrics,
+      cases,
+      regressions: metrics.filter((change) => change.regressed).length + cases.filter((change) => change.status === 'broken').length,
+    }
+  }
+
+  /**
+   * Human-readable summary of a report
+   */
+  formatReport(report: SceneEvaluationReport): string {
+    const { summary } = report
+    const lines = [
+      `Scene evaluation: ${report.fixtureCount} fixtures, analyzer "${report.backend}"${report.commit ? ` at ${report.commit}` : ''}`,
+      '',
+      'Scene analysis',
+      `  sceneType       accuracy ${fmt(summary.sceneType.accuracy)}  precision ${fmt(summary.sceneType.macroPrecision)}  recall ${fmt(summary.sceneType.macroRecall)}  F1 ${fmt(summary.sceneType.macroF1)}`,
+      `  emotionalTone   accuracy ${fmt(summary.emotionalTone.accuracy)}  precision ${fmt(summary.emotionalTone.macroPrecision)}  recall ${fmt(summary.emotionalTone.macroRecall)}  F1 ${fmt(summary.emotionalTone.macroF1)}`,
+      `  preferredShots  precision ${fmt(summary.preferredShots.precision)}  recall ${fmt(summary.preferredShots.recall)}  F1 ${fmt(summary.preferredShots.f1)}`,
+      `  calibration     ECE ${fmt(summary.analysisCalibration.ece)}  Brier ${fmt(summary.analysisCalibration.brier)}`,
+      '',
+      'Reference selection',
+    ]
+
+    for (const finder of REFERENCE_FINDERS) {
+      const metrics = summary.references[finder]
+      const hitRates = Object.entries(metrics.hitRate).map(([k, value]) => `${k} ${fmt(value)}`).join('  ')
+      lines.push(
+        `  ${finder.padEnd(14)}  ${hitRates}  MRR ${fmt(metrics.mrr)}  ECE ${fmt(metrics.calibration.ece)}  (${metrics.cases} fixtures)`
+      )
+    }
+
+    const misses = report.cases.flatMap((item) => describeMisses(item))
+    if (misses.length > 0) {
+      lines.push('', 'Misses', ...misses.map((miss) => `  ${miss}`))
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Human-readable regression diff
+   */
+  formatComparison(comparison: ReportComparison): string {
+    const name = (side: ReportComparison['base']) => side.commit || side.generatedAt
+    const lines = [`Scene evaluation diff: ${name(comparison.base)} -> ${name(comparison.head)}`]
+
+    if (comparison.base.backend !== comparison.head.backend) {
+      lines.push(`  note: analyzer changed from "${comparison.base.backend}" to "${comparison.head.backend}"`)
+    }
+
+    lines.push('', 'Metrics')
+    if (comparison.metrics.length === 0) lines.push('  no changes')
+    for (const change of comparison.metrics) {
+      const sign = change.delta > 0 ? '+' : ''
+      lines.push(
+        `  ${change.regressed ? 'worse ' : 'better'}  ${change.metric.padEnd(44)} ${fmt(change.base)} -> ${fmt(change.head)} (${sign}${fmt(change.delta)})`
+      )
+    }
+
+    lines.push('', 'Fixtures')
+    if (comparison.cases.length === 0) lines.push('  no changes')
+    for (const change of comparison.cases) {
+      lines.push(`  ${change.status.padEnd(7)} ${change.id} ${change.field}: ${change.base} -> ${change.head}`)
+    }
+
+    lines.push('', comparison.regressions === 0 ? 'No regressions' : `${comparison.regressions} regression(s)`)
+    return lines.join('\n')
+  }
+
+  private async evaluateScene(
+    fixtures: SceneEvaluationFixtures,
+    scene: SceneEvaluationFixture,
+    backend: SceneAnalyzerName
+  ): Promise<SceneEvaluationCase> {
+    const gallery = scene.references ? fixtures.galleries[scene.references.gallery] : []
+    const payload = this.fixturePayload(fixtures, scene, gallery)
+    const characterId = `fixture-${scene.references?.gallery || scene.id}`
+
+    const analysis = await sceneAnalysisService.analyze(scene.description, {
+      payload,
+      projectId: scene.projectId,
+      backend,
+    })
+
+    const result: SceneEvaluationCase = {
+      id: scene.id,
+      expected: scene.expected,
+      predicted: {
+        sceneType: analysis.sceneType,
+        emotionalTone: analysis.emotionalTone,
+        preferredShots: analysis.requiredShots.preferredCrop,
+        confidence: analysis.confidence / 100,
+        backend: analysis.backend,
+        ...(analysis.fallbackFrom ? { fallbackFrom: analysis.fallbackFrom } : {}),
+      },
+    }
+
+    if (!scene.references) return result
+    const expected = scene.references.expected
+
+    const promptSearch = await referenceSearchService.findBestReference(characterId, scene.description, payload, {
+      includeAddonShots: scene.references.includeAddonShots,
+    })
+    const promptRanked = promptSearch.bestMatch
+      ? [promptSearch.bestMatch, ...(promptSearch.alternatives || [])].map((pick) => String(pick.imageId))
+      : []
+
+    const sceneSearch = await new EnhancedReferenceSearchService(payload).findBestReferenceForScene(
+      characterId,
+      scene.description,
+      { includeAlternatives: true }
+    )
+    const sceneRanked = sceneSearch.selectedImage
+      ? [sceneSearch.selectedImage, ...(sceneSearch.alternatives || [])].map((pick) => String(pick.mediaId))
+      : []
+
+    result.references = {
+      prompt: {
+        ranked: promptRanked,
+        hitRank: firstHitRank(promptRanked, expected),
+        confidence: (promptSearch.bestMatch?.confidence || 0) / 100,
+      },
+      scene: {
+        ranked: sceneRanked,
+        hitRank: firstHitRank(sceneRanked, expected),
+        confidence: Math.min(1, sceneSearch.searchMetrics?.selectionConfidence || 0),
+      },
+    }
+    return result
+  }
+
+  /**
+   * Minimal local API over the fixtures: one character per gallery, plus the fixture rule set
+   */
+  private fixturePayload(fixtures: SceneEvaluationFixtures, scene: SceneEvaluationFixture, gallery: any[]) {
+    const character = {
+      id: `fixture-${scene.references?.gallery || scene.id}`,
+      name: scene.references?.gallery || scene.id,
+      imageGallery: gallery,
+      novelMovieIntegration: { projectId: scene.projectId || null },
+    }
+
+    return {
+      findByID: async () => character,
+      find: async ({ collection }: { collection: string }) => {
+        if (collection === 'scene-analysis-rules' && fixtures.sceneRules) {
+          return {
+            docs: [
+              {
+                id: 'fixture-rules',
+                name: 'Fixture rules',
+                projectId: null,
+                isActive: true,
+                updatedAt: 'fixture',
+                rules: fixtures.sceneRules,
+              },
+            ],
+          }
+        }
+        return { docs: [] }
+      },
+    }
+  }
+
+  private compareCase(base: SceneEvaluationCase, head: SceneEvaluationCase): CaseChange[] {
+    const changes: CaseChange[] = []
+
+    for (const field of ['sceneType', 'emotionalTone'] as const) {
+      const expected = head.expected[field]
+      const before = base.predicted[field]
+      const after = head.predicted[field]
+      if (!expected || before === after) continue
+
+      const status = before === expected ? 'broken' : after === expected ? 'fixed' : 'changed'
+      changes.push({ id: head.id, field, status, base: before, head: after })
+    }
+
+    for (const finder of REFERENCE_FINDERS) {
+      const before = base.references?.[finder]
+      const after = head.references?.[finder]
+      if (!before || !after || (before.ranked[0] === after.ranked[0] && before.hitRank === after.hitRank)) continue
+
+      const status = before.hitRank === 1 ? 'broken' : after.hitRank === 1 ? 'fixed' : 'changed'
+      changes.push({
+        id: head.id,
+        field: `references.${finder}`,
+        status,
+        base: describePick(before),
+        head: describePick(after),
+      })
+    }
+
+    return changes
+  }
+}
+
+/**
+ * Flatten numeric summary values to dotted paths; bins and counts are left out
+ */
+function flattenMetrics(summary: SceneEvaluationReport['summary']): Map<string, number> {
+  const metrics = new Map<string, number>()
+
+  const visit = (value: any, path: string) => {
+    if (typeof value === 'number') {
+      metrics.set(path, value)
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'support' || key === 'cases') continue
+        visit(child, path ? `${path}.${key}` : key)
+      }
+    }
+  }
+
+  visit(summary, '')
+  return metrics
+}
+
+function isAnalysisCorrect(item: SceneEvaluationCase): boolean {
+  const { expected, predicted } = item
+  return (
+    (!expected.sceneType || expected.sceneType === predicted.sceneType) &&
+    (!expected.emotionalTone || expected.emotionalTone === predicted.emotionalTone)
+  )
+}
+
+function describeMisses(item: SceneEvaluationCase): string[] {
+  const misses: string[] = []
+  if (item.expected.sceneType && item.expected.sceneType !== item.predicted.sceneType) {
+    misses.push(`${item.id}: sceneType ${item.expected.sceneType}, got ${item.predicted.sceneType}`)
+  }
+  if (item.expected.emotionalTone && item.expected.emotionalTone !== item.predicted.emotionalTone) {
+    misses.push(`${item.id}: emotionalTone ${item.expected.emotionalTone}, got ${item.predicted.emotionalTone}`)
+  }
+  for (const finder of REFERENCE_FINDERS) {
+    const pick = item.references?.[finder]
+    if (pick && pick.hitRank !== 1) {
+      misses.push(`${item.id}: ${finder} reference ${describePick(pick)}`)
+    }
+  }
+  return misses
+}
+
+function describePick(pick: ReferencePick): string {
+  const top = pick.ranked[0] || 'none'
+  return pick.hitRank ? `${top} (expected image at rank ${pick.hitRank})` : `${top} (no expected image ranked)`
+}
+
+function imageFileId(image: any): string {
+  return String(image?.imageFile?.id || image?.imageFile)
+}
+
+function fmt(value: number): string {
+  return value.toFixed(3)
+}
+
+// Export singleton instance
+export const sceneEvaluationService = new SceneEvaluationService()
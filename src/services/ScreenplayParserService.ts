@@ -0,0 +1,262 @@
+/**
+ * Screenplay Parser Service
+ *
+ * Parses Fountain and Final Draft (FDX) screenplays into scenes: the scene
+ * heading, action lines, character cues and dialogue of each scene. Only the
+ * structure needed for shot planning is kept; formatting is dropped.
+ */
+
+export type ScreenplayFormat = 'fountain' | 'fdx'
+
+export interface ScreenplayDialogue {
+  character: string
+  parenthetical?: string
+  text: string
+}
+
+export interface ScreenplayScene {
+  sceneNumber: number
+  heading: string
+  setting: 'INT' | 'EXT' | 'INT/EXT' | null
+  location: string
+  timeOfDay: string | null
+  action: string[]
+  characters: string[] // Normalized cue names, in order of first appearance
+  dialogue: ScreenplayDialogue[]
+}
+
+export interface ParsedScreenplay {
+  format: ScreenplayFormat
+  title: string | null
+  scenes: ScreenplayScene[]
+}
+
+export class ScreenplayParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScreenplayParseError'
+  }
+}
+
+const SCENE_HEADING = /^(?:INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i
+const CHARACTER_EXTENSION = /\s*\((?:V\.?O\.?|O\.?S\.?|O\.?C\.?|CONT'?D|CONTINUING|PRE-?LAP|FILTERED|ON PHONE|[^)]*)\)/gi
+
+export class ScreenplayParserService {
+  /**
+   * Parse a screenplay, detecting the format when it is not given
+   */
+  parse(text: string, format?: ScreenplayFormat): ParsedScreenplay {
+    const detected = format || this.detectFormat(text)
+    const parsed = detected === 'fdx' ? this.parseFdx(text) : this.parseFountain(text)
+
+    if (parsed.scenes.length === 0) {
+      throw new ScreenplayParseError('No scene headings found (expected lines like "INT. KITCHEN - NIGHT")')
+    }
+    return parsed
+  }
+
+  detectFormat(text: string): ScreenplayFormat {
+    return /<FinalDraft[\s>]/i.test(text.slice(0, 2000)) ? 'fdx' : 'fountain'
+  }
+
+  /**
+   * Fountain (https://fountain.io): scene headings, action, character cues and dialogue
+   */
+  parseFountain(text: string): ParsedScreenplay {
+    const cleaned = text
+      .replace(/\r\n?/g, '\n')
+      .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+      .replace(/\[\[[\s\S]*?\]\]/g, '') // Notes
+
+    let lines = cleaned.split('\n')
+    let title: string | null = null
+
+    // Title page: "Key: value" lines up to the first blank line
+    if (/^[A-Za-z][A-Za-z ]*:/.test(lines[0] || '')) {
+      const end = lines.findIndex((line) => line.trim() === '')
+      const titleLine = lines.slice(0, end === -1 ? lines.length : end).find((line) => /^title:/i.test(line))
+      title = titleLine ? titleLine.replace(/^title:/i, '').trim() || null : null
+      lines = end === -1 ? [] : lines.slice(end + 1)
+    }
+
+    const scenes: ScreenplayScene[] = []
+    let scene: ScreenplayScene | null = null
+    let speaker: string | null = null
+    let parenthetical: string | undefined
+
+    for (let i = 0; i < lines.length; i++) {
+      const raw = lines[i]
+      const line = raw.trim()
+      const previousBlank = i === 0 || lines[i - 1].trim() === ''
+      const nextLine = (lines[i + 1] || '').trim()
+
+      if (line === '') {
+        speaker = null
+        parenthetical = undefined
+        continue
+      }
+
+      // Sections, synopses and page breaks carry no scene content
+      if (/^#/.test(line) || /^=(?!=)/.test(line) || /^={3,}$/.test(line)) continue
+
+      if (previousBlank && this.isFountainHeading(line)) {
+        scene = this.createScene(scenes.length + 1, line.replace(/^\.(?!\.)/, '').replace(/\s*#[^#]+#\s*$/, ''))
+        scenes.push(scene)
+        speaker = null
+        continue
+      }
+
+      if (!scene) continue
+
+      if (speaker) {
+        if (/^\(.*\)$/.test(line)) {
+          parenthetical = line.slice(1, -1).trim()
+        } else {
+          scene.dialogue.push({ character: speaker, parenthetical, text: line })
+          parenthetical = undefined
+        }
+        continue
+      }
+
+      // Transitions ("CUT TO:", forced with ">")
+      if ((/^[A-Z0-9 .'-]+TO:$/.test(line) && previousBlank) || (/^>/.test(line) && !/<$/.test(line))) continue
+
+      if (previousBlank && nextLine !== '' && this.isFountainCue(line)) {
+        speaker = this.normalizeCue(line.replace(/^@/, '').replace(/\s*\^$/, ''))
+        this.addCharacter(scene, speaker)
+        continue
+      }
+
+      scene.action.push(line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1'))
+    }
+
+    return { format: 'fountain', title, scenes }
+  }
+
+  /**
+   * Final Draft XML: <Paragraph Type="Scene Heading|Action|Character|Parenthetical|Dialogue">
+   */
+  parseFdx(xml: string): ParsedScreenplay {
+    if (!/<FinalDraft[\s>]/i.test(xml)) {
+      throw new ScreenplayParseError('Not a Final Draft document: missing <FinalDraft> root element')
+    }
+
+    const content = xml.match(/<Content>([\s\S]*?)<\/Content>/i)?.[1] || xml
+    const titleMatch = xml.match(/<TitlePage>[\s\S]*?<Paragraph[^>]*>([\s\S]*?)<\/Paragraph>/i)
+    const title = titleMatch ? this.fdxText(titleMatch[1]) || null : null
+
+    const scenes: ScreenplayScene[] = []
+    let scene: ScreenplayScene | null = null
+    let speaker: string | null = null
+    let parenthetical: string | undefined
+
+    const paragraphs = content.matchAll(/<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/gi)
+    for (const [, attributes, body] of paragraphs) {
+      const type = attributes.match(/\bType="([^"]*)"/i)?.[1] || 'Action'
+      const text = this.fdxText(body)
+      if (!text) continue
+
+      if (type === 'Scene Heading') {
+        scene = this.createScene(scenes.length + 1, text)
+        scenes.push(scene)
+        speaker = null
+        continue
+      }
+      if (!scene) continue
+
+      switch (type) {
+        case 'Character':
+          speaker = this.normalizeCue(text)
+          parenthetical = undefined
+          this.addCharacter(scene, speaker)
+          break
+        case 'Parenthetical':
+          parenthetical = text.replace(/^\(|\)$/g, '').trim()
+          break
+        case 'Dialogue':
+          if (speaker) {
+            scene.dialogue.push({ character: speaker, parenthetical, text })
+            parenthetical = undefined
+          }
+          break
+        case 'Transition':
+          speaker = null
+          break
+        default:
+          // Action, General, Shot
+          speaker = null
+          scene.action.push(text)
+      }
+    }
+
+    return { format: 'fdx', title, scenes }
+  }
+
+  /**
+   * Cue name without extensions, e.g. "AVA (V.O.)" -> "AVA"
+   */
+  normalizeCue(cue: string): string {
+    return cue.replace(CHARACTER_EXTENSION, '').replace(/\s+/g, ' ').trim().toUpperCase()
+  }
+
+  private isFountainHeading(line: string): boolean {
+    return /^\.[^.]/.test(line) || SCENE_HEADING.test(line)
+  }
+
+  private isFountainCue(line: string): boolean {
+    if (line.startsWith('@')) return true
+    const name = line.replace(CHARACTER_EXTENSION, '').replace(/\s*\^$/, '').trim()
+    // All caps with at least one letter; the extension may use lower case
+    return /[A-Z]/.test(name) && name === name.toUpperCase() && /^[A-Z0-9 .'-]+$/.test(name)
+  }
+
+  private createScene(sceneNumber: number, heading: string): ScreenplayScene {
+    const clean = heading.replace(/\s+/g, ' ').trim().toUpperCase()
+    const setting = clean.match(/^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)\.?\s*/)
+    const rest = setting ? clean.slice(setting[0].length) : clean
+    const [location, ...time] = rest.split(/\s+-\s+/)
+
+    let settingName: ScreenplayScene['setting'] = null
+    if (setting) {
+      const value = setting[1].replace('.', '')
+      settingName = value === 'INT' ? 'INT' : value === 'EXT' || value === 'EST' ? 'EXT' : 'INT/EXT'
+    }
+
+    return {
+      sceneNumber,
+      heading: clean,
+      setting: settingName,
+      location: location.trim(),
+      timeOfDay: time.length > 0 ? time.join(' - ').trim() : null,
+      action: [],
+      characters: [],
+      dialogue: [],
+    }
+  }
+
+  private addCharacter(scene: ScreenplayScene, name: string): void {
+    if (name && !scene.characters.includes(name)) {
+      scene.characters.push(name)
+    }
+  }
+
+  private fdxText(body: string): string {
+    const parts = Array.from(body.matchAll(/<Text\b[^>]*>([\s\S]*?)<\/Text>/gi), (match) => match[1])
+    return decodeXml((parts.length > 0 ? parts.join('') : body).replace(/<[^>]+>/g, ''))
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+// Export singleton instance
+export const screenplayParserService = new ScreenplayParserService()
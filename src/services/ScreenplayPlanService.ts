@@ -0,0 +1,306 @@
+/**
+ * Screenplay Plan Service
+ *
+ * Turns a parsed screenplay into a reviewable shot plan: character cues are
+ * matched to the project's characters, each scene runs through the configured
+ * scene analyzer, and the result carries a ready-to-submit batch scene
+ * request (POST /api/v1/characters/batch-generate-scenes).
+ */
+
+import type { BatchSceneRequest } from './BatchSceneGenerationService'
+import type { SceneAnalysis } from './SceneAnalysisEngine'
+import { sceneAnalysisService } from './SceneAnalysisService'
+import { ParsedScreenplay, ScreenplayScene } from './ScreenplayParserService'
+import { SCREENPLAY_CONFIG, CROP_SHOT_TYPES } from '../lib/config/screenplay'
+
+type BatchScene = BatchSceneRequest['scenes'][number]
+
+export type CueMatchType = 'name' | 'characterId' | 'firstName' | 'lastName'
+
+export interface CastMatch {
+  cue: string
+  characterId: string | null // Payload ID of the matched character
+  name: string | null
+  matchedBy: CueMatchType | null
+  candidates?: string[] // Names sharing the cue when it is ambiguous
+  scenes: number[]
+}
+
+export interface PlannedScene extends BatchScene {
+  sceneNumber: number
+  heading: string
+  characterNames: string[]
+  unmatchedCues: string[]
+  analysis: Pick<SceneAnalysis, 'sceneType' | 'emotionalTone' | 'confidence' | 'reasoning' | 'backend' | 'fallbackFrom'> & {
+    preferredLens: number[]
+    preferredCrop: string[]
+    preferredAngles: number[]
+  }
+  included: boolean // Part of batchRequest
+  note?: string
+}
+
+export interface ShotPlan {
+  projectId: string
+  title: string | null
+  format: ParsedScreenplay['format']
+  scenes: PlannedScene[]
+  cast: CastMatch[]
+  batchRequest: BatchSceneRequest
+  summary: {
+    totalScenes: number
+    plannedScenes: number
+    skippedScenes: number
+    totalImages: number
+    unmatchedCues: string[]
+  }
+}
+
+export interface ShotPlanOptions {
+  shotsPerScene?: number
+  storyYear?: number
+  batchSettings?: BatchSceneRequest['batchSettings']
+}
+
+interface CharacterRef {
+  id: string
+  name: string
+}
+
+const MATCH_PRIORITY: CueMatchType[] = ['name', 'characterId', 'firstName', 'lastName']
+
+export class ScreenplayPlanService {
+  /**
+   * Build the shot plan for a screenplay against the characters of a project
+   */
+  async buildPlan(
+    payload: any,
+    projectId: string,
+    screenplay: ParsedScreenplay,
+    options: ShotPlanOptions = {}
+  ): Promise<ShotPlan> {
+    const characters = await payload.find({
+      collection: 'characters',
+      where: { 'novelMovieIntegration.projectId': { equals: projectId } },
+      limit: 1000,
+      depth: 0,
+    })
+
+    return this.planScenes(payload, projectId, screenplay, characters.docs, options)
+  }
+
+  async planScenes(
+    payload: any,
+    projectId: string,
+    screenplay: ParsedScreenplay,
+    characters: any[],
+    options: ShotPlanOptions = {}
+  ): Promise<ShotPlan> {
+    const shotsPerScene = Math.min(
+      Math.max(1, options.shotsPerScene || SCREENPLAY_CONFIG.defaultShotsPerScene),
+      SCREENPLAY_CONFIG.maxShotsPerScene
+    )
+    const cast = this.matchCast(screenplay.scenes, characters)
+    const castByCue = new Map(cast.map((match) => [match.cue, match]))
+
+    const scenes: PlannedScene[] = []
+    for (const scene of screenplay.scenes) {
+      scenes.push(await this.planScene(payload, projectId, scene, castByCue, shotsPerScene, options.storyYear))
+    }
+    const included = scenes.filter((scene) => scene.included)
+
+    const batchRequest: BatchSceneRequest = {
+      projectId,
+      scenes: included.map((scene) => ({
+        sceneId: scene.sceneId,
+        characters: scene.characters,
+        sceneDescription: scene.sceneDescription,
+        requiredShots: scene.requiredShots,
+        sceneType: scene.sceneType,
+        environmentContext: scene.environmentContext,
+        mood: scene.mood,
+        lightingStyle: scene.lightingStyle,
+        storyYear: scene.storyYear,
+      })),
+      ...(options.batchSettings ? { batchSettings: options.batchSettings } : {}),
+    }
+
+    return {
+      projectId,
+      title: screenplay.title,
+      format: screenplay.format,
+      scenes,
+      cast,
+      batchRequest,
+      summary: {
+        totalScenes: scenes.length,
+        plannedScenes: included.length,
+        skippedScenes: scenes.length - included.length,
+        totalImages: included.reduce((sum, scene) => sum + scene.characters.length * scene.requiredShots.length, 0),
+        unmatchedCues: cast.filter((match) => !match.characterId).map((match) => match.cue),
+      },
+    }
+  }
+
+  /**
+   * Match every cue of the screenplay to at most one project character
+   * Full name wins over characterId, then a first or last name shared by no other character.
+   */
+  matchCast(scenes: ScreenplayScene[], characters: any[]): CastMatch[] {
+    const index = new Map<CueMatchType, Map<string, CharacterRef[]>>(
+      MATCH_PRIORITY.map((type) => [type, new Map()])
+    )
+    const addKey = (type: CueMatchType, key: string, character: CharacterRef) => {
+      if (!key) return
+      const refs = index.get(type)!.get(key) || []
+      if (!refs.some((ref) => ref.id === character.id)) refs.push(character)
+      index.get(type)!.set(key, refs)
+    }
+
+    for (const character of characters) {
+      if (!character?.name) continue
+      const ref = { id: String(character.id), name: String(character.name) }
+      const words = normalizeName(ref.name).split(' ').filter(Boolean)
+
+      addKey('name', words.join(' '), ref)
+      addKey('characterId', normalizeName(String(character.characterId || '')), ref)
+      if (words.length > 1) {
+        addKey('firstName', words[0], ref)
+        addKey('lastName', words[words.length - 1], ref)
+      }
+    }
+
+    const cues = new Map<string, number[]>()
+    for (const scene of scenes) {
+      for (const cue of scene.characters) {
+        cues.set(cue, [...(cues.get(cue) || []), scene.sceneNumber])
+      }
+    }
+
+    return Array.from(cues, ([cue, sceneNumbers]) => {
+      const key = normalizeName(cue)
+      let candidates: CharacterRef[] = []
+
+      for (const type of MATCH_PRIORITY) {
+        const refs = index.get(type)!.get(key) || []
+        if (refs.length === 1) {
+          return { cue, characterId: refs[0].id, name: refs[0].name, matchedBy: type, scenes: sceneNumbers }
+        }
+        if (refs.length > 1 && candidates.length === 0) candidates = refs
+      }
+
+      return {
+        cue,
+        characterId: null,
+        name: null,
+        matchedBy: null,
+        ...(candidates.length > 0 ? { candidates: candidates.map((ref) => ref.name) } : {}),
+        scenes: sceneNumbers,
+      }
+    })
+  }
+
+  private async planScene(
+    payload: any,
+    projectId: string,
+    scene: ScreenplayScene,
+    castByCue: Map<string, CastMatch>,
+    shotsPerScene: number,
+    storyYear?: number
+  ): Promise<PlannedScene> {
+    const matched = scene.characters
+      .map((cue) => castByCue.get(cue))
+      .filter((match): match is CastMatch => Boolean(match?.characterId))
+    const characterIds = [...new Set(matched.map((match) => match.characterId!))]
+    const characterNames = [...new Set(matched.map((match) => match.name!))]
+    const unmatchedCues = scene.characters.filter((cue) => !castByCue.get(cue)?.characterId)
+
+    const sceneDescription = this.describeScene(scene, characterNames)
+    const analysis = await sceneAnalysisService.analyze(sceneDescription, { payload, projectId })
+
+    const requiredShots = [
+      ...new Set(analysis.requiredShots.preferredCrop.map((crop) => CROP_SHOT_TYPES[crop]).filter(Boolean)),
+    ].slice(0, shotsPerScene)
+    if (requiredShots.length === 0) requiredShots.push(CROP_SHOT_TYPES['3q'])
+
+    const included = characterIds.length > 0
+    return {
+      sceneId: `scene-${scene.sceneNumber}`,
+      sceneNumber: scene.sceneNumber,
+      heading: scene.heading,
+      characters: characterIds,
+      characterNames,
+      unmatchedCues,
+      sceneDescription,
+      requiredShots,
+      // Batch generation has no transition type; those scenes follow characters moving through a place
+      sceneType: analysis.sceneType === 'transition' ? 'establishing' : analysis.sceneType,
+      environmentContext: describeEnvironment(scene),
+      mood: analysis.emotionalTone !== 'neutral' ? analysis.emotionalTone : undefined,
+      lightingStyle: lightingFor(scene.timeOfDay),
+      storyYear,
+      analysis: {
+        sceneType: analysis.sceneType,
+        emotionalTone: analysis.emotionalTone,
+        confidence: analysis.confidence,
+        reasoning: analysis.reasoning,
+        backend: analysis.backend,
+        ...(analysis.fallbackFrom ? { fallbackFrom: analysis.fallbackFrom } : {}),
+        preferredLens: analysis.requiredShots.preferredLens,
+        preferredCrop: analysis.requiredShots.preferredCrop,
+        preferredAngles: analysis.requiredShots.preferredAngles,
+      },
+      included,
+      ...(included ? {} : { note: 'No character cue in this scene matches a project character' }),
+    }
+  }
+
+  /**
+   * Scene text for analysis and prompting: heading, action and who talks
+   */
+  private describeScene(scene: ScreenplayScene, characterNames: string[]): string {
+    const parts = [`${describeEnvironment(scene)}.`, ...scene.action]
+    if (scene.dialogue.length > 0) {
+      const speakers = characterNames.length > 0 ? characterNames : scene.characters
+      parts.push(
+        speakers.length > 1
+          ? `Dialogue between ${speakers.slice(0, -1).join(', ')} and ${speakers[speakers.length - 1]}.`
+          : `${speakers[0] || 'A character'} speaks.`
+      )
+    }
+
+    const description = parts.join(' ').replace(/\s+/g, ' ').trim()
+    return description.length > SCREENPLAY_CONFIG.maxDescriptionLength
+      ? `${description.slice(0, SCREENPLAY_CONFIG.maxDescriptionLength - 3).trimEnd()}...`
+      : description
+  }
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[_-]+/g, ' ')
+    .replace(/[^A-Z0-9 ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function describeEnvironment(scene: ScreenplayScene): string {
+  const location = scene.location.toLowerCase()
+  if (scene.setting === 'INT') return `Interior, ${location}`
+  if (scene.setting === 'EXT') return `Exterior, ${location}`
+  if (scene.setting === 'INT/EXT') return `Interior/exterior, ${location}`
+  return location
+}
+
+function lightingFor(timeOfDay: string | null): string | undefined {
+  const time = (timeOfDay || '').toUpperCase()
+  if (/NIGHT|MIDNIGHT/.test(time)) return 'night, low-key practical lighting'
+  if (/DAWN|SUNRISE|MORNING/.test(time)) return 'soft early morning light'
+  if (/DUSK|SUNSET|EVENING|MAGIC HOUR/.test(time)) return 'warm golden hour light'
+  if (/DAY|NOON|AFTERNOON/.test(time)) return 'natural daylight'
+  return undefined
+}
+
+// Export singleton instance
+export const screenplayPlanService = new ScreenplayPlanService()
@@ -7,6 +7,9 @@
 
 import { imageGenerationService } from './ImageGenerationService'
 import { dinoOrchestrator } from './DinoOrchestrator'
+import { UsageContext } from './UsageService'
+import { Outfit } from './WardrobeService'
+import { referenceRankingService, RankedReference } from './ReferenceRankingService'
 
 export interface ReferenceImage {
   id: string
@@ -17,6 +20,9 @@ export interface ReferenceImage {
   qualityScore?: number
   consistencyScore?: number
   filename?: string
+  outfitId?: string
+  relevanceScore?: number // 0-100 from the reference ranking pipeline
+  reasons?: string[]
 }
 
 export interface GenerationConfig {
@@ -25,6 +31,7 @@ export interface GenerationConfig {
   consistencyThreshold: number
   style: string
   tags: string
+  outfit?: Outfit | null // Wardrobe outfit to dress the character in
 }
 
 export interface SmartGenerationResult {
@@ -63,7 +70,8 @@ export class SmartImageGenerationService {
     prompt: string,
     character: any,
     config: GenerationConfig,
-    payload: any
+    payload: any,
+    usage: UsageContext = { operation: 'smart-image', characterId }
   ): Promise<SmartGenerationResult> {
     
     const attempts: Array<{
@@ -76,25 +84,26 @@ export class SmartImageGenerationService {
     const failureReasons: string[] = []
 
     try {
-      // Step 1: Analyze prompt and extract reference images
-      const referenceImages = this.extractReferenceImages(character)
-      if (referenceImages.length === 0) {
+      // Step 1: Rank the character's reference images by relevance to the prompt
+      const { analysis, ranked, profile } = await referenceRankingService.rankForCharacter(character, prompt, {
+        payload,
+        includeMaster: true,
+        filters: { requireDinoAsset: true },
+        outfitId: config.outfit?.outfitId, // Images already in the outfit keep the costume consistent
+      })
+      if (ranked.length === 0) {
         return {
           success: false,
           error: 'No reference images available for generation',
         }
       }
 
-      // Step 2: Analyze prompt to understand desired image characteristics
-      const promptAnalysis = this.analyzePrompt(prompt)
-      console.log('Prompt analysis:', promptAnalysis)
-
-      // Step 3: Rank reference images by relevance to prompt
-      const rankedReferences = this.rankReferencesByPrompt(referenceImages, promptAnalysis)
+      console.log(`Prompt analysis: ${analysis.sceneType}/${analysis.emotionalTone} (weights: ${profile?.name || 'defaults'})`)
+      const rankedReferences = ranked.map((ref) => this.toReferenceImage(ref))
       console.log(`Ranked ${rankedReferences.length} reference images by relevance`)
 
       // Step 4: Get master reference for consistency validation
-      const masterReference = referenceImages.find(ref => ref.type === 'master')
+      const masterReference = rankedReferences.find(ref => ref.type === 'master')
       if (!masterReference) {
         return {
           success: false,
@@ -102,23 +111,29 @@ export class SmartImageGenerationService {
         }
       }
 
+      const generationPrompt = config.outfit
+        ? `${prompt}, wearing ${config.outfit.name}: ${config.outfit.description}`
+        : prompt
+
       // Step 5: Try generation with different references until success
       for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
         console.log(`\n--- Attempt ${attempt}/${config.maxRetries} ---`)
         
         // Select reference for this attempt
         const selectedReference = this.selectReferenceForAttempt(rankedReferences, attempt)
-        console.log(`Using reference: ${selectedReference.type} (${selectedReference.shotType || 'unknown shot'})`)
+        console.log(`Using reference: ${selectedReference.type} (${selectedReference.shotType || 'unknown shot'}) - ${selectedReference.reasons?.join('; ') || 'no specific match'}`)
 
         try {
           // Generate image with selected reference
-          const generationResult = await imageGenerationService.generateImage(prompt, {
+          const generationResult = await imageGenerationService.generateImage(generationPrompt, {
             referenceImageAssetId: selectedReference.dinoAssetId,
+            additionalReferenceIds: config.outfit?.referenceAssetIds.slice(0, 2), // Costume references
             style: config.style as any,
             width: 768,
             height: 1024,
             steps: 30,
             guidance: 7.5,
+            usage: { ...usage, attempt },
           })
 
           if (!generationResult.success || !generationResult.imageBuffer) {
@@ -180,7 +195,8 @@ export class SmartImageGenerationService {
               qualityScore,
               consistencyScore,
               validationResult.validationNotes,
-              payload
+              payload,
+              config.outfit?.outfitId
             )
 
             // Get public URL - priority: DINOv3 URL, original PayloadCMS URL, fallback
@@ -255,158 +271,24 @@ export class SmartImageGenerationService {
   }
 
   /**
-   * Extract and organize reference images from character data
+   * Reference image for generation from a ranked candidate
    */
-  private extractReferenceImages(character: any): ReferenceImage[] {
-    const references: ReferenceImage[] = []
-
-    // Add master reference
-    if (character.masterReferenceImage?.dinoAssetId) {
-      references.push({
-        id: character.masterReferenceImage.id,
-        dinoAssetId: character.masterReferenceImage.dinoAssetId,
-        type: 'master',
-        shotType: 'master_reference',
-        qualityScore: character.masterReferenceImage.qualityScore,
-        consistencyScore: character.masterReferenceImage.consistencyScore,
-        filename: character.masterReferenceImage.filename,
-      })
-    }
-
-    // Add gallery images
-    if (character.imageGallery) {
-      for (const item of character.imageGallery) {
-        if (item.imageFile?.dinoAssetId) {
-          references.push({
-            id: item.imageFile.id,
-            dinoAssetId: item.imageFile.dinoAssetId,
-            type: item.isCoreReference ? 'core_reference' : 'generated',
-            shotType: item.shotType,
-            tags: item.tags,
-            qualityScore: item.qualityScore,
-            consistencyScore: item.consistencyScore,
-            filename: item.imageFile.filename,
-          })
-        }
-      }
-    }
-
-    return references
-  }
-
-  /**
-   * Analyze prompt to understand desired image characteristics
-   */
-  private analyzePrompt(prompt: string): {
-    shotType: string
-    mood: string
-    setting: string
-    pose: string
-    angle: string
-    keywords: string[]
-  } {
-    const lowerPrompt = prompt.toLowerCase()
-    const keywords = lowerPrompt.split(/\s+/)
-
-    // Analyze shot type
-    let shotType = 'medium'
-    if (keywords.some(k => ['close-up', 'closeup', 'portrait', 'headshot', 'face'].includes(k))) {
-      shotType = 'close_up'
-    } else if (keywords.some(k => ['full', 'body', 'standing', 'whole'].includes(k))) {
-      shotType = 'full_body'
-    } else if (keywords.some(k => ['wide', 'environment', 'scene', 'landscape'].includes(k))) {
-      shotType = 'wide'
-    }
-
-    // Analyze angle/pose
-    let angle = 'front'
-    if (keywords.some(k => ['side', 'profile', 'left', 'right'].includes(k))) {
-      angle = 'side'
-    } else if (keywords.some(k => ['back', 'behind', 'rear'].includes(k))) {
-      angle = 'back'
-    } else if (keywords.some(k => ['45', 'angle', 'three-quarter'].includes(k))) {
-      angle = '45_degree'
-    }
-
-    // Analyze mood
-    let mood = 'neutral'
-    if (keywords.some(k => ['action', 'fighting', 'running', 'dynamic'].includes(k))) {
-      mood = 'action'
-    } else if (keywords.some(k => ['calm', 'peaceful', 'serene', 'relaxed'].includes(k))) {
-      mood = 'calm'
-    } else if (keywords.some(k => ['dramatic', 'intense', 'serious'].includes(k))) {
-      mood = 'dramatic'
-    }
-
-    // Analyze setting
-    let setting = 'neutral'
-    if (keywords.some(k => ['outdoor', 'forest', 'mountain', 'field', 'nature'].includes(k))) {
-      setting = 'outdoor'
-    } else if (keywords.some(k => ['indoor', 'room', 'house', 'building'].includes(k))) {
-      setting = 'indoor'
-    } else if (keywords.some(k => ['studio', 'background', 'plain'].includes(k))) {
-      setting = 'studio'
-    }
-
+  private toReferenceImage(ref: RankedReference): ReferenceImage {
     return {
-      shotType,
-      mood,
-      setting,
-      pose: angle,
-      angle,
-      keywords,
+      id: ref.mediaId,
+      dinoAssetId: ref.dinoAssetId!,
+      type: ref.source,
+      shotType: ref.shotType,
+      tags: ref.tags,
+      qualityScore: ref.qualityScore,
+      consistencyScore: ref.consistencyScore,
+      filename: ref.source === 'master' ? ref.item.filename : ref.item.imageFile?.filename,
+      outfitId: ref.outfitId,
+      relevanceScore: ref.score,
+      reasons: ref.reasons,
     }
   }
 
-  /**
-   * Rank reference images by relevance to the prompt
-   */
-  private rankReferencesByPrompt(
-    references: ReferenceImage[],
-    promptAnalysis: any
-  ): ReferenceImage[] {
-    return references
-      .map(ref => ({
-        ...ref,
-        relevanceScore: this.calculateRelevanceScore(ref, promptAnalysis),
-      }))
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-  }
-
-  /**
-   * Calculate relevance score for a reference image based on prompt analysis
-   */
-  private calculateRelevanceScore(ref: ReferenceImage, analysis: any): number {
-    let score = 0
-
-    // Base scores by type
-    if (ref.type === 'master') score += 10 // Always valuable
-    if (ref.type === 'core_reference') score += 8 // High quality references
-    if (ref.type === 'generated') score += 5 // Previous generations
-
-    // Quality bonuses
-    if (ref.qualityScore && ref.qualityScore > 80) score += 5
-    if (ref.consistencyScore && ref.consistencyScore > 85) score += 5
-
-    // Shot type matching
-    if (ref.shotType) {
-      const shotType = ref.shotType.toLowerCase()
-      if (shotType.includes(analysis.shotType)) score += 15
-      if (shotType.includes(analysis.angle)) score += 10
-      if (shotType.includes(analysis.pose)) score += 8
-    }
-
-    // Tags matching
-    if (ref.tags) {
-      const tags = ref.tags.toLowerCase()
-      for (const keyword of analysis.keywords) {
-        if (tags.includes(keyword)) score += 3
-      }
-    }
-
-    return score
-  }
-
   /**
    * Select reference image for a specific attempt
    */
@@ -508,7 +390,8 @@ export class SmartImageGenerationService {
     qualityScore: number,
     consistencyScore: number,
     validationNotes: string | undefined,
-    payload: any
+    payload: any,
+    outfitId?: string
   ): Promise<void> {
     const galleryItem = {
       imageFile: imageId,
@@ -520,6 +403,7 @@ export class SmartImageGenerationService {
       shotType: 'smart_generated',
       tags: `${tags}, smart generation`,
       generationPrompt: prompt,
+      outfitId,
     }
 
     const updatedImageGallery = [...(character.imageGallery || []), galleryItem]
@@ -0,0 +1,130 @@
+/**
+ * Style Preset Service
+ *
+ * Looks up the style preset a project has pinned and turns it into prompt
+ * fragments and generation settings for ImageGenerationService.
+ */
+
+import { BUILT_IN_STYLE_SETTINGS, DEFAULT_STYLE_SETTINGS, StyleSettings } from '../lib/config/style-presets'
+
+const PRESETS_COLLECTION = 'style-presets'
+
+export interface StylePreset {
+  id: string
+  name: string
+  slug: string
+  positivePrompt?: string | null
+  negativePrompt?: string | null
+  lighting?: string | null
+  colorPalette?: string | null
+  filmStock?: string | null
+  steps?: number | null
+  guidance?: number | null
+  strength?: number | null
+}
+
+export interface PinConflict {
+  projectId: string
+  presetId: string
+  presetName: string
+}
+
+export class StylePresetService {
+  /**
+   * Preset pinned as the default for a project, or null for the built-in look
+   * Lookup failures are logged and never block generation.
+   */
+  async getProjectPreset(payload: any, projectId?: string | null): Promise<StylePreset | null> {
+    if (!projectId) return null
+
+    try {
+      const result = await payload.find({
+        collection: PRESETS_COLLECTION,
+        where: {
+          and: [{ projectIds: { equals: projectId } }, { isActive: { equals: true } }],
+        },
+        limit: 1,
+        depth: 0,
+      })
+      const preset = result.docs[0]
+      return preset ? toStylePreset(preset) : null
+    } catch (error) {
+      console.warn(`Could not load style preset for project ${projectId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Projects in the list that another preset already pins
+   */
+  async findPinnedElsewhere(payload: any, projectIds: string[], presetId?: string | number): Promise<PinConflict[]> {
+    if (projectIds.length === 0) return []
+
+    const where: any = { projectIds: { in: projectIds } }
+    if (presetId !== undefined) {
+      where.id = { not_equals: presetId }
+    }
+
+    const result = await payload.find({ collection: PRESETS_COLLECTION, where, limit: 100, depth: 0 })
+
+    const conflicts: PinConflict[] = []
+    for (const preset of result.docs) {
+      for (const projectId of preset.projectIds || []) {
+        if (projectIds.includes(projectId)) {
+          conflicts.push({ projectId, presetId: String(preset.id), presetName: preset.name })
+        }
+      }
+    }
+    return conflicts
+  }
+
+  /**
+   * Append the preset's look to a prompt
+   */
+  applyToPrompt(prompt: string, preset?: StylePreset | null): string {
+    if (!preset) return prompt
+
+    const fragments = [
+      preset.positivePrompt,
+      preset.lighting && `Lighting: ${preset.lighting}`,
+      preset.colorPalette && `Color palette: ${preset.colorPalette}`,
+      preset.filmStock && `Film stock look: ${preset.filmStock}`,
+    ]
+      .map((fragment) => fragment?.trim())
+      .filter(Boolean)
+
+    if (fragments.length === 0) return prompt
+    return `${prompt.trim().replace(/[.\s]*$/, '')}. ${fragments.join('. ')}.`
+  }
+
+  /**
+   * Steps, guidance and strength for a style; preset values override the style defaults
+   */
+  getSettings(style?: string, preset?: StylePreset | null): StyleSettings {
+    const defaults = (style && BUILT_IN_STYLE_SETTINGS[style]) || DEFAULT_STYLE_SETTINGS
+    return {
+      steps: preset?.steps ?? defaults.steps,
+      guidance: preset?.guidance ?? defaults.guidance,
+      strength: preset?.strength ?? defaults.strength,
+    }
+  }
+}
+
+function toStylePreset(doc: any): StylePreset {
+  return {
+    id: String(doc.id),
+    name: doc.name,
+    slug: doc.slug,
+    positivePrompt: doc.positivePrompt,
+    negativePrompt: doc.negativePrompt,
+    lighting: doc.lighting,
+    colorPalette: doc.colorPalette,
+    filmStock: doc.filmStock,
+    steps: doc.steps,
+    guidance: doc.guidance,
+    strength: doc.strength,
+  }
+}
+
+// Export singleton instance
+export const stylePresetService = new StylePresetService()
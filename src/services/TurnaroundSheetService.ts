@@ -0,0 +1,353 @@
+/**
+ * Turnaround Sheet Service
+ *
+ * Picks the front, three-quarter, profile and back images of a character's
+ * 360° core set and composes them with sharp into a labelled model sheet:
+ * character name, height scale lines and the shot metadata of every panel.
+ */
+
+import sharp from 'sharp'
+import { appearanceEraService } from './AppearanceEraService'
+
+export type TurnaroundViewName = 'front' | 'three_quarter' | 'profile' | 'back'
+
+export interface TurnaroundPanel {
+  view: TurnaroundViewName
+  label: string
+  mediaId: string
+  imageUrl: string | null
+  azimuthDeg: number
+  shotName?: string
+  lensMm?: number
+  crop?: string
+  elevationDeg?: number
+  qualityScore?: number
+}
+
+export interface TurnaroundSelection {
+  panels: TurnaroundPanel[]
+  missingViews: TurnaroundViewName[]
+}
+
+export interface TurnaroundSheetResult {
+  mediaId: string
+  url?: string
+  panels: TurnaroundPanel[]
+  missingViews: TurnaroundViewName[]
+  width: number
+  height: number
+}
+
+// Absolute camera azimuth of each view; either side of the character qualifies
+const VIEWS: Array<{ view: TurnaroundViewName; label: string; azimuthDeg: number }> = [
+  { view: 'front', label: 'Front', azimuthDeg: 0 },
+  { view: 'three_quarter', label: 'Three-Quarter', azimuthDeg: 45 },
+  { view: 'profile', label: 'Profile', azimuthDeg: 90 },
+  { view: 'back', label: 'Back', azimuthDeg: 180 },
+]
+
+// Largest azimuth difference still accepted for a view
+const AZIMUTH_TOLERANCE_DEG = 22.5
+
+// Full-figure framing first, so the height scale lines up with the body
+const CROP_PREFERENCE = ['full', '3q', 'mcu', 'cu']
+
+const PANEL_WIDTH = 600
+const PANEL_HEIGHT = 900
+const HEADER_HEIGHT = 110
+const CAPTION_HEIGHT = 90
+const SCALE_WIDTH = 90
+const HEAD_UNITS = 8
+
+export class TurnaroundSheetService {
+  /**
+   * Best core reference image for each view, using the reference shot's camera azimuth
+   */
+  selectPanels(character: any, options: { eraId?: string | null; baseUrl?: string } = {}): TurnaroundSelection {
+    const era = options.eraId ? appearanceEraService.findEra(character, options.eraId) : null
+    const best = new Map<TurnaroundViewName, { panel: TurnaroundPanel; rank: number }>()
+
+    for (const item of character.imageGallery || []) {
+      if (!item.isCoreReference || !item.imageFile) continue
+      if (!appearanceEraService.isInEra(item, era)) continue
+
+      const shot = typeof item.referenceShot === 'object' ? item.referenceShot : null
+      const azimuth = shot?.cameraAzimuthDeg ?? item.cameraAzimuthDeg
+      if (typeof azimuth !== 'number') continue
+
+      const match = this.matchView(azimuth)
+      if (!match) continue
+
+      const crop = item.crop || shot?.crop
+      const cropIndex = CROP_PREFERENCE.indexOf(crop)
+      // Framing first, then the closest azimuth, then quality
+      const rank =
+        (cropIndex === -1 ? CROP_PREFERENCE.length : cropIndex) * 100000 +
+        match.difference * 1000 -
+        (item.qualityScore || 0)
+
+      const current = best.get(match.view.view)
+      if (current && current.rank <= rank) continue
+
+      const media = typeof item.imageFile === 'object' ? item.imageFile : null
+      best.set(match.view.view, {
+        rank,
+        panel: {
+          view: match.view.view,
+          label: match.view.label,
+          mediaId: String(media ? media.id : item.imageFile),
+          imageUrl: media?.url ? this.resolveUrl(media.url, options.baseUrl) : null,
+          azimuthDeg: azimuth,
+          shotName: shot?.shotName,
+          lensMm: item.lens ?? shot?.lensMm,
+          crop,
+          elevationDeg: shot?.cameraElevationDeg ?? item.cameraElevationDeg,
+          qualityScore: item.qualityScore,
+        },
+      })
+    }
+
+    return {
+      panels: VIEWS.filter((view) => best.has(view.view)).map((view) => best.get(view.view)!.panel),
+      missingViews: VIEWS.filter((view) => !best.has(view.view)).map((view) => view.view),
+    }
+  }
+
+  /**
+   * Compose the panels into a PNG model sheet
+   */
+  async composeSheet(
+    character: { name: string; height?: string | null },
+    panels: Array<TurnaroundPanel & { image: Buffer }>,
+    subtitle?: string
+  ): Promise<{ buffer: Buffer; width: number; height: number }> {
+    const width = SCALE_WIDTH + panels.length * PANEL_WIDTH
+    const height = HEADER_HEIGHT + PANEL_HEIGHT + CAPTION_HEIGHT
+
+    const images = await Promise.all(
+      panels.map(async (panel, index) => ({
+        input: await sharp(panel.image)
+          .rotate()
+          .resize(PANEL_WIDTH, PANEL_HEIGHT, { fit: 'contain', background: '#ffffff' })
+          .flatten({ background: '#ffffff' })
+          .png()
+          .toBuffer(),
+        left: SCALE_WIDTH + index * PANEL_WIDTH,
+        top: HEADER_HEIGHT,
+      }))
+    )
+
+    const overlay = Buffer.from(this.buildOverlaySvg(character, panels, width, height, subtitle))
+
+    const buffer = await sharp({
+      create: { width, height, channels: 3, background: '#ffffff' },
+    })
+      .composite([...images, { input: overlay, left: 0, top: 0 }])
+      .png()
+      .toBuffer()
+
+    return { buffer, width, height }
+  }
+
+  /**
+   * Select, download and compose the panels, then store the sheet as media linked to the character
+   */
+  async createSheet(
+    payload: any,
+    character: any,
+    options: { eraId?: string | null; baseUrl?: string } = {}
+  ): Promise<TurnaroundSheetResult> {
+    const era = options.eraId ? appearanceEraService.findEra(character, options.eraId) : null
+    const selection = this.selectPanels(character, options)
+
+    const loaded: Array<TurnaroundPanel & { image: Buffer }> = []
+    for (const panel of selection.panels) {
+      const image = await this.loadImage(payload, panel, options.baseUrl)
+      if (image) {
+        loaded.push({ ...panel, image })
+      } else {
+        selection.missingViews.push(panel.view)
+      }
+    }
+
+    if (loaded.length === 0) {
+      throw new Error('No core reference images with camera azimuth could be loaded')
+    }
+
+    const sheet = await this.composeSheet(character, loaded, era?.name)
+    const slug = String(character.characterId || character.id).replace(/[^a-zA-Z0-9_-]/g, '_')
+
+    const media = await payload.create({
+      collection: 'media',
+      data: {
+        alt: `${character.name} turnaround sheet${era ? ` (${era.name})` : ''}`,
+      },
+      file: {
+        data: sheet.buffer,
+        mimetype: 'image/png',
+        name: `${slug}_turnaround${era ? `_${era.eraId}` : ''}_${Date.now()}.png`,
+        size: sheet.buffer.length,
+      },
+      // A composite sheet is not a character reference for DINOv3
+      context: { skipDinoProcessing: true },
+    })
+
+    const panels = loaded.map(({ image: _image, ...panel }) => panel)
+    const current = await payload.findByID({ collection: 'characters', id: character.id, depth: 0 })
+    await payload.update({
+      collection: 'characters',
+      id: character.id,
+      data: {
+        turnaroundSheets: [
+          ...(current?.turnaroundSheets || []),
+          {
+            image: media.id,
+            eraId: era?.eraId,
+            views: panels.map((panel) => panel.view).join(', '),
+            createdAt: new Date().toISOString(),
+          },
+        ],
+      },
+    })
+
+    return {
+      mediaId: String(media.id),
+      url: media.url,
+      panels,
+      missingViews: selection.missingViews,
+      width: sheet.width,
+      height: sheet.height,
+    }
+  }
+
+  /**
+   * Character height in centimeters, from values like "178 cm", "1.78m" or 5'10"
+   */
+  parseHeightCm(height?: string | null): number | null {
+    if (!height) return null
+    const text = height.toLowerCase().trim()
+
+    const metric = text.match(/^(\d+(?:\.\d+)?)\s*(cm|m)\b/)
+    if (metric) {
+      const value = parseFloat(metric[1])
+      return Math.round(metric[2] === 'm' ? value * 100 : value)
+    }
+
+    const imperial = text.match(/^(\d+)\s*(?:'|ft|feet|foot)\s*(?:(\d+(?:\.\d+)?)\s*(?:"|''|in|inches)?)?/)
+    if (imperial) {
+      const inches = parseInt(imperial[1], 10) * 12 + (imperial[2] ? parseFloat(imperial[2]) : 0)
+      return Math.round(inches * 2.54)
+    }
+
+    return null
+  }
+
+  private matchView(azimuthDeg: number): { view: (typeof VIEWS)[number]; difference: number } | null {
+    // Normalize to 0-180; the sheet does not care which side the camera is on
+    const normalized = Math.abs((((azimuthDeg + 180) % 360) + 360) % 360 - 180)
+
+    let closest: { view: (typeof VIEWS)[number]; difference: number } | null = null
+    for (const view of VIEWS) {
+      const difference = Math.abs(normalized - view.azimuthDeg)
+      if (difference <= AZIMUTH_TOLERANCE_DEG && (!closest || difference < closest.difference)) {
+        closest = { view, difference }
+      }
+    }
+    return closest
+  }
+
+  private buildOverlaySvg(
+    character: { name: string; height?: string | null },
+    panels: TurnaroundPanel[],
+    width: number,
+    height: number,
+    subtitle?: string
+  ): string {
+    const heightCm = this.parseHeightCm(character.height)
+    const top = HEADER_HEIGHT
+    const bottom = HEADER_HEIGHT + PANEL_HEIGHT
+    const parts: string[] = []
+
+    const title = subtitle ? `${character.name} — ${subtitle}` : character.name
+    parts.push(`<text x="${SCALE_WIDTH}" y="52" font-size="40" font-weight="bold">${escapeXml(title)}</text>`)
+    parts.push(
+      `<text x="${SCALE_WIDTH}" y="88" font-size="20" fill="#555555">${escapeXml(
+        `Turnaround sheet${character.height ? ` · Height ${character.height}` : ''} · Scale assumes full-figure framing`
+      )}</text>`
+    )
+
+    // Height scale: one line per head unit, labelled in centimeters when the height is known
+    for (let unit = 0; unit <= HEAD_UNITS; unit++) {
+      const y = bottom - (PANEL_HEIGHT * unit) / HEAD_UNITS
+      const label = heightCm ? `${Math.round((heightCm * unit) / HEAD_UNITS)} cm` : `${unit}`
+      parts.push(
+        `<line x1="${SCALE_WIDTH - 12}" y1="${y}" x2="${width}" y2="${y}" stroke="#3b82f6" stroke-opacity="0.35" stroke-width="1" stroke-dasharray="6 6"/>`
+      )
+      parts.push(
+        `<text x="${SCALE_WIDTH - 18}" y="${y + 6}" font-size="16" text-anchor="end" fill="#3b82f6">${label}</text>`
+      )
+    }
+    if (!heightCm) {
+      parts.push(`<text x="10" y="${top - 8}" font-size="14" fill="#3b82f6">heads</text>`)
+    }
+
+    panels.forEach((panel, index) => {
+      const x = SCALE_WIDTH + index * PANEL_WIDTH
+      const metadata = [
+        `${Math.round(panel.azimuthDeg)}° azimuth`,
+        panel.elevationDeg != null && `${Math.round(panel.elevationDeg)}° elevation`,
+        panel.lensMm && `${panel.lensMm}mm`,
+        panel.crop && `${panel.crop} crop`,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+
+      parts.push(`<rect x="${x}" y="${top}" width="${PANEL_WIDTH}" height="${PANEL_HEIGHT}" fill="none" stroke="#cccccc"/>`)
+      parts.push(`<text x="${x + 16}" y="${bottom + 34}" font-size="24" font-weight="bold">${escapeXml(panel.label)}</text>`)
+      parts.push(
+        `<text x="${x + 16}" y="${bottom + 62}" font-size="16" fill="#555555">${escapeXml(
+          [panel.shotName, metadata].filter(Boolean).join(' — ')
+        )}</text>`
+      )
+    })
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif">${parts.join('')}</svg>`
+  }
+
+  private async loadImage(payload: any, panel: TurnaroundPanel, baseUrl?: string): Promise<Buffer | null> {
+    try {
+      let url = panel.imageUrl
+      if (!url) {
+        const media = await payload.findByID({ collection: 'media', id: panel.mediaId, depth: 0 })
+        url = media?.url ? this.resolveUrl(media.url, baseUrl) : null
+      }
+      if (!url) {
+        throw new Error('Media has no URL')
+      }
+
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    } catch (error) {
+      console.warn(`Could not load ${panel.view} turnaround image ${panel.mediaId}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  private resolveUrl(url: string, baseUrl?: string): string {
+    return /^https?:\/\//.test(url) || !baseUrl ? url : new URL(url, baseUrl).toString()
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Export singleton instance
+export const turnaroundSheetService = new TurnaroundSheetService()
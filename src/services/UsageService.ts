@@ -0,0 +1,365 @@
+/**
+ * Usage Service
+ *
+ * Records every image generation call in the generation-usage ledger with its
+ * estimated cost, checks per-project budgets before costly work is started and
+ * builds usage reports grouped by project and character. Budget checks also
+ * count the outstanding shots of queued and running jobs, which are not in the
+ * ledger yet.
+ */
+
+import { IMAGE_PROVIDER_CONFIG, ImageProviderName } from '../lib/config/image-providers'
+import { USAGE_CONFIG, BudgetExceededAction, BudgetPeriod } from '../lib/config/usage'
+
+const USAGE_COLLECTION = 'generation-usage'
+const BUDGETS_COLLECTION = 'project-budgets'
+const JOBS_COLLECTION = 'image-generation-jobs'
+
+// Jobs whose remaining shots are already committed against the budget
+const COMMITTED_JOB_STATUSES = ['pending', 'processing']
+
+export type GenerationMode = 'text-to-image' | 'image-to-image'
+
+/**
+ * Who a generation call is made for; passed through GenerationOptions.usage
+ */
+export interface UsageContext {
+  operation: string
+  characterId?: string | null
+  projectId?: string | null
+  jobId?: string | null
+  attempt?: number
+}
+
+export interface UsageEntry extends UsageContext {
+  provider: string
+  model: string
+  mode?: GenerationMode
+  steps?: number
+  width?: number
+  height?: number
+  status: 'succeeded' | 'failed'
+  estimatedCost: number
+  durationMs?: number
+  error?: string
+}
+
+export interface ProjectBudget {
+  projectId: string
+  limit: number
+  period: BudgetPeriod
+  whenExceeded: BudgetExceededAction
+}
+
+export interface BudgetCheck {
+  action: 'allow' | BudgetExceededAction
+  projectId: string | null
+  budget: ProjectBudget | null
+  // Ledger spend in the budget period plus committed
+  spent: number
+  // Estimated cost of shots queued and running jobs have yet to generate
+  committed: number
+  estimatedCost: number
+  // null when the project has no budget
+  remaining: number | null
+}
+
+export interface UsageTotals {
+  calls: number
+  images: number
+  failedCalls: number
+  estimatedCost: number
+}
+
+export interface CharacterUsage extends UsageTotals {
+  characterId: string | null
+}
+
+export interface ProjectUsage extends UsageTotals {
+  projectId: string | null
+  characters: CharacterUsage[]
+  budget: (ProjectBudget & { spent: number; remaining: number }) | null
+}
+
+export interface UsageReport {
+  currency: string
+  from: string | null
+  to: string | null
+  totals: UsageTotals
+  projects: ProjectUsage[]
+}
+
+export interface UsageReportOptions {
+  // null means every project
+  projectIds?: string[] | null
+  from?: Date
+  to?: Date
+}
+
+export class UsageService {
+  /**
+   * Estimated cost of one image from a model
+   */
+  getImageCost(model: string): number {
+    return USAGE_CONFIG.modelCosts[model] ?? USAGE_CONFIG.defaultImageCost
+  }
+
+  /**
+   * Model a provider uses for a generation mode
+   */
+  getModel(provider: ImageProviderName, mode: GenerationMode): string {
+    if (provider === 'local') {
+      return 'local/placeholder-v1'
+    }
+    return mode === 'image-to-image'
+      ? IMAGE_PROVIDER_CONFIG.fal.imageToImageModel
+      : IMAGE_PROVIDER_CONFIG.fal.textToImageModel
+  }
+
+  /**
+   * Estimated cost of generating a number of images with the configured provider
+   */
+  estimateCost(
+    imageCount: number,
+    mode: GenerationMode = 'image-to-image',
+    provider: ImageProviderName = IMAGE_PROVIDER_CONFIG.provider
+  ): number {
+    return roundCost(imageCount * this.getImageCost(this.getModel(provider, mode)))
+  }
+
+  /**
+   * Write a ledger entry; failures are logged and never break generation
+   */
+  async recordUsage(payload: any, entry: UsageEntry): Promise<void> {
+    if (!USAGE_CONFIG.enabled) {
+      return
+    }
+
+    try {
+      const projectId = entry.projectId !== undefined
+        ? entry.projectId
+        : await this.getCharacterProjectId(payload, entry.characterId)
+
+      await payload.create({
+        collection: USAGE_COLLECTION,
+        data: {
+          ...entry,
+          projectId: projectId || undefined,
+          characterId: entry.characterId || undefined,
+          jobId: entry.jobId || undefined,
+          attempt: entry.attempt || 1,
+          estimatedCost: roundCost(entry.estimatedCost),
+        },
+      })
+    } catch (error) {
+      console.warn('Failed to record generation usage:', error)
+    }
+  }
+
+  /**
+   * Get the budget configured for a project, if any
+   */
+  async getBudget(payload: any, projectId: string): Promise<ProjectBudget | null> {
+    const result = await payload.find({
+      collection: BUDGETS_COLLECTION,
+      where: { projectId: { equals: projectId } },
+      limit: 1,
+      depth: 0,
+    })
+    const budget = result.docs[0]
+    if (!budget) return null
+
+    return {
+      projectId: budget.projectId,
+      limit: budget.limit,
+      period: budget.period || 'total',
+      whenExceeded: budget.whenExceeded || 'refuse',
+    }
+  }
+
+  /**
+   * Estimated spend of a project in the current budget period
+   */
+  async getSpent(payload: any, projectId: string, period: BudgetPeriod = 'total', now: Date = new Date()): Promise<number> {
+    const match: Record<string, any> = { projectId }
+    if (period === 'monthly') {
+      match.createdAt = { $gte: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)) }
+    }
+
+    const [result] = await this.getCollectionModel(payload, USAGE_COLLECTION).aggregate([
+      { $match: match },
+      { $group: { _id: null, total: { $sum: '$estimatedCost' } } },
+    ])
+
+    return roundCost(result?.total || 0)
+  }
+
+  /**
+   * Estimated cost of the shots a project's queued and running jobs have yet to generate
+   */
+  async getCommitted(payload: any, projectId: string): Promise<number> {
+    const [result] = await this.getCollectionModel(payload, JOBS_COLLECTION).aggregate([
+      { $match: { projectId, status: { $in: COMMITTED_JOB_STATUSES } } },
+      {
+        $group: {
+          _id: null,
+          shots: {
+            $sum: {
+              $max: [0, { $subtract: [{ $ifNull: ['$progress.total', 0] }, { $ifNull: ['$progress.current', 0] }] }],
+            },
+          },
+        },
+      },
+    ])
+
+    return this.estimateCost(result?.shots || 0)
+  }
+
+  /**
+   * Check whether work with an estimated cost fits in the project's budget
+   * Projects without a budget (and characters without a project) are always allowed.
+   */
+  async checkBudget(payload: any, projectId: string | null | undefined, estimatedCost: number): Promise<BudgetCheck> {
+    const allow: BudgetCheck = {
+      action: 'allow',
+      projectId: projectId || null,
+      budget: null,
+      spent: 0,
+      committed: 0,
+      estimatedCost,
+      remaining: null,
+    }
+    if (!projectId) return allow
+
+    const budget = await this.getBudget(payload, projectId)
+    if (!budget) return allow
+
+    const committed = await this.getCommitted(payload, projectId)
+    const spent = roundCost((await this.getSpent(payload, projectId, budget.period)) + committed)
+    const remaining = roundCost(Math.max(0, budget.limit - spent))
+
+    return {
+      action: spent + estimatedCost > budget.limit ? budget.whenExceeded : 'allow',
+      projectId,
+      budget,
+      spent,
+      committed,
+      estimatedCost,
+      remaining,
+    }
+  }
+
+  /**
+   * Usage grouped by project and character, with each project's budget
+   */
+  async getReport(payload: any, options: UsageReportOptions = {}): Promise<UsageReport> {
+    const match: Record<string, any> = {}
+    if (options.projectIds) {
+      match.projectId = { $in: options.projectIds }
+    }
+    if (options.from || options.to) {
+      match.createdAt = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lte: options.to }),
+      }
+    }
+
+    const rows: Array<{ _id: { projectId?: string; characterId?: string } } & UsageTotals> =
+      await this.getCollectionModel(payload, USAGE_COLLECTION).aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { projectId: '$projectId', characterId: '$characterId' },
+            calls: { $sum: 1 },
+            images: { $sum: { $cond: [{ $eq: ['$status', 'succeeded'] }, 1, 0] } },
+            failedCalls: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+            estimatedCost: { $sum: '$estimatedCost' },
+          },
+        },
+      ])
+
+    const projects = new Map<string | null, ProjectUsage>()
+    for (const row of rows) {
+      const projectId = row._id.projectId || null
+      let project = projects.get(projectId)
+      if (!project) {
+        project = { projectId, ...emptyTotals(), characters: [], budget: null }
+        projects.set(projectId, project)
+      }
+
+      const totals = pickTotals(row)
+      addTotals(project, totals)
+      project.characters.push({ characterId: row._id.characterId || null, ...totals })
+    }
+
+    const totals = emptyTotals()
+    for (const project of projects.values()) {
+      addTotals(totals, project)
+      project.characters.sort((a, b) => b.estimatedCost - a.estimatedCost)
+
+      if (project.projectId) {
+        const budget = await this.getBudget(payload, project.projectId)
+        if (budget) {
+          const spent = await this.getSpent(payload, project.projectId, budget.period)
+          project.budget = { ...budget, spent, remaining: roundCost(Math.max(0, budget.limit - spent)) }
+        }
+      }
+    }
+
+    return {
+      currency: USAGE_CONFIG.currency,
+      from: options.from?.toISOString() || null,
+      to: options.to?.toISOString() || null,
+      totals,
+      projects: Array.from(projects.values()).sort((a, b) => b.estimatedCost - a.estimatedCost),
+    }
+  }
+
+  private async getCharacterProjectId(payload: any, characterId?: string | null): Promise<string | null> {
+    if (!characterId) return null
+    try {
+      const character = await payload.findByID({ collection: 'characters', id: characterId, depth: 0 })
+      return character?.novelMovieIntegration?.projectId || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Get the underlying Mongoose model of a collection for aggregations
+   */
+  private getCollectionModel(payload: any, collection: string) {
+    const model = payload.db?.collections?.[collection]
+    if (!model) {
+      throw new Error(`Usage reports require the MongoDB adapter (collection ${collection} not found)`)
+    }
+    return model
+  }
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, images: 0, failedCalls: 0, estimatedCost: 0 }
+}
+
+function pickTotals(row: UsageTotals): UsageTotals {
+  return {
+    calls: row.calls,
+    images: row.images,
+    failedCalls: row.failedCalls,
+    estimatedCost: roundCost(row.estimatedCost),
+  }
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.calls += source.calls
+  target.images += source.images
+  target.failedCalls += source.failedCalls
+  target.estimatedCost = roundCost(target.estimatedCost + source.estimatedCost)
+}
+
+// Export singleton instance
+export const usageService = new UsageService()
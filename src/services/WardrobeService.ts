@@ -0,0 +1,121 @@
+/**
+ * Wardrobe Service
+ *
+ * Reads the outfits in a character's wardrobe, picks the outfit for a request
+ * (explicit outfitId, or the outfit worn in a scene) and describes it for prompts.
+ */
+
+export interface OutfitSceneRange {
+  fromScene: number
+  toScene?: number | null // Open-ended when empty
+}
+
+export interface Outfit {
+  outfitId: string
+  name: string
+  description: string
+  // Media IDs and DINO asset IDs of the outfit's reference images
+  referenceImageIds: string[]
+  referenceAssetIds: string[]
+  sceneRanges: OutfitSceneRange[]
+}
+
+/**
+ * Outfit summary passed to prompt builders as characterData.outfit
+ */
+export interface PromptOutfit {
+  outfitId: string
+  name: string
+  description: string
+}
+
+export class WardrobeService {
+  /**
+   * All outfits of a character; reference images are read from populated media when available
+   */
+  getOutfits(character: any): Outfit[] {
+    return (character?.wardrobe || [])
+      .filter((item: any) => item?.outfitId)
+      .map((item: any) => {
+        const media = (item.referenceImages || []).filter(Boolean)
+        return {
+          outfitId: item.outfitId,
+          name: item.name || item.outfitId,
+          description: item.description || '',
+          referenceImageIds: media.map((image: any) => String(typeof image === 'object' ? image.id : image)),
+          referenceAssetIds: media
+            .map((image: any) => (typeof image === 'object' ? image.dinoAssetId : null))
+            .filter(Boolean),
+          sceneRanges: (item.sceneRanges || [])
+            .filter((range: any) => typeof range?.fromScene === 'number')
+            .map((range: any) => ({ fromScene: range.fromScene, toScene: range.toScene ?? null })),
+        }
+      })
+  }
+
+  findOutfit(character: any, outfitId: string): Outfit | null {
+    return this.getOutfits(character).find((outfit) => outfit.outfitId === outfitId) || null
+  }
+
+  /**
+   * Outfit whose scene ranges include a scene number
+   */
+  getOutfitForScene(character: any, sceneNumber: number): Outfit | null {
+    return (
+      this.getOutfits(character).find((outfit) =>
+        outfit.sceneRanges.some(
+          (range) => sceneNumber >= range.fromScene && (range.toScene == null || sceneNumber <= range.toScene)
+        )
+      ) || null
+    )
+  }
+
+  /**
+   * Outfit for a generation request: an explicit outfitId wins over the scene number.
+   * Returns undefined when an explicit outfitId is not in the wardrobe, and null
+   * when no outfit applies (the character's usual clothing is used).
+   */
+  selectOutfit(
+    character: any,
+    request: { outfitId?: string | null; sceneNumber?: number | null }
+  ): Outfit | null | undefined {
+    if (request.outfitId) {
+      return this.findOutfit(character, request.outfitId) || undefined
+    }
+    if (typeof request.sceneNumber === 'number') {
+      return this.getOutfitForScene(character, request.sceneNumber)
+    }
+    return null
+  }
+
+  toPromptOutfit(outfit: Outfit | null | undefined): PromptOutfit | null {
+    if (!outfit) return null
+    return { outfitId: outfit.outfitId, name: outfit.name, description: outfit.description }
+  }
+
+  /**
+   * Validate wardrobe rows: unique outfit IDs and sensible scene ranges
+   */
+  validateWardrobe(wardrobe: any[] | null | undefined): true | string {
+    const seen = new Set<string>()
+
+    for (const item of wardrobe || []) {
+      if (!item?.outfitId) continue
+      if (seen.has(item.outfitId)) {
+        return `Outfit ID "${item.outfitId}" is used more than once`
+      }
+      seen.add(item.outfitId)
+
+      for (const range of item.sceneRanges || []) {
+        if (range?.toScene != null && range.fromScene != null && range.toScene < range.fromScene) {
+          return `Outfit "${item.outfitId}" has a scene range that ends before it starts`
+        }
+      }
+    }
+
+    return true
+  }
+}
+
+// Export singleton instance
+export const wardrobeService = new WardrobeService()
@@ -0,0 +1,447 @@
+/**
+ * Webhook Service
+ *
+ * Delivers signed job state change events (progress, completion, failure) to the
+ * callbackUrl registered on an image generation job. Deliveries are retried with
+ * exponential backoff and the latest attempts are recorded on the job document so
+ * failed deliveries can be inspected and replayed. Progress events are throttled
+ * per job and sent without retries, since the next event supersedes them.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+import { v4 as uuidv4 } from 'uuid'
+import { WEBHOOK_CONFIG, WebhookEvent } from '../lib/config/webhooks'
+
+const JOBS_COLLECTION = 'image-generation-jobs'
+
+export interface WebhookSettings {
+  callbackUrl: string
+  secret?: string
+}
+
+export interface WebhookEventBody {
+  id: string
+  event: WebhookEvent
+  createdAt: string
+  data: {
+    jobId: string
+    characterId: string
+    jobType: string
+    status: string
+    progress?: {
+      current: number
+      total: number
+      percentage: number
+      currentTask?: string
+    }
+    results?: any
+    error?: string
+  }
+}
+
+export interface WebhookDeliveryRecord {
+  deliveryId: string
+  event: WebhookEvent
+  attempt: number
+  success: boolean
+  statusCode?: number
+  error?: string
+  durationMs: number
+  attemptedAt: string
+  replayOf?: string
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number)
+    return (
+      a === 0 || // "this" network
+      a === 10 ||
+      a === 127 || // loopback
+      (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+      (a === 169 && b === 254) || // link-local, cloud metadata
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224 // multicast and reserved
+    )
+  }
+
+  if (isIP(ip) === 6) {
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPrivateAddress(mapped[1])
+    return (
+      ip === '::' ||
+      ip === '::1' ||
+      /^f[cd]/.test(ip) || // unique local
+      /^fe[89ab]/.test(ip) || // link-local
+      /^ff/.test(ip) // multicast
+    )
+  }
+
+  return false
+}
+
+export class WebhookService {
+  // Last job.progress delivery per job, for throttling
+  private progressDeliveries: Map<string, { sentAt: number; inFlight: boolean }> = new Map()
+
+  /**
+   * Validate a callback URL supplied by a caller
+   * Returns an error message, or null if the URL is acceptable
+   */
+  validateCallbackUrl(callbackUrl: unknown): string | null {
+    if (typeof callbackUrl !== 'string' || callbackUrl.length === 0) {
+      return 'callbackUrl must be a non-empty string'
+    }
+
+    let url: URL
+    try {
+      url = new URL(callbackUrl)
+    } catch {
+      return 'callbackUrl must be a valid URL'
+    }
+
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && WEBHOOK_CONFIG.allowHttp)) {
+      return WEBHOOK_CONFIG.allowHttp ? 'callbackUrl must use http or https' : 'callbackUrl must use https'
+    }
+
+    if (url.username || url.password) {
+      return 'callbackUrl must not contain credentials'
+    }
+
+    return this.checkHost(url.hostname)
+  }
+
+  /**
+   * Check a callback host against the allowlist and the private network rules
+   * Returns an error message, or null if the host is acceptable
+   */
+  private checkHost(hostname: string): string | null {
+    const host = hostname.toLowerCase().replace(/\.$/, '')
+    const allowed = WEBHOOK_CONFIG.allowedHosts
+
+    if (allowed.length > 0 && !allowed.some((entry) => host === entry || host.endsWith(`.${entry}`))) {
+      return `callbackUrl host ${host} is not in the webhook allowlist`
+    }
+
+    if (
+      !WEBHOOK_CONFIG.allowPrivateHosts &&
+      (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host))
+    ) {
+      return 'callbackUrl must not point to a loopback, link-local or private address'
+    }
+
+    return null
+  }
+
+  /**
+   * Resolve the callback host right before delivery, so names that point at
+   * private addresses (or were re-pointed after validation) are refused
+   */
+  private async checkDeliveryTarget(callbackUrl: string): Promise<string | null> {
+    const error = this.validateCallbackUrl(callbackUrl)
+    if (error || WEBHOOK_CONFIG.allowPrivateHosts) {
+      return error
+    }
+
+    const hostname = new URL(callbackUrl).hostname.replace(/^\[|\]$/g, '')
+    if (isIP(hostname)) {
+      return null
+    }
+
+    const addresses = await lookup(hostname, { all: true })
+    return addresses.some(({ address }) => isPrivateAddress(address))
+      ? `callbackUrl host ${hostname} resolves to a private address`
+      : null
+  }
+
+  /**
+   * Map a job status to the webhook event it triggers
+   */
+  eventForStatus(status: string): WebhookEvent | null {
+    switch (status) {
+      case 'processing':
+        return 'job.progress'
+      case 'completed':
+        return 'job.completed'
+      case 'failed':
+        return 'job.failed'
+      case 'cancelled':
+        return 'job.cancelled'
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Sign a webhook body: HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  signPayload(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    return `t=${timestamp},v1=${signature}`
+  }
+
+  /**
+   * Verify a signature header produced by signPayload (for receivers and tests)
+   */
+  verifySignature(body: string, header: string, secret: string, toleranceSeconds: number = 300): boolean {
+    const parts = Object.fromEntries(
+      header.split(',').map((part) => {
+        const [key, ...rest] = part.split('=')
+        return [key.trim(), rest.join('=')]
+      }),
+    )
+
+    const timestamp = parseInt(parts.t || '')
+    if (isNaN(timestamp) || !parts.v1) {
+      return false
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+      return false
+    }
+
+    const expected = this.signPayload(body, secret, timestamp).split('v1=')[1]
+    const expectedBuffer = Buffer.from(expected, 'hex')
+    const actualBuffer = Buffer.from(parts.v1, 'hex')
+
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+  }
+
+  /**
+   * Build the event body for a job document
+   */
+  buildEvent(job: any, event: WebhookEvent): WebhookEventBody {
+    const data: WebhookEventBody['data'] = {
+      jobId: job.jobId,
+      characterId: job.characterId,
+      jobType: job.jobType,
+      status: job.status,
+    }
+
+    if (job.progress) {
+      data.progress = {
+        current: job.progress.current || 0,
+        total: job.progress.total || 0,
+        percentage: job.progress.percentage || 0,
+        currentTask: job.progress.currentTask || undefined,
+      }
+    }
+
+    if (event === 'job.completed' && job.results) {
+      data.results = job.results
+    }
+
+    if ((event === 'job.failed' || event === 'job.cancelled') && job.error) {
+      data.error = job.error
+    }
+
+    return {
+      id: uuidv4(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    }
+  }
+
+  /**
+   * Dispatch an event for a job if it has a callback registered
+   * Resolves once the delivery succeeded or all attempts were used.
+   */
+  async dispatch(
+    payload: any,
+    job: any,
+    event: WebhookEvent,
+    options: {
+      replay?: boolean // Sent on request, so never throttled
+      replayOf?: string
+      maxAttempts?: number
+    } = {},
+  ): Promise<WebhookDeliveryRecord | null> {
+    const settings: WebhookSettings | undefined = job?.webhook?.callbackUrl ? job.webhook : undefined
+    if (!settings) {
+      return null
+    }
+
+    const body = this.buildEvent(job, event)
+
+    if (event !== 'job.progress' || options.replay) {
+      if (event !== 'job.progress') {
+        this.progressDeliveries.delete(job.jobId)
+      }
+      return this.deliverWithRetries(payload, job.jobId, settings, body, options.replayOf, options.maxAttempts)
+    }
+
+    // Skip progress while one is in flight or was sent within the interval
+    const last = this.progressDeliveries.get(job.jobId)
+    if (last && (last.inFlight || Date.now() - last.sentAt < WEBHOOK_CONFIG.progressIntervalMs)) {
+      return null
+    }
+
+    const state = { sentAt: Date.now(), inFlight: true }
+    this.progressDeliveries.set(job.jobId, state)
+    try {
+      return await this.deliverWithRetries(payload, job.jobId, settings, body, undefined, 1)
+    } finally {
+      state.inFlight = false
+    }
+  }
+
+  /**
+   * Deliver an event, retrying with exponential backoff
+   */
+  private async deliverWithRetries(
+    payload: any,
+    jobId: string,
+    settings: WebhookSettings,
+    body: WebhookEventBody,
+    replayOf?: string,
+    maxAttempts: number = WEBHOOK_CONFIG.maxAttempts,
+  ): Promise<WebhookDeliveryRecord> {
+    const serialized = JSON.stringify(body)
+    let record: WebhookDeliveryRecord | null = null
+
+    // Refused targets are recorded once and never retried
+    const blocked = await this.checkDeliveryTarget(settings.callbackUrl).catch(
+      (error) => `callbackUrl host could not be resolved: ${error instanceof Error ? error.message : error}`
+    )
+    if (blocked) {
+      record = {
+        deliveryId: body.id,
+        event: body.event,
+        attempt: 1,
+        success: false,
+        error: blocked,
+        durationMs: 0,
+        attemptedAt: new Date().toISOString(),
+        ...(replayOf && { replayOf }),
+      }
+      await this.recordDelivery(payload, jobId, record)
+      console.warn(`Webhook ${body.event} for job ${jobId} not delivered: ${blocked}`)
+      return record
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      record = await this.attemptDelivery(settings, body, serialized, attempt)
+      if (replayOf) {
+        record.replayOf = replayOf
+      }
+
+      await this.recordDelivery(payload, jobId, record)
+
+      if (record.success) {
+        return record
+      }
+
+      // Client errors other than timeouts/rate limits will not succeed on retry
+      if (record.statusCode && record.statusCode >= 400 && record.statusCode < 500 &&
+          record.statusCode !== 408 && record.statusCode !== 429) {
+        break
+      }
+
+      if (attempt < maxAttempts) {
+        const delay = WEBHOOK_CONFIG.initialBackoffMs * Math.pow(2, attempt - 1)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+
+    console.warn(`Webhook ${body.event} for job ${jobId} could not be delivered to ${settings.callbackUrl}`)
+    return record!
+  }
+
+  /**
+   * Perform a single HTTP delivery attempt
+   */
+  private async attemptDelivery(
+    settings: WebhookSettings,
+    body: WebhookEventBody,
+    serialized: string,
+    attempt: number,
+  ): Promise<WebhookDeliveryRecord> {
+    const startTime = Date.now()
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': WEBHOOK_CONFIG.userAgent,
+      [WEBHOOK_CONFIG.eventHeader]: body.event,
+      [WEBHOOK_CONFIG.deliveryHeader]: body.id,
+    }
+
+    if (settings.secret) {
+      headers[WEBHOOK_CONFIG.signatureHeader] = this.signPayload(serialized, settings.secret)
+    }
+
+    const record: WebhookDeliveryRecord = {
+      deliveryId: body.id,
+      event: body.event,
+      attempt,
+      success: false,
+      durationMs: 0,
+      attemptedAt: new Date().toISOString(),
+    }
+
+    try {
+      // Redirects are not followed; they could lead to an address the checks above refuse
+      const response = await fetch(settings.callbackUrl, {
+        method: 'POST',
+        headers,
+        body: serialized,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(WEBHOOK_CONFIG.timeoutMs),
+      })
+
+      record.statusCode = response.status
+      record.success = response.ok
+      if (!response.ok) {
+        record.error = `HTTP ${response.status} ${response.statusText}`
+      }
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : 'Unknown delivery error'
+    }
+
+    record.durationMs = Date.now() - startTime
+    return record
+  }
+
+  /**
+   * Append a delivery attempt to the job document, keeping the latest maxRecordedDeliveries
+   */
+  private async recordDelivery(payload: any, jobId: string, record: WebhookDeliveryRecord): Promise<void> {
+    try {
+      const model = payload.db?.collections?.[JOBS_COLLECTION]
+      if (!model) {
+        throw new Error(`Collection ${JOBS_COLLECTION} not available`)
+      }
+
+      // Atomic append so concurrent deliveries for the same job don't overwrite each other
+      await model.updateOne(
+        { jobId },
+        {
+          $push: {
+            webhookDeliveries: {
+              $each: [
+                {
+                  id: randomBytes(12).toString('hex'),
+                  ...record,
+                  attemptedAt: new Date(record.attemptedAt),
+                },
+              ],
+              $slice: -WEBHOOK_CONFIG.maxRecordedDeliveries,
+            },
+          },
+        },
+      )
+    } catch (error) {
+      console.error(`Failed to record webhook delivery for job ${jobId}:`, error)
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookService = new WebhookService()
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import { NextResponse } from 'next/server'
+import { ApiKeyService } from '@/services/ApiKeyService'
+import { ApiKeys } from '@/collections/ApiKeys'
+import {
+  authorizeCharacter,
+  authorizeProjectChange,
+  getPrincipal,
+  hasScope,
+  requireRole,
+  scopedAccess,
+  scopedCreateAccess,
+  withProjectScope,
+} from '@/lib/utils/api-auth'
+
+function createPayloadStub(keyDoc: any, options: { authUser?: any; characters?: Record<string, any> } = {}) {
+  const updates: any[] = []
+  return {
+    updates,
+    find: async ({ where }: { where: any }) => ({
+      docs: where.prefix?.equals === keyDoc?.prefix ? [keyDoc] : [],
+    }),
+    findByID: async ({ collection, id }: { collection: string; id: string }) => {
+      if (collection === 'users') return { id, email: 'writer@example.com' }
+      const character = options.characters?.[id]
+      if (!character) throw new Error('Not found')
+      return character
+    },
+    update: async ({ data }: { data: any }) => {
+      updates.push(data)
+      return { ...keyDoc, ...data }
+    },
+    auth: async () => ({ user: options.authUser || null }),
+  }
+}
+
+function keyUser(scopes: string[], projectIds: string[] = [], role: string = 'admin') {
+  return { id: 'user-1', role, apiKey: { id: 'key-1', prefix: 'clk_00000000', scopes, projectIds } }
+}
+
+describe('ApiKeyService', () => {
+  const service = new ApiKeyService()
+
+  it('verifies a key by prefix and hash, and rejects tampered, revoked and expired keys', async () => {
+    const generated = service.generateKey()
+    expect(generated.key.startsWith(`${generated.prefix}_`)).toBe(true)
+
+    const keyDoc: any = {
+      id: 'key-1',
+      prefix: generated.prefix,
+      keyHash: generated.keyHash,
+      user: 'user-1',
+      scopes: ['characters:read'],
+      projectIds: ['project-a'],
+    }
+    const payload = createPayloadStub(keyDoc)
+
+    const verified = await service.verifyKey(payload, generated.key)
+    expect(verified?.user.id).toBe('user-1')
+    expect(verified?.grant).toEqual({
+      id: 'key-1',
+      prefix: generated.prefix,
+      scopes: ['characters:read'],
+      projectIds: ['project-a'],
+    })
+    expect(payload.updates[0].lastUsedAt).toBeDefined()
+
+    expect(await service.verifyKey(payload, `${generated.key}x`)).toBeNull()
+    expect(await service.verifyKey(payload, 'not-a-key')).toBeNull()
+
+    keyDoc.lastUsedAt = new Date().toISOString()
+    keyDoc.revokedAt = new Date().toISOString()
+    expect(await service.verifyKey(payload, generated.key)).toBeNull()
+
+    delete keyDoc.revokedAt
+    keyDoc.expiresAt = new Date(Date.now() - 1000).toISOString()
+    expect(await service.verifyKey(payload, generated.key)).toBeNull()
+  })
+
+  it('reads keys from X-API-Key and Bearer headers', () => {
+    expect(service.extractKey(new Headers({ 'X-API-Key': 'clk_abcdef12_secret' }))).toBe('clk_abcdef12_secret')
+    expect(service.extractKey(new Headers({ Authorization: 'Bearer clk_abcdef12_secret' }))).toBe('clk_abcdef12_secret')
+    // Session JWTs are left to Payload's own strategy
+    expect(service.extractKey(new Headers({ Authorization: 'Bearer eyJhbGciOi' }))).toBeNull()
+  })
+})
+
+describe('API authorization helpers', () => {
+  it('limits project-restricted keys in collection access and route queries', () => {
+    const principal = getPrincipal(keyUser(['characters:read', 'characters:write'], ['project-a']))!
+    const read = scopedAccess('characters:read', 'novelMovieIntegration.projectId')
+    const remove = scopedAccess('characters:delete', 'novelMovieIntegration.projectId')
+    const create = scopedCreateAccess('characters:write', 'novelMovieIntegration.projectId')
+    const req = { user: keyUser(['characters:read', 'characters:write'], ['project-a']) } as any
+
+    expect(read({ req } as any)).toEqual({ 'novelMovieIntegration.projectId': { in: ['project-a'] } })
+    expect(remove({ req } as any)).toBe(false)
+    expect(create({ req, data: { novelMovieIntegration: { projectId: 'project-a' } } } as any)).toBe(true)
+    expect(create({ req, data: { novelMovieIntegration: { projectId: 'project-b' } } } as any)).toBe(false)
+    expect(create({ req, data: {} } as any)).toBe(false)
+
+    expect(withProjectScope(principal, { name: { contains: 'Leo' } })).toEqual({
+      and: [
+        { name: { contains: 'Leo' } },
+        { 'novelMovieIntegration.projectId': { in: ['project-a'] } },
+      ],
+    })
+
+    // Admin sessions are unrestricted
+    expect(read({ req: { user: { id: 'admin', role: 'admin' } } } as any)).toBe(true)
+  })
+
+  it('answers 401, 403 or the character for route requests', async () => {
+    const characters = {
+      'char-a': { id: 'char-a', novelMovieIntegration: { projectId: 'project-a' } },
+      'char-b': { id: 'char-b', novelMovieIntegration: { projectId: 'project-b' } },
+    }
+    const request = new Request('http://localhost/api/v1/characters/char-a')
+
+    const anonymous = await authorizeCharacter(request, createPayloadStub(null, { characters }), 'char-a', 'characters:read')
+    expect(anonymous instanceof NextResponse && anonymous.status).toBe(401)
+
+    const payload = createPayloadStub(null, { characters, authUser: keyUser(['characters:read'], ['project-a']) })
+
+    const allowed = await authorizeCharacter(request, payload, 'char-a', 'characters:read')
+    expect(allowed instanceof NextResponse).toBe(false)
+    expect((allowed as any).character.id).toBe('char-a')
+
+    const otherProject = await authorizeCharacter(request, payload, 'char-b', 'characters:read')
+    expect(otherProject instanceof NextResponse && otherProject.status).toBe(403)
+
+    const missingScope = await authorizeCharacter(request, payload, 'char-a', 'images:generate')
+    expect(missingScope instanceof NextResponse && missingScope.status).toBe(403)
+  })
+
+  it('refuses updates that move a character out of the key\'s projects', () => {
+    const principal = getPrincipal(keyUser(['characters:write'], ['project-a', 'project-c']))!
+
+    expect(authorizeProjectChange(principal, { name: 'Leo' })).toBeNull()
+    expect(authorizeProjectChange(principal, { novelMovieIntegration: { syncStatus: 'synced' } })).toBeNull()
+    expect(authorizeProjectChange(principal, { novelMovieIntegration: { projectId: 'project-c' } })).toBeNull()
+    expect(authorizeProjectChange(principal, { novelMovieIntegration: { projectId: 'project-b' } })?.status).toBe(403)
+    expect(authorizeProjectChange(principal, { novelMovieIntegration: { projectId: null } })?.status).toBe(403)
+    expect(authorizeProjectChange(principal, { novelMovieIntegration: null })?.status).toBe(403)
+
+    // Unrestricted keys may move characters anywhere
+    expect(authorizeProjectChange(getPrincipal(keyUser(['characters:write']))!, { novelMovieIntegration: { projectId: 'project-b' } })).toBeNull()
+  })
+})
+
+describe('User roles', () => {
+  it('gives signed-in users the scopes of their role', () => {
+    const update = scopedAccess('characters:write')
+    const generate = scopedAccess('images:generate')
+
+    expect(update({ req: { user: { id: 'u1', role: 'viewer' } } } as any)).toBe(false)
+    expect(update({ req: { user: { id: 'u2', role: 'writer' } } } as any)).toBe(true)
+    expect(generate({ req: { user: { id: 'u2', role: 'writer' } } } as any)).toBe(false)
+    expect(generate({ req: { user: { id: 'u3', role: 'art-director' } } } as any)).toBe(true)
+
+    // Users from before roles existed fall back to viewer
+    const legacy = getPrincipal({ id: 'u4' })!
+    expect(legacy.role).toBe('viewer')
+    expect(hasScope(legacy, 'characters:read')).toBe(true)
+    expect(hasScope(legacy, 'characters:delete')).toBe(false)
+  })
+
+  it('caps API keys at their owner\'s role and gates costly actions by role', () => {
+    const principal = getPrincipal(keyUser(['characters:write', 'images:generate', 'admin:seed'], [], 'writer'))!
+    expect(principal.scopes).toEqual(['characters:write'])
+
+    expect(requireRole(principal, 'art-director', 'Bulk character operations')?.status).toBe(403)
+    expect(requireRole(getPrincipal({ id: 'a', role: 'admin' })!, 'admin', 'delete_entity')).toBeNull()
+  })
+
+  it('never lets non-admins move a key to another user', () => {
+    const beforeChange = ApiKeys.hooks!.beforeChange![0] as any
+    const userField = ApiKeys.fields.find((field: any) => field.name === 'user') as any
+    const originalDoc = { id: 'key-1', user: 'viewer-1', name: 'Scripts' }
+    const update = (user: any) =>
+      beforeChange({ data: { name: 'Scripts', user: 'admin-1' }, operation: 'update', originalDoc, req: { user, context: {} } })
+
+    expect(update({ id: 'viewer-1', role: 'viewer' }).user).toBe('viewer-1')
+    expect(update({ id: 'viewer-1', role: 'viewer', apiKey: { scopes: ['characters:read'], projectIds: [] } }).user).toBe('viewer-1')
+    expect(update({ id: 'root', role: 'admin' }).user).toBe('admin-1')
+
+    expect(userField.access.update({ req: { user: { id: 'viewer-1', role: 'viewer' } } })).toBe(false)
+    expect(userField.access.update({ req: { user: { id: 'root', role: 'admin' } } })).toBe(true)
+  })
+})
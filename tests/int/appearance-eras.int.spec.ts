@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { AppearanceEraService } from '@/services/AppearanceEraService'
+import { ReferenceSearchService } from '@/services/ReferenceSearchService'
+
+const shot = { shotName: 'Front', lensMm: 50, angle: 'front', crop: 'cu', mode: 'Conversation', pack: 'core' }
+
+const character = {
+  id: 'char-1',
+  name: 'Ava',
+  age: 30,
+  physicalDescription: 'Slim, dark curly hair',
+  eras: [
+    {
+      eraId: 'child',
+      name: 'Child',
+      age: 8,
+      toYear: 1962,
+      physicalDescriptionDelta: 'gap-toothed, hair in braids',
+      masterReferenceImage: { id: 'm-child', dinoAssetId: 'asset-child' },
+    },
+    { eraId: 'elderly', name: 'Elderly', age: 75, fromYear: 2030, physicalDescriptionDelta: 'silver hair' },
+  ],
+  imageGallery: [
+    { imageFile: 'base-1', isCoreReference: true, referenceShot: shot },
+    { imageFile: 'child-1', isCoreReference: true, referenceShot: shot, eraId: 'child' },
+    { imageFile: 'elderly-1', isCoreReference: true, referenceShot: shot, eraId: 'elderly' },
+  ],
+}
+
+describe('AppearanceEraService', () => {
+  const service = new AppearanceEraService()
+
+  it('resolves eras by ID or story year', () => {
+    expect(service.selectEra(character, { storyYear: 1960 })?.eraId).toBe('child')
+    expect(service.selectEra(character, { storyYear: 2045 })?.eraId).toBe('elderly')
+    expect(service.selectEra(character, { storyYear: 1990 })).toBeNull()
+    expect(service.selectEra(character, { eraId: 'elderly', storyYear: 1960 })?.eraId).toBe('elderly')
+    expect(service.selectEra(character, { eraId: 'teen' })).toBeUndefined()
+  })
+
+  it('reads the master reference asset from populated media', () => {
+    expect(service.findEra(character, 'child')).toMatchObject({
+      masterReferenceImageId: 'm-child',
+      masterReferenceAssetId: 'asset-child',
+    })
+    expect(service.findEra(character, 'elderly')?.masterReferenceAssetId).toBeNull()
+  })
+
+  it('applies the era age and appearance changes to prompt data', () => {
+    const data = service.applyToCharacterData(
+      { name: 'Ava', age: 30, physicalDescription: 'Slim, dark curly hair' },
+      service.findEra(character, 'elderly')
+    )
+    expect(data).toMatchObject({
+      age: 75,
+      physicalDescription: 'Slim, dark curly hair. silver hair',
+      era: { eraId: 'elderly', name: 'Elderly' },
+    })
+  })
+
+  it('rejects duplicate IDs and overlapping story years', () => {
+    expect(service.validateEras(character.eras)).toBe(true)
+    expect(service.validateEras([{ eraId: 'a' }, { eraId: 'a' }])).toContain('"a" is used more than once')
+    expect(service.validateEras([{ eraId: 'a', fromYear: 1990, toYear: 1980 }])).toContain('ends before it starts')
+    expect(service.validateEras([{ eraId: 'a', toYear: 1980 }, { eraId: 'b', fromYear: 1975 }])).toBe(
+      'Eras "a" and "b" cover the same story years'
+    )
+  })
+})
+
+describe('ReferenceSearchService with eras', () => {
+  const service = new ReferenceSearchService()
+  const payload = { findByID: async () => character }
+
+  it('searches only the core set of the requested era', async () => {
+    const child = await service.findBestReference('char-1', 'close up portrait', payload, { storyYear: 1955 })
+    expect(child.era).toEqual({ eraId: 'child', name: 'Child' })
+    expect(child.bestMatch?.imageId).toBe('child-1')
+    expect(child.alternatives).toHaveLength(0)
+
+    const base = await service.findBestReference('char-1', 'close up portrait', payload)
+    expect(base.era).toBeNull()
+    expect(base.bestMatch?.imageId).toBe('base-1')
+  })
+
+  it('fails for an era the character does not have', async () => {
+    const result = await service.findBestReference('char-1', 'portrait', payload, { eraId: 'teen' })
+    expect(result).toEqual({ success: false, error: 'Era "teen" is not defined for this character' })
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach, beforeAll } from 'vitest'
+import { BatchSceneGenerationService, BatchSceneRequest } from '@/services/BatchSceneGenerationService'
+import { imageGenerationService } from '@/services/ImageGenerationService'
+import { stylePresetService } from '@/services/StylePresetService'
+import { BATCH_SCENE_CONFIG } from '@/lib/config/batch-scenes'
+
+const REQUEST: BatchSceneRequest = {
+  projectId: 'project-a',
+  scenes: [
+    { sceneId: 'scene-1', characters: ['ava', 'bob'], sceneDescription: 'Diner at night', requiredShots: ['close-up', 'medium'], sceneType: 'dialogue' },
+    { sceneId: 'scene-2', characters: ['ava'], sceneDescription: 'Parking lot', requiredShots: ['full body'] },
+    { sceneId: 'scene-3', characters: ['ava', 'ghost'], sceneDescription: 'Boiler room', requiredShots: ['close-up'] },
+  ],
+}
+
+function createPayload() {
+  const characters: Record<string, any> = {
+    ava: { id: 'ava', name: 'Ava', masterReferenceImage: { dinoAssetId: 'ava-master' }, imageGallery: [], sceneContexts: [] },
+    bob: { id: 'bob', name: 'Bob', masterReferenceImage: { dinoAssetId: 'bob-master' }, imageGallery: [], sceneContexts: [] },
+  }
+  let mediaCount = 0
+  return {
+    characters,
+    payload: {
+      findByID: vi.fn(async ({ id }: any) => {
+        if (!characters[id]) throw new Error('Not Found')
+        return structuredClone(characters[id])
+      }),
+      create: vi.fn(async () => {
+        mediaCount++
+        return { id: `media-${mediaCount}`, url: `https://media.test/media-${mediaCount}.jpg` }
+      }),
+      update: vi.fn(async ({ id, data }: any) => {
+        Object.assign(characters[id], data)
+      }),
+    },
+  }
+}
+
+describe('BatchSceneGenerationService', () => {
+  const service = new BatchSceneGenerationService()
+
+  beforeAll(() => {
+    BATCH_SCENE_CONFIG.retryDelayMs = 0
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('validates the scenes of a batch', () => {
+    expect(service.validateScenes(REQUEST.scenes)).toBe(true)
+    expect(service.validateScenes([])).toContain('cannot be empty')
+    expect(service.validateScenes([REQUEST.scenes[1], REQUEST.scenes[1]])).toBe('Duplicate sceneId "scene-2"')
+    expect(service.validateScenes([{ ...REQUEST.scenes[1], requiredShots: [] }])).toContain('at least one required shot')
+    expect(service.countShots(REQUEST.scenes)).toBe(7)
+  })
+
+  it('generates one character at a time, retries failed shots and fills sceneContexts', async () => {
+    vi.spyOn(stylePresetService, 'getProjectPreset').mockResolvedValue(null)
+
+    const running = new Map<string, number>()
+    let overlap = false
+    let bobFailures = 1
+    vi.spyOn(imageGenerationService, 'generateImage').mockImplementation(async (_prompt, options) => {
+      const character = options!.usage!.characterId as string
+      running.set(character, (running.get(character) || 0) + 1)
+      if (running.get(character)! > 1) overlap = true
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      running.set(character, running.get(character)! - 1)
+
+      if (character === 'bob' && bobFailures-- > 0) return { success: false, error: 'Provider timeout' }
+      return { success: true, imageBuffer: Buffer.from('jpeg') }
+    })
+
+    const { payload, characters } = createPayload()
+    const progress: number[] = []
+    const result = await service.generateBatch(payload, REQUEST, { maxConcurrent: 3, maxRetries: 1 }, async (current) => {
+      progress.push(current)
+    })
+
+    expect(overlap).toBe(false)
+    expect(result.success).toBe(true)
+    expect(result.generatedShots).toHaveLength(6)
+    expect(result.failedShots).toEqual([expect.objectContaining({ sceneId: 'scene-3', characterId: 'ghost', error: 'Character not found' })])
+    expect(result.generatedShots.find((shot) => shot.characterId === 'bob')!.attempts).toBe(2)
+    expect(result.scenes.map((scene) => [scene.sceneId, scene.status, scene.generated, scene.failed])).toEqual([
+      ['scene-1', 'completed', 4, 0],
+      ['scene-2', 'completed', 1, 0],
+      ['scene-3', 'partial', 1, 1],
+    ])
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7])
+
+    // Shots of the same scene share one sceneContexts entry; no gallery update is lost
+    expect(characters.ava.imageGallery).toHaveLength(4)
+    const avaContexts = characters.ava.sceneContexts.map((context: any) => [context.sceneId, context.generatedImages.length])
+    expect(avaContexts.sort()).toEqual([['scene-1', 2], ['scene-2', 1], ['scene-3', 1]])
+    expect(characters.bob.sceneContexts).toEqual([
+      expect.objectContaining({ sceneId: 'scene-1', sceneType: 'dialogue', qualityScores: [{ score: 85 }, { score: 85 }] }),
+    ])
+  })
+
+  it('skips shots generated by an earlier run', async () => {
+    vi.spyOn(stylePresetService, 'getProjectPreset').mockResolvedValue(null)
+    const generate = vi.spyOn(imageGenerationService, 'generateImage').mockResolvedValue({ success: true, imageBuffer: Buffer.from('jpeg') })
+
+    const { payload } = createPayload()
+    const result = await service.generateBatch(payload, { ...REQUEST, scenes: REQUEST.scenes.slice(0, 2) }, {
+      completedShots: [
+        { sceneId: 'scene-1', characterId: 'ava', shotType: 'close-up', success: true, attempts: 1 },
+        { sceneId: 'scene-1', characterId: 'bob', shotType: 'close-up', success: true, attempts: 1 },
+      ],
+    })
+
+    expect(generate).toHaveBeenCalledTimes(3)
+    expect(result.skippedShots).toBe(2)
+    expect(result.scenes[0]).toMatchObject({ status: 'completed', generated: 4, total: 4 })
+  })
+
+  it('stops when the job is cancelled', async () => {
+    vi.spyOn(stylePresetService, 'getProjectPreset').mockResolvedValue(null)
+    const controller = new AbortController()
+    vi.spyOn(imageGenerationService, 'generateImage').mockImplementation(async () => {
+      controller.abort()
+      return { success: true, imageBuffer: Buffer.from('jpeg') }
+    })
+
+    const { payload } = createPayload()
+    const result = await service.generateBatch(payload, REQUEST, { maxConcurrent: 1, signal: controller.signal })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('cancelled')
+    expect(result.generatedShots).toHaveLength(1)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { CharacterBundleService, BundleFormatError } from '@/services/CharacterBundleService'
+import { dinoOrchestrator } from '@/services/DinoOrchestrator'
+
+const SOURCE_CHARACTER = {
+  id: '64b000000000000000000001',
+  characterId: 'leo',
+  name: 'Leo',
+  biography: 'Swordsman',
+  masterReferenceImage: '64b0000000000000000000a1',
+  imageGallery: [
+    {
+      id: 'row-1',
+      imageFile: '64b0000000000000000000a1',
+      referenceShot: '64b0000000000000000000s1',
+      dinoAssetId: 'dino-old-1',
+      isCoreReference: true,
+      shotType: 'front',
+    },
+  ],
+  enhancedRelationships: [
+    { id: 'row-2', characterId: '64b000000000000000000002', relationshipType: 'rival' },
+  ],
+  novelMovieIntegration: { projectId: 'project-a', syncStatus: 'synced', syncBase: { name: 'Leo' } },
+}
+
+function createSourcePayload() {
+  return {
+    findByID: async ({ collection, id }: { collection: string; id: string }) => {
+      if (collection === 'characters') return SOURCE_CHARACTER
+      if (collection === 'media') {
+        return { id, filename: 'leo.jpg', mimeType: 'image/jpeg', alt: 'Leo', url: '/api/media/file/leo.jpg', dinoAssetId: 'dino-old-1' }
+      }
+      return { id, slug: 'front_full_body', shotName: 'Front' }
+    },
+    find: async () => ({ docs: [{ id: '64b000000000000000000002', characterId: 'mia', name: 'Mia' }] }),
+  }
+}
+
+function createTargetPayload(existingCharacterIds: string[]) {
+  const created: Record<string, any[]> = { media: [], characters: [] }
+  return {
+    created,
+    find: async ({ collection, where }: any) => {
+      if (collection === 'characters' && where.characterId) {
+        const value = where.characterId.equals
+        if (value === 'mia') return { docs: [{ id: '64c000000000000000000009', characterId: 'mia' }] }
+        return { docs: existingCharacterIds.includes(value) ? [{ id: 'x' }] : [] }
+      }
+      if (collection === 'reference-shots') return { docs: [{ id: '64c0000000000000000000s9' }] }
+      return { docs: [] }
+    },
+    create: async ({ collection, data }: any) => {
+      const doc = { id: `64c0000000000000000000${collection === 'media' ? 'm' : 'c'}${created[collection].length}`, ...data }
+      created[collection].push(doc)
+      return doc
+    },
+    delete: async () => ({}),
+  }
+}
+
+describe('CharacterBundleService', () => {
+  const service = new CharacterBundleService()
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('round-trips a character, remapping ids and re-registering images with DINO', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array([1, 2, 3]))))
+    vi.spyOn(dinoOrchestrator, 'uploadAndExtract').mockResolvedValue({
+      dinoAssetId: 'dino-new-1',
+      dinoMediaUrl: 'https://dino/new',
+      features: [0.1],
+      status: 'processing',
+    })
+
+    const bundle = await service.exportCharacter(createSourcePayload(), SOURCE_CHARACTER.id, {
+      baseUrl: 'http://localhost:3000',
+    })
+    expect(bundle.media).toHaveLength(1)
+    expect(bundle.media[0].data).toBe(Buffer.from([1, 2, 3]).toString('base64'))
+    expect(bundle.images[0]).toMatchObject({ referenceShotSlug: 'front_full_body', dinoAssetId: 'dino-old-1' })
+    expect(bundle.relationships[0].relatedCharacter?.characterId).toBe('mia')
+
+    const decoded = service.decodeBundle(service.encodeBundle(bundle))
+    const target = createTargetPayload(['leo'])
+    const result = await service.importBundle(target, decoded, { projectId: 'project-b' })
+
+    const character = target.created.characters[0]
+    const mediaId = target.created.media[0].id
+    expect(result.idMap.characterId).toEqual({ from: 'leo', to: 'leo-2' })
+    expect(result.idMap.media).toEqual({ '64b0000000000000000000a1': mediaId })
+    expect(result.dinoRegistered).toBe(1)
+    expect(target.created.media[0].dinoAssetId).toBe('dino-new-1')
+    expect(character.masterReferenceImage).toBe(mediaId)
+    expect(character.imageGallery).toEqual([
+      {
+        imageFile: mediaId,
+        referenceShot: '64c0000000000000000000s9',
+        dinoAssetId: 'dino-new-1',
+        isCoreReference: true,
+        shotType: 'front',
+      },
+    ])
+    expect(character.enhancedRelationships).toEqual([
+      { characterId: '64c000000000000000000009', relationshipType: 'rival' },
+    ])
+    expect(character.novelMovieIntegration).toMatchObject({
+      projectId: 'project-b',
+      syncStatus: 'pending',
+      syncBase: null,
+    })
+    expect(character.id).toBe(result.idMap.character.to)
+  })
+
+  it('rejects data that is not a character bundle', () => {
+    expect(() => service.decodeBundle(Buffer.from('{"format":"other"}'))).toThrow(BundleFormatError)
+    expect(() => service.decodeBundle(Buffer.from('not json'))).toThrow(BundleFormatError)
+  })
+})
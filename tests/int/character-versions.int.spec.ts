@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import { CharacterVersionService } from '@/services/CharacterVersionService'
+
+function createPayloadStub(version: any, current: any = { id: 'char-1' }) {
+  const updates: any[] = []
+  return {
+    updates,
+    findByID: async () => current,
+    findVersionByID: async ({ id }: { id: string }) => {
+      if (id !== version.id) throw new Error('Not found')
+      return version
+    },
+    update: async ({ data }: { data: any }) => {
+      updates.push(data)
+      return { id: 'char-1', ...data }
+    },
+  }
+}
+
+describe('CharacterVersionService', () => {
+  const service = new CharacterVersionService()
+
+  it('diffs nested fields and matches array items by id', () => {
+    const from = {
+      id: 'char-1',
+      name: 'Leo',
+      biography: 'Old bio',
+      physicalDescription: { height: '180cm' },
+      skills: [
+        { id: 'a', skill: 'Fencing', proficiency: 'expert' },
+        { id: 'b', skill: 'Riding', proficiency: 'novice' },
+      ],
+      updatedAt: '2024-01-01',
+    }
+    const to = {
+      id: 'char-1',
+      name: 'Leo',
+      biography: 'New bio',
+      physicalDescription: { height: '180cm', eyeColor: 'green' },
+      skills: [
+        { id: 'b', skill: 'Riding', proficiency: 'novice' },
+        { id: 'c', skill: 'Archery', proficiency: 'beginner' },
+      ],
+      updatedAt: '2024-02-01',
+    }
+
+    const changes = service.diffDocuments(from, to)
+
+    expect(changes).toContainEqual({ path: 'biography', type: 'changed', from: 'Old bio', to: 'New bio' })
+    expect(changes).toContainEqual({ path: 'physicalDescription.eyeColor', type: 'added', to: 'green' })
+    expect(changes).toContainEqual({ path: 'skills[id=a]', type: 'removed', from: from.skills[0] })
+    expect(changes).toContainEqual({ path: 'skills[id=c]', type: 'added', to: to.skills[1] })
+    // Reordering alone and system fields are not reported
+    expect(changes.some((change) => change.path.startsWith('skills[id=b]'))).toBe(false)
+    expect(changes.some((change) => change.path === 'updatedAt')).toBe(false)
+  })
+
+  it('keeps the image gallery and master reference on restore by default', async () => {
+    const payload = createPayloadStub({
+      id: 'v1',
+      parent: 'char-1',
+      version: {
+        name: 'Leo',
+        biography: 'Old bio',
+        characterId: 'leo',
+        imageGallery: [{ id: 'g1', imageFile: 'media-1' }],
+        coreSetGenerated: true,
+        masterReferenceImage: 'media-0',
+        novelMovieIntegration: { projectId: 'other-project' },
+        updatedAt: '2024-01-01',
+      },
+    })
+
+    const result = await service.restoreVersion(payload, 'char-1', 'v1')
+
+    expect(result?.restoredFields).toEqual(['name', 'biography'])
+    expect(result?.preservedFields).toContain('novelMovieIntegration')
+    expect(payload.updates[0]).toEqual({ name: 'Leo', biography: 'Old bio' })
+  })
+
+  it('rolls back the gallery and master reference when asked to', async () => {
+    const payload = createPayloadStub({
+      id: 'v1',
+      parent: 'char-1',
+      version: {
+        name: 'Leo',
+        imageGallery: [{ id: 'g1', imageFile: 'media-1' }],
+        masterReferenceImage: 'media-0',
+      },
+    })
+
+    const result = await service.restoreVersion(payload, 'char-1', 'v1', {
+      restoreImageGallery: true,
+      restoreMasterReference: true,
+    })
+
+    // The project link is never restored
+    expect(result?.preservedFields).toEqual(['novelMovieIntegration'])
+    expect(payload.updates[0].imageGallery).toHaveLength(1)
+    expect(payload.updates[0].masterReferenceImage).toBe('media-0')
+  })
+
+  it('keeps the master reference of each era unless asked to roll it back', async () => {
+    const version = {
+      id: 'v1',
+      parent: 'char-1',
+      version: {
+        name: 'Leo',
+        eras: [
+          { eraId: 'child', name: 'Child', masterReferenceImage: 'media-old-child' },
+          { eraId: 'elderly', name: 'Elderly', masterReferenceImage: 'media-old-elderly' },
+        ],
+      },
+    }
+    const current = {
+      id: 'char-1',
+      eras: [{ eraId: 'child', name: 'Young', masterReferenceImage: 'media-child' }],
+    }
+
+    const payload = createPayloadStub(version, current)
+    const result = await service.restoreVersion(payload, 'char-1', 'v1')
+
+    expect(result?.preservedFields).toContain('eras.masterReferenceImage')
+    // Era details roll back, the live reference stays; a removed era returns with its own
+    expect(payload.updates[0].eras).toEqual([
+      { eraId: 'child', name: 'Child', masterReferenceImage: 'media-child' },
+      { eraId: 'elderly', name: 'Elderly', masterReferenceImage: 'media-old-elderly' },
+    ])
+
+    const rollback = createPayloadStub(version, current)
+    await service.restoreVersion(rollback, 'char-1', 'v1', { restoreMasterReference: true })
+    expect(rollback.updates[0].eras[0].masterReferenceImage).toBe('media-old-child')
+  })
+
+  it('rejects versions that belong to another character', async () => {
+    const payload = createPayloadStub({ id: 'v1', parent: 'char-2', version: { name: 'Mia' } })
+
+    expect(await service.restoreVersion(payload, 'char-1', 'v1')).toBeNull()
+    expect(payload.updates).toHaveLength(0)
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { CharacterDuplicateService, characterDuplicateService } from '@/services/CharacterDuplicateService'
+
+const created: any[] = []
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('payload')>()),
+  getPayload: async () => ({
+    create: async ({ data }: any) => {
+      created.push(data)
+      return { id: `char-${created.length}`, ...data }
+    },
+  }),
+}))
+vi.mock('@/lib/utils/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils/api-auth')>()),
+  authorizeProject: async () => ({ type: 'session' }),
+}))
+
+const AVA_FEATURES = [1, 0, 0, 0.2]
+const MEDIA: Record<string, any> = {
+  'm-ava': { id: 'm-ava', dinoFeatures: AVA_FEATURES },
+  'm-eve': { id: 'm-eve', dinoFeatures: [0.98, 0.05, 0, 0.21] }, // Same look, different name
+  'm-bob': { id: 'm-bob', dinoFeatures: [0, 1, 0.3, 0] },
+  'm-new': { id: 'm-new', dinoFeatures: [0.99, 0.02, 0, 0.2] },
+  'm-pending': { id: 'm-pending', dinoProcessingStatus: 'processing' },
+}
+
+const CHARACTERS = [
+  { id: 'ava', characterId: 'ava', name: 'Ava', masterReferenceImage: 'm-ava' },
+  { id: 'eve', characterId: 'eve', name: 'Eve', masterReferenceImage: 'm-eve' },
+  { id: 'bob', characterId: 'bob', name: 'Bob', masterReferenceImage: 'm-bob' },
+]
+
+function createPayload() {
+  return {
+    findByID: vi.fn(async ({ id }: any) => MEDIA[id]),
+    find: vi.fn(async ({ collection, where }: any) => {
+      if (collection === 'media') {
+        return { docs: where.id.in.map((id: string) => MEDIA[id]) }
+      }
+      return { docs: CHARACTERS }
+    }),
+  }
+}
+
+describe('CharacterDuplicateService', () => {
+  const service = new CharacterDuplicateService()
+
+  it('finds characters whose master reference features are close', () => {
+    const populated = CHARACTERS.map((character) => ({ ...character, masterReferenceImage: MEDIA[character.masterReferenceImage] }))
+
+    const matches = service.compare(AVA_FEATURES, populated, { excludeIds: ['ava'] })
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ id: 'eve', name: 'Eve' })
+    expect(matches[0].similarity).toBeGreaterThan(0.99)
+
+    expect(service.compare(AVA_FEATURES, populated, { threshold: 0 }).map((match) => match.id)).toEqual(['ava', 'eve', 'bob'])
+  })
+
+  it('ignores media without a feature vector', () => {
+    expect(service.getFeatures(MEDIA['m-pending'])).toBeNull()
+    expect(service.getFeatures({ dinoFeatures: ['a'] })).toBeNull()
+    expect(service.getMasterFeatures({ masterReferenceImage: 'm-ava' })).toBeNull() // Not populated
+  })
+
+  it('warns about look-alikes in the project before a character is created', async () => {
+    const payload = createPayload()
+    const warnings = await service.checkNewMasterReference(payload, 'm-new', 'project-a')
+
+    expect(warnings.map((warning) => warning.character.name)).toEqual(['Ava', 'Eve'])
+    expect(warnings[0]).toMatchObject({ type: 'visual_duplicate', character: { id: 'ava', characterId: 'ava' } })
+    expect(warnings[0].message).toMatch(/looks like "Ava" \(\d+% similar\)/)
+    expect(payload.find.mock.calls[0][0].where['novelMovieIntegration.projectId']).toEqual({ equals: 'project-a' })
+  })
+
+  it('skips the check without features or a project', async () => {
+    const payload = createPayload()
+    expect(await service.checkNewMasterReference(payload, 'm-pending', 'project-a')).toEqual([])
+    expect(await service.checkNewMasterReference(payload, 'm-new', undefined)).toEqual([])
+    expect(await service.checkNewMasterReference(payload, undefined, 'project-a')).toEqual([])
+    expect(payload.find).not.toHaveBeenCalled()
+  })
+})
+
+describe('Character creation with look-alikes', () => {
+  afterEach(() => {
+    created.length = 0
+    vi.restoreAllMocks()
+  })
+
+  async function create(route: string, body: Record<string, any>) {
+    const { POST } = route === 'novel-movie'
+      ? await import('@/app/api/v1/characters/novel-movie/route')
+      : await import('@/app/api/v1/characters/route')
+    const request = new NextRequest(`http://localhost/api/v1/characters/${route}`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+    return POST(request)
+  }
+
+  it('refuses to create a look-alike until the caller confirms it', async () => {
+    const warning = { character: { id: 'ava', name: 'Ava' }, similarity: 0.99 }
+    vi.spyOn(characterDuplicateService, 'checkNewMasterReference').mockResolvedValue([warning] as any)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const character = { name: 'Eve', masterReferenceImage: 'm-new', novelMovieIntegration: { projectId: 'project-a' } }
+    const novelMovie = { novelMovieProjectId: 'project-a', characterData: { name: 'Eve', masterReferenceImage: 'm-new' } }
+
+    for (const [route, body] of [['', character], ['novel-movie', novelMovie]] as const) {
+      const refused = await create(route, body)
+      expect(refused.status).toBe(409)
+      expect((await refused.json()).duplicateWarnings).toEqual([warning])
+      expect(created).toHaveLength(0)
+
+      const confirmed = await create(route, { ...body, allowDuplicate: true })
+      expect(confirmed.status).toBe(201)
+      expect((await confirmed.json()).duplicateWarnings).toEqual([warning])
+      expect(created).toHaveLength(1)
+      expect(created[0]).not.toHaveProperty('allowDuplicate')
+      created.length = 0
+    }
+  })
+})
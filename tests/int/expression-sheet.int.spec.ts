@@ -0,0 +1,141 @@
+import sharp from 'sharp'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ExpressionSheetService } from '@/services/ExpressionSheetService'
+import { EnhancedPromptBuilder } from '@/services/EnhancedPromptBuilder'
+import { imageGenerationService } from '@/services/ImageGenerationService'
+import { dinoOrchestrator } from '@/services/DinoOrchestrator'
+
+const BASE_SHOT = {
+  id: 'shot-1',
+  slug: 'enhanced_50c_front_cu_v2',
+  shotName: '50mm FRONT CU (Enhanced)',
+  lensMm: 50,
+  mode: 'Conversation',
+  angle: 'front',
+  crop: 'cu',
+  expression: 'neutral',
+  pose: 'relaxed',
+  fStop: 2,
+  iso: 200,
+  shutterSpeed: '1/250',
+  referenceWeight: 0.9,
+  pack: 'core',
+  description: '',
+  usageNotes: '',
+  promptTemplate: '',
+  cameraAzimuthDeg: 0,
+  cameraElevationDeg: 0,
+  cameraDistanceM: 2.1,
+}
+
+const CHARACTER = { id: 'char-1', characterId: 'leo', name: 'Leo', physicalDescription: 'Scar over left brow' }
+
+function createPayload() {
+  const created: any[] = []
+  const updates: any[] = []
+  const payload = {
+    find: vi.fn(async ({ collection }: any) => ({ docs: collection === 'reference-shots' ? [BASE_SHOT] : [] })),
+    create: vi.fn(async (args: any) => {
+      created.push(args)
+      return { id: `media-${created.length}`, url: `https://media.test/media-${created.length}.png` }
+    }),
+    findByID: vi.fn(async () => ({ imageGallery: [{ imageFile: 'core-1', isCoreReference: true }], expressionSheets: [] })),
+    update: vi.fn(async (args: any) => updates.push(args)),
+  }
+  return { payload, created, updates }
+}
+
+describe('ExpressionSheetService', () => {
+  const service = new ExpressionSheetService()
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('resolves and validates requested expressions', () => {
+    expect(service.resolveExpressions(undefined).map((d) => d.expression)).toEqual([
+      'neutral', 'joy', 'sadness', 'anger', 'fear', 'disgust', 'surprise', 'contempt',
+    ])
+    expect(service.resolveExpressions([' Joy', 'joy', 'smug'])).toEqual([
+      expect.objectContaining({ expression: 'joy', label: 'Joy' }),
+      { expression: 'smug', label: 'Smug', cues: '' },
+    ])
+
+    expect(service.validateExpressions(['joy', 'anger'])).toBe(true)
+    expect(service.validateExpressions('joy')).toBe('expressions must be an array of strings')
+    expect(service.validateExpressions(['<joy>'])).toContain('letters, spaces and hyphens')
+    expect(service.validateExpressions([])).toBe(true)
+    expect(service.validateExpressions(Array.from({ length: 13 }, (_, i) => `mood ${'x'.repeat(i + 1)}`))).toContain('at most 12')
+  })
+
+  it('varies only the expression in the prompt', () => {
+    const builder = new EnhancedPromptBuilder()
+    const [joy, anger] = service.resolveExpressions(['joy', 'anger'])
+    const joyPrompt = builder.buildEnhancedPrompt(service.buildFrameShot(BASE_SHOT, joy), CHARACTER, '')
+    const angerPrompt = builder.buildEnhancedPrompt(service.buildFrameShot(BASE_SHOT, anger), CHARACTER, '')
+
+    expect(joyPrompt).toContain('expression: joy (genuine smile, raised cheeks, crinkled eye corners)')
+    expect(angerPrompt).toContain('expression: anger (')
+
+    const camera = (prompt: string) => prompt.split('\n').filter((line) => /focal length|azimuth|crop:/.test(line))
+    expect(camera(joyPrompt)).toEqual(camera(angerPrompt))
+
+    // Templates without {EXPRESSION} still get a non-neutral expression
+    expect(builder.buildEnhancedPrompt(service.buildFrameShot(BASE_SHOT, joy), CHARACTER, '', '{CHARACTER} at {LENS}mm')).toBe(
+      'Leo at 50mm\nEXPRESSION: joy (genuine smile, raised cheeks, crinkled eye corners)'
+    )
+  })
+
+  it('regenerates frames that fail QA and composes the passing frames into a sheet', async () => {
+    const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: '#888888' } }).png().toBuffer()
+    const generate = vi.spyOn(imageGenerationService, 'generateImage').mockResolvedValue({ success: true, imageBuffer: image } as any)
+    vi.spyOn(dinoOrchestrator, 'uploadAndExtract').mockResolvedValue({ dinoAssetId: 'frame-asset', status: 'ready' })
+    // joy drifts on its first attempt, fear never matches the master reference
+    const consistency = [55, 90, 88, 40, 40]
+    vi.spyOn(dinoOrchestrator, 'validateNewAsset').mockImplementation(async () => ({
+      qualityScore: 90,
+      consistencyScore: consistency.shift()!,
+      validationNotes: '',
+      isValid: true,
+    }))
+
+    const { payload, created, updates } = createPayload()
+    const frameResults: string[] = []
+    const result = await service.generateSheet(
+      CHARACTER,
+      'master-asset',
+      { ...CHARACTER, era: { eraId: 'young', name: 'Young' } },
+      payload,
+      {
+        expressions: ['joy', 'anger', 'fear'],
+        maxRetries: 2,
+        customSeed: 7,
+        stylePreset: null,
+        onFrameResult: (frame) => frameResults.push(`${frame.expression}:${frame.success}`),
+      }
+    )
+
+    expect(result.success).toBe(true)
+    expect(frameResults).toEqual(['joy:true', 'anger:true', 'fear:false'])
+    expect(result.frames.map((frame) => [frame.expression, frame.attempts])).toEqual([['joy', 2], ['anger', 1]])
+    expect(result.failedFrames[0].error).toContain('Failed QA against the master reference')
+
+    // Every frame uses the same camera and seed; only the expression changes
+    const shots = generate.mock.calls.map(([, options]) => options!.referenceShot)
+    expect(new Set(shots.map((shot: any) => `${shot.lensMm}/${shot.angle}/${shot.crop}`))).toEqual(new Set(['50/front/cu']))
+    expect(generate.mock.calls.map(([, options]) => options!.seed)).toEqual([7, 8, 7, 7, 8])
+
+    const sheetMedia = created[created.length - 1]
+    expect(sheetMedia.context).toEqual({ skipDinoProcessing: true })
+    const metadata = await sharp(sheetMedia.file.data).metadata()
+    expect([metadata.width, metadata.height]).toEqual([24 * 2 + 2 * 512, 110 + 512 + 70 + 24])
+
+    const data = updates[0].data
+    expect(data.expressionSheets).toEqual([
+      expect.objectContaining({ image: result.sheet!.mediaId, expressions: 'joy, anger', eraId: 'young', referenceShot: BASE_SHOT.slug }),
+    ])
+    expect(data.imageGallery).toHaveLength(3)
+    expect(data.imageGallery[1]).toMatchObject({ isCoreReference: false, shotType: 'expression', expression: 'joy', eraId: 'young', lens: 50 })
+    expect(data.imageGallery[1].referenceShot).toBeUndefined()
+  })
+})
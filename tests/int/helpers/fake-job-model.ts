@@ -0,0 +1,157 @@
+/**
+ * In-memory stand-in for the image-generation-jobs Mongoose model
+ *
+ * Supports the query and update operators the job queue, webhooks and resume
+ * code use, so their atomic operations can be tested without MongoDB.
+ */
+
+type Doc = Record<string, any>
+
+function getPath(doc: Doc, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc)
+}
+
+function setPath(doc: Doc, path: string, value: any): void {
+  const keys = path.split('.')
+  const last = keys.pop()!
+  let target = doc
+  for (const key of keys) {
+    if (target[key] == null || typeof target[key] !== 'object') target[key] = {}
+    target = target[key]
+  }
+  target[last] = value
+}
+
+function compare(a: any, b: any): number {
+  const left = a instanceof Date ? a.getTime() : a
+  const right = b instanceof Date ? b.getTime() : b
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+function evalExpr(expr: any, doc: Doc): any {
+  if (typeof expr === 'string' && expr.startsWith('$')) return getPath(doc, expr.slice(1))
+  if (Array.isArray(expr) || expr == null || typeof expr !== 'object' || expr instanceof Date) return expr
+
+  const [operator, args] = Object.entries(expr)[0] as [string, any[]]
+  const values = (Array.isArray(args) ? args : [args]).map((arg) => evalExpr(arg, doc))
+  switch (operator) {
+    case '$ifNull':
+      return values[0] ?? values[1]
+    case '$gte':
+      return compare(values[0], values[1]) >= 0
+    case '$not':
+      return !values[0]
+    default:
+      throw new Error(`Unsupported expression operator ${operator}`)
+  }
+}
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (condition === null) return value == null
+  if (condition instanceof Date || typeof condition !== 'object' || Array.isArray(condition)) {
+    return compare(value, condition) === 0
+  }
+
+  return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+    switch (operator) {
+      case '$in':
+        return operand.some((item: any) => compare(value, item) === 0)
+      case '$nin':
+        return !operand.some((item: any) => compare(value, item) === 0)
+      case '$ne':
+        return operand === null ? value != null : compare(value, operand) !== 0
+      case '$exists':
+        return operand ? value !== undefined : value === undefined
+      case '$lt':
+        return value != null && compare(value, operand) < 0
+      case '$lte':
+        return value != null && compare(value, operand) <= 0
+      case '$gt':
+        return value != null && compare(value, operand) > 0
+      case '$gte':
+        return value != null && compare(value, operand) >= 0
+      default:
+        throw new Error(`Unsupported query operator ${operator}`)
+    }
+  })
+}
+
+export function matches(doc: Doc, filter: Doc): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') return condition.some((branch: Doc) => matches(doc, branch))
+    if (key === '$and') return condition.every((branch: Doc) => matches(doc, branch))
+    if (key === '$expr') return Boolean(evalExpr(condition, doc))
+    return matchesCondition(getPath(doc, key), condition)
+  })
+}
+
+function applyUpdate(doc: Doc, update: Doc): void {
+  for (const [path, value] of Object.entries(update.$set || {})) setPath(doc, path, value)
+  for (const [path, value] of Object.entries(update.$inc || {})) {
+    setPath(doc, path, (getPath(doc, path) || 0) + (value as number))
+  }
+  for (const [path, value] of Object.entries(update.$push || {})) {
+    const list = [...(getPath(doc, path) || [])]
+    if (value && typeof value === 'object' && '$each' in (value as Doc)) {
+      const { $each, $slice } = value as Doc
+      list.push(...$each)
+      setPath(doc, path, typeof $slice === 'number' ? ($slice < 0 ? list.slice($slice) : list.slice(0, $slice)) : list)
+    } else {
+      list.push(value)
+      setPath(doc, path, list)
+    }
+  }
+}
+
+function lean<T>(value: T) {
+  return { lean: async () => structuredClone(value) }
+}
+
+export function createFakeJobModel(initialDocs: Doc[] = []) {
+  const docs: Doc[] = initialDocs.map((doc) => structuredClone(doc))
+
+  const sorted = (sort?: Record<string, 1 | -1>) => {
+    if (!sort) return docs
+    return [...docs].sort((a, b) => {
+      for (const [key, direction] of Object.entries(sort)) {
+        // Missing values sort first, as in MongoDB
+        const result = compare(getPath(a, key) ?? -Infinity, getPath(b, key) ?? -Infinity)
+        if (result !== 0) return result * direction
+      }
+      return 0
+    })
+  }
+
+  return {
+    docs,
+    findOne(filter: Doc) {
+      return lean(docs.find((doc) => matches(doc, filter)) || null)
+    },
+    findOneAndUpdate(filter: Doc, update: Doc, options: { new?: boolean; sort?: Record<string, 1 | -1> } = {}) {
+      const doc = sorted(options.sort).find((item) => matches(item, filter))
+      if (!doc) return lean(null)
+      const before = structuredClone(doc)
+      applyUpdate(doc, update)
+      return lean(options.new ? doc : before)
+    },
+    async updateOne(filter: Doc, update: Doc) {
+      const doc = docs.find((item) => matches(item, filter))
+      if (doc) applyUpdate(doc, update)
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 }
+    },
+    async updateMany(filter: Doc, update: Doc) {
+      const matched = docs.filter((item) => matches(item, filter))
+      matched.forEach((doc) => applyUpdate(doc, update))
+      return { matchedCount: matched.length, modifiedCount: matched.length }
+    },
+  }
+}
+
+export type FakeJobModel = ReturnType<typeof createFakeJobModel>
+
+export function fakeJobsPayload<T extends Doc>(model: FakeJobModel, extra: T = {} as T) {
+  return {
+    db: { collections: { 'image-generation-jobs': model } },
+    ...extra,
+  }
+}
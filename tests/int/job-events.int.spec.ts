@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { jobEventService } from '@/services/JobEventService'
+
+const jobs: Record<string, any> = {}
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('payload')>()),
+  getPayload: async () => ({
+    find: async ({ where }: any) => {
+      const job = jobs[where.jobId.equals]
+      return { docs: job ? [job] : [] }
+    },
+  }),
+}))
+vi.mock('@/lib/utils/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils/api-auth')>()),
+  authorizeJob: async () => ({ type: 'session' }),
+}))
+
+const { GET } = await import('@/app/api/v1/jobs/[jobId]/events/route')
+
+async function openStream(jobId: string) {
+  const request = new NextRequest(`http://localhost/api/v1/jobs/${jobId}/events`)
+  return GET(request, { params: Promise.resolve({ jobId }) })
+}
+
+async function readEvents(response: Response): Promise<Array<{ event: string; data: any }>> {
+  const text = await new Response(response.body).text()
+  return text
+    .split('\n\n')
+    .filter((block) => block.startsWith('event: '))
+    .map((block) => {
+      const [eventLine, dataLine] = block.split('\n')
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) }
+    })
+}
+
+describe('Job events stream', () => {
+  beforeEach(() => {
+    for (const jobId of Object.keys(jobs)) delete jobs[jobId]
+  })
+
+  it('sends a snapshot and the final state for finished jobs, then closes', async () => {
+    jobs['job-done'] = {
+      jobId: 'job-done',
+      jobType: 'core-set',
+      status: 'failed',
+      error: 'FAL quota exceeded',
+      progress: { current: 12, total: 27, percentage: 44 },
+      attempts: 3,
+      maxAttempts: 3,
+    }
+
+    const response = await openStream('job-done')
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+
+    const events = await readEvents(response)
+    expect(events.map((item) => item.event)).toEqual(['snapshot', 'status'])
+    expect(events[0].data).toMatchObject({ status: 'failed', progress: { current: 12, total: 27 }, attempts: 3 })
+    expect(events[1].data).toMatchObject({ status: 'failed', error: 'FAL quota exceeded' })
+  })
+
+  it('streams live progress and shot events until the job completes', async () => {
+    jobs['job-live'] = {
+      jobId: 'job-live',
+      jobType: 'core-set',
+      status: 'processing',
+      progress: { current: 0, total: 2, percentage: 0, currentTask: 'Starting' },
+    }
+
+    const response = await openStream('job-live')
+    const eventsPromise = readEvents(response)
+
+    jobEventService.publish('job-other', { type: 'progress', current: 9, total: 9, percentage: 100 })
+    jobEventService.publish('job-live', { type: 'progress', current: 1, total: 2, percentage: 50, currentTask: 'Front' })
+    jobEventService.publish('job-live', { type: 'shot', shotName: 'Front MCU', status: 'generated', qualityScore: 91 })
+    jobEventService.publish('job-live', { type: 'status', status: 'completed', results: { success: true } })
+    // After the terminal status the stream is closed
+    jobEventService.publish('job-live', { type: 'progress', current: 2, total: 2, percentage: 100 })
+
+    const events = await eventsPromise
+    expect(events.map((item) => item.event)).toEqual(['snapshot', 'progress', 'shot', 'status'])
+    expect(events[1].data).toMatchObject({ jobId: 'job-live', current: 1, currentTask: 'Front' })
+    expect(events[2].data).toMatchObject({ shotName: 'Front MCU', status: 'generated', qualityScore: 91 })
+    expect(events[3].data).toMatchObject({ status: 'completed', results: { success: true } })
+  })
+
+  it('returns 404 for unknown jobs', async () => {
+    const response = await openStream('missing')
+    expect(response.status).toBe(404)
+  })
+})
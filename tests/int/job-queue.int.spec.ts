@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { JobQueueService } from '@/services/JobQueueService'
+import { JOB_QUEUE_CONFIG } from '@/lib/config/job-queue'
+import { createFakeJobModel, fakeJobsPayload } from './helpers/fake-job-model'
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000)
+
+function pendingJob(jobId: string, extra: Record<string, any> = {}) {
+  return {
+    jobId,
+    characterId: 'char-1',
+    jobType: 'core-set',
+    status: 'pending',
+    requestData: { prompt: jobId },
+    attempts: 0,
+    createdAt: minutesAgo(10),
+    ...extra,
+  }
+}
+
+describe('JobQueueService', () => {
+  const service = new JobQueueService()
+
+  it('claims each pending job for exactly one worker, oldest first', async () => {
+    const model = createFakeJobModel([
+      pendingJob('newer', { createdAt: minutesAgo(1) }),
+      pendingJob('older'),
+      pendingJob('later', { availableAt: new Date(Date.now() + 60_000) }),
+      pendingJob('other-type', { jobType: '360-set' }),
+    ])
+    const payload = fakeJobsPayload(model)
+
+    const [first, second, third] = await Promise.all([
+      service.claimNextJob(payload, 'worker-a', ['core-set']),
+      service.claimNextJob(payload, 'worker-b', ['core-set']),
+      service.claimNextJob(payload, 'worker-c', ['core-set']),
+    ])
+
+    expect(first).toMatchObject({ jobId: 'older', attempts: 1, maxAttempts: JOB_QUEUE_CONFIG.maxAttempts })
+    expect(second?.jobId).toBe('newer')
+    // Not yet available, and the other type was not asked for
+    expect(third).toBeNull()
+
+    const claimed = model.docs.find((doc) => doc.jobId === 'older')!
+    expect(claimed).toMatchObject({ status: 'processing', leaseOwner: 'worker-a' })
+    expect(claimed.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now())
+    expect(await service.claimNextJob(payload, 'worker-a', [])).toBeNull()
+  })
+
+  it('extends leases only for the worker that owns the job', async () => {
+    const model = createFakeJobModel([pendingJob('job-1')])
+    const payload = fakeJobsPayload(model)
+    await service.claimNextJob(payload, 'worker-a', ['core-set'])
+
+    model.docs[0].leaseExpiresAt = minutesAgo(0)
+    expect(await service.extendLease(payload, 'job-1', 'worker-a')).toBe(true)
+    expect(model.docs[0].leaseExpiresAt.getTime()).toBeGreaterThan(Date.now() + 1000)
+    expect(await service.extendLease(payload, 'job-1', 'worker-b')).toBe(false)
+
+    model.docs[0].status = 'cancelled'
+    expect(await service.extendLease(payload, 'job-1', 'worker-a')).toBe(false)
+  })
+
+  it('requeues stale leases and fails jobs that ran out of attempts', async () => {
+    const model = createFakeJobModel([
+      pendingJob('stale', { status: 'processing', leaseOwner: 'dead', leaseExpiresAt: minutesAgo(5), attempts: 1 }),
+      pendingJob('exhausted', {
+        status: 'processing',
+        leaseOwner: 'dead',
+        leaseExpiresAt: minutesAgo(5),
+        attempts: 2,
+        maxAttempts: 2,
+      }),
+      pendingJob('alive', { status: 'processing', leaseOwner: 'live', leaseExpiresAt: new Date(Date.now() + 60_000) }),
+    ])
+    const payload = fakeJobsPayload(model)
+
+    expect(await service.requeueStaleJobs(payload)).toEqual({ requeued: 1, failed: 1 })
+
+    const byId = Object.fromEntries(model.docs.map((doc) => [doc.jobId, doc]))
+    expect(byId.stale).toMatchObject({ status: 'pending', leaseOwner: null, attempts: 1 })
+    expect(byId.stale.progress.currentTask).toBe('Requeued after worker lease expired')
+    expect(byId.exhausted).toMatchObject({ status: 'failed', leaseOwner: null })
+    expect(byId.exhausted.error).toMatch(/maximum number of attempts/)
+    expect(byId.alive).toMatchObject({ status: 'processing', leaseOwner: 'live' })
+
+    // The requeued job can be claimed again and counts another attempt
+    expect(await service.claimNextJob(payload, 'worker-a', ['core-set'])).toMatchObject({ jobId: 'stale', attempts: 2 })
+  })
+
+  it('backs off exponentially between attempts', () => {
+    const base = JOB_QUEUE_CONFIG.retryBackoffMs
+    expect(service.getRetryDelay(0)).toBe(base)
+    expect(service.getRetryDelay(1)).toBe(base)
+    expect(service.getRetryDelay(2)).toBe(base * 2)
+    expect(service.getRetryDelay(3)).toBe(base * 4)
+  })
+
+  it('requires the MongoDB adapter', async () => {
+    await expect(service.claimNextJob({ db: {} }, 'worker-a', ['core-set'])).rejects.toThrow(/MongoDB adapter/)
+  })
+})
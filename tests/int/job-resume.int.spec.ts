@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { BackgroundJobService } from '@/services/BackgroundJobService'
+import { JobQueueService } from '@/services/JobQueueService'
+import { stylePresetService } from '@/services/StylePresetService'
+import { promptTemplateService } from '@/services/PromptTemplateService'
+import { createFakeJobModel, fakeJobsPayload } from './helpers/fake-job-model'
+
+const shots = [
+  { id: 'front', shotName: 'Front', priority: 1 },
+  { id: 'profile', shotName: 'Profile', priority: 1 },
+  { id: 'back', shotName: 'Back', priority: 2 },
+]
+
+const galleryItem = (outfitId: string | null, shotId: string) => ({
+  imageFile: `${outfitId || 'base'}-${shotId}`,
+  referenceShot: shotId,
+  isCoreReference: true,
+  ...(outfitId && { outfitId }),
+})
+
+function failedJob(extra: Record<string, any> = {}) {
+  return {
+    jobId: 'job-1',
+    characterId: 'char-1',
+    jobType: 'core-set',
+    status: 'failed',
+    error: 'FAL quota exceeded',
+    attempts: 3,
+    maxAttempts: 3,
+    progress: { current: 1, total: 3, percentage: 33, currentTask: 'Generating Profile' },
+    requestData: { outfitId: 'winter-coat' },
+    results: {
+      success: false,
+      partial: true,
+      generatedImages: [{ url: '', angle: 'Front', quality: 90, mediaId: 'winter-coat-front', referenceShotId: 'front' }],
+      failedImages: [],
+    },
+    ...extra,
+  }
+}
+
+function createPayloadStub(jobs: any[]) {
+  const model = createFakeJobModel(jobs)
+  const character: any = {
+    id: 'char-1',
+    name: 'Ava',
+    masterReferenceImage: { id: 'master', dinoAssetId: 'master-asset' },
+    wardrobe: [
+      { outfitId: 'winter-coat', name: 'Winter coat', description: 'long red wool coat' },
+      { outfitId: 'school-uniform', name: 'School uniform', description: 'navy blazer' },
+    ],
+    imageGallery: [
+      ...shots.map((shot) => galleryItem(null, shot.id)),
+      galleryItem('school-uniform', 'front'),
+      galleryItem('winter-coat', 'front'),
+    ],
+  }
+
+  return fakeJobsPayload(model, {
+    character,
+    model,
+    find: async ({ where }: any) => ({ docs: model.docs.filter((doc) => doc.jobId === where.jobId.equals) }),
+    findByID: async ({ collection }: { collection: string }) => (collection === 'characters' ? character : null),
+    update: async ({ collection, where, data }: any) => {
+      if (collection === 'characters') return Object.assign(character, data)
+      const docs = model.docs.filter((doc) => doc.jobId === where.jobId.equals)
+      docs.forEach((doc) => Object.assign(doc, data))
+      return { docs }
+    },
+  })
+}
+
+describe('Job resume', () => {
+  let service: BackgroundJobService
+
+  beforeEach(() => {
+    service = new BackgroundJobService()
+    vi.spyOn(service as any, 'startWorker').mockResolvedValue(undefined)
+    vi.spyOn(service as any, 'triggerPoll').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('requeues failed and cancelled jobs once, keeping their results', async () => {
+    const payload = createPayloadStub([failedJob()])
+
+    const resumed = await service.resumeJob('job-1', payload)
+    expect(resumed).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      resumeCount: 1,
+      requestData: { outfitId: 'winter-coat', resume: true },
+    })
+    expect(resumed?.results?.generatedImages).toHaveLength(1)
+    expect(payload.model.docs[0].resumeHistory[0]).toMatchObject({
+      previousStatus: 'failed',
+      previousError: 'FAL quota exceeded',
+      previousAttempts: 3,
+    })
+
+    // Already queued, so a second resume is refused
+    expect(await service.resumeJob('job-1', payload)).toBeNull()
+    expect(await new JobQueueService().requeueForResume(payload, 'job-1', ['failed', 'cancelled'])).toBeNull()
+  })
+
+  it('holds over-budget resumes for approval and counts only the remaining shots', async () => {
+    const payload = createPayloadStub([failedJob({ status: 'cancelled' })])
+    const job: any = payload.model.docs[0]
+
+    expect(service.isResumable(job)).toBe(true)
+    expect(service.getRemainingShotCount(job)).toBe(2)
+    expect(service.isResumable({ ...job, jobType: 'single-image' })).toBe(false)
+    expect(service.isResumable({ ...job, budgetApproval: { estimatedCost: 1 } })).toBe(false)
+
+    const held = await service.resumeJob('job-1', payload, { estimatedCost: 0.08, spent: 9.95, limit: 10 })
+    expect(held).toMatchObject({
+      status: 'awaiting_approval',
+      progress: { currentTask: 'Awaiting budget approval' },
+      budgetApproval: { estimatedCost: 0.08, approvedAt: null },
+    })
+    expect((service as any).startWorker).not.toHaveBeenCalled()
+
+    // Held resumes are released through the usual approval
+    expect(await service.approveJob('job-1', payload, 'admin')).toMatchObject({ status: 'pending' })
+    expect((service as any).startWorker).toHaveBeenCalledTimes(1)
+  })
+
+  it('generates only missing shots on resume and keeps the rest of the gallery', async () => {
+    const payload = createPayloadStub([failedJob()])
+    const enhancedService = (service as any).enhancedCoreSetService
+    vi.spyOn(stylePresetService, 'getProjectPreset').mockResolvedValue(null)
+    vi.spyOn(promptTemplateService, 'resolveTemplate').mockResolvedValue(null)
+    vi.spyOn(enhancedService, 'getAllEnhancedReferenceShots').mockResolvedValue(shots)
+    const generate = vi
+      .spyOn(enhancedService, 'generateEnhancedImage')
+      .mockImplementation(async (referenceShot: any, ...args: any[]) => ({
+        success: true,
+        referenceShot,
+        imageId: `${args[2].outfit.outfitId}-${referenceShot.id}`,
+        qualityScore: 88,
+        outfitId: args[2].outfit.outfitId,
+        eraId: null,
+      }))
+
+    await service.resumeJob('job-1', payload)
+    const result = await (service as any).processCoreSetJob(
+      'job-1',
+      'char-1',
+      payload.model.docs[0].requestData,
+      payload
+    )
+
+    expect(generate.mock.calls.map(([referenceShot]: any[]) => referenceShot.id)).toEqual(['profile', 'back'])
+    expect(result).toMatchObject({ success: true, skippedShots: 1 })
+    expect(result.generatedImages.map((img: any) => img.referenceShotId)).toEqual(['front', 'profile', 'back'])
+    expect(payload.model.docs[0].progress).toMatchObject({ current: 2, total: 3 })
+
+    const gallery = payload.character.imageGallery.map((item: any) => `${item.outfitId || 'base'}:${item.imageFile}`)
+    expect(gallery.sort()).toEqual([
+      'base:base-back',
+      'base:base-front',
+      'base:base-profile',
+      'school-uniform:school-uniform-front',
+      'winter-coat:winter-coat-back',
+      'winter-coat:winter-coat-front',
+      'winter-coat:winter-coat-profile',
+    ])
+  })
+})
+
+describe('Job progress totals', () => {
+  let service: BackgroundJobService
+
+  beforeEach(() => {
+    service = new BackgroundJobService()
+    vi.spyOn(service as any, 'triggerPoll').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function runClaimedJob(jobType: string, requestData: any, process: (payload: any) => Promise<any>) {
+    const job = { jobId: 'job-1', characterId: 'char-1', jobType, requestData, attempts: 1, maxAttempts: 3 }
+    const payload = createPayloadStub([{ ...job, status: 'processing', leaseOwner: (service as any).workerId }])
+    const processMethod = jobType === 'expression-sheet' ? 'processExpressionSheetJob' : 'processBatchScenesJob'
+    const started: any[] = []
+    vi.spyOn(service as any, processMethod).mockImplementation(async () => {
+      started.push({ ...payload.model.docs[0].progress })
+      return process(payload)
+    })
+
+    await (service as any).runJob(job, payload)
+    return { started: started[0], progress: payload.model.docs[0].progress, status: payload.model.docs[0].status }
+  }
+
+  it('uses the frame count of expression sheets and keeps the reported total on completion', async () => {
+    const { started, progress, status } = await runClaimedJob(
+      'expression-sheet',
+      { expressions: ['happy', 'sad', 'Sad', 'angry'] },
+      async (payload) => {
+        await (service as any).updateJobProgress('job-1', payload, { current: 2, total: 3, percentage: 67 })
+        return { success: true, generatedImages: [] }
+      }
+    )
+
+    expect(started).toMatchObject({ current: 0, total: 3 })
+    expect(status).toBe('completed')
+    expect(progress).toEqual({ current: 3, total: 3, percentage: 100, currentTask: 'Completed' })
+  })
+
+  it('counts one shot per required shot and character for batch scenes', async () => {
+    const scenes = [
+      { sceneId: 's1', characters: ['a', 'b'], requiredShots: ['wide', 'close'] },
+      { sceneId: 's2', characters: ['a'], requiredShots: ['wide'] },
+    ]
+    const { started, progress } = await runClaimedJob('batch-scenes', { scenes }, async () => ({ success: true }))
+
+    expect(started).toMatchObject({ current: 0, total: 5 })
+    expect(progress).toMatchObject({ current: 5, total: 5, percentage: 100 })
+  })
+
+  it('starts core sets with the requested image count', async () => {
+    const payload = createPayloadStub([{ jobId: 'job-1', characterId: 'char-1', jobType: 'core-set' }])
+    const enhancedService = (service as any).enhancedCoreSetService
+    vi.spyOn(stylePresetService, 'getProjectPreset').mockResolvedValue(null)
+    vi.spyOn(promptTemplateService, 'resolveTemplate').mockResolvedValue(null)
+    vi.spyOn(enhancedService, 'getAllEnhancedReferenceShots').mockResolvedValue([])
+    const updateProgress = vi.spyOn(service as any, 'updateJobProgress')
+
+    await (service as any).processCoreSetJob('job-1', 'char-1', { imageCount: 3 }, payload)
+
+    expect(updateProgress.mock.calls[0][2]).toMatchObject({ current: 0, total: 3 })
+  })
+})
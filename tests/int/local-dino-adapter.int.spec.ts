@@ -0,0 +1,90 @@
+import sharp from 'sharp'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, it, expect, beforeAll } from 'vitest'
+import { DINO_CONFIG } from '@/lib/config/dino'
+import { LocalDinoAdapter } from '@/services/LocalDinoAdapter'
+import { LocalImageProvider } from '@/services/LocalImageProvider'
+import { DinoOrchestrator } from '@/services/DinoOrchestrator'
+
+DINO_CONFIG.local.storageDir = join(tmpdir(), `dino-local-test-${process.pid}`)
+
+async function solidImage(color: { r: number; g: number; b: number }): Promise<Buffer> {
+  return sharp({ create: { width: 256, height: 256, channels: 3, background: color } }).jpeg().toBuffer()
+}
+
+describe('LocalDinoAdapter', () => {
+  const adapter = new LocalDinoAdapter()
+  const provider = new LocalImageProvider()
+  let front: Buffer
+  let profile: Buffer
+  let otherCharacter: Buffer
+
+  beforeAll(async () => {
+    const request = {
+      prompt: 'Leo, full body reference',
+      mode: 'text-to-image' as const,
+      referenceImageUrls: [],
+      characterName: 'Leo',
+      width: 384,
+      height: 512,
+    }
+    front = (await provider.generate({ ...request, referenceShot: { angle: 'front', crop: 'full' } })).imageBuffer
+    profile = (await provider.generate({ ...request, referenceShot: { angle: 'profile_left', crop: 'full' } })).imageBuffer
+    otherCharacter = (await provider.generate({ ...request, characterName: 'Mara' })).imageBuffer
+  })
+
+  it('assigns content-addressed asset IDs', async () => {
+    const first = await adapter.uploadMedia(front, 'front.jpg')
+    const second = await adapter.uploadMedia(front, 'copy.jpg')
+    const other = await adapter.uploadMedia(profile, 'profile.jpg')
+
+    expect(first.asset_id).toBe(second.asset_id)
+    expect(first.asset_id).not.toBe(other.asset_id)
+  })
+
+  it('extracts a deterministic 384-dimensional feature vector', async () => {
+    const { asset_id } = await adapter.uploadMedia(front, 'front.jpg')
+    const features = await adapter.extractFeatures(asset_id)
+    const fresh = await new LocalDinoAdapter().extractFeatures(asset_id)
+
+    expect(features.features).toHaveLength(384)
+    expect(fresh.features).toEqual(features.features)
+  })
+
+  it('scores textured images above flat, clipped ones', async () => {
+    const textured = await adapter.uploadMedia(front, 'front.jpg')
+    const flat = await adapter.uploadMedia(await solidImage({ r: 255, g: 255, b: 255 }), 'white.jpg')
+
+    const texturedQuality = await adapter.analyzeQuality(textured.asset_id)
+    const flatQuality = await adapter.analyzeQuality(flat.asset_id)
+
+    expect(texturedQuality.quality_score).toBeGreaterThan(flatQuality.quality_score)
+  })
+
+  it('rates the same character as more consistent than a different one', async () => {
+    const frontAsset = await adapter.uploadMedia(front, 'front.jpg')
+    const profileAsset = await adapter.uploadMedia(profile, 'profile.jpg')
+    const otherAsset = await adapter.uploadMedia(otherCharacter, 'other.jpg')
+
+    const identical = await adapter.validateConsistency(frontAsset.asset_id, frontAsset.asset_id)
+    const sameCharacter = await adapter.validateConsistency(profileAsset.asset_id, frontAsset.asset_id)
+    const different = await adapter.validateConsistency(otherAsset.asset_id, frontAsset.asset_id)
+
+    expect(identical.similarity_score).toBe(100)
+    expect(sameCharacter.similarity_score).toBeGreaterThan(different.similarity_score)
+  })
+
+  it('backs DinoOrchestrator validation end to end', async () => {
+    const orchestrator = new DinoOrchestrator(adapter)
+    const master = await orchestrator.uploadAndExtract(front, 'master.jpg')
+    const candidate = await orchestrator.uploadAndExtract(profile, 'candidate.jpg')
+
+    expect(master.status).toBe('processing')
+    expect(master.features).toHaveLength(384)
+
+    const validation = await orchestrator.validateNewAsset(candidate.dinoAssetId, master.dinoAssetId)
+    expect(validation.qualityScore).toBeGreaterThan(0)
+    expect(validation.consistencyScore).toBeGreaterThan(0)
+  })
+})
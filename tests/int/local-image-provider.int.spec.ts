@@ -0,0 +1,63 @@
+import sharp from 'sharp'
+import { describe, it, expect } from 'vitest'
+import { LocalImageProvider } from '@/services/LocalImageProvider'
+import { ImageGenerationService } from '@/services/ImageGenerationService'
+import type { ImageProviderRequest } from '@/services/ImageProvider'
+
+const baseRequest: ImageProviderRequest = {
+  prompt: 'Leo in a rain-soaked alley, cinematic lighting',
+  mode: 'text-to-image',
+  referenceImageUrls: [],
+  seed: 42,
+  width: 128,
+  height: 160,
+  referenceShot: { slug: 'front_full', angle: 'front', crop: 'full', lensMm: 50 },
+}
+
+describe('LocalImageProvider', () => {
+  const provider = new LocalImageProvider()
+
+  it('renders a JPEG with the requested dimensions', async () => {
+    const result = await provider.generate(baseRequest)
+    const metadata = await sharp(result.imageBuffer).metadata()
+
+    expect(metadata.format).toBe('jpeg')
+    expect(metadata.width).toBe(128)
+    expect(metadata.height).toBe(160)
+    expect(result.model).toBe('local/placeholder-v1')
+  })
+
+  it('is deterministic for the same prompt, seed and shot', async () => {
+    const first = await provider.generate(baseRequest)
+    const second = await provider.generate(baseRequest)
+
+    expect(first.imageBuffer.equals(second.imageBuffer)).toBe(true)
+    expect(first.parameters.hash).toBe(second.parameters.hash)
+  })
+
+  it('varies with the seed and shot metadata', async () => {
+    const base = await provider.generate(baseRequest)
+    const reseeded = await provider.generate({ ...baseRequest, seed: 43 })
+    const profile = await provider.generate({
+      ...baseRequest,
+      referenceShot: { ...baseRequest.referenceShot, angle: 'profile_left' },
+    })
+
+    expect(base.imageBuffer.equals(reseeded.imageBuffer)).toBe(false)
+    expect(base.imageBuffer.equals(profile.imageBuffer)).toBe(false)
+  })
+
+  it('plugs into ImageGenerationService without network access', async () => {
+    const service = new ImageGenerationService(provider)
+    const result = await service.generateImage('Leo reading a letter', {
+      style: 'none',
+      seed: 7,
+      width: 64,
+      height: 64,
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.imageBuffer?.length).toBeGreaterThan(0)
+    expect(result.metadata?.model).toBe('local/placeholder-v1')
+  })
+})
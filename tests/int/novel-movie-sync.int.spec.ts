@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { NovelMovieSyncService } from '@/services/NovelMovieSyncService'
+
+function createPayloadStub() {
+  const updates: any[] = []
+  return {
+    updates,
+    update: async ({ id, data }: { id: string; data: any }) => {
+      updates.push(data)
+      const pendingConflicts = (data.novelMovieIntegration?.pendingConflicts || [])
+        .map((conflict: any, index: number) => ({ id: conflict.id || `conflict-${index}`, ...conflict }))
+      return { id, ...data, novelMovieIntegration: { ...data.novelMovieIntegration, pendingConflicts } }
+    },
+  }
+}
+
+describe('NovelMovieSyncService', () => {
+  const service = new NovelMovieSyncService()
+
+  it('merges one-sided edits and reports fields edited on both sides', () => {
+    const base = { name: 'Leo', biography: 'Base bio', role: 'protagonist', age: 30 }
+    const incoming = { name: 'Leo', biography: 'Novel bio', role: 'protagonist', age: 31 }
+    const current = { name: 'Leo', biography: 'Library bio', role: 'antagonist', age: 30 }
+
+    const result = service.mergeCharacterData(base, incoming, current)
+
+    expect(result.updates).toEqual({ age: 31 })
+    expect(result.baseUpdates.role).toBe('antagonist')
+    expect(result.conflicts).toHaveLength(1)
+    expect(result.conflicts[0]).toMatchObject({
+      field: 'biography',
+      baseValue: 'Base bio',
+      novelMovieValue: 'Novel bio',
+      characterLibraryValue: 'Library bio',
+    })
+  })
+
+  it('merges skills item by item and ignores Payload row ids', () => {
+    const base = {
+      skills: [
+        { skill: 'Fencing', level: 'advanced' },
+        { skill: 'Riding', level: 'beginner' },
+      ],
+    }
+    const incoming = {
+      skills: [
+        { skill: 'Fencing', level: 'expert' },
+        { skill: 'Riding', level: 'beginner' },
+        { skill: 'Archery', level: 'beginner' },
+      ],
+    }
+    const current = {
+      skills: [
+        { id: 'row-1', skill: 'Fencing', level: 'advanced' },
+        { id: 'row-2', skill: 'Riding', level: 'intermediate' },
+      ],
+    }
+
+    const result = service.mergeCharacterData(base, incoming, current)
+
+    expect(result.conflicts).toEqual([])
+    expect(result.updates.skills).toEqual([
+      { skill: 'Fencing', level: 'expert' },
+      { id: 'row-2', skill: 'Riding', level: 'intermediate' },
+      { skill: 'Archery', level: 'beginner' },
+    ])
+  })
+
+  it('queues relationship item conflicts and resolves them field by field', async () => {
+    const payload = createPayloadStub()
+    const character = {
+      id: 'char-1',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      biography: 'Shared bio',
+      enhancedRelationships: [
+        { id: 'row-1', characterId: 'mia', relationshipType: 'rival', strength: 7 },
+      ],
+      novelMovieIntegration: {
+        syncBase: {
+          biography: 'Shared bio',
+          enhancedRelationships: [{ characterId: 'mia', relationshipType: 'friend', strength: 5 }],
+        },
+        changeLog: [],
+      },
+    }
+
+    const sync = await service.syncCharacter(payload, character, {
+      biography: 'Shared bio',
+      relationships: [{ characterId: 'mia', relationshipType: 'sibling', strength: 5 }],
+    }, { changeSet: ['relationships'], lastModified: '2025-01-01T00:00:00.000Z', strategy: 'manual' })
+
+    expect(sync.queued).toBe(true)
+    expect(sync.conflicts).toHaveLength(1)
+    expect(sync.conflicts[0].field).toBe('enhancedRelationships[characterId=mia]')
+    expect(sync.character.novelMovieIntegration.syncStatus).toBe('conflict')
+
+    const resolution = await service.resolveConflicts(payload, { ...character, ...sync.character }, [
+      { field: 'enhancedRelationships[characterId=mia]', resolution: 'novel-movie' },
+    ])
+
+    expect(resolution.remaining).toBe(0)
+    const written = payload.updates[1]
+    expect(written.enhancedRelationships).toEqual([
+      { id: 'row-1', characterId: 'mia', relationshipType: 'sibling', strength: 5 },
+    ])
+    expect(written.novelMovieIntegration.syncStatus).toBe('synced')
+    expect(written.novelMovieIntegration.syncBase.enhancedRelationships).toEqual([
+      { characterId: 'mia', relationshipType: 'sibling', strength: 5 },
+    ])
+  })
+
+  it('settles conflicts automatically with a winning strategy', async () => {
+    const payload = createPayloadStub()
+    const character = {
+      id: 'char-1',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      biography: 'Library bio',
+      novelMovieIntegration: { syncBase: { biography: 'Base bio' } },
+    }
+
+    const sync = await service.syncCharacter(payload, character, { biography: 'Novel bio' }, {
+      changeSet: ['biography'],
+      lastModified: '2025-01-01T00:00:00.000Z',
+      strategy: 'character-library-wins',
+    })
+
+    expect(sync.queued).toBe(false)
+    expect(sync.conflicts[0].resolution).toBe('character-library')
+    expect(payload.updates[0].biography).toBe('Library bio')
+    expect(payload.updates[0].novelMovieIntegration.syncBase.biography).toBe('Library bio')
+    expect(payload.updates[0].novelMovieIntegration.pendingConflicts).toEqual([])
+  })
+})
@@ -0,0 +1,69 @@
+import sharp from 'sharp'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { ProjectBibleService } from '@/services/ProjectBibleService'
+
+const CAST = [
+  {
+    id: '1',
+    characterId: 'leo',
+    name: 'Leo',
+    role: 'protagonist',
+    age: 30,
+    eyeColor: 'green',
+    masterReferenceImage: { url: '/media/leo-master.jpg', alt: 'Leo master' },
+    imageGallery: [
+      { imageFile: { url: '/media/leo-front-cu.jpg' }, referenceShot: { angle: 'front', crop: 'cu' } },
+      { imageFile: { url: '/media/leo-front-full.jpg' }, referenceShot: { angle: 'front', crop: 'full' } },
+      { imageFile: { url: '/media/leo-back.jpg' }, isCoreReference: true, angle: 'back', crop: 'full' },
+      { imageFile: { url: '/media/leo-scene.jpg' }, shotType: 'scene' },
+    ],
+    dialogueVoice: { voiceDescription: 'Low and calm', patterns: [{ pattern: 'Short sentences' }] },
+    psychology: { motivation: 'Protect his sister', fears: 'Failure' },
+    characterArc: { startState: 'Reluctant', endState: 'Leader' },
+    enhancedRelationships: [{ characterId: '2', relationshipType: 'sibling', strength: 9 }],
+  },
+  { id: '2', characterId: 'mia', name: 'Mia <Junior>' },
+]
+
+function createPayloadStub() {
+  return { find: vi.fn(async () => ({ docs: CAST })) }
+}
+
+describe('ProjectBibleService', () => {
+  const service = new ProjectBibleService()
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('builds one entry per character with turnaround and relationship names', async () => {
+    const bible = await service.buildBible(createPayloadStub(), 'project-1', 'http://localhost:3000')
+    const leo = bible.characters[0]
+
+    expect(leo.masterReference?.url).toBe('http://localhost:3000/media/leo-master.jpg')
+    // Full body preferred per angle; non core set images are left out
+    expect(leo.turnaround.map((image) => image.url)).toEqual([
+      'http://localhost:3000/media/leo-front-full.jpg',
+      'http://localhost:3000/media/leo-back.jpg',
+    ])
+    expect(leo.dialogueVoice).toContainEqual({ label: 'Speech Patterns', value: 'Short sentences' })
+    expect(leo.relationships[0]).toMatchObject({ name: 'Mia <Junior>', relationshipType: 'sibling' })
+  })
+
+  it('renders escaped HTML and a PDF with a page per character', async () => {
+    const image = await sharp({ create: { width: 60, height: 90, channels: 3, background: '#884422' } }).png().toBuffer()
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(image))))
+
+    const bible = await service.buildBible(createPayloadStub(), 'project-1', 'http://localhost:3000')
+    const html = service.renderHtml(bible)
+    const pdf = await service.renderPdf(bible)
+
+    expect(html).toContain('Mia &lt;Junior&gt;')
+    expect(html).toContain('Protect his sister')
+    expect(pdf.subarray(0, 8).toString()).toBe('%PDF-1.4')
+    // Cover page plus at least one page per character
+    expect(pdf.toString('latin1').match(/\/Type \/Page /g)!.length).toBeGreaterThanOrEqual(3)
+    expect(pdf.toString('latin1')).toContain('(Mia <Junior>) Tj')
+    expect(pdf.toString('latin1')).toContain('/Filter /DCTDecode')
+  })
+})
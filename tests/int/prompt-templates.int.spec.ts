@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { PromptTemplateService, ResolvedPromptTemplate } from '@/services/PromptTemplateService'
+import { EnhancedPromptBuilder, renderPromptTemplate } from '@/services/EnhancedPromptBuilder'
+import { PROMPT_TEMPLATE_SCHEMAS } from '@/lib/config/prompt-templates'
+
+function template(overrides: Partial<ResolvedPromptTemplate>): ResolvedPromptTemplate {
+  return {
+    id: 'template',
+    templateKey: 'reference-shot',
+    version: 1,
+    body: '{CHARACTER}',
+    projectId: null,
+    shotSlug: null,
+    weight: 100,
+    ...overrides,
+  }
+}
+
+function createPayloadStub(docs: any[]) {
+  let finds = 0
+  return {
+    get finds() {
+      return finds
+    },
+    find: async () => {
+      finds++
+      return { docs }
+    },
+  }
+}
+
+describe('PromptTemplateService', () => {
+  it('uses the most specific active template scope', async () => {
+    const service = new PromptTemplateService()
+    const payload = createPayloadStub([
+      { id: 'default', version: 1, body: 'default {CHARACTER}', weight: 100 },
+      { id: 'shot', version: 2, body: 'shot {CHARACTER}', shotSlug: 'front_mcu_50', weight: 100 },
+      { id: 'project', version: 1, body: 'project {CHARACTER}', projectId: 'p1', weight: 100 },
+    ])
+
+    const forProject = await service.resolveTemplate(payload, 'reference-shot', {
+      projectId: 'p1',
+      shotSlug: 'front_mcu_50',
+    })
+    expect(forProject?.id).toBe('project')
+
+    const forShot = await service.resolveTemplate(payload, 'reference-shot', {
+      projectId: 'p2',
+      shotSlug: 'front_mcu_50',
+    })
+    expect(forShot?.id).toBe('shot')
+
+    const fallback = await service.resolveTemplate(payload, 'reference-shot', { projectId: 'p2' })
+    expect(fallback?.id).toBe('default')
+
+    // Active templates are cached between generations
+    expect(payload.finds).toBe(1)
+  })
+
+  it('falls back to the built-in prompt without active templates', async () => {
+    const service = new PromptTemplateService()
+    expect(await service.resolveTemplate(createPayloadStub([]), 'cinematic-reference')).toBeNull()
+  })
+
+  it('assigns A/B variants by weight and keeps each character on one variant', () => {
+    const service = new PromptTemplateService()
+    const candidates = [template({ id: 'a', version: 1, weight: 75 }), template({ id: 'b', version: 2, weight: 25 })]
+
+    const counts: Record<string, number> = { a: 0, b: 0 }
+    for (let i = 0; i < 1000; i++) {
+      const assigned = service.assignVariant(candidates, `cinematic-reference:character-${i}`)
+      counts[assigned!.id]++
+      expect(service.assignVariant(candidates, `cinematic-reference:character-${i}`)?.id).toBe(assigned!.id)
+    }
+
+    expect(counts.a).toBeGreaterThan(650)
+    expect(counts.b).toBeGreaterThan(150)
+
+    // A zero weight takes a version out of the test
+    const paused = [template({ id: 'a', version: 1, weight: 100 }), template({ id: 'b', version: 2, weight: 0 })]
+    expect(service.assignVariant(paused, 'cinematic-reference:character-1')?.id).toBe('a')
+  })
+})
+
+describe('prompt template validation and rendering', () => {
+  const builder = new EnhancedPromptBuilder()
+  const schema = PROMPT_TEMPLATE_SCHEMAS['reference-shot']
+
+  it('checks templates against the placeholder schema', () => {
+    expect(builder.validatePrompt('{CHARACTER}, {LENS}mm lens, {POSE_INSTRUCTIONS}', schema).isValid).toBe(true)
+
+    const unknown = builder.validatePrompt('{CHARACTER} in a {MOOD} mood', schema)
+    expect(unknown.isValid).toBe(false)
+    expect(unknown.errors[0]).toContain('{MOOD}')
+
+    const missing = builder.validatePrompt('{LENS}mm portrait', schema)
+    expect(missing.errors).toEqual(['Missing required placeholders: {CHARACTER}'])
+  })
+
+  it('accepts the built-in cinematic template', () => {
+    const result = builder.validatePrompt(
+      (builder as any).CINEMATIC_TEMPLATE,
+      PROMPT_TEMPLATE_SCHEMAS['cinematic-reference']
+    )
+    expect(result).toEqual({ isValid: true, errors: [], warnings: [] })
+  })
+
+  it('replaces every occurrence of a placeholder', () => {
+    expect(renderPromptTemplate('{CHARACTER} and {CHARACTER} at {LENS}mm {OTHER}', { CHARACTER: 'Ava', LENS: 50 })).toBe(
+      'Ava and Ava at 50mm {OTHER}'
+    )
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ReferenceRankingService, extractShotCues } from '@/services/ReferenceRankingService'
+import { ReferenceSearchService } from '@/services/ReferenceSearchService'
+import { EnhancedReferenceSearchService } from '@/services/EnhancedReferenceSearchService'
+import { REFERENCE_RANKING_CONFIG } from '@/lib/config/reference-ranking'
+
+function shot(id: string, lensMm: number, angle: string, crop: string, extra: any = {}) {
+  return {
+    id: `item-${id}`,
+    imageFile: { id, url: `/media/${id}.png`, dinoAssetId: `dino-${id}`, filename: `${id}.png` },
+    isCoreReference: true,
+    referenceShot: { slug: id, shotName: id, mode: 'Conversation', lensMm, angle, crop, expression: 'neutral', pack: 'core' },
+    ...extra,
+  }
+}
+
+const character = {
+  id: 'char-1',
+  name: 'Mara',
+  masterReferenceImage: { id: 'master', url: '/media/master.png', dinoAssetId: 'dino-master', filename: 'master.png' },
+  novelMovieIntegration: { projectId: 'proj-1' },
+  eras: [{ eraId: 'child', name: 'Child', toYear: 1960 }],
+  imageGallery: [
+    shot('front-mcu', 50, 'front', 'mcu'),
+    shot('profile-cu', 85, 'profile_left', 'cu', { qualityScore: 92 }),
+    shot('full', 35, 'front', 'full', { referenceShot: { mode: 'Action/Body', lensMm: 35, angle: 'front', crop: 'full', pack: 'core' } }),
+    shot('hands', 85, 'front', 'hands', { referenceShot: { lensMm: 85, crop: 'hands', pack: 'addon' } }),
+    shot('blurry', 50, 'front', 'cu', { qualityScore: 40 }),
+    shot('child', 50, 'front', 'mcu', { eraId: 'child' }),
+    { id: 'item-red', imageFile: { id: 'red', url: '/media/red.png', dinoAssetId: 'dino-red' }, outfitId: 'red-coat', shotType: 'street' },
+    { id: 'item-no-dino', imageFile: { id: 'no-dino', url: '/media/no-dino.png' } },
+  ],
+}
+
+function fakePayload(profiles: any[] = []) {
+  return {
+    findByID: vi.fn(async () => character),
+    find: vi.fn(async ({ collection }: { collection: string }) => ({
+      docs: collection === 'reference-ranking-profiles' ? profiles : [],
+    })),
+  }
+}
+
+describe('ReferenceRankingService', () => {
+  let service: ReferenceRankingService
+
+  beforeEach(() => {
+    service = new ReferenceRankingService()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('filters candidates and keeps the master reference out of era checks', () => {
+    const all = service.collectCandidates(character, { includeMaster: true })
+    expect(all).toHaveLength(9)
+    expect(all[0]).toMatchObject({ id: 'master', source: 'master' })
+
+    const core = service.filterCandidates(all, {
+      coreOnly: true,
+      requireReferenceShot: true,
+      includeAddonShots: false,
+      minQualityScore: 70,
+      era: null,
+    })
+    expect(core.map((candidate) => candidate.mediaId)).toEqual(['front-mcu', 'profile-cu', 'full'])
+
+    const child = service.filterCandidates(all, { era: character.eras[0] as any, requireDinoAsset: true })
+    expect(child.map((candidate) => candidate.mediaId)).toEqual(['master', 'child'])
+  })
+
+  it('reads explicit framing from the prompt', () => {
+    expect(extractShotCues('Worried close-up in profile, 85mm')).toEqual({
+      lens: 85,
+      crop: 'cu',
+      angle: 'profile',
+      expression: 'concerned',
+    })
+    expect(extractShotCues('She walks into the room')).toEqual({})
+  })
+
+  it('ranks by the prompt and explains each pick', async () => {
+    const { ranked, weights, profile } = await service.rankForCharacter(character, 'A close-up in profile', {
+      filters: { coreOnly: true, includeAddonShots: false, minQualityScore: 70 },
+    })
+
+    expect(profile).toBeNull()
+    expect(weights).toEqual(REFERENCE_RANKING_CONFIG.defaultWeights)
+    expect(ranked[0].mediaId).toBe('profile-cu')
+    expect(ranked[0].reasons).toContain('close-up framing as requested')
+    expect(ranked[0].features.angle).toMatchObject({ score: 1, weight: 15 })
+    // Outfit only counts when an outfit is requested
+    expect(ranked[0].features.outfit).toBeUndefined()
+
+    const dressed = await service.rankForCharacter(character, 'Walking down the street', {
+      includeMaster: true,
+      filters: { requireDinoAsset: true },
+      outfitId: 'red-coat',
+    })
+    expect(dressed.ranked[0].mediaId).toBe('red')
+    expect(dressed.ranked[0].reasons[0]).toBe('Already wearing the requested outfit')
+  })
+
+  it('uses the project profile over the global one and falls back to defaults', async () => {
+    const payload = fakePayload([
+      { id: 'p2', name: 'Other project', projectId: 'proj-2', isActive: true, weights: { lens: 0 } },
+      { id: 'p1', name: 'Close-ups', projectId: 'proj-1', isActive: true, weights: { crop: 80, tags: null } },
+      { id: 'g', name: 'Studio', projectId: null, isActive: true, weights: { crop: 40 } },
+    ])
+
+    const project = await service.rankForCharacter(character, 'A close-up', { payload })
+    expect(project.profile).toEqual({ id: 'p1', name: 'Close-ups' })
+    expect(project.weights).toMatchObject({ crop: 80, tags: REFERENCE_RANKING_CONFIG.defaultWeights.tags })
+    expect(await service.getWeights(payload, 'proj-3')).toMatchObject({ crop: 40, lens: 20 })
+    expect(payload.find).toHaveBeenCalledTimes(1)
+
+    service.clearCache()
+    await service.getWeights(payload, 'proj-2')
+    expect(payload.find).toHaveBeenCalledTimes(2)
+    expect(service.describeWeights({ ...REFERENCE_RANKING_CONFIG.defaultWeights, lens: 0 })).not.toHaveProperty('lens')
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const broken = { find: vi.fn().mockRejectedValue(new Error('db down')) }
+    expect(await new ReferenceRankingService().getWeights(broken, 'proj-1')).toEqual(
+      REFERENCE_RANKING_CONFIG.defaultWeights
+    )
+    expect(warn).toHaveBeenCalled()
+  })
+
+  it('gives both reference finders the same ranking', async () => {
+    const payload = fakePayload()
+    const prompt = 'Worried close-up in profile during the argument'
+
+    const expected = await service.rankForCharacter(character, prompt, {
+      payload,
+      filters: { coreOnly: true, requireReferenceShot: true, includeAddonShots: false, minQualityScore: 70, era: null },
+    })
+
+    const promptSearch = await new ReferenceSearchService().findBestReference('char-1', prompt, payload, {
+      minQualityScore: 70,
+    })
+    expect(promptSearch.bestMatch?.imageId).toBe(expected.ranked[0].mediaId)
+    expect(promptSearch.bestMatch?.confidence).toBeCloseTo(expected.ranked[0].score)
+    expect(promptSearch.bestMatch?.reasoning).toBe(expected.ranked[0].reasons.join('; '))
+
+    const sceneSearch = await new EnhancedReferenceSearchService(payload).findBestReferenceForScene('char-1', prompt, {
+      minQualityScore: 70,
+      includeAlternatives: true,
+    })
+    expect(sceneSearch.selectedImage?.mediaId).toBe(expected.ranked[0].mediaId)
+    expect(sceneSearch.reasoning).toContain('Overall compatibility score')
+    expect(sceneSearch.alternatives?.[0].scores.crop).toBeTypeOf('number')
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseSceneRules, evaluateSceneRules, validateSceneRules } from '@/lib/utils/scene-rules'
+import { SCENE_ANALYSIS_CONFIG } from '@/lib/config/scene-analysis'
+import { SceneAnalysisService } from '@/services/SceneAnalysisService'
+
+const RULES = `# Project rules
+sceneType action when brawl or "gun drawn"
+sceneType dialogue when argu*
+tone tense x2 when (argu* or shout*) and not laugh*
+`
+
+function fakePayload(docs: any[]) {
+  return {
+    find: vi.fn(async (_args: any) => ({ docs })),
+  }
+}
+
+function llmResponse(content: string) {
+  return new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('Scene rules DSL', () => {
+  it('parses rules and reports the line of syntax errors', () => {
+    const rules = parseSceneRules(RULES)
+    expect(rules).toHaveLength(3)
+    expect(rules[2]).toMatchObject({ target: 'tone', value: 'tense', weight: 2, line: 4 })
+
+    expect(validateSceneRules(RULES)).toBe(true)
+    expect(validateSceneRules('sceneType brawl when fight')).toMatch(/^Line 1: unknown scene type "brawl"/)
+    expect(validateSceneRules('# ok\ntone tense when (fight or')).toMatch(/^Line 2: /)
+    expect(validateSceneRules('tone tense when "gun drawn')).toBe('Line 1: unclosed quote')
+    expect(validateSceneRules('tone tense when fight shout')).toMatch(/join terms with and\/or/)
+    expect(validateSceneRules('# only comments')).toBe('Add at least one rule')
+  })
+
+  it('matches phrases, prefixes and negation on word boundaries', () => {
+    const rules = parseSceneRules(RULES)
+
+    const argument = evaluateSceneRules(rules, 'They are arguing loudly in the kitchen.')
+    expect(argument.sceneType).toBe('dialogue')
+    expect(argument.emotionalTone).toBe('tense')
+    expect(argument.confidence).toBe(90)
+
+    const laughing = evaluateSceneRules(rules, 'An argument that ends with everyone laughing.')
+    expect(laughing.emotionalTone).toBeNull()
+
+    const gun = evaluateSceneRules(rules, 'A GUN   DRAWN across the table')
+    expect(gun.sceneType).toBe('action')
+
+    // "brawler" is not "brawl"
+    expect(evaluateSceneRules(rules, 'The brawler sleeps.').matchedRules).toHaveLength(0)
+  })
+})
+
+describe('SceneAnalysisService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the keyword backend as default and caches by description', async () => {
+    const service = new SceneAnalysisService()
+    const engine = (service as any).engine
+    const spy = vi.spyOn(engine, 'analyzeSceneContext')
+
+    const first = await service.analyze('Two friends talking in a quiet cafe')
+    const second = await service.analyze('  two friends TALKING in a quiet   cafe ')
+
+    expect(first.backend).toBe('keyword')
+    expect(first.sceneType).toBe('dialogue')
+    expect(second).toBe(first)
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  it('classifies with project and global rule sets and records the backend', async () => {
+    const service = new SceneAnalysisService()
+    const payload = fakePayload([
+      { id: 'global', name: 'Global', projectId: null, updatedAt: '1', rules: 'sceneType action when brawl' },
+      { id: 'mine', name: 'Mine', projectId: 'project-a', updatedAt: '1', rules: 'tone dramatic when brawl' },
+      { id: 'other', name: 'Other', projectId: 'project-b', updatedAt: '1', rules: 'tone intimate when brawl' },
+    ])
+
+    const analysis = await service.analyze('A brawl erupts in the saloon', {
+      payload,
+      projectId: 'project-a',
+      backend: 'rules',
+    })
+    expect(analysis).toMatchObject({ backend: 'rules', sceneType: 'action', emotionalTone: 'dramatic' })
+    expect(analysis.reasoning).toContain('Rules matched')
+
+    // No rule matches: keyword analysis, marked as a fallback
+    const fallback = await service.analyze('Two friends talking', { payload, projectId: 'project-a', backend: 'rules' })
+    expect(fallback).toMatchObject({ backend: 'keyword', fallbackFrom: 'rules', sceneType: 'dialogue' })
+
+    // Rule sets are loaded once until the cache is cleared
+    expect(payload.find).toHaveBeenCalledTimes(1)
+    service.clearCache()
+    await service.analyze('A brawl erupts in the saloon', { payload, projectId: 'project-a', backend: 'rules' })
+    expect(payload.find).toHaveBeenCalledTimes(2)
+  })
+
+  it('asks the local LLM and falls back to keywords when it fails or answers badly', async () => {
+    const original = { ...SCENE_ANALYSIS_CONFIG.llm }
+    SCENE_ANALYSIS_CONFIG.llm.endpoint = 'http://localhost:11434/v1/chat/completions'
+
+    try {
+      const service = new SceneAnalysisService()
+      const fetchMock = vi.fn(async (_url: any, _init?: any) =>
+        llmResponse('```json\n{"sceneType": "Emotional", "emotionalTone": "intimate", "confidence": 140, "reasoning": "Quiet goodbye"}\n```')
+      )
+      vi.stubGlobal('fetch', fetchMock)
+
+      const analysis = await service.analyze('She leaves without a word', { backend: 'llm' })
+      expect(analysis).toMatchObject({
+        backend: 'llm',
+        sceneType: 'emotional',
+        emotionalTone: 'intimate',
+        confidence: 100,
+      })
+      expect(analysis.reasoning).toMatch(/^Model: Quiet goodbye\. /)
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+      expect(body.model).toBe(SCENE_ANALYSIS_CONFIG.llm.model)
+      expect(body.messages[1].content).toBe('She leaves without a word')
+
+      fetchMock.mockImplementation(async () => llmResponse('{"sceneType": "montage", "emotionalTone": "tense"}'))
+      const invalid = await service.analyze('A fight in the rain', { backend: 'llm' })
+      expect(invalid).toMatchObject({ backend: 'keyword', fallbackFrom: 'llm', sceneType: 'action' })
+
+      fetchMock.mockImplementation(async () => new Response('model not loaded', { status: 503 }))
+      const failed = await service.analyze('A fight in the rain', { backend: 'llm' })
+      expect(failed).toMatchObject({ backend: 'keyword', fallbackFrom: 'llm' })
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+    } finally {
+      Object.assign(SCENE_ANALYSIS_CONFIG.llm, original)
+    }
+  })
+})
@@ -0,0 +1,121 @@
+import path from 'path'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import {
+  classificationMetrics,
+  setMetrics,
+  firstHitRank,
+  rankingMetrics,
+  calibrationMetrics,
+} from '@/lib/utils/evaluation-metrics'
+import { SceneEvaluationService, SceneEvaluationReport } from '@/services/SceneEvaluationService'
+
+const FIXTURES = path.resolve(__dirname, '../fixtures/scene-evaluation.json')
+
+describe('Evaluation metrics', () => {
+  it('computes per-label precision and recall', () => {
+    const metrics = classificationMetrics([
+      { expected: 'action', predicted: 'action' },
+      { expected: 'action', predicted: 'dialogue' },
+      { expected: 'dialogue', predicted: 'dialogue' },
+      { expected: 'emotional', predicted: 'dialogue' },
+    ])
+
+    expect(metrics.accuracy).toBe(0.5)
+    expect(metrics.labels.action).toMatchObject({ precision: 1, recall: 0.5, support: 2 })
+    expect(metrics.labels.dialogue.precision).toBeCloseTo(1 / 3)
+    expect(metrics.labels.emotional).toMatchObject({ precision: 0, recall: 0, f1: 0 })
+    expect(metrics.macroRecall).toBeCloseTo((0.5 + 1 + 0) / 3)
+
+    expect(setMetrics([{ expected: ['cu', 'mcu'], predicted: ['cu', '3q', 'full'] }])).toMatchObject({
+      precision: 1 / 3,
+      recall: 0.5,
+    })
+  })
+
+  it('scores top-k hits and calibration', () => {
+    expect(firstHitRank(['a', 'b', 'c'], ['c', 'b'])).toBe(2)
+    expect(firstHitRank(['a'], ['z'])).toBeNull()
+
+    const ranking = rankingMetrics([1, 3, null, 2], [1, 3])
+    expect(ranking.hitRate).toEqual({ top1: 0.25, top3: 0.75 })
+    expect(ranking.mrr).toBeCloseTo((1 + 1 / 3 + 0 + 0.5) / 4)
+
+    const calibration = calibrationMetrics([
+      { confidence: 0.9, correct: true },
+      { confidence: 0.9, correct: false },
+      { confidence: 1, correct: true },
+      { confidence: 0.1, correct: false },
+    ])
+    expect(calibration.bins.map((bin) => bin.count)).toEqual([1, 3])
+    // |0.1 - 0| + 3 * |0.933 - 0.667|, over 4 points
+    expect(calibration.ece).toBeCloseTo((0.1 + 3 * Math.abs(2.8 / 3 - 2 / 3)) / 4)
+    expect(calibration.brier).toBeCloseTo((0.01 + 0.81 + 0 + 0.01) / 4)
+  })
+})
+
+describe('SceneEvaluationService', () => {
+  const service = new SceneEvaluationService()
+  let report: SceneEvaluationReport
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    report = await service.evaluate(await service.loadFixtures(FIXTURES), { commit: 'base' })
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('rejects fixtures with unknown labels or images', () => {
+    expect(service.validateFixtures({ version: 1, scenes: [] })).toBe('scenes must be a non-empty array')
+    expect(
+      service.validateFixtures({ version: 1, scenes: [{ id: 'a', description: 'x', expected: { sceneType: 'montage' } }] })
+    ).toBe('Scene "a": unknown sceneType "montage"')
+    expect(
+      service.validateFixtures({
+        version: 1,
+        galleries: { cast: [{ imageFile: 'img-1' }] },
+        scenes: [{ id: 'a', description: 'x', expected: {}, references: { gallery: 'cast', expected: ['img-2'] } }],
+      })
+    ).toBe('Scene "a": image "img-2" is not in gallery "cast"')
+  })
+
+  it('scores the bundled fixtures with both reference finders', () => {
+    expect(report.fixtureCount).toBeGreaterThanOrEqual(10)
+    expect(report.backend).toBe('keyword')
+
+    for (const finder of ['prompt', 'scene'] as const) {
+      const metrics = report.summary.references[finder]
+      expect(metrics.cases).toBe(report.fixtureCount)
+      expect(metrics.hitRate.top3).toBeGreaterThanOrEqual(metrics.hitRate.top1)
+    }
+
+    const diner = report.cases.find((item) => item.id === 'diner-argument')!
+    expect(diner.predicted).toMatchObject({ sceneType: 'dialogue', emotionalTone: 'tense', backend: 'keyword' })
+    expect(diner.references?.scene?.ranked.length).toBeGreaterThan(1)
+  })
+
+  it('reports regressions and fixed fixtures between two reports', () => {
+    const head: SceneEvaluationReport = structuredClone(report)
+    head.commit = 'head'
+    const diner = head.cases.find((item) => item.id === 'diner-argument')!
+    diner.predicted.sceneType = 'action'
+    head.summary.sceneType.accuracy -= 0.1
+    head.summary.analysisCalibration.ece -= 0.05
+
+    const comparison = service.compareReports(report, head)
+    expect(comparison.metrics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ metric: 'sceneType.accuracy', regressed: true }),
+        expect.objectContaining({ metric: 'analysisCalibration.ece', regressed: false }),
+      ])
+    )
+    expect(comparison.cases).toEqual([
+      { id: 'diner-argument', field: 'sceneType', status: 'broken', base: 'dialogue', head: 'action' },
+    ])
+    expect(comparison.regressions).toBe(2)
+    expect(service.formatComparison(comparison)).toContain('broken  diner-argument sceneType: dialogue -> action')
+
+    expect(service.compareReports(report, report)).toMatchObject({ metrics: [], cases: [], regressions: 0 })
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ScreenplayParserService } from '@/services/ScreenplayParserService'
+import { ScreenplayPlanService } from '@/services/ScreenplayPlanService'
+
+const FOUNTAIN = `Title: Night Shift
+Author: Someone
+
+INT. DINER - NIGHT #1#
+
+Rain streaks the windows. AVA wipes the counter.
+
+AVA (CONT'D)
+(quietly)
+We're closed.
+
+MARCUS
+Not for me.
+
+[[Consider a tighter opening]]
+
+CUT TO:
+
+EXT. PARKING LOT - DAWN
+
+Marcus runs to his car and speeds away in a chase.
+
+/* Cut scene
+INT. BOILER ROOM - DAY
+*/
+
+.FLASHBACK
+
+STRANGER (V.O.)
+You always come back.
+`
+
+const FDX = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    <Paragraph Type="Scene Heading"><Text>INT. OFFICE - DAY</Text></Paragraph>
+    <Paragraph Type="Action"><Text>Ava reads a letter. Her hands shake &amp; she cries.</Text></Paragraph>
+    <Paragraph Type="Character"><Text>AVA</Text></Paragraph>
+    <Paragraph Type="Parenthetical"><Text>(to herself)</Text></Paragraph>
+    <Paragraph Type="Dialogue"><Text>It can</Text><Text Style="Italic">&apos;t</Text><Text> be.</Text></Paragraph>
+  </Content>
+</FinalDraft>`
+
+const CHARACTERS = [
+  { id: 'c-ava', characterId: 'ava-stone', name: 'Ava Stone' },
+  { id: 'c-marcus', characterId: 'marcus', name: 'Marcus Reed' },
+  { id: 'c-mia', characterId: 'mia', name: 'Mia Reed' },
+]
+
+describe('ScreenplayParserService', () => {
+  const parser = new ScreenplayParserService()
+
+  it('parses Fountain scenes, cues and dialogue', () => {
+    const screenplay = parser.parse(FOUNTAIN)
+
+    expect(screenplay.format).toBe('fountain')
+    expect(screenplay.title).toBe('Night Shift')
+    expect(screenplay.scenes.map((scene) => scene.heading)).toEqual(['INT. DINER - NIGHT', 'EXT. PARKING LOT - DAWN', 'FLASHBACK'])
+
+    const [diner, parking, flashback] = screenplay.scenes
+    expect(diner).toMatchObject({ setting: 'INT', location: 'DINER', timeOfDay: 'NIGHT', characters: ['AVA', 'MARCUS'] })
+    expect(diner.action).toEqual(['Rain streaks the windows. AVA wipes the counter.'])
+    expect(diner.dialogue[0]).toEqual({ character: 'AVA', parenthetical: 'quietly', text: "We're closed." })
+    expect(parking.characters).toEqual([])
+    expect(parking.action).toHaveLength(1) // Boneyard, notes and transitions are dropped
+    expect(flashback.characters).toEqual(['STRANGER'])
+  })
+
+  it('parses Final Draft paragraphs', () => {
+    const screenplay = parser.parse(FDX)
+
+    expect(screenplay.format).toBe('fdx')
+    expect(screenplay.scenes).toHaveLength(1)
+    expect(screenplay.scenes[0].action).toEqual(['Ava reads a letter. Her hands shake & she cries.'])
+    expect(screenplay.scenes[0].dialogue).toEqual([{ character: 'AVA', parenthetical: 'to herself', text: "It can't be." }])
+  })
+
+  it('rejects text without scene headings', () => {
+    expect(() => parser.parse('Just some notes.\n\nNothing else.')).toThrow('No scene headings found')
+  })
+})
+
+describe('ScreenplayPlanService', () => {
+  const parser = new ScreenplayParserService()
+  const planner = new ScreenplayPlanService()
+
+  it('matches cues to project characters and reports the rest', () => {
+    const scenes = parser.parse(`INT. HALL - DAY\n\nAVA\nHi.\n\nREED\nHello.\n\nMARCUS\nHey.\n\nMARCUS REED\nAgain.\n\nBOB\nWho?\n`).scenes
+
+    expect(planner.matchCast(scenes, CHARACTERS)).toEqual([
+      { cue: 'AVA', characterId: 'c-ava', name: 'Ava Stone', matchedBy: 'firstName', scenes: [1] },
+      { cue: 'REED', characterId: null, name: null, matchedBy: null, candidates: ['Marcus Reed', 'Mia Reed'], scenes: [1] },
+      { cue: 'MARCUS', characterId: 'c-marcus', name: 'Marcus Reed', matchedBy: 'characterId', scenes: [1] },
+      { cue: 'MARCUS REED', characterId: 'c-marcus', name: 'Marcus Reed', matchedBy: 'name', scenes: [1] },
+      { cue: 'BOB', characterId: null, name: null, matchedBy: null, scenes: [1] },
+    ])
+  })
+
+  it('plans shots per scene and builds a batch scene request', async () => {
+    const payload = { find: vi.fn(async (_args: any) => ({ docs: CHARACTERS })) }
+    const plan = await planner.buildPlan(payload, 'project-a', parser.parse(FOUNTAIN), { storyYear: 1994 })
+
+    expect(payload.find.mock.calls[0][0].where).toEqual({ 'novelMovieIntegration.projectId': { equals: 'project-a' } })
+    expect(plan.summary).toMatchObject({ totalScenes: 3, plannedScenes: 1, skippedScenes: 2, unmatchedCues: ['STRANGER'] })
+
+    const [diner, parking] = plan.scenes
+    expect(diner).toMatchObject({
+      sceneId: 'scene-1',
+      characters: ['c-ava', 'c-marcus'],
+      characterNames: ['Ava Stone', 'Marcus Reed'],
+      environmentContext: 'Interior, diner',
+      lightingStyle: 'night, low-key practical lighting',
+      storyYear: 1994,
+      included: true,
+    })
+    expect(diner.sceneDescription).toContain('Dialogue between Ava Stone and Marcus Reed.')
+    expect(diner.requiredShots.length).toBeGreaterThan(0)
+    expect(diner.requiredShots.length).toBeLessThanOrEqual(2)
+    expect(parking).toMatchObject({ included: false, characters: [] })
+
+    expect(plan.batchRequest.projectId).toBe('project-a')
+    expect(plan.batchRequest.scenes).toEqual([
+      expect.objectContaining({ sceneId: 'scene-1', characters: ['c-ava', 'c-marcus'], requiredShots: diner.requiredShots }),
+    ])
+    expect(plan.batchRequest.scenes[0]).not.toHaveProperty('analysis')
+    expect(plan.summary.totalImages).toBe(2 * diner.requiredShots.length)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { StylePresetService, StylePreset } from '@/services/StylePresetService'
+import { ImageGenerationService } from '@/services/ImageGenerationService'
+import type { ImageProvider, ImageProviderRequest } from '@/services/ImageProvider'
+import { BUILT_IN_STYLE_SETTINGS } from '@/lib/config/style-presets'
+
+const noir: StylePreset = {
+  id: 'preset-1',
+  name: 'Noir',
+  slug: 'noir',
+  positivePrompt: 'high-contrast black and white, deep shadows',
+  negativePrompt: 'color, cartoon',
+  lighting: 'hard key light through venetian blinds',
+  colorPalette: null,
+  filmStock: 'Kodak Double-X',
+  steps: 40,
+  guidance: null,
+  strength: 0.5,
+}
+
+function createPayloadStub(presets: any[]) {
+  const queries: any[] = []
+  return {
+    queries,
+    find: async ({ where }: { where: any }) => {
+      queries.push(where)
+      return { docs: presets }
+    },
+  }
+}
+
+function createCapturingProvider() {
+  const requests: ImageProviderRequest[] = []
+  const provider: ImageProvider = {
+    name: 'local',
+    isConfigured: () => true,
+    getConfig: () => ({}),
+    generate: async (request) => {
+      requests.push(request)
+      return { imageBuffer: Buffer.from('image'), model: 'local/placeholder-v1', parameters: {} }
+    },
+  }
+  return { provider, requests }
+}
+
+describe('StylePresetService', () => {
+  const service = new StylePresetService()
+
+  it('appends the preset look to prompts', () => {
+    expect(service.applyToPrompt('Leo in a rain-soaked alley.', noir)).toBe(
+      'Leo in a rain-soaked alley. high-contrast black and white, deep shadows. ' +
+        'Lighting: hard key light through venetian blinds. Film stock look: Kodak Double-X.'
+    )
+    expect(service.applyToPrompt('Leo in a rain-soaked alley', null)).toBe('Leo in a rain-soaked alley')
+  })
+
+  it('overrides style defaults only where the preset sets a value', () => {
+    const turnaround = BUILT_IN_STYLE_SETTINGS.character_turnaround
+    expect(service.getSettings('character_turnaround', noir)).toEqual({
+      steps: 40,
+      guidance: turnaround.guidance,
+      strength: 0.5,
+    })
+    expect(service.getSettings('character_turnaround')).toEqual(turnaround)
+  })
+
+  it('finds the active preset pinned by a project', async () => {
+    const payload = createPayloadStub([{ id: 7, name: 'Noir', slug: 'noir', projectIds: ['p1'], steps: 40 }])
+
+    const preset = await service.getProjectPreset(payload, 'p1')
+    expect(preset).toMatchObject({ id: '7', slug: 'noir', steps: 40 })
+    expect(payload.queries[0].and).toContainEqual({ projectIds: { equals: 'p1' } })
+
+    expect(await service.getProjectPreset(payload, null)).toBeNull()
+    expect(payload.queries).toHaveLength(1)
+  })
+
+  it('reports projects that another preset already pins', async () => {
+    const payload = createPayloadStub([{ id: 'other', name: 'Pastel', projectIds: ['p1', 'p3'] }])
+
+    const conflicts = await service.findPinnedElsewhere(payload, ['p1', 'p2'], 'preset-1')
+    expect(conflicts).toEqual([{ projectId: 'p1', presetId: 'other', presetName: 'Pastel' }])
+    expect(payload.queries[0].id).toEqual({ not_equals: 'preset-1' })
+  })
+})
+
+describe('ImageGenerationService with a style preset', () => {
+  it('sends the preset prompt, negative prompt and sampler settings to the provider', async () => {
+    const { provider, requests } = createCapturingProvider()
+    const service = new ImageGenerationService(provider)
+
+    await service.generateImage('Leo reading a letter', { style: 'custom', stylePreset: noir, guidance: 9 })
+
+    expect(requests[0].prompt).toContain('Lighting: hard key light through venetian blinds')
+    expect(requests[0]).toMatchObject({ steps: 40, guidance: 9, negativePrompt: 'color, cartoon' })
+    // Strength only applies to image-to-image generation
+    expect(requests[0].strength).toBeUndefined()
+  })
+})
@@ -0,0 +1,95 @@
+import sharp from 'sharp'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TurnaroundSheetService } from '@/services/TurnaroundSheetService'
+
+function coreImage(id: string, cameraAzimuthDeg: number, extra: Record<string, any> = {}) {
+  return {
+    imageFile: { id, url: `/media/${id}.png` },
+    isCoreReference: true,
+    referenceShot: { shotName: id, cameraAzimuthDeg, lensMm: 50, crop: 'full' },
+    crop: 'full',
+    ...extra,
+  }
+}
+
+const CHARACTER = {
+  id: 'char-1',
+  characterId: 'leo',
+  name: 'Leo',
+  height: `5'10"`,
+  imageGallery: [
+    coreImage('front-cu', 0, { crop: 'cu' }),
+    coreImage('front-full', 5),
+    coreImage('three-quarter', -45),
+    coreImage('profile', 90),
+    coreImage('back', 180),
+    coreImage('between', 65), // Too far from both three-quarter and profile
+    coreImage('scene', 0, { isCoreReference: false }),
+    coreImage('child-front', 0, { eraId: 'child' }),
+  ],
+  eras: [{ eraId: 'child', name: 'Child' }],
+}
+
+describe('TurnaroundSheetService', () => {
+  const service = new TurnaroundSheetService()
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('picks one core image per view by camera azimuth, preferring full-figure crops', () => {
+    const { panels, missingViews } = service.selectPanels(CHARACTER, { baseUrl: 'http://localhost:3000' })
+
+    expect(panels.map((panel) => [panel.view, panel.mediaId])).toEqual([
+      ['front', 'front-full'],
+      ['three_quarter', 'three-quarter'],
+      ['profile', 'profile'],
+      ['back', 'back'],
+    ])
+    expect(panels[0].imageUrl).toBe('http://localhost:3000/media/front-full.png')
+    expect(missingViews).toEqual([])
+  })
+
+  it('only uses images of the requested era', () => {
+    const { panels, missingViews } = service.selectPanels(CHARACTER, { eraId: 'child' })
+    expect(panels.map((panel) => panel.mediaId)).toEqual(['child-front'])
+    expect(missingViews).toEqual(['three_quarter', 'profile', 'back'])
+  })
+
+  it('parses metric and imperial heights', () => {
+    expect(service.parseHeightCm('178 cm')).toBe(178)
+    expect(service.parseHeightCm('1.65m')).toBe(165)
+    expect(service.parseHeightCm(`5'10"`)).toBe(178)
+    expect(service.parseHeightCm('6 ft')).toBe(183)
+    expect(service.parseHeightCm('tall')).toBeNull()
+  })
+
+  it('stores the composed sheet as media and links it to the character', async () => {
+    const image = await sharp({ create: { width: 40, height: 80, channels: 3, background: '#888888' } }).png().toBuffer()
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(image))))
+
+    const created: any[] = []
+    const updates: any[] = []
+    const payload = {
+      create: vi.fn(async (args: any) => {
+        created.push(args)
+        return { id: 'sheet-media', url: '/media/sheet.png' }
+      }),
+      findByID: vi.fn(async () => ({ turnaroundSheets: [] })),
+      update: vi.fn(async (args: any) => updates.push(args)),
+    }
+
+    const result = await service.createSheet(payload, CHARACTER, { baseUrl: 'http://localhost:3000' })
+
+    expect(result).toMatchObject({ mediaId: 'sheet-media', missingViews: [], width: 90 + 4 * 600, height: 1100 })
+    expect(created[0].context).toEqual({ skipDinoProcessing: true })
+    expect(created[0].data.alt).toBe('Leo turnaround sheet')
+
+    const metadata = await sharp(created[0].file.data).metadata()
+    expect([metadata.format, metadata.width, metadata.height]).toEqual(['png', 2490, 1100])
+
+    expect(updates[0].data.turnaroundSheets).toEqual([
+      expect.objectContaining({ image: 'sheet-media', views: 'front, three_quarter, profile, back' }),
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { UsageService } from '@/services/UsageService'
+import { enforceProjectBudget } from '@/lib/utils/budget'
+import { USAGE_CONFIG } from '@/lib/config/usage'
+
+function createPayloadStub(options: { budgets?: any[]; aggregates?: any[][]; committedShots?: number } = {}) {
+  const created: any[] = []
+  const pipelines: any[] = []
+  const jobPipelines: any[] = []
+  const aggregates = [...(options.aggregates || [])]
+  return {
+    created,
+    pipelines,
+    jobPipelines,
+    find: async ({ where }: { where: any }) => ({
+      docs: (options.budgets || []).filter((budget) => budget.projectId === where.projectId.equals),
+    }),
+    findByID: async ({ id }: { id: string }) => ({ id, novelMovieIntegration: { projectId: 'project-from-character' } }),
+    create: async ({ data }: { data: any }) => {
+      created.push(data)
+      return data
+    },
+    db: {
+      collections: {
+        'generation-usage': {
+          aggregate: async (pipeline: any[]) => {
+            pipelines.push(pipeline)
+            return aggregates.shift() || []
+          },
+        },
+        'image-generation-jobs': {
+          aggregate: async (pipeline: any[]) => {
+            jobPipelines.push(pipeline)
+            return options.committedShots ? [{ shots: options.committedShots }] : []
+          },
+        },
+      },
+    },
+  }
+}
+
+describe('UsageService', () => {
+  const service = new UsageService()
+  const imageCost = USAGE_CONFIG.modelCosts['fal-ai/nano-banana/edit']
+
+  it('records ledger entries and fills in the character\'s project', async () => {
+    const payload = createPayloadStub()
+
+    await service.recordUsage(payload, {
+      operation: 'smart-image',
+      characterId: 'char-1',
+      attempt: 2,
+      provider: 'fal',
+      model: 'fal-ai/nano-banana/edit',
+      status: 'succeeded',
+      estimatedCost: imageCost,
+    })
+
+    expect(payload.created[0]).toMatchObject({
+      operation: 'smart-image',
+      characterId: 'char-1',
+      projectId: 'project-from-character',
+      attempt: 2,
+      estimatedCost: imageCost,
+    })
+  })
+
+  it('allows, refuses or holds work depending on the project budget', async () => {
+    const budgets = [
+      { projectId: 'strict', limit: 1, period: 'total', whenExceeded: 'refuse' },
+      { projectId: 'approval', limit: 1, period: 'monthly', whenExceeded: 'approval' },
+    ]
+
+    const unbudgeted = await service.checkBudget(createPayloadStub({ budgets }), 'other', 100)
+    expect(unbudgeted.action).toBe('allow')
+
+    const fits = await service.checkBudget(createPayloadStub({ budgets, aggregates: [[{ total: 0.5 }]] }), 'strict', 0.4)
+    expect(fits).toMatchObject({ action: 'allow', spent: 0.5, remaining: 0.5 })
+
+    const refused = await service.checkBudget(createPayloadStub({ budgets, aggregates: [[{ total: 0.9 }]] }), 'strict', 0.2)
+    expect(refused.action).toBe('refuse')
+
+    const payload = createPayloadStub({ budgets, aggregates: [[{ total: 0.9 }]] })
+    const held = await service.checkBudget(payload, 'approval', 0.2)
+    expect(held.action).toBe('approval')
+    // Monthly budgets only count this month's entries
+    expect(payload.pipelines[0][0].$match.createdAt.$gte).toBeInstanceOf(Date)
+  })
+
+  it('counts the outstanding shots of queued and running jobs as spent', async () => {
+    const budgets = [{ projectId: 'strict', limit: imageCost * 10, period: 'total', whenExceeded: 'refuse' }]
+
+    const idle = await service.checkBudget(createPayloadStub({ budgets, aggregates: [[{ total: 0 }]] }), 'strict', imageCost * 5)
+    expect(idle).toMatchObject({ action: 'allow', committed: 0 })
+
+    const payload = createPayloadStub({ budgets, aggregates: [[{ total: 0 }]], committedShots: 6 })
+    const busy = await service.checkBudget(payload, 'strict', imageCost * 5)
+    expect(busy.action).toBe('refuse')
+    expect(busy.committed).toBeCloseTo(imageCost * 6)
+    expect(busy.spent).toBeCloseTo(imageCost * 6)
+    expect(payload.jobPipelines[0][0].$match).toEqual({ projectId: 'strict', status: { $in: ['pending', 'processing'] } })
+  })
+
+  it('answers 402 from generation routes when a request would go over budget', async () => {
+    const budgets = [{ projectId: 'strict', limit: imageCost * 2, period: 'total', whenExceeded: 'refuse' }]
+
+    const allowed = await enforceProjectBudget(createPayloadStub({ budgets, aggregates: [[{ total: 0 }]] }), 'strict', 2)
+    expect(allowed).toBeNull()
+
+    const refused = await enforceProjectBudget(createPayloadStub({ budgets, aggregates: [[{ total: 0 }]] }), 'strict', 3)
+    expect(refused?.status).toBe(402)
+    const body = await refused!.json()
+    expect(body.budget).toMatchObject({ projectId: 'strict', approvalRequired: false })
+  })
+
+  it('groups usage by project and character', async () => {
+    const payload = createPayloadStub({
+      budgets: [{ projectId: 'p1', limit: 10, period: 'total', whenExceeded: 'refuse' }],
+      aggregates: [
+        [
+          { _id: { projectId: 'p1', characterId: 'a' }, calls: 3, images: 2, failedCalls: 1, estimatedCost: 0.078 },
+          { _id: { projectId: 'p1', characterId: 'b' }, calls: 1, images: 1, failedCalls: 0, estimatedCost: 0.039 },
+          { _id: { characterId: 'c' }, calls: 1, images: 1, failedCalls: 0, estimatedCost: 0.039 },
+        ],
+        [{ total: 0.117 }],
+      ],
+    })
+
+    const report = await service.getReport(payload, { projectIds: ['p1'] })
+
+    expect(report.totals).toEqual({ calls: 5, images: 4, failedCalls: 1, estimatedCost: 0.156 })
+    expect(report.projects[0]).toMatchObject({
+      projectId: 'p1',
+      calls: 4,
+      estimatedCost: 0.117,
+      budget: { limit: 10, spent: 0.117, remaining: 9.883 },
+    })
+    expect(report.projects[0].characters.map((character) => character.characterId)).toEqual(['a', 'b'])
+    expect(report.projects[1]).toMatchObject({ projectId: null, budget: null })
+    expect(payload.pipelines[0][0].$match.projectId).toEqual({ $in: ['p1'] })
+  })
+})
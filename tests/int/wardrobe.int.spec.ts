@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { WardrobeService } from '@/services/WardrobeService'
+import { EnhancedPromptBuilder } from '@/services/EnhancedPromptBuilder'
+import { EnhancedCoreSetGenerationService } from '@/services/EnhancedCoreSetGenerationService'
+import { PROMPT_TEMPLATE_SCHEMAS } from '@/lib/config/prompt-templates'
+
+const character = {
+  name: 'Ava',
+  clothing: 'a grey hoodie',
+  wardrobe: [
+    {
+      outfitId: 'school-uniform',
+      name: 'School uniform',
+      description: 'navy blazer, pleated skirt',
+      referenceImages: [{ id: 'm1', dinoAssetId: 'asset-1' }, 'm2'],
+      sceneRanges: [{ fromScene: 1, toScene: 10 }],
+    },
+    {
+      outfitId: 'winter-coat',
+      name: 'Winter coat',
+      description: 'long red wool coat',
+      sceneRanges: [{ fromScene: 20, toScene: null }],
+    },
+  ],
+}
+
+const shot = {
+  shotName: 'Front',
+  lensMm: 50,
+  fStop: 2.8,
+  distanceM: 2,
+  crop: 'medium',
+  angle: 'eye-level',
+  pose: 'neutral',
+  purpose: 'reference',
+} as any
+
+describe('WardrobeService', () => {
+  const service = new WardrobeService()
+
+  it('selects outfits by ID or by scene number', () => {
+    expect(service.selectOutfit(character, { outfitId: 'winter-coat' })?.name).toBe('Winter coat')
+    expect(service.selectOutfit(character, { sceneNumber: 4 })?.outfitId).toBe('school-uniform')
+    expect(service.selectOutfit(character, { sceneNumber: 250 })?.outfitId).toBe('winter-coat')
+    expect(service.selectOutfit(character, { sceneNumber: 15 })).toBeNull()
+    expect(service.selectOutfit(character, {})).toBeNull()
+    // An explicit outfitId wins and must exist
+    expect(service.selectOutfit(character, { outfitId: 'ballgown', sceneNumber: 4 })).toBeUndefined()
+  })
+
+  it('reads reference image and asset IDs from populated media', () => {
+    const outfit = service.findOutfit(character, 'school-uniform')
+    expect(outfit?.referenceImageIds).toEqual(['m1', 'm2'])
+    expect(outfit?.referenceAssetIds).toEqual(['asset-1'])
+  })
+
+  it('rejects duplicate outfit IDs and reversed scene ranges', () => {
+    expect(service.validateWardrobe(character.wardrobe)).toBe(true)
+    expect(service.validateWardrobe([{ outfitId: 'a' }, { outfitId: 'a' }])).toContain('"a" is used more than once')
+    expect(service.validateWardrobe([{ outfitId: 'a', sceneRanges: [{ fromScene: 5, toScene: 2 }] }])).toContain(
+      'ends before it starts'
+    )
+  })
+})
+
+describe('outfits in prompts', () => {
+  const builder = new EnhancedPromptBuilder()
+  const outfit = new WardrobeService().toPromptOutfit(new WardrobeService().findOutfit(character, 'winter-coat'))
+
+  it('appends the outfit to templates without an {OUTFIT} placeholder', () => {
+    const prompt = builder.buildEnhancedPrompt(shot, { ...character, outfit }, 'https://example.com/ref.png')
+    expect(prompt.endsWith('\nWARDROBE: wearing Winter coat: long red wool coat')).toBe(true)
+
+    // Without a selected outfit the built-in template output is unchanged
+    expect(builder.buildEnhancedPrompt(shot, character, 'https://example.com/ref.png')).not.toContain('WARDROBE')
+  })
+
+  it('fills the {OUTFIT} placeholder, falling back to the usual clothing', () => {
+    const template = '{CHARACTER} {OUTFIT}'
+    expect(builder.buildEnhancedPrompt(shot, { ...character, outfit }, '', template)).toBe(
+      'Ava wearing Winter coat: long red wool coat'
+    )
+    expect(builder.buildEnhancedPrompt(shot, character, '', template)).toBe('Ava wearing a grey hoodie')
+    expect(builder.validatePrompt(template, PROMPT_TEMPLATE_SCHEMAS['reference-shot']).isValid).toBe(true)
+  })
+})
+
+describe('outfit core sets', () => {
+  const shots = [
+    { id: 'front', shotName: 'Front', priority: 1 },
+    { id: 'profile', shotName: 'Profile', priority: 1 },
+  ]
+
+  function createService() {
+    const service = new EnhancedCoreSetGenerationService()
+    vi.spyOn(service as any, 'getAllEnhancedReferenceShots').mockResolvedValue(shots)
+    vi.spyOn(service as any, 'generateEnhancedImage').mockImplementation(async (referenceShot: any, ...args: any[]) => {
+      const characterData = args[2]
+      return {
+        success: true,
+        referenceShot,
+        imageId: `${characterData.outfit?.outfitId || 'base'}-${referenceShot.id}`,
+        qualityScore: 90,
+        outfitId: characterData.outfit?.outfitId || null,
+        eraId: null,
+      }
+    })
+    return service
+  }
+
+  function createPayloadStub(imageGallery: any[]) {
+    const character: any = { id: 'char-1', imageGallery, coreSetGenerated: true }
+    return {
+      character,
+      findByID: async ({ collection }: { collection: string }) => (collection === 'characters' ? character : null),
+      update: async ({ data }: { data: any }) => Object.assign(character, data),
+    }
+  }
+
+  const galleryKeys = (gallery: any[]) =>
+    gallery.map((item) => `${item.outfitId || 'base'}:${item.referenceShot}:${item.imageFile}`).sort()
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the base set and other outfits when generating outfits one after the other', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const service = createService()
+    const payload = createPayloadStub([
+      { imageFile: 'base-front', referenceShot: 'front', isCoreReference: true },
+      { imageFile: 'base-profile', referenceShot: 'profile', isCoreReference: true },
+    ])
+    const options = { useEnhancedPrompts: false, stylePreset: null }
+
+    for (const outfitId of ['school-uniform', 'winter-coat']) {
+      const outfit = new WardrobeService().toPromptOutfit(new WardrobeService().findOutfit(character, outfitId))
+      await service.generate360CoreSetEnhanced('char-1', 'master', { ...character, outfit }, payload, options)
+    }
+
+    expect(galleryKeys(payload.character.imageGallery)).toEqual([
+      'base:front:base-front',
+      'base:profile:base-profile',
+      'school-uniform:front:school-uniform-front',
+      'school-uniform:profile:school-uniform-profile',
+      'winter-coat:front:winter-coat-front',
+      'winter-coat:profile:winter-coat-profile',
+    ])
+
+    // Regenerating one outfit, in full or shot by shot on resume, only replaces that outfit's images
+    const outfit = new WardrobeService().toPromptOutfit(new WardrobeService().findOutfit(character, 'winter-coat'))
+    await service.generate360CoreSetEnhanced('char-1', 'master', { ...character, outfit }, payload, {
+      ...options,
+      skipReferenceShotIds: ['profile'],
+      preserveExistingGallery: true,
+    })
+    await service.generate360CoreSetEnhanced('char-1', 'master', { ...character, outfit }, payload, options)
+
+    expect(payload.character.imageGallery).toHaveLength(6)
+    expect(galleryKeys(payload.character.imageGallery).filter((key) => key.startsWith('base:'))).toHaveLength(2)
+    // Outfit sets leave the base look's core set flags alone
+    expect(payload.character.enhancedGenerationMetrics).toBeUndefined()
+
+    await service.generate360CoreSetEnhanced('char-1', 'master', character, payload, options)
+    expect(payload.character.imageGallery).toHaveLength(6)
+    expect(payload.character.enhancedGenerationMetrics.totalShots).toBe(2)
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { WebhookService, webhookService, isPrivateAddress } from '@/services/WebhookService'
+import { WEBHOOK_CONFIG } from '@/lib/config/webhooks'
+import { createFakeJobModel, fakeJobsPayload } from './helpers/fake-job-model'
+
+const routeJobs: Record<string, any> = {}
+
+vi.mock('@payload-config', () => ({ default: {} }))
+vi.mock('payload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('payload')>()),
+  getPayload: async () => ({
+    find: async ({ where }: any) => ({ docs: routeJobs[where.jobId.equals] ? [routeJobs[where.jobId.equals]] : [] }),
+  }),
+}))
+vi.mock('@/lib/utils/api-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/utils/api-auth')>()),
+  authorizeJob: async () => ({ type: 'session' }),
+}))
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn(async (hostname: string) =>
+    hostname === 'rebound.example.com' ? [{ address: '10.0.0.5', family: 4 }] : [{ address: '203.0.113.10', family: 4 }]
+  )
+  return { lookup, default: { lookup } }
+})
+
+const CALLBACK = 'https://hooks.example.com/character-jobs'
+
+function job(extra: Record<string, any> = {}) {
+  return {
+    jobId: 'job-1',
+    characterId: 'char-1',
+    jobType: 'core-set',
+    status: 'processing',
+    progress: { current: 3, total: 27, percentage: 11, currentTask: 'Generating' },
+    webhook: { callbackUrl: CALLBACK, secret: 'shh' },
+    ...extra,
+  }
+}
+
+function setup(responses: Array<number | Error>) {
+  const model = createFakeJobModel([{ jobId: 'job-1', webhookDeliveries: [] }])
+  const fetchMock = vi.fn(async () => {
+    const next = responses.length > 1 ? responses.shift()! : responses[0]
+    if (next instanceof Error) throw next
+    return new Response(null, { status: next, statusText: next >= 400 ? 'Error' : 'OK' })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return { model, payload: fakeJobsPayload(model), fetchMock }
+}
+
+describe('WebhookService', () => {
+  beforeAll(() => {
+    WEBHOOK_CONFIG.initialBackoffMs = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('signs bodies as t=<timestamp>,v1=<hmac> and verifies them', () => {
+    const service = new WebhookService()
+    const body = JSON.stringify({ event: 'job.completed' })
+    const header = service.signPayload(body, 'shh', 1_700_000_000)
+
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/)
+
+    const now = service.signPayload(body, 'shh')
+    expect(service.verifySignature(body, now, 'shh')).toBe(true)
+    expect(service.verifySignature(`${body} `, now, 'shh')).toBe(false)
+    expect(service.verifySignature(body, now, 'other')).toBe(false)
+    // Outside the replay tolerance
+    expect(service.verifySignature(body, header, 'shh')).toBe(false)
+  })
+
+  it('refuses plain http and private callback targets', () => {
+    const service = new WebhookService()
+
+    expect(service.validateCallbackUrl(CALLBACK)).toBeNull()
+    expect(service.validateCallbackUrl('http://hooks.example.com/x')).toBe('callbackUrl must use https')
+    expect(service.validateCallbackUrl('ftp://hooks.example.com/x')).toBe('callbackUrl must use https')
+    expect(service.validateCallbackUrl('not a url')).toBe('callbackUrl must be a valid URL')
+
+    for (const url of [
+      'https://localhost/x',
+      'https://127.0.0.1/x',
+      'https://169.254.169.254/latest/meta-data',
+      'https://10.1.2.3/x',
+      'https://172.20.0.1/x',
+      'https://192.168.1.1/x',
+      'https://[::1]/x',
+      'https://[fd00::1]/x',
+    ]) {
+      expect(service.validateCallbackUrl(url)).toMatch(/loopback, link-local or private/)
+    }
+
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true)
+    expect(isPrivateAddress('203.0.113.10')).toBe(false)
+    expect(isPrivateAddress('172.32.0.1')).toBe(false)
+  })
+
+  it('applies the host allowlist when one is configured', () => {
+    const service = new WebhookService()
+    WEBHOOK_CONFIG.allowedHosts = ['example.com']
+    try {
+      expect(service.validateCallbackUrl(CALLBACK)).toBeNull()
+      expect(service.validateCallbackUrl('https://example.org/x')).toMatch(/not in the webhook allowlist/)
+    } finally {
+      WEBHOOK_CONFIG.allowedHosts = []
+    }
+  })
+
+  it('retries failed deliveries with signed requests and records every attempt', async () => {
+    const { model, payload, fetchMock } = setup([503, new Error('socket hang up'), 200])
+    const service = new WebhookService()
+
+    const record = await service.dispatch(payload, job({ status: 'completed', results: { success: true } }), 'job.completed')
+
+    expect(record).toMatchObject({ success: true, attempt: 3, statusCode: 200 })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    const [url, init] = fetchMock.mock.calls[0] as any
+    expect(url).toBe(CALLBACK)
+    expect(init.redirect).toBe('manual')
+    expect(init.headers[WEBHOOK_CONFIG.eventHeader]).toBe('job.completed')
+    expect(service.verifySignature(init.body, init.headers[WEBHOOK_CONFIG.signatureHeader], 'shh')).toBe(true)
+    expect(JSON.parse(init.body).data).toMatchObject({ jobId: 'job-1', status: 'completed', results: { success: true } })
+
+    const attempts = model.docs[0].webhookDeliveries
+    expect(attempts.map((item: any) => [item.attempt, item.success])).toEqual([
+      [1, false],
+      [2, false],
+      [3, true],
+    ])
+    expect(attempts[1].error).toBe('socket hang up')
+  })
+
+  it('stops on client errors and never calls targets that resolve to private addresses', async () => {
+    const { payload, fetchMock } = setup([404])
+    const service = new WebhookService()
+
+    expect(await service.dispatch(payload, job({ status: 'failed' }), 'job.failed')).toMatchObject({
+      success: false,
+      statusCode: 404,
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    const rebound = job({ status: 'failed', webhook: { callbackUrl: 'https://rebound.example.com/x' } })
+    const record = await service.dispatch(payload, rebound, 'job.failed')
+    expect(record?.error).toMatch(/resolves to a private address/)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('throttles progress events and caps the delivery log', async () => {
+    const { model, payload, fetchMock } = setup([500])
+    const service = new WebhookService()
+    const maxRecorded = WEBHOOK_CONFIG.maxRecordedDeliveries
+    WEBHOOK_CONFIG.maxRecordedDeliveries = 3
+
+    try {
+      // One attempt, no retries; the next progress event inside the interval is skipped
+      expect(await service.dispatch(payload, job(), 'job.progress')).toMatchObject({ success: false, attempt: 1 })
+      expect(await service.dispatch(payload, job(), 'job.progress')).toBeNull()
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      // Explicit replays are not throttled
+      expect(await service.dispatch(payload, job(), 'job.progress', { replay: true, maxAttempts: 1 })).not.toBeNull()
+
+      await service.dispatch(payload, job({ status: 'failed' }), 'job.failed')
+      expect(fetchMock).toHaveBeenCalledTimes(2 + WEBHOOK_CONFIG.maxAttempts)
+
+      const deliveries = model.docs[0].webhookDeliveries
+      expect(deliveries).toHaveLength(3)
+      expect(deliveries.every((item: any) => item.event === 'job.failed')).toBe(true)
+    } finally {
+      WEBHOOK_CONFIG.maxRecordedDeliveries = maxRecorded
+    }
+  })
+})
+
+describe('Webhook replays', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function replay(body: Record<string, any>) {
+    const { POST } = await import('@/app/api/v1/jobs/[jobId]/webhooks/route')
+    const request = new NextRequest('http://localhost/api/v1/jobs/job-1/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+    return POST(request, { params: Promise.resolve({ jobId: 'job-1' }) })
+  }
+
+  it('only replays the event for the job\'s current state, however it is named', async () => {
+    // Failed once, then resumed: the earlier job.failed delivery no longer describes the job
+    routeJobs['job-1'] = job({
+      webhookDeliveries: [{ deliveryId: 'd-1', event: 'job.failed', attempt: 1, success: true }],
+    })
+    const dispatch = vi.spyOn(webhookService, 'dispatch').mockResolvedValue({ success: true } as any)
+
+    expect((await replay({ deliveryId: 'd-1' })).status).toBe(409)
+    expect((await replay({ event: 'job.failed' })).status).toBe(409)
+    expect((await replay({ event: 'job.completed' })).status).toBe(409)
+    expect(dispatch).not.toHaveBeenCalled()
+
+    expect((await replay({ event: 'job.progress' })).status).toBe(200)
+    expect((await replay({})).status).toBe(200)
+    expect(dispatch).toHaveBeenCalledWith(expect.anything(), routeJobs['job-1'], 'job.progress', expect.objectContaining({ replay: true }))
+  })
+})